@@ -11,15 +11,24 @@ import {
   useState,
 } from 'react';
 import {
+  AUDIT_ACTIONS,
   SsiSdk,
   scenarioPayloadSchema,
   siteTopologySchema,
+  type AuditAction,
+  type AuditEntry,
+  type PermissionDefinition,
+  type PermissionGrants,
+  type PermissionPolicy,
+  type RoomSummary,
   type ScenarioDefinition,
   type ScenarioEvent,
   type ScenarioEventSequenceEntry,
   type ScenarioManualResetSelection,
+  type DetectionStrategyKind,
   type SiteTopology,
   type SiteZone,
+  type UserRole,
 } from '@simu-ssi/sdk';
 
 function getConfiguredApiToken(): string | undefined {
@@ -32,6 +41,12 @@ function createSocketOptions() {
   return token ? { auth: { token } } : undefined;
 }
 
+/** Salle d'exercice ciblée (`?room=<id>`) ; la salle par défaut du serveur si le paramètre est absent. */
+function getConfiguredRoomId(): string | undefined {
+  const roomId = new URLSearchParams(window.location.search).get('room')?.trim();
+  return roomId && roomId.length > 0 ? roomId : undefined;
+}
+
 
 export type DeviceKind = 'DM' | 'DAI' | 'DAS' | 'UGA';
 
@@ -42,6 +57,8 @@ interface DevicePlacement {
   xPercent: number;
   yPercent: number;
   zoneId?: string;
+  /** Temps de manœuvre d'un DAS, en millisecondes. */
+  travelTimeMs?: number;
 }
 
 const DEVICE_DEFINITIONS: Record<
@@ -76,6 +93,18 @@ const DEVICE_DEFINITIONS: Record<
 
 const DEVICE_ORDER: DeviceKind[] = ['DM', 'DAI', 'DAS', 'UGA'];
 
+/** Types de zone qui regroupent des zones de détection : alarme, sécurité, compartimentage. */
+const HIERARCHY_ZONE_KINDS = ['ZA', 'ZS', 'ZC'];
+
+const isHierarchyZone = (zone: SiteZone) =>
+  HIERARCHY_ZONE_KINDS.includes(zone.kind.trim().toUpperCase());
+
+const DETECTION_STRATEGY_LABELS: Record<DetectionStrategyKind, string> = {
+  SINGLE: 'Un détecteur',
+  DOUBLE_KNOCK: 'Coïncidence de deux détecteurs',
+  DELAYED: 'Levée de doute temporisée',
+};
+
 const formatCoordinate = (value: number) => `${value.toFixed(1)}%`;
 
 const createDeviceId = (kind: DeviceKind) => {
@@ -154,6 +183,40 @@ const SCENARIO_EVENT_OPTIONS: Array<{
   { value: 'SYSTEM_RESET', label: 'System reset' },
 ];
 
+const PERMISSION_ROLES: Array<{ role: UserRole; label: string }> = [
+  { role: 'TRAINER', label: 'Formateur' },
+  { role: 'TRAINEE', label: 'Apprenant' },
+];
+
+const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  'config.site.update': 'Configuration du site',
+  'config.layout.update': 'Disposition du poste apprenant',
+  'access.code.update': "Code d'accès",
+  'topology.publish': 'Publication de la topologie',
+  'user.create': "Création d'utilisateur",
+  'user.update': "Modification d'utilisateur",
+  'user.credentials.update': 'Identifiants utilisateur',
+  'user.delete': "Suppression d'utilisateur",
+  'user.import': "Import d'utilisateurs",
+  'permissions.update': 'Autorisations',
+  'room.create': 'Ouverture de salle',
+  'scenario.create': 'Création de scénario',
+  'scenario.update': 'Modification de scénario',
+  'scenario.delete': 'Suppression de scénario',
+};
+
+function formatAuditValue(value: unknown): string {
+  return value === null || value === undefined ? '—' : JSON.stringify(value, null, 2);
+}
+
+function groupPermissionDefinitions(definitions: PermissionDefinition[]) {
+  const groups = new Map<string, PermissionDefinition[]>();
+  definitions.forEach((definition) => {
+    groups.set(definition.group, [...(groups.get(definition.group) ?? []), definition]);
+  });
+  return Array.from(groups, ([group, entries]) => ({ group, entries }));
+}
+
 function createScenarioEventId() {
   if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
     return crypto.randomUUID();
@@ -338,7 +401,7 @@ function normalizeScenarioEventForPayload(event: ScenarioEventDraft): ScenarioEv
 
 export function AdminStudioApp() {
   const baseUrl = useMemo(() => import.meta.env.VITE_SERVER_URL ?? 'http://localhost:4500', []);
-  const sdk = useMemo(() => new SsiSdk(baseUrl, { apiToken: getConfiguredApiToken() }), [baseUrl]);
+  const sdk = useMemo(() => new SsiSdk(baseUrl, { apiToken: getConfiguredApiToken(), roomId: getConfiguredRoomId() }), [baseUrl]);
 
   const fileInputRef = useRef<HTMLInputElement | null>(null);
   const topologyFileInputRef = useRef<HTMLInputElement | null>(null);
@@ -389,6 +452,19 @@ export function AdminStudioApp() {
   const [scenarioSaveStatus, setScenarioSaveStatus] = useState<'idle' | 'saving' | 'success' | 'error'>('idle');
   const [scenarioSaveError, setScenarioSaveError] = useState<string | null>(null);
   const [draggingDeviceId, setDraggingDeviceId] = useState<string | null>(null);
+  const [permissionPolicy, setPermissionPolicy] = useState<PermissionPolicy | null>(null);
+  const [permissionRooms, setPermissionRooms] = useState<RoomSummary[]>([]);
+  const [permissionScope, setPermissionScope] = useState('');
+  const [permissionDraft, setPermissionDraft] = useState<PermissionGrants>({});
+  const [permissionStatus, setPermissionStatus] = useState<'idle' | 'saving' | 'success' | 'error'>('idle');
+  const [permissionError, setPermissionError] = useState<string | null>(null);
+  const [auditEntries, setAuditEntries] = useState<AuditEntry[]>([]);
+  const [auditCursor, setAuditCursor] = useState<number | null>(null);
+  const [auditActionFilter, setAuditActionFilter] = useState<AuditAction | ''>('');
+  const [auditActorFilter, setAuditActorFilter] = useState('');
+  const [auditActorDraft, setAuditActorDraft] = useState('');
+  const [isLoadingAudit, setIsLoadingAudit] = useState(false);
+  const [auditError, setAuditError] = useState<string | null>(null);
 
   const hasWorkspaceContent = Boolean(planImage || devices.length > 0 || planNotes.trim().length > 0);
 
@@ -490,6 +566,80 @@ export function AdminStudioApp() {
     loadScenarios();
   }, [loadScenarios]);
 
+  const loadPermissions = useCallback(async () => {
+    try {
+      const [policy, rooms] = await Promise.all([sdk.getPermissionPolicy(), sdk.listRooms()]);
+      if (!isMountedRef.current) {
+        return;
+      }
+      setPermissionPolicy(policy);
+      setPermissionRooms(rooms);
+      setPermissionError(null);
+    } catch (error) {
+      if (!isMountedRef.current) {
+        return;
+      }
+      const message = error instanceof Error ? error.message : 'Impossible de récupérer les autorisations.';
+      setPermissionError(message);
+    }
+  }, [sdk]);
+
+  useEffect(() => {
+    void loadPermissions();
+  }, [loadPermissions]);
+
+  const loadAuditEntries = useCallback(
+    async (cursor?: number) => {
+      setIsLoadingAudit(true);
+      try {
+        const page = await sdk.listAuditEntries({
+          action: auditActionFilter || undefined,
+          actorId: auditActorFilter || undefined,
+          before: cursor,
+          limit: 50,
+        });
+        if (!isMountedRef.current) {
+          return;
+        }
+        setAuditEntries((previous) => (cursor ? [...previous, ...page.entries] : page.entries));
+        setAuditCursor(page.nextCursor);
+        setAuditError(null);
+      } catch (error) {
+        if (!isMountedRef.current) {
+          return;
+        }
+        setAuditError(error instanceof Error ? error.message : "Impossible de récupérer le journal d'audit.");
+      } finally {
+        if (isMountedRef.current) {
+          setIsLoadingAudit(false);
+        }
+      }
+    },
+    [auditActionFilter, auditActorFilter, sdk],
+  );
+
+  useEffect(() => {
+    void loadAuditEntries();
+  }, [loadAuditEntries]);
+
+  // Le filtre par auteur s'applique à la demande plutôt qu'à chaque frappe.
+  const handleRefreshAudit = useCallback(() => {
+    const actorId = auditActorDraft.trim();
+    if (actorId !== auditActorFilter) {
+      setAuditActorFilter(actorId);
+    } else {
+      void loadAuditEntries();
+    }
+  }, [auditActorDraft, auditActorFilter, loadAuditEntries]);
+
+  useEffect(() => {
+    if (!permissionPolicy) {
+      return;
+    }
+    setPermissionDraft(permissionScope ? permissionPolicy.rooms[permissionScope] ?? {} : permissionPolicy.site);
+    setPermissionStatus('idle');
+  }, [permissionPolicy, permissionScope]);
+
   useEffect(() => {
     if (copyStatus === 'idle') {
       return;
@@ -850,6 +1000,23 @@ export function AdminStudioApp() {
     );
   }, []);
 
+  const handleDeviceTravelTimeChange = useCallback((deviceId: string, seconds: string) => {
+    const value = Number(seconds);
+    setDevices((previous) =>
+      previous.map((device) =>
+        device.id === deviceId
+          ? {
+              ...device,
+              travelTimeMs:
+                seconds.trim() && Number.isFinite(value) && value >= 0
+                  ? Math.round(value * 1000)
+                  : undefined,
+            }
+          : device,
+      ),
+    );
+  }, []);
+
   const handleResetPlan = useCallback(() => {
     setPlanImage(null);
     setPlanName('Aucun plan importé');
@@ -911,6 +1078,7 @@ export function AdminStudioApp() {
         const fallbackLabel = `${DEVICE_DEFINITIONS[device.kind].shortLabel} ${deviceCounts[device.kind]}`;
         const label = device.label?.trim().length ? device.label.trim() : fallbackLabel;
         const zoneId = device.zoneId && allowedZoneIds.has(device.zoneId) ? device.zoneId : undefined;
+        const travelTimeMs = (device.props as { travelTimeMs?: unknown } | undefined)?.travelTimeMs;
 
         if (device.zoneId && !zoneId) {
           warnings.push(`Zone «\u00a0${device.zoneId}\u00a0» introuvable pour le dispositif «\u00a0${device.id}\u00a0».`);
@@ -931,6 +1099,7 @@ export function AdminStudioApp() {
           xPercent: typeof xPercent === 'number' ? xPercent : fallbackCoordinates?.xPercent ?? 50,
           yPercent: typeof yPercent === 'number' ? yPercent : fallbackCoordinates?.yPercent ?? 50,
           zoneId,
+          travelTimeMs: typeof travelTimeMs === 'number' ? travelTimeMs : undefined,
         });
       }
 
@@ -1029,8 +1198,76 @@ export function AdminStudioApp() {
     [],
   );
 
+  const handleZoneAlarmZoneChange = useCallback((zoneId: string, alarmZoneId: string) => {
+    setZones((previous) =>
+      previous.map((zone) =>
+        zone.id === zoneId ? { ...zone, alarmZoneId: alarmZoneId || undefined } : zone,
+      ),
+    );
+  }, []);
+
+  const handleZoneDetectionStrategyChange = useCallback(
+    (zoneId: string, strategy: DetectionStrategyKind) => {
+      setZones((previous) =>
+        previous.map((zone) =>
+          zone.id === zoneId
+            ? {
+                ...zone,
+                detectionStrategy: strategy === 'SINGLE' ? undefined : strategy,
+                verificationDelayMs: strategy === 'DELAYED' ? zone.verificationDelayMs : undefined,
+              }
+            : zone,
+        ),
+      );
+    },
+    [],
+  );
+
+  const handleZoneVerificationDelayChange = useCallback((zoneId: string, seconds: string) => {
+    const value = Number(seconds);
+    setZones((previous) =>
+      previous.map((zone) =>
+        zone.id === zoneId
+          ? {
+              ...zone,
+              verificationDelayMs:
+                seconds.trim() && Number.isFinite(value) && value >= 0
+                  ? Math.round(value * 1000)
+                  : undefined,
+            }
+          : zone,
+      ),
+    );
+  }, []);
+
+  const handleToggleZoneSafetyZone = useCallback((zoneId: string, safetyZoneId: string) => {
+    setZones((previous) =>
+      previous.map((zone) => {
+        if (zone.id !== zoneId) {
+          return zone;
+        }
+        const current = zone.safetyZoneIds ?? [];
+        const safetyZoneIds = current.includes(safetyZoneId)
+          ? current.filter((id) => id !== safetyZoneId)
+          : [...current, safetyZoneId];
+        return { ...zone, safetyZoneIds: safetyZoneIds.length > 0 ? safetyZoneIds : undefined };
+      }),
+    );
+  }, []);
+
   const handleRemoveZone = useCallback((zoneId: string) => {
-    setZones((previous) => previous.filter((zone) => zone.id !== zoneId));
+    setZones((previous) =>
+      previous
+        .filter((zone) => zone.id !== zoneId)
+        .map((zone) => {
+          const safetyZoneIds = zone.safetyZoneIds?.filter((id) => id !== zoneId);
+          return {
+            ...zone,
+            alarmZoneId: zone.alarmZoneId === zoneId ? undefined : zone.alarmZoneId,
+            safetyZoneIds: safetyZoneIds && safetyZoneIds.length > 0 ? safetyZoneIds : undefined,
+          };
+        }),
+    );
     setDevices((previous) =>
       previous.map((device) => (device.zoneId === zoneId ? { ...device, zoneId: undefined } : device)),
     );
@@ -1041,15 +1278,24 @@ export function AdminStudioApp() {
   }, [loadTopology]);
 
   const siteTopology = useMemo<SiteTopology>(() => {
-    const sanitizedZones = zones
+    const validZones = zones
       .map((zone) => ({
+        ...zone,
         id: zone.id.trim(),
         label: zone.label.trim(),
         kind: zone.kind.trim(),
       }))
       .filter((zone): zone is SiteZone => zone.id.length > 0 && zone.label.length > 0 && zone.kind.length > 0);
 
-    const allowedZoneIds = new Set(sanitizedZones.map((zone) => zone.id));
+    const allowedZoneIds = new Set(validZones.map((zone) => zone.id));
+    const sanitizedZones = validZones.map(({ alarmZoneId, safetyZoneIds, ...zone }) => {
+      const allowedSafetyZoneIds = (safetyZoneIds ?? []).filter((id) => allowedZoneIds.has(id));
+      return {
+        ...zone,
+        alarmZoneId: alarmZoneId && allowedZoneIds.has(alarmZoneId) ? alarmZoneId : undefined,
+        safetyZoneIds: allowedSafetyZoneIds.length > 0 ? allowedSafetyZoneIds : undefined,
+      };
+    });
 
     const sanitizedDevices = devices.map((device) => {
       const zoneId = device.zoneId && allowedZoneIds.has(device.zoneId) ? device.zoneId : undefined;
@@ -1065,6 +1311,9 @@ export function AdminStudioApp() {
       if (planNotes.trim()) {
         props.planNotes = planNotes.trim();
       }
+      if (device.kind === 'DAS') {
+        props.travelTimeMs = device.travelTimeMs;
+      }
       const cleanedProps = Object.fromEntries(
         Object.entries(props).filter(([, value]) => value !== undefined),
       );
@@ -1163,6 +1412,59 @@ export function AdminStudioApp() {
     }
   }, [hasTopologyContent, loadTopology, publishStatus, sdk, siteTopology]);
 
+  const permissionGroups = useMemo(() => {
+    const definitions = permissionPolicy?.permissions ?? [];
+    // Seules les actions de portée `room` peuvent être ajustées pour une salle.
+    return groupPermissionDefinitions(
+      permissionScope ? definitions.filter((definition) => definition.scope === 'room') : definitions,
+    );
+  }, [permissionPolicy, permissionScope]);
+
+  const resolvePermissionRoles = useCallback(
+    (definition: PermissionDefinition): UserRole[] =>
+      permissionDraft[definition.id] ??
+      (permissionScope ? permissionPolicy?.site[definition.id] : undefined) ??
+      definition.defaultRoles,
+    [permissionDraft, permissionPolicy, permissionScope],
+  );
+
+  const handleTogglePermission = useCallback(
+    (definition: PermissionDefinition, role: UserRole) => {
+      const current = resolvePermissionRoles(definition);
+      const next = current.includes(role) ? current.filter((entry) => entry !== role) : [...current, role];
+      setPermissionDraft((previous) => ({
+        ...previous,
+        [definition.id]: PERMISSION_ROLES.map((entry) => entry.role).filter((entry) => next.includes(entry)),
+      }));
+      setPermissionStatus('idle');
+    },
+    [resolvePermissionRoles],
+  );
+
+  const handleSavePermissions = useCallback(async () => {
+    setPermissionStatus('saving');
+    setPermissionError(null);
+    try {
+      const updated = await sdk.updatePermissionGrants(permissionDraft, permissionScope || undefined);
+      setPermissionPolicy(updated);
+      setPermissionStatus('success');
+    } catch (error) {
+      console.error(error);
+      setPermissionStatus('error');
+      setPermissionError(error instanceof Error ? error.message : "L'enregistrement des autorisations a échoué.");
+    }
+  }, [permissionDraft, permissionScope, sdk]);
+
+  const permissionFeedbackMessage = permissionStatus === 'success'
+    ? 'Autorisations appliquées immédiatement aux requêtes et connexions.'
+    : permissionStatus === 'error'
+      ? permissionError ?? "L'enregistrement des autorisations a échoué."
+      : permissionStatus === 'saving'
+        ? 'Enregistrement en cours…'
+        : permissionScope
+          ? 'Les actions non modifiées reprennent les autorisations du site.'
+          : 'Les actions non modifiées conservent leur valeur par défaut.';
+
   const scenarioZoneOptions = useMemo(() => {
     const sourceZones =
       scenarioDraft?.topology?.zones && scenarioDraft.topology.zones.length > 0
@@ -1441,6 +1743,8 @@ export function AdminStudioApp() {
             : 'Chargez un scenario pour demarrer.';
 
   const isAddZoneDisabled = !newZoneId.trim() || !newZoneLabel.trim() || !newZoneKind.trim();
+  const alarmZones = zones.filter((zone) => zone.kind.trim().toUpperCase() === 'ZA');
+  const safetyZones = zones.filter((zone) => ['ZS', 'ZC'].includes(zone.kind.trim().toUpperCase()));
   const publishFeedbackMessage = publishStatus === 'success'
     ? 'Plan synchronisé avec les postes formateur et apprenant.'
     : publishStatus === 'error'
@@ -1626,6 +1930,19 @@ export function AdminStudioApp() {
                           ))}
                         </select>
                       </label>
+                      {device.kind === 'DAS' ? (
+                        <label className="device-zone">
+                          <span>Temps de manœuvre (s)</span>
+                          <input
+                            type="number"
+                            min={0}
+                            step={0.5}
+                            value={device.travelTimeMs !== undefined ? device.travelTimeMs / 1000 : ''}
+                            placeholder="5"
+                            onChange={(event) => handleDeviceTravelTimeChange(device.id, event.target.value)}
+                          />
+                        </label>
+                      ) : null}
                     </div>
                     <div className="device-list__actions">
                       <button type="button" className="button button-ghost" onClick={() => handleRenameDevice(device.id)}>
@@ -1935,7 +2252,7 @@ export function AdminStudioApp() {
                     type="text"
                     value={newZoneKind}
                     onChange={(event) => setNewZoneKind(event.target.value)}
-                    placeholder="ZF, ZS, TA…"
+                    placeholder="ZD, ZA, ZS, ZC…"
                   />
                 </label>
               </div>
@@ -1976,6 +2293,76 @@ export function AdminStudioApp() {
                           onChange={(event) => handleZoneFieldChange(zone.id, 'kind', event.target.value)}
                         />
                       </label>
+                      {!isHierarchyZone(zone) && (
+                        <label className="field">
+                          <span className="field-label">Zone d&apos;alarme (ZA)</span>
+                          <select
+                            value={zone.alarmZoneId ?? ''}
+                            onChange={(event) => handleZoneAlarmZoneChange(zone.id, event.target.value)}
+                          >
+                            <option value="">La zone elle-même</option>
+                            {alarmZones.map((alarmZone) => (
+                              <option key={alarmZone.id} value={alarmZone.id}>
+                                {alarmZone.label} ({alarmZone.id})
+                              </option>
+                            ))}
+                          </select>
+                        </label>
+                      )}
+                      {!isHierarchyZone(zone) && (
+                        <label className="field">
+                          <span className="field-label">Détection DAI</span>
+                          <select
+                            value={zone.detectionStrategy ?? 'SINGLE'}
+                            onChange={(event) =>
+                              handleZoneDetectionStrategyChange(
+                                zone.id,
+                                event.target.value as DetectionStrategyKind,
+                              )
+                            }
+                          >
+                            {Object.entries(DETECTION_STRATEGY_LABELS).map(([value, label]) => (
+                              <option key={value} value={value}>
+                                {label}
+                              </option>
+                            ))}
+                          </select>
+                        </label>
+                      )}
+                      {!isHierarchyZone(zone) && zone.detectionStrategy === 'DELAYED' && (
+                        <label className="field">
+                          <span className="field-label">Délai de reconnaissance (s)</span>
+                          <input
+                            type="number"
+                            min={0}
+                            step={10}
+                            value={
+                              zone.verificationDelayMs !== undefined
+                                ? zone.verificationDelayMs / 1000
+                                : ''
+                            }
+                            placeholder="180"
+                            onChange={(event) =>
+                              handleZoneVerificationDelayChange(zone.id, event.target.value)
+                            }
+                          />
+                        </label>
+                      )}
+                      {!isHierarchyZone(zone) && safetyZones.length > 0 && (
+                        <fieldset className="field zone-list__safety">
+                          <legend className="field-label">Zones de sécurité (ZS / ZC)</legend>
+                          {safetyZones.map((safetyZone) => (
+                            <label key={safetyZone.id} className="zone-list__safety-option">
+                              <input
+                                type="checkbox"
+                                checked={zone.safetyZoneIds?.includes(safetyZone.id) ?? false}
+                                onChange={() => handleToggleZoneSafetyZone(zone.id, safetyZone.id)}
+                              />
+                              {safetyZone.label} ({safetyZone.id})
+                            </label>
+                          ))}
+                        </fieldset>
+                      )}
                     </div>
                   </li>
                 ))}
@@ -2048,6 +2435,145 @@ export function AdminStudioApp() {
               </div>
             </div>
           </section>
+          <section className="panel">
+            <h2>Autorisations</h2>
+            <p>
+              Choisissez, action par action, les rôles autorisés. L'administrateur conserve tous les droits ; une
+              salle peut restreindre ou étendre les commandes d'exercice du site.
+            </p>
+            {!permissionPolicy ? (
+              <p className="empty-state">{permissionError ?? 'Chargement des autorisations…'}</p>
+            ) : (
+              <div className="permission-admin">
+                <label className="field">
+                  <span className="field-label">Portée</span>
+                  <select value={permissionScope} onChange={(event) => setPermissionScope(event.target.value)}>
+                    <option value="">Site (toutes les salles)</option>
+                    {permissionRooms.map((room) => (
+                      <option key={room.id} value={room.id}>
+                        Salle « {room.name} »
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                {permissionGroups.map(({ group, entries }) => (
+                  <fieldset key={group} className="permission-admin__group">
+                    <legend>{group}</legend>
+                    {entries.map((definition) => {
+                      const roles = resolvePermissionRoles(definition);
+                      return (
+                        <div key={definition.id} className="permission-admin__row">
+                          <span className="permission-admin__label">
+                            {definition.label}
+                            {permissionDraft[definition.id] && <small> (modifié)</small>}
+                          </span>
+                          {PERMISSION_ROLES.map(({ role, label }) => (
+                            <label key={role} className="permission-admin__role">
+                              <input
+                                type="checkbox"
+                                checked={roles.includes(role)}
+                                onChange={() => handleTogglePermission(definition, role)}
+                              />
+                              {label}
+                            </label>
+                          ))}
+                        </div>
+                      );
+                    })}
+                  </fieldset>
+                ))}
+                <div className="button-row">
+                  <button
+                    type="button"
+                    className="button"
+                    onClick={() => setPermissionDraft({})}
+                    disabled={permissionStatus === 'saving' || Object.keys(permissionDraft).length === 0}
+                  >
+                    {permissionScope ? 'Reprendre les réglages du site' : 'Revenir aux valeurs par défaut'}
+                  </button>
+                  <button
+                    type="button"
+                    className="button button-primary"
+                    onClick={handleSavePermissions}
+                    disabled={permissionStatus === 'saving'}
+                  >
+                    {permissionStatus === 'saving' ? 'Enregistrement…' : 'Enregistrer les autorisations'}
+                  </button>
+                </div>
+                <span className={`topology-publish-feedback topology-publish-feedback--${permissionStatus}`}>
+                  {permissionFeedbackMessage}
+                </span>
+              </div>
+            )}
+          </section>
+          <section className="panel">
+            <h2>Journal d'audit</h2>
+            <p>
+              Chaque modification de configuration, de codes d'accès, de topologie, d'utilisateurs, de disposition,
+              d'autorisations ou de scénarios est consignée avec son auteur et les valeurs avant / après.
+            </p>
+            <div className="audit-log__filters">
+              <select
+                value={auditActionFilter}
+                onChange={(event) => setAuditActionFilter(event.target.value as AuditAction | '')}
+              >
+                <option value="">Toutes les actions</option>
+                {AUDIT_ACTIONS.map((action) => (
+                  <option key={action} value={action}>
+                    {AUDIT_ACTION_LABELS[action]}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={auditActorDraft}
+                onChange={(event) => setAuditActorDraft(event.target.value)}
+                placeholder="Identifiant de l'auteur"
+              />
+              <button
+                type="button"
+                className="button"
+                onClick={handleRefreshAudit}
+                disabled={isLoadingAudit}
+              >
+                {isLoadingAudit ? 'Chargement…' : 'Actualiser'}
+              </button>
+            </div>
+            {auditError && <p className="topology-publish-feedback topology-publish-feedback--error">{auditError}</p>}
+            {auditEntries.length === 0 ? (
+              <p className="empty-state">{isLoadingAudit ? 'Chargement du journal…' : 'Aucune modification consignée.'}</p>
+            ) : (
+              <ul className="audit-log">
+                {auditEntries.map((entry) => (
+                  <li key={entry.id} className="audit-log__entry">
+                    <div className="audit-log__header">
+                      <strong>{AUDIT_ACTION_LABELS[entry.action]}</strong>
+                      {entry.target && <code>{entry.target}</code>}
+                      {entry.roomId && <span className="audit-log__room">Salle {entry.roomId}</span>}
+                    </div>
+                    <small className="audit-log__meta">
+                      {new Date(entry.createdAt).toLocaleString('fr-FR')} —{' '}
+                      {entry.actorName ?? entry.actorId ?? entry.actorLabel ?? 'Auteur inconnu'}
+                    </small>
+                    <div className="audit-log__diff">
+                      <pre>{formatAuditValue(entry.before)}</pre>
+                      <pre>{formatAuditValue(entry.after)}</pre>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {auditCursor !== null && (
+              <button
+                type="button"
+                className="button"
+                onClick={() => void loadAuditEntries(auditCursor)}
+                disabled={isLoadingAudit}
+              >
+                Entrées plus anciennes
+              </button>
+            )}
+          </section>
         </aside>
       </div>
     </div>
@@ -0,0 +1,10 @@
+-- Periodic checkpoint of the simulation clock used to resume the domain state after a restart.
+CREATE TABLE "DomainCheckpoint" (
+  "id" INTEGER NOT NULL PRIMARY KEY DEFAULT 1,
+  "simulatedAt" REAL NOT NULL,
+  "clockMode" TEXT NOT NULL DEFAULT 'realtime',
+  "clockSpeed" INTEGER NOT NULL DEFAULT 1,
+  "lastEventId" INTEGER,
+  "snapshotJson" TEXT NOT NULL,
+  "updatedAt" DATETIME NOT NULL
+);
@@ -0,0 +1,46 @@
+-- Simulation rooms: each room runs its own domain, session, topology and layout.
+-- Existing rows belong to the default room.
+CREATE TABLE "Room" (
+  "id" TEXT NOT NULL PRIMARY KEY,
+  "name" TEXT NOT NULL,
+  "layoutJson" TEXT,
+  "topologyJson" TEXT,
+  "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+ALTER TABLE "Session" ADD COLUMN "roomId" TEXT NOT NULL DEFAULT 'default';
+CREATE INDEX "Session_roomId_idx" ON "Session"("roomId");
+
+ALTER TABLE "EventLog" ADD COLUMN "roomId" TEXT NOT NULL DEFAULT 'default';
+CREATE INDEX "EventLog_roomId_idx" ON "EventLog"("roomId");
+
+ALTER TABLE "ManualCallPoint" ADD COLUMN "roomId" TEXT NOT NULL DEFAULT 'default';
+CREATE INDEX "ManualCallPoint_roomId_zoneId_idx" ON "ManualCallPoint"("roomId", "zoneId");
+
+CREATE TABLE "new_ProcessAck" (
+  "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+  "roomId" TEXT NOT NULL DEFAULT 'default',
+  "isAcked" BOOLEAN NOT NULL DEFAULT false,
+  "ackedBy" TEXT,
+  "ackedAt" DATETIME,
+  "clearedAt" DATETIME
+);
+INSERT INTO "new_ProcessAck" ("id", "roomId", "isAcked", "ackedBy", "ackedAt", "clearedAt")
+SELECT "id", 'default', "isAcked", "ackedBy", "ackedAt", "clearedAt" FROM "ProcessAck" WHERE "id" = 1;
+DROP TABLE "ProcessAck";
+ALTER TABLE "new_ProcessAck" RENAME TO "ProcessAck";
+CREATE UNIQUE INDEX "ProcessAck_roomId_key" ON "ProcessAck"("roomId");
+
+CREATE TABLE "new_DomainCheckpoint" (
+  "roomId" TEXT NOT NULL PRIMARY KEY DEFAULT 'default',
+  "simulatedAt" REAL NOT NULL,
+  "clockMode" TEXT NOT NULL DEFAULT 'realtime',
+  "clockSpeed" INTEGER NOT NULL DEFAULT 1,
+  "lastEventId" INTEGER,
+  "snapshotJson" TEXT NOT NULL,
+  "updatedAt" DATETIME NOT NULL
+);
+INSERT INTO "new_DomainCheckpoint" ("roomId", "simulatedAt", "clockMode", "clockSpeed", "lastEventId", "snapshotJson", "updatedAt")
+SELECT 'default', "simulatedAt", "clockMode", "clockSpeed", "lastEventId", "snapshotJson", "updatedAt" FROM "DomainCheckpoint" WHERE "id" = 1;
+DROP TABLE "DomainCheckpoint";
+ALTER TABLE "new_DomainCheckpoint" RENAME TO "DomainCheckpoint";
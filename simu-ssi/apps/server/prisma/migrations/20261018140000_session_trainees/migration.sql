@@ -0,0 +1,15 @@
+-- Sessions with several trainees: the team lives in SessionTrainee, Session.traineeId stays the
+-- lead trainee. EventLog records the user who issued each command.
+CREATE TABLE "SessionTrainee" (
+  "sessionId" TEXT NOT NULL,
+  "userId" TEXT NOT NULL,
+  "joinedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY ("sessionId", "userId"),
+  CONSTRAINT "SessionTrainee_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "Session" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+  CONSTRAINT "SessionTrainee_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "SessionTrainee" ("sessionId", "userId", "joinedAt")
+SELECT "id", "traineeId", "startedAt" FROM "Session" WHERE "traineeId" IS NOT NULL;
+
+ALTER TABLE "EventLog" ADD COLUMN "actorId" TEXT REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
+CREATE INDEX "EventLog_actorId_idx" ON "EventLog"("actorId");
@@ -0,0 +1,15 @@
+-- Per-user accounts: each User may hold a hashed password or PIN, and every login opens an
+-- AuthSession whose refresh token is stored hashed.
+ALTER TABLE "User" ADD COLUMN "credentialHash" TEXT;
+
+CREATE TABLE "AuthSession" (
+  "id" TEXT NOT NULL PRIMARY KEY,
+  "userId" TEXT NOT NULL,
+  "refreshTokenHash" TEXT NOT NULL,
+  "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "expiresAt" DATETIME NOT NULL,
+  "revokedAt" DATETIME,
+  CONSTRAINT "AuthSession_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+CREATE UNIQUE INDEX "AuthSession_refreshTokenHash_key" ON "AuthSession"("refreshTokenHash");
+CREATE INDEX "AuthSession_userId_idx" ON "AuthSession"("userId");
@@ -0,0 +1,9 @@
+-- Per-action permissions: each row overrides the default roles of one action, either for the whole
+-- site (scope "*") or for a single room (scope = Room.id).
+CREATE TABLE "PermissionGrant" (
+  "scope" TEXT NOT NULL,
+  "permission" TEXT NOT NULL,
+  "rolesJson" TEXT NOT NULL,
+  "updatedAt" DATETIME NOT NULL,
+  PRIMARY KEY ("scope", "permission")
+);
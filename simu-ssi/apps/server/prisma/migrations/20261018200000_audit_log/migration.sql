@@ -0,0 +1,17 @@
+-- Audit trail of administrative changes (site configuration, access codes, topology, users, trainee
+-- layout, permissions, rooms, scenarios). actorId is kept without a foreign key so that entries
+-- outlive the users who made them.
+CREATE TABLE "AuditLog" (
+  "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+  "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "actorId" TEXT,
+  "actorLabel" TEXT,
+  "action" TEXT NOT NULL,
+  "target" TEXT,
+  "roomId" TEXT,
+  "beforeJson" TEXT,
+  "afterJson" TEXT
+);
+CREATE INDEX "AuditLog_createdAt_idx" ON "AuditLog"("createdAt");
+CREATE INDEX "AuditLog_action_idx" ON "AuditLog"("action");
+CREATE INDEX "AuditLog_actorId_idx" ON "AuditLog"("actorId");
@@ -0,0 +1,2 @@
+-- Optional expiry date for access codes; existing codes never expire.
+ALTER TABLE "AccessCode" ADD COLUMN "expiresAt" DATETIME;
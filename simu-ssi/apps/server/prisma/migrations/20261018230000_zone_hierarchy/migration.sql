@@ -0,0 +1,3 @@
+-- Map detection zones to their alarm zone (ZA) and safety zones (ZS/ZC).
+ALTER TABLE "Zone" ADD COLUMN "alarmZoneId" TEXT;
+ALTER TABLE "Zone" ADD COLUMN "safetyZoneIdsJson" TEXT;
@@ -0,0 +1,3 @@
+-- Per detection zone DAI strategy (single, double-knock, delayed) and verification delay.
+ALTER TABLE "Zone" ADD COLUMN "detectionStrategy" TEXT;
+ALTER TABLE "Zone" ADD COLUMN "verificationDelayMs" INTEGER;
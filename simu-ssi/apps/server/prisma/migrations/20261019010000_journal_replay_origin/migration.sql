@@ -0,0 +1,8 @@
+-- Simulated time of domain events in a dedicated column, so that the boot replay no longer scans payloads.
+ALTER TABLE "EventLog" ADD COLUMN "simulatedAt" REAL;
+UPDATE "EventLog" SET "simulatedAt" = json_extract("payloadJson", '$.simulatedAt')
+WHERE json_valid("payloadJson") AND json_type("payloadJson", '$.simulatedAt') IN ('integer', 'real');
+CREATE INDEX "EventLog_roomId_simulatedAt_idx" ON "EventLog"("roomId", "simulatedAt");
+
+-- Last system reset that left the domain at rest: the boot replay starts after it.
+ALTER TABLE "DomainCheckpoint" ADD COLUMN "replayFromEventId" INTEGER;
@@ -4,10 +4,13 @@ import {
   extractBearerToken,
   getAllowedRoles,
   getAuthConfig,
+  hasPermission,
   hashToken,
   parseTokenRecords,
   type AuthConfig,
 } from '../auth';
+import { createPermissionPolicy, resolveRoutePermission } from '../permissions';
+import { hashCredential, revokeSession, signAccessToken, verifyCredential } from '../user-auth';
 
 const config: AuthConfig = {
   enabled: true,
@@ -82,6 +85,16 @@ describe('API auth foundation', () => {
     expect(decision.ok).toBe(true);
   });
 
+  it('matches admin routes whatever the case of the path', () => {
+    const trainee = (path: string) =>
+      authorizeRequest({ method: 'GET', path, token: 'trainee-token' }, config);
+    for (const path of ['/api/Audit', '/api/PERMISSIONS', '/api/access/Codes', '/api/Users', '/api/Config/site']) {
+      expect(trainee(path)).toEqual({ ok: false, status: 403, error: 'AUTH_FORBIDDEN' });
+    }
+    expect(trainee('/api/rooms/banc-2/State').ok).toBe(true);
+    expect(trainee('/api/unlisted-report')).toEqual({ ok: false, status: 403, error: 'AUTH_FORBIDDEN' });
+  });
+
   it('requires a token when auth is enabled', () => {
     const decision = authorizeRequest({ method: 'GET', path: '/api/sessions', token: null }, config);
     expect(decision).toEqual({ ok: false, status: 401, error: 'AUTH_REQUIRED' });
@@ -93,4 +106,107 @@ describe('API auth foundation', () => {
     expect(getAllowedRoles('PUT', '/api/config/site')).toEqual(['ADMIN']);
     expect(getAllowedRoles('PUT', '/api/access/codes/2')).toEqual(['ADMIN']);
   });
+
+  it('applies the same role mapping to room-scoped routes', () => {
+    expect(getAllowedRoles('PUT', '/api/rooms/banc-2/config/trainee-layout')).toEqual(['ADMIN']);
+    expect(getAllowedRoles('GET', '/api/rooms/banc-2/sessions/active')).toEqual(['ADMIN', 'TRAINER', 'TRAINEE']);
+    expect(getAllowedRoles('POST', '/api/rooms/banc-2/system/reset')).toEqual(['ADMIN', 'TRAINER']);
+  });
+
+  describe('permission policy', () => {
+    const trainee = (path: string, policyConfig: AuthConfig) =>
+      authorizeRequest({ method: 'POST', path, token: 'trainee-token' }, policyConfig).ok;
+
+    it('maps routes to actions and rooms', () => {
+      expect(resolveRoutePermission('POST', '/api/sdi/dm/ZF1/reset')).toEqual({
+        permission: 'dm.reset',
+        roomId: 'default',
+      });
+      expect(resolveRoutePermission('POST', '/api/rooms/banc-2/scenarios/abc/run')).toEqual({
+        permission: 'scenario.run',
+        roomId: 'banc-2',
+      });
+      expect(resolveRoutePermission('DELETE', '/api/unknown')).toEqual({ permission: null, roomId: 'default' });
+    });
+
+    it('grants a single action without its neighbours', () => {
+      const policy = createPermissionPolicy();
+      policy.site['dm.reset'] = ['TRAINER', 'TRAINEE'];
+      const policyConfig: AuthConfig = { ...config, policy };
+      expect(trainee('/api/sdi/dm/ZF1/reset', policyConfig)).toBe(true);
+      expect(trainee('/api/sdi/dm/ZF1/activate', policyConfig)).toBe(false);
+      expect(getAllowedRoles('POST', '/api/sdi/dm/ZF1/reset', policy)).toEqual(['ADMIN', 'TRAINER', 'TRAINEE']);
+    });
+
+    it('lets a room override the site grants', () => {
+      const policy = createPermissionPolicy();
+      policy.site['evac.manual.start'] = ['TRAINER', 'TRAINEE'];
+      policy.rooms['banc-2'] = { 'evac.manual.start': ['TRAINER'] };
+      const policyConfig: AuthConfig = { ...config, policy };
+      expect(trainee('/api/evac/manual/start', policyConfig)).toBe(true);
+      expect(trainee('/api/rooms/banc-2/evac/manual/start', policyConfig)).toBe(false);
+      const identity = { role: 'TRAINEE' as const, tokenLabel: 'trainee', userId: null };
+      expect(hasPermission(identity, 'evac.manual.start', policyConfig, 'banc-2')).toBe(false);
+    });
+
+    it('keeps admins allowed whatever the grants', () => {
+      const policy = createPermissionPolicy();
+      policy.site['system.reset'] = [];
+      const policyConfig: AuthConfig = { ...config, policy };
+      expect(authorizeRequest({ method: 'POST', path: '/api/system/reset', token: 'admin-token' }, policyConfig).ok).toBe(true);
+      expect(authorizeRequest({ method: 'POST', path: '/api/system/reset', token: 'trainer-token' }, policyConfig).ok).toBe(false);
+      expect(hasPermission(null, 'system.reset', { ...policyConfig, enabled: false })).toBe(true);
+    });
+  });
+
+  describe('user accounts', () => {
+    const userConfig: AuthConfig = { ...config, signingSecret: 'test-secret' };
+    const inFuture = () => Math.floor(Date.now() / 1000) + 60;
+
+    it('verifies salted credential hashes', () => {
+      const stored = hashCredential('4821');
+      expect(stored).not.toContain('4821');
+      expect(hashCredential('4821')).not.toBe(stored);
+      expect(verifyCredential('4821', stored)).toBe(true);
+      expect(verifyCredential('4822', stored)).toBe(false);
+      expect(verifyCredential('4821', null)).toBe(false);
+    });
+
+    it('carries the user id of signed access tokens', () => {
+      const token = signAccessToken({ sub: 'user-1', role: 'TRAINER', sid: 'auth-1', exp: inFuture() }, 'test-secret');
+      expect(authenticateToken(token, userConfig)).toEqual({
+        role: 'TRAINER',
+        tokenLabel: 'AuthSession[auth-1]',
+        userId: 'user-1',
+      });
+      expect(authenticateToken('trainer-token', userConfig)?.userId).toBeNull();
+      expect(
+        authorizeRequest({ method: 'POST', path: '/api/evac/manual/start', token }, userConfig).ok,
+      ).toBe(true);
+    });
+
+    it('rejects tampered, foreign, expired and revoked access tokens', () => {
+      const token = signAccessToken({ sub: 'user-1', role: 'TRAINEE', sid: 'auth-2', exp: inFuture() }, 'test-secret');
+      const [prefix, , signature] = token.split('.');
+      const forgedPayload = Buffer.from(
+        JSON.stringify({ sub: 'user-1', role: 'ADMIN', sid: 'auth-2', exp: inFuture() }),
+      ).toString('base64url');
+      expect(authenticateToken(`${prefix}.${forgedPayload}.${signature}`, userConfig)).toBeNull();
+      expect(authenticateToken(token, { ...userConfig, signingSecret: 'other-secret' })).toBeNull();
+
+      const expired = signAccessToken({ sub: 'user-1', role: 'TRAINEE', sid: 'auth-3', exp: 1 }, 'test-secret');
+      expect(authenticateToken(expired, userConfig)).toBeNull();
+
+      revokeSession('auth-2', Date.now() + 60_000);
+      expect(authenticateToken(token, userConfig)).toBeNull();
+    });
+
+    it('leaves login routes open without a token', () => {
+      expect(authorizeRequest({ method: 'POST', path: '/api/auth/login', token: null }, userConfig)).toEqual({
+        ok: true,
+        identity: null,
+      });
+      expect(authorizeRequest({ method: 'POST', path: '/api/auth/session', token: null }, userConfig).ok).toBe(false);
+    });
+  });
 });
@@ -1,16 +1,33 @@
-import { randomBytes, scryptSync, timingSafeEqual } from 'node:crypto';
+import { createHash, randomBytes, scryptSync, timingSafeEqual } from 'node:crypto';
 
 const HASH_PREFIX = 'scrypt:v1';
 const KEY_LENGTH = 32;
 const MASKED_CODE = '••••';
+/** Empreintes SHA-256 non salées écrites avant l'adoption de `scrypt`. */
+const LEGACY_HASH_PATTERN = /^[0-9a-f]{64}$/;
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_LOCKOUT_S = 300;
 
 export interface AccessCodeMetadata {
   level: number;
   code: string;
   configured: boolean;
   updatedAt: string;
+  expiresAt: string | null;
+}
+
+export interface AccessGuardConfig {
+  /** Échecs consécutifs tolérés avant verrouillage du poste. */
+  maxAttempts: number;
+  /** Durée du verrouillage, en millisecondes. */
+  lockoutMs: number;
 }
 
+export type AccessAttemptStatus =
+  | { locked: false; remainingAttempts: number }
+  | { locked: true; lockedUntil: number };
+
 export function hashAccessCode(code: string): string {
   const normalizedCode = normalizeAccessCodeInput(code);
   const salt = randomBytes(16).toString('base64url');
@@ -22,6 +39,10 @@ export function verifyAccessCodeHash(code: string, storedHash: string | null | u
   if (!storedHash) {
     return false;
   }
+  if (isLegacyAccessCodeHash(storedHash)) {
+    const actual = createHash('sha256').update(normalizeAccessCodeInput(code), 'utf8').digest();
+    return timingSafeEqual(actual, Buffer.from(storedHash, 'hex'));
+  }
   const [prefix, version, salt, expectedKey] = storedHash.split(':');
   if (`${prefix}:${version}` !== HASH_PREFIX || !salt || !expectedKey) {
     return false;
@@ -36,19 +57,82 @@ export function verifyAccessCodeHash(code: string, storedHash: string | null | u
   return timingSafeEqual(actualKey, expectedKeyBuffer);
 }
 
+/** Vrai pour une empreinte SHA-256 héritée, à remplacer par un hash `scrypt` dès que le code est saisi. */
+export function isLegacyAccessCodeHash(storedHash: string): boolean {
+  return LEGACY_HASH_PATTERN.test(storedHash);
+}
+
+export function isAccessCodeExpired(expiresAt: Date | string | null | undefined, now = Date.now()): boolean {
+  return Boolean(expiresAt) && new Date(expiresAt!).getTime() <= now;
+}
+
 export function formatAccessCodeMetadata(
   level: number,
   codeHash: string | null | undefined,
   updatedAt: Date | string,
+  expiresAt: Date | string | null = null,
 ): AccessCodeMetadata {
   return {
     level: Number(level),
     code: MASKED_CODE,
     configured: Boolean(codeHash),
     updatedAt: new Date(updatedAt).toISOString(),
+    expiresAt: expiresAt ? new Date(expiresAt).toISOString() : null,
+  };
+}
+
+export function getAccessGuardConfig(env: NodeJS.ProcessEnv = process.env): AccessGuardConfig {
+  return {
+    maxAttempts: parsePositiveInteger(env.SIMU_SSI_ACCESS_MAX_ATTEMPTS, DEFAULT_MAX_ATTEMPTS),
+    lockoutMs: parsePositiveInteger(env.SIMU_SSI_ACCESS_LOCKOUT_S, DEFAULT_LOCKOUT_S) * 1000,
   };
 }
 
+/**
+ * Compte les échecs de saisie par origine et verrouille la saisie après `maxAttempts` échecs
+ * consécutifs. Le compteur repart de zéro après un code accepté ou à la fin du verrouillage.
+ */
+export class AccessAttemptGuard {
+  private readonly failures = new Map<string, { count: number; lockedUntil: number | null }>();
+
+  constructor(
+    private readonly config: AccessGuardConfig = getAccessGuardConfig(),
+    private readonly now: () => number = () => Date.now(),
+  ) {}
+
+  status(key: string): AccessAttemptStatus {
+    const entry = this.failures.get(key);
+    if (entry?.lockedUntil) {
+      if (entry.lockedUntil > this.now()) {
+        return { locked: true, lockedUntil: entry.lockedUntil };
+      }
+      this.failures.delete(key);
+      return { locked: false, remainingAttempts: this.config.maxAttempts };
+    }
+    return { locked: false, remainingAttempts: this.config.maxAttempts - (entry?.count ?? 0) };
+  }
+
+  recordFailure(key: string): AccessAttemptStatus {
+    const count = (this.failures.get(key)?.count ?? 0) + 1;
+    if (count >= this.config.maxAttempts) {
+      const lockedUntil = this.now() + this.config.lockoutMs;
+      this.failures.set(key, { count, lockedUntil });
+      return { locked: true, lockedUntil };
+    }
+    this.failures.set(key, { count, lockedUntil: null });
+    return { locked: false, remainingAttempts: this.config.maxAttempts - count };
+  }
+
+  recordSuccess(key: string): void {
+    this.failures.delete(key);
+  }
+}
+
 function normalizeAccessCodeInput(code: string): string {
   return code.trim();
 }
+
+function parsePositiveInteger(raw: string | undefined, fallback: number): number {
+  const value = Number(raw);
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+}
@@ -0,0 +1,125 @@
+import type { Request, Response } from 'express';
+import { CONSOLE_HEADER, STATION_HEADER, type PermissionId } from '@simu-ssi/sdk';
+import type { AuthIdentity } from './auth';
+
+/** Durée d'un niveau accordé au clavier, comme la temporisation du poste apprenant. */
+export const ACCESS_LEVEL_TTL_MS = 100_000;
+
+export type AccessLevel = 1 | 2 | 3;
+
+export interface StationAccessLevel {
+  level: AccessLevel;
+  /** Fin de validité du niveau, `null` au niveau 1 qui ne requiert aucun code. */
+  expiresAt: number | null;
+}
+
+/**
+ * Niveau d'accès exigé par commande selon la NF S 61-936 : niveau 1 pour l'arrêt du signal
+ * sonore, niveau 2 pour l'exploitation (acquits, réarmements, évacuation, mises hors service),
+ * niveau 3 pour la maintenance. Les actions absentes ne dépendent pas du clavier.
+ */
+export const COMMAND_ACCESS_LEVELS: Partial<Record<PermissionId, AccessLevel>> = {
+  'uga.silence': 1,
+  'dm.reset': 2,
+  'dai.reset': 2,
+  'dai.confirm': 2,
+  'evac.manual.start': 2,
+  'evac.manual.stop': 2,
+  'process.ack': 2,
+  'process.clear': 2,
+  'system.reset': 2,
+  'das.rearm': 2,
+  'fault.ack': 2,
+  'device.service': 2,
+  'fault.clear': 3,
+};
+
+/**
+ * Poste à l'origine d'une requête : celui que déclare l'en-tête `X-Station-Id`, sinon son adresse IP.
+ * La saisie d'un code et les commandes qu'elle débloque en dérivent la même clé.
+ */
+export function resolveStationId(req: Pick<Request, 'header' | 'ip'>): string {
+  return req.header(STATION_HEADER)?.trim() || req.ip || 'unknown';
+}
+
+/**
+ * Clé sous laquelle un niveau est accordé puis vérifié. Une requête authentifiée y ajoute le jeton
+ * qui la porte (`AuthSession[…]` ou libellé du jeton statique) : reprendre l'en-tête `X-Station-Id`
+ * d'un autre poste ne donne pas son niveau sans sa session. Sans authentification, seul le poste
+ * déclaré compte.
+ */
+export function resolveAccessLevelKey(
+  req: Pick<Request, 'header' | 'ip'>,
+  res: Pick<Response, 'locals'>,
+): string {
+  const identity = res.locals.auth as AuthIdentity | null | undefined;
+  const stationId = resolveStationId(req);
+  return identity ? `${identity.tokenLabel}:${stationId}` : stationId;
+}
+
+/**
+ * Origine d'une saisie de code pour le compteur d'échecs : l'utilisateur connecté, sinon l'adresse
+ * IP. Le `stationId` déclaré par le client n'y entre pas : en changer à chaque essai ne remet pas
+ * le compteur à zéro.
+ */
+export function resolveAttemptSource(req: Pick<Request, 'ip'>, res: Pick<Response, 'locals'>): string {
+  const identity = res.locals.auth as AuthIdentity | null | undefined;
+  return identity?.userId ? `user:${identity.userId}` : `ip:${req.ip || 'unknown'}`;
+}
+
+/**
+ * Le niveau d'accès s'applique aux commandes qui n'émanent pas d'un formateur ou d'un administrateur
+ * authentifié. Sans authentification, seule la console formateur, qui s'annonce par l'en-tête
+ * `X-Trainer-Console`, en est dispensée, levée des dérangements de niveau 3 comprise : un appelant
+ * qui ne s'identifie pas est traité comme un poste apprenant.
+ */
+export function requiresAccessLevel(
+  req: Pick<Request, 'header'>,
+  res: Pick<Response, 'locals'>,
+  authEnabled: boolean,
+): boolean {
+  const identity = res.locals.auth as AuthIdentity | null | undefined;
+  if (identity?.role === 'TRAINER' || identity?.role === 'ADMIN') {
+    return false;
+  }
+  if (authEnabled || identity?.role === 'TRAINEE' || req.header(STATION_HEADER)?.trim()) {
+    return true;
+  }
+  return req.header(CONSOLE_HEADER) !== '1';
+}
+
+/** Niveaux accordés par `/api/access/verify`, poste par poste, jusqu'à leur expiration. */
+export class AccessLevelRegistry {
+  private readonly grants = new Map<string, { level: AccessLevel; expiresAt: number }>();
+
+  constructor(
+    private readonly ttlMs = ACCESS_LEVEL_TTL_MS,
+    private readonly now: () => number = () => Date.now(),
+  ) {}
+
+  get(stationKey: string): StationAccessLevel {
+    const grant = this.grants.get(stationKey);
+    if (!grant) {
+      return { level: 1, expiresAt: null };
+    }
+    if (grant.expiresAt <= this.now()) {
+      this.grants.delete(stationKey);
+      return { level: 1, expiresAt: null };
+    }
+    return grant;
+  }
+
+  grant(stationKey: string, level: AccessLevel): StationAccessLevel {
+    if (level === 1) {
+      this.revoke(stationKey);
+      return { level, expiresAt: null };
+    }
+    const grant = { level, expiresAt: this.now() + this.ttlMs };
+    this.grants.set(stationKey, grant);
+    return grant;
+  }
+
+  revoke(stationKey: string): void {
+    this.grants.delete(stationKey);
+  }
+}
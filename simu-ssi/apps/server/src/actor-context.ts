@@ -0,0 +1,37 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { ControllableClock } from '@simu-ssi/domain-ssi';
+
+const actorStorage = new AsyncLocalStorage<string | null>();
+
+/**
+ * Exécute le traitement d'une commande pour le compte de `actorId` : les événements journalisés
+ * pendant ce traitement, y compris ceux émis par le domaine, lui sont attribués.
+ */
+export function runAsActor<T>(actorId: string | null, action: () => T): T {
+  return actorStorage.run(actorId, action);
+}
+
+/** Utilisateur à l'origine de la commande en cours, `undefined` hors commande identifiée. */
+export function currentActorId(): string | undefined {
+  return actorStorage.getStore() ?? undefined;
+}
+
+/**
+ * Vue de `clock` dont les temporisations s'exécutent hors de toute commande : une échéance armée
+ * ou avancée pendant une requête (évacuation automatique, autonomie batterie…) n'est attribuée
+ * à personne.
+ */
+export function detachActorFromTimers(clock: ControllableClock): ControllableClock {
+  return {
+    get state() {
+      return clock.state;
+    },
+    now: () => clock.now(),
+    setTimeout: (handler, delayMs) => clock.setTimeout(() => actorStorage.exit(handler), delayMs),
+    clearTimeout: (timer) => clock.clearTimeout(timer),
+    setSpeed: (speed) => clock.setSpeed(speed),
+    setMode: (mode) => clock.setMode(mode),
+    advance: (ms) => clock.advance(ms),
+    onChange: (listener) => clock.onChange(listener),
+  };
+}
@@ -0,0 +1,163 @@
+import { z } from 'zod';
+import { isClockSpeed } from '@simu-ssi/domain-ssi';
+import { dasFailureModeSchema, faultKindSchema, permissionGrantsSchema } from '@simu-ssi/sdk';
+
+/**
+ * Corps et paramètres acceptés par les routes de `createHttpServer`, utilisés pour valider les
+ * requêtes et pour la description OpenAPI publiée sur `/api/openapi.json`.
+ */
+
+export const siteConfigSchema = z.object({
+  evacOnDAI: z.boolean(),
+  evacOnDMDelayMs: z.number().int().min(1000),
+  processAckRequired: z.boolean(),
+});
+
+export const manualEvacuationSchema = z.object({
+  reason: z.string().optional(),
+});
+
+export const faultRaiseSchema = z
+  .object({
+    kind: faultKindSchema,
+    zoneId: z.string().trim().min(1).optional(),
+    deviceId: z.string().trim().min(1).optional(),
+    label: z.string().max(200).optional(),
+  })
+  .refine((value) => Boolean(value.zoneId || value.deviceId), { message: 'FAULT_TARGET_REQUIRED' });
+
+export const faultAckSchema = z.object({
+  ackedBy: z.string().min(1).optional(),
+});
+
+export const dasFailSchema = z.object({
+  mode: dasFailureModeSchema,
+});
+
+/** Acquit du processus ; `zoneId` (ZD ou ZA) limite la suspension à la temporisation d'une zone. */
+export const processAckSchema = z.object({
+  ackedBy: z.string().min(1).optional(),
+  zoneId: z.string().min(1).optional(),
+});
+
+export const scenarioSeekSchema = z.object({
+  eventIndex: z.number().int().min(0),
+});
+
+export const clockUpdateSchema = z
+  .object({
+    speed: z.number().refine(isClockSpeed, { message: 'CLOCK_SPEED_UNSUPPORTED' }).optional(),
+    mode: z.enum(['realtime', 'step']).optional(),
+  })
+  .refine((value) => value.speed !== undefined || value.mode !== undefined, {
+    message: 'CLOCK_UPDATE_EMPTY',
+  });
+
+export const clockAdvanceSchema = z.object({
+  ms: z.number().int().positive().max(24 * 60 * 60 * 1000),
+});
+
+export const accessCodeUpdateSchema = z.object({
+  code: z
+    .string()
+    .trim()
+    .min(4)
+    .max(8)
+    .regex(/^[0-9]+$/, 'CODE_DIGITS_ONLY'),
+  expiresAt: z.coerce
+    .date()
+    .refine((value) => value.getTime() > Date.now(), { message: 'EXPIRY_IN_PAST' })
+    .nullable()
+    .optional(),
+});
+
+export const accessCodeVerifySchema = z.object({
+  code: z.string().max(32),
+  /** Facultatif, doit correspondre au poste de l'en-tête `X-Station-Id` (l'adresse IP à défaut). */
+  stationId: z.string().trim().min(1).max(64).optional(),
+});
+
+export const permissionGrantsUpdateSchema = z.object({
+  grants: permissionGrantsSchema,
+});
+
+export const userRoleSchema = z.enum(['TRAINER', 'TRAINEE']);
+
+export const authLoginSchema = z
+  .object({
+    userId: z.string().uuid().optional(),
+    email: z.string().email().optional(),
+    secret: z.string().min(1).max(128),
+  })
+  .refine((value) => Boolean(value.userId || value.email), { message: 'LOGIN_IDENTIFIER_REQUIRED' });
+
+export const authRefreshSchema = z.object({
+  refreshToken: z.string().min(1),
+});
+
+export const userCredentialSchema = z.object({
+  // Mot de passe ou code PIN d'au moins huit caractères ; `null` retire l'accès par identifiant.
+  secret: z.string().min(8).max(128).nullable(),
+});
+
+export const deviceServiceUpdateSchema = z.object({
+  outOfService: z.boolean(),
+});
+
+export const userCreateSchema = z.object({
+  fullName: z.string().min(1),
+  email: z.string().email().optional(),
+  role: userRoleSchema.default('TRAINEE'),
+});
+
+export const userUpdateSchema = z.object({
+  fullName: z.string().min(1).optional(),
+  email: z.string().email().nullable().optional(),
+  role: userRoleSchema.optional(),
+});
+
+export const userImportEntrySchema = z.object({
+  id: z.string().uuid().optional(),
+  fullName: z.string().min(1),
+  email: z.string().email().nullable().optional(),
+  role: userRoleSchema,
+});
+
+export const userImportSchema = z.object({
+  users: z.array(userImportEntrySchema).min(1),
+});
+
+export const improvementAreaSchema = z.object({
+  title: z.string().min(1),
+  description: z.string().max(1000).optional(),
+});
+
+export const sessionCreateSchema = z.object({
+  name: z.string().min(1),
+  mode: z.string().min(1).default('libre'),
+  traineeId: z.string().uuid().optional(),
+  traineeIds: z.array(z.string().uuid()).max(12).optional(),
+  trainerId: z.string().uuid().optional(),
+  objective: z.string().max(1000).optional(),
+  notes: z.string().max(4000).optional(),
+});
+
+export const sessionUpdateSchema = z.object({
+  name: z.string().min(1).optional(),
+  mode: z.string().min(1).optional(),
+  traineeId: z.string().uuid().nullable().optional(),
+  traineeIds: z.array(z.string().uuid()).max(12).optional(),
+  trainerId: z.string().uuid().nullable().optional(),
+  objective: z.string().max(1000).nullable().optional(),
+  notes: z.string().max(4000).nullable().optional(),
+});
+
+export const sessionTraineeSchema = z.object({
+  traineeId: z.string().uuid(),
+});
+
+export const sessionCloseSchema = z.object({
+  notes: z.string().max(4000).optional(),
+  improvementAreas: z.array(improvementAreaSchema).max(5).optional(),
+  endedAt: z.string().datetime().optional(),
+});
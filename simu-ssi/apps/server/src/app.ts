@@ -1,129 +1,172 @@
-import express, { type Express } from 'express';
+import express, { type Express, type Router } from 'express';
 import cors from 'cors';
-import { z } from 'zod';
 import { createHash, randomUUID } from 'node:crypto';
 import { Prisma } from '@prisma/client';
 import { prisma } from './prisma';
 import { DomainContext } from './state';
 import { createServer, type Server as HttpServer } from 'http';
-import { Server as SocketIOServer } from 'socket.io';
+import { Server as SocketIOServer, type Socket } from 'socket.io';
+import { isClockSpeed } from '@simu-ssi/domain-ssi';
 import {
+  ACTOR_HEADER,
+  DEFAULT_ROOM_ID,
   DEFAULT_TRAINEE_LAYOUT,
+  REPLAY_NAMESPACE,
+  STATION_HEADER,
+  auditQuerySchema,
+  permissionGrantsSchema,
+  roomCreateSchema,
   scenarioDefinitionSchema,
   scenarioPayloadSchema,
   scenarioRunnerSnapshotSchema,
+  sessionScoreCreateSchema,
+  sessionScoreUpdateSchema,
   siteTopologySchema,
   traineeLayoutSchema,
+  type PermissionGrants,
+  type PermissionId,
   type ScenarioDefinition,
   type SiteTopology,
   type TraineeLayoutConfig,
 } from '@simu-ssi/sdk';
+import {
+  accessCodeUpdateSchema,
+  accessCodeVerifySchema,
+  authLoginSchema,
+  authRefreshSchema,
+  clockAdvanceSchema,
+  clockUpdateSchema,
+  dasFailSchema,
+  deviceServiceUpdateSchema,
+  faultAckSchema,
+  faultRaiseSchema,
+  manualEvacuationSchema,
+  permissionGrantsUpdateSchema,
+  processAckSchema,
+  scenarioSeekSchema,
+  sessionCloseSchema,
+  sessionCreateSchema,
+  sessionTraineeSchema,
+  sessionUpdateSchema,
+  siteConfigSchema,
+  userCreateSchema,
+  userCredentialSchema,
+  userImportSchema,
+  userRoleSchema,
+  userUpdateSchema,
+} from './api-schemas';
+import { buildOpenApiDocument, renderApiDocsPage } from './openapi';
 import { ScenarioRunner } from './scenario-runner';
 import { SessionManager } from './session-manager';
 import { generateImprovementAreasForSession } from './improvement-generator';
+import { generateSessionReport } from './report-generator';
+import { buildManualRubricJson, computeScoreValue, serializeSessionScore } from './session-scoring';
+import { buildTraineeProgress } from './trainee-progress';
+import { attachReplayNamespace } from './session-replay';
+import { buildDomainTopologyConfig, formatTopologyResponse } from './site-topology';
+import { listAuditEntries, recordAudit, recordAuditUpdate, resolveAuditActor } from './audit-log';
 import { createLogger, toError } from './logger';
-import { createApiAuthMiddleware, createSocketAuthMiddleware, getAuthConfig } from './auth';
+import { currentActorId, runAsActor } from './actor-context';
+import {
+  createApiAuthMiddleware,
+  createSocketAuthMiddleware,
+  getAuthConfig,
+  hasPermission,
+  type AuthIdentity,
+  type AuthRole,
+} from './auth';
+import {
+  DEFAULT_ACCESS_TOKEN_TTL_S,
+  DEFAULT_REFRESH_TOKEN_TTL_S,
+  createRefreshToken,
+  hashCredential,
+  hashRefreshToken,
+  revokeSession,
+  signAccessToken,
+  verifyCredential,
+} from './user-auth';
+import {
+  PERMISSION_DEFINITIONS,
+  SITE_SCOPE,
+  createPermissionPolicy,
+  getPermissionDefinition,
+  resolveRoutePermission,
+  type PermissionPolicy,
+} from './permissions';
 import { recordManualCallPointActivation, recordManualCallPointReset } from './manual-call-points';
-
-const siteConfigSchema = z.object({
-  evacOnDAI: z.boolean(),
-  evacOnDMDelayMs: z.number().int().min(1000),
-  processAckRequired: z.boolean(),
-});
-
-const manualEvacuationSchema = z.object({
-  reason: z.string().optional(),
-});
-
-const accessCodeUpdateSchema = z.object({
-  code: z
-    .string()
-    .trim()
-    .min(4)
-    .max(8)
-    .regex(/^[0-9]+$/, 'CODE_DIGITS_ONLY'),
-});
-
-const accessCodeVerifySchema = z.object({
-  code: z.string().max(32),
-});
-
-function hashAccessCode(code: string): string {
-  return createHash('sha256').update(code, 'utf8').digest('hex');
+import {
+  AccessAttemptGuard,
+  formatAccessCodeMetadata,
+  hashAccessCode,
+  isAccessCodeExpired,
+  isLegacyAccessCodeHash,
+  verifyAccessCodeHash,
+} from './access-codes';
+import {
+  AccessLevelRegistry,
+  COMMAND_ACCESS_LEVELS,
+  requiresAccessLevel,
+  resolveAccessLevelKey,
+  resolveAttemptSource,
+  resolveStationId,
+  type AccessLevel,
+  type StationAccessLevel,
+} from './access-levels';
+import {
+  DEFAULT_ROOM_NAME,
+  createRoomContext,
+  loadRoomLayoutJson,
+  loadSiteTopology,
+  resolveSocketRoomId,
+  roomChannel,
+  saveRoomLayoutJson,
+  saveRoomTopology,
+  type RoomContext,
+  type RoomDefinition,
+} from './rooms';
+
+function formatAccessLevelExpiry(current: StationAccessLevel): string | null {
+  return current.expiresAt === null ? null : new Date(current.expiresAt).toISOString();
 }
 
-function formatAccessCode(row: { level: number; codeHash: string | null; updatedAt: Date | string }) {
-  return {
-    level: Number(row.level),
-    code: row.codeHash ? '••••' : 'Non configuré',
-    updatedAt: new Date(row.updatedAt).toISOString(),
-  };
+/** Durée restante du verrouillage d'un poste, arrondie à la minute supérieure. */
+function formatLockout(lockedUntil: number): string {
+  return `pendant ${Math.max(1, Math.ceil((lockedUntil - Date.now()) / 60_000))} min`;
 }
 
-const userRoleSchema = z.enum(['TRAINER', 'TRAINEE']);
-
-const deviceServiceUpdateSchema = z.object({
-  outOfService: z.boolean(),
-});
-
-const userCreateSchema = z.object({
-  fullName: z.string().min(1),
-  email: z.string().email().optional(),
-  role: userRoleSchema.default('TRAINEE'),
-});
-
-const userUpdateSchema = z.object({
-  fullName: z.string().min(1).optional(),
-  email: z.string().email().nullable().optional(),
-  role: userRoleSchema.optional(),
-});
-
-const userImportEntrySchema = z.object({
-  id: z.string().uuid().optional(),
-  fullName: z.string().min(1),
-  email: z.string().email().nullable().optional(),
-  role: userRoleSchema,
-});
-
-const userImportSchema = z.object({
-  users: z.array(userImportEntrySchema).min(1),
-});
-
-const improvementAreaSchema = z.object({
-  title: z.string().min(1),
-  description: z.string().max(1000).optional(),
-});
-
-const sessionCreateSchema = z.object({
-  name: z.string().min(1),
-  mode: z.string().min(1).default('libre'),
-  traineeId: z.string().uuid().optional(),
-  trainerId: z.string().uuid().optional(),
-  objective: z.string().max(1000).optional(),
-  notes: z.string().max(4000).optional(),
-});
-
-const sessionUpdateSchema = z.object({
-  name: z.string().min(1).optional(),
-  mode: z.string().min(1).optional(),
-  traineeId: z.string().uuid().nullable().optional(),
-  trainerId: z.string().uuid().nullable().optional(),
-  objective: z.string().max(1000).nullable().optional(),
-  notes: z.string().max(4000).nullable().optional(),
-});
-
-const sessionCloseSchema = z.object({
-  notes: z.string().max(4000).optional(),
-  improvementAreas: z.array(improvementAreaSchema).max(5).optional(),
-  endedAt: z.string().datetime().optional(),
-});
+function formatAccessCode(row: {
+  level: number;
+  codeHash: string | null;
+  updatedAt: Date | string;
+  expiresAt: Date | string | null;
+}) {
+  return formatAccessCodeMetadata(row.level, row.codeHash, row.updatedAt, row.expiresAt);
+}
 
 const BOARD_ORDER_BASELINE = DEFAULT_TRAINEE_LAYOUT.boardModuleOrder;
 const CONTROL_ORDER_BASELINE = DEFAULT_TRAINEE_LAYOUT.controlButtonOrder;
 const SIDE_ORDER_BASELINE = DEFAULT_TRAINEE_LAYOUT.sidePanelOrder;
 const httpLogger = createLogger('HttpServer');
 
-export function createHttpServer(domainContext: DomainContext, sessionManager: SessionManager): {
+interface RoomRuntime {
+  room: RoomContext;
+  router: Router;
+  /** Envoie l'état courant de la salle à un client qui vient de la rejoindre. */
+  greet(socket: Socket): void;
+}
+
+export interface HttpServerOptions {
+  /** Salles supplémentaires déjà initialisées, par exemple celles rechargées au démarrage. */
+  rooms?: RoomContext[];
+  /** Initialise le domaine et la session d'une salle créée via l'API. */
+  createRoomContext?: (room: RoomDefinition) => Promise<RoomContext>;
+}
+
+export function createHttpServer(
+  defaultDomainContext: DomainContext,
+  defaultSessionManager: SessionManager,
+  options: HttpServerOptions = {},
+): {
   app: Express;
   server: HttpServer;
   io: SocketIOServer;
@@ -138,6 +181,16 @@ export function createHttpServer(domainContext: DomainContext, sessionManager: S
   );
   const log = httpLogger;
   const authConfig = getAuthConfig();
+  const permissionPolicy = (authConfig.policy ??= createPermissionPolicy());
+  void loadPermissionPolicy()
+    .then((stored) => {
+      permissionPolicy.site = stored.site;
+      permissionPolicy.rooms = stored.rooms;
+      log.info("Autorisations chargées au démarrage", { roomCount: Object.keys(stored.rooms).length });
+    })
+    .catch((error) => {
+      log.error("Échec du chargement des autorisations au démarrage", { error: toError(error) });
+    });
 
   app.use((req, res, next) => {
     const start = Date.now();
@@ -162,133 +215,1675 @@ export function createHttpServer(domainContext: DomainContext, sessionManager: S
 
   app.use('/api', createApiAuthMiddleware(authConfig));
 
-  const scenarioRunner = new ScenarioRunner(domainContext.domain, {
-    isZoneOutOfService(kind, zoneId) {
+  let ioRef: SocketIOServer | null = null;
+  const runtimes = new Map<string, RoomRuntime>();
+  const accessGuard = new AccessAttemptGuard();
+  // Les connexions échouées verrouillent le compte visé, quel que soit le poste qui les tente.
+  const loginGuard = new AccessAttemptGuard();
+  const accessLevels = new AccessLevelRegistry();
+  const createRoom = options.createRoomContext ?? createRoomContext;
+
+  /**
+   * Construit le moteur de scénario, la topologie, la disposition et les routes d'exercice d'une
+   * salle. Les diffusions Socket.IO ne visent que les clients ayant rejoint la salle.
+   */
+  function createRoomRuntime(room: RoomContext): RoomRuntime {
+    const { domainContext, sessionManager } = room;
+    const isDefaultRoom = room.id === DEFAULT_ROOM_ID;
+    const channel = roomChannel(room.id);
+    const router = express.Router();
+
+    const scenarioRunner = new ScenarioRunner(domainContext.domain, {
+      clock: domainContext.clock,
+      roomId: room.id,
+      isZoneOutOfService(kind, zoneId) {
+        const topology = resolveActiveTopology();
+        if (!topology) {
+          return false;
+        }
+        const normalizedZone = zoneId.trim().toUpperCase();
+        if (!normalizedZone) {
+          return false;
+        }
+        const matchingDevices = topology.devices.filter((device) => {
+          if (device.kind !== kind) {
+            return false;
+          }
+          if (!device.zoneId) {
+            return false;
+          }
+          return device.zoneId.trim().toUpperCase() === normalizedZone;
+        });
+        if (matchingDevices.length === 0) {
+          return false;
+        }
+        return matchingDevices.every((device) => {
+          if (device.outOfService) {
+            return true;
+          }
+          return deviceServiceRegistry.get(device.id) ?? false;
+        });
+      },
+      isDeviceOutOfService(deviceId) {
+        return deviceServiceRegistry.get(deviceId) ?? false;
+      },
+    });
+    let latestLayout: TraineeLayoutConfig = DEFAULT_TRAINEE_LAYOUT;
+    let latestTopology: SiteTopology | null = null;
+    const deviceServiceRegistry = new Map<string, boolean>();
+    let lastTopologyBroadcastSignature: string | null = null;
+    // Le domaine a reçu la topologie enregistrée avant le rejeu du journal : la première
+    // synchronisation la réapplique telle quelle.
+    let lastDomainTopologySignature: string | null = null;
+    void loadTraineeLayout(room.id)
+      .then((layout) => {
+        latestLayout = layout;
+        log.info("Disposition stagiaire chargée au démarrage", { roomId: room.id });
+      })
+      .catch((error) => {
+        log.error("Échec du chargement de la disposition stagiaire au démarrage", {
+          roomId: room.id,
+          error: toError(error),
+        });
+      });
+
+    async function loadLatestTopology(): Promise<SiteTopology> {
+      const stored = await loadSiteTopology(room.id);
+      deviceServiceRegistry.clear();
+      stored.devices.forEach((device) => {
+        if (device.outOfService) {
+          deviceServiceRegistry.set(device.id, true);
+        }
+      });
+      latestTopology = applyOutOfServiceState(stored);
+      return latestTopology;
+    }
+
+    function resolveActiveTopology(): SiteTopology | null {
+      const snapshot = scenarioRunner.state;
+      if (
+        (snapshot.status === 'running' || snapshot.status === 'paused' || snapshot.status === 'ready') &&
+        snapshot.scenario?.topology?.plan?.image
+      ) {
+        return snapshot.scenario.topology ?? null;
+      }
+      return latestTopology;
+    }
+
+    // Le domaine résout les ZA et ZS des alarmes, et commande les DAS, d'après la topologie active.
+    function syncDomainTopology(topology: SiteTopology | null) {
+      const config = buildDomainTopologyConfig(topology ? applyOutOfServiceState(topology) : null);
+      const signature = JSON.stringify(config);
+      if (signature === lastDomainTopologySignature) {
+        return;
+      }
+      lastDomainTopologySignature = signature;
+      domainContext.domain.updateConfig(config);
+    }
+
+    function broadcastActiveTopology(force = false) {
       const topology = resolveActiveTopology();
-      if (!topology) {
-        return false;
+      syncDomainTopology(topology);
+      if (!ioRef || !topology) {
+        return;
       }
-      const normalizedZone = zoneId.trim().toUpperCase();
-      if (!normalizedZone) {
-        return false;
+      const enrichedTopology = applyOutOfServiceState(topology);
+      if (topology === latestTopology) {
+        latestTopology = enrichedTopology;
       }
-      const matchingDevices = topology.devices.filter((device) => {
-        if (device.kind !== kind) {
-          return false;
+      const signature = JSON.stringify(enrichedTopology);
+      if (!force && signature === lastTopologyBroadcastSignature) {
+        return;
+      }
+      ioRef.to(channel).emit('topology.update', enrichedTopology);
+      lastTopologyBroadcastSignature = signature;
+    }
+
+    function applyOutOfServiceState(topology: SiteTopology): SiteTopology {
+      let mutated = false;
+      const devices = topology.devices.map((device) => {
+        const desiredState = deviceServiceRegistry.get(device.id) ?? false;
+        if (device.outOfService !== desiredState) {
+          mutated = true;
+          return { ...device, outOfService: desiredState };
         }
-        if (!device.zoneId) {
-          return false;
+        return device;
+      });
+      if (!mutated) {
+        return topology;
+      }
+      return { ...topology, devices };
+    }
+
+    void loadLatestTopology()
+      .then((topology) => {
+        syncDomainTopology(resolveActiveTopology());
+        log.info("Topologie du site chargée au démarrage", {
+          roomId: room.id,
+          zoneCount: topology.zones.length,
+          deviceCount: topology.devices.length,
+        });
+      })
+      .catch((error) => {
+        log.error("Échec du chargement initial de la topologie du site", { roomId: room.id, error: toError(error) });
+      });
+
+    // Les commandes annoncées par un poste sont attribuées à l'apprenant ou au formateur qui les émet.
+    // Un utilisateur connecté est toujours l'auteur de ses commandes ; l'en-tête n'est qu'une déclaration du poste.
+    router.use((req, res, next) => {
+      const identity = res.locals.auth as AuthIdentity | null | undefined;
+      const candidate = req.header(ACTOR_HEADER);
+      runAsActor(identity?.userId ?? (candidate ? sessionManager.resolveActorId(candidate) : null), next);
+    });
+
+    // Hors formateur ou administrateur authentifié, et hors console formateur lorsque l'authentification
+    // est désactivée, les commandes exigent le niveau saisi au clavier ; un refus est une erreur de
+    // manipulation, journalisée comme telle dans la session.
+    router.use(async (req, res, next) => {
+      const { permission } = resolveRoutePermission(req.method, `/api${req.path}`);
+      const requiredLevel = permission ? COMMAND_ACCESS_LEVELS[permission] : undefined;
+      if (!permission || !requiredLevel || !requiresAccessLevel(req, res, authConfig.enabled)) {
+        return next();
+      }
+      const { level } = accessLevels.get(`${room.id}:${resolveAccessLevelKey(req, res)}`);
+      if (level >= requiredLevel) {
+        return next();
+      }
+      try {
+        await prisma.eventLog.create({
+          data: {
+            source: 'TRAINEE',
+            message: `Commande refusée — niveau ${requiredLevel} requis.`,
+            payloadJson: JSON.stringify({ action: 'access-level-denied', command: permission, requiredLevel, level }),
+            roomId: room.id,
+            actorId: currentActorId(),
+            sessionId: sessionManager.getActiveSessionId() ?? undefined,
+          },
+        });
+      } catch (error) {
+        return next(error);
+      }
+      log.warn("Commande refusée faute de niveau d'accès", { permission, requiredLevel, level });
+      return res.status(403).json({ error: 'ACCESS_LEVEL_REQUIRED', requiredLevel, level });
+    });
+
+    router.get('/sessions', async (req, res) => {
+      const limitRaw = typeof req.query.limit === 'string' ? Number(req.query.limit) : undefined;
+      const limit = Number.isFinite(limitRaw) && limitRaw! > 0 ? Math.min(Math.floor(limitRaw!), 100) : 20;
+      try {
+        const sessions = await sessionManager.listSessions(limit);
+        log.debug("Sessions renvoyées", { limit, count: sessions.length });
+        res.json({ sessions });
+      } catch (error) {
+        log.error("Échec de la récupération des sessions", { error: toError(error), limit });
+        res.status(500).json({ error: 'FAILED_TO_LIST_SESSIONS' });
+      }
+    });
+
+    router.get('/sessions/active', (_req, res) => {
+      log.debug("Session active demandée");
+      res.json({ session: sessionManager.getCurrentSession() });
+    });
+
+    router.post('/sessions', async (req, res) => {
+      const parsed = sessionCreateSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      const payload = parsed.data;
+      const name = payload.name.trim();
+      if (!name) {
+        return res.status(400).json({ error: 'INVALID_SESSION_NAME' });
+      }
+      const modeInput = payload.mode.trim();
+      const objectiveInput = payload.objective?.trim() ?? '';
+      const notesInput = payload.notes?.trim() ?? '';
+      try {
+        const session = await sessionManager.createSession({
+          name,
+          mode: modeInput.length > 0 ? modeInput : 'libre',
+          traineeId: payload.traineeId,
+          traineeIds: payload.traineeIds,
+          trainerId: payload.trainerId,
+          objective: objectiveInput.length > 0 ? objectiveInput : undefined,
+          notes: notesInput.length > 0 ? notesInput : undefined,
+        });
+        log.info("Session créée via l'API", { sessionId: session.id });
+        res.status(201).json({ session });
+      } catch (error) {
+        if (error instanceof Error && error.message === 'SESSION_ALREADY_ACTIVE') {
+          return res.status(409).json({ error: 'SESSION_ALREADY_ACTIVE' });
+        }
+        if (isKnownRequestError(error) && error.code === 'P2025') {
+          return res.status(404).json({ error: 'RELATED_USER_NOT_FOUND' });
+        }
+        log.error("Échec de la création de la session", { error: toError(error) });
+        res.status(500).json({ error: 'FAILED_TO_CREATE_SESSION' });
+      }
+    });
+
+    router.put('/sessions/:id', async (req, res) => {
+      const parsed = sessionUpdateSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      const { id } = req.params;
+      const payload = parsed.data;
+      let nextName: string | undefined;
+      if (payload.name !== undefined) {
+        const trimmed = payload.name.trim();
+        if (!trimmed) {
+          return res.status(400).json({ error: 'INVALID_SESSION_NAME' });
+        }
+        nextName = trimmed;
+      }
+      let nextMode: string | undefined;
+      if (payload.mode !== undefined) {
+        const trimmed = payload.mode.trim();
+        nextMode = trimmed.length > 0 ? trimmed : 'libre';
+      }
+      let nextObjective: string | null | undefined;
+      if (payload.objective !== undefined) {
+        if (payload.objective === null) {
+          nextObjective = null;
+        } else {
+          const trimmed = payload.objective.trim();
+          nextObjective = trimmed.length > 0 ? trimmed : null;
+        }
+      }
+      let nextNotes: string | null | undefined;
+      if (payload.notes !== undefined) {
+        if (payload.notes === null) {
+          nextNotes = null;
+        } else {
+          const trimmed = payload.notes.trim();
+          nextNotes = trimmed.length > 0 ? trimmed : null;
+        }
+      }
+      try {
+        const session = await sessionManager.updateSession(id, {
+          name: nextName,
+          mode: nextMode,
+          traineeId: payload.traineeId ?? undefined,
+          traineeIds: payload.traineeIds,
+          trainerId: payload.trainerId ?? undefined,
+          objective: nextObjective,
+          notes: nextNotes,
+        });
+        log.info("Session mise à jour via l'API", { sessionId: session.id });
+        res.json({ session });
+      } catch (error) {
+        if (isKnownRequestError(error) && error.code === 'P2025') {
+          return res.status(404).json({ error: 'SESSION_NOT_FOUND' });
+        }
+        if (isKnownRequestError(error) && error.code === 'P2003') {
+          return res.status(404).json({ error: 'RELATED_USER_NOT_FOUND' });
+        }
+        log.error("Échec de la mise à jour de la session", { error: toError(error), sessionId: id });
+        res.status(500).json({ error: 'FAILED_TO_UPDATE_SESSION' });
+      }
+    });
+
+    router.post('/sessions/:id/close', async (req, res) => {
+      const parsed = sessionCloseSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      const { id } = req.params;
+      const payload = parsed.data;
+      const endedAt = payload.endedAt ? new Date(payload.endedAt) : undefined;
+      let closeNotes: string | null | undefined;
+      if (payload.notes !== undefined) {
+        const trimmed = payload.notes.trim();
+        closeNotes = trimmed.length > 0 ? trimmed : null;
+      }
+      try {
+        const session = await sessionManager.closeSession(id, {
+          notes: closeNotes,
+          improvementAreas: normalizeImprovementAreas(payload.improvementAreas),
+          endedAt,
+        });
+        log.info("Session clôturée via l'API", { sessionId: session.id });
+        res.json({ session });
+      } catch (error) {
+        if (isKnownRequestError(error) && error.code === 'P2025') {
+          return res.status(404).json({ error: 'SESSION_NOT_FOUND' });
+        }
+        log.error("Échec de la clôture de la session", { error: toError(error), sessionId: id });
+        res.status(500).json({ error: 'FAILED_TO_CLOSE_SESSION' });
+      }
+    });
+
+    router.post('/sessions/:id/trainees', async (req, res) => {
+      const parsed = sessionTraineeSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      const { id } = req.params;
+      const { traineeId } = parsed.data;
+      try {
+        const trainee = await prisma.user.findUnique({ where: { id: traineeId } });
+        if (!trainee) {
+          return res.status(404).json({ error: 'RELATED_USER_NOT_FOUND' });
+        }
+        if (trainee.role !== 'TRAINEE') {
+          return res.status(400).json({ error: 'USER_IS_NOT_TRAINEE' });
+        }
+        const session = await sessionManager.addTrainee(id, traineeId);
+        log.info("Apprenant ajouté à la session via l'API", { sessionId: id, traineeId });
+        res.json({ session });
+      } catch (error) {
+        if (error instanceof Error && error.message === 'SESSION_ALREADY_CLOSED') {
+          return res.status(409).json({ error: 'SESSION_ALREADY_CLOSED' });
+        }
+        if (isKnownRequestError(error) && error.code === 'P2025') {
+          return res.status(404).json({ error: 'SESSION_NOT_FOUND' });
+        }
+        log.error("Échec de l'ajout de l'apprenant à la session", { error: toError(error), sessionId: id });
+        res.status(500).json({ error: 'FAILED_TO_JOIN_SESSION' });
+      }
+    });
+
+    router.delete('/sessions/:id/trainees/:traineeId', async (req, res) => {
+      const { id, traineeId } = req.params;
+      try {
+        const session = await sessionManager.removeTrainee(id, traineeId);
+        log.info("Apprenant retiré de la session via l'API", { sessionId: id, traineeId });
+        res.json({ session });
+      } catch (error) {
+        if (isKnownRequestError(error) && error.code === 'P2025') {
+          return res.status(404).json({ error: 'SESSION_NOT_FOUND' });
+        }
+        log.error("Échec du retrait de l'apprenant de la session", { error: toError(error), sessionId: id });
+        res.status(500).json({ error: 'FAILED_TO_LEAVE_SESSION' });
+      }
+    });
+
+    router.get('/config/trainee-layout', async (_req, res) => {
+      try {
+        const layout = await loadTraineeLayout(room.id);
+        latestLayout = layout;
+        log.debug("Disposition stagiaire récupérée");
+        res.json(layout);
+      } catch (error) {
+        log.error("Échec de la récupération de la disposition stagiaire", { error: toError(error) });
+        res.status(500).json({ error: 'FAILED_TO_FETCH_TRAINEE_LAYOUT' });
+      }
+    });
+
+    router.put('/config/trainee-layout', async (req, res) => {
+      const parsed = traineeLayoutSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      const layout = parsed.data;
+      if (!isValidLayoutSection(layout.boardModuleOrder, layout.boardModuleHidden, BOARD_ORDER_BASELINE)) {
+        return res.status(400).json({ error: 'INVALID_BOARD_ORDER' });
+      }
+      if (!isValidLayoutSection(layout.controlButtonOrder, layout.controlButtonHidden, CONTROL_ORDER_BASELINE)) {
+        return res.status(400).json({ error: 'INVALID_CONTROL_ORDER' });
+      }
+      if (!isValidLayoutSection(layout.sidePanelOrder, layout.sidePanelHidden, SIDE_ORDER_BASELINE)) {
+        return res.status(400).json({ error: 'INVALID_PANEL_ORDER' });
+      }
+      try {
+        const previousLayout = latestLayout;
+        const persisted = await persistTraineeLayout(layout, room.id);
+        latestLayout = persisted;
+        log.info("Disposition stagiaire mise à jour");
+        await recordAuditUpdate(
+          resolveAuditActor(req, res),
+          { action: 'config.layout.update', target: 'trainee-layout', roomId: room.id },
+          previousLayout,
+          persisted,
+        );
+        res.json(persisted);
+        if (ioRef) {
+          ioRef.to(channel).emit('layout.update', persisted);
         }
-        return device.zoneId.trim().toUpperCase() === normalizedZone;
+      } catch (error) {
+        log.error("Échec de la sauvegarde de la disposition stagiaire", { error: toError(error) });
+        res.status(500).json({ error: 'FAILED_TO_SAVE_TRAINEE_LAYOUT' });
+      }
+    });
+
+    router.post('/process/ack', async (req, res) => {
+      const parsed = processAckSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      const { ackedBy = 'trainer', zoneId } = parsed.data;
+      await prisma.processAck.upsert({
+        where: { roomId: room.id },
+        update: { isAcked: true, ackedBy, ackedAt: new Date(), clearedAt: null },
+        create: { roomId: room.id, isAcked: true, ackedBy, ackedAt: new Date() },
+      });
+      domainContext.domain.acknowledgeProcess(ackedBy, zoneId);
+      log.info("Processus accusé réception", { ackedBy, zoneId });
+      res.status(204).send();
+    });
+
+    router.post('/process/clear', async (_req, res) => {
+      await prisma.processAck.upsert({
+        where: { roomId: room.id },
+        update: { isAcked: false, clearedAt: new Date(), ackedAt: null, ackedBy: null },
+        create: { roomId: room.id, isAcked: false, clearedAt: new Date() },
+      });
+      domainContext.domain.clearProcessAck();
+      log.info("Accusé de réception du processus annulé");
+      res.status(204).send();
+    });
+
+    router.post('/uga/silence', async (_req, res) => {
+      const snapshot = domainContext.snapshot();
+      const wasActive = snapshot.ugaActive || snapshot.localAudibleActive;
+      domainContext.domain.silenceAudibleAlarm();
+      // Seul le signal d'évacuation sonnait et sa durée minimale n'est pas écoulée : rien n'est coupé.
+      const after = domainContext.snapshot();
+      if (snapshot.ugaActive && !snapshot.localAudibleActive && after.ugaActive) {
+        log.info("Arrêt du signal d'évacuation refusé", { silenceableAt: after.ugaSilenceableAt });
+        return res
+          .status(409)
+          .json({ error: 'UGA_MIN_DURATION', silenceableAt: after.ugaSilenceableAt });
+      }
+      if (wasActive) {
+        await prisma.eventLog.create({
+          data: {
+            source: 'TRAINEE',
+            payloadJson: JSON.stringify({ action: 'uga-silence' }),
+            roomId: room.id,
+            actorId: currentActorId(),
+            sessionId: sessionManager.getActiveSessionId() ?? undefined,
+          },
+        });
+      }
+      log.info("Alarme sonore neutralisée", { wasActive });
+      res.status(202).json({ status: 'audible-silenced' });
+    });
+
+    // Les saisies sont journalisées dans la session : un code erroné est aussi un signal pédagogique.
+    router.post('/access/verify', async (req, res) => {
+      const parsed = accessCodeVerifySchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      const input = parsed.data.code.trim();
+      const declaredStationId = req.header(STATION_HEADER)?.trim() || null;
+      const stationId = resolveStationId(req);
+      // Un niveau accordé sous un autre identifiant que celui des commandes ne serait jamais vu.
+      if (parsed.data.stationId && parsed.data.stationId !== stationId) {
+        return res.status(400).json({ error: 'STATION_MISMATCH' });
+      }
+      const stationKey = `${room.id}:${resolveAccessLevelKey(req, res)}`;
+      const attemptKey = `${room.id}:${resolveAttemptSource(req, res)}`;
+      if (input.length === 0) {
+        accessLevels.revoke(stationKey);
+        log.debug("Vérification du code d'accès accordée par défaut");
+        return res.json({
+          level: 1,
+          allowed: true,
+          label: 'Accès niveau 1 actif — arrêt signal sonore disponible.',
+          expiresAt: null,
+        });
+      }
+      const recordAttempt = async (
+        result: { level: number | null; allowed: boolean; label: string },
+        reason: string,
+      ) => {
+        await prisma.eventLog.create({
+          data: {
+            source: 'TRAINEE',
+            message: result.label,
+            payloadJson: JSON.stringify({
+              action: 'access-verify',
+              level: result.level,
+              allowed: result.allowed,
+              reason,
+              stationId: declaredStationId,
+            }),
+            roomId: room.id,
+            actorId: currentActorId(),
+            sessionId: sessionManager.getActiveSessionId() ?? undefined,
+          },
+        });
+      };
+      const rejectAttempt = async (level: number | null, label: string, reason: string) => {
+        const status = accessGuard.recordFailure(attemptKey);
+        const result = status.locked
+          ? { level, allowed: false, label: `${label} Poste verrouillé ${formatLockout(status.lockedUntil)}.` }
+          : { level, allowed: false, label, remainingAttempts: status.remainingAttempts };
+        log.debug("Code d'accès refusé", { reason, level, stationId, locked: status.locked });
+        await recordAttempt(result, reason);
+        return status.locked
+          ? res.status(423).json({ ...result, lockedUntil: new Date(status.lockedUntil).toISOString() })
+          : res.json(result);
+      };
+
+      const current = accessGuard.status(attemptKey);
+      if (current.locked) {
+        // Le code n'est pas vérifié pendant le verrouillage pour ne rien révéler.
+        const result = {
+          level: null,
+          allowed: false,
+          label: `Poste verrouillé ${formatLockout(current.lockedUntil)}.`,
+        };
+        log.debug("Code d'accès refusé", { reason: 'locked', stationId });
+        await recordAttempt(result, 'locked');
+        return res.status(423).json({ ...result, lockedUntil: new Date(current.lockedUntil).toISOString() });
+      }
+      const records = await prisma.accessCode.findMany({ orderBy: { level: 'asc' } });
+      const record = records.find((row) => verifyAccessCodeHash(input, row.codeHash));
+      if (!record) {
+        return rejectAttempt(null, 'Code invalide — niveau courant conservé.', 'unknown-code');
+      }
+      const level = Number(record.level);
+      if (isAccessCodeExpired(record.expiresAt)) {
+        // Refusé comme un code inconnu : la réponse et le journal de session, lisibles par le poste,
+        // ne confirment pas l'existence du code. Seul le journal du serveur signale l'expiration.
+        log.info("Code d'accès expiré saisi", { level, stationId });
+        return rejectAttempt(null, 'Code invalide — niveau courant conservé.', 'unknown-code');
+      }
+      if (record.codeHash && isLegacyAccessCodeHash(record.codeHash)) {
+        await prisma.accessCode.update({ where: { level }, data: { codeHash: hashAccessCode(input) } });
+        log.info("Empreinte du code d'accès convertie en scrypt", { level });
+      }
+      if (level >= 3) {
+        const result = { level, allowed: false, label: 'Niveau 3 réservé au technicien de maintenance.' };
+        log.debug("Code d'accès refusé", { reason: 'level-3', level });
+        await recordAttempt(result, 'level-3');
+        return res.json(result);
+      }
+      accessGuard.recordSuccess(attemptKey);
+      const granted = accessLevels.grant(stationKey, level as AccessLevel);
+      const result = { level, allowed: true, label: `Accès niveau ${level} accordé — commandes avancées disponibles.` };
+      log.info("Code d'accès accepté", { level, stationId });
+      await recordAttempt(result, 'accepted');
+      return res.json({ ...result, expiresAt: formatAccessLevelExpiry(granted) });
+    });
+
+    router.get('/access/level', (req, res) => {
+      const current = accessLevels.get(`${room.id}:${resolveAccessLevelKey(req, res)}`);
+      res.json({ level: current.level, expiresAt: formatAccessLevelExpiry(current) });
+    });
+
+    router.post('/sdi/dm/:zone/activate', async (req, res) => {
+      const zoneId = req.params.zone;
+      await recordManualCallPointActivation(zoneId, room.id);
+      domainContext.domain.activateDm(zoneId);
+      log.info("Déclencheur manuel activé", { zoneId });
+      res.status(202).json({ status: 'latched', zoneId });
+    });
+
+    router.post('/sdi/dm/:zone/reset', async (req, res) => {
+      const zoneId = req.params.zone;
+      if (!scenarioRunner.canManuallyReset('DM', zoneId)) {
+        log.warn("Réarmement DM refusé par le scénario actif", { zoneId });
+        return res.status(403).json({ error: 'MANUAL_RESET_NOT_ALLOWED' });
+      }
+      const updated = await recordManualCallPointReset(zoneId, room.id);
+      if (!updated) {
+        return res.status(404).json({ error: 'ZONE_NOT_FOUND' });
+      }
+      domainContext.domain.resetDm(zoneId);
+      log.info("Déclencheur manuel réarmé", { zoneId });
+      res.status(200).json({ status: 'cleared', zoneId });
+    });
+
+    router.post('/sdi/dai/:zone/activate', async (req, res) => {
+      const zoneId = req.params.zone;
+      domainContext.domain.activateDai(zoneId);
+      log.info("Détecteur automatique activé", { zoneId });
+      res.status(202).json({ status: 'activated', zoneId });
+    });
+
+    router.post('/sdi/dai/:zone/reset', async (req, res) => {
+      const zoneId = req.params.zone;
+      if (!scenarioRunner.canManuallyReset('DAI', zoneId)) {
+        log.warn("Réarmement DAI refusé par le scénario actif", { zoneId });
+        return res.status(403).json({ error: 'MANUAL_RESET_NOT_ALLOWED' });
+      }
+      domainContext.domain.resetDai(zoneId);
+      log.info("Détecteur automatique réarmé", { zoneId });
+      res.status(200).json({ status: 'cleared', zoneId });
+    });
+
+    router.post('/sdi/dai/:zone/confirm', async (req, res) => {
+      const zoneId = req.params.zone;
+      if (!domainContext.domain.confirmDetection(zoneId, 'trainee')) {
+        return res.status(409).json({ error: 'NO_PENDING_DETECTION' });
+      }
+      log.info("Alarme feu confirmée après levée de doute", { zoneId });
+      res.status(200).json({ status: 'confirmed', zoneId });
+    });
+
+    router.post('/sdi/dai/:zone/cancel', async (req, res) => {
+      const zoneId = req.params.zone;
+      if (!domainContext.domain.cancelDetection(zoneId, 'trainee')) {
+        return res.status(409).json({ error: 'NO_PENDING_DETECTION' });
+      }
+      log.info("Détection écartée après levée de doute", { zoneId });
+      res.status(200).json({ status: 'cancelled', zoneId });
+    });
+
+    router.post('/evac/manual/start', async (req, res) => {
+      const parsed = manualEvacuationSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      domainContext.domain.startManualEvacuation(parsed.data.reason);
+      await prisma.eventLog.create({
+        data: {
+          source: 'MANUAL',
+          payloadJson: JSON.stringify({ reason: parsed.data.reason, action: 'start' }),
+          roomId: room.id,
+          actorId: currentActorId(),
+          sessionId: sessionManager.getActiveSessionId() ?? undefined,
+        },
+      });
+      log.info("Évacuation manuelle démarrée", { reason: parsed.data.reason });
+      res.status(202).json({ status: 'manual-evac-started' });
+    });
+
+    router.post('/evac/manual/stop', async (req, res) => {
+      const parsed = manualEvacuationSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      domainContext.domain.stopManualEvacuation(parsed.data.reason);
+      await prisma.eventLog.create({
+        data: {
+          source: 'MANUAL',
+          payloadJson: JSON.stringify({ reason: parsed.data.reason, action: 'stop' }),
+          roomId: room.id,
+          actorId: currentActorId(),
+          sessionId: sessionManager.getActiveSessionId() ?? undefined,
+        },
+      });
+      log.info("Évacuation manuelle arrêtée", { reason: parsed.data.reason });
+      res.status(202).json({ status: 'manual-evac-stopped' });
+    });
+
+    router.post('/system/reset', async (_req, res) => {
+      const result = domainContext.domain.trySystemReset();
+      if (!result.ok) {
+        await prisma.eventLog.create({
+          data: {
+            source: 'TRAINEE',
+            payloadJson: JSON.stringify({ action: 'system-reset-rejected', reason: result.reason }),
+            roomId: room.id,
+            actorId: currentActorId(),
+            sessionId: sessionManager.getActiveSessionId() ?? undefined,
+          },
+        });
+        return res.status(409).json({ error: result.reason });
+      }
+      await prisma.processAck.upsert({
+        where: { roomId: room.id },
+        update: { isAcked: false, ackedAt: null, ackedBy: null, clearedAt: new Date() },
+        create: { roomId: room.id, isAcked: false, clearedAt: new Date() },
+      });
+      log.info("Remise à zéro du système demandée");
+      res.status(200).json({ status: 'reset' });
+    });
+
+    router.post('/power/mains/cut', async (_req, res) => {
+      const wasAvailable = domainContext.snapshot().power.mainsAvailable;
+      domainContext.domain.cutMains();
+      if (wasAvailable) {
+        await prisma.eventLog.create({
+          data: {
+            source: 'TRAINER',
+            payloadJson: JSON.stringify({ action: 'power-mains-cut' }),
+            roomId: room.id,
+            actorId: currentActorId(),
+            sessionId: sessionManager.getActiveSessionId() ?? undefined,
+          },
+        });
+      }
+      log.info("Coupure secteur simulée", { wasAvailable });
+      res.status(202).json({ status: 'mains-cut', power: domainContext.snapshot().power });
+    });
+
+    router.post('/power/mains/restore', async (_req, res) => {
+      const wasAvailable = domainContext.snapshot().power.mainsAvailable;
+      domainContext.domain.restoreMains();
+      if (!wasAvailable) {
+        await prisma.eventLog.create({
+          data: {
+            source: 'TRAINER',
+            payloadJson: JSON.stringify({ action: 'power-mains-restore' }),
+            roomId: room.id,
+            actorId: currentActorId(),
+            sessionId: sessionManager.getActiveSessionId() ?? undefined,
+          },
+        });
+      }
+      log.info("Rétablissement secteur simulé", { wasAvailable });
+      res.status(202).json({ status: 'mains-restored', power: domainContext.snapshot().power });
+    });
+
+    router.get('/faults', (_req, res) => {
+      res.json({ faults: Object.values(domainContext.snapshot().faults) });
+    });
+
+    router.post('/faults', async (req, res) => {
+      const parsed = faultRaiseSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      const { label, ...target } = parsed.data;
+      const fault = domainContext.domain.raiseFault(target, { label });
+      if (!fault) {
+        return res.status(400).json({ error: 'FAULT_TARGET_REQUIRED' });
+      }
+      await prisma.eventLog.create({
+        data: {
+          source: 'TRAINER',
+          payloadJson: JSON.stringify({ action: 'fault-raise', faultId: fault.id, kind: fault.kind }),
+          zoneId: fault.zoneId,
+          roomId: room.id,
+          actorId: currentActorId(),
+          sessionId: sessionManager.getActiveSessionId() ?? undefined,
+        },
+      });
+      log.info("Dérangement injecté", { faultId: fault.id, kind: fault.kind });
+      res.status(201).json({ fault });
+    });
+
+    router.post('/faults/ack', async (req, res) => {
+      const parsed = faultAckSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      domainContext.domain.acknowledgeFault(undefined, parsed.data.ackedBy ?? 'trainee');
+      log.info("Dérangements acquittés", { ackedBy: parsed.data.ackedBy });
+      res.status(204).send();
+    });
+
+    router.post('/faults/:id/ack', async (req, res) => {
+      const parsed = faultAckSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      const faultId = req.params.id;
+      if (!domainContext.snapshot().faults[faultId]) {
+        return res.status(404).json({ error: 'FAULT_NOT_FOUND' });
+      }
+      domainContext.domain.acknowledgeFault(faultId, parsed.data.ackedBy ?? 'trainee');
+      log.info("Dérangement acquitté", { faultId });
+      res.status(204).send();
+    });
+
+    router.post('/faults/:id/clear', async (req, res) => {
+      const faultId = req.params.id;
+      if (!domainContext.snapshot().faults[faultId]) {
+        return res.status(404).json({ error: 'FAULT_NOT_FOUND' });
+      }
+      domainContext.domain.clearFault(faultId);
+      await prisma.eventLog.create({
+        data: {
+          source: 'TRAINER',
+          payloadJson: JSON.stringify({ action: 'fault-clear', faultId }),
+          roomId: room.id,
+          actorId: currentActorId(),
+          sessionId: sessionManager.getActiveSessionId() ?? undefined,
+        },
+      });
+      log.info("Dérangement levé", { faultId });
+      res.status(204).send();
+    });
+
+    // Un DAS revenu de sa position de sécurité n'est remis en attente que sur commande explicite.
+    const rearmDas = (deviceId: string | undefined, res: express.Response) => {
+      const deviceIds = domainContext.domain.rearmDas(deviceId);
+      if (deviceIds.length === 0) {
+        return res.status(409).json({ error: 'DAS_NOT_REARMABLE' });
+      }
+      log.info("DAS réarmés", { deviceIds });
+      return res.json({ deviceIds });
+    };
+
+    router.post('/das/rearm', (_req, res) => rearmDas(undefined, res));
+
+    router.post('/das/:id/rearm', (req, res) => {
+      if (!domainContext.snapshot().dasDevices[req.params.id]) {
+        return res.status(404).json({ error: 'DAS_NOT_FOUND' });
+      }
+      return rearmDas(req.params.id, res);
+    });
+
+    router.post('/das/:id/fail', async (req, res) => {
+      const parsed = dasFailSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      const deviceId = req.params.id;
+      if (!domainContext.snapshot().dasDevices[deviceId]) {
+        return res.status(404).json({ error: 'DAS_NOT_FOUND' });
+      }
+      domainContext.domain.failDas(deviceId, parsed.data.mode);
+      await prisma.eventLog.create({
+        data: {
+          source: 'TRAINER',
+          payloadJson: JSON.stringify({ action: 'das-fail', deviceId, mode: parsed.data.mode }),
+          roomId: room.id,
+          actorId: currentActorId(),
+          sessionId: sessionManager.getActiveSessionId() ?? undefined,
+        },
+      });
+      log.info("Défaillance DAS injectée", { deviceId, mode: parsed.data.mode });
+      res.status(204).send();
+    });
+
+    router.post('/das/:id/repair', async (req, res) => {
+      const deviceId = req.params.id;
+      if (!domainContext.snapshot().dasDevices[deviceId]) {
+        return res.status(404).json({ error: 'DAS_NOT_FOUND' });
+      }
+      domainContext.domain.repairDas(deviceId);
+      await prisma.eventLog.create({
+        data: {
+          source: 'TRAINER',
+          payloadJson: JSON.stringify({ action: 'das-repair', deviceId }),
+          roomId: room.id,
+          actorId: currentActorId(),
+          sessionId: sessionManager.getActiveSessionId() ?? undefined,
+        },
+      });
+      log.info("Défaillance DAS levée", { deviceId });
+      res.status(204).send();
+    });
+
+    router.post('/devices/:id/out-of-service', async (req, res) => {
+      const deviceId = req.params.id?.trim();
+      if (!deviceId) {
+        return res.status(400).json({ error: 'DEVICE_ID_REQUIRED' });
+      }
+      const parsed = deviceServiceUpdateSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+
+      try {
+        const [device, activeTopology] = await Promise.all([
+          isDefaultRoom
+            ? prisma.device.findUnique({ where: { id: deviceId } })
+            : loadLatestTopology().then((topology) => topology.devices.find((item) => item.id === deviceId) ?? null),
+          Promise.resolve(resolveActiveTopology()),
+        ]);
+
+        const existsInTopology = Boolean(activeTopology?.devices.some((item) => item.id === deviceId));
+
+        if (!device && !existsInTopology) {
+          return res.status(404).json({ error: 'DEVICE_NOT_FOUND' });
+        }
+
+        if (device && isDefaultRoom) {
+          await prisma.device.update({
+            where: { id: deviceId },
+            data: { outOfService: parsed.data.outOfService },
+          });
+        }
+
+        if (parsed.data.outOfService) {
+          deviceServiceRegistry.set(deviceId, true);
+        } else {
+          deviceServiceRegistry.delete(deviceId);
+        }
+
+        if (latestTopology) {
+          latestTopology = applyOutOfServiceState(latestTopology);
+          if (device && !isDefaultRoom) {
+            await saveRoomTopology(room.id, latestTopology);
+          }
+        }
+
+        lastTopologyBroadcastSignature = null;
+        log.info("État hors service du dispositif mis à jour", {
+          deviceId,
+          outOfService: parsed.data.outOfService,
+          persisted: Boolean(device),
+        });
+
+        res.json({ device: { id: deviceId, outOfService: parsed.data.outOfService } });
+        broadcastActiveTopology(true);
+      } catch (error) {
+        log.error("Échec de la mise à jour hors service du dispositif", {
+          error: toError(error),
+          deviceId,
+        });
+        res.status(500).json({ error: 'FAILED_TO_UPDATE_DEVICE_STATE' });
+      }
+    });
+
+    router.post('/zones/:id/out-of-service', async (req, res) => {
+      const zoneId = req.params.id?.trim();
+      if (!zoneId) {
+        return res.status(400).json({ error: 'ZONE_ID_REQUIRED' });
+      }
+      const parsed = deviceServiceUpdateSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+
+      try {
+        const [zone, activeTopology] = await Promise.all([
+          isDefaultRoom
+            ? prisma.zone.findUnique({ where: { id: zoneId } })
+            : loadLatestTopology().then((topology) => topology.zones.find((item) => item.id === zoneId) ?? null),
+          Promise.resolve(resolveActiveTopology()),
+        ]);
+
+        const existsInTopology = Boolean(activeTopology?.zones.some((item) => item.id === zoneId));
+
+        if (!zone && !existsInTopology) {
+          return res.status(404).json({ error: 'ZONE_NOT_FOUND' });
+        }
+
+        const [dbDevices, runtimeDevices] = await Promise.all([
+          isDefaultRoom
+            ? prisma.device.findMany({ where: { zoneId } })
+            : Promise.resolve(latestTopology?.devices.filter((device) => device.zoneId === zoneId) ?? []),
+          Promise.resolve(activeTopology?.devices.filter((device) => device.zoneId === zoneId) ?? []),
+        ]);
+
+        if (dbDevices.length > 0 && isDefaultRoom) {
+          await prisma.device.updateMany({
+            where: { zoneId },
+            data: { outOfService: parsed.data.outOfService },
+          });
+        }
+
+        const affectedDeviceIds = new Set<string>();
+        dbDevices.forEach((device) => affectedDeviceIds.add(device.id));
+        runtimeDevices.forEach((device) => affectedDeviceIds.add(device.id));
+
+        affectedDeviceIds.forEach((deviceId) => {
+          if (parsed.data.outOfService) {
+            deviceServiceRegistry.set(deviceId, true);
+          } else {
+            deviceServiceRegistry.delete(deviceId);
+          }
+        });
+
+        if (latestTopology) {
+          latestTopology = applyOutOfServiceState(latestTopology);
+          if (dbDevices.length > 0 && !isDefaultRoom) {
+            await saveRoomTopology(room.id, latestTopology);
+          }
+        }
+
+        lastTopologyBroadcastSignature = null;
+        log.info("État hors service de la zone mis à jour", {
+          zoneId,
+          deviceCount: affectedDeviceIds.size,
+          outOfService: parsed.data.outOfService,
+        });
+
+        res.json({
+          zone: { id: zoneId, outOfService: parsed.data.outOfService },
+          devices: Array.from(affectedDeviceIds).map((id) => ({
+            id,
+            outOfService: parsed.data.outOfService,
+          })),
+        });
+        broadcastActiveTopology(true);
+      } catch (error) {
+        log.error("Échec de la mise à jour hors service de la zone", {
+          error: toError(error),
+          zoneId,
+        });
+        res.status(500).json({ error: 'FAILED_TO_UPDATE_ZONE_STATE' });
+      }
+    });
+
+    router.get('/events', async (req, res) => {
+      const { sessionId, actorId, from, to, limit } = req.query;
+      const events = await prisma.eventLog.findMany({
+        where: {
+          roomId: room.id,
+          sessionId: sessionId ? String(sessionId) : undefined,
+          actorId: actorId ? String(actorId) : undefined,
+          ts: {
+            gte: from ? new Date(String(from)) : undefined,
+            lte: to ? new Date(String(to)) : undefined,
+          },
+        },
+        orderBy: { ts: 'desc' },
+        take: limit ? Number(limit) : 100,
+      });
+      const normalizedEvents = events.map((eventLog: { payloadJson: string | null }) => ({
+        ...eventLog,
+        payloadJson: eventLog.payloadJson ? JSON.parse(eventLog.payloadJson) : null,
+      }));
+      log.debug("Événements récupérés", {
+        count: normalizedEvents.length,
+        sessionId: sessionId ? String(sessionId) : undefined,
+      });
+      res.json({ events: normalizedEvents });
+    });
+
+    router.get('/state', (_req, res) => {
+      log.debug("État du domaine demandé");
+      res.json(domainContext.snapshot());
+    });
+
+    router.get('/topology', async (_req, res) => {
+      const snapshot = scenarioRunner.state;
+      const activeScenarioTopology =
+        snapshot.status === 'running' || snapshot.status === 'paused' ? snapshot.scenario?.topology : undefined;
+      if (activeScenarioTopology?.plan?.image) {
+        const enriched = applyOutOfServiceState(activeScenarioTopology);
+        log.debug("Topologie récupérée depuis le scénario actif", {
+          zoneCount: enriched.zones.length,
+          deviceCount: enriched.devices.length,
+        });
+        return res.json(enriched);
+      }
+
+      if (!latestTopology) {
+        try {
+          const topology = await loadLatestTopology();
+          log.debug("Topologie récupérée", {
+            zoneCount: topology.zones.length,
+            deviceCount: topology.devices.length,
+          });
+          return res.json(topology);
+        } catch (error) {
+          log.error("Échec de la récupération de la topologie", { error: toError(error) });
+          return res.status(500).json({ error: 'FAILED_TO_LOAD_TOPOLOGY' });
+        }
+      }
+
+      latestTopology = applyOutOfServiceState(latestTopology);
+      log.debug("Topologie récupérée", {
+        zoneCount: latestTopology.zones.length,
+        deviceCount: latestTopology.devices.length,
+      });
+      res.json(latestTopology);
+    });
+
+    router.put('/topology', async (req, res) => {
+      const parsed = siteTopologySchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      const { zones, devices, plan } = parsed.data;
+      const previousTopology = latestTopology;
+      const auditTopology = (topology: SiteTopology) =>
+        recordAuditUpdate(
+          resolveAuditActor(req, res),
+          { action: 'topology.publish', target: 'topology', roomId: room.id },
+          summarizeTopologyForAudit(previousTopology),
+          summarizeTopologyForAudit(topology),
+        );
+      const zoneIds = new Set(zones.map((zone) => zone.id));
+      for (const device of devices) {
+        if (device.zoneId && !zoneIds.has(device.zoneId)) {
+          return res.status(400).json({ error: `UNKNOWN_ZONE:${device.zoneId}` });
+        }
+      }
+      if (!isDefaultRoom) {
+        try {
+          await saveRoomTopology(room.id, parsed.data);
+          const topology = await loadLatestTopology();
+          log.info("Topologie mise à jour", {
+            roomId: room.id,
+            zoneCount: topology.zones.length,
+            deviceCount: topology.devices.length,
+          });
+          await auditTopology(topology);
+          res.json(topology);
+          broadcastActiveTopology(true);
+        } catch (error) {
+          log.error("Échec de la sauvegarde de la topologie", { roomId: room.id, error: toError(error) });
+          res.status(500).json({ error: 'FAILED_TO_SAVE_TOPOLOGY' });
+        }
+        return;
+      }
+      try {
+        await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+          await tx.device.deleteMany();
+          await tx.zone.deleteMany();
+          if (zones.length > 0) {
+            await tx.zone.createMany({
+              data: zones.map((zone) => ({
+                id: zone.id,
+                label: zone.label,
+                kind: zone.kind,
+                alarmZoneId: zone.alarmZoneId ?? null,
+                safetyZoneIdsJson: zone.safetyZoneIds ? JSON.stringify(zone.safetyZoneIds) : null,
+                detectionStrategy: zone.detectionStrategy ?? null,
+                verificationDelayMs: zone.verificationDelayMs ?? null,
+              })),
+            });
+          }
+          if (devices.length > 0) {
+            await tx.device.createMany({
+              data: devices.map((device) => ({
+                id: device.id,
+                kind: device.kind,
+                zoneId: device.zoneId ?? null,
+                label:
+                  device.label && device.label.trim().length > 0
+                    ? device.label.trim()
+                    : null,
+                propsJson: device.props ? JSON.stringify(device.props) : null,
+              })),
+            });
+          }
+          const planPayload = plan?.image
+            ? {
+                planName: plan.name ?? null,
+                planImage: plan.image,
+                planNotes: plan.notes ?? null,
+              }
+            : { planName: null, planImage: null, planNotes: null };
+          await tx.siteConfig.upsert({
+            where: { id: 1 },
+            update: planPayload,
+            create: {
+              id: 1,
+              evacOnDAI: false,
+              evacOnDMDelayMs: 300000,
+              processAckRequired: true,
+              ...planPayload,
+            },
+          });
+        });
+      } catch (error) {
+        log.error("Échec de la sauvegarde de la topologie", { error: toError(error) });
+        return res.status(500).json({ error: 'FAILED_TO_SAVE_TOPOLOGY' });
+      }
+      const [persistedZones, persistedDevices, persistedConfig] = await Promise.all([
+        prisma.zone.findMany({ orderBy: { label: 'asc' } }),
+        prisma.device.findMany({ orderBy: { id: 'asc' } }),
+        prisma.siteConfig.findUnique({ where: { id: 1 } }),
+      ]);
+      const payload = formatTopologyResponse(persistedZones, persistedDevices, {
+        name: persistedConfig?.planName ?? undefined,
+        image: persistedConfig?.planImage ?? undefined,
+        notes: persistedConfig?.planNotes ?? undefined,
+      });
+      const parsedTopology = siteTopologySchema.parse(payload);
+      latestTopology = parsedTopology;
+      log.info("Topologie mise à jour", {
+        zoneCount: persistedZones.length,
+        deviceCount: persistedDevices.length,
+      });
+      await auditTopology(parsedTopology);
+      res.json(parsedTopology);
+      broadcastActiveTopology(true);
+    });
+
+    router.post('/scenarios/:id/run', async (req, res) => {
+      const record = await prisma.scenario.findUnique({ where: { id: req.params.id } });
+      if (!record) {
+        return res.status(404).json({ error: 'SCENARIO_NOT_FOUND' });
+      }
+      const scenario = serializeScenarioRecord(record);
+      scenarioRunner.run(scenario);
+      broadcastActiveTopology(true);
+      log.info("Exécution de scénario demandée", { scenarioId: scenario.id });
+      await prisma.eventLog.create({
+        data: {
+          source: 'TRAINER',
+          payloadJson: JSON.stringify({ action: 'scenario-run', scenarioId: scenario.id }),
+          roomId: room.id,
+          actorId: currentActorId(),
+          sessionId: sessionManager.getActiveSessionId() ?? undefined,
+        },
+      });
+      res.json(scenarioRunnerSnapshotSchema.parse(scenarioRunner.state));
+    });
+
+    router.post('/scenarios/:id/preload', async (req, res) => {
+      const record = await prisma.scenario.findUnique({ where: { id: req.params.id } });
+      if (!record) {
+        return res.status(404).json({ error: 'SCENARIO_NOT_FOUND' });
+      }
+      const scenario = serializeScenarioRecord(record);
+      scenarioRunner.preload(scenario);
+      broadcastActiveTopology(true);
+      log.info("Préchargement de scénario demandé", { scenarioId: scenario.id });
+      await prisma.eventLog.create({
+        data: {
+          source: 'TRAINER',
+          payloadJson: JSON.stringify({ action: 'scenario-preload', scenarioId: scenario.id }),
+          roomId: room.id,
+          actorId: currentActorId(),
+          sessionId: sessionManager.getActiveSessionId() ?? undefined,
+        },
+      });
+      res.json(scenarioRunnerSnapshotSchema.parse(scenarioRunner.state));
+    });
+
+    router.post('/scenarios/stop', async (_req, res) => {
+      const previousScenario = scenarioRunner.state.scenario;
+      scenarioRunner.stop(previousScenario ? 'stopped' : 'idle');
+      log.info("Arrêt de scénario demandé", { scenarioId: previousScenario?.id });
+      if (previousScenario) {
+        await prisma.eventLog.create({
+          data: {
+            source: 'TRAINER',
+            payloadJson: JSON.stringify({ action: 'scenario-stop', scenarioId: previousScenario.id }),
+            roomId: room.id,
+            actorId: currentActorId(),
+            sessionId: sessionManager.getActiveSessionId() ?? undefined,
+          },
+        });
+      }
+      res.json(scenarioRunnerSnapshotSchema.parse(scenarioRunner.state));
+      broadcastActiveTopology(true);
+    });
+
+    router.post('/scenarios/pause', async (_req, res) => {
+      const scenario = scenarioRunner.state.scenario;
+      if (!scenarioRunner.pause()) {
+        return res.status(409).json({ error: 'SCENARIO_NOT_RUNNING' });
+      }
+      log.info("Pause de scénario demandée", { scenarioId: scenario?.id });
+      await prisma.eventLog.create({
+        data: {
+          source: 'TRAINER',
+          payloadJson: JSON.stringify({ action: 'scenario-pause', scenarioId: scenario?.id }),
+          roomId: room.id,
+          actorId: currentActorId(),
+          sessionId: sessionManager.getActiveSessionId() ?? undefined,
+        },
+      });
+      res.json(scenarioRunnerSnapshotSchema.parse(scenarioRunner.state));
+    });
+
+    router.post('/scenarios/resume', async (_req, res) => {
+      const scenario = scenarioRunner.state.scenario;
+      if (!scenarioRunner.resume()) {
+        return res.status(409).json({ error: 'SCENARIO_NOT_PAUSED' });
+      }
+      log.info("Reprise de scénario demandée", { scenarioId: scenario?.id });
+      await prisma.eventLog.create({
+        data: {
+          source: 'TRAINER',
+          payloadJson: JSON.stringify({ action: 'scenario-resume', scenarioId: scenario?.id }),
+          roomId: room.id,
+          actorId: currentActorId(),
+          sessionId: sessionManager.getActiveSessionId() ?? undefined,
+        },
+      });
+      res.json(scenarioRunnerSnapshotSchema.parse(scenarioRunner.state));
+    });
+
+    router.post('/scenarios/seek', async (req, res) => {
+      const parsed = scenarioSeekSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      const scenario = scenarioRunner.state.scenario;
+      const { eventIndex } = parsed.data;
+      if (!scenarioRunner.seek(eventIndex)) {
+        return res.status(409).json({ error: 'SCENARIO_SEEK_REJECTED' });
+      }
+      log.info("Repositionnement de scénario demandé", { scenarioId: scenario?.id, eventIndex });
+      await prisma.eventLog.create({
+        data: {
+          source: 'TRAINER',
+          payloadJson: JSON.stringify({ action: 'scenario-seek', scenarioId: scenario?.id, eventIndex }),
+          roomId: room.id,
+          actorId: currentActorId(),
+          sessionId: sessionManager.getActiveSessionId() ?? undefined,
+        },
+      });
+      res.json(scenarioRunnerSnapshotSchema.parse(scenarioRunner.state));
+    });
+
+    router.get('/clock', (_req, res) => {
+      res.json(domainContext.clock.state);
+    });
+
+    router.post('/clock', async (req, res) => {
+      const parsed = clockUpdateSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      const { speed, mode } = parsed.data;
+      if (speed !== undefined && isClockSpeed(speed)) {
+        domainContext.clock.setSpeed(speed);
+      }
+      if (mode) {
+        domainContext.clock.setMode(mode);
+      }
+      const clockState = domainContext.clock.state;
+      log.info("Horloge de simulation mise à jour", {
+        speed: clockState.speed,
+        mode: clockState.mode,
+      });
+      await prisma.eventLog.create({
+        data: {
+          source: 'TRAINER',
+          payloadJson: JSON.stringify({
+            action: 'clock-update',
+            speed: clockState.speed,
+            mode: clockState.mode,
+          }),
+          roomId: room.id,
+          actorId: currentActorId(),
+          sessionId: sessionManager.getActiveSessionId() ?? undefined,
+        },
       });
-      if (matchingDevices.length === 0) {
-        return false;
+      res.json(clockState);
+    });
+
+    router.post('/clock/advance', async (req, res) => {
+      const parsed = clockAdvanceSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
       }
-      return matchingDevices.every((device) => {
-        if (device.outOfService) {
-          return true;
-        }
-        return deviceServiceRegistry.get(device.id) ?? false;
+      domainContext.clock.advance(parsed.data.ms);
+      log.info("Avance manuelle de l'horloge de simulation", { ms: parsed.data.ms });
+      await prisma.eventLog.create({
+        data: {
+          source: 'TRAINER',
+          payloadJson: JSON.stringify({ action: 'clock-advance', ms: parsed.data.ms }),
+          roomId: room.id,
+          actorId: currentActorId(),
+          sessionId: sessionManager.getActiveSessionId() ?? undefined,
+        },
       });
-    },
-    isDeviceOutOfService(deviceId) {
-      return deviceServiceRegistry.get(deviceId) ?? false;
-    },
-  });
-  let latestLayout: TraineeLayoutConfig = DEFAULT_TRAINEE_LAYOUT;
-  let latestTopology: SiteTopology | null = null;
-  const deviceServiceRegistry = new Map<string, boolean>();
-  let lastTopologyBroadcastSignature: string | null = null;
-  let ioRef: SocketIOServer | null = null;
-  void loadTraineeLayout()
-    .then((layout) => {
-      latestLayout = layout;
-      log.info("Disposition stagiaire chargée au démarrage");
-    })
-    .catch((error) => {
-      log.error("Échec du chargement de la disposition stagiaire au démarrage", { error: toError(error) });
+      res.json(domainContext.clock.state);
     });
 
-  async function loadLatestTopology(): Promise<SiteTopology> {
-    const [zones, devices, config] = await Promise.all([
-      prisma.zone.findMany({ orderBy: { label: 'asc' } }),
-      prisma.device.findMany({ orderBy: { id: 'asc' } }),
-      prisma.siteConfig.findUnique({ where: { id: 1 } }),
-    ]);
-    deviceServiceRegistry.clear();
-    devices.forEach((device: { id: string; outOfService: boolean }) => {
-      if (device.outOfService) {
-        deviceServiceRegistry.set(device.id, true);
+    router.post('/scenarios/complete', async (_req, res) => {
+      const previousScenario = scenarioRunner.state.scenario;
+      scenarioRunner.stop(previousScenario ? 'completed' : 'idle');
+      log.info("Terminaison de scénario demandée", { scenarioId: previousScenario?.id });
+      if (previousScenario) {
+        await prisma.eventLog.create({
+          data: {
+            source: 'TRAINER',
+            payloadJson: JSON.stringify({ action: 'scenario-complete', scenarioId: previousScenario.id }),
+            roomId: room.id,
+            actorId: currentActorId(),
+            sessionId: sessionManager.getActiveSessionId() ?? undefined,
+          },
+        });
       }
+      res.json(scenarioRunnerSnapshotSchema.parse(scenarioRunner.state));
+      broadcastActiveTopology(true);
     });
-    const payload = formatTopologyResponse(zones, devices, {
-      name: config?.planName ?? undefined,
-      image: config?.planImage ?? undefined,
-      notes: config?.planNotes ?? undefined,
+
+    router.get('/scenarios/active', (_req, res) => {
+      log.debug("Instantané du scénario demandé");
+      res.json(scenarioRunnerSnapshotSchema.parse(scenarioRunner.state));
     });
-    const parsed = siteTopologySchema.parse(payload);
-    const normalized = applyOutOfServiceState(parsed);
-    latestTopology = normalized;
-    return normalized;
-  }
 
-  function resolveActiveTopology(): SiteTopology | null {
-    const snapshot = scenarioRunner.state;
-    if (
-      (snapshot.status === 'running' || snapshot.status === 'ready') &&
-      snapshot.scenario?.topology?.plan?.image
-    ) {
-      return snapshot.scenario.topology ?? null;
+    domainContext.domain.emitter.on('state.update', (snapshot) => {
+      ioRef?.to(channel).emit('state.update', snapshot);
+    });
+
+    domainContext.domain.emitter.on('events.append', (event) => {
+      ioRef?.to(channel).emit('events.append', event);
+    });
+
+    domainContext.clock.onChange((clockState) => {
+      ioRef?.to(channel).emit('clock.update', clockState);
+    });
+
+    scenarioRunner.on('scenario.update', (snapshot) => {
+      ioRef?.to(channel).emit('scenario.update', snapshot);
+      broadcastActiveTopology();
+    });
+
+    sessionManager.on('session.update', (session) => {
+      ioRef?.to(channel).emit('session.update', session);
+    });
+
+    function greet(socket: Socket) {
+      socket.emit('scenario.update', scenarioRunner.state);
+      socket.emit('clock.update', domainContext.clock.state);
+      socket.emit('layout.update', latestLayout);
+      socket.emit('session.update', sessionManager.getCurrentSession());
+      const activeTopology = resolveActiveTopology();
+      if (activeTopology) {
+        socket.emit('topology.update', applyOutOfServiceState(activeTopology));
+      } else if (!latestTopology) {
+        loadLatestTopology()
+          .then((topology) => {
+            socket.emit('topology.update', topology);
+          })
+          .catch((error) => {
+            log.error("Échec du chargement de la topologie pour un nouveau client", {
+              roomId: room.id,
+              error: toError(error),
+            });
+          });
+      }
     }
-    return latestTopology;
+
+    return { room, router, greet };
   }
 
-  function broadcastActiveTopology(force = false) {
-    if (!ioRef) {
-      return;
+  function registerRoom(room: RoomContext): RoomRuntime {
+    const runtime = createRoomRuntime(room);
+    runtimes.set(room.id, runtime);
+    return runtime;
+  }
+
+  function serializeRoom(room: RoomContext) {
+    return { id: room.id, name: room.name, activeSessionId: room.sessionManager.getActiveSessionId() };
+  }
+
+  const defaultRuntime = registerRoom({
+    id: DEFAULT_ROOM_ID,
+    name: DEFAULT_ROOM_NAME,
+    domainContext: defaultDomainContext,
+    sessionManager: defaultSessionManager,
+  });
+  (options.rooms ?? []).forEach((room) => registerRoom(room));
+
+  // Routes d'exercice : `/api/rooms/:roomId/...`, et `/api/...` pour la salle par défaut. Elles
+  // sont montées avant les routes partagées pour que `/api/scenarios/active` ne soit pas pris pour
+  // un identifiant de scénario.
+  app.use('/api/rooms/:roomId', (req, res, next) => {
+    const runtime = runtimes.get(req.params.roomId);
+    if (!runtime) {
+      return res.status(404).json({ error: 'ROOM_NOT_FOUND' });
     }
-    const topology = resolveActiveTopology();
-    if (!topology) {
-      return;
+    return runtime.router(req, res, next);
+  });
+  app.use('/api', defaultRuntime.router);
+
+  const openApiDocument = buildOpenApiDocument();
+  const apiDocsPage = renderApiDocsPage(openApiDocument);
+
+  app.get('/api/openapi.json', (_req, res) => {
+    res.json(openApiDocument);
+  });
+
+  app.get('/api/docs', (_req, res) => {
+    res.type('html').send(apiDocsPage);
+  });
+
+  app.get('/api/rooms', (_req, res) => {
+    const rooms = Array.from(runtimes.values(), ({ room }) => serializeRoom(room));
+    log.debug("Salles renvoyées", { count: rooms.length });
+    res.json({ rooms });
+  });
+
+  app.post('/api/rooms', async (req, res) => {
+    const parsed = roomCreateSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.message });
     }
-    const enrichedTopology = applyOutOfServiceState(topology);
-    if (topology === latestTopology) {
-      latestTopology = enrichedTopology;
+    const { id, name } = parsed.data;
+    if (runtimes.has(id)) {
+      return res.status(409).json({ error: 'ROOM_ALREADY_EXISTS' });
     }
-    const signature = JSON.stringify(enrichedTopology);
-    if (!force && signature === lastTopologyBroadcastSignature) {
-      return;
+    try {
+      await prisma.room.create({ data: { id, name } });
+    } catch (error) {
+      if (isUniqueConstraintError(error)) {
+        return res.status(409).json({ error: 'ROOM_ALREADY_EXISTS' });
+      }
+      log.error("Échec de l'enregistrement de la salle", { error: toError(error), roomId: id });
+      return res.status(500).json({ error: 'FAILED_TO_CREATE_ROOM' });
+    }
+    try {
+      const runtime = registerRoom(await createRoom({ id, name }));
+      log.info("Salle créée", { roomId: id });
+      await recordAudit(resolveAuditActor(req, res), {
+        action: 'room.create',
+        target: id,
+        roomId: id,
+        before: null,
+        after: { name },
+      });
+      res.status(201).json({ room: serializeRoom(runtime.room) });
+    } catch (error) {
+      log.error("Échec de l'initialisation de la salle", { error: toError(error), roomId: id });
+      res.status(500).json({ error: 'FAILED_TO_CREATE_ROOM' });
     }
-    ioRef.emit('topology.update', enrichedTopology);
-    lastTopologyBroadcastSignature = signature;
+  });
+
+  const accessTokenTtlS = authConfig.accessTokenTtlS ?? DEFAULT_ACCESS_TOKEN_TTL_S;
+  const refreshTokenTtlS = authConfig.refreshTokenTtlS ?? DEFAULT_REFRESH_TOKEN_TTL_S;
+
+  function issueAccessToken(user: { id: string; role: string }, authSessionId: string) {
+    const exp = Math.floor(Date.now() / 1000) + accessTokenTtlS;
+    const role: AuthRole = user.role === 'TRAINER' ? 'TRAINER' : 'TRAINEE';
+    return {
+      accessToken: signAccessToken({ sub: user.id, role, sid: authSessionId, exp }, authConfig.signingSecret!),
+      expiresAt: new Date(exp * 1000).toISOString(),
+    };
   }
 
-  function applyOutOfServiceState(topology: SiteTopology): SiteTopology {
-    let mutated = false;
-    const devices = topology.devices.map((device) => {
-      const desiredState = deviceServiceRegistry.get(device.id) ?? false;
-      if (device.outOfService !== desiredState) {
-        mutated = true;
-        return { ...device, outOfService: desiredState };
-      }
-      return device;
+  /**
+   * Ferme les sessions ouvertes d'un utilisateur : ses jetons d'accès, qui portent son rôle signé,
+   * sont refusés sans attendre leur expiration.
+   */
+  async function revokeUserSessions(userId: string) {
+    const openSessions = await prisma.authSession.findMany({
+      where: { userId, revokedAt: null },
+      select: { id: true },
     });
-    if (!mutated) {
-      return topology;
+    if (openSessions.length > 0) {
+      await prisma.authSession.updateMany({
+        where: { id: { in: openSessions.map((session) => session.id) } },
+        data: { revokedAt: new Date() },
+      });
+      openSessions.forEach((session) => revokeSession(session.id, Date.now() + accessTokenTtlS * 1000));
     }
-    return { ...topology, devices };
   }
 
-  void loadLatestTopology()
-    .then((topology) => {
-      log.info("Topologie du site chargée au démarrage", {
-        zoneCount: topology.zones.length,
-        deviceCount: topology.devices.length,
+  app.post('/api/auth/login', async (req, res) => {
+    const parsed = authLoginSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.message });
+    }
+    const { userId, email, secret } = parsed.data;
+    try {
+      const user = await prisma.user.findUnique({
+        where: userId ? { id: userId } : { email: email!.trim().toLowerCase() },
       });
-    })
-    .catch((error) => {
-      log.error("Échec du chargement initial de la topologie du site", { error: toError(error) });
-    });
+      // Les échecs sont comptés par compte, qu'il soit désigné par son identifiant ou son e-mail ;
+      // seul un identifiant inconnu a son propre compteur.
+      const attemptKey = user
+        ? `user:${user.id}`
+        : userId
+        ? `user:${userId}`
+        : `email:${email!.trim().toLowerCase()}`;
+      const current = loginGuard.status(attemptKey);
+      if (current.locked) {
+        // Le secret n'est pas vérifié pendant le verrouillage pour ne rien révéler.
+        log.warn("Connexion refusée, compte verrouillé", { userId: user?.id ?? userId ?? null });
+        return res
+          .status(423)
+          .json({ error: 'LOGIN_LOCKED', lockedUntil: new Date(current.lockedUntil).toISOString() });
+      }
+      if (!user || !verifyCredential(secret, user.credentialHash)) {
+        const status = loginGuard.recordFailure(attemptKey);
+        log.warn("Échec de connexion d'un utilisateur", { userId: user?.id ?? userId ?? null, locked: status.locked });
+        return status.locked
+          ? res.status(423).json({ error: 'LOGIN_LOCKED', lockedUntil: new Date(status.lockedUntil).toISOString() })
+          : res.status(401).json({ error: 'INVALID_CREDENTIALS' });
+      }
+      loginGuard.recordSuccess(attemptKey);
+      const refreshToken = createRefreshToken();
+      const authSession = await prisma.authSession.create({
+        data: {
+          userId: user.id,
+          refreshTokenHash: hashRefreshToken(refreshToken),
+          expiresAt: new Date(Date.now() + refreshTokenTtlS * 1000),
+        },
+      });
+      log.info("Utilisateur connecté", { userId: user.id, authSessionId: authSession.id });
+      res.json({
+        ...issueAccessToken(user, authSession.id),
+        refreshToken,
+        refreshExpiresAt: authSession.expiresAt.toISOString(),
+        user: formatUser(user),
+      });
+    } catch (error) {
+      log.error("Échec de la connexion de l'utilisateur", { error: toError(error) });
+      res.status(500).json({ error: 'FAILED_TO_LOGIN' });
+    }
+  });
+
+  app.post('/api/auth/refresh', async (req, res) => {
+    const parsed = authRefreshSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.message });
+    }
+    try {
+      const authSession = await prisma.authSession.findUnique({
+        where: { refreshTokenHash: hashRefreshToken(parsed.data.refreshToken) },
+        include: { user: true },
+      });
+      if (!authSession || authSession.revokedAt || authSession.expiresAt.getTime() <= Date.now()) {
+        return res.status(401).json({ error: 'INVALID_REFRESH_TOKEN' });
+      }
+      // Le jeton de rafraîchissement est à usage unique : chaque renouvellement en émet un nouveau.
+      // Écriture conditionnelle : de deux renouvellements simultanés, un seul remplace l'ancien jeton.
+      const refreshToken = createRefreshToken();
+      const rotated = await prisma.authSession.updateMany({
+        where: { id: authSession.id, refreshTokenHash: authSession.refreshTokenHash, revokedAt: null },
+        data: { refreshTokenHash: hashRefreshToken(refreshToken) },
+      });
+      if (rotated.count === 0) {
+        return res.status(401).json({ error: 'INVALID_REFRESH_TOKEN' });
+      }
+      log.debug("Jetons renouvelés", { userId: authSession.userId, authSessionId: authSession.id });
+      res.json({
+        ...issueAccessToken(authSession.user, authSession.id),
+        refreshToken,
+        refreshExpiresAt: authSession.expiresAt.toISOString(),
+        user: formatUser(authSession.user),
+      });
+    } catch (error) {
+      log.error("Échec du renouvellement des jetons", { error: toError(error) });
+      res.status(500).json({ error: 'FAILED_TO_REFRESH_TOKEN' });
+    }
+  });
+
+  app.post('/api/auth/logout', async (req, res) => {
+    const parsed = authRefreshSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.message });
+    }
+    try {
+      const authSession = await prisma.authSession.findUnique({
+        where: { refreshTokenHash: hashRefreshToken(parsed.data.refreshToken) },
+      });
+      if (authSession && !authSession.revokedAt) {
+        await prisma.authSession.update({ where: { id: authSession.id }, data: { revokedAt: new Date() } });
+        revokeSession(authSession.id, Date.now() + accessTokenTtlS * 1000);
+        log.info("Utilisateur déconnecté", { userId: authSession.userId, authSessionId: authSession.id });
+      }
+      res.status(204).send();
+    } catch (error) {
+      log.error("Échec de la déconnexion de l'utilisateur", { error: toError(error) });
+      res.status(500).json({ error: 'FAILED_TO_LOGOUT' });
+    }
+  });
 
   app.get('/api/users', async (req, res) => {
     const roleQuery = typeof req.query.role === 'string' ? req.query.role.toUpperCase() : undefined;
@@ -317,6 +1912,12 @@ export function createHttpServer(domainContext: DomainContext, sessionManager: S
         },
       });
       log.info("Utilisateur créé", { userId: user.id, role: user.role });
+      await recordAudit(resolveAuditActor(req, res), {
+        action: 'user.create',
+        target: user.id,
+        before: null,
+        after: formatUser(user),
+      });
       res.status(201).json({ user: formatUser(user) });
     } catch (error) {
       if (isUniqueConstraintError(error)) {
@@ -335,6 +1936,10 @@ export function createHttpServer(domainContext: DomainContext, sessionManager: S
     const { id } = req.params;
     const data = parsed.data;
     try {
+      const previous = await prisma.user.findUnique({ where: { id } });
+      if (!previous) {
+        return res.status(404).json({ error: 'USER_NOT_FOUND' });
+      }
       const user = await prisma.user.update({
         where: { id },
         data: {
@@ -348,7 +1953,17 @@ export function createHttpServer(domainContext: DomainContext, sessionManager: S
           role: data.role ?? undefined,
         },
       });
+      // Les jetons émis avant un changement de rôle porteraient encore l'ancien.
+      if (user.role !== previous.role) {
+        await revokeUserSessions(id);
+      }
       log.info("Utilisateur mis à jour", { userId: user.id });
+      await recordAuditUpdate(
+        resolveAuditActor(req, res),
+        { action: 'user.update', target: user.id },
+        formatUser(previous),
+        formatUser(user),
+      );
       res.json({ user: formatUser(user) });
     } catch (error) {
       if (isKnownRequestError(error)) {
@@ -364,18 +1979,67 @@ export function createHttpServer(domainContext: DomainContext, sessionManager: S
     }
   });
 
+  app.put('/api/users/:id/credentials', async (req, res) => {
+    const parsed = userCredentialSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.message });
+    }
+    const { id } = req.params;
+    const { secret } = parsed.data;
+    try {
+      const previous = await prisma.user.findUnique({
+        where: { id },
+        select: { credentialHash: true },
+      });
+      if (!previous) {
+        return res.status(404).json({ error: 'USER_NOT_FOUND' });
+      }
+      const user = await prisma.user.update({
+        where: { id },
+        data: { credentialHash: secret === null ? null : hashCredential(secret) },
+      });
+      // Un changement d'identifiant ferme les sessions ouvertes avec l'ancien.
+      await revokeUserSessions(id);
+      log.info("Identifiants de l'utilisateur mis à jour", { userId: id, enabled: secret !== null });
+      // Le secret n'est jamais consigné : seule sa présence l'est, même s'il est simplement remplacé.
+      await recordAudit(resolveAuditActor(req, res), {
+        action: 'user.credentials.update',
+        target: id,
+        before: { hasCredential: Boolean(previous.credentialHash) },
+        after: { hasCredential: secret !== null },
+      });
+      res.json({ user: formatUser(user) });
+    } catch (error) {
+      if (isKnownRequestError(error) && error.code === 'P2025') {
+        return res.status(404).json({ error: 'USER_NOT_FOUND' });
+      }
+      log.error("Échec de la mise à jour des identifiants de l'utilisateur", { error: toError(error), userId: id });
+      res.status(500).json({ error: 'FAILED_TO_UPDATE_CREDENTIALS' });
+    }
+  });
+
   app.delete('/api/users/:id', async (req, res) => {
     const { id } = req.params;
     const [sessionCount, scoreCount] = await Promise.all([
-      prisma.session.count({ where: { OR: [{ traineeId: id }, { trainerId: id }] } }),
+      prisma.session.count({
+        where: { OR: [{ traineeId: id }, { trainerId: id }, { participants: { some: { userId: id } } }] },
+      }),
       prisma.score.count({ where: { userId: id } }),
     ]);
     if (sessionCount > 0 || scoreCount > 0) {
       return res.status(409).json({ error: 'USER_IN_USE' });
     }
     try {
-      await prisma.user.delete({ where: { id } });
+      // Les sessions disparaissent avec l'utilisateur, mais ses jetons d'accès resteraient valides.
+      await revokeUserSessions(id);
+      const deleted = await prisma.user.delete({ where: { id } });
       log.info("Utilisateur supprimé", { userId: id });
+      await recordAudit(resolveAuditActor(req, res), {
+        action: 'user.delete',
+        target: id,
+        before: formatUser(deleted),
+        after: null,
+      });
       res.status(204).send();
     } catch (error) {
       if (isKnownRequestError(error) && error.code === 'P2025') {
@@ -386,6 +2050,21 @@ export function createHttpServer(domainContext: DomainContext, sessionManager: S
     }
   });
 
+  app.get('/api/users/:id/progress', async (req, res) => {
+    const { id } = req.params;
+    try {
+      const progress = await buildTraineeProgress(id);
+      if (!progress) {
+        return res.status(404).json({ error: 'USER_NOT_FOUND' });
+      }
+      log.debug('Progression apprenant renvoyée', { userId: id, sessionCount: progress.sessions.length });
+      res.json({ progress });
+    } catch (error) {
+      log.error("Échec du calcul de la progression de l'apprenant", { error: toError(error), userId: id });
+      res.status(500).json({ error: 'FAILED_TO_BUILD_PROGRESS' });
+    }
+  });
+
   app.post('/api/users/import', async (req, res) => {
     const parsed = userImportSchema.safeParse(req.body ?? {});
     if (!parsed.success) {
@@ -397,6 +2076,7 @@ export function createHttpServer(domainContext: DomainContext, sessionManager: S
       skipped: number;
       errors: Array<{ fullName: string; email?: string | null; reason: string }>;
     } = { created: 0, updated: 0, skipped: 0, errors: [] };
+    const actor = resolveAuditActor(req, res);
     const seenIds = new Set<string>();
     const seenEmails = new Set<string>();
 
@@ -441,10 +2121,20 @@ export function createHttpServer(domainContext: DomainContext, sessionManager: S
                 continue;
               }
             }
-            await prisma.user.update({
+            const user = await prisma.user.update({
               where: { id },
               data: { fullName, email, role },
             });
+            // Les jetons émis avant un changement de rôle porteraient encore l'ancien.
+            if (user.role !== existing.role) {
+              await revokeUserSessions(user.id);
+            }
+            await recordAuditUpdate(
+              actor,
+              { action: 'user.import', target: user.id },
+              formatUser(existing),
+              formatUser(user),
+            );
             summary.updated += 1;
             continue;
           }
@@ -456,9 +2146,15 @@ export function createHttpServer(domainContext: DomainContext, sessionManager: S
               continue;
             }
           }
-          await prisma.user.create({
+          const user = await prisma.user.create({
             data: { id, fullName, email, role },
           });
+          await recordAudit(actor, {
+            action: 'user.import',
+            target: user.id,
+            before: null,
+            after: formatUser(user),
+          });
           summary.created += 1;
           continue;
         }
@@ -466,18 +2162,34 @@ export function createHttpServer(domainContext: DomainContext, sessionManager: S
         if (email) {
           const existingByEmail = await prisma.user.findUnique({ where: { email } });
           if (existingByEmail) {
-            await prisma.user.update({
+            const user = await prisma.user.update({
               where: { id: existingByEmail.id },
               data: { fullName, email, role },
             });
+            // Les jetons émis avant un changement de rôle porteraient encore l'ancien.
+            if (user.role !== existingByEmail.role) {
+              await revokeUserSessions(user.id);
+            }
+            await recordAuditUpdate(
+              actor,
+              { action: 'user.import', target: user.id },
+              formatUser(existingByEmail),
+              formatUser(user),
+            );
             summary.updated += 1;
             continue;
           }
         }
 
-        await prisma.user.create({
+        const user = await prisma.user.create({
           data: { fullName, email, role },
         });
+        await recordAudit(actor, {
+          action: 'user.import',
+          target: user.id,
+          before: null,
+          after: formatUser(user),
+        });
         summary.created += 1;
       } catch (error) {
         const reason = isUniqueConstraintError(error) ? 'EMAIL_ALREADY_IN_USE' : 'UNKNOWN_ERROR';
@@ -496,167 +2208,156 @@ export function createHttpServer(domainContext: DomainContext, sessionManager: S
     res.json(summary);
   });
 
-  app.get('/api/sessions', async (req, res) => {
-    const limitRaw = typeof req.query.limit === 'string' ? Number(req.query.limit) : undefined;
-    const limit = Number.isFinite(limitRaw) && limitRaw! > 0 ? Math.min(Math.floor(limitRaw!), 100) : 20;
+  app.get('/api/sessions/:id/improvement-suggestions', async (req, res) => {
+    const { id } = req.params;
     try {
-      const sessions = await sessionManager.listSessions(limit);
-      log.debug("Sessions renvoyées", { limit, count: sessions.length });
-      res.json({ sessions });
+      const session = await prisma.session.findUnique({ where: { id } });
+      if (!session) {
+        return res.status(404).json({ error: 'SESSION_NOT_FOUND' });
+      }
+      const suggestions = await generateImprovementAreasForSession(id);
+      log.info("Suggestions d'amélioration générées", {
+        sessionId: id,
+        improvementCount: suggestions.length,
+      });
+      res.json({ improvementAreas: suggestions });
     } catch (error) {
-      log.error("Échec de la récupération des sessions", { error: toError(error), limit });
-      res.status(500).json({ error: 'FAILED_TO_LIST_SESSIONS' });
+      log.error("Échec de la génération des suggestions d'amélioration", { error: toError(error), sessionId: id });
+      res.status(500).json({ error: 'FAILED_TO_GENERATE_IMPROVEMENTS' });
     }
   });
 
-  app.get('/api/sessions/active', (_req, res) => {
-    log.debug("Session active demandée");
-    res.json({ session: sessionManager.getCurrentSession() });
-  });
-
-  app.post('/api/sessions', async (req, res) => {
-    const parsed = sessionCreateSchema.safeParse(req.body ?? {});
-    if (!parsed.success) {
-      return res.status(400).json({ error: parsed.error.message });
-    }
-    const payload = parsed.data;
-    const name = payload.name.trim();
-    if (!name) {
-      return res.status(400).json({ error: 'INVALID_SESSION_NAME' });
-    }
-    const modeInput = payload.mode.trim();
-    const objectiveInput = payload.objective?.trim() ?? '';
-    const notesInput = payload.notes?.trim() ?? '';
+  app.get('/api/sessions/:id/scores', async (req, res) => {
+    const { id } = req.params;
     try {
-      const session = await sessionManager.createSession({
-        name,
-        mode: modeInput.length > 0 ? modeInput : 'libre',
-        traineeId: payload.traineeId,
-        trainerId: payload.trainerId,
-        objective: objectiveInput.length > 0 ? objectiveInput : undefined,
-        notes: notesInput.length > 0 ? notesInput : undefined,
+      const session = await prisma.session.findUnique({ where: { id } });
+      if (!session) {
+        return res.status(404).json({ error: 'SESSION_NOT_FOUND' });
+      }
+      const scores = await prisma.score.findMany({
+        where: { sessionId: id },
+        include: { user: true },
+        orderBy: { id: 'asc' },
       });
-      log.info("Session créée via l'API", { sessionId: session.id });
-      res.status(201).json({ session });
+      log.debug('Évaluations de session renvoyées', { sessionId: id, count: scores.length });
+      res.json({ scores: scores.map((score) => serializeSessionScore(score)) });
     } catch (error) {
-      if (error instanceof Error && error.message === 'SESSION_ALREADY_ACTIVE') {
-        return res.status(409).json({ error: 'SESSION_ALREADY_ACTIVE' });
-      }
-      if (isKnownRequestError(error) && error.code === 'P2025') {
-        return res.status(404).json({ error: 'RELATED_USER_NOT_FOUND' });
-      }
-      log.error("Échec de la création de la session", { error: toError(error) });
-      res.status(500).json({ error: 'FAILED_TO_CREATE_SESSION' });
+      log.error('Échec de la récupération des évaluations', { error: toError(error), sessionId: id });
+      res.status(500).json({ error: 'FAILED_TO_LIST_SCORES' });
     }
   });
 
-  app.put('/api/sessions/:id', async (req, res) => {
-    const parsed = sessionUpdateSchema.safeParse(req.body ?? {});
+  app.post('/api/sessions/:id/scores', async (req, res) => {
+    const parsed = sessionScoreCreateSchema.safeParse(req.body ?? {});
     if (!parsed.success) {
       return res.status(400).json({ error: parsed.error.message });
     }
     const { id } = req.params;
     const payload = parsed.data;
-    let nextName: string | undefined;
-    if (payload.name !== undefined) {
-      const trimmed = payload.name.trim();
-      if (!trimmed) {
-        return res.status(400).json({ error: 'INVALID_SESSION_NAME' });
-      }
-      nextName = trimmed;
-    }
-    let nextMode: string | undefined;
-    if (payload.mode !== undefined) {
-      const trimmed = payload.mode.trim();
-      nextMode = trimmed.length > 0 ? trimmed : 'libre';
-    }
-    let nextObjective: string | null | undefined;
-    if (payload.objective !== undefined) {
-      if (payload.objective === null) {
-        nextObjective = null;
-      } else {
-        const trimmed = payload.objective.trim();
-        nextObjective = trimmed.length > 0 ? trimmed : null;
-      }
-    }
-    let nextNotes: string | null | undefined;
-    if (payload.notes !== undefined) {
-      if (payload.notes === null) {
-        nextNotes = null;
-      } else {
-        const trimmed = payload.notes.trim();
-        nextNotes = trimmed.length > 0 ? trimmed : null;
-      }
+    // Un formateur connecté évalue en son nom : il ne peut pas signer pour un autre.
+    const identity = res.locals.auth as AuthIdentity | null | undefined;
+    if (identity?.userId && identity.userId !== payload.evaluatorId) {
+      return res.status(403).json({ error: 'EVALUATOR_MISMATCH' });
     }
+    const evaluatorId = identity?.userId ?? payload.evaluatorId;
     try {
-      const session = await sessionManager.updateSession(id, {
-        name: nextName,
-        mode: nextMode,
-        traineeId: payload.traineeId ?? undefined,
-        trainerId: payload.trainerId ?? undefined,
-        objective: nextObjective,
-        notes: nextNotes,
-      });
-      log.info("Session mise à jour via l'API", { sessionId: session.id });
-      res.json({ session });
-    } catch (error) {
-      if (isKnownRequestError(error) && error.code === 'P2025') {
+      const session = await prisma.session.findUnique({ where: { id } });
+      if (!session) {
         return res.status(404).json({ error: 'SESSION_NOT_FOUND' });
       }
-      if (isKnownRequestError(error) && error.code === 'P2003') {
-        return res.status(404).json({ error: 'RELATED_USER_NOT_FOUND' });
+      const evaluator = await prisma.user.findUnique({ where: { id: evaluatorId } });
+      if (!evaluator) {
+        return res.status(404).json({ error: 'EVALUATOR_NOT_FOUND' });
+      }
+      if (evaluator.role !== 'TRAINER') {
+        return res.status(400).json({ error: 'EVALUATOR_NOT_TRAINER' });
+      }
+      const existing = await prisma.score.findFirst({ where: { sessionId: id, userId: evaluator.id } });
+      if (existing) {
+        return res.status(409).json({ error: 'SCORE_ALREADY_EXISTS', scoreId: existing.id });
+      }
+      const comments = payload.comments?.trim();
+      const score = await prisma.score.create({
+        data: {
+          sessionId: id,
+          userId: evaluator.id,
+          rubricJson: buildManualRubricJson(payload.rubricName, payload.items),
+          value: computeScoreValue(payload.items),
+          comments: comments ? comments : null,
+        },
+        include: { user: true },
+      });
+      if (session.endedAt) {
+        await generateSessionReport(id);
       }
-      log.error("Échec de la mise à jour de la session", { error: toError(error), sessionId: id });
-      res.status(500).json({ error: 'FAILED_TO_UPDATE_SESSION' });
+      log.info('Évaluation formateur enregistrée', {
+        sessionId: id,
+        scoreId: score.id,
+        evaluatorId: evaluator.id,
+        value: score.value,
+      });
+      res.status(201).json({ score: serializeSessionScore(score) });
+    } catch (error) {
+      log.error("Échec de l'enregistrement de l'évaluation", { error: toError(error), sessionId: id });
+      res.status(500).json({ error: 'FAILED_TO_CREATE_SCORE' });
     }
   });
 
-  app.post('/api/sessions/:id/close', async (req, res) => {
-    const parsed = sessionCloseSchema.safeParse(req.body ?? {});
+  app.put('/api/sessions/:id/scores/:scoreId', async (req, res) => {
+    const scoreId = Number(req.params.scoreId);
+    if (!Number.isInteger(scoreId) || scoreId <= 0) {
+      return res.status(400).json({ error: 'INVALID_SCORE_ID' });
+    }
+    const parsed = sessionScoreUpdateSchema.safeParse(req.body ?? {});
     if (!parsed.success) {
       return res.status(400).json({ error: parsed.error.message });
     }
     const { id } = req.params;
     const payload = parsed.data;
-    const endedAt = payload.endedAt ? new Date(payload.endedAt) : undefined;
-    let closeNotes: string | null | undefined;
-    if (payload.notes !== undefined) {
-      const trimmed = payload.notes.trim();
-      closeNotes = trimmed.length > 0 ? trimmed : null;
-    }
     try {
-      const session = await sessionManager.closeSession(id, {
-        notes: closeNotes,
-        improvementAreas: normalizeImprovementAreas(payload.improvementAreas),
-        endedAt,
+      const existing = await prisma.score.findFirst({
+        where: { id: scoreId, sessionId: id },
+        include: { user: true, session: true },
       });
-      log.info("Session clôturée via l'API", { sessionId: session.id });
-      res.json({ session });
-    } catch (error) {
-      if (isKnownRequestError(error) && error.code === 'P2025') {
-        return res.status(404).json({ error: 'SESSION_NOT_FOUND' });
+      if (!existing) {
+        return res.status(404).json({ error: 'SCORE_NOT_FOUND' });
       }
-      log.error("Échec de la clôture de la session", { error: toError(error), sessionId: id });
-      res.status(500).json({ error: 'FAILED_TO_CLOSE_SESSION' });
-    }
-  });
-
-  app.get('/api/sessions/:id/improvement-suggestions', async (req, res) => {
-    const { id } = req.params;
-    try {
-      const session = await prisma.session.findUnique({ where: { id } });
-      if (!session) {
-        return res.status(404).json({ error: 'SESSION_NOT_FOUND' });
+      const current = serializeSessionScore(existing);
+      if (current.origin === 'AUTO') {
+        return res.status(409).json({ error: 'AUTO_SCORE_READ_ONLY' });
       }
-      const suggestions = await generateImprovementAreasForSession(id);
-      log.info("Suggestions d'amélioration générées", {
-        sessionId: id,
-        improvementCount: suggestions.length,
+      // Seul son auteur, ou un administrateur, modifie une évaluation formateur.
+      const identity = res.locals.auth as AuthIdentity | null | undefined;
+      const isAuthor = !!identity?.userId && identity.userId === existing.userId;
+      if (identity && identity.role !== 'ADMIN' && !isAuthor) {
+        return res.status(403).json({ error: 'SCORE_NOT_OWNED' });
+      }
+      const items =
+        payload.items ??
+        current.items.map((item) => ({ ...item, score: item.score ?? 0 }));
+      const rubricName = payload.rubricName ?? current.rubricName ?? undefined;
+      let comments: string | null | undefined;
+      if (payload.comments !== undefined) {
+        const trimmed = payload.comments?.trim() ?? '';
+        comments = trimmed.length > 0 ? trimmed : null;
+      }
+      const score = await prisma.score.update({
+        where: { id: scoreId },
+        data: {
+          rubricJson: buildManualRubricJson(rubricName, items),
+          value: computeScoreValue(items),
+          comments,
+        },
+        include: { user: true },
       });
-      res.json({ improvementAreas: suggestions });
+      if (existing.session.endedAt) {
+        await generateSessionReport(id);
+      }
+      log.info('Évaluation formateur mise à jour', { sessionId: id, scoreId, value: score.value });
+      res.json({ score: serializeSessionScore(score) });
     } catch (error) {
-      log.error("Échec de la génération des suggestions d'amélioration", { error: toError(error), sessionId: id });
-      res.status(500).json({ error: 'FAILED_TO_GENERATE_IMPROVEMENTS' });
+      log.error("Échec de la mise à jour de l'évaluation", { error: toError(error), sessionId: id, scoreId });
+      res.status(500).json({ error: 'FAILED_TO_UPDATE_SCORE' });
     }
   });
 
@@ -665,50 +2366,9 @@ export function createHttpServer(domainContext: DomainContext, sessionManager: S
     log.debug("Configuration du site récupérée");
     res.json({
       evacOnDAI: config.evacOnDAI,
-      evacOnDMDelayMs: config.evacOnDMDelayMs,
-      processAckRequired: config.processAckRequired,
-    });
-  });
-
-  app.get('/api/config/trainee-layout', async (_req, res) => {
-    try {
-      const layout = await loadTraineeLayout();
-      latestLayout = layout;
-      log.debug("Disposition stagiaire récupérée");
-      res.json(layout);
-    } catch (error) {
-      log.error("Échec de la récupération de la disposition stagiaire", { error: toError(error) });
-      res.status(500).json({ error: 'FAILED_TO_FETCH_TRAINEE_LAYOUT' });
-    }
-  });
-
-  app.put('/api/config/trainee-layout', async (req, res) => {
-    const parsed = traineeLayoutSchema.safeParse(req.body ?? {});
-    if (!parsed.success) {
-      return res.status(400).json({ error: parsed.error.message });
-    }
-    const layout = parsed.data;
-    if (!isValidLayoutSection(layout.boardModuleOrder, layout.boardModuleHidden, BOARD_ORDER_BASELINE)) {
-      return res.status(400).json({ error: 'INVALID_BOARD_ORDER' });
-    }
-    if (!isValidLayoutSection(layout.controlButtonOrder, layout.controlButtonHidden, CONTROL_ORDER_BASELINE)) {
-      return res.status(400).json({ error: 'INVALID_CONTROL_ORDER' });
-    }
-    if (!isValidLayoutSection(layout.sidePanelOrder, layout.sidePanelHidden, SIDE_ORDER_BASELINE)) {
-      return res.status(400).json({ error: 'INVALID_PANEL_ORDER' });
-    }
-    try {
-      const persisted = await persistTraineeLayout(layout);
-      latestLayout = persisted;
-      log.info("Disposition stagiaire mise à jour");
-      res.json(persisted);
-      if (ioRef) {
-        ioRef.emit('layout.update', persisted);
-      }
-    } catch (error) {
-      log.error("Échec de la sauvegarde de la disposition stagiaire", { error: toError(error) });
-      res.status(500).json({ error: 'FAILED_TO_SAVE_TRAINEE_LAYOUT' });
-    }
+      evacOnDMDelayMs: config.evacOnDMDelayMs,
+      processAckRequired: config.processAckRequired,
+    });
   });
 
   app.put('/api/config/site', async (req, res) => {
@@ -716,21 +2376,24 @@ export function createHttpServer(domainContext: DomainContext, sessionManager: S
     if (!parsed.success) {
       return res.status(400).json({ error: parsed.error.message });
     }
+    const previous = await prisma.siteConfig.findUnique({ where: { id: 1 } });
     const config = await prisma.siteConfig.update({
       where: { id: 1 },
       data: parsed.data,
     });
-    await domainContext.refreshConfig();
+    await Promise.all(Array.from(runtimes.values(), ({ room }) => room.domainContext.refreshConfig()));
     log.info("Configuration du site mise à jour", {
       evacOnDAI: parsed.data.evacOnDAI,
       evacOnDMDelayMs: parsed.data.evacOnDMDelayMs,
       processAckRequired: parsed.data.processAckRequired,
     });
-    res.json({
-      evacOnDAI: config.evacOnDAI,
-      evacOnDMDelayMs: config.evacOnDMDelayMs,
-      processAckRequired: config.processAckRequired,
-    });
+    await recordAuditUpdate(
+      resolveAuditActor(req, res),
+      { action: 'config.site.update', target: 'site' },
+      previous ? formatSiteConfig(previous) : null,
+      formatSiteConfig(config),
+    );
+    res.json(formatSiteConfig(config));
   });
 
   app.get('/api/access/codes', async (_req, res) => {
@@ -750,450 +2413,117 @@ export function createHttpServer(domainContext: DomainContext, sessionManager: S
       return res.status(400).json({ error: parsed.error.message });
     }
     const code = parsed.data.code.trim();
-    const codeHash = hashAccessCode(code);
-    const duplicate = await prisma.accessCode.findFirst({
-      where: {
-        codeHash,
-        level: { not: level },
-      },
-      select: { level: true },
+    const expiresAt = parsed.data.expiresAt ?? null;
+    // Les hashes sont salés : le doublon se détecte en vérifiant le code contre chaque niveau.
+    const others = await prisma.accessCode.findMany({
+      where: { level: { not: level } },
+      select: { codeHash: true },
     });
-    if (duplicate) {
+    if (others.some((row) => verifyAccessCodeHash(code, row.codeHash))) {
       return res.status(409).json({ error: 'CODE_ALREADY_IN_USE' });
     }
+    const codeHash = hashAccessCode(code);
+    const previous = await prisma.accessCode.findUnique({ where: { level } });
     const record = await prisma.accessCode.upsert({
       where: { level },
-      update: { codeHash },
-      create: { level, codeHash },
-    });
-    log.info("Code d'accès mis à jour", { level });
-    res.json({ code: formatAccessCode(record) });
-  });
-
-  app.post('/api/access/verify', async (req, res) => {
-    const parsed = accessCodeVerifySchema.safeParse(req.body ?? {});
-    if (!parsed.success) {
-      return res.status(400).json({ error: parsed.error.message });
-    }
-    const input = parsed.data.code.trim();
-    if (input.length === 0) {
-      log.debug("Vérification du code d'accès accordée par défaut");
-      return res.json({ level: 1, allowed: true, label: 'Accès niveau 1 actif — arrêt signal sonore disponible.' });
-    }
-    const record = await prisma.accessCode.findFirst({
-      where: { codeHash: hashAccessCode(input) },
-      select: { level: true },
-    });
-    if (!record) {
-      log.debug("Code d'accès refusé", { reason: 'unknown-code' });
-      return res.json({ level: null, allowed: false, label: 'Code invalide — niveau courant conservé.' });
-    }
-    const level = Number(record.level);
-    if (level >= 3) {
-      log.debug("Code d'accès refusé", { reason: 'level-3', level });
-      return res.json({ level, allowed: false, label: 'Niveau 3 réservé au technicien de maintenance.' });
-    }
-    log.info("Code d'accès accepté", { level });
-    return res.json({ level, allowed: true, label: `Accès niveau ${level} accordé — commandes avancées disponibles.` });
-  });
-
-  app.post('/api/process/ack', async (req, res) => {
-    const ackedBy = z.string().min(1).parse(req.body?.ackedBy ?? 'trainer');
-    await prisma.processAck.update({
-      where: { id: 1 },
-      data: { isAcked: true, ackedBy, ackedAt: new Date(), clearedAt: null },
-    });
-    domainContext.domain.acknowledgeProcess(ackedBy);
-    log.info("Processus accusé réception", { ackedBy });
-    res.status(204).send();
-  });
-
-  app.post('/api/process/clear', async (_req, res) => {
-    await prisma.processAck.update({
-      where: { id: 1 },
-      data: { isAcked: false, clearedAt: new Date(), ackedAt: null, ackedBy: null },
-    });
-    domainContext.domain.clearProcessAck();
-    log.info("Accusé de réception du processus annulé");
-    res.status(204).send();
-  });
-
-  app.post('/api/uga/silence', async (_req, res) => {
-    const snapshot = domainContext.snapshot();
-    const wasActive = snapshot.ugaActive || snapshot.localAudibleActive;
-    domainContext.domain.silenceAudibleAlarm();
-    if (wasActive) {
-      await prisma.eventLog.create({
-        data: {
-          source: 'TRAINEE',
-          payloadJson: JSON.stringify({ action: 'uga-silence' }),
-          sessionId: sessionManager.getActiveSessionId() ?? undefined,
-        },
-      });
-    }
-    log.info("Alarme sonore neutralisée", { wasActive });
-    res.status(202).json({ status: 'audible-silenced' });
-  });
-
-  app.post('/api/sdi/dm/:zone/activate', async (req, res) => {
-    const zoneId = req.params.zone;
-    await recordManualCallPointActivation(zoneId);
-    domainContext.domain.activateDm(zoneId);
-    log.info("Déclencheur manuel activé", { zoneId });
-    res.status(202).json({ status: 'latched', zoneId });
-  });
-
-  app.post('/api/sdi/dm/:zone/reset', async (req, res) => {
-    const zoneId = req.params.zone;
-    if (!scenarioRunner.canManuallyReset('DM', zoneId)) {
-      log.warn("Réarmement DM refusé par le scénario actif", { zoneId });
-      return res.status(403).json({ error: 'MANUAL_RESET_NOT_ALLOWED' });
-    }
-    const updated = await recordManualCallPointReset(zoneId);
-    if (!updated) {
-      return res.status(404).json({ error: 'ZONE_NOT_FOUND' });
-    }
-    domainContext.domain.resetDm(zoneId);
-    log.info("Déclencheur manuel réarmé", { zoneId });
-    res.status(200).json({ status: 'cleared', zoneId });
-  });
-
-  app.post('/api/sdi/dai/:zone/activate', async (req, res) => {
-    const zoneId = req.params.zone;
-    domainContext.domain.activateDai(zoneId);
-    log.info("Détecteur automatique activé", { zoneId });
-    res.status(202).json({ status: 'activated', zoneId });
-  });
-
-  app.post('/api/sdi/dai/:zone/reset', async (req, res) => {
-    const zoneId = req.params.zone;
-    if (!scenarioRunner.canManuallyReset('DAI', zoneId)) {
-      log.warn("Réarmement DAI refusé par le scénario actif", { zoneId });
-      return res.status(403).json({ error: 'MANUAL_RESET_NOT_ALLOWED' });
-    }
-    domainContext.domain.resetDai(zoneId);
-    log.info("Détecteur automatique réarmé", { zoneId });
-    res.status(200).json({ status: 'cleared', zoneId });
-  });
-
-  app.post('/api/evac/manual/start', async (req, res) => {
-    const parsed = manualEvacuationSchema.safeParse(req.body ?? {});
-    if (!parsed.success) {
-      return res.status(400).json({ error: parsed.error.message });
-    }
-    domainContext.domain.startManualEvacuation(parsed.data.reason);
-    await prisma.eventLog.create({
-      data: {
-        source: 'MANUAL',
-        payloadJson: JSON.stringify({ reason: parsed.data.reason, action: 'start' }),
-        sessionId: sessionManager.getActiveSessionId() ?? undefined,
-      },
+      update: { codeHash, expiresAt },
+      create: { level, codeHash, expiresAt },
     });
-    log.info("Évacuation manuelle démarrée", { reason: parsed.data.reason });
-    res.status(202).json({ status: 'manual-evac-started' });
-  });
-
-  app.post('/api/evac/manual/stop', async (req, res) => {
-    const parsed = manualEvacuationSchema.safeParse(req.body ?? {});
-    if (!parsed.success) {
-      return res.status(400).json({ error: parsed.error.message });
-    }
-    domainContext.domain.stopManualEvacuation(parsed.data.reason);
-    await prisma.eventLog.create({
-      data: {
-        source: 'MANUAL',
-        payloadJson: JSON.stringify({ reason: parsed.data.reason, action: 'stop' }),
-        sessionId: sessionManager.getActiveSessionId() ?? undefined,
+    log.info("Code d'accès mis à jour", { level, expiresAt });
+    // Ni le code ni son empreinte ne sont consignés.
+    await recordAudit(resolveAuditActor(req, res), {
+      action: 'access.code.update',
+      target: String(level),
+      before: {
+        configured: Boolean(previous?.codeHash),
+        expiresAt: previous?.expiresAt?.toISOString() ?? null,
       },
+      after: { configured: true, expiresAt: expiresAt?.toISOString() ?? null },
     });
-    log.info("Évacuation manuelle arrêtée", { reason: parsed.data.reason });
-    res.status(202).json({ status: 'manual-evac-stopped' });
+    res.json({ code: formatAccessCode(record) });
   });
 
-  app.post('/api/system/reset', async (_req, res) => {
-    const result = domainContext.domain.trySystemReset();
-    if (!result.ok) {
-      return res.status(409).json({ error: result.reason });
-    }
-    await prisma.processAck.update({
-      where: { id: 1 },
-      data: { isAcked: false, ackedAt: null, ackedBy: null, clearedAt: new Date() },
-    });
-    log.info("Remise à zéro du système demandée");
-    res.status(200).json({ status: 'reset' });
+  app.get('/api/permissions', (_req, res) => {
+    res.json(serializePermissionPolicy(permissionPolicy));
   });
 
-  app.post('/api/devices/:id/out-of-service', async (req, res) => {
-    const deviceId = req.params.id?.trim();
-    if (!deviceId) {
-      return res.status(400).json({ error: 'DEVICE_ID_REQUIRED' });
-    }
-    const parsed = deviceServiceUpdateSchema.safeParse(req.body ?? {});
+  app.put('/api/permissions', async (req, res) => {
+    const parsed = permissionGrantsUpdateSchema.safeParse(req.body ?? {});
     if (!parsed.success) {
       return res.status(400).json({ error: parsed.error.message });
     }
-
+    const previousGrants = permissionPolicy.site;
     try {
-      const [device, activeTopology] = await Promise.all([
-        prisma.device.findUnique({ where: { id: deviceId } }),
-        Promise.resolve(resolveActiveTopology()),
-      ]);
-
-      const existsInTopology = Boolean(activeTopology?.devices.some((item) => item.id === deviceId));
-
-      if (!device && !existsInTopology) {
-        return res.status(404).json({ error: 'DEVICE_NOT_FOUND' });
-      }
-
-      if (device) {
-        await prisma.device.update({
-          where: { id: deviceId },
-          data: { outOfService: parsed.data.outOfService },
-        });
-      }
-
-      if (parsed.data.outOfService) {
-        deviceServiceRegistry.set(deviceId, true);
-      } else {
-        deviceServiceRegistry.delete(deviceId);
-      }
-
-      if (latestTopology) {
-        latestTopology = applyOutOfServiceState(latestTopology);
-      }
-
-      lastTopologyBroadcastSignature = null;
-      log.info("État hors service du dispositif mis à jour", {
-        deviceId,
-        outOfService: parsed.data.outOfService,
-        persisted: Boolean(device),
-      });
-
-      res.json({ device: { id: deviceId, outOfService: parsed.data.outOfService } });
-      broadcastActiveTopology(true);
+      await replacePermissionGrants(SITE_SCOPE, parsed.data.grants);
     } catch (error) {
-      log.error("Échec de la mise à jour hors service du dispositif", {
-        error: toError(error),
-        deviceId,
-      });
-      res.status(500).json({ error: 'FAILED_TO_UPDATE_DEVICE_STATE' });
-    }
+      log.error("Échec de l'enregistrement des autorisations", { error: toError(error) });
+      return res.status(500).json({ error: 'FAILED_TO_UPDATE_PERMISSIONS' });
+    }
+    permissionPolicy.site = parsed.data.grants;
+    log.info("Autorisations du site mises à jour", { count: Object.keys(parsed.data.grants).length });
+    await recordAuditUpdate(
+      resolveAuditActor(req, res),
+      { action: 'permissions.update', target: SITE_SCOPE },
+      previousGrants,
+      parsed.data.grants,
+    );
+    res.json(serializePermissionPolicy(permissionPolicy));
   });
 
-  app.post('/api/zones/:id/out-of-service', async (req, res) => {
-    const zoneId = req.params.id?.trim();
-    if (!zoneId) {
-      return res.status(400).json({ error: 'ZONE_ID_REQUIRED' });
+  app.put('/api/permissions/rooms/:roomId', async (req, res) => {
+    const { roomId } = req.params;
+    if (!runtimes.has(roomId)) {
+      return res.status(404).json({ error: 'ROOM_NOT_FOUND' });
     }
-    const parsed = deviceServiceUpdateSchema.safeParse(req.body ?? {});
+    const parsed = permissionGrantsUpdateSchema.safeParse(req.body ?? {});
     if (!parsed.success) {
       return res.status(400).json({ error: parsed.error.message });
     }
-
+    const { grants } = parsed.data;
+    const siteOnly = Object.keys(grants).find(
+      (permission) => getPermissionDefinition(permission as PermissionId).scope !== 'room',
+    );
+    if (siteOnly) {
+      return res.status(400).json({ error: 'PERMISSION_NOT_ROOM_SCOPED' });
+    }
+    const previousGrants = permissionPolicy.rooms[roomId] ?? {};
     try {
-      const [zone, activeTopology] = await Promise.all([
-        prisma.zone.findUnique({ where: { id: zoneId } }),
-        Promise.resolve(resolveActiveTopology()),
-      ]);
-
-      const existsInTopology = Boolean(activeTopology?.zones.some((item) => item.id === zoneId));
-
-      if (!zone && !existsInTopology) {
-        return res.status(404).json({ error: 'ZONE_NOT_FOUND' });
-      }
-
-      const [dbDevices, runtimeDevices] = await Promise.all([
-        prisma.device.findMany({ where: { zoneId } }),
-        Promise.resolve(activeTopology?.devices.filter((device) => device.zoneId === zoneId) ?? []),
-      ]);
-
-      if (dbDevices.length > 0) {
-        await prisma.device.updateMany({
-          where: { zoneId },
-          data: { outOfService: parsed.data.outOfService },
-        });
-      }
-
-      const affectedDeviceIds = new Set<string>();
-      dbDevices.forEach((device) => affectedDeviceIds.add(device.id));
-      runtimeDevices.forEach((device) => affectedDeviceIds.add(device.id));
-
-      affectedDeviceIds.forEach((deviceId) => {
-        if (parsed.data.outOfService) {
-          deviceServiceRegistry.set(deviceId, true);
-        } else {
-          deviceServiceRegistry.delete(deviceId);
-        }
-      });
-
-      if (latestTopology) {
-        latestTopology = applyOutOfServiceState(latestTopology);
-      }
-
-      lastTopologyBroadcastSignature = null;
-      log.info("État hors service de la zone mis à jour", {
-        zoneId,
-        deviceCount: affectedDeviceIds.size,
-        outOfService: parsed.data.outOfService,
-      });
-
-      res.json({
-        zone: { id: zoneId, outOfService: parsed.data.outOfService },
-        devices: Array.from(affectedDeviceIds).map((id) => ({
-          id,
-          outOfService: parsed.data.outOfService,
-        })),
-      });
-      broadcastActiveTopology(true);
+      await replacePermissionGrants(roomId, grants);
     } catch (error) {
-      log.error("Échec de la mise à jour hors service de la zone", {
+      log.error("Échec de l'enregistrement des autorisations de la salle", {
         error: toError(error),
-        zoneId,
-      });
-      res.status(500).json({ error: 'FAILED_TO_UPDATE_ZONE_STATE' });
-    }
-  });
-
-  app.get('/api/events', async (req, res) => {
-    const { sessionId, from, to, limit } = req.query;
-    const events = await prisma.eventLog.findMany({
-      where: {
-        sessionId: sessionId ? String(sessionId) : undefined,
-        ts: {
-          gte: from ? new Date(String(from)) : undefined,
-          lte: to ? new Date(String(to)) : undefined,
-        },
-      },
-      orderBy: { ts: 'desc' },
-      take: limit ? Number(limit) : 100,
-    });
-    const normalizedEvents = events.map((eventLog: { payloadJson: string | null }) => ({
-      ...eventLog,
-      payloadJson: eventLog.payloadJson ? JSON.parse(eventLog.payloadJson) : null,
-    }));
-    log.debug("Événements récupérés", {
-      count: normalizedEvents.length,
-      sessionId: sessionId ? String(sessionId) : undefined,
-    });
-    res.json({ events: normalizedEvents });
-  });
-
-  app.get('/api/state', (_req, res) => {
-    log.debug("État du domaine demandé");
-    res.json(domainContext.snapshot());
-  });
-
-  app.get('/api/topology', async (_req, res) => {
-    const snapshot = scenarioRunner.state;
-    const activeScenarioTopology =
-      snapshot.status === 'running' ? snapshot.scenario?.topology : undefined;
-    if (activeScenarioTopology?.plan?.image) {
-      const enriched = applyOutOfServiceState(activeScenarioTopology);
-      log.debug("Topologie récupérée depuis le scénario actif", {
-        zoneCount: enriched.zones.length,
-        deviceCount: enriched.devices.length,
+        roomId,
       });
-      return res.json(enriched);
-    }
-
-    if (!latestTopology) {
-      try {
-        const topology = await loadLatestTopology();
-        log.debug("Topologie récupérée", {
-          zoneCount: topology.zones.length,
-          deviceCount: topology.devices.length,
-        });
-        return res.json(topology);
-      } catch (error) {
-        log.error("Échec de la récupération de la topologie", { error: toError(error) });
-        return res.status(500).json({ error: 'FAILED_TO_LOAD_TOPOLOGY' });
-      }
-    }
-
-    latestTopology = applyOutOfServiceState(latestTopology);
-    log.debug("Topologie récupérée", {
-      zoneCount: latestTopology.zones.length,
-      deviceCount: latestTopology.devices.length,
-    });
-    res.json(latestTopology);
+      return res.status(500).json({ error: 'FAILED_TO_UPDATE_PERMISSIONS' });
+    }
+    if (Object.keys(grants).length > 0) {
+      permissionPolicy.rooms[roomId] = grants;
+    } else {
+      delete permissionPolicy.rooms[roomId];
+    }
+    log.info("Autorisations de la salle mises à jour", { roomId, count: Object.keys(grants).length });
+    await recordAuditUpdate(
+      resolveAuditActor(req, res),
+      { action: 'permissions.update', target: roomId, roomId },
+      previousGrants,
+      grants,
+    );
+    res.json(serializePermissionPolicy(permissionPolicy));
   });
 
-  app.put('/api/topology', async (req, res) => {
-    const parsed = siteTopologySchema.safeParse(req.body ?? {});
+  app.get('/api/audit', async (req, res) => {
+    const parsed = auditQuerySchema.safeParse(req.query);
     if (!parsed.success) {
       return res.status(400).json({ error: parsed.error.message });
     }
-    const { zones, devices, plan } = parsed.data;
-    const zoneIds = new Set(zones.map((zone) => zone.id));
-    for (const device of devices) {
-      if (device.zoneId && !zoneIds.has(device.zoneId)) {
-        return res.status(400).json({ error: `UNKNOWN_ZONE:${device.zoneId}` });
-      }
-    }
     try {
-      await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
-        await tx.device.deleteMany();
-        await tx.zone.deleteMany();
-        if (zones.length > 0) {
-          await tx.zone.createMany({
-            data: zones.map((zone) => ({ id: zone.id, label: zone.label, kind: zone.kind })),
-          });
-        }
-        if (devices.length > 0) {
-          await tx.device.createMany({
-            data: devices.map((device) => ({
-              id: device.id,
-              kind: device.kind,
-              zoneId: device.zoneId ?? null,
-              label:
-                device.label && device.label.trim().length > 0
-                  ? device.label.trim()
-                  : null,
-              propsJson: device.props ? JSON.stringify(device.props) : null,
-            })),
-          });
-        }
-        const planPayload = plan?.image
-          ? {
-              planName: plan.name ?? null,
-              planImage: plan.image,
-              planNotes: plan.notes ?? null,
-            }
-          : { planName: null, planImage: null, planNotes: null };
-        await tx.siteConfig.upsert({
-          where: { id: 1 },
-          update: planPayload,
-          create: {
-            id: 1,
-            evacOnDAI: false,
-            evacOnDMDelayMs: 300000,
-            processAckRequired: true,
-            ...planPayload,
-          },
-        });
-      });
+      const page = await listAuditEntries(parsed.data);
+      log.debug("Journal d'audit renvoyé", { count: page.entries.length, action: parsed.data.action });
+      res.json(page);
     } catch (error) {
-      log.error("Échec de la sauvegarde de la topologie", { error: toError(error) });
-      return res.status(500).json({ error: 'FAILED_TO_SAVE_TOPOLOGY' });
+      log.error("Échec de la récupération du journal d'audit", { error: toError(error) });
+      res.status(500).json({ error: 'FAILED_TO_FETCH_AUDIT_LOG' });
     }
-    const [persistedZones, persistedDevices, persistedConfig] = await Promise.all([
-      prisma.zone.findMany({ orderBy: { label: 'asc' } }),
-      prisma.device.findMany({ orderBy: { id: 'asc' } }),
-      prisma.siteConfig.findUnique({ where: { id: 1 } }),
-    ]);
-    const payload = formatTopologyResponse(persistedZones, persistedDevices, {
-      name: persistedConfig?.planName ?? undefined,
-      image: persistedConfig?.planImage ?? undefined,
-      notes: persistedConfig?.planNotes ?? undefined,
-    });
-    const parsedTopology = siteTopologySchema.parse(payload);
-    latestTopology = parsedTopology;
-    log.info("Topologie mise à jour", {
-      zoneCount: persistedZones.length,
-      deviceCount: persistedDevices.length,
-    });
-    res.json(parsedTopology);
-    broadcastActiveTopology(true);
   });
 
   app.get('/api/scenarios', async (_req, res) => {
@@ -1228,6 +2558,7 @@ export function createHttpServer(domainContext: DomainContext, sessionManager: S
       ...(parsed.data.topology ? { topology: parsed.data.topology } : {}),
       ...(parsed.data.manualResettable ? { manualResettable: parsed.data.manualResettable } : {}),
       ...(parsed.data.evacuationAudio ? { evacuationAudio: parsed.data.evacuationAudio } : {}),
+      ...(parsed.data.rubric ? { rubric: parsed.data.rubric } : {}),
     };
     const record = await prisma.scenario.create({
       data: {
@@ -1244,8 +2575,15 @@ export function createHttpServer(domainContext: DomainContext, sessionManager: S
       ...(parsed.data.topology ? { topology: parsed.data.topology } : {}),
       ...(parsed.data.manualResettable ? { manualResettable: parsed.data.manualResettable } : {}),
       ...(parsed.data.evacuationAudio ? { evacuationAudio: parsed.data.evacuationAudio } : {}),
+      ...(parsed.data.rubric ? { rubric: parsed.data.rubric } : {}),
     });
     log.info("Scénario créé", { scenarioId: scenario.id });
+    await recordAudit(resolveAuditActor(req, res), {
+      action: 'scenario.create',
+      target: scenario.id,
+      before: null,
+      after: summarizeScenarioForAudit(scenario),
+    });
     res.status(201).json({ scenario });
   });
 
@@ -1264,7 +2602,12 @@ export function createHttpServer(domainContext: DomainContext, sessionManager: S
       ...(parsed.data.topology ? { topology: parsed.data.topology } : {}),
       ...(parsed.data.manualResettable ? { manualResettable: parsed.data.manualResettable } : {}),
       ...(parsed.data.evacuationAudio ? { evacuationAudio: parsed.data.evacuationAudio } : {}),
+      ...(parsed.data.rubric ? { rubric: parsed.data.rubric } : {}),
     };
+    const previous = await prisma.scenario.findUnique({ where: { id: req.params.id } });
+    if (!previous) {
+      return res.status(404).json({ error: 'SCENARIO_NOT_FOUND' });
+    }
     const record = await prisma.scenario.update({
       where: { id: req.params.id },
       data: {
@@ -1280,92 +2623,32 @@ export function createHttpServer(domainContext: DomainContext, sessionManager: S
       ...(parsed.data.topology ? { topology: parsed.data.topology } : {}),
       ...(parsed.data.manualResettable ? { manualResettable: parsed.data.manualResettable } : {}),
       ...(parsed.data.evacuationAudio ? { evacuationAudio: parsed.data.evacuationAudio } : {}),
+      ...(parsed.data.rubric ? { rubric: parsed.data.rubric } : {}),
     });
     log.info("Scénario mis à jour", { scenarioId: scenario.id });
+    await recordAuditUpdate(
+      resolveAuditActor(req, res),
+      { action: 'scenario.update', target: scenario.id },
+      summarizeScenarioForAudit(serializeScenarioRecord(previous)),
+      summarizeScenarioForAudit(scenario),
+    );
     res.json({ scenario });
   });
 
   app.delete('/api/scenarios/:id', async (req, res) => {
-    await prisma.scenario.delete({ where: { id: req.params.id } });
-    log.info("Scénario supprimé", { scenarioId: req.params.id });
-    res.status(204).send();
-  });
-
-  app.post('/api/scenarios/:id/run', async (req, res) => {
-    const record = await prisma.scenario.findUnique({ where: { id: req.params.id } });
-    if (!record) {
-      return res.status(404).json({ error: 'SCENARIO_NOT_FOUND' });
-    }
-    const scenario = serializeScenarioRecord(record);
-    scenarioRunner.run(scenario);
-    broadcastActiveTopology(true);
-    log.info("Exécution de scénario demandée", { scenarioId: scenario.id });
-    await prisma.eventLog.create({
-      data: {
-        source: 'TRAINER',
-        payloadJson: JSON.stringify({ action: 'scenario-run', scenarioId: scenario.id }),
-        sessionId: sessionManager.getActiveSessionId() ?? undefined,
-      },
-    });
-    res.json(scenarioRunnerSnapshotSchema.parse(scenarioRunner.state));
-  });
-
-  app.post('/api/scenarios/:id/preload', async (req, res) => {
-    const record = await prisma.scenario.findUnique({ where: { id: req.params.id } });
-    if (!record) {
+    const previous = await prisma.scenario.findUnique({ where: { id: req.params.id } });
+    if (!previous) {
       return res.status(404).json({ error: 'SCENARIO_NOT_FOUND' });
     }
-    const scenario = serializeScenarioRecord(record);
-    scenarioRunner.preload(scenario);
-    broadcastActiveTopology(true);
-    log.info("Préchargement de scénario demandé", { scenarioId: scenario.id });
-    await prisma.eventLog.create({
-      data: {
-        source: 'TRAINER',
-        payloadJson: JSON.stringify({ action: 'scenario-preload', scenarioId: scenario.id }),
-        sessionId: sessionManager.getActiveSessionId() ?? undefined,
-      },
+    await prisma.scenario.delete({ where: { id: req.params.id } });
+    log.info("Scénario supprimé", { scenarioId: req.params.id });
+    await recordAudit(resolveAuditActor(req, res), {
+      action: 'scenario.delete',
+      target: req.params.id,
+      before: summarizeScenarioForAudit(serializeScenarioRecord(previous)),
+      after: null,
     });
-    res.json(scenarioRunnerSnapshotSchema.parse(scenarioRunner.state));
-  });
-
-  app.post('/api/scenarios/stop', async (_req, res) => {
-    const previousScenario = scenarioRunner.state.scenario;
-    scenarioRunner.stop(previousScenario ? 'stopped' : 'idle');
-    log.info("Arrêt de scénario demandé", { scenarioId: previousScenario?.id });
-    if (previousScenario) {
-      await prisma.eventLog.create({
-        data: {
-          source: 'TRAINER',
-          payloadJson: JSON.stringify({ action: 'scenario-stop', scenarioId: previousScenario.id }),
-          sessionId: sessionManager.getActiveSessionId() ?? undefined,
-        },
-      });
-    }
-    res.json(scenarioRunnerSnapshotSchema.parse(scenarioRunner.state));
-    broadcastActiveTopology(true);
-  });
-
-  app.post('/api/scenarios/complete', async (_req, res) => {
-    const previousScenario = scenarioRunner.state.scenario;
-    scenarioRunner.stop(previousScenario ? 'completed' : 'idle');
-    log.info("Terminaison de scénario demandée", { scenarioId: previousScenario?.id });
-    if (previousScenario) {
-      await prisma.eventLog.create({
-        data: {
-          source: 'TRAINER',
-          payloadJson: JSON.stringify({ action: 'scenario-complete', scenarioId: previousScenario.id }),
-          sessionId: sessionManager.getActiveSessionId() ?? undefined,
-        },
-      });
-    }
-    res.json(scenarioRunnerSnapshotSchema.parse(scenarioRunner.state));
-    broadcastActiveTopology(true);
-  });
-
-  app.get('/api/scenarios/active', (_req, res) => {
-    log.debug("Instantané du scénario demandé");
-    res.json(scenarioRunnerSnapshotSchema.parse(scenarioRunner.state));
+    res.status(204).send();
   });
 
   const server = createServer(app);
@@ -1374,110 +2657,41 @@ export function createHttpServer(domainContext: DomainContext, sessionManager: S
       origin: '*',
     },
   });
-  io.use(createSocketAuthMiddleware(authConfig));
+  io.use(createSocketAuthMiddleware(authConfig, { resolveRoomId: resolveSocketRoomId }));
   ioRef = io;
 
-  domainContext.domain.emitter.on('state.update', (snapshot) => {
-    io.emit('state.update', snapshot);
+  const replayNamespace = io.of(REPLAY_NAMESPACE);
+  replayNamespace.use(createSocketAuthMiddleware(authConfig));
+  attachReplayNamespace(replayNamespace, {
+    canControl: (identity) => hasPermission(identity, 'replay.control', authConfig),
+    loadTopology: loadSiteTopology,
   });
 
-  domainContext.domain.emitter.on('events.append', (event) => {
-    io.emit('events.append', event);
-  });
-
-  scenarioRunner.on('scenario.update', (snapshot) => {
-    io.emit('scenario.update', snapshot);
-    broadcastActiveTopology();
-  });
-
-  sessionManager.on('session.update', (session) => {
-    io.emit('session.update', session);
+  io.use((socket, next) => {
+    const roomId = resolveSocketRoomId(socket);
+    if (!runtimes.has(roomId)) {
+      const error = new Error('ROOM_NOT_FOUND');
+      error.name = 'ROOM_NOT_FOUND';
+      return next(error);
+    }
+    socket.data.roomId = roomId;
+    return next();
   });
 
   io.on('connection', (socket) => {
-    log.debug("Client connecté au WebSocket", { socketId: socket.id });
-    socket.emit('scenario.update', scenarioRunner.state);
-    socket.emit('layout.update', latestLayout);
-    socket.emit('session.update', sessionManager.getCurrentSession());
-    const activeTopology = resolveActiveTopology();
-    if (activeTopology) {
-      socket.emit('topology.update', applyOutOfServiceState(activeTopology));
-    } else if (!latestTopology) {
-      loadLatestTopology()
-        .then((topology) => {
-          socket.emit('topology.update', topology);
-        })
-        .catch((error) => {
-          log.error("Échec du chargement de la topologie pour un nouveau client", { error: toError(error) });
-        });
+    const runtime = runtimes.get(socket.data.roomId as string);
+    if (!runtime) {
+      socket.disconnect(true);
+      return;
     }
+    log.debug("Client connecté au WebSocket", { socketId: socket.id, roomId: runtime.room.id });
+    void socket.join(roomChannel(runtime.room.id));
+    runtime.greet(socket);
   });
 
   return { app, server: server as HttpServer, io };
 }
 
-function formatTopologyResponse(
-  zones: Array<{ id: string; label: string; kind: string }>,
-  devices: Array<{
-    id: string;
-    kind: string;
-    zoneId: string | null;
-    label: string | null;
-    propsJson: string | null;
-    outOfService: boolean;
-  }>,
-  plan?: { name?: string; image?: string; notes?: string },
-) {
-  const planPayload = plan?.image
-    ? {
-        image: plan.image,
-        name: plan.name ?? undefined,
-        notes: plan.notes ?? undefined,
-      }
-    : undefined;
-  return {
-    plan: planPayload,
-    zones: zones.map((zone) => ({
-      id: zone.id,
-      label: zone.label,
-      kind: zone.kind,
-    })),
-    devices: devices.map((device) => {
-      const parsedProps = parseDeviceProps(device.propsJson);
-      const persistedLabel = typeof device.label === 'string' ? device.label.trim() : '';
-      const parsedLabel =
-        typeof parsedProps?.label === 'string' ? String(parsedProps.label).trim() : '';
-      const label =
-        persistedLabel.length > 0
-          ? persistedLabel
-          : parsedLabel.length > 0
-            ? parsedLabel
-            : undefined;
-      return {
-        id: device.id,
-        kind: device.kind,
-        zoneId: device.zoneId ?? undefined,
-        label,
-        props: parsedProps ?? undefined,
-        outOfService: device.outOfService,
-      };
-    }),
-  };
-}
-
-function parseDeviceProps(json: string | null): Record<string, unknown> | undefined {
-  if (!json) {
-    return undefined;
-  }
-  try {
-    const value = JSON.parse(json);
-    return typeof value === 'object' && value !== null ? (value as Record<string, unknown>) : undefined;
-  } catch (error) {
-    httpLogger.error("Échec de l'analyse du JSON des attributs de dispositif", { error: toError(error) });
-    return undefined;
-  }
-}
-
 function isValidLayoutSection(order: string[], hidden: string[], baseline: string[]): boolean {
   const baselineSet = new Set(baseline);
   if (baselineSet.size !== baseline.length) {
@@ -1505,12 +2719,38 @@ function isValidLayoutSection(order: string[], hidden: string[], baseline: strin
   return unionSize === baselineSet.size;
 }
 
-function formatUser(user: { id: string; fullName: string; email: string | null; role: string }) {
+function appendMissingBaselineItems(order: string[], hidden: string[], baseline: string[]): string[] {
+  const known = new Set([...order, ...hidden]);
+  return [...order, ...baseline.filter((item) => !known.has(item))];
+}
+
+// Les modules ajoutés au tableau après l'enregistrement d'une disposition sont ajoutés en fin de liste.
+function completeLayoutWithBaseline(layout: TraineeLayoutConfig): TraineeLayoutConfig {
+  return {
+    ...layout,
+    boardModuleOrder: appendMissingBaselineItems(layout.boardModuleOrder, layout.boardModuleHidden, BOARD_ORDER_BASELINE),
+    controlButtonOrder: appendMissingBaselineItems(
+      layout.controlButtonOrder,
+      layout.controlButtonHidden,
+      CONTROL_ORDER_BASELINE,
+    ),
+    sidePanelOrder: appendMissingBaselineItems(layout.sidePanelOrder, layout.sidePanelHidden, SIDE_ORDER_BASELINE),
+  };
+}
+
+function formatUser(user: {
+  id: string;
+  fullName: string;
+  email: string | null;
+  role: string;
+  credentialHash?: string | null;
+}) {
   return {
     id: user.id,
     fullName: user.fullName,
     email: user.email,
     role: user.role,
+    hasCredential: Boolean(user.credentialHash),
   };
 }
 
@@ -1540,14 +2780,58 @@ function normalizeImprovementAreas(
   return normalized;
 }
 
-async function loadTraineeLayout(): Promise<TraineeLayoutConfig> {
-  const record = await prisma.traineeLayout.findUnique({ where: { id: 1 } });
-  if (!record) {
+/** La salle par défaut conserve la table `TraineeLayout` ; les autres salles leur propre colonne. */
+async function loadPermissionPolicy(): Promise<PermissionPolicy> {
+  const policy = createPermissionPolicy();
+  const rows = await prisma.permissionGrant.findMany();
+  for (const row of rows) {
+    let roles: unknown = null;
+    try {
+      roles = JSON.parse(row.rolesJson);
+    } catch {
+      // Analysé comme invalide ci-dessous.
+    }
+    const parsed = permissionGrantsSchema.safeParse({ [row.permission]: roles });
+    if (!parsed.success) {
+      httpLogger.warn("Autorisation enregistrée ignorée", {
+        scope: row.scope,
+        permission: row.permission,
+      });
+      continue;
+    }
+    const target = row.scope === SITE_SCOPE ? policy.site : (policy.rooms[row.scope] ??= {});
+    Object.assign(target, parsed.data);
+  }
+  return policy;
+}
+
+/** Remplace toutes les autorisations enregistrées pour une portée (`*` ou identifiant de salle). */
+async function replacePermissionGrants(scope: string, grants: PermissionGrants): Promise<void> {
+  await prisma.$transaction([
+    prisma.permissionGrant.deleteMany({ where: { scope } }),
+    ...Object.entries(grants).map(([permission, roles]) =>
+      prisma.permissionGrant.create({
+        data: { scope, permission, rolesJson: JSON.stringify(roles) },
+      }),
+    ),
+  ]);
+}
+
+function serializePermissionPolicy(policy: PermissionPolicy) {
+  return { permissions: PERMISSION_DEFINITIONS, site: policy.site, rooms: policy.rooms };
+}
+
+async function loadTraineeLayout(roomId: string): Promise<TraineeLayoutConfig> {
+  const configJson =
+    roomId === DEFAULT_ROOM_ID
+      ? (await prisma.traineeLayout.findUnique({ where: { id: 1 } }))?.configJson
+      : await loadRoomLayoutJson(roomId);
+  if (!configJson) {
     return DEFAULT_TRAINEE_LAYOUT;
   }
   try {
-    const parsed = JSON.parse(record.configJson);
-    const layout = traineeLayoutSchema.parse(parsed);
+    const parsed = JSON.parse(configJson);
+    const layout = completeLayoutWithBaseline(traineeLayoutSchema.parse(parsed));
     if (
       isValidLayoutSection(layout.boardModuleOrder, layout.boardModuleHidden, BOARD_ORDER_BASELINE) &&
       isValidLayoutSection(layout.controlButtonOrder, layout.controlButtonHidden, CONTROL_ORDER_BASELINE) &&
@@ -1556,13 +2840,17 @@ async function loadTraineeLayout(): Promise<TraineeLayoutConfig> {
       return layout;
     }
   } catch (error) {
-    httpLogger.error("Échec de l'analyse du JSON de la disposition stagiaire", { error: toError(error) });
+    httpLogger.error("Échec de l'analyse du JSON de la disposition stagiaire", { roomId, error: toError(error) });
   }
   return DEFAULT_TRAINEE_LAYOUT;
 }
 
-async function persistTraineeLayout(layout: TraineeLayoutConfig): Promise<TraineeLayoutConfig> {
+async function persistTraineeLayout(layout: TraineeLayoutConfig, roomId: string): Promise<TraineeLayoutConfig> {
   const json = JSON.stringify(layout);
+  if (roomId !== DEFAULT_ROOM_ID) {
+    await saveRoomLayoutJson(roomId, json);
+    return layout;
+  }
   const record = await prisma.traineeLayout.upsert({
     where: { id: 1 },
     update: { configJson: json },
@@ -1577,6 +2865,66 @@ async function persistTraineeLayout(layout: TraineeLayoutConfig): Promise<Traine
   }
 }
 
+function formatSiteConfig(config: {
+  evacOnDAI: boolean;
+  evacOnDMDelayMs: number;
+  processAckRequired: boolean;
+}) {
+  return {
+    evacOnDAI: config.evacOnDAI,
+    evacOnDMDelayMs: config.evacOnDMDelayMs,
+    processAckRequired: config.processAckRequired,
+  };
+}
+
+/** Topologie indexée par identifiant pour l'audit ; l'image du plan est réduite à une empreinte. */
+function summarizeTopologyForAudit(topology: SiteTopology | null) {
+  if (!topology) {
+    return null;
+  }
+  return {
+    zones: Object.fromEntries(
+      topology.zones.map((zone) => [
+        zone.id,
+        {
+          label: zone.label,
+          kind: zone.kind,
+          alarmZoneId: zone.alarmZoneId ?? null,
+          safetyZoneIds: zone.safetyZoneIds ?? null,
+          detectionStrategy: zone.detectionStrategy ?? null,
+          verificationDelayMs: zone.verificationDelayMs ?? null,
+        },
+      ]),
+    ),
+    devices: Object.fromEntries(
+      topology.devices.map((device) => [
+        device.id,
+        { kind: device.kind, zoneId: device.zoneId ?? null, label: device.label ?? null },
+      ]),
+    ),
+    plan: topology.plan
+      ? {
+          name: topology.plan.name ?? null,
+          notes: topology.plan.notes ?? null,
+          image: topology.plan.image
+            ? createHash('sha256').update(topology.plan.image).digest('hex').slice(0, 16)
+            : null,
+        }
+      : null,
+  };
+}
+
+function summarizeScenarioForAudit(scenario: ScenarioDefinition) {
+  return {
+    name: scenario.name,
+    description: scenario.description ?? null,
+    events: scenario.events.map((event) => `${event.offset}s ${event.type}`),
+    topology: Boolean(scenario.topology),
+    evacuationAudio: Boolean(scenario.evacuationAudio),
+    rubric: Boolean(scenario.rubric),
+  };
+}
+
 function serializeScenarioRecord(record: { id: string; name: string; json: string }): ScenarioDefinition {
   let rawPayload: unknown;
   try {
@@ -1593,5 +2941,6 @@ function serializeScenarioRecord(record: { id: string; name: string; json: strin
     topology: payload.topology != null ? payload.topology : undefined,
     manualResettable: payload.manualResettable != null ? payload.manualResettable : undefined,
     evacuationAudio: payload.evacuationAudio != null ? payload.evacuationAudio : undefined,
+    rubric: payload.rubric != null ? payload.rubric : undefined,
   });
 }
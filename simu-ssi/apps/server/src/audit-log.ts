@@ -0,0 +1,170 @@
+import type { Request, Response } from 'express';
+import type { z } from 'zod';
+import {
+  ACTOR_HEADER,
+  type AuditAction,
+  type AuditEntry,
+  type auditQuerySchema,
+} from '@simu-ssi/sdk';
+import { prisma } from './prisma';
+import { createLogger, toError } from './logger';
+import type { AuthIdentity } from './auth';
+
+const log = createLogger('AuditLog');
+
+const DEFAULT_PAGE_SIZE = 100;
+
+/** Auteur d'une modification : l'utilisateur connecté, sinon celui déclaré par `X-Actor-Id`. */
+export interface AuditActor {
+  actorId: string | null;
+  actorLabel: string | null;
+}
+
+export interface AuditRecord {
+  action: AuditAction;
+  /** Objet modifié (identifiant d'utilisateur, niveau de code, `site`…). */
+  target?: string | null;
+  roomId?: string | null;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface AuditChanges {
+  before: unknown;
+  after: unknown;
+}
+
+type AuditFilters = z.infer<typeof auditQuerySchema>;
+
+export function resolveAuditActor(
+  req: Pick<Request, 'header'>,
+  res: Pick<Response, 'locals'>,
+): AuditActor {
+  const identity = res.locals.auth as AuthIdentity | null | undefined;
+  const declared = req.header(ACTOR_HEADER)?.trim() || null;
+  return {
+    actorId: identity?.userId ?? declared,
+    actorLabel: identity?.tokenLabel ?? null,
+  };
+}
+
+/**
+ * Réduit deux états aux seules valeurs qui diffèrent, récursivement pour les objets ; les tableaux
+ * sont comparés en bloc. Renvoie `null` si rien n'a changé.
+ */
+export function diffAuditValues(before: unknown, after: unknown): AuditChanges | null {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const changedBefore: Record<string, unknown> = {};
+    const changedAfter: Record<string, unknown> = {};
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    keys.forEach((key) => {
+      const changes = diffAuditValues(before[key], after[key]);
+      if (changes) {
+        changedBefore[key] = changes.before;
+        changedAfter[key] = changes.after;
+      }
+    });
+    return Object.keys(changedAfter).length > 0 ? { before: changedBefore, after: changedAfter } : null;
+  }
+  return JSON.stringify(before ?? null) === JSON.stringify(after ?? null)
+    ? null
+    : { before: before ?? null, after: after ?? null };
+}
+
+/**
+ * Consigne une modification administrative. Un échec d'écriture est journalisé sans faire échouer
+ * la requête, déjà appliquée.
+ */
+export async function recordAudit(actor: AuditActor, record: AuditRecord): Promise<void> {
+  try {
+    await prisma.auditLog.create({
+      data: {
+        actorId: actor.actorId,
+        actorLabel: actor.actorLabel,
+        action: record.action,
+        target: record.target ?? null,
+        roomId: record.roomId ?? null,
+        beforeJson: record.before === undefined ? null : JSON.stringify(record.before),
+        afterJson: record.after === undefined ? null : JSON.stringify(record.after),
+      },
+    });
+  } catch (error) {
+    log.error("Échec de l'enregistrement de l'entrée d'audit", {
+      action: record.action,
+      target: record.target,
+      error: toError(error),
+    });
+  }
+}
+
+/** Consigne une mise à jour réduite à ses différences ; une mise à jour sans effet est ignorée. */
+export async function recordAuditUpdate(
+  actor: AuditActor,
+  record: Omit<AuditRecord, 'before' | 'after'>,
+  before: unknown,
+  after: unknown,
+): Promise<void> {
+  const changes = diffAuditValues(before, after);
+  if (changes) {
+    await recordAudit(actor, { ...record, ...changes });
+  }
+}
+
+/** Entrées les plus récentes d'abord ; `nextCursor` donne la page suivante. */
+export async function listAuditEntries(
+  filters: AuditFilters,
+): Promise<{ entries: AuditEntry[]; nextCursor: number | null }> {
+  const limit = filters.limit ?? DEFAULT_PAGE_SIZE;
+  const rows = await prisma.auditLog.findMany({
+    where: {
+      action: filters.action,
+      actorId: filters.actorId,
+      roomId: filters.roomId,
+      target: filters.target,
+      id: filters.before ? { lt: filters.before } : undefined,
+      createdAt: { gte: filters.from, lte: filters.to },
+    },
+    orderBy: { id: 'desc' },
+    take: limit + 1,
+  });
+  const page = rows.slice(0, limit);
+  const actorIds = Array.from(new Set(page.flatMap((row) => (row.actorId ? [row.actorId] : []))));
+  const actors =
+    actorIds.length > 0
+      ? await prisma.user.findMany({
+          where: { id: { in: actorIds } },
+          select: { id: true, fullName: true },
+        })
+      : [];
+  const names = new Map(actors.map((user) => [user.id, user.fullName]));
+  return {
+    entries: page.map((row) => ({
+      id: row.id,
+      createdAt: row.createdAt.toISOString(),
+      actorId: row.actorId,
+      actorName: row.actorId ? names.get(row.actorId) ?? null : null,
+      actorLabel: row.actorLabel,
+      action: row.action as AuditAction,
+      target: row.target,
+      roomId: row.roomId,
+      before: parseJson(row.beforeJson),
+      after: parseJson(row.afterJson),
+    })),
+    nextCursor: rows.length > limit ? page[page.length - 1].id : null,
+  };
+}
+
+function parseJson(json: string | null): unknown {
+  if (json === null) {
+    return null;
+  }
+  try {
+    return JSON.parse(json);
+  } catch {
+    return json;
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
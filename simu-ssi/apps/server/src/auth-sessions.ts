@@ -0,0 +1,21 @@
+import { prisma } from './prisma';
+import { revokeSession } from './user-auth';
+
+/**
+ * Recharge les sessions révoquées dont des jetons d'accès peuvent encore être valides. La liste tenue
+ * en mémoire repart vide au redémarrage, alors qu'un jeton signé avec `SIMU_SSI_AUTH_SECRET` reste
+ * vérifiable : sans ce rechargement, il serait de nouveau accepté jusqu'à son expiration.
+ */
+export async function restoreRevokedSessions(accessTokenTtlS: number, now = Date.now()): Promise<number> {
+  const ttlMs = accessTokenTtlS * 1000;
+  const sessions = await prisma.authSession.findMany({
+    where: { revokedAt: { gt: new Date(now - ttlMs) } },
+    select: { id: true, revokedAt: true },
+  });
+  for (const session of sessions) {
+    if (session.revokedAt) {
+      revokeSession(session.id, session.revokedAt.getTime() + ttlMs);
+    }
+  }
+  return sessions.length;
+}
@@ -1,6 +1,14 @@
 import type { NextFunction, Request, Response } from 'express';
 import type { Socket } from 'socket.io';
-import { createHash, timingSafeEqual } from 'node:crypto';
+import { createHash, randomBytes, timingSafeEqual } from 'node:crypto';
+import { DEFAULT_ROOM_ID, type PermissionId } from '@simu-ssi/sdk';
+import { DEFAULT_ACCESS_TOKEN_TTL_S, DEFAULT_REFRESH_TOKEN_TTL_S, isAccessToken, verifyAccessToken } from './user-auth';
+import {
+  createPermissionPolicy,
+  resolveAllowedRoles,
+  resolveRoutePermission,
+  type PermissionPolicy,
+} from './permissions';
 
 export const AUTH_ROLES = ['ADMIN', 'TRAINER', 'TRAINEE'] as const;
 export type AuthRole = (typeof AUTH_ROLES)[number];
@@ -8,6 +16,8 @@ export type AuthRole = (typeof AUTH_ROLES)[number];
 export interface AuthIdentity {
   role: AuthRole;
   tokenLabel: string;
+  /** Utilisateur connecté, `null` pour un jeton statique de `SIMU_SSI_API_TOKENS`. */
+  userId: string | null;
 }
 
 export interface AuthTokenRecord {
@@ -19,6 +29,14 @@ export interface AuthTokenRecord {
 export interface AuthConfig {
   enabled: boolean;
   tokens: AuthTokenRecord[];
+  /** Secret de signature des jetons d'accès utilisateur ; sans lui, seuls les jetons statiques sont admis. */
+  signingSecret?: string;
+  /** Durée de vie des jetons d'accès utilisateur, en secondes. */
+  accessTokenTtlS?: number;
+  /** Durée de vie des jetons de rafraîchissement, en secondes. */
+  refreshTokenTtlS?: number;
+  /** Autorisations par action ajustées depuis l'atelier d'administration. */
+  policy?: PermissionPolicy;
 }
 
 export interface RequestLike {
@@ -29,17 +47,23 @@ export interface RequestLike {
 
 export type AuthDecision =
   | { ok: true; identity: AuthIdentity | null }
-  | { ok: false; status: 401 | 403; error: 'AUTH_REQUIRED' | 'AUTH_FORBIDDEN' | 'AUTH_NOT_CONFIGURED' };
+  | { ok: false; status: 401 | 403; error: 'AUTH_REQUIRED' | 'AUTH_FORBIDDEN' };
 
-const ROLE_WEIGHT: Record<AuthRole, number> = {
-  TRAINEE: 1,
-  TRAINER: 2,
-  ADMIN: 3,
-};
+export interface SocketAuthOptions {
+  /** Action exigée pour ouvrir la connexion (`state.read` par défaut). */
+  permission?: PermissionId;
+  /** Salle visée par la connexion, pour appliquer ses autorisations propres. */
+  resolveRoomId?: (socket: Socket) => string;
+}
 
-const DEFAULT_READ_ROLES: AuthRole[] = ['ADMIN', 'TRAINER', 'TRAINEE'];
-const TRAINER_ROLES: AuthRole[] = ['ADMIN', 'TRAINER'];
-const ADMIN_ROLES: AuthRole[] = ['ADMIN'];
+/** Routes de connexion et documentation de l'API, accessibles sans jeton. */
+const PUBLIC_PATHS = [
+  '/api/auth/login',
+  '/api/auth/refresh',
+  '/api/auth/logout',
+  '/api/openapi.json',
+  '/api/docs',
+];
 
 export function getAuthConfig(env: NodeJS.ProcessEnv = process.env): AuthConfig {
   const configuredTokens = parseTokenRecords(env.SIMU_SSI_API_TOKENS);
@@ -57,6 +81,12 @@ export function getAuthConfig(env: NodeJS.ProcessEnv = process.env): AuthConfig
   return {
     enabled: authRequired || configuredTokens.length > 0,
     tokens: configuredTokens,
+    // Sans secret configuré, les jetons émis ne survivent pas au redémarrage : les postes se reconnectent
+    // avec leur jeton de rafraîchissement.
+    signingSecret: env.SIMU_SSI_AUTH_SECRET?.trim() || randomBytes(32).toString('base64url'),
+    accessTokenTtlS: parseDuration(env.SIMU_SSI_ACCESS_TOKEN_TTL_S, DEFAULT_ACCESS_TOKEN_TTL_S),
+    refreshTokenTtlS: parseDuration(env.SIMU_SSI_REFRESH_TOKEN_TTL_S, DEFAULT_REFRESH_TOKEN_TTL_S),
+    policy: createPermissionPolicy(),
   };
 }
 
@@ -115,15 +145,28 @@ export function resolveTokenFromSocket(socket: Socket): string | null {
 }
 
 export function authorizeRequest(request: RequestLike, config: AuthConfig = getAuthConfig()): AuthDecision {
-  if (!config.enabled) {
-    return { ok: true, identity: null };
+  const path = normalizePath(request.path);
+  if (PUBLIC_PATHS.includes(path)) {
+    const token = request.token?.trim();
+    return { ok: true, identity: token ? authenticateToken(token, config) : null };
   }
+  const { permission, roomId } = resolveRoutePermission(request.method, path);
+  return authorizePermission(request.token, permission, roomId, config);
+}
 
-  if (config.tokens.length === 0) {
-    return { ok: false, status: 401, error: 'AUTH_NOT_CONFIGURED' };
+/** Authentifie le jeton puis vérifie que son rôle est autorisé pour l'action dans la salle. */
+export function authorizePermission(
+  rawToken: string | null | undefined,
+  permission: PermissionId | null,
+  roomId: string,
+  config: AuthConfig = getAuthConfig(),
+): AuthDecision {
+  const token = rawToken?.trim();
+  if (!config.enabled) {
+    // Un jeton valide reste exploité pour attribuer les actions, même lorsque l'accès est libre.
+    return { ok: true, identity: token ? authenticateToken(token, config) : null };
   }
 
-  const token = request.token?.trim();
   if (!token) {
     return { ok: false, status: 401, error: 'AUTH_REQUIRED' };
   }
@@ -133,8 +176,7 @@ export function authorizeRequest(request: RequestLike, config: AuthConfig = getA
     return { ok: false, status: 401, error: 'AUTH_REQUIRED' };
   }
 
-  const allowedRoles = getAllowedRoles(request.method, request.path);
-  if (!allowedRoles.some((role) => roleAllows(identity.role, role))) {
+  if (!resolveAllowedRoles(permission, config.policy, roomId).includes(identity.role)) {
     return { ok: false, status: 403, error: 'AUTH_FORBIDDEN' };
   }
 
@@ -142,60 +184,36 @@ export function authorizeRequest(request: RequestLike, config: AuthConfig = getA
 }
 
 export function authenticateToken(token: string, config: AuthConfig = getAuthConfig()): AuthIdentity | null {
-  const providedHash = hashToken(token.trim());
+  const trimmed = token.trim();
+  if (config.signingSecret && isAccessToken(trimmed)) {
+    const claims = verifyAccessToken(trimmed, config.signingSecret);
+    return claims ? { role: claims.role, tokenLabel: `AuthSession[${claims.sid}]`, userId: claims.sub } : null;
+  }
+  const providedHash = hashToken(trimmed);
   for (const record of config.tokens) {
     if (constantTimeEqual(providedHash, record.tokenHash)) {
-      return { role: record.role, tokenLabel: record.label };
+      return { role: record.role, tokenLabel: record.label, userId: null };
     }
   }
   return null;
 }
 
-export function getAllowedRoles(method: string, path: string): AuthRole[] {
-  const normalizedMethod = method.toUpperCase();
-  const normalizedPath = normalizePath(path);
-
-  if (normalizedPath === '/api/access/verify') {
-    return DEFAULT_READ_ROLES;
-  }
-
-  if (normalizedPath.startsWith('/api/access/codes')) {
-    return ADMIN_ROLES;
-  }
-
-  if (normalizedPath.startsWith('/api/users')) {
-    return normalizedMethod === 'GET' ? TRAINER_ROLES : ADMIN_ROLES;
-  }
-
-  if (normalizedPath.startsWith('/api/config')) {
-    return normalizedMethod === 'GET' ? TRAINER_ROLES : ADMIN_ROLES;
-  }
-
-  if (normalizedPath.startsWith('/api/topology')) {
-    return normalizedMethod === 'GET' ? DEFAULT_READ_ROLES : TRAINER_ROLES;
-  }
-
-  if (normalizedPath.startsWith('/api/sessions')) {
-    return normalizedMethod === 'GET' ? DEFAULT_READ_ROLES : TRAINER_ROLES;
-  }
-
-  if (normalizedPath.startsWith('/api/scenarios')) {
-    return normalizedMethod === 'GET' ? DEFAULT_READ_ROLES : TRAINER_ROLES;
-  }
+export function getAllowedRoles(method: string, path: string, policy?: PermissionPolicy): AuthRole[] {
+  const { permission, roomId } = resolveRoutePermission(method, normalizePath(path));
+  return resolveAllowedRoles(permission, policy, roomId);
+}
 
-  if (
-    normalizedPath.startsWith('/api/evac') ||
-    normalizedPath.startsWith('/api/process') ||
-    normalizedPath.startsWith('/api/uga') ||
-    normalizedPath.startsWith('/api/sdi') ||
-    normalizedPath.startsWith('/api/devices') ||
-    normalizedPath.startsWith('/api/zones') ||
-    normalizedPath.startsWith('/api/system')
-  ) {
-    return TRAINER_ROLES;
+/** Vérifie une action hors middleware HTTP (espaces de noms Socket.IO, commandes internes). */
+export function hasPermission(
+  identity: AuthIdentity | null | undefined,
+  permission: PermissionId,
+  config: AuthConfig,
+  roomId?: string,
+): boolean {
+  if (!config.enabled) {
+    return true;
   }
-
-  return normalizedMethod === 'GET' ? DEFAULT_READ_ROLES : TRAINER_ROLES;
+  return !!identity && resolveAllowedRoles(permission, config.policy, roomId).includes(identity.role);
 }
 
 export function createApiAuthMiddleware(config: AuthConfig = getAuthConfig()) {
@@ -203,7 +221,7 @@ export function createApiAuthMiddleware(config: AuthConfig = getAuthConfig()) {
     const decision = authorizeRequest(
       {
         method: req.method,
-        path: req.path,
+        path: req.originalUrl,
         token: resolveTokenFromRequest(req),
       },
       config,
@@ -218,14 +236,16 @@ export function createApiAuthMiddleware(config: AuthConfig = getAuthConfig()) {
   };
 }
 
-export function createSocketAuthMiddleware(config: AuthConfig = getAuthConfig()) {
+export function createSocketAuthMiddleware(
+  config: AuthConfig = getAuthConfig(),
+  options: SocketAuthOptions = {},
+) {
+  const { permission = 'state.read', resolveRoomId } = options;
   return (socket: Socket, next: (error?: Error) => void) => {
-    const decision = authorizeRequest(
-      {
-        method: 'GET',
-        path: '/socket.io',
-        token: resolveTokenFromSocket(socket),
-      },
+    const decision = authorizePermission(
+      resolveTokenFromSocket(socket),
+      permission,
+      resolveRoomId ? resolveRoomId(socket) : DEFAULT_ROOM_ID,
       config,
     );
 
@@ -245,15 +265,16 @@ function resolveHeaderToken(headerValue?: string | string[] | null): string | nu
   return raw?.trim() || null;
 }
 
+function parseDuration(raw: string | undefined, fallback: number): number {
+  const value = Number(raw);
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+}
+
 function normalizeRole(value?: string): AuthRole | null {
   const normalized = value?.trim().toUpperCase();
   return AUTH_ROLES.includes(normalized as AuthRole) ? (normalized as AuthRole) : null;
 }
 
-function roleAllows(actual: AuthRole, required: AuthRole): boolean {
-  return ROLE_WEIGHT[actual] >= ROLE_WEIGHT[required];
-}
-
 function normalizePath(path: string): string {
   const [withoutQuery] = path.split('?');
   return withoutQuery.replace(/\/+$/, '') || '/';
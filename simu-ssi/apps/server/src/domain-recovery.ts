@@ -0,0 +1,206 @@
+import {
+  applyLoggedEvent,
+  isClockSpeed,
+  type ControllableClock,
+  type DomainSnapshot,
+  type SsiDomain,
+} from '@simu-ssi/domain-ssi';
+import { DEFAULT_ROOM_ID } from '@simu-ssi/sdk';
+import { prisma } from './prisma';
+import { createLogger, toError } from './logger';
+import { syncManualCallPoints } from './manual-call-points';
+
+const log = createLogger('DomainRecovery');
+
+/** Fréquence d'enregistrement du point de reprise de l'horloge simulée. */
+export const CHECKPOINT_INTERVAL_MS = 5000;
+
+interface JournalEntry {
+  id: number;
+  simulatedAt: number;
+  details: Record<string, unknown>;
+}
+
+interface JournalCheckpoint {
+  simulatedAt: number;
+  clockMode: string;
+  clockSpeed: number;
+  snapshotJson: string;
+}
+
+export interface DomainJournal {
+  entries: JournalEntry[];
+  checkpoint: JournalCheckpoint | null;
+  /** Heure simulée à laquelle démarrer l'horloge avant de rejouer le journal. */
+  origin: number;
+}
+
+export interface DomainRecovery {
+  replayedEvents: number;
+  resumedAt: number;
+  lastEventId: number | null;
+}
+
+function parseEntry(row: {
+  id: number;
+  simulatedAt: number | null;
+  payloadJson: string | null;
+}): JournalEntry | null {
+  if (!row.payloadJson || row.simulatedAt === null) {
+    return null;
+  }
+  try {
+    const details = JSON.parse(row.payloadJson) as Record<string, unknown> | null;
+    if (!details || typeof details.event !== 'string') {
+      return null;
+    }
+    return { id: row.id, simulatedAt: row.simulatedAt, details };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Charge les événements de domaine d'une salle horodatés en temps simulé et son dernier point de
+ * reprise. Le journal part de la dernière réinitialisation qui a laissé le domaine au repos
+ * (`replayFromEventId`) : ce qui la précède ne change plus l'état. Les lignes sans heure simulée
+ * (actions serveur, événements antérieurs à l'horodatage simulé) sont ignorées.
+ */
+export async function loadDomainJournal(roomId = DEFAULT_ROOM_ID): Promise<DomainJournal> {
+  const checkpoint = await prisma.domainCheckpoint.findUnique({ where: { roomId } });
+  const replayFromEventId = checkpoint?.replayFromEventId ?? null;
+  const rows = await prisma.eventLog.findMany({
+    where: {
+      roomId,
+      simulatedAt: { not: null },
+      id: replayFromEventId === null ? undefined : { gt: replayFromEventId },
+    },
+    orderBy: { id: 'asc' },
+    select: { id: true, simulatedAt: true, payloadJson: true },
+  });
+  const entries = rows
+    .map((row) => parseEntry(row))
+    .filter((entry): entry is JournalEntry => entry !== null);
+  return {
+    entries,
+    checkpoint,
+    origin: entries[0]?.simulatedAt ?? checkpoint?.simulatedAt ?? Date.now(),
+  };
+}
+
+/**
+ * Rejoue le journal sur un domaine neuf dont l'horloge, en mode pas à pas, a été créée à
+ * `journal.origin`. Les temporisations échues entre deux commandes se déclenchent comme en
+ * session ; l'horloge est ensuite amenée au point de reprise puis rendue à son mode et à sa
+ * vitesse d'origine, de sorte que les échéances en cours repartent avec leur temps restant.
+ */
+export function replayDomainJournal(
+  domain: SsiDomain,
+  clock: ControllableClock,
+  journal: DomainJournal,
+): DomainRecovery {
+  let replayedEvents = 0;
+  for (const entry of journal.entries) {
+    clock.advance(Math.max(0, entry.simulatedAt - clock.now()));
+    if (applyLoggedEvent(domain, { details: entry.details })) {
+      replayedEvents += 1;
+    }
+  }
+  const { checkpoint } = journal;
+  if (checkpoint) {
+    clock.advance(Math.max(0, checkpoint.simulatedAt - clock.now()));
+    if (isClockSpeed(checkpoint.clockSpeed)) {
+      clock.setSpeed(checkpoint.clockSpeed);
+    }
+  }
+  clock.setMode(checkpoint?.clockMode === 'step' ? 'step' : 'realtime');
+  return {
+    replayedEvents,
+    resumedAt: clock.now(),
+    lastEventId: journal.entries.length > 0 ? journal.entries[journal.entries.length - 1].id : null,
+  };
+}
+
+/**
+ * Réaligne les tables dérivées (DM enclenchés, acquit process) sur l'état reconstruit et
+ * signale un écart avec l'instantané du dernier point de reprise.
+ */
+export async function reconcilePersistedState(
+  snapshot: DomainSnapshot,
+  checkpoint: JournalCheckpoint | null,
+  roomId = DEFAULT_ROOM_ID,
+): Promise<void> {
+  if (checkpoint) {
+    try {
+      const previous = JSON.parse(checkpoint.snapshotJson) as Partial<DomainSnapshot>;
+      if (previous.cmsi?.status !== snapshot.cmsi.status) {
+        log.warn("État CMSI reconstruit différent du dernier point de reprise", {
+          roomId,
+          checkpointStatus: previous.cmsi?.status,
+          rebuiltStatus: snapshot.cmsi.status,
+        });
+      }
+    } catch (error) {
+      log.warn('Instantané du point de reprise illisible', { roomId, error: toError(error) });
+    }
+  }
+  await syncManualCallPoints(Object.keys(snapshot.dmLatched), roomId);
+  const processAck = snapshot.processAck.isAcked
+    ? {
+        isAcked: true,
+        ackedBy: snapshot.processAck.ackedBy ?? null,
+        ackedAt: snapshot.processAck.ackedAt ? new Date(snapshot.processAck.ackedAt) : new Date(),
+      }
+    : { isAcked: false, ackedBy: null, ackedAt: null };
+  await prisma.processAck.upsert({
+    where: { roomId },
+    update: processAck,
+    create: { roomId, ...processAck },
+  });
+}
+
+/**
+ * Retient `eventId` (une réinitialisation après laquelle le domaine est au repos) comme point de
+ * départ du rejeu au prochain démarrage.
+ */
+export async function markReplayOrigin(eventId: number, roomId = DEFAULT_ROOM_ID): Promise<void> {
+  await prisma.domainCheckpoint.updateMany({ where: { roomId }, data: { replayFromEventId: eventId } });
+}
+
+/** Enregistre le point de reprise immédiatement, puis toutes les `intervalMs` et à chaque changement d'horloge. */
+export function startDomainCheckpoints(
+  domain: SsiDomain,
+  clock: ControllableClock,
+  roomId = DEFAULT_ROOM_ID,
+  intervalMs = CHECKPOINT_INTERVAL_MS,
+): () => void {
+  const write = async () => {
+    const state = clock.state;
+    const lastEvent = await prisma.eventLog.findFirst({
+      where: { roomId },
+      orderBy: { id: 'desc' },
+      select: { id: true },
+    });
+    const data = {
+      simulatedAt: state.now,
+      clockMode: state.mode,
+      clockSpeed: state.speed,
+      lastEventId: lastEvent?.id ?? null,
+      snapshotJson: JSON.stringify(domain.snapshot),
+    };
+    await prisma.domainCheckpoint.upsert({ where: { roomId }, create: { roomId, ...data }, update: data });
+  };
+  const checkpoint = () => {
+    write().catch((error) => {
+      log.error("Échec de l'enregistrement du point de reprise", { roomId, error: toError(error) });
+    });
+  };
+  checkpoint();
+  const interval = setInterval(checkpoint, intervalMs);
+  interval.unref?.();
+  const unsubscribe = clock.onChange(checkpoint);
+  return () => {
+    clearInterval(interval);
+    unsubscribe();
+  };
+}
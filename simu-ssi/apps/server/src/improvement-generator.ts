@@ -7,6 +7,7 @@ const log = createLogger('ImprovementGenerator');
 interface NormalizedEvent {
   source: string;
   eventType?: string;
+  action?: string;
   zoneId?: string;
 }
 
@@ -38,8 +39,9 @@ export async function generateImprovementAreasForSession(sessionId: string): Pro
   const normalizedEvents: NormalizedEvent[] = events.map((event: { source: string; payloadJson: string | null }) => {
     const payload = parsePayload(event.payloadJson);
     const eventType = typeof payload?.event === 'string' ? payload.event : undefined;
+    const action = typeof payload?.action === 'string' ? payload.action : undefined;
     const zoneId = typeof payload?.zoneId === 'string' ? payload.zoneId : undefined;
-    return { source: event.source, eventType, zoneId };
+    return { source: event.source, eventType, action, zoneId };
   });
 
   const dmLatched = new Set<string>();
@@ -53,6 +55,7 @@ export async function generateImprovementAreasForSession(sessionId: string): Pro
   let evacuationPending = false;
   let audibleSilenced = false;
   let systemReset = false;
+  const accessDenials = normalizedEvents.filter((event) => event.action === 'access-level-denied').length;
 
   for (const event of normalizedEvents) {
     switch (event.eventType) {
@@ -166,6 +169,13 @@ export async function generateImprovementAreasForSession(sessionId: string): Pro
     });
   }
 
+  if (accessDenials > 0) {
+    improvements.push({
+      title: "Saisir le code d'accès avant d'intervenir",
+      description: `${accessDenials} commande(s) ont été refusées faute de niveau d'accès. Saisissez le code de niveau 2 avant d'acquitter, de réarmer ou de piloter l'évacuation.`,
+    });
+  }
+
   log.info("Axes d'amélioration générés", {
     sessionId,
     improvementCount: improvements.length,
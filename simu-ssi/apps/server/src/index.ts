@@ -1,23 +1,41 @@
 import http from 'http';
 import { createHttpServer } from './app';
-import { createDomainContext } from './state';
+import { DEFAULT_ROOM_ID } from '@simu-ssi/sdk';
 import { ensureSeeds, prisma } from './prisma';
-import { SessionManager } from './session-manager';
+import { DEFAULT_ROOM_NAME, createRoomContext, listPersistedRooms, type RoomContext } from './rooms';
+import { getAuthConfig } from './auth';
+import { restoreRevokedSessions } from './auth-sessions';
+import { DEFAULT_ACCESS_TOKEN_TTL_S } from './user-auth';
 import { logger } from './logger';
 
 const log = logger.child('bootstrap');
 
 async function bootstrap() {
   await ensureSeeds();
-  const sessionManager = new SessionManager();
-  await sessionManager.hydrate();
-  const domainContext = await createDomainContext({
-    getActiveSessionId: () => sessionManager.getActiveSessionId(),
-  });
-  const { server } = createHttpServer(domainContext, sessionManager);
+  const authConfig = getAuthConfig();
+  // Avant toute requête : un jeton d'une session fermée avant le redémarrage doit rester refusé.
+  const revokedSessions = await restoreRevokedSessions(authConfig.accessTokenTtlS ?? DEFAULT_ACCESS_TOKEN_TTL_S);
+  if (revokedSessions > 0) {
+    log.info("Sessions révoquées rechargées", { revokedSessions });
+  }
+  // Les comptes protégés n'imposent pas la connexion : seul SIMU_SSI_AUTH_REQUIRED (ou un jeton statique) le fait.
+  if (!authConfig.enabled) {
+    const protectedAccounts = await prisma.user.count({ where: { credentialHash: { not: null } } });
+    if (protectedAccounts > 0) {
+      log.warn("Comptes protégés présents mais sécurité API désactivée : définir SIMU_SSI_AUTH_REQUIRED=true", {
+        protectedAccounts,
+      });
+    }
+  }
+  const defaultRoom = await createRoomContext({ id: DEFAULT_ROOM_ID, name: DEFAULT_ROOM_NAME });
+  const rooms: RoomContext[] = [];
+  for (const room of await listPersistedRooms()) {
+    rooms.push(await createRoomContext(room));
+  }
+  const { server } = createHttpServer(defaultRoom.domainContext, defaultRoom.sessionManager, { rooms });
   const port = process.env.PORT ? Number(process.env.PORT) : 4500;
   (server as http.Server).listen(port, () => {
-    log.info("Serveur en écoute", { port });
+    log.info("Serveur en écoute", { port, roomCount: rooms.length + 1 });
   });
 }
 
@@ -1,37 +1,62 @@
+import { DEFAULT_ROOM_ID } from '@simu-ssi/sdk';
 import { prisma } from './prisma';
 import { createLogger, toError } from './logger';
 
 const log = createLogger('ManualCallPoints');
 
-export async function recordManualCallPointActivation(zoneId: string): Promise<void> {
+export async function recordManualCallPointActivation(zoneId: string, roomId = DEFAULT_ROOM_ID): Promise<void> {
   try {
-    const existing = await prisma.manualCallPoint.findFirst({ where: { zoneId } });
+    const existing = await prisma.manualCallPoint.findFirst({ where: { roomId, zoneId } });
     const data = { isLatched: true, lastActivatedAt: new Date() };
     if (existing) {
       await prisma.manualCallPoint.update({ where: { id: existing.id }, data });
     } else {
-      await prisma.manualCallPoint.create({ data: { zoneId, ...data } });
+      await prisma.manualCallPoint.create({ data: { roomId, zoneId, ...data } });
     }
   } catch (error) {
     log.error("Échec de l'enregistrement de l'activation du DM", {
+      roomId,
       zoneId,
       error: toError(error),
     });
   }
 }
 
-export async function recordManualCallPointReset(zoneId: string): Promise<boolean> {
+export async function recordManualCallPointReset(zoneId: string, roomId = DEFAULT_ROOM_ID): Promise<boolean> {
   try {
     const updated = await prisma.manualCallPoint.updateMany({
-      where: { zoneId },
+      where: { roomId, zoneId },
       data: { isLatched: false, lastResetAt: new Date() },
     });
     return updated.count > 0;
   } catch (error) {
     log.error("Échec de l'enregistrement du réarmement du DM", {
+      roomId,
       zoneId,
       error: toError(error),
     });
     return false;
   }
 }
+
+/**
+ * Aligne les lignes `ManualCallPoint` d'une salle sur l'état de son domaine : seuls les DM de
+ * `latchedZoneIds` restent enclenchés. Utilisé après la reconstruction de l'état au démarrage.
+ */
+export async function syncManualCallPoints(latchedZoneIds: string[], roomId = DEFAULT_ROOM_ID): Promise<void> {
+  await prisma.manualCallPoint.updateMany({
+    where: { roomId, isLatched: true, zoneId: { notIn: latchedZoneIds } },
+    data: { isLatched: false, lastResetAt: new Date() },
+  });
+  for (const zoneId of latchedZoneIds) {
+    const updated = await prisma.manualCallPoint.updateMany({
+      where: { roomId, zoneId },
+      data: { isLatched: true },
+    });
+    if (updated.count === 0) {
+      await prisma.manualCallPoint.create({
+        data: { roomId, zoneId, isLatched: true, lastActivatedAt: new Date() },
+      });
+    }
+  }
+}
@@ -0,0 +1,924 @@
+import type { Express } from 'express';
+import { z, type ZodTypeAny } from 'zod';
+import {
+  ACTOR_HEADER,
+  CONSOLE_HEADER,
+  STATION_HEADER,
+  accessAuthorisationSchema,
+  accessCodeListSchema,
+  accessCodeSchema,
+  accessLevelStateSchema,
+  auditPageSchema,
+  auditQuerySchema,
+  authSessionSchema,
+  clockStateSchema,
+  faultListSchema,
+  faultSchema,
+  improvementSuggestionSchema,
+  permissionPolicySchema,
+  roomCreateSchema,
+  roomIdSchema,
+  roomListSchema,
+  roomSchema,
+  scenarioDefinitionSchema,
+  scenarioPayloadSchema,
+  scenarioRunnerSnapshotSchema,
+  sessionListSchema,
+  sessionResponseSchema,
+  sessionScoreCreateSchema,
+  sessionScoreListSchema,
+  sessionScoreSchema,
+  sessionScoreUpdateSchema,
+  siteTopologySchema,
+  traineeLayoutSchema,
+  traineeProgressSchema,
+  userImportResultSchema,
+  userListSchema,
+  userSchema,
+} from '@simu-ssi/sdk';
+import {
+  accessCodeUpdateSchema,
+  accessCodeVerifySchema,
+  authLoginSchema,
+  authRefreshSchema,
+  clockAdvanceSchema,
+  clockUpdateSchema,
+  dasFailSchema,
+  deviceServiceUpdateSchema,
+  faultAckSchema,
+  faultRaiseSchema,
+  manualEvacuationSchema,
+  permissionGrantsUpdateSchema,
+  processAckSchema,
+  scenarioSeekSchema,
+  sessionCloseSchema,
+  sessionCreateSchema,
+  sessionTraineeSchema,
+  sessionUpdateSchema,
+  siteConfigSchema,
+  userCreateSchema,
+  userCredentialSchema,
+  userImportSchema,
+  userRoleSchema,
+  userUpdateSchema,
+} from './api-schemas';
+
+export type JsonSchema = { [key: string]: unknown };
+
+export type HttpMethod = 'get' | 'post' | 'put' | 'delete';
+
+/** Route de l'API telle que déclarée dans `createHttpServer`, chemin au format Express. */
+export interface ApiRoute {
+  method: HttpMethod;
+  path: string;
+  tag: string;
+  summary: string;
+  /** Route d'exercice, servie aussi sous `/api/rooms/{roomId}` pour chaque salle. */
+  roomScoped?: boolean;
+  /** Route accessible sans jeton. */
+  public?: boolean;
+  query?: z.AnyZodObject;
+  body?: ZodTypeAny;
+  status?: number;
+  /** Corps de la réponse ; absent pour les réponses sans contenu. */
+  response?: ZodTypeAny;
+  /** Réponse HTML plutôt que JSON. */
+  html?: boolean;
+}
+
+export interface RouteSignature {
+  method: HttpMethod;
+  path: string;
+}
+
+const errorSchema = z.object({ error: z.string() });
+
+const commandStatusSchema = z.object({
+  status: z.string(),
+  zoneId: z.string().optional(),
+});
+
+const powerStatusSchema = commandStatusSchema.extend({ power: z.record(z.unknown()) });
+
+const eventQuerySchema = z.object({
+  sessionId: z.string().optional(),
+  actorId: z.string().optional(),
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+  limit: z.number().int().positive().optional(),
+});
+
+const eventListSchema = z.object({
+  events: z.array(
+    z.object({
+      id: z.number().int(),
+      ts: z.string(),
+      source: z.string(),
+      message: z.string().nullable(),
+      payloadJson: z.unknown().nullable(),
+      roomId: z.string().nullable(),
+      sessionId: z.string().nullable(),
+      actorId: z.string().nullable(),
+    }),
+  ),
+});
+
+const usersQuerySchema = z.object({ role: userRoleSchema.optional() });
+const userResponseSchema = z.object({ user: userSchema });
+const roomResponseSchema = z.object({ room: roomSchema });
+const scenarioResponseSchema = z.object({ scenario: scenarioDefinitionSchema });
+const sessionScoreResponseSchema = z.object({ score: sessionScoreSchema });
+const serviceStateSchema = z.object({ id: z.string(), outOfService: z.boolean() });
+
+type RouteOptions = Omit<ApiRoute, 'method' | 'path' | 'tag' | 'summary'>;
+
+function route(
+  method: HttpMethod,
+  path: string,
+  summary: string,
+  options: RouteOptions = {},
+): Omit<ApiRoute, 'tag'> {
+  return { method, path, summary, ...options };
+}
+
+function group(
+  tag: string,
+  shared: RouteOptions,
+  routes: Array<Omit<ApiRoute, 'tag'>>,
+): ApiRoute[] {
+  return routes.map((entry) => ({ ...shared, ...entry, tag }));
+}
+
+const ROOM = { roomScoped: true };
+const SITE = {};
+const PUBLIC = { public: true };
+
+/**
+ * Description des routes de `createHttpServer`, source du document OpenAPI. Toute route ajoutée au
+ * serveur doit y figurer : `openapi.test.ts` compare cette liste aux routes Express.
+ */
+export const API_ROUTES: ApiRoute[] = [
+  ...group('Sessions', ROOM, [
+    route('get', '/api/sessions', 'Lister les sessions', { response: sessionListSchema }),
+    route('get', '/api/sessions/active', 'Session en cours', { response: sessionResponseSchema }),
+    route('post', '/api/sessions', 'Ouvrir une session', {
+      body: sessionCreateSchema,
+      status: 201,
+      response: sessionResponseSchema,
+    }),
+    route('put', '/api/sessions/:id', 'Modifier une session', {
+      body: sessionUpdateSchema,
+      response: sessionResponseSchema,
+    }),
+    route('post', '/api/sessions/:id/close', 'Clôturer une session', {
+      body: sessionCloseSchema,
+      response: sessionResponseSchema,
+    }),
+    route('post', '/api/sessions/:id/trainees', 'Rejoindre une session', {
+      body: sessionTraineeSchema,
+      response: sessionResponseSchema,
+    }),
+    route('delete', '/api/sessions/:id/trainees/:traineeId', 'Quitter une session', {
+      response: sessionResponseSchema,
+    }),
+  ]),
+  ...group('Configuration', ROOM, [
+    route('get', '/api/config/trainee-layout', 'Disposition du poste apprenant', {
+      response: traineeLayoutSchema,
+    }),
+    route('put', '/api/config/trainee-layout', 'Enregistrer la disposition du poste apprenant', {
+      body: traineeLayoutSchema,
+      response: traineeLayoutSchema,
+    }),
+  ]),
+  ...group('Commandes', ROOM, [
+    route('post', '/api/process/ack', 'Acquitter le processus', {
+      body: processAckSchema,
+      status: 204,
+    }),
+    route('post', '/api/process/clear', "Effacer l'acquit du processus", { status: 204 }),
+    route('post', '/api/uga/silence', "Arrêter le signal sonore de l'UGA", {
+      status: 202,
+      response: commandStatusSchema,
+    }),
+    route('post', '/api/evac/manual/start', "Lancer l'évacuation manuelle", {
+      body: manualEvacuationSchema,
+      status: 202,
+      response: commandStatusSchema,
+    }),
+    route('post', '/api/evac/manual/stop', "Arrêter l'évacuation manuelle", {
+      body: manualEvacuationSchema,
+      status: 202,
+      response: commandStatusSchema,
+    }),
+    route('post', '/api/system/reset', 'Réarmer le système', { response: commandStatusSchema }),
+  ]),
+  ...group("Codes d'accès", ROOM, [
+    route('post', '/api/access/verify', "Saisir un code d'accès au clavier", {
+      body: accessCodeVerifySchema,
+      response: accessAuthorisationSchema,
+    }),
+    route('get', '/api/access/level', "Niveau d'accès du poste", {
+      response: accessLevelStateSchema,
+    }),
+  ]),
+  ...group('Détection', ROOM, [
+    route('post', '/api/sdi/dm/:zone/activate', 'Déclencher un déclencheur manuel', {
+      status: 202,
+      response: commandStatusSchema,
+    }),
+    route('post', '/api/sdi/dm/:zone/reset', 'Réarmer un déclencheur manuel', {
+      response: commandStatusSchema,
+    }),
+    route('post', '/api/sdi/dai/:zone/activate', 'Déclencher un détecteur automatique', {
+      status: 202,
+      response: commandStatusSchema,
+    }),
+    route('post', '/api/sdi/dai/:zone/reset', 'Réarmer un détecteur automatique', {
+      response: commandStatusSchema,
+    }),
+    route('post', '/api/sdi/dai/:zone/confirm', "Confirmer l'alarme feu d'une zone en attente", {
+      response: commandStatusSchema,
+    }),
+    route('post', '/api/sdi/dai/:zone/cancel', 'Écarter une détection non confirmée', {
+      response: commandStatusSchema,
+    }),
+  ]),
+  ...group('Alimentation', ROOM, [
+    route('post', '/api/power/mains/cut', 'Couper le secteur', {
+      status: 202,
+      response: powerStatusSchema,
+    }),
+    route('post', '/api/power/mains/restore', 'Rétablir le secteur', {
+      status: 202,
+      response: powerStatusSchema,
+    }),
+  ]),
+  ...group('Dérangements', ROOM, [
+    route('get', '/api/faults', 'Lister les dérangements', { response: faultListSchema }),
+    route('post', '/api/faults', 'Signaler un dérangement', {
+      body: faultRaiseSchema,
+      status: 201,
+      response: z.object({ fault: faultSchema }),
+    }),
+    route('post', '/api/faults/ack', 'Acquitter tous les dérangements', {
+      body: faultAckSchema,
+      status: 204,
+    }),
+    route('post', '/api/faults/:id/ack', 'Acquitter un dérangement', {
+      body: faultAckSchema,
+      status: 204,
+    }),
+    route('post', '/api/faults/:id/clear', 'Lever un dérangement', { status: 204 }),
+  ]),
+  ...group('DAS', ROOM, [
+    route('post', '/api/das/rearm', 'Réarmer les DAS', {
+      response: z.object({ deviceIds: z.array(z.string()) }),
+    }),
+    route('post', '/api/das/:id/rearm', 'Réarmer un DAS', {
+      response: z.object({ deviceIds: z.array(z.string()) }),
+    }),
+    route('post', '/api/das/:id/fail', 'Injecter une défaillance DAS', {
+      body: dasFailSchema,
+      status: 204,
+    }),
+    route('post', '/api/das/:id/repair', 'Lever une défaillance DAS', { status: 204 }),
+  ]),
+  ...group('Topologie', ROOM, [
+    route('post', '/api/devices/:id/out-of-service', 'Mettre un équipement hors service', {
+      body: deviceServiceUpdateSchema,
+      response: z.object({ device: serviceStateSchema }),
+    }),
+    route('post', '/api/zones/:id/out-of-service', 'Mettre une zone hors service', {
+      body: deviceServiceUpdateSchema,
+      response: z.object({ zone: serviceStateSchema, devices: z.array(serviceStateSchema) }),
+    }),
+    route('get', '/api/topology', 'Topologie du site', { response: siteTopologySchema }),
+    route('put', '/api/topology', 'Enregistrer la topologie', {
+      body: siteTopologySchema,
+      response: siteTopologySchema,
+    }),
+  ]),
+  ...group('État', ROOM, [
+    route('get', '/api/events', "Journal d'événements", {
+      query: eventQuerySchema,
+      response: eventListSchema,
+    }),
+    route('get', '/api/state', 'Instantané du domaine SSI', { response: z.record(z.unknown()) }),
+  ]),
+  ...group('Scénarios', ROOM, [
+    route('post', '/api/scenarios/:id/run', 'Lancer un scénario', {
+      response: scenarioRunnerSnapshotSchema,
+    }),
+    route('post', '/api/scenarios/:id/preload', 'Précharger un scénario', {
+      response: scenarioRunnerSnapshotSchema,
+    }),
+    route('post', '/api/scenarios/stop', 'Arrêter le scénario', {
+      response: scenarioRunnerSnapshotSchema,
+    }),
+    route('post', '/api/scenarios/pause', 'Mettre le scénario en pause', {
+      response: scenarioRunnerSnapshotSchema,
+    }),
+    route('post', '/api/scenarios/resume', 'Reprendre le scénario', {
+      response: scenarioRunnerSnapshotSchema,
+    }),
+    route('post', '/api/scenarios/seek', 'Se positionner sur un événement', {
+      body: scenarioSeekSchema,
+      response: scenarioRunnerSnapshotSchema,
+    }),
+    route('post', '/api/scenarios/complete', 'Terminer le scénario', {
+      response: scenarioRunnerSnapshotSchema,
+    }),
+    route('get', '/api/scenarios/active', 'Scénario en cours', {
+      response: scenarioRunnerSnapshotSchema,
+    }),
+  ]),
+  ...group('Horloge', ROOM, [
+    route('get', '/api/clock', "État de l'horloge de simulation", { response: clockStateSchema }),
+    route('post', '/api/clock', "Régler l'horloge de simulation", {
+      body: clockUpdateSchema,
+      response: clockStateSchema,
+    }),
+    route('post', '/api/clock/advance', "Avancer l'horloge en mode pas à pas", {
+      body: clockAdvanceSchema,
+      response: clockStateSchema,
+    }),
+  ]),
+
+  ...group('Documentation', PUBLIC, [
+    route('get', '/api/openapi.json', "Description OpenAPI de l'API", {
+      response: z.record(z.unknown()),
+    }),
+    route('get', '/api/docs', "Documentation HTML de l'API", { html: true }),
+  ]),
+  ...group('Authentification', PUBLIC, [
+    route('post', '/api/auth/login', 'Se connecter', {
+      body: authLoginSchema,
+      response: authSessionSchema,
+    }),
+    route('post', '/api/auth/refresh', 'Renouveler le jeton', {
+      body: authRefreshSchema,
+      response: authSessionSchema,
+    }),
+    route('post', '/api/auth/logout', 'Se déconnecter', { body: authRefreshSchema, status: 204 }),
+  ]),
+  ...group('Salles', SITE, [
+    route('get', '/api/rooms', 'Lister les salles', { response: roomListSchema }),
+    route('post', '/api/rooms', 'Créer une salle', {
+      body: roomCreateSchema,
+      status: 201,
+      response: roomResponseSchema,
+    }),
+  ]),
+  ...group('Utilisateurs', SITE, [
+    route('get', '/api/users', 'Lister les utilisateurs', {
+      query: usersQuerySchema,
+      response: userListSchema,
+    }),
+    route('post', '/api/users', 'Créer un utilisateur', {
+      body: userCreateSchema,
+      status: 201,
+      response: userResponseSchema,
+    }),
+    route('put', '/api/users/:id', 'Modifier un utilisateur', {
+      body: userUpdateSchema,
+      response: userResponseSchema,
+    }),
+    route('put', '/api/users/:id/credentials', "Définir l'identifiant de connexion", {
+      body: userCredentialSchema,
+      response: userResponseSchema,
+    }),
+    route('delete', '/api/users/:id', 'Supprimer un utilisateur', { status: 204 }),
+    route('get', '/api/users/:id/progress', "Progression d'un apprenant", {
+      response: z.object({ progress: traineeProgressSchema }),
+    }),
+    route('post', '/api/users/import', 'Importer des utilisateurs', {
+      body: userImportSchema,
+      response: userImportResultSchema,
+    }),
+  ]),
+  ...group('Sessions', SITE, [
+    route('get', '/api/sessions/:id/improvement-suggestions', "Axes d'amélioration suggérés", {
+      response: improvementSuggestionSchema,
+    }),
+  ]),
+  ...group('Évaluations', SITE, [
+    route('get', '/api/sessions/:id/scores', "Lister les évaluations d'une session", {
+      response: sessionScoreListSchema,
+    }),
+    route('post', '/api/sessions/:id/scores', 'Évaluer une session', {
+      body: sessionScoreCreateSchema,
+      status: 201,
+      response: sessionScoreResponseSchema,
+    }),
+    route('put', '/api/sessions/:id/scores/:scoreId', 'Modifier une évaluation', {
+      body: sessionScoreUpdateSchema,
+      response: sessionScoreResponseSchema,
+    }),
+  ]),
+  ...group('Configuration', SITE, [
+    route('get', '/api/config/site', 'Configuration du site', { response: siteConfigSchema }),
+    route('put', '/api/config/site', 'Modifier la configuration du site', {
+      body: siteConfigSchema,
+      response: siteConfigSchema,
+    }),
+  ]),
+  ...group("Codes d'accès", SITE, [
+    route('get', '/api/access/codes', "Lister les codes d'accès", {
+      response: accessCodeListSchema,
+    }),
+    route('put', '/api/access/codes/:level', "Définir un code d'accès", {
+      body: accessCodeUpdateSchema,
+      response: z.object({ code: accessCodeSchema }),
+    }),
+  ]),
+  ...group('Autorisations', SITE, [
+    route('get', '/api/permissions', 'Autorisations par action', {
+      response: permissionPolicySchema,
+    }),
+    route('put', '/api/permissions', 'Modifier les autorisations du site', {
+      body: permissionGrantsUpdateSchema,
+      response: permissionPolicySchema,
+    }),
+    route('put', '/api/permissions/rooms/:roomId', "Modifier les autorisations d'une salle", {
+      body: permissionGrantsUpdateSchema,
+      response: permissionPolicySchema,
+    }),
+  ]),
+  ...group('Audit', SITE, [
+    route('get', '/api/audit', "Journal d'audit", {
+      query: auditQuerySchema,
+      response: auditPageSchema,
+    }),
+  ]),
+  ...group('Scénarios', SITE, [
+    route('get', '/api/scenarios', 'Lister les scénarios', {
+      response: z.object({ scenarios: z.array(scenarioDefinitionSchema) }),
+    }),
+    route('get', '/api/scenarios/:id', "Détail d'un scénario", {
+      response: scenarioResponseSchema,
+    }),
+    route('post', '/api/scenarios', 'Créer un scénario', {
+      body: scenarioPayloadSchema,
+      status: 201,
+      response: scenarioResponseSchema,
+    }),
+    route('put', '/api/scenarios/:id', 'Modifier un scénario', {
+      body: scenarioPayloadSchema,
+      response: scenarioResponseSchema,
+    }),
+    route('delete', '/api/scenarios/:id', 'Supprimer un scénario', { status: 204 }),
+  ]),
+];
+
+const ROOM_PREFIX = '/api/rooms/:roomId';
+/** Version publiée dans le document : celle du paquet serveur lorsqu'il est lancé par pnpm. */
+const API_VERSION = process.env.npm_package_version ?? '0.0.0';
+
+/** Convertit un schéma zod en JSON Schema au dialecte OpenAPI 3.0 (`nullable`, pas de `const`). */
+export function zodToJsonSchema(schema: ZodTypeAny): JsonSchema {
+  const converted = convertSchema(schema);
+  const description = schema.description;
+  return description ? { ...converted, description } : converted;
+}
+
+function convertSchema(schema: ZodTypeAny): JsonSchema {
+  const def = schema._def as { typeName: z.ZodFirstPartyTypeKind } & Record<string, unknown>;
+  switch (def.typeName) {
+    case z.ZodFirstPartyTypeKind.ZodString:
+      return convertString(schema as z.ZodString);
+    case z.ZodFirstPartyTypeKind.ZodNumber:
+      return convertNumber(schema as z.ZodNumber);
+    case z.ZodFirstPartyTypeKind.ZodBoolean:
+      return { type: 'boolean' };
+    case z.ZodFirstPartyTypeKind.ZodDate:
+      return { type: 'string', format: 'date-time' };
+    case z.ZodFirstPartyTypeKind.ZodLiteral: {
+      const value = (schema as z.ZodLiteral<unknown>).value;
+      return { type: typeof value, enum: [value] };
+    }
+    case z.ZodFirstPartyTypeKind.ZodEnum:
+      return { type: 'string', enum: [...(schema as z.ZodEnum<[string, ...string[]]>).options] };
+    case z.ZodFirstPartyTypeKind.ZodNativeEnum:
+      return { enum: Object.values((schema as z.ZodNativeEnum<z.EnumLike>).enum) };
+    case z.ZodFirstPartyTypeKind.ZodObject:
+      return convertObject(schema as z.AnyZodObject);
+    case z.ZodFirstPartyTypeKind.ZodArray: {
+      const array = schema as z.ZodArray<ZodTypeAny>;
+      return {
+        type: 'array',
+        items: zodToJsonSchema(array.element),
+        ...(array._def.minLength ? { minItems: array._def.minLength.value } : {}),
+        ...(array._def.maxLength ? { maxItems: array._def.maxLength.value } : {}),
+      };
+    }
+    case z.ZodFirstPartyTypeKind.ZodTuple: {
+      const items = (schema as z.ZodTuple)._def.items.map(zodToJsonSchema);
+      return {
+        type: 'array',
+        items: { anyOf: items },
+        minItems: items.length,
+        maxItems: items.length,
+      };
+    }
+    case z.ZodFirstPartyTypeKind.ZodRecord:
+      return {
+        type: 'object',
+        additionalProperties: zodToJsonSchema((schema as z.ZodRecord).valueSchema),
+      };
+    case z.ZodFirstPartyTypeKind.ZodUnion:
+    case z.ZodFirstPartyTypeKind.ZodDiscriminatedUnion: {
+      const options = (schema as z.ZodUnion<[ZodTypeAny, ...ZodTypeAny[]]>).options as ZodTypeAny[];
+      return mergeLiteralUnion(options) ?? { oneOf: options.map(zodToJsonSchema) };
+    }
+    case z.ZodFirstPartyTypeKind.ZodIntersection:
+      return {
+        allOf: [
+          zodToJsonSchema(def.left as ZodTypeAny),
+          zodToJsonSchema(def.right as ZodTypeAny),
+        ],
+      };
+    case z.ZodFirstPartyTypeKind.ZodOptional:
+      return zodToJsonSchema((schema as z.ZodOptional<ZodTypeAny>).unwrap());
+    case z.ZodFirstPartyTypeKind.ZodNullable:
+      return { ...zodToJsonSchema((schema as z.ZodNullable<ZodTypeAny>).unwrap()), nullable: true };
+    case z.ZodFirstPartyTypeKind.ZodDefault:
+      return {
+        ...zodToJsonSchema(def.innerType as ZodTypeAny),
+        default: (def.defaultValue as () => unknown)(),
+      };
+    case z.ZodFirstPartyTypeKind.ZodEffects:
+      return zodToJsonSchema((schema as z.ZodEffects<ZodTypeAny>).innerType());
+    case z.ZodFirstPartyTypeKind.ZodLazy:
+      return zodToJsonSchema((schema as z.ZodLazy<ZodTypeAny>).schema);
+    case z.ZodFirstPartyTypeKind.ZodCatch:
+    case z.ZodFirstPartyTypeKind.ZodBranded:
+    case z.ZodFirstPartyTypeKind.ZodReadonly:
+      return zodToJsonSchema((def.innerType ?? def.type) as ZodTypeAny);
+    case z.ZodFirstPartyTypeKind.ZodPipeline:
+      return zodToJsonSchema(def.in as ZodTypeAny);
+    default:
+      // `unknown`, `any` : aucune contrainte.
+      return {};
+  }
+}
+
+function convertString(schema: z.ZodString): JsonSchema {
+  const result: JsonSchema = { type: 'string' };
+  schema._def.checks.forEach((check) => {
+    switch (check.kind) {
+      case 'min':
+        result.minLength = check.value;
+        break;
+      case 'max':
+        result.maxLength = check.value;
+        break;
+      case 'length':
+        result.minLength = check.value;
+        result.maxLength = check.value;
+        break;
+      case 'regex':
+        result.pattern = check.regex.source;
+        break;
+      case 'email':
+      case 'uuid':
+      case 'url':
+        result.format = check.kind === 'url' ? 'uri' : check.kind;
+        break;
+      case 'datetime':
+        result.format = 'date-time';
+        break;
+      default:
+        break;
+    }
+  });
+  return result;
+}
+
+function convertNumber(schema: z.ZodNumber): JsonSchema {
+  const result: JsonSchema = { type: 'number' };
+  schema._def.checks.forEach((check) => {
+    switch (check.kind) {
+      case 'int':
+        result.type = 'integer';
+        break;
+      case 'min':
+        result.minimum = check.value;
+        if (!check.inclusive) {
+          result.exclusiveMinimum = true;
+        }
+        break;
+      case 'max':
+        result.maximum = check.value;
+        if (!check.inclusive) {
+          result.exclusiveMaximum = true;
+        }
+        break;
+      case 'multipleOf':
+        result.multipleOf = check.value;
+        break;
+      default:
+        break;
+    }
+  });
+  return result;
+}
+
+function convertObject(schema: z.AnyZodObject): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+  Object.entries(schema.shape as Record<string, ZodTypeAny>).forEach(([key, value]) => {
+    properties[key] = zodToJsonSchema(value);
+    if (!value.isOptional()) {
+      required.push(key);
+    }
+  });
+  // Les clés inconnues sont ignorées par défaut : seul un objet `strict` les refuse.
+  const catchall = schema._def.catchall as ZodTypeAny;
+  const additionalProperties =
+    catchall._def.typeName !== z.ZodFirstPartyTypeKind.ZodNever
+      ? zodToJsonSchema(catchall)
+      : schema._def.unknownKeys === 'strict'
+        ? false
+        : undefined;
+  return {
+    type: 'object',
+    properties,
+    ...(required.length > 0 ? { required } : {}),
+    ...(additionalProperties === undefined ? {} : { additionalProperties }),
+  };
+}
+
+/** `z.union([z.literal(1), z.literal(2)])` devient une énumération plutôt qu'un `oneOf`. */
+function mergeLiteralUnion(options: ZodTypeAny[]): JsonSchema | null {
+  if (!options.every((option) => option instanceof z.ZodLiteral)) {
+    return null;
+  }
+  const values = options.map((option) => (option as z.ZodLiteral<unknown>).value);
+  const types = new Set(values.map((value) => typeof value));
+  return types.size === 1 ? { type: types.values().next().value, enum: values } : { enum: values };
+}
+
+/** `/api/sessions/:id` devient `/api/sessions/{id}`. */
+export function toOpenApiPath(path: string): string {
+  return path.replace(/:(\w+)/g, '{$1}');
+}
+
+function pathParameters(path: string) {
+  return Array.from(path.matchAll(/:(\w+)/g), ([, name]) => ({
+    name,
+    in: 'path',
+    required: true,
+    schema: name === 'roomId' ? zodToJsonSchema(roomIdSchema) : { type: 'string' },
+  }));
+}
+
+function queryParameters(query: z.AnyZodObject | undefined) {
+  if (!query) {
+    return [];
+  }
+  return Object.entries(query.shape as Record<string, ZodTypeAny>).map(([name, value]) => ({
+    name,
+    in: 'query',
+    required: !value.isOptional(),
+    schema: zodToJsonSchema(value),
+  }));
+}
+
+function jsonContent(schema: ZodTypeAny) {
+  return { 'application/json': { schema: zodToJsonSchema(schema) } };
+}
+
+function buildOperation(route: ApiRoute, path: string) {
+  const status = route.status ?? 200;
+  const headers = route.public
+    ? []
+    : [
+        { $ref: '#/components/parameters/ActorHeader' },
+        { $ref: '#/components/parameters/StationHeader' },
+        { $ref: '#/components/parameters/ConsoleHeader' },
+      ];
+  const successResponse = route.html
+    ? { description: route.summary, content: { 'text/html': { schema: { type: 'string' } } } }
+    : route.response
+      ? { description: route.summary, content: jsonContent(route.response) }
+      : { description: route.summary };
+  const operation: JsonSchema = {
+    tags: [route.tag],
+    summary: route.summary,
+    operationId: `${route.method}${toOperationSuffix(path)}`,
+    parameters: [...pathParameters(path), ...queryParameters(route.query), ...headers],
+    responses: {
+      [String(status)]: successResponse,
+      default: {
+        description: 'Erreur',
+        content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } },
+      },
+    },
+  };
+  if (route.body) {
+    operation.requestBody = {
+      required: !route.body.isOptional(),
+      content: jsonContent(route.body),
+    };
+  }
+  if (route.public) {
+    operation.security = [];
+  }
+  return operation;
+}
+
+function toOperationSuffix(path: string): string {
+  return path
+    .replace(/^\/api/, '')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((segment) => segment[0].toUpperCase() + segment.slice(1))
+    .join('');
+}
+
+/** Routes effectivement servies : les routes d'exercice le sont aussi sous `/api/rooms/:roomId`. */
+export function listDocumentedRoutes(routes: ApiRoute[] = API_ROUTES): ApiRoute[] {
+  return routes.flatMap((route) =>
+    route.roomScoped
+      ? [route, { ...route, path: `${ROOM_PREFIX}${route.path.replace(/^\/api/, '')}` }]
+      : [route],
+  );
+}
+
+export function buildOpenApiDocument(routes: ApiRoute[] = API_ROUTES): JsonSchema {
+  const paths: Record<string, Record<string, JsonSchema>> = {};
+  listDocumentedRoutes(routes).forEach((route) => {
+    const path = toOpenApiPath(route.path);
+    paths[path] = { ...paths[path], [route.method]: buildOperation(route, route.path) };
+  });
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'Simu-SSI API',
+      version: API_VERSION,
+      description:
+        "API du simulateur de SSI. Les routes d'exercice visent la salle par défaut sous " +
+        '`/api` et une salle donnée sous `/api/rooms/{roomId}`.',
+    },
+    servers: [{ url: '/' }],
+    tags: Array.from(new Set(routes.map((route) => route.tag)), (name) => ({ name })),
+    security: [{ bearerAuth: [] }, { apiKey: [] }],
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer' },
+        apiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+      },
+      parameters: {
+        ActorHeader: {
+          name: ACTOR_HEADER,
+          in: 'header',
+          required: false,
+          description: "Utilisateur à l'origine de la commande, enregistré dans le journal.",
+          schema: { type: 'string' },
+        },
+        StationHeader: {
+          name: STATION_HEADER,
+          in: 'header',
+          required: false,
+          description: "Poste apprenant porteur du niveau d'accès saisi au clavier.",
+          schema: { type: 'string' },
+        },
+        ConsoleHeader: {
+          name: CONSOLE_HEADER,
+          in: 'header',
+          required: false,
+          description: "`1` pour la console formateur, dispensée du niveau d'accès lorsque l'authentification est désactivée.",
+          schema: { type: 'string', enum: ['1'] },
+        },
+      },
+      schemas: { Error: zodToJsonSchema(errorSchema) },
+    },
+  };
+}
+
+interface OperationContent {
+  content: Record<string, { schema: unknown }>;
+}
+
+interface ExpressLayer {
+  route?: { path: string | string[]; methods: Record<string, boolean> };
+  name?: string;
+  regexp?: RegExp & { fast_slash?: boolean };
+  handle?: { stack?: ExpressLayer[] };
+}
+
+/**
+ * Routes déclarées sur l'application Express, routeurs montés compris. Le routeur d'une salle
+ * monté sur `/api/rooms/:roomId` passe par un intermédiaire : il est reconstitué à partir du
+ * routeur de la salle par défaut, qui expose les mêmes routes.
+ */
+export function listExpressRoutes(app: Express): RouteSignature[] {
+  const stack = (app as unknown as { _router?: { stack: ExpressLayer[] } })._router?.stack ?? [];
+  const routes = collectRoutes(stack, '');
+  const roomRoutes = collectRoutes(
+    stack.filter((layer) => layer.name === 'router' && mountPath(layer) === '/api'),
+    '',
+  ).map((route) => ({ ...route, path: route.path.replace(/^\/api/, ROOM_PREFIX) }));
+  return [...routes, ...roomRoutes];
+}
+
+function collectRoutes(stack: ExpressLayer[], prefix: string): RouteSignature[] {
+  return stack.flatMap((layer) => {
+    if (layer.route) {
+      const paths = Array.isArray(layer.route.path) ? layer.route.path : [layer.route.path];
+      return Object.keys(layer.route.methods).flatMap((method) =>
+        paths.map((path) => ({ method: method as HttpMethod, path: `${prefix}${path}` })),
+      );
+    }
+    if (layer.name === 'router' && layer.handle?.stack) {
+      return collectRoutes(layer.handle.stack, `${prefix}${mountPath(layer)}`);
+    }
+    return [];
+  });
+}
+
+/** Express 4 ne garde que l'expression régulière du chemin de montage : `^\/api\/?(?=\/|$)`. */
+function mountPath(layer: ExpressLayer): string {
+  if (!layer.regexp || layer.regexp.fast_slash) {
+    return '';
+  }
+  return layer.regexp.source
+    .replace(/^\^/, '')
+    .replace(/\\\/\?\(\?=\\\/\|\$\)$/, '')
+    .replace(/\\\//g, '/');
+}
+
+/** Page de documentation autonome, sans ressource externe, tirée du document OpenAPI. */
+export function renderApiDocsPage(document: JsonSchema): string {
+  const info = document.info as { title: string; version: string; description: string };
+  const paths = document.paths as Record<string, Record<string, JsonSchema>>;
+  const sections = new Map<string, string[]>();
+  Object.entries(paths)
+    .filter(([path]) => !path.startsWith('/api/rooms/{roomId}/'))
+    .forEach(([path, operations]) => {
+      Object.entries(operations).forEach(([method, operation]) => {
+        const tag = (operation.tags as string[])[0];
+        const entries = sections.get(tag) ?? [];
+        entries.push(renderOperation(method, path, operation));
+        sections.set(tag, entries);
+      });
+    });
+  const body = Array.from(
+    sections,
+    ([tag, entries]) => `<h2>${escapeHtml(tag)}</h2>\n${entries.join('\n')}`,
+  ).join('\n');
+  return `<!doctype html>
+<html lang="fr">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(info.title)} ${escapeHtml(info.version)}</title>
+<style>
+body { font-family: system-ui, sans-serif; margin: 2rem auto; max-width: 960px; padding: 0 1rem; }
+details { border: 1px solid #d9e2ec; border-radius: 6px; margin: 0.5rem 0; padding: 0.5rem; }
+summary { cursor: pointer; }
+code.method { display: inline-block; min-width: 4rem; font-weight: bold; }
+pre { background: #f0f4f8; padding: 0.75rem; overflow-x: auto; font-size: 0.85rem; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(info.title)} <small>${escapeHtml(info.version)}</small></h1>
+<p>${escapeHtml(info.description)}</p>
+<p>Document complet : <a href="/api/openapi.json">/api/openapi.json</a>.</p>
+${body}
+</body>
+</html>
+`;
+}
+
+function renderOperation(method: string, path: string, operation: JsonSchema): string {
+  const requestBody = operation.requestBody as OperationContent | undefined;
+  const responses = operation.responses as Record<string, Partial<OperationContent>>;
+  const [status, success] = Object.entries(responses)[0];
+  const blocks = [
+    requestBody ? `<h4>Corps de la requête</h4>${renderContent(requestBody)}` : '',
+    `<h4>Réponse ${escapeHtml(status)}</h4>${
+      success.content ? renderContent(success as OperationContent) : '<p>Sans contenu.</p>'
+    }`,
+  ];
+  const verb = `<code class="method">${escapeHtml(method.toUpperCase())}</code>`;
+  const title = `${verb} <code>${escapeHtml(path)}</code>`;
+  return `<details>
+<summary>${title} — ${escapeHtml(String(operation.summary))}</summary>
+${blocks.filter(Boolean).join('\n')}
+</details>`;
+}
+
+function renderContent({ content }: OperationContent): string {
+  const [schema] = Object.values(content).map((entry) => entry.schema);
+  return `<pre>${escapeHtml(JSON.stringify(schema, null, 2))}</pre>`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
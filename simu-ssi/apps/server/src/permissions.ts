@@ -0,0 +1,195 @@
+import {
+  DEFAULT_ROOM_ID,
+  PERMISSION_IDS,
+  type PermissionDefinition,
+  type PermissionGrants,
+  type PermissionId,
+  type UserRole,
+} from '@simu-ssi/sdk';
+import type { AuthRole } from './auth';
+
+/** Autorisations ajustées par l'administrateur : pour le site, puis salle par salle. */
+export interface PermissionPolicy {
+  site: PermissionGrants;
+  rooms: Record<string, PermissionGrants>;
+}
+
+/** Action requise par une route et salle visée (`default` sans préfixe de salle). */
+export interface RoutePermission {
+  /** `null` : route non répertoriée, réservée à l'administrateur. */
+  permission: PermissionId | null;
+  roomId: string;
+}
+
+/** Portée `site` pour les grants stockés dans `PermissionGrant`. */
+export const SITE_SCOPE = '*';
+
+const ALL: UserRole[] = ['TRAINER', 'TRAINEE'];
+const TRAINER: UserRole[] = ['TRAINER'];
+const NONE: UserRole[] = [];
+
+type DefinitionEntry = Omit<PermissionDefinition, 'id'>;
+
+const CONSULTATION = 'Consultation';
+const SESSIONS = 'Sessions';
+const COMMANDS = 'Commandes SSI';
+const TRAINER_CONTROL = 'Pilotage formateur';
+const FAULTS = 'Dérangements';
+const ADMINISTRATION = 'Administration';
+
+function room(label: string, group: string, defaultRoles: UserRole[]): DefinitionEntry {
+  return { label, group, scope: 'room', defaultRoles };
+}
+
+function site(label: string, group: string, defaultRoles: UserRole[]): DefinitionEntry {
+  return { label, group, scope: 'site', defaultRoles };
+}
+
+// Les valeurs par défaut reprennent la matrice par préfixe d'URL qui précédait les actions.
+const DEFINITIONS: Record<PermissionId, DefinitionEntry> = {
+  'state.read': room("Consulter l'état, les sessions et les scénarios", CONSULTATION, ALL),
+  'access.verify': site("Vérifier un code d'accès", CONSULTATION, ALL),
+  'session.manage': room('Créer, modifier et clôturer les sessions', SESSIONS, TRAINER),
+  'session.join': room("Rejoindre ou quitter l'équipe d'une session", SESSIONS, TRAINER),
+  'session.grade': site('Évaluer une session', SESSIONS, TRAINER),
+  'dm.trigger': room('Déclencher un DM', COMMANDS, TRAINER),
+  'dm.reset': room('Réarmer un DM', COMMANDS, TRAINER),
+  'dai.trigger': room('Déclencher un DAI', COMMANDS, TRAINER),
+  'dai.reset': room('Réarmer un DAI', COMMANDS, TRAINER),
+  'dai.confirm': room('Confirmer ou écarter une détection non confirmée', COMMANDS, TRAINER),
+  'evac.manual.start': room("Lancer l'évacuation manuelle", COMMANDS, TRAINER),
+  'evac.manual.stop': room("Arrêter l'évacuation manuelle", COMMANDS, TRAINER),
+  'process.ack': room("Acquitter le processus d'alarme", COMMANDS, TRAINER),
+  'process.clear': room("Annuler l'acquit du processus", COMMANDS, TRAINER),
+  'uga.silence': room("Arrêter le signal sonore de l'UGA", COMMANDS, TRAINER),
+  'system.reset': room('Réarmer le système', COMMANDS, TRAINER),
+  'das.rearm': room('Réarmer les DAS', COMMANDS, TRAINER),
+  'power.control': room("Couper ou rétablir l'alimentation secteur", TRAINER_CONTROL, TRAINER),
+  'fault.read': room('Consulter les dérangements', FAULTS, TRAINER),
+  'fault.raise': room('Injecter un dérangement', FAULTS, TRAINER),
+  'fault.ack': room('Acquitter un dérangement', FAULTS, TRAINER),
+  'fault.clear': room('Lever un dérangement', FAULTS, TRAINER),
+  'device.service': room('Mettre hors service un dispositif ou une zone', TRAINER_CONTROL, TRAINER),
+  'topology.edit': room('Publier la topologie', TRAINER_CONTROL, TRAINER),
+  'scenario.run': room('Lancer et piloter un scénario', TRAINER_CONTROL, TRAINER),
+  'scenario.manage': site('Créer, modifier et supprimer les scénarios', TRAINER_CONTROL, TRAINER),
+  'clock.control': room("Régler l'horloge simulée", TRAINER_CONTROL, TRAINER),
+  'room.manage': site('Ouvrir une salle', ADMINISTRATION, TRAINER),
+  'replay.control': site('Piloter le rejeu des sessions', TRAINER_CONTROL, TRAINER),
+  'users.read': site('Consulter les utilisateurs', ADMINISTRATION, TRAINER),
+  'users.manage': site('Gérer les utilisateurs', ADMINISTRATION, NONE),
+  'config.read': site('Consulter la configuration', ADMINISTRATION, TRAINER),
+  'config.edit': site('Modifier la configuration', ADMINISTRATION, NONE),
+  'access.codes.manage': site("Gérer les codes d'accès", ADMINISTRATION, NONE),
+  'permissions.manage': site('Gérer les autorisations', ADMINISTRATION, NONE),
+  'audit.read': site("Consulter le journal d'audit", ADMINISTRATION, NONE),
+};
+
+export const PERMISSION_DEFINITIONS: PermissionDefinition[] = PERMISSION_IDS.map((id) => ({
+  id,
+  ...DEFINITIONS[id],
+}));
+
+interface RouteEntry {
+  method: string;
+  pattern: RegExp;
+  permission: PermissionId;
+}
+
+function route(method: string, pattern: RegExp, permission: PermissionId): RouteEntry {
+  return { method, pattern, permission };
+}
+
+/**
+ * Action exigée par chaque route, chemins exprimés sans préfixe de salle et en minuscules. La
+ * première entrée qui correspond l'emporte ; `*` vaut pour toute méthode. Une lecture absente de la
+ * liste reste réservée à l'administrateur.
+ */
+const ROUTE_PERMISSIONS: RouteEntry[] = [
+  route('*', /^\/api\/access\/(verify|level)$/, 'access.verify'),
+  route('*', /^\/api\/access\/codes(\/|$)/, 'access.codes.manage'),
+  route('*', /^\/api\/permissions(\/|$)/, 'permissions.manage'),
+  route('GET', /^\/api\/audit(\/|$)/, 'audit.read'),
+  route('GET', /^\/api\/users(\/|$)/, 'users.read'),
+  route('*', /^\/api\/users(\/|$)/, 'users.manage'),
+  route('GET', /^\/api\/config(\/|$)/, 'config.read'),
+  route('*', /^\/api\/config(\/|$)/, 'config.edit'),
+  route('POST', /^\/api\/sdi\/dm\/[^/]+\/activate$/, 'dm.trigger'),
+  route('POST', /^\/api\/sdi\/dm\/[^/]+\/reset$/, 'dm.reset'),
+  route('POST', /^\/api\/sdi\/dai\/[^/]+\/activate$/, 'dai.trigger'),
+  route('POST', /^\/api\/sdi\/dai\/[^/]+\/reset$/, 'dai.reset'),
+  route('POST', /^\/api\/sdi\/dai\/[^/]+\/(confirm|cancel)$/, 'dai.confirm'),
+  route('POST', /^\/api\/evac\/manual\/start$/, 'evac.manual.start'),
+  route('POST', /^\/api\/evac\/manual\/stop$/, 'evac.manual.stop'),
+  route('POST', /^\/api\/process\/ack$/, 'process.ack'),
+  route('POST', /^\/api\/process\/clear$/, 'process.clear'),
+  route('POST', /^\/api\/uga\/silence$/, 'uga.silence'),
+  route('POST', /^\/api\/system\/reset$/, 'system.reset'),
+  route('POST', /^\/api\/das\/(rearm|[^/]+\/rearm)$/, 'das.rearm'),
+  route('POST', /^\/api\/das\/[^/]+\/fail$/, 'fault.raise'),
+  route('POST', /^\/api\/das\/[^/]+\/repair$/, 'fault.clear'),
+  route('POST', /^\/api\/power\//, 'power.control'),
+  route('GET', /^\/api\/faults$/, 'fault.read'),
+  route('POST', /^\/api\/faults$/, 'fault.raise'),
+  route('POST', /^\/api\/faults\/(ack|[^/]+\/ack)$/, 'fault.ack'),
+  route('POST', /^\/api\/faults\/[^/]+\/clear$/, 'fault.clear'),
+  route('POST', /^\/api\/(devices|zones)\/[^/]+\/out-of-service$/, 'device.service'),
+  route('PUT', /^\/api\/topology$/, 'topology.edit'),
+  route('*', /^\/api\/sessions\/[^/]+\/trainees(\/|$)/, 'session.join'),
+  route('GET', /^\/api\/sessions(\/|$)/, 'state.read'),
+  route('*', /^\/api\/sessions\/[^/]+\/scores(\/|$)/, 'session.grade'),
+  route('*', /^\/api\/sessions(\/|$)/, 'session.manage'),
+  route(
+    'POST',
+    /^\/api\/scenarios\/(stop|pause|resume|seek|complete|[^/]+\/run|[^/]+\/preload)$/,
+    'scenario.run',
+  ),
+  route('GET', /^\/api\/scenarios(\/|$)/, 'state.read'),
+  route('*', /^\/api\/scenarios(\/|$)/, 'scenario.manage'),
+  route('POST', /^\/api\/clock(\/|$)/, 'clock.control'),
+  route('POST', /^\/api\/rooms$/, 'room.manage'),
+  route('GET', /^\/api\/(state|topology|events|clock|rooms)\/?$/, 'state.read'),
+];
+
+export function createPermissionPolicy(): PermissionPolicy {
+  return { site: {}, rooms: {} };
+}
+
+export function getPermissionDefinition(permission: PermissionId): PermissionDefinition {
+  return { id: permission, ...DEFINITIONS[permission] };
+}
+
+/**
+ * Action et salle visées par une requête HTTP (chemin sans chaîne de requête). Express ignore la
+ * casse des routes : le chemin est comparé en minuscules pour qu'aucune variante n'échappe à la table.
+ */
+export function resolveRoutePermission(method: string, path: string): RoutePermission {
+  const roomMatch = /^\/api\/rooms\/([^/]+)(?=\/)/i.exec(path);
+  const roomId = roomMatch ? decodeURIComponent(roomMatch[1]) : DEFAULT_ROOM_ID;
+  const normalizedPath = (roomMatch ? path.replace(roomMatch[0], '/api') : path).toLowerCase();
+  const normalizedMethod = method.toUpperCase();
+  const match = ROUTE_PERMISSIONS.find(
+    (entry) =>
+      (entry.method === '*' || entry.method === normalizedMethod) &&
+      entry.pattern.test(normalizedPath),
+  );
+  return { permission: match?.permission ?? null, roomId };
+}
+
+/**
+ * Rôles autorisés pour une action : réglage de la salle (actions de portée `room`), sinon du site,
+ * sinon valeur par défaut. `ADMIN` est toujours autorisé.
+ */
+export function resolveAllowedRoles(
+  permission: PermissionId | null,
+  policy: PermissionPolicy = createPermissionPolicy(),
+  roomId: string = DEFAULT_ROOM_ID,
+): AuthRole[] {
+  if (!permission) {
+    return ['ADMIN'];
+  }
+  const definition = DEFINITIONS[permission];
+  const roomGrant = definition.scope === 'room' ? policy.rooms[roomId]?.[permission] : undefined;
+  const granted = roomGrant ?? policy.site[permission] ?? definition.defaultRoles;
+  return ['ADMIN', ...ALL.filter((role) => granted.includes(role))];
+}
@@ -1,4 +1,5 @@
 import { PrismaClient } from '@prisma/client';
+import { DEFAULT_ROOM_ID } from '@simu-ssi/sdk';
 
 export const prisma = new PrismaClient();
 
@@ -9,9 +10,9 @@ export async function ensureSeeds() {
     create: {},
   });
   await prisma.processAck.upsert({
-    where: { id: 1 },
+    where: { roomId: DEFAULT_ROOM_ID },
     update: {},
-    create: {},
+    create: { roomId: DEFAULT_ROOM_ID },
   });
 
   await prisma.accessCode.upsert({
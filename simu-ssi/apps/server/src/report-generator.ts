@@ -23,6 +23,7 @@ type SessionReportContext = {
   startedAt: Date;
   endedAt: Date | null;
   trainee?: { id: string; fullName: string; email: string | null } | null;
+  trainees: Array<{ id: string; fullName: string; email: string | null }>;
   trainer?: { id: string; fullName: string; email: string | null } | null;
   improvements: ImprovementArea[];
   events: Array<{
@@ -31,6 +32,7 @@ type SessionReportContext = {
     message: string | null;
     zoneId: string | null;
     details: Record<string, unknown> | null;
+    actor: { id: string; fullName: string } | null;
   }>;
   scores: Array<{
     value: number;
@@ -72,8 +74,9 @@ async function buildContext(sessionId: string): Promise<SessionReportContext | n
     include: {
       trainee: true,
       trainer: true,
-      scores: { include: { user: true } },
-      events: { orderBy: { ts: 'asc' } },
+      participants: { include: { user: true }, orderBy: { joinedAt: 'asc' } },
+      scores: { include: { user: true }, orderBy: { id: 'asc' } },
+      events: { include: { actor: true }, orderBy: { ts: 'asc' } },
     },
   });
   if (!session) {
@@ -90,6 +93,11 @@ async function buildContext(sessionId: string): Promise<SessionReportContext | n
     trainee: session.trainee
       ? { id: session.trainee.id, fullName: session.trainee.fullName, email: session.trainee.email ?? null }
       : null,
+    trainees: session.participants.map(({ user }) => ({
+      id: user.id,
+      fullName: user.fullName,
+      email: user.email ?? null,
+    })),
     trainer: session.trainer
       ? { id: session.trainer.id, fullName: session.trainer.fullName, email: session.trainer.email ?? null }
       : null,
@@ -100,6 +108,7 @@ async function buildContext(sessionId: string): Promise<SessionReportContext | n
       message: event.message ?? null,
       zoneId: event.zoneId ?? null,
       details: parseJson(event.payloadJson),
+      actor: event.actor ? { id: event.actor.id, fullName: event.actor.fullName } : null,
     })),
     scores: session.scores.map((score) => ({
       value: score.value,
@@ -145,7 +154,10 @@ async function writePdfReport(context: SessionReportContext, filePath: string):
   doc.font('Helvetica-Bold').text('Participants');
   doc.font('Helvetica').moveDown(0.2);
   doc.text(`Formateur : ${formatUser(context.trainer)}`);
-  doc.text(`Apprenant : ${formatUser(context.trainee)}`);
+  doc.text(`Apprenant référent : ${formatUser(context.trainee)}`);
+  if (context.trainees.length > 1) {
+    doc.text(`Équipe : ${context.trainees.map((trainee) => trainee.fullName).join(', ')}`);
+  }
   doc.moveDown();
 
   if (context.objective || context.notes) {
@@ -182,21 +194,41 @@ async function writePdfReport(context: SessionReportContext, filePath: string):
     doc.font('Helvetica-Bold').text('Évaluations');
     doc.font('Helvetica').moveDown(0.2);
     context.scores.forEach((score, index) => {
-      const scorer = score.scorer.fullName ? `${score.scorer.fullName}` : 'Évaluateur inconnu';
+      const scorer = score.scorer.fullName
+        ? `${score.scorer.fullName}`
+        : score.rubric?.origin === 'AUTO'
+        ? 'Notation automatique'
+        : 'Évaluateur inconnu';
       doc.font('Helvetica-Bold').text(`Évaluation ${index + 1} – ${scorer}`);
       doc.font('Helvetica').text(`Note : ${score.value.toFixed(2)}`);
       if (score.comments) {
         doc.text(`Commentaire : ${score.comments}`, { indent: 15, lineGap: 2 });
       }
-      if (score.rubric) {
+      const criteria = score.rubric ? formatRubricCriteria(score.rubric) : null;
+      if (criteria) {
+        doc.text(`Grille : ${criteria.name}`);
+        criteria.lines.forEach((line) => doc.text(line, { indent: 15, lineGap: 2 }));
+      } else if (score.rubric) {
         doc.text('Détails de la grille :');
         doc.text(formatDetails(score.rubric), { indent: 15 });
       }
+      formatActorContributions(score.rubric).forEach((line) => doc.text(line, { indent: 15, lineGap: 2 }));
       doc.moveDown(0.4);
     });
     doc.moveDown();
   }
 
+  const actions = summarizeActionsByActor(context.events);
+  if (actions.length > 0) {
+    doc.font('Helvetica-Bold').text('Actions par participant');
+    doc.font('Helvetica').moveDown(0.2);
+    actions.forEach((entry) => {
+      const detail = entry.actions.map(([action, count]) => `${action} ×${count}`).join(', ');
+      doc.text(`• ${entry.fullName} : ${entry.total} action(s)${detail ? ` (${detail})` : ''}`, { lineGap: 2 });
+    });
+    doc.moveDown();
+  }
+
   doc.font('Helvetica-Bold').text('Chronologie des événements');
   if (context.events.length === 0) {
     doc.font('Helvetica').moveDown(0.2).text('Aucun événement enregistré durant la session.');
@@ -208,6 +240,9 @@ async function writePdfReport(context: SessionReportContext, filePath: string):
       if (event.zoneId) {
         doc.text(`Zone : ${event.zoneId}`);
       }
+      if (event.actor) {
+        doc.text(`Par : ${event.actor.fullName}`);
+      }
       if (event.details) {
         doc.text('Détails :');
         doc.text(formatDetails(event.details), { indent: 15 });
@@ -230,6 +265,33 @@ function formatUser(user?: { fullName: string; email: string | null } | null): s
   return user.fullName;
 }
 
+/** Actions attribuées à chaque participant, dans l'ordre de leur première action. */
+function summarizeActionsByActor(
+  events: SessionReportContext['events'],
+): Array<{ fullName: string; total: number; actions: Array<[string, number]> }> {
+  const byActor = new Map<string, { fullName: string; total: number; actions: Map<string, number> }>();
+  for (const event of events) {
+    if (!event.actor) {
+      continue;
+    }
+    const entry = byActor.get(event.actor.id) ?? { fullName: event.actor.fullName, total: 0, actions: new Map() };
+    const action =
+      typeof event.details?.event === 'string'
+        ? event.details.event
+        : typeof event.details?.action === 'string'
+        ? event.details.action
+        : event.source;
+    entry.total += 1;
+    entry.actions.set(action, (entry.actions.get(action) ?? 0) + 1);
+    byActor.set(event.actor.id, entry);
+  }
+  return [...byActor.values()].map((entry) => ({
+    fullName: entry.fullName,
+    total: entry.total,
+    actions: [...entry.actions.entries()],
+  }));
+}
+
 function parseImprovements(json: string | null): ImprovementArea[] {
   if (!json) {
     return [];
@@ -289,6 +351,56 @@ function formatDateTime(date: Date): string {
   return dateTimeFormatter.format(date);
 }
 
+/**
+ * Met en forme les critères d'une grille de notation (`rubricId`, `rules`) ;
+ * renvoie `null` pour les grilles libres, affichées telles quelles.
+ */
+function formatRubricCriteria(rubric: Record<string, unknown>): { name: string; lines: string[] } | null {
+  if (!Array.isArray(rubric.rules)) {
+    return null;
+  }
+  const lines = rubric.rules.flatMap((rule: unknown) => {
+    if (!rule || typeof rule !== 'object') {
+      return [];
+    }
+    const { description, weight, score, feedback, comment } = rule as Record<string, unknown>;
+    if (typeof description !== 'string') {
+      return [];
+    }
+    const result =
+      typeof score === 'number' ? `${Math.round(score * 100)} %` : 'non applicable';
+    const weightLabel = typeof weight === 'number' ? ` (poids ${weight})` : '';
+    const line = `• ${description}${weightLabel} : ${result}`;
+    const showFeedback = typeof feedback === 'string' && typeof score === 'number' && score < 1;
+    const notes = [showFeedback ? feedback : null, typeof comment === 'string' ? comment : null];
+    return [line, ...notes.filter((note): note is string => Boolean(note)).map((note) => `  ${note}`)];
+  });
+  const name =
+    typeof rubric.rubricName === 'string'
+      ? rubric.rubricName
+      : rubric.origin === 'MANUAL'
+      ? 'Grille formateur'
+      : 'Grille personnalisée';
+  return { name, lines };
+}
+
+/** Réponses et fautes de chaque apprenant relevées par la notation automatique. */
+function formatActorContributions(rubric: Record<string, unknown> | null): string[] {
+  if (!rubric || !Array.isArray(rubric.actors)) {
+    return [];
+  }
+  return rubric.actors.flatMap((actor: unknown) => {
+    if (!actor || typeof actor !== 'object') {
+      return [];
+    }
+    const { fullName, responseCount, violationCount } = actor as Record<string, unknown>;
+    const name = typeof fullName === 'string' ? fullName : 'Participant inconnu';
+    const responses = typeof responseCount === 'number' ? responseCount : 0;
+    const violations = typeof violationCount === 'number' ? violationCount : 0;
+    return [`${name} : ${responses} réponse(s) retenue(s), ${violations} faute(s)`];
+  });
+}
+
 function formatDetails(value: Record<string, unknown>): string {
   try {
     return JSON.stringify(value, null, 2);
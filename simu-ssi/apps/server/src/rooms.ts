@@ -0,0 +1,97 @@
+import type { Socket } from 'socket.io';
+import { DEFAULT_ROOM_ID, siteTopologySchema, type SiteTopology } from '@simu-ssi/sdk';
+import { prisma } from './prisma';
+import { SessionManager } from './session-manager';
+import { createDomainContext, type DomainContext } from './state';
+import { createLogger, toError } from './logger';
+import { loadDefaultSiteTopology } from './site-topology';
+
+const log = createLogger('Rooms');
+
+export const DEFAULT_ROOM_NAME = 'Salle principale';
+
+export interface RoomDefinition {
+  id: string;
+  name: string;
+}
+
+/**
+ * Salle d'exercice : un domaine, une horloge et une session qui lui sont propres. Le routeur et le
+ * moteur de scénario de la salle sont construits par le serveur HTTP.
+ */
+export interface RoomContext extends RoomDefinition {
+  domainContext: DomainContext;
+  sessionManager: SessionManager;
+}
+
+export async function createRoomContext(room: RoomDefinition): Promise<RoomContext> {
+  const sessionManager = new SessionManager(room.id);
+  await sessionManager.hydrate();
+  const domainContext = await createDomainContext({
+    roomId: room.id,
+    getActiveSessionId: () => sessionManager.getActiveSessionId(),
+    loadTopology: () => loadSiteTopology(room.id),
+  });
+  log.info("Salle initialisée", { roomId: room.id, activeSessionId: sessionManager.getActiveSessionId() });
+  return { ...room, domainContext, sessionManager };
+}
+
+/** Salles enregistrées en plus de la salle par défaut, dans leur ordre de création. */
+export async function listPersistedRooms(): Promise<RoomDefinition[]> {
+  return prisma.room.findMany({
+    where: { id: { not: DEFAULT_ROOM_ID } },
+    orderBy: { createdAt: 'asc' },
+    select: { id: true, name: true },
+  });
+}
+
+/** Canal Socket.IO sur lequel sont diffusés les événements d'une salle. */
+export function roomChannel(roomId: string): string {
+  return `room:${roomId}`;
+}
+
+/** Salle demandée à la connexion (`auth.roomId` ou `?roomId=`), la salle par défaut sinon. */
+export function resolveSocketRoomId(socket: Pick<Socket, 'handshake'>): string {
+  const raw = socket.handshake.auth?.roomId ?? socket.handshake.query?.roomId;
+  const value = Array.isArray(raw) ? raw[0] : raw;
+  return typeof value === 'string' && value.trim().length > 0 ? value.trim() : DEFAULT_ROOM_ID;
+}
+
+/**
+ * Topologie enregistrée d'une salle secondaire, ou `null` si elle n'en a pas encore. La salle par
+ * défaut conserve les tables `Zone` et `Device`.
+ */
+export async function loadRoomTopology(roomId: string): Promise<SiteTopology | null> {
+  const record = await prisma.room.findUnique({ where: { id: roomId }, select: { topologyJson: true } });
+  if (!record?.topologyJson) {
+    return null;
+  }
+  try {
+    return siteTopologySchema.parse(JSON.parse(record.topologyJson));
+  } catch (error) {
+    log.error("Échec de l'analyse du JSON de la topologie de la salle", { roomId, error: toError(error) });
+    return null;
+  }
+}
+
+/** Topologie enregistrée d'une salle ; une salle secondaire qui n'en a pas reçoit une topologie vide. */
+export async function loadSiteTopology(roomId: string): Promise<SiteTopology> {
+  if (roomId === DEFAULT_ROOM_ID) {
+    return loadDefaultSiteTopology();
+  }
+  return (await loadRoomTopology(roomId)) ?? { zones: [], devices: [] };
+}
+
+export async function saveRoomTopology(roomId: string, topology: SiteTopology): Promise<void> {
+  await prisma.room.update({ where: { id: roomId }, data: { topologyJson: JSON.stringify(topology) } });
+}
+
+/** Disposition stagiaire brute d'une salle secondaire ; la validation reste à la charge de l'appelant. */
+export async function loadRoomLayoutJson(roomId: string): Promise<string | null> {
+  const record = await prisma.room.findUnique({ where: { id: roomId }, select: { layoutJson: true } });
+  return record?.layoutJson ?? null;
+}
+
+export async function saveRoomLayoutJson(roomId: string, json: string): Promise<void> {
+  await prisma.room.update({ where: { id: roomId }, data: { layoutJson: json } });
+}
@@ -2,11 +2,19 @@ import EventEmitter from 'eventemitter3';
 import type {
   ScenarioDefinition,
   ScenarioEvent,
+  ScenarioEventCondition,
   ScenarioEventSequenceEntry,
   ScenarioRunnerSnapshot,
   SiteDevice,
 } from '@simu-ssi/sdk';
-import type { DomainLogEvent, SsiDomain } from '@simu-ssi/domain-ssi';
+import {
+  createSimulationClock,
+  faultIdFor,
+  type ClockTimer,
+  type DomainLogEvent,
+  type SimulationClock,
+  type SsiDomain,
+} from '@simu-ssi/domain-ssi';
 import { recordManualCallPointActivation, recordManualCallPointReset } from './manual-call-points';
 import { createLogger, toError } from './logger';
 
@@ -14,18 +22,57 @@ interface ScenarioRunnerEventMap {
   'scenario.update': ScenarioRunnerSnapshot;
 }
 
-type TimerHandle = ReturnType<typeof setTimeout>;
+type TimerHandle = ClockTimer;
+
+interface ScheduledAction {
+  /** Échéance exprimée en temps écoulé du scénario (ms), hors pauses. */
+  dueMs: number;
+  execute: () => void;
+  handle?: TimerHandle;
+  /** Index de l'événement parent lorsque l'action est une étape de séquence. */
+  sequenceOf?: number;
+}
+
+type ScenarioConditionState = 'WAITING' | 'MET' | 'SKIPPED';
+
+interface ObservedDomainEvent {
+  code: string;
+  zoneId?: string;
+}
+
+/** Étape `WAIT_FOR` (ou `SYSTEM_RESET`) bloquant la chronologie jusqu'à une action du stagiaire. */
+interface ScenarioAwaitingContext {
+  index: number;
+  event: string;
+  zoneId?: string;
+  since: number;
+  deadline?: number;
+  /** Délai d'attente restant (ms), figé pendant les pauses. */
+  remainingMs?: number;
+  timeoutEventId?: string;
+  handle?: TimerHandle;
+  /** La réinitialisation attendue termine le scénario au lieu de reprendre la chronologie. */
+  completesScenario: boolean;
+}
 
 interface ActiveScenarioContext {
   scenario: ScenarioDefinition;
   startedAt: number;
-  timeouts: Set<TimerHandle>;
+  pendingActions: Set<ScheduledAction>;
+  elapsedBeforeResumeMs: number;
+  resumedAt: number;
+  pausedAt?: number;
   currentEventIndex: number;
   awaitingSystemReset: boolean;
+  awaiting?: ScenarioAwaitingContext;
   manualReset: ManualResetContext;
   deviceLookup: Map<string, SiteDevice>;
   sequenceSteps: Map<number, ScenarioSequenceStep[]>;
   sequenceProgress: Map<string, number>;
+  /** Événements de domaine observés depuis le lancement, pour l'évaluation des conditions. */
+  observedEvents: ObservedDomainEvent[];
+  conditionStates: Map<string, ScenarioConditionState>;
+  waitingEvents: Set<number>;
 }
 
 interface ScenarioSequenceStep {
@@ -43,6 +90,10 @@ interface ManualResetContext {
 interface ScenarioRunnerOptions {
   isZoneOutOfService?: (kind: 'DM' | 'DAI', zoneId: string) => boolean;
   isDeviceOutOfService?: (deviceId: string) => boolean;
+  /** Horloge partagée avec le domaine pour que les offsets suivent l'accélération du temps. */
+  clock?: SimulationClock;
+  /** Salle dont les DM sont tenus à jour lorsque le scénario les enclenche ou les réarme. */
+  roomId?: string;
 }
 
 export class ScenarioRunner {
@@ -51,24 +102,41 @@ export class ScenarioRunner {
   private snapshot: ScenarioRunnerSnapshot = { status: 'idle' };
   private readonly log = createLogger('ScenarioRunner');
   private readonly options: ScenarioRunnerOptions;
+  private readonly clock: SimulationClock;
   private readonly handleDomainEvent = (event: DomainLogEvent) => {
     if (!this.context) {
       return;
     }
-    if (!this.context.awaitingSystemReset) {
+    const code = event.details?.event;
+    if (typeof code !== 'string') {
       return;
     }
-    this.log.debug("Événement de domaine reçu en attente de réinitialisation", {
-      source: event.source,
-      message: event.message,
-    });
-    if (event.source === 'CMSI' && event.message === 'System reset to idle') {
-      this.stop('completed');
+    const rawZoneId = event.details?.zoneId;
+    const observed: ObservedDomainEvent = {
+      code,
+      zoneId: typeof rawZoneId === 'string' ? rawZoneId.trim().toUpperCase() : undefined,
+    };
+    this.context.observedEvents.push(observed);
+    this.releaseWaitingEvents(this.context);
+
+    const awaiting = this.context.awaiting;
+    if (
+      awaiting &&
+      awaiting.event === observed.code &&
+      (!awaiting.zoneId || awaiting.zoneId === observed.zoneId)
+    ) {
+      this.log.info('Action attendue réalisée par le stagiaire', {
+        index: awaiting.index,
+        event: awaiting.event,
+        zoneId: awaiting.zoneId,
+      });
+      this.endAwaiting(this.context, 'MET');
     }
   };
 
   constructor(private readonly domain: SsiDomain, options: ScenarioRunnerOptions = {}) {
     this.options = options;
+    this.clock = options.clock ?? createSimulationClock();
   }
 
   get state(): ScenarioRunnerSnapshot {
@@ -110,7 +178,7 @@ export class ScenarioRunner {
 
     const orderedEvents = [...scenario.events].sort((a, b) => a.offset - b.offset);
     const normalizedScenario: ScenarioDefinition = { ...scenario, events: orderedEvents };
-    const startedAt = Date.now();
+    const startedAt = this.clock.now();
     this.domain.emitter.off('events.append', this.handleDomainEvent);
     this.domain.emitter.on('events.append', this.handleDomainEvent);
     this.log.info("Exécution de scénario démarrée", {
@@ -146,13 +214,18 @@ export class ScenarioRunner {
     this.context = {
       scenario: normalizedScenario,
       startedAt,
-      timeouts: new Set<TimerHandle>(),
+      pendingActions: new Set<ScheduledAction>(),
+      elapsedBeforeResumeMs: 0,
+      resumedAt: startedAt,
       currentEventIndex: -1,
       awaitingSystemReset: false,
       manualReset,
       deviceLookup,
       sequenceSteps,
       sequenceProgress,
+      observedEvents: [],
+      conditionStates: new Map<string, ScenarioConditionState>(),
+      waitingEvents: new Set<number>(),
     };
 
     const activeContext = this.context;
@@ -169,34 +242,119 @@ export class ScenarioRunner {
           activeContext.sequenceProgress.set(key, 0);
         }
       }
-
-      const eventDelaySeconds = this.computeEventDelay(event, steps);
-      const delay = Math.max(0, Math.round(eventDelaySeconds * 1000));
-      const handle = setTimeout(() => {
-        activeContext.timeouts.delete(handle);
-        void this.executeEvent(index);
-      }, delay);
-      activeContext.timeouts.add(handle);
-
-      for (const [sequenceIndex, step] of steps.entries()) {
-        const sequenceDelay = Math.max(0, Math.round((event.offset + step.delay) * 1000));
-        const sequenceHandle = setTimeout(() => {
-          activeContext.timeouts.delete(sequenceHandle);
-          void this.executeSequenceEntry(event, step, index, sequenceIndex);
-        }, sequenceDelay);
-        activeContext.timeouts.add(sequenceHandle);
-      }
     });
+    this.scheduleEventsFrom(activeContext, 0);
 
     this.updateSnapshot({
       status: 'running',
       scenario: normalizedScenario,
       startedAt,
+      pausedAt: undefined,
       currentEventIndex: -1,
       nextEvent: orderedEvents[0] ?? null,
       awaitingSystemReset: false,
+      awaiting: null,
+      sequenceProgress: this.serializeSequenceProgress(),
+      conditionStates: this.serializeConditionStates(),
+    });
+  }
+
+  pause(): boolean {
+    const context = this.context;
+    if (!context || context.pausedAt !== undefined) {
+      return false;
+    }
+    const now = this.clock.now();
+    context.elapsedBeforeResumeMs = this.getElapsedMs(context, now);
+    context.pausedAt = now;
+    this.clearScheduledHandles(context);
+    this.holdAwaitingTimeout(context, now);
+    this.domain.pauseTimers();
+    this.log.info('Scénario mis en pause', {
+      scenarioId: context.scenario.id,
+      elapsedMs: context.elapsedBeforeResumeMs,
+    });
+    this.updateSnapshot({
+      ...this.snapshot,
+      status: 'paused',
+      pausedAt: now,
+      awaiting: this.serializeAwaiting(),
+    });
+    return true;
+  }
+
+  resume(): boolean {
+    const context = this.context;
+    if (!context || context.pausedAt === undefined) {
+      return false;
+    }
+    context.pausedAt = undefined;
+    context.resumedAt = this.clock.now();
+    this.domain.resumeTimers();
+    for (const action of context.pendingActions) {
+      this.armAction(context, action);
+    }
+    this.armAwaitingTimeout(context);
+    this.log.info('Scénario repris', {
+      scenarioId: context.scenario.id,
+      elapsedMs: context.elapsedBeforeResumeMs,
+    });
+    this.updateSnapshot({
+      ...this.snapshot,
+      status: 'running',
+      pausedAt: undefined,
+      awaiting: this.serializeAwaiting(),
+    });
+    return true;
+  }
+
+  /**
+   * Positionne le scénario juste avant l'événement `index` : les événements antérieurs
+   * ne sont pas rejoués et la chronologie reprend à l'échéance de l'événement ciblé.
+   */
+  seek(index: number): boolean {
+    const context = this.context;
+    if (!context || !Number.isInteger(index) || index < 0 || index >= context.scenario.events.length) {
+      return false;
+    }
+    const targetEvent = context.scenario.events[index];
+    const targetSteps = context.sequenceSteps.get(index) ?? [];
+    const targetDueMs = this.toDueMs(this.computeEventDelay(targetEvent, targetSteps));
+
+    this.clearScheduledHandles(context);
+    context.pendingActions.clear();
+    this.cancelAwaiting(context);
+    context.elapsedBeforeResumeMs = targetDueMs;
+    context.resumedAt = this.clock.now();
+    context.currentEventIndex = index - 1;
+    context.scenario.events.forEach((event, eventIndex) => {
+      if (eventIndex < index) {
+        return;
+      }
+      const key = this.getSequenceProgressKey(event, eventIndex);
+      if ((context.sequenceSteps.get(eventIndex)?.length ?? 0) > 0) {
+        context.sequenceProgress.set(key, 0);
+      }
+      context.conditionStates.delete(key);
+      context.waitingEvents.delete(eventIndex);
+    });
+    this.scheduleEventsFrom(context, index);
+
+    this.log.info('Scénario repositionné', {
+      scenarioId: context.scenario.id,
+      index,
+      elapsedMs: targetDueMs,
+    });
+    this.updateSnapshot({
+      ...this.snapshot,
+      currentEventIndex: index - 1,
+      nextEvent: targetEvent,
+      awaitingSystemReset: false,
+      awaiting: null,
       sequenceProgress: this.serializeSequenceProgress(),
+      conditionStates: this.serializeConditionStates(),
     });
+    return true;
   }
 
   stop(status: 'stopped' | 'idle' | 'completed' = 'stopped') {
@@ -209,7 +367,7 @@ export class ScenarioRunner {
           status,
           scenario,
           startedAt: undefined,
-          endedAt: status === 'idle' ? undefined : Date.now(),
+          endedAt: status === 'idle' ? undefined : this.clock.now(),
           currentEventIndex: -1,
           nextEvent: null,
           awaitingSystemReset: false,
@@ -223,8 +381,12 @@ export class ScenarioRunner {
       return;
     }
 
-    this.context.timeouts.forEach((timeout) => clearTimeout(timeout));
-    this.context.timeouts.clear();
+    this.clearScheduledHandles(this.context);
+    this.context.pendingActions.clear();
+    this.cancelAwaiting(this.context);
+    if (this.context.pausedAt !== undefined) {
+      this.domain.resumeTimers();
+    }
     const scenario = this.context.scenario;
     const startedAt = this.context.startedAt;
     this.context = undefined;
@@ -236,10 +398,12 @@ export class ScenarioRunner {
       status,
       scenario,
       startedAt,
-      endedAt: Date.now(),
+      endedAt: this.clock.now(),
+      pausedAt: undefined,
       currentEventIndex: this.snapshot.currentEventIndex,
       nextEvent: null,
       awaitingSystemReset: false,
+      awaiting: null,
       sequenceProgress: this.serializeSequenceProgress(),
     });
   }
@@ -280,16 +444,37 @@ export class ScenarioRunner {
     }
     const event = scenario.events[index];
 
+    const conditionState = this.evaluateCondition(this.context, event.condition);
+    if (conditionState) {
+      this.context.conditionStates.set(this.getSequenceProgressKey(event, index), conditionState);
+    }
+    if (conditionState === 'WAITING' || conditionState === 'SKIPPED') {
+      this.dropPendingSequence(this.context, index);
+      if (conditionState === 'WAITING') {
+        this.context.waitingEvents.add(index);
+      }
+      this.log.info(
+        conditionState === 'WAITING'
+          ? "Événement de scénario en attente de sa condition"
+          : "Événement de scénario ignoré : condition non remplie",
+        { index, eventType: event.type, condition: event.condition?.kind },
+      );
+      this.context.currentEventIndex = Math.max(this.context.currentEventIndex, index);
+      this.updateSnapshot({
+        ...this.snapshot,
+        currentEventIndex: this.context.currentEventIndex,
+        nextEvent: scenario.events[this.context.currentEventIndex + 1] ?? null,
+        conditionStates: this.serializeConditionStates(),
+      });
+      return;
+    }
+
     const sequenceSteps = this.context.sequenceSteps.get(index) ?? [];
     const orchestratedBySequence =
       sequenceSteps.length > 0 && this.resolveSequenceDeviceKind(event) !== null;
 
-    if (event.type === 'SYSTEM_RESET') {
-      this.context.awaitingSystemReset = true;
-      this.log.info("En attente de réinitialisation du système après l'événement", {
-        index,
-        eventType: event.type,
-      });
+    if (event.type === 'SYSTEM_RESET' || event.type === 'WAIT_FOR') {
+      this.beginAwaiting(this.context, index, event);
     } else if (orchestratedBySequence) {
       this.log.debug('Événement orchestré via séquence de dispositifs', {
         eventType: event.type,
@@ -308,25 +493,33 @@ export class ScenarioRunner {
       }
     }
 
-    this.context.currentEventIndex = index;
-    const nextEvent = scenario.events[index + 1] ?? null;
+    if (!this.context || this.context.scenario !== scenario) {
+      return;
+    }
+    this.context.currentEventIndex = Math.max(this.context.currentEventIndex, index);
+    const nextEvent = scenario.events[this.context.currentEventIndex + 1] ?? null;
     const awaitingReset = this.context.awaitingSystemReset;
+    const awaitedEvent = this.context.awaiting
+      ? scenario.events[this.context.awaiting.index]
+      : undefined;
 
-    if (!nextEvent && !awaitingReset) {
+    if (!nextEvent && !awaitedEvent) {
       this.log.info("Événements du scénario terminés, attente de l'arrêt manuel", {
         scenarioId: scenario.id,
       });
     }
 
-    const status: ScenarioRunnerSnapshot['status'] = 'running';
+    const status: ScenarioRunnerSnapshot['status'] = this.context.pausedAt !== undefined ? 'paused' : 'running';
     this.updateSnapshot({
       status,
       scenario,
       startedAt: this.context.startedAt,
       endedAt: undefined,
-      currentEventIndex: index,
-      nextEvent: awaitingReset ? event : nextEvent,
+      currentEventIndex: this.context.currentEventIndex,
+      nextEvent: awaitedEvent ?? nextEvent,
       awaitingSystemReset: awaitingReset,
+      awaiting: this.serializeAwaiting(),
+      conditionStates: this.serializeConditionStates(),
     });
   }
 
@@ -336,11 +529,11 @@ export class ScenarioRunner {
         if (this.shouldSkipZoneTrigger('DM', event.zoneId, { eventType: event.type })) {
           return;
         }
-        await recordManualCallPointActivation(event.zoneId);
+        await recordManualCallPointActivation(event.zoneId, this.options.roomId);
         this.domain.activateDm(event.zoneId);
         break;
       case 'DM_RESET':
-        await recordManualCallPointReset(event.zoneId);
+        await recordManualCallPointReset(event.zoneId, this.options.roomId);
         this.domain.resetDm(event.zoneId);
         break;
       case 'DAI_TRIGGER':
@@ -352,6 +545,12 @@ export class ScenarioRunner {
       case 'DAI_RESET':
         this.domain.resetDai(event.zoneId);
         break;
+      case 'DETECTION_CONFIRM':
+        this.domain.confirmDetection(event.zoneId, 'trainer');
+        break;
+      case 'DETECTION_CANCEL':
+        this.domain.cancelDetection(event.zoneId, 'trainer');
+        break;
       case 'MANUAL_EVAC_START':
         this.domain.startManualEvacuation(event.reason);
         break;
@@ -364,11 +563,288 @@ export class ScenarioRunner {
       case 'PROCESS_CLEAR':
         this.domain.clearProcessAck();
         break;
+      case 'POWER_MAINS_CUT':
+        this.domain.cutMains();
+        break;
+      case 'POWER_MAINS_RESTORE':
+        this.domain.restoreMains();
+        break;
+      case 'FAULT_RAISE': {
+        const fault = this.domain.raiseFault(
+          { kind: event.kind, zoneId: event.zoneId, deviceId: event.deviceId },
+          { label: event.label },
+        );
+        if (!fault) {
+          this.log.warn("Dérangement scénarisé ignoré : aucune cible", { eventType: event.type });
+        }
+        break;
+      }
+      case 'FAULT_CLEAR': {
+        const faultId = faultIdFor({ kind: event.kind, zoneId: event.zoneId, deviceId: event.deviceId });
+        if (faultId) {
+          this.domain.clearFault(faultId);
+        }
+        break;
+      }
+      case 'DAS_FAIL':
+        this.domain.failDas(event.deviceId, event.mode);
+        break;
+      case 'DAS_REPAIR':
+        this.domain.repairDas(event.deviceId);
+        break;
       default:
         break;
     }
   }
 
+  private scheduleEventsFrom(context: ActiveScenarioContext, fromIndex: number) {
+    context.scenario.events.forEach((event, index) => {
+      if (index < fromIndex) {
+        return;
+      }
+      const steps = context.sequenceSteps.get(index) ?? [];
+      this.scheduleAction(context, {
+        dueMs: this.toDueMs(this.computeEventDelay(event, steps)),
+        execute: () => void this.executeEvent(index),
+      });
+      for (const [sequenceIndex, step] of steps.entries()) {
+        this.scheduleAction(context, {
+          dueMs: this.toDueMs(event.offset + step.delay),
+          sequenceOf: index,
+          execute: () => void this.executeSequenceEntry(event, step, index, sequenceIndex),
+        });
+      }
+    });
+  }
+
+  private evaluateCondition(
+    context: ActiveScenarioContext,
+    condition: ScenarioEventCondition | undefined,
+  ): ScenarioConditionState | undefined {
+    if (!condition) {
+      return undefined;
+    }
+    switch (condition.kind) {
+      case 'AFTER_EVENT':
+        return this.hasObservedEvent(context, condition.event, condition.zoneId) ? 'MET' : 'WAITING';
+      case 'UNLESS_EVENT':
+        return this.hasObservedEvent(context, condition.event, condition.zoneId) ? 'SKIPPED' : 'MET';
+      case 'IF_STATE': {
+        const snapshot = this.domain.snapshot;
+        const matches =
+          (condition.cmsiStatus === undefined || snapshot.cmsi.status === condition.cmsiStatus) &&
+          (condition.processAcked === undefined ||
+            snapshot.processAck.isAcked === condition.processAcked) &&
+          (condition.ugaActive === undefined || snapshot.ugaActive === condition.ugaActive) &&
+          (condition.mainsAvailable === undefined ||
+            snapshot.power.mainsAvailable === condition.mainsAvailable);
+        return matches ? 'MET' : 'SKIPPED';
+      }
+      default:
+        return undefined;
+    }
+  }
+
+  private hasObservedEvent(context: ActiveScenarioContext, code: string, zoneId?: string): boolean {
+    const normalizedZone = zoneId?.trim().toUpperCase();
+    return context.observedEvents.some(
+      (observed) => observed.code === code && (!normalizedZone || observed.zoneId === normalizedZone),
+    );
+  }
+
+  /**
+   * Relance les événements `AFTER_EVENT` dont la condition vient d'être remplie ;
+   * leurs séquences de dispositifs sont replanifiées à partir de cet instant.
+   */
+  private releaseWaitingEvents(context: ActiveScenarioContext) {
+    for (const index of Array.from(context.waitingEvents)) {
+      const event = context.scenario.events[index];
+      if (!event || this.evaluateCondition(context, event.condition) !== 'MET') {
+        continue;
+      }
+      context.waitingEvents.delete(index);
+      this.log.info("Condition de scénario remplie, reprise de l'événement", {
+        index,
+        eventType: event.type,
+      });
+      const steps = context.sequenceSteps.get(index) ?? [];
+      const elapsedMs = this.getElapsedMs(context);
+      const eventDueMs = this.toDueMs(this.computeEventDelay(event, steps));
+      this.scheduleAction(context, {
+        dueMs: elapsedMs,
+        execute: () => void this.executeEvent(index),
+      });
+      for (const [sequenceIndex, step] of steps.entries()) {
+        this.scheduleAction(context, {
+          dueMs: elapsedMs + Math.max(0, this.toDueMs(event.offset + step.delay) - eventDueMs),
+          sequenceOf: index,
+          execute: () => void this.executeSequenceEntry(event, step, index, sequenceIndex),
+        });
+      }
+    }
+  }
+
+  private dropPendingSequence(context: ActiveScenarioContext, index: number) {
+    for (const action of Array.from(context.pendingActions)) {
+      if (action.sequenceOf !== index) {
+        continue;
+      }
+      this.clock.clearTimeout(action.handle);
+      context.pendingActions.delete(action);
+    }
+  }
+
+  /**
+   * Fige la chronologie jusqu'à ce que l'événement de domaine attendu soit observé
+   * ou que le délai d'attente expire.
+   */
+  private beginAwaiting(
+    context: ActiveScenarioContext,
+    index: number,
+    event: Extract<ScenarioEvent, { type: 'SYSTEM_RESET' | 'WAIT_FOR' }>,
+  ) {
+    const now = this.clock.now();
+    context.elapsedBeforeResumeMs = this.getElapsedMs(context, now);
+    this.clearScheduledHandles(context);
+    const waitFor = event.type === 'WAIT_FOR' ? event : undefined;
+    context.awaiting = {
+      index,
+      event: waitFor?.event ?? 'SYSTEM_RESET',
+      zoneId: waitFor?.zoneId?.trim().toUpperCase() || undefined,
+      since: now,
+      remainingMs: waitFor?.timeout !== undefined ? this.toDueMs(waitFor.timeout) : undefined,
+      timeoutEventId: waitFor?.timeoutEventId,
+      completesScenario: event.type === 'SYSTEM_RESET',
+    };
+    context.awaitingSystemReset = event.type === 'SYSTEM_RESET';
+    this.armAwaitingTimeout(context);
+    this.log.info("En attente d'une action du stagiaire", {
+      index,
+      event: context.awaiting.event,
+      zoneId: context.awaiting.zoneId,
+      timeoutMs: context.awaiting.remainingMs,
+    });
+  }
+
+  private endAwaiting(context: ActiveScenarioContext, outcome: 'MET' | 'TIMEOUT') {
+    const awaiting = context.awaiting;
+    if (!awaiting) {
+      return;
+    }
+    this.cancelAwaiting(context);
+    if (outcome === 'MET' && awaiting.completesScenario) {
+      this.stop('completed');
+      return;
+    }
+    context.resumedAt = this.clock.now();
+
+    if (outcome === 'TIMEOUT') {
+      this.log.info("Délai d'attente expiré sans l'action attendue", {
+        index: awaiting.index,
+        event: awaiting.event,
+        timeoutEventId: awaiting.timeoutEventId,
+      });
+      if (awaiting.timeoutEventId) {
+        const target = context.scenario.events.findIndex(
+          (candidate) => candidate.id === awaiting.timeoutEventId,
+        );
+        if (target >= 0 && target !== awaiting.index && this.seek(target)) {
+          return;
+        }
+        this.log.warn("Branche d'expiration introuvable, poursuite de la chronologie", {
+          timeoutEventId: awaiting.timeoutEventId,
+        });
+      }
+    }
+
+    for (const action of context.pendingActions) {
+      this.armAction(context, action);
+    }
+    this.updateSnapshot({
+      ...this.snapshot,
+      nextEvent: context.scenario.events[context.currentEventIndex + 1] ?? null,
+      awaitingSystemReset: false,
+      awaiting: null,
+    });
+  }
+
+  private cancelAwaiting(context: ActiveScenarioContext) {
+    if (context.awaiting) {
+      this.clock.clearTimeout(context.awaiting.handle);
+    }
+    context.awaiting = undefined;
+    context.awaitingSystemReset = false;
+  }
+
+  private armAwaitingTimeout(context: ActiveScenarioContext) {
+    const awaiting = context.awaiting;
+    if (!awaiting || awaiting.remainingMs === undefined || context.pausedAt !== undefined) {
+      return;
+    }
+    awaiting.deadline = this.clock.now() + awaiting.remainingMs;
+    awaiting.handle = this.clock.setTimeout(() => {
+      awaiting.handle = undefined;
+      if (this.context === context && context.awaiting === awaiting) {
+        this.endAwaiting(context, 'TIMEOUT');
+      }
+    }, awaiting.remainingMs);
+  }
+
+  private holdAwaitingTimeout(context: ActiveScenarioContext, now: number) {
+    const awaiting = context.awaiting;
+    if (!awaiting?.handle || awaiting.deadline === undefined) {
+      return;
+    }
+    this.clock.clearTimeout(awaiting.handle);
+    awaiting.handle = undefined;
+    awaiting.remainingMs = Math.max(0, awaiting.deadline - now);
+  }
+
+  private scheduleAction(context: ActiveScenarioContext, action: ScheduledAction) {
+    context.pendingActions.add(action);
+    this.armAction(context, action);
+  }
+
+  private armAction(context: ActiveScenarioContext, action: ScheduledAction) {
+    if (this.isScheduleHeld(context)) {
+      return;
+    }
+    if (action.handle) {
+      this.clock.clearTimeout(action.handle);
+    }
+    const delay = Math.max(0, action.dueMs - this.getElapsedMs(context));
+    action.handle = this.clock.setTimeout(() => {
+      action.handle = undefined;
+      context.pendingActions.delete(action);
+      action.execute();
+    }, delay);
+  }
+
+  private clearScheduledHandles(context: ActiveScenarioContext) {
+    for (const action of context.pendingActions) {
+      if (action.handle) {
+        this.clock.clearTimeout(action.handle);
+        action.handle = undefined;
+      }
+    }
+  }
+
+  /** La chronologie est figée pendant une pause ou une attente d'action du stagiaire. */
+  private isScheduleHeld(context: ActiveScenarioContext): boolean {
+    return context.pausedAt !== undefined || context.awaiting !== undefined;
+  }
+
+  private getElapsedMs(context: ActiveScenarioContext, now = this.clock.now()): number {
+    if (this.isScheduleHeld(context)) {
+      return context.elapsedBeforeResumeMs;
+    }
+    return context.elapsedBeforeResumeMs + Math.max(0, now - context.resumedAt);
+  }
+
+  private toDueMs(seconds: number): number {
+    return Math.max(0, Math.round(seconds * 1000));
+  }
+
   private computeEventDelay(event: ScenarioEvent, steps: ScenarioSequenceStep[]): number {
     if (event.offset > 0) {
       return event.offset;
@@ -470,11 +946,11 @@ export class ScenarioRunner {
           ) {
             return;
           }
-          await recordManualCallPointActivation(zoneId);
+          await recordManualCallPointActivation(zoneId, this.options.roomId);
           this.domain.activateDm(zoneId, { deviceId: step.deviceId });
           break;
         case 'DM_RESET':
-          await recordManualCallPointReset(zoneId);
+          await recordManualCallPointReset(zoneId, this.options.roomId);
           this.domain.resetDm(zoneId);
           break;
         case 'DAI_TRIGGER':
@@ -612,6 +1088,27 @@ export class ScenarioRunner {
     return event.id ?? index.toString(10);
   }
 
+  private serializeConditionStates(): Record<string, ScenarioConditionState> {
+    if (!this.context) {
+      return {};
+    }
+    return Object.fromEntries(this.context.conditionStates.entries());
+  }
+
+  private serializeAwaiting(): ScenarioRunnerSnapshot['awaiting'] {
+    const awaiting = this.context?.awaiting;
+    if (!awaiting) {
+      return null;
+    }
+    return {
+      eventIndex: awaiting.index,
+      event: awaiting.event,
+      zoneId: awaiting.zoneId,
+      since: awaiting.since,
+      deadline: awaiting.deadline,
+    };
+  }
+
   private serializeSequenceProgress(): Record<string, number> {
     if (!this.context) {
       return {};
@@ -1,10 +1,12 @@
 import EventEmitter from 'eventemitter3';
 import { randomUUID } from 'node:crypto';
 import { z } from 'zod';
+import { DEFAULT_ROOM_ID } from '@simu-ssi/sdk';
 import { prisma } from './prisma';
 import type { Prisma } from '@prisma/client';
 import { createLogger, toError } from './logger';
 import { generateSessionReport } from './report-generator';
+import { scoreSession } from './session-scoring';
 
 const improvementSchema = z.object({
   title: z.string().min(1),
@@ -13,9 +15,13 @@ const improvementSchema = z.object({
 
 export type ImprovementArea = z.infer<typeof improvementSchema>;
 
-type SessionWithRelations = Prisma.SessionGetPayload<{
-  include: { trainee: true; trainer: true };
-}>;
+const sessionInclude = {
+  trainee: true,
+  trainer: true,
+  participants: { include: { user: true }, orderBy: { joinedAt: 'asc' } },
+} satisfies Prisma.SessionInclude;
+
+type SessionWithRelations = Prisma.SessionGetPayload<{ include: typeof sessionInclude }>;
 
 export interface SessionView {
   id: string;
@@ -26,7 +32,10 @@ export interface SessionView {
   startedAt: string;
   endedAt?: string | null;
   status: 'active' | 'completed';
+  roomId: string;
+  /** Apprenant référent, sous le nom duquel le rapport est classé. */
   trainee?: UserSummary | null;
+  trainees: UserSummary[];
   trainer?: UserSummary | null;
   improvementAreas: ImprovementArea[];
 }
@@ -42,6 +51,7 @@ export interface SessionCreateInput {
   name: string;
   mode?: string;
   traineeId?: string;
+  traineeIds?: string[];
   trainerId?: string;
   objective?: string;
   notes?: string;
@@ -51,6 +61,7 @@ export interface SessionUpdateInput {
   name?: string;
   mode?: string;
   traineeId?: string | null;
+  traineeIds?: string[];
   trainerId?: string | null;
   objective?: string | null;
   notes?: string | null;
@@ -68,6 +79,7 @@ interface SessionManagerEventMap {
 
 const sessionLogger = createLogger('SessionManager');
 
+/** Sessions d'une salle : une seule session active à la fois par salle. */
 export class SessionManager extends EventEmitter<SessionManagerEventMap> {
   private activeSessionId: string | null = null;
 
@@ -75,20 +87,26 @@ export class SessionManager extends EventEmitter<SessionManagerEventMap> {
 
   private readonly log = sessionLogger;
 
+  constructor(readonly roomId: string = DEFAULT_ROOM_ID) {
+    super();
+  }
+
   async hydrate() {
     const record = await prisma.session.findFirst({
+      where: { roomId: this.roomId },
       orderBy: { startedAt: 'desc' },
-      include: { trainee: true, trainer: true },
+      include: sessionInclude,
     });
     if (!record) {
       this.activeSessionId = null;
       this.currentSession = null;
-      this.log.debug("Aucune session existante trouvée lors de l'initialisation");
+      this.log.debug("Aucune session existante trouvée lors de l'initialisation", { roomId: this.roomId });
       return null;
     }
     this.activeSessionId = record.endedAt ? null : record.id;
     this.currentSession = this.serialize(record);
     this.log.info("État de session chargé", {
+      roomId: this.roomId,
       activeSessionId: this.activeSessionId,
       status: this.currentSession.status,
     });
@@ -103,11 +121,25 @@ export class SessionManager extends EventEmitter<SessionManagerEventMap> {
     return this.currentSession;
   }
 
+  /**
+   * Retient l'utilisateur annoncé par un poste s'il participe à la session active (apprenant de
+   * l'équipe ou formateur) ; toute autre valeur est ignorée.
+   */
+  resolveActorId(candidate: string | undefined): string | null {
+    const session = this.activeSessionId ? this.currentSession : null;
+    if (!candidate || !session) {
+      return null;
+    }
+    const participants = [...session.trainees, ...(session.trainer ? [session.trainer] : [])];
+    return participants.some((user) => user.id === candidate) ? candidate : null;
+  }
+
   async listSessions(limit = 20): Promise<SessionView[]> {
     const records = await prisma.session.findMany({
+      where: { roomId: this.roomId },
       orderBy: { startedAt: 'desc' },
       take: limit,
-      include: { trainee: true, trainer: true },
+      include: sessionInclude,
     });
     this.log.debug("Liste des sessions générée", { limit, count: records.length });
     return records.map((record) => this.serialize(record));
@@ -116,7 +148,7 @@ export class SessionManager extends EventEmitter<SessionManagerEventMap> {
   async getSession(id: string): Promise<SessionView | null> {
     const record = await prisma.session.findUnique({
       where: { id },
-      include: { trainee: true, trainer: true },
+      include: sessionInclude,
     });
     this.log.debug("Session récupérée", { id, found: Boolean(record) });
     return record ? this.serialize(record) : null;
@@ -125,28 +157,34 @@ export class SessionManager extends EventEmitter<SessionManagerEventMap> {
   async createSession(input: SessionCreateInput): Promise<SessionView> {
     if (this.activeSessionId) {
       this.log.warn("Tentative de création d'une session alors qu'une autre est active", {
+        roomId: this.roomId,
         activeSessionId: this.activeSessionId,
       });
       throw new Error('SESSION_ALREADY_ACTIVE');
     }
+    const team = uniqueIds([...(input.traineeId ? [input.traineeId] : []), ...(input.traineeIds ?? [])]);
     const session = await prisma.session.create({
       data: {
         id: randomUUID(),
+        roomId: this.roomId,
         name: input.name,
         mode: input.mode ?? 'libre',
-        traineeId: input.traineeId ?? undefined,
+        traineeId: team[0],
+        participants: { create: team.map((userId) => ({ userId })) },
         trainerId: input.trainerId ?? undefined,
         objective: input.objective ?? undefined,
         notes: input.notes ?? undefined,
       },
-      include: { trainee: true, trainer: true },
+      include: sessionInclude,
     });
     this.activeSessionId = session.id;
     this.currentSession = this.serialize(session);
     this.emit('session.update', this.currentSession);
     this.log.info("Session créée", {
+      roomId: this.roomId,
       sessionId: session.id,
       traineeId: session.traineeId,
+      traineeCount: team.length,
       trainerId: session.trainerId,
     });
     return this.currentSession;
@@ -154,28 +192,80 @@ export class SessionManager extends EventEmitter<SessionManagerEventMap> {
 
   async updateSession(id: string, input: SessionUpdateInput): Promise<SessionView> {
     this.log.debug("Mise à jour de la session", { id, payload: input });
+    const team =
+      input.traineeIds === undefined
+        ? undefined
+        : uniqueIds([...(input.traineeId ? [input.traineeId] : []), ...input.traineeIds]);
+    const leadId = input.traineeId !== undefined ? input.traineeId ?? null : team ? team[0] ?? null : undefined;
     const session = await prisma.session.update({
-      where: { id },
+      where: { id, roomId: this.roomId },
       data: {
         name: input.name ?? undefined,
         mode: input.mode ?? undefined,
-        traineeId: input.traineeId === undefined ? undefined : input.traineeId ?? null,
+        traineeId: leadId,
+        participants: team
+          ? { deleteMany: {}, create: team.map((userId) => ({ userId })) }
+          : leadId
+          ? {
+              connectOrCreate: {
+                where: { sessionId_userId: { sessionId: id, userId: leadId } },
+                create: { userId: leadId },
+              },
+            }
+          : undefined,
         trainerId: input.trainerId === undefined ? undefined : input.trainerId ?? null,
         objective: input.objective === undefined ? undefined : input.objective ?? null,
         notes: input.notes === undefined ? undefined : input.notes ?? null,
       },
-      include: { trainee: true, trainer: true },
+      include: sessionInclude,
     });
-    this.activeSessionId = session.endedAt ? null : session.id;
-    if (!this.currentSession || this.currentSession.id === session.id) {
-      this.currentSession = this.serialize(session);
-      this.emit('session.update', this.currentSession);
-    }
     this.log.info("Session mise à jour", {
       sessionId: session.id,
       status: session.endedAt ? 'completed' : 'active',
     });
-    return this.serialize(session);
+    return this.publish(session);
+  }
+
+  /** Ajoute un apprenant à l'équipe ; il devient référent si la session n'en a pas encore. */
+  async addTrainee(id: string, userId: string): Promise<SessionView> {
+    const current = await prisma.session.findUniqueOrThrow({ where: { id, roomId: this.roomId } });
+    if (current.endedAt) {
+      throw new Error('SESSION_ALREADY_CLOSED');
+    }
+    const session = await prisma.session.update({
+      where: { id, roomId: this.roomId },
+      data: {
+        traineeId: current.traineeId ?? userId,
+        participants: {
+          connectOrCreate: {
+            where: { sessionId_userId: { sessionId: id, userId } },
+            create: { userId },
+          },
+        },
+      },
+      include: sessionInclude,
+    });
+    this.log.info("Apprenant ajouté à la session", { sessionId: id, userId });
+    return this.publish(session);
+  }
+
+  /** Retire un apprenant de l'équipe ; un référent sortant est remplacé par le suivant. */
+  async removeTrainee(id: string, userId: string): Promise<SessionView> {
+    const current = await prisma.session.findUniqueOrThrow({
+      where: { id, roomId: this.roomId },
+      include: { participants: { orderBy: { joinedAt: 'asc' } } },
+    });
+    const remaining = current.participants.filter((participant) => participant.userId !== userId);
+    const session = await prisma.session.update({
+      where: { id, roomId: this.roomId },
+      data: {
+        traineeId: current.traineeId === userId ? remaining[0]?.userId ?? null : undefined,
+        participants: { deleteMany: { userId } },
+      },
+      include: sessionInclude,
+    });
+    this.log.info("Apprenant retiré de la session", { sessionId: id, userId });
+    return this.publish(session);
   }
 
   async closeSession(id: string, input: SessionCloseInput): Promise<SessionView> {
@@ -186,15 +276,29 @@ export class SessionManager extends EventEmitter<SessionManagerEventMap> {
         : input.improvementAreas.length > 0
         ? JSON.stringify(input.improvementAreas)
         : null;
-    const session = await prisma.session.update({
-      where: { id },
-      data: {
-        notes: input.notes === undefined ? undefined : input.notes ?? null,
-        improvementJson: improvementJson === undefined ? undefined : improvementJson,
-        endedAt: input.endedAt ?? new Date(),
-      },
-      include: { trainee: true, trainer: true },
+    const debrief = {
+      notes: input.notes === undefined ? undefined : input.notes ?? null,
+      improvementJson: improvementJson === undefined ? undefined : improvementJson,
+    };
+    // Écriture conditionnelle : de deux clôtures simultanées, une seule passe `endedAt` de `null` à
+    // une date, et elle seule note la session et produit son rapport.
+    const closed = await prisma.session.updateMany({
+      where: { id, roomId: this.roomId, endedAt: null },
+      data: { ...debrief, endedAt: input.endedAt ?? new Date() },
+    });
+    // Déjà clôturée : les notes et axes d'amélioration envoyés restent enregistrés, sans nouvelle notation.
+    if (closed.count === 0 && (debrief.notes !== undefined || debrief.improvementJson !== undefined)) {
+      await prisma.session.updateMany({ where: { id, roomId: this.roomId }, data: debrief });
+    }
+    const session = await prisma.session.findUniqueOrThrow({
+      where: { id, roomId: this.roomId },
+      include: sessionInclude,
     });
+    if (closed.count === 0) {
+      this.log.warn("Session déjà clôturée", { sessionId: id });
+      return this.serialize(session);
+    }
+    await scoreSession(session.id);
     await generateSessionReport(session.id);
     if (this.activeSessionId === id) {
       this.activeSessionId = null;
@@ -208,6 +312,15 @@ export class SessionManager extends EventEmitter<SessionManagerEventMap> {
     return this.currentSession;
   }
 
+  private publish(session: SessionWithRelations): SessionView {
+    this.activeSessionId = session.endedAt ? null : session.id;
+    if (!this.currentSession || this.currentSession.id === session.id) {
+      this.currentSession = this.serialize(session);
+      this.emit('session.update', this.currentSession);
+    }
+    return this.serialize(session);
+  }
+
   private serialize(record: SessionWithRelations): SessionView {
     return {
       id: record.id,
@@ -218,7 +331,9 @@ export class SessionManager extends EventEmitter<SessionManagerEventMap> {
       startedAt: record.startedAt.toISOString(),
       endedAt: record.endedAt ? record.endedAt.toISOString() : null,
       status: record.endedAt ? 'completed' : 'active',
+      roomId: record.roomId,
       trainee: record.trainee ? serializeUser(record.trainee) : null,
+      trainees: record.participants.map((participant) => serializeUser(participant.user)),
       trainer: record.trainer ? serializeUser(record.trainer) : null,
       improvementAreas: parseImprovementAreas(record.improvementJson),
     };
@@ -234,6 +349,10 @@ function serializeUser(user: { id: string; fullName: string; role: string; email
   };
 }
 
+function uniqueIds(ids: string[]): string[] {
+  return [...new Set(ids)];
+}
+
 function parseImprovementAreas(json: string | null): ImprovementArea[] {
   if (!json) {
     return [];
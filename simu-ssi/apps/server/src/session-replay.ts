@@ -0,0 +1,456 @@
+import EventEmitter from 'eventemitter3';
+import type { Namespace, Socket } from 'socket.io';
+import {
+  applyLoggedEvent,
+  createSimulationClock,
+  createSsiDomain,
+  type DomainSnapshot,
+} from '@simu-ssi/domain-ssi';
+import {
+  REPLAY_SPEEDS,
+  replayJoinSchema,
+  replaySeekSchema,
+  replaySpeedSchema,
+  type ReplaySpeed,
+  type ReplayState,
+  type ReplayTimeline,
+  type SiteTopology,
+} from '@simu-ssi/sdk';
+import { prisma } from './prisma';
+import { createLogger, toError } from './logger';
+import { buildDomainTopologyConfig } from './site-topology';
+import type { AuthIdentity } from './auth';
+
+const log = createLogger('SessionReplay');
+
+export interface ReplayFrame {
+  index: number;
+  /** Décalage par rapport au premier événement, en temps simulé (ms). */
+  offsetMs: number;
+  source: string;
+  message: string | null;
+  event: string | null;
+  snapshot: DomainSnapshot;
+}
+
+export interface SessionReplay {
+  sessionId: string;
+  sessionName: string;
+  startedAt: Date;
+  durationMs: number;
+  /** État du tableau avant le premier événement journalisé. */
+  initialSnapshot: DomainSnapshot;
+  frames: ReplayFrame[];
+}
+
+export interface SessionReplayOptions {
+  /** Topologie enregistrée de la salle : ses ZA/ZS, DAS et stratégies de détection valent pendant le rejeu. */
+  loadTopology?: (roomId: string) => Promise<SiteTopology | null>;
+}
+
+function parsePayload(payloadJson: string | null): Record<string, unknown> | null {
+  if (!payloadJson) {
+    return null;
+  }
+  try {
+    const parsed = JSON.parse(payloadJson) as unknown;
+    return parsed && typeof parsed === 'object' ? (parsed as Record<string, unknown>) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Heure simulée de chaque ligne d'un journal trié chronologiquement. Les actions serveur ne
+ * portent pas d'heure simulée : elles sont positionnées à partir du dernier événement daté, en
+ * conservant l'écart réel observé.
+ */
+export function toSimulatedTimeline(rows: Array<{ ts: Date; payloadJson: string | null }>): number[] {
+  let previous: { wallMs: number; simulatedMs: number } | null = null;
+  return rows.map((row) => {
+    const payload = parsePayload(row.payloadJson);
+    const wallMs = row.ts.getTime();
+    const simulatedAt = payload && typeof payload.simulatedAt === 'number' ? payload.simulatedAt : null;
+    let simulatedMs = simulatedAt ?? wallMs;
+    if (previous) {
+      const elapsedMs = Math.max(0, wallMs - previous.wallMs);
+      simulatedMs = Math.max(simulatedAt ?? previous.simulatedMs + elapsedMs, previous.simulatedMs);
+    }
+    previous = { wallMs, simulatedMs };
+    return simulatedMs;
+  });
+}
+
+function readLabel(payload: Record<string, unknown> | null): string | null {
+  if (!payload) {
+    return null;
+  }
+  const code = payload.event ?? payload.action;
+  return typeof code === 'string' ? code : null;
+}
+
+/**
+ * Reconstruit les instantanés successifs d'une session à partir de son journal : chaque
+ * commande journalisée est rejouée sur un domaine neuf piloté par une horloge pas à pas,
+ * ce qui reproduit aussi les temporisations (évacuation différée, batterie…).
+ * Renvoie `null` si la session n'existe pas.
+ */
+export async function buildSessionReplay(
+  sessionId: string,
+  options: SessionReplayOptions = {},
+): Promise<SessionReplay | null> {
+  const session = await prisma.session.findUnique({ where: { id: sessionId } });
+  if (!session) {
+    return null;
+  }
+  let topology: SiteTopology | null = null;
+  try {
+    topology = options.loadTopology ? await options.loadTopology(session.roomId) : null;
+  } catch (error) {
+    log.error('Échec du chargement de la topologie avant le rejeu de la session', {
+      sessionId,
+      roomId: session.roomId,
+      error: toError(error),
+    });
+  }
+  const [rows, siteConfig] = await Promise.all([
+    prisma.eventLog.findMany({ where: { sessionId }, orderBy: [{ ts: 'asc' }, { id: 'asc' }] }),
+    prisma.siteConfig.findUnique({ where: { id: 1 } }),
+  ]);
+
+  const timeline = toSimulatedTimeline(rows);
+  const entries = rows.map((row, index) => ({
+    row,
+    payload: parsePayload(row.payloadJson),
+    simulatedMs: timeline[index],
+  }));
+
+  const origin = entries.length > 0 ? entries[0].simulatedMs : session.startedAt.getTime();
+  const clock = createSimulationClock({ mode: 'step', origin });
+  const domain = createSsiDomain(
+    {
+      evacOnDmDelayMs: siteConfig?.evacOnDMDelayMs ?? 300000,
+      processAckRequired: siteConfig?.processAckRequired ?? true,
+      evacOnDai: siteConfig?.evacOnDAI ?? false,
+      ...buildDomainTopologyConfig(topology),
+    },
+    { clock },
+  );
+  const initialSnapshot = domain.snapshot;
+
+  const frames = entries.map(({ row, payload, simulatedMs }, index): ReplayFrame => {
+    clock.advance(Math.max(0, simulatedMs - clock.now()));
+    applyLoggedEvent(domain, { details: payload });
+    return {
+      index,
+      offsetMs: simulatedMs - origin,
+      source: row.source,
+      message: row.message,
+      event: readLabel(payload),
+      snapshot: domain.snapshot,
+    };
+  });
+
+  log.debug('Rejeu de session reconstruit', { sessionId, frameCount: frames.length });
+  return {
+    sessionId,
+    sessionName: session.name,
+    startedAt: session.startedAt,
+    durationMs: frames.length > 0 ? frames[frames.length - 1].offsetMs : 0,
+    initialSnapshot,
+    frames,
+  };
+}
+
+export function toReplayTimeline(replay: SessionReplay): ReplayTimeline {
+  return {
+    sessionId: replay.sessionId,
+    sessionName: replay.sessionName,
+    startedAt: replay.startedAt.toISOString(),
+    durationMs: replay.durationMs,
+    frames: replay.frames.map(({ snapshot: _snapshot, ...frame }) => frame),
+  };
+}
+
+interface ReplayPlayerEventMap {
+  'replay.state': ReplayState<DomainSnapshot>;
+}
+
+/**
+ * Lecteur d'un rejeu : avance dans la chronologie en temps réel, multiplié par la vitesse
+ * choisie, et publie l'instantané courant à chaque trame franchie.
+ */
+export class ReplayPlayer extends EventEmitter<ReplayPlayerEventMap> {
+  private status: ReplayState['status'] = 'paused';
+  private speed: ReplaySpeed = 1;
+  private positionMs = 0;
+  private frameIndex = -1;
+  /** Point d'ancrage de la lecture : position et heure réelle du dernier (re)départ. */
+  private anchor = { positionMs: 0, wallMs: 0 };
+  private timer?: ReturnType<typeof setTimeout>;
+
+  constructor(private readonly replay: SessionReplay) {
+    super();
+  }
+
+  get timeline(): ReplayTimeline {
+    return toReplayTimeline(this.replay);
+  }
+
+  get state(): ReplayState<DomainSnapshot> {
+    const frame = this.frameIndex >= 0 ? this.replay.frames[this.frameIndex] : undefined;
+    return {
+      sessionId: this.replay.sessionId,
+      status: this.status,
+      speed: this.speed,
+      positionMs: this.currentPosition(),
+      frameIndex: this.frameIndex,
+      snapshot: frame?.snapshot ?? this.replay.initialSnapshot,
+    };
+  }
+
+  play(): void {
+    if (this.status === 'playing') {
+      return;
+    }
+    if (this.status === 'ended') {
+      this.moveTo(0);
+    }
+    this.status = 'playing';
+    this.anchor = { positionMs: this.positionMs, wallMs: Date.now() };
+    this.scheduleNext();
+    this.publish();
+  }
+
+  pause(): void {
+    if (this.status !== 'playing') {
+      return;
+    }
+    this.positionMs = this.currentPosition();
+    this.status = 'paused';
+    this.clearTimer();
+    this.publish();
+  }
+
+  setSpeed(speed: ReplaySpeed): void {
+    this.positionMs = this.currentPosition();
+    this.anchor = { positionMs: this.positionMs, wallMs: Date.now() };
+    this.speed = speed;
+    if (this.status === 'playing') {
+      this.scheduleNext();
+    }
+    this.publish();
+  }
+
+  seek(positionMs: number): void {
+    this.moveTo(positionMs);
+    if (this.status === 'ended') {
+      this.status = 'paused';
+    }
+    if (this.status === 'playing') {
+      this.anchor = { positionMs: this.positionMs, wallMs: Date.now() };
+      this.scheduleNext();
+    }
+    this.publish();
+  }
+
+  dispose(): void {
+    this.clearTimer();
+    this.removeAllListeners();
+  }
+
+  private moveTo(positionMs: number): void {
+    const clamped = Math.min(Math.max(0, positionMs), this.replay.durationMs);
+    let index = -1;
+    for (const frame of this.replay.frames) {
+      if (frame.offsetMs > clamped) {
+        break;
+      }
+      index = frame.index;
+    }
+    this.positionMs = clamped;
+    this.frameIndex = index;
+  }
+
+  private currentPosition(): number {
+    if (this.status !== 'playing') {
+      return this.positionMs;
+    }
+    const elapsed = (Date.now() - this.anchor.wallMs) * this.speed;
+    return Math.min(this.anchor.positionMs + elapsed, this.replay.durationMs);
+  }
+
+  private scheduleNext(): void {
+    this.clearTimer();
+    const next = this.replay.frames[this.frameIndex + 1];
+    if (!next) {
+      this.positionMs = this.replay.durationMs;
+      this.status = 'ended';
+      return;
+    }
+    const delay = Math.max(0, (next.offsetMs - this.currentPosition()) / this.speed);
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.frameIndex = next.index;
+      this.positionMs = next.offsetMs;
+      this.anchor = { positionMs: next.offsetMs, wallMs: Date.now() };
+      this.scheduleNext();
+      this.publish();
+    }, delay);
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private publish(): void {
+    this.emit('replay.state', this.state);
+  }
+}
+
+export interface ReplayNamespaceOptions extends SessionReplayOptions {
+  /** Autorise un client à piloter le lecteur ; par défaut, tout rôle sauf `TRAINEE`. */
+  canControl?: (identity: AuthIdentity | null | undefined) => boolean;
+}
+
+function roomFor(sessionId: string): string {
+  return `replay:${sessionId}`;
+}
+
+/**
+ * Branche le rejeu sur le namespace Socket.IO dédié : un lecteur partagé par session,
+ * piloté par les clients `control` (console formateur) et suivi en lecture seule par
+ * les clients `view` (tableau stagiaire). Le lecteur est libéré quand plus personne ne regarde.
+ */
+export function attachReplayNamespace(
+  namespace: Namespace,
+  options: ReplayNamespaceOptions = {},
+): void {
+  const canControl = options.canControl ?? ((identity) => identity?.role !== 'TRAINEE');
+  const players = new Map<string, Promise<ReplayPlayer | null>>();
+
+  function loadPlayer(sessionId: string): Promise<ReplayPlayer | null> {
+    const existing = players.get(sessionId);
+    if (existing) {
+      return existing;
+    }
+    const pending = buildSessionReplay(sessionId, options).then((replay) => {
+      if (!replay) {
+        players.delete(sessionId);
+        return null;
+      }
+      const player = new ReplayPlayer(replay);
+      player.on('replay.state', (state) => {
+        namespace.to(roomFor(sessionId)).emit('replay.state', state);
+      });
+      log.info('Lecteur de rejeu créé', { sessionId, frameCount: replay.frames.length });
+      return player;
+    });
+    pending.catch(() => players.delete(sessionId));
+    players.set(sessionId, pending);
+    return pending;
+  }
+
+  async function releaseIfUnused(sessionId: string): Promise<void> {
+    const sockets = await namespace.in(roomFor(sessionId)).fetchSockets();
+    if (sockets.length > 0) {
+      return;
+    }
+    const pending = players.get(sessionId);
+    players.delete(sessionId);
+    const player = await pending?.catch(() => null);
+    if (player) {
+      player.dispose();
+      log.info('Lecteur de rejeu libéré', { sessionId });
+    }
+  }
+
+  namespace.on('connection', (socket: Socket) => {
+    let joined: { sessionId: string; player: ReplayPlayer; canControl: boolean } | null = null;
+
+    async function leave(): Promise<void> {
+      if (!joined) {
+        return;
+      }
+      const { sessionId } = joined;
+      joined = null;
+      await socket.leave(roomFor(sessionId));
+      await releaseIfUnused(sessionId);
+    }
+
+    function withControl(action: (player: ReplayPlayer) => void): void {
+      if (!joined) {
+        socket.emit('replay.error', { error: 'REPLAY_NOT_JOINED' });
+        return;
+      }
+      if (!joined.canControl) {
+        socket.emit('replay.error', { error: 'REPLAY_READ_ONLY' });
+        return;
+      }
+      action(joined.player);
+    }
+
+    socket.on('replay.join', async (payload: unknown) => {
+      const parsed = replayJoinSchema.safeParse(payload);
+      if (!parsed.success) {
+        socket.emit('replay.error', { error: 'INVALID_REPLAY_REQUEST' });
+        return;
+      }
+      const identity = socket.data.auth as AuthIdentity | null | undefined;
+      if (parsed.data.mode === 'control' && !canControl(identity)) {
+        socket.emit('replay.error', { error: 'REPLAY_FORBIDDEN' });
+        return;
+      }
+      try {
+        await leave();
+        const player = await loadPlayer(parsed.data.sessionId);
+        if (!player) {
+          socket.emit('replay.error', { error: 'SESSION_NOT_FOUND' });
+          return;
+        }
+        await socket.join(roomFor(parsed.data.sessionId));
+        joined = { sessionId: parsed.data.sessionId, player, canControl: parsed.data.mode === 'control' };
+        socket.emit('replay.loaded', player.timeline);
+        socket.emit('replay.state', player.state);
+        log.debug('Client rattaché au rejeu', {
+          socketId: socket.id,
+          sessionId: parsed.data.sessionId,
+          mode: parsed.data.mode,
+        });
+      } catch (error) {
+        log.error('Échec du chargement du rejeu', { error: toError(error), sessionId: parsed.data.sessionId });
+        socket.emit('replay.error', { error: 'FAILED_TO_LOAD_REPLAY' });
+      }
+    });
+
+    socket.on('replay.leave', () => {
+      void leave();
+    });
+
+    socket.on('replay.play', () => withControl((player) => player.play()));
+    socket.on('replay.pause', () => withControl((player) => player.pause()));
+    socket.on('replay.speed', (payload: unknown) => {
+      const parsed = replaySpeedSchema.safeParse((payload as { speed?: unknown } | null)?.speed);
+      if (!parsed.success) {
+        socket.emit('replay.error', { error: 'INVALID_REPLAY_SPEED', allowed: REPLAY_SPEEDS });
+        return;
+      }
+      withControl((player) => player.setSpeed(parsed.data));
+    });
+    socket.on('replay.seek', (payload: unknown) => {
+      const parsed = replaySeekSchema.safeParse(payload);
+      if (!parsed.success) {
+        socket.emit('replay.error', { error: 'INVALID_REPLAY_POSITION' });
+        return;
+      }
+      withControl((player) => player.seek(parsed.data.positionMs));
+    });
+
+    socket.on('disconnect', () => {
+      void leave();
+    });
+  });
+}
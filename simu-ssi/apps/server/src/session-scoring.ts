@@ -0,0 +1,258 @@
+import {
+  attributeActions,
+  defaultRubric,
+  evaluateRubric,
+  type ScoreBreakdown,
+  type ScoringEvent,
+  type ScoringRubric,
+} from '@simu-ssi/scoring';
+import {
+  scenarioRubricSchema,
+  type SessionScore,
+  type SessionScoreItem,
+} from '@simu-ssi/sdk';
+import { prisma } from './prisma';
+import { createLogger, toError } from './logger';
+import { toSimulatedTimeline } from './session-replay';
+
+const log = createLogger('SessionScoring');
+
+interface ScoreRow {
+  id: number;
+  sessionId: string;
+  rubricJson: string;
+  value: number;
+  comments: string | null;
+  user: { id: string; fullName: string; email: string | null; role: string } | null;
+}
+
+interface EventLogRow {
+  id: number;
+  ts: Date;
+  source: string;
+  zoneId: string | null;
+  payloadJson: string | null;
+  actorId?: string | null;
+}
+
+function parsePayload(json: string | null): Record<string, unknown> | null {
+  if (!json) {
+    return null;
+  }
+  try {
+    const value = JSON.parse(json);
+    return typeof value === 'object' && value !== null ? (value as Record<string, unknown>) : null;
+  } catch (error) {
+    log.error("Échec de l'analyse du JSON de l'événement", { error: toError(error) });
+    return null;
+  }
+}
+
+/**
+ * Convertit une ligne du journal en événement de notation : code d'événement du domaine
+ * (`details.event`) ou, à défaut, action enregistrée par le serveur (`action`). L'événement est
+ * daté en temps simulé lorsque `simulatedMs` est fourni, à l'heure d'enregistrement sinon.
+ */
+export function toScoringEvent(row: EventLogRow, simulatedMs?: number): ScoringEvent | null {
+  const payload = parsePayload(row.payloadJson);
+  const type =
+    typeof payload?.event === 'string'
+      ? payload.event
+      : typeof payload?.action === 'string'
+      ? payload.action
+      : undefined;
+  if (!type) {
+    return null;
+  }
+  const zoneId = row.zoneId ?? (typeof payload?.zoneId === 'string' ? payload.zoneId : undefined);
+  return {
+    id: row.id.toString(10),
+    ts: simulatedMs ?? row.ts.getTime(),
+    type,
+    source: row.source,
+    zoneId: zoneId?.trim().toUpperCase() || undefined,
+    actorId: row.actorId ?? undefined,
+    payload: payload ?? undefined,
+  };
+}
+
+/**
+ * Grille du dernier scénario lancé pendant la session, ou grille standard
+ * lorsque la session n'a pas joué de scénario doté d'une grille.
+ */
+async function resolveSessionRubric(rows: EventLogRow[]): Promise<ScoringRubric> {
+  const scenarioId = rows
+    .map((row) => parsePayload(row.payloadJson))
+    .filter((payload) => payload?.action === 'scenario-run' && typeof payload.scenarioId === 'string')
+    .map((payload) => payload?.scenarioId as string)
+    .pop();
+  if (!scenarioId) {
+    return defaultRubric;
+  }
+  const record = await prisma.scenario.findUnique({ where: { id: scenarioId } });
+  if (!record) {
+    log.warn('Scénario de la session introuvable, grille standard appliquée', { scenarioId });
+    return defaultRubric;
+  }
+  const payload = parsePayload(record.json);
+  const parsed = scenarioRubricSchema.safeParse(payload?.rubric);
+  if (!parsed.success) {
+    log.warn('Grille de scénario invalide, grille standard appliquée', {
+      scenarioId,
+      error: parsed.error.message,
+    });
+    return defaultRubric;
+  }
+  if (!parsed.data) {
+    return defaultRubric;
+  }
+  return {
+    id: record.id,
+    name: parsed.data.name ?? record.name,
+    rules: parsed.data.rules,
+  };
+}
+
+/** Part de chaque participant identifié, accompagnée de son nom pour le rapport et l'API. */
+async function describeActors(events: ScoringEvent[], rubric: ScoringRubric) {
+  const contributions = attributeActions(events, rubric);
+  if (contributions.length === 0) {
+    return [];
+  }
+  const users = await prisma.user.findMany({
+    where: { id: { in: contributions.map((contribution) => contribution.actorId) } },
+    select: { id: true, fullName: true },
+  });
+  const names = new Map(users.map((user) => [user.id, user.fullName]));
+  return contributions.map((contribution) => ({
+    ...contribution,
+    fullName: names.get(contribution.actorId) ?? null,
+  }));
+}
+
+/**
+ * Note la session à partir de son journal d'événements et enregistre un `Score`
+ * automatique (sans évaluateur) contenant le détail de la grille appliquée et la
+ * répartition des actions entre les apprenants.
+ */
+export async function scoreSession(sessionId: string): Promise<ScoreBreakdown | null> {
+  try {
+    const rows: EventLogRow[] = await prisma.eventLog.findMany({
+      where: { sessionId },
+      orderBy: [{ ts: 'asc' }, { id: 'asc' }],
+    });
+    const rubric = await resolveSessionRubric(rows);
+    // Les délais de réaction se mesurent sur l'horloge de l'exercice (vitesse, pas à pas).
+    const timeline = toSimulatedTimeline(rows);
+    const events = rows
+      .map((row, index) => toScoringEvent(row, timeline[index]))
+      .filter((event): event is ScoringEvent => event !== null);
+    const breakdown = evaluateRubric(events, rubric);
+    const actors = await describeActors(events, rubric);
+    await prisma.score.create({
+      data: {
+        sessionId,
+        rubricJson: JSON.stringify({ origin: 'AUTO', ...breakdown, actors }),
+        value: breakdown.value,
+      },
+    });
+    log.info('Session notée automatiquement', {
+      sessionId,
+      rubricId: rubric.id,
+      value: breakdown.value,
+      eventCount: events.length,
+      actorCount: actors.length,
+    });
+    return breakdown;
+  } catch (error) {
+    log.error('Échec de la notation automatique de la session', { sessionId, error: toError(error) });
+    return null;
+  }
+}
+
+/** Note globale sur 100 d'une évaluation formateur, pondérée par le poids des critères. */
+export function computeScoreValue(items: SessionScoreItem[]): number {
+  const totalWeight = items.reduce((acc, item) => acc + item.weight, 0);
+  if (totalWeight === 0) {
+    return 0;
+  }
+  const rawScore = items.reduce((acc, item) => acc + item.score * item.weight, 0);
+  return Math.round((rawScore / totalWeight) * 1000) / 10;
+}
+
+/** Grille stockée dans `Score.rubricJson` pour une évaluation formateur. */
+export function buildManualRubricJson(rubricName: string | undefined, items: SessionScoreItem[]): string {
+  return JSON.stringify({ origin: 'MANUAL', rubricName: rubricName ?? null, rules: items });
+}
+
+/**
+ * Présente un `Score` sous la forme exposée par l'API : les notes automatiques
+ * restituent le détail de leur grille, les critères inapplicables ayant une note `null`.
+ */
+export function serializeSessionScore(row: ScoreRow): SessionScore {
+  const rubric = parsePayload(row.rubricJson);
+  const rules = Array.isArray(rubric?.rules) ? (rubric.rules as unknown[]) : [];
+  const items = rules.flatMap((rule) => {
+    if (!rule || typeof rule !== 'object') {
+      return [];
+    }
+    const { id, description, weight, score, comment, feedback } = rule as Record<string, unknown>;
+    if (typeof id !== 'string' || typeof description !== 'string' || typeof weight !== 'number') {
+      return [];
+    }
+    const note = typeof comment === 'string' ? comment : undefined;
+    const automaticFeedback =
+      typeof feedback === 'string' && typeof score === 'number' && score < 1 ? feedback : undefined;
+    return [
+      {
+        id,
+        description,
+        weight,
+        score: typeof score === 'number' ? score : null,
+        comment: note ?? automaticFeedback,
+      },
+    ];
+  });
+  return {
+    id: row.id,
+    sessionId: row.sessionId,
+    origin: rubric?.origin === 'AUTO' ? 'AUTO' : 'MANUAL',
+    rubricName: typeof rubric?.rubricName === 'string' ? rubric.rubricName : null,
+    value: row.value,
+    comments: row.comments,
+    evaluator: row.user
+      ? {
+          id: row.user.id,
+          fullName: row.user.fullName,
+          email: row.user.email,
+          role: row.user.role === 'TRAINER' ? 'TRAINER' : 'TRAINEE',
+        }
+      : null,
+    items,
+    actors: parseActors(rubric?.actors),
+  };
+}
+
+function parseActors(value: unknown): SessionScore['actors'] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value.flatMap((entry) => {
+    if (!entry || typeof entry !== 'object') {
+      return [];
+    }
+    const { actorId, fullName, actionCount, responseCount, violationCount } = entry as Record<string, unknown>;
+    if (typeof actorId !== 'string') {
+      return [];
+    }
+    return [
+      {
+        actorId,
+        fullName: typeof fullName === 'string' ? fullName : null,
+        actionCount: typeof actionCount === 'number' ? actionCount : 0,
+        responseCount: typeof responseCount === 'number' ? responseCount : 0,
+        violationCount: typeof violationCount === 'number' ? violationCount : 0,
+      },
+    ];
+  });
+}
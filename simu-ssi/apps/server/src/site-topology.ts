@@ -0,0 +1,139 @@
+import {
+  buildDasDevices,
+  buildDetectionStrategies,
+  buildZoneHierarchy,
+  type DomainConfig,
+} from '@simu-ssi/domain-ssi';
+import { detectionStrategySchema, siteTopologySchema, type SiteTopology } from '@simu-ssi/sdk';
+import { prisma } from './prisma';
+import { createLogger, toError } from './logger';
+
+const log = createLogger('SiteTopology');
+
+/** Part de la configuration du domaine qui découle de la topologie du site. */
+export type DomainTopologyConfig = Required<
+  Pick<DomainConfig, 'zoneHierarchy' | 'dasDevices' | 'detectionStrategies'>
+>;
+
+/**
+ * Correspondances ZD → ZA/ZS, DAS en service et stratégies de détection d'une topologie ; une
+ * topologie absente donne une configuration vide, où chaque ZD est sa propre ZA et ZS.
+ */
+export function buildDomainTopologyConfig(topology: SiteTopology | null): DomainTopologyConfig {
+  return {
+    zoneHierarchy: buildZoneHierarchy(topology?.zones ?? []),
+    dasDevices: buildDasDevices(topology?.devices ?? []),
+    detectionStrategies: buildDetectionStrategies(topology?.zones ?? []),
+  };
+}
+
+/** Topologie de la salle par défaut, lue dans les tables `Zone` et `Device` avec le plan du site. */
+export async function loadDefaultSiteTopology(): Promise<SiteTopology> {
+  const [zones, devices, config] = await Promise.all([
+    prisma.zone.findMany({ orderBy: { label: 'asc' } }),
+    prisma.device.findMany({ orderBy: { id: 'asc' } }),
+    prisma.siteConfig.findUnique({ where: { id: 1 } }),
+  ]);
+  const payload = formatTopologyResponse(zones, devices, {
+    name: config?.planName ?? undefined,
+    image: config?.planImage ?? undefined,
+    notes: config?.planNotes ?? undefined,
+  });
+  return siteTopologySchema.parse(payload);
+}
+
+export function formatTopologyResponse(
+  zones: Array<{
+    id: string;
+    label: string;
+    kind: string;
+    alarmZoneId: string | null;
+    safetyZoneIdsJson: string | null;
+    detectionStrategy?: string | null;
+    verificationDelayMs?: number | null;
+  }>,
+  devices: Array<{
+    id: string;
+    kind: string;
+    zoneId: string | null;
+    label: string | null;
+    propsJson: string | null;
+    outOfService: boolean;
+  }>,
+  plan?: { name?: string; image?: string; notes?: string },
+) {
+  const planPayload = plan?.image
+    ? {
+        image: plan.image,
+        name: plan.name ?? undefined,
+        notes: plan.notes ?? undefined,
+      }
+    : undefined;
+  return {
+    plan: planPayload,
+    zones: zones.map((zone) => ({
+      id: zone.id,
+      label: zone.label,
+      kind: zone.kind,
+      alarmZoneId: zone.alarmZoneId ?? undefined,
+      safetyZoneIds: parseSafetyZoneIds(zone.safetyZoneIdsJson),
+      detectionStrategy: parseDetectionStrategy(zone.detectionStrategy),
+      verificationDelayMs: zone.verificationDelayMs ?? undefined,
+    })),
+    devices: devices.map((device) => {
+      const parsedProps = parseDeviceProps(device.propsJson);
+      const persistedLabel = typeof device.label === 'string' ? device.label.trim() : '';
+      const parsedLabel =
+        typeof parsedProps?.label === 'string' ? String(parsedProps.label).trim() : '';
+      const label =
+        persistedLabel.length > 0
+          ? persistedLabel
+          : parsedLabel.length > 0
+            ? parsedLabel
+            : undefined;
+      return {
+        id: device.id,
+        kind: device.kind,
+        zoneId: device.zoneId ?? undefined,
+        label,
+        props: parsedProps ?? undefined,
+        outOfService: device.outOfService,
+      };
+    }),
+  };
+}
+
+function parseDetectionStrategy(value: string | null | undefined) {
+  const parsed = detectionStrategySchema.safeParse(value);
+  return parsed.success ? parsed.data : undefined;
+}
+
+function parseSafetyZoneIds(json: string | null): string[] | undefined {
+  if (!json) {
+    return undefined;
+  }
+  try {
+    const value = JSON.parse(json);
+    return Array.isArray(value)
+      ? value.filter((id): id is string => typeof id === 'string')
+      : undefined;
+  } catch (error) {
+    log.error("Échec de l'analyse des zones de sécurité d'une zone", {
+      error: toError(error),
+    });
+    return undefined;
+  }
+}
+
+function parseDeviceProps(json: string | null): Record<string, unknown> | undefined {
+  if (!json) {
+    return undefined;
+  }
+  try {
+    const value = JSON.parse(json);
+    return typeof value === 'object' && value !== null ? (value as Record<string, unknown>) : undefined;
+  } catch (error) {
+    log.error("Échec de l'analyse du JSON des attributs de dispositif", { error: toError(error) });
+    return undefined;
+  }
+}
@@ -1,48 +1,112 @@
-import { createSsiDomain, DomainSnapshot } from '@simu-ssi/domain-ssi';
+import {
+  createSimulationClock,
+  createSsiDomain,
+  isDomainAtRest,
+  type ControllableClock,
+  DomainSnapshot,
+} from '@simu-ssi/domain-ssi';
+import { DEFAULT_ROOM_ID, type SiteTopology } from '@simu-ssi/sdk';
 import { prisma } from './prisma';
 import { createLogger, toError } from './logger';
+import { currentActorId, detachActorFromTimers } from './actor-context';
+import {
+  loadDomainJournal,
+  markReplayOrigin,
+  reconcilePersistedState,
+  replayDomainJournal,
+  startDomainCheckpoints,
+} from './domain-recovery';
+import { buildDomainTopologyConfig } from './site-topology';
 
 const log = createLogger('DomainState');
 
 export interface DomainContextOptions {
+  /** Salle dont le domaine rejoue et alimente le journal ; la salle par défaut si absent. */
+  roomId?: string;
   getActiveSessionId?: () => string | null;
+  clock?: ControllableClock;
+  /** Topologie enregistrée de la salle : ses ZA/ZS, DAS et stratégies de détection valent dès le rejeu. */
+  loadTopology?: () => Promise<SiteTopology | null>;
 }
 
 export interface DomainContext {
   snapshot(): DomainSnapshot;
   domain: ReturnType<typeof createSsiDomain>;
+  clock: ControllableClock;
   refreshConfig(): Promise<void>;
 }
 
 export async function createDomainContext(options: DomainContextOptions = {}): Promise<DomainContext> {
+  const roomId = options.roomId ?? DEFAULT_ROOM_ID;
   const siteConfig = await prisma.siteConfig.findUniqueOrThrow({ where: { id: 1 } });
-  const domain = createSsiDomain({
-    evacOnDmDelayMs: siteConfig.evacOnDMDelayMs,
-    processAckRequired: siteConfig.processAckRequired,
-    evacOnDai: siteConfig.evacOnDAI,
-  });
+  const journal = await loadDomainJournal(roomId);
+  let topology: SiteTopology | null = null;
+  try {
+    topology = options.loadTopology ? await options.loadTopology() : null;
+  } catch (error) {
+    log.error("Échec du chargement de la topologie avant le rejeu du journal", { roomId, error: toError(error) });
+  }
+  // L'horloge démarre au premier événement journalisé : le rejeu la fait avancer jusqu'au point de reprise.
+  // Ses échéances sont des événements automatiques, jamais attribués à l'auteur de la requête qui les arme.
+  const clock = detachActorFromTimers(
+    options.clock ?? createSimulationClock({ mode: 'step', origin: journal.origin }),
+  );
+  const domain = createSsiDomain(
+    {
+      evacOnDmDelayMs: siteConfig.evacOnDMDelayMs,
+      processAckRequired: siteConfig.processAckRequired,
+      evacOnDai: siteConfig.evacOnDAI,
+      ...buildDomainTopologyConfig(topology),
+    },
+    { clock },
+  );
 
   log.info("Contexte de domaine initialisé", {
+    roomId,
     evacOnDmDelayMs: siteConfig.evacOnDMDelayMs,
     processAckRequired: siteConfig.processAckRequired,
     evacOnDai: siteConfig.evacOnDAI,
   });
 
+  // Le rejeu précède l'abonnement au journal : les événements reproduits ne sont pas réenregistrés.
+  const recovery = replayDomainJournal(domain, clock, journal);
+  log.info("État du domaine reconstruit depuis le journal", {
+    roomId,
+    replayedEvents: recovery.replayedEvents,
+    lastEventId: recovery.lastEventId,
+    resumedAt: new Date(recovery.resumedAt).toISOString(),
+    cmsiStatus: domain.snapshot.cmsi.status,
+  });
+  try {
+    await reconcilePersistedState(domain.snapshot, journal.checkpoint, roomId);
+  } catch (error) {
+    log.error("Échec du réalignement des états persistés", { roomId, error: toError(error) });
+  }
+
   domain.emitter.on('events.append', async (event) => {
+    // Évalué avant toute attente : l'état est encore celui qui suit la réinitialisation.
+    const replayOrigin = event.details?.event === 'SYSTEM_RESET' && isDomainAtRest(domain.snapshot);
     try {
       const zoneId =
         event.details && typeof event.details.zoneId === 'string' && event.details.zoneId.trim().length > 0
           ? event.details.zoneId.trim()
           : undefined;
-      await prisma.eventLog.create({
+      const row = await prisma.eventLog.create({
         data: {
+          roomId,
           source: event.source,
           message: event.message,
-          payloadJson: event.details ? JSON.stringify(event.details) : null,
+          // L'heure simulée permet de rejouer la session au rythme de l'horloge de l'exercice.
+          payloadJson: JSON.stringify({ ...event.details, simulatedAt: event.ts }),
+          simulatedAt: event.ts,
           zoneId,
+          actorId: currentActorId(),
           sessionId: options.getActiveSessionId ? options.getActiveSessionId() ?? undefined : undefined,
         },
       });
+      if (replayOrigin) {
+        await markReplayOrigin(row.id, roomId);
+      }
       log.debug("Événement de domaine enregistré", {
         source: event.source,
         hasDetails: Boolean(event.details),
@@ -55,8 +119,18 @@ export async function createDomainContext(options: DomainContextOptions = {}): P
     }
   });
 
+  // Le moteur de scénarios n'est pas restauré : une pause rejouée ne pourrait plus être levée et
+  // gèlerait toutes les temporisations. Elles reprennent là où la pause les avait arrêtées.
+  if (domain.snapshot.timersPausedAt !== undefined) {
+    log.warn("Temporisations gelées par un scénario en pause au redémarrage, reprise", { roomId });
+    domain.resumeTimers();
+  }
+
+  startDomainCheckpoints(domain, clock, roomId);
+
   return {
     domain,
+    clock,
     snapshot: () => domain.snapshot,
     async refreshConfig() {
       const config = await prisma.siteConfig.findUniqueOrThrow({ where: { id: 1 } });
@@ -66,6 +140,7 @@ export async function createDomainContext(options: DomainContextOptions = {}): P
         evacOnDai: config.evacOnDAI,
       });
       log.info("Configuration du domaine rafraîchie", {
+        roomId,
         evacOnDmDelayMs: config.evacOnDMDelayMs,
         processAckRequired: config.processAckRequired,
         evacOnDai: config.evacOnDAI,
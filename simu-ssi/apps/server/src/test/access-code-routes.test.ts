@@ -0,0 +1,241 @@
+import request from 'supertest';
+import { createHash } from 'node:crypto';
+
+import { hashAccessCode, verifyAccessCodeHash } from '../access-codes';
+import { createApp, createDomainContext, createSessionManagerStub } from './http-fixtures';
+import { getPrismaMock } from './prisma-mock';
+import { consoleRequest, signedRequest, trainerRequest, useTrainerAuth } from './trainer-auth';
+
+jest.mock('../prisma', () =>
+  jest.requireActual('./prisma-mock').mockPrismaModule({
+    zone: ['findMany'],
+    device: ['findMany'],
+    siteConfig: ['findUnique'],
+    traineeLayout: ['findUnique'],
+    eventLog: ['create'],
+    accessCode: ['findMany', 'findUnique', 'upsert', 'update'],
+    auditLog: ['create'],
+    permissionGrant: ['findMany'],
+    processAck: ['upsert'],
+  }),
+);
+
+const mockPrisma = getPrismaMock();
+
+const SESSION_ID = '2f6c1d8e-4b7a-4e3c-9d1f-0a5b6c7d8e9f';
+
+const activeSessionManager = () =>
+  createSessionManagerStub({ getActiveSessionId: jest.fn(() => SESSION_ID) });
+
+function loggedAttempts() {
+  return mockPrisma.eventLog.create.mock.calls.map(([{ data }]) => JSON.parse(data.payloadJson));
+}
+
+describe('access code routes', () => {
+  const updatedAt = new Date('2026-10-18T08:00:00Z');
+
+  useTrainerAuth();
+
+  beforeAll(() => {
+    process.env.SIMU_SSI_ACCESS_MAX_ATTEMPTS = '2';
+  });
+
+  afterAll(() => {
+    delete process.env.SIMU_SSI_ACCESS_MAX_ATTEMPTS;
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.zone.findMany.mockResolvedValue([]);
+    mockPrisma.device.findMany.mockResolvedValue([]);
+    mockPrisma.siteConfig.findUnique.mockResolvedValue(null);
+    mockPrisma.traineeLayout.findUnique.mockResolvedValue(null);
+    mockPrisma.eventLog.create.mockResolvedValue({});
+    mockPrisma.auditLog.create.mockResolvedValue({});
+    mockPrisma.permissionGrant.findMany.mockResolvedValue([]);
+    mockPrisma.processAck.upsert.mockResolvedValue({});
+    mockPrisma.accessCode.findMany.mockResolvedValue([
+      { level: 2, codeHash: hashAccessCode('2468'), expiresAt: null, updatedAt },
+    ]);
+  });
+
+  it('locks a station out after repeated wrong codes and logs every attempt', async () => {
+    const app = await createApp(createDomainContext(), activeSessionManager());
+    const verify = (code: string, stationId: string) =>
+      request(app).post('/api/access/verify').set('X-Station-Id', stationId).send({ code, stationId });
+
+    const first = await verify('1111', 'poste-a');
+    expect(first.body).toEqual({
+      level: null,
+      allowed: false,
+      label: 'Code invalide — niveau courant conservé.',
+      remainingAttempts: 1,
+    });
+    // Changer d'identifiant de poste à chaque essai ne relance pas le compteur d'échecs.
+    const second = await verify('2222', 'poste-b');
+    expect(second.status).toBe(423);
+    expect(second.body).toMatchObject({ allowed: false, lockedUntil: expect.any(String) });
+    expect(second.body.label).toContain('Poste verrouillé pendant 5 min');
+
+    const rotated = await verify('2468', 'poste-c');
+    expect(rotated.status).toBe(423);
+    expect(rotated.body).toMatchObject({ level: null, allowed: false, lockedUntil: second.body.lockedUntil });
+
+    expect(loggedAttempts().map((payload) => [payload.reason, payload.stationId])).toEqual([
+      ['unknown-code', 'poste-a'],
+      ['unknown-code', 'poste-b'],
+      ['locked', 'poste-c'],
+    ]);
+    expect(mockPrisma.eventLog.create).toHaveBeenLastCalledWith({
+      data: expect.objectContaining({ source: 'TRAINEE', roomId: 'default', sessionId: SESSION_ID }),
+    });
+    expect(JSON.stringify(mockPrisma.eventLog.create.mock.calls)).not.toContain('2468');
+  });
+
+  it('requires the keypad level for station commands and logs denials', async () => {
+    const app = await createApp(createDomainContext(), activeSessionManager());
+    const station = (req: request.Test) => req.set('X-Station-Id', 'poste-a');
+
+    const denied = await station(request(app).post('/api/sdi/dai/ZF1/reset')).send();
+    expect(denied.status).toBe(403);
+    expect(denied.body).toEqual({ error: 'ACCESS_LEVEL_REQUIRED', requiredLevel: 2, level: 1 });
+    expect(loggedAttempts()).toEqual([
+      { action: 'access-level-denied', command: 'dai.reset', requiredLevel: 2, level: 1 },
+    ]);
+    const silenced = await station(request(app).post('/api/uga/silence')).send();
+    expect(silenced.status).toBe(202);
+
+    // Le niveau est accordé au poste de l'en-tête, celui dont les commandes sont vérifiées.
+    const mismatched = await station(request(app).post('/api/access/verify')).send({
+      code: '2468',
+      stationId: 'poste-b',
+    });
+    expect(mismatched.status).toBe(400);
+    expect(mismatched.body).toEqual({ error: 'STATION_MISMATCH' });
+
+    const granted = await station(request(app).post('/api/access/verify')).send({ code: '2468' });
+    expect(granted.body).toMatchObject({ level: 2, allowed: true, expiresAt: expect.any(String) });
+    const reset = await station(request(app).post('/api/sdi/dai/ZF1/reset')).send();
+    expect(reset.status).toBe(200);
+    const otherStation = await request(app).post('/api/sdi/dai/ZF1/reset').set('X-Station-Id', 'poste-b').send();
+    expect(otherStation.status).toBe(403);
+
+    const expiresAt = new Date(granted.body.expiresAt).getTime();
+    const now = jest.spyOn(Date, 'now').mockReturnValue(expiresAt + 1);
+    const expired = await station(request(app).get('/api/access/level'));
+    now.mockRestore();
+    expect(expired.body).toEqual({ level: 1, expiresAt: null });
+
+    await station(request(app).post('/api/access/verify')).send({ code: '2468' });
+    await station(request(app).post('/api/access/verify')).send({ code: '' });
+    const locked = await station(request(app).post('/api/system/reset')).send();
+    expect(locked.status).toBe(403);
+  });
+
+  it('gates every command but those of an authenticated trainer once auth is enabled', async () => {
+    process.env.SIMU_SSI_AUTH_REQUIRED = 'true';
+    mockPrisma.permissionGrant.findMany.mockResolvedValue([
+      { scope: '*', permission: 'system.reset', rolesJson: JSON.stringify(['TRAINER', 'TRAINEE']) },
+    ]);
+    try {
+      const app = await createApp(createDomainContext(), activeSessionManager());
+
+      const anonymous = await request(app).post('/api/system/reset').send();
+      expect(anonymous.status).toBe(401);
+      // Un jeton apprenant sans en-tête de poste reste soumis au niveau du clavier.
+      const trainee = await signedRequest(app, 'TRAINEE').post('/api/system/reset').send();
+      expect(trainee.status).toBe(403);
+      expect(trainee.body).toEqual({ error: 'ACCESS_LEVEL_REQUIRED', requiredLevel: 2, level: 1 });
+
+      const trainer = await trainerRequest(app).post('/api/sdi/dai/ZF1/reset').send();
+      expect(trainer.status).toBe(200);
+
+      // Le niveau saisi suit la session qui l'a obtenu : reprendre l'identifiant du poste ne suffit pas.
+      const onStation = (userId: string) => {
+        const client = signedRequest(app, 'TRAINEE', userId);
+        return {
+          post: (url: string) => client.post(url).set('X-Station-Id', 'poste-a'),
+        };
+      };
+      const granted = await onStation('trainee-a').post('/api/access/verify').send({ code: '2468' });
+      expect(granted.body).toMatchObject({ level: 2, allowed: true });
+      const owner = await onStation('trainee-a').post('/api/system/reset').send();
+      expect(owner.status).toBe(200);
+      const impostor = await onStation('trainee-b').post('/api/system/reset').send();
+      expect(impostor.status).toBe(403);
+      expect(impostor.body).toEqual({ error: 'ACCESS_LEVEL_REQUIRED', requiredLevel: 2, level: 1 });
+
+      mockPrisma.eventLog.create.mockRejectedValueOnce(new Error('database unavailable'));
+      const unlogged = await signedRequest(app, 'TRAINEE').post('/api/system/reset').send();
+      expect(unlogged.status).toBe(500);
+    } finally {
+      delete process.env.SIMU_SSI_AUTH_REQUIRED;
+    }
+  });
+
+  it('leaves the trainer console ungated while auth is disabled', async () => {
+    const app = await createApp(createDomainContext(), activeSessionManager());
+
+    const fromConsole = await consoleRequest(app).post('/api/sdi/dai/ZF1/reset').send();
+    expect(fromConsole.status).toBe(200);
+    // Un appel direct qui ne s'annonce ni comme console ni comme poste reste soumis au clavier.
+    const anonymous = await request(app).post('/api/system/reset').send();
+    expect(anonymous.status).toBe(403);
+    expect(anonymous.body).toEqual({ error: 'ACCESS_LEVEL_REQUIRED', requiredLevel: 2, level: 1 });
+    const station = await request(app).post('/api/sdi/dai/ZF1/reset').set('X-Station-Id', 'poste-a').send();
+    expect(station.status).toBe(403);
+  });
+
+  it('refuses expired codes and upgrades legacy hashes on use', async () => {
+    const app = await createApp(createDomainContext(), activeSessionManager());
+    const legacyHash = createHash('sha256').update('1357', 'utf8').digest('hex');
+    mockPrisma.accessCode.findMany.mockResolvedValue([
+      { level: 2, codeHash: hashAccessCode('2468'), expiresAt: new Date(Date.now() - 1000), updatedAt },
+      { level: 3, codeHash: legacyHash, expiresAt: null, updatedAt },
+    ]);
+
+    const expired = await request(app).post('/api/access/verify').send({ code: '2468' });
+    // Rien ne distingue un code expiré d'un code inconnu, ni la réponse ni le journal de session.
+    expect(expired.body).toEqual({
+      level: null,
+      allowed: false,
+      label: 'Code invalide — niveau courant conservé.',
+      remainingAttempts: 1,
+    });
+    expect(loggedAttempts()).toEqual([expect.objectContaining({ reason: 'unknown-code', level: null })]);
+
+    const legacy = await request(app).post('/api/access/verify').send({ code: '1357' });
+    expect(legacy.body).toMatchObject({ level: 3, allowed: false });
+    const { data } = mockPrisma.accessCode.update.mock.calls[0][0];
+    expect(data.codeHash).toMatch(/^scrypt:v1:/);
+    expect(verifyAccessCodeHash('1357', data.codeHash)).toBe(true);
+  });
+
+  it('detects codes reused across levels and stores the expiry date', async () => {
+    const app = await createApp(createDomainContext(), activeSessionManager());
+    const duplicate = await request(app).put('/api/access/codes/3').send({ code: '2468' });
+    expect(duplicate.status).toBe(409);
+    expect(duplicate.body).toEqual({ error: 'CODE_ALREADY_IN_USE' });
+
+    const expiresAt = '2099-01-01T00:00:00.000Z';
+    mockPrisma.accessCode.findUnique.mockResolvedValue(null);
+    mockPrisma.accessCode.upsert.mockImplementation(async ({ create }) => ({ ...create, updatedAt }));
+    const updated = await request(app).put('/api/access/codes/3').send({ code: '9753', expiresAt });
+    expect(updated.status).toBe(200);
+    expect(updated.body.code).toEqual({
+      level: 3,
+      code: '••••',
+      configured: true,
+      updatedAt: updatedAt.toISOString(),
+      expiresAt,
+    });
+    const { create } = mockPrisma.accessCode.upsert.mock.calls[0][0];
+    expect(create.expiresAt).toEqual(new Date(expiresAt));
+    expect(verifyAccessCodeHash('9753', create.codeHash)).toBe(true);
+
+    const past = await request(app)
+      .put('/api/access/codes/3')
+      .send({ code: '9753', expiresAt: '2020-01-01T00:00:00.000Z' });
+    expect(past.status).toBe(400);
+  });
+});
@@ -0,0 +1,59 @@
+import { runAsActor } from '../actor-context';
+import { createDomainContext } from '../state';
+
+jest.mock('../prisma', () => ({
+  prisma: {
+    siteConfig: { findUniqueOrThrow: jest.fn() },
+    eventLog: { findMany: jest.fn(), findFirst: jest.fn(), create: jest.fn() },
+    domainCheckpoint: { findUnique: jest.fn(), upsert: jest.fn(), updateMany: jest.fn() },
+    manualCallPoint: { updateMany: jest.fn(), create: jest.fn() },
+    processAck: { upsert: jest.fn() },
+  },
+}));
+
+const { prisma: mockPrisma } = jest.requireMock('../prisma') as {
+  prisma: {
+    siteConfig: { findUniqueOrThrow: jest.Mock };
+    eventLog: { findMany: jest.Mock; findFirst: jest.Mock; create: jest.Mock };
+    domainCheckpoint: { findUnique: jest.Mock; upsert: jest.Mock; updateMany: jest.Mock };
+    manualCallPoint: { updateMany: jest.Mock; create: jest.Mock };
+    processAck: { upsert: jest.Mock };
+  };
+};
+
+function loggedActors(): Record<string, string | undefined> {
+  const actors: Record<string, string | undefined> = {};
+  for (const [{ data }] of mockPrisma.eventLog.create.mock.calls) {
+    actors[JSON.parse(data.payloadJson).event] = data.actorId;
+  }
+  return actors;
+}
+
+describe('actor context', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.siteConfig.findUniqueOrThrow.mockResolvedValue({
+      evacOnDMDelayMs: 60000,
+      processAckRequired: true,
+      evacOnDAI: false,
+    });
+    mockPrisma.eventLog.findMany.mockResolvedValue([]);
+    mockPrisma.eventLog.findFirst.mockResolvedValue(null);
+    mockPrisma.eventLog.create.mockResolvedValue({ id: 1 });
+    mockPrisma.domainCheckpoint.findUnique.mockResolvedValue(null);
+    mockPrisma.domainCheckpoint.upsert.mockResolvedValue({});
+  });
+
+  it('leaves the events fired by clock timers unattributed', async () => {
+    const context = await createDomainContext();
+
+    runAsActor('trainee-a', () => context.domain.activateDm('ZF1'));
+    runAsActor('trainer-1', () => context.clock.advance(60000));
+
+    expect(context.snapshot().cmsi.status).toBe('EVAC_ACTIVE');
+    const actors = loggedActors();
+    expect(actors.DM_LATCHED).toBe('trainee-a');
+    expect('AUTOMATIC_EVAC_STARTED' in actors).toBe(true);
+    expect(actors.AUTOMATIC_EVAC_STARTED).toBeUndefined();
+  });
+});
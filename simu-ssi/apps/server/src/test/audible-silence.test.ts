@@ -0,0 +1,51 @@
+import request from 'supertest';
+import { createSimulationClock } from '@simu-ssi/domain-ssi';
+
+import { createApp, createDomainContext } from './http-fixtures';
+import { getPrismaMock } from './prisma-mock';
+
+jest.mock('../prisma', () =>
+  jest.requireActual('./prisma-mock').mockPrismaModule({
+    zone: ['findMany'],
+    device: ['findMany'],
+    siteConfig: ['findUnique'],
+    traineeLayout: ['findUnique'],
+    eventLog: ['create'],
+    permissionGrant: ['findMany'],
+  }),
+);
+
+const mockPrisma = getPrismaMock();
+
+describe('audible silence', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.zone.findMany.mockResolvedValue([]);
+    mockPrisma.device.findMany.mockResolvedValue([]);
+    mockPrisma.siteConfig.findUnique.mockResolvedValue(null);
+    mockPrisma.traineeLayout.findUnique.mockResolvedValue(null);
+    mockPrisma.eventLog.create.mockResolvedValue({});
+    mockPrisma.permissionGrant.findMany.mockResolvedValue([]);
+  });
+
+  it('refuses to stop the evacuation signal before its minimum duration', async () => {
+    const clock = createSimulationClock({ mode: 'step' });
+    const app = await createApp(
+      createDomainContext({ clock, config: { evacOnDai: true, ugaMinSoundingMs: 60000 } }),
+    );
+
+    await request(app).post('/api/sdi/dai/ZF1/activate').send();
+    const local = await request(app).post('/api/uga/silence').send();
+    expect(local.status).toBe(202);
+
+    const refused = await request(app).post('/api/uga/silence').send();
+    expect(refused.status).toBe(409);
+    expect(refused.body).toEqual({ error: 'UGA_MIN_DURATION', silenceableAt: clock.now() + 60000 });
+
+    clock.advance(60000);
+    const silenced = await request(app).post('/api/uga/silence').send();
+    expect(silenced.status).toBe(202);
+    const state = await request(app).get('/api/state');
+    expect(state.body.ugaActive).toBe(false);
+  });
+});
@@ -0,0 +1,195 @@
+import request from 'supertest';
+
+import { createApp } from './http-fixtures';
+import { getPrismaMock } from './prisma-mock';
+
+jest.mock('../prisma', () =>
+  jest.requireActual('./prisma-mock').mockPrismaModule({
+    zone: ['findMany'],
+    device: ['findMany'],
+    siteConfig: ['findUnique', 'update'],
+    traineeLayout: ['findUnique'],
+    eventLog: ['create'],
+    auditLog: ['create', 'findMany'],
+    user: ['findUnique', 'findMany', 'create', 'update'],
+    authSession: ['findMany'],
+    permissionGrant: ['findMany'],
+  }),
+);
+
+const mockPrisma = getPrismaMock();
+
+const ADMIN_ID = '3c9e1a4b-7d2f-4e8a-9b6c-5d4e3f2a1b0c';
+
+describe('audit log', () => {
+  const siteConfig = { id: 1, evacOnDAI: false, evacOnDMDelayMs: 300000, processAckRequired: true };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.zone.findMany.mockResolvedValue([]);
+    mockPrisma.device.findMany.mockResolvedValue([]);
+    mockPrisma.siteConfig.findUnique.mockResolvedValue(siteConfig);
+    mockPrisma.traineeLayout.findUnique.mockResolvedValue(null);
+    mockPrisma.eventLog.create.mockResolvedValue({});
+    mockPrisma.auditLog.create.mockResolvedValue({});
+    mockPrisma.permissionGrant.findMany.mockResolvedValue([]);
+    mockPrisma.authSession.findMany.mockResolvedValue([]);
+  });
+
+  it('records the changed site configuration fields and their author', async () => {
+    const app = await createApp();
+    mockPrisma.siteConfig.update.mockImplementation(async ({ data }) => ({ ...siteConfig, ...data }));
+
+    const updated = await request(app)
+      .put('/api/config/site')
+      .set('X-Actor-Id', ADMIN_ID)
+      .send({ evacOnDAI: true, evacOnDMDelayMs: 300000, processAckRequired: true });
+    expect(updated.status).toBe(200);
+    expect(mockPrisma.auditLog.create).toHaveBeenCalledWith({
+      data: {
+        actorId: ADMIN_ID,
+        actorLabel: null,
+        action: 'config.site.update',
+        target: 'site',
+        roomId: null,
+        beforeJson: JSON.stringify({ evacOnDAI: false }),
+        afterJson: JSON.stringify({ evacOnDAI: true }),
+      },
+    });
+
+    mockPrisma.auditLog.create.mockClear();
+    await request(app)
+      .put('/api/config/site')
+      .send({ evacOnDAI: false, evacOnDMDelayMs: 300000, processAckRequired: true });
+    expect(mockPrisma.auditLog.create).not.toHaveBeenCalled();
+  });
+
+  it('never records user secrets', async () => {
+    const app = await createApp();
+    mockPrisma.user.findUnique.mockResolvedValue({ credentialHash: null });
+    mockPrisma.user.update.mockResolvedValue({
+      id: ADMIN_ID,
+      fullName: 'Alex Admin',
+      email: null,
+      role: 'TRAINER',
+      credentialHash: 'scrypt:v1:salt:key',
+    });
+
+    const response = await request(app).put(`/api/users/${ADMIN_ID}/credentials`).send({ secret: '48213579' });
+    expect(response.status).toBe(200);
+    const { data } = mockPrisma.auditLog.create.mock.calls[0][0];
+    expect(data).toMatchObject({
+      action: 'user.credentials.update',
+      target: ADMIN_ID,
+      beforeJson: JSON.stringify({ hasCredential: false }),
+      afterJson: JSON.stringify({ hasCredential: true }),
+    });
+    expect(JSON.stringify(data)).not.toContain('48213579');
+    expect(JSON.stringify(data)).not.toContain('scrypt');
+  });
+
+  it('records each user created or updated by an import', async () => {
+    const app = await createApp();
+    const existing = {
+      id: ADMIN_ID,
+      fullName: 'Alex Admin',
+      email: null,
+      role: 'TRAINER',
+      credentialHash: null,
+    };
+    mockPrisma.user.findUnique.mockImplementation(async ({ where }) =>
+      where.id === ADMIN_ID ? existing : null,
+    );
+    mockPrisma.user.update.mockImplementation(async ({ data }) => ({ ...existing, ...data }));
+    mockPrisma.user.create.mockImplementation(async ({ data }) => ({
+      id: 'user-9',
+      credentialHash: null,
+      ...data,
+    }));
+
+    const response = await request(app)
+      .post('/api/users/import')
+      .send({
+        users: [
+          { id: ADMIN_ID, fullName: 'Alex Administrateur', role: 'TRAINER' },
+          { fullName: 'Sam Stagiaire', email: 'sam@example.org', role: 'TRAINEE' },
+        ],
+      });
+    expect(response.body).toMatchObject({ created: 1, updated: 1, skipped: 0 });
+    expect(mockPrisma.auditLog.create.mock.calls.map(([{ data }]) => data)).toEqual([
+      expect.objectContaining({
+        action: 'user.import',
+        target: ADMIN_ID,
+        beforeJson: JSON.stringify({ fullName: 'Alex Admin' }),
+        afterJson: JSON.stringify({ fullName: 'Alex Administrateur' }),
+      }),
+      expect.objectContaining({
+        action: 'user.import',
+        target: 'user-9',
+        beforeJson: 'null',
+        afterJson: JSON.stringify({
+          id: 'user-9',
+          fullName: 'Sam Stagiaire',
+          email: 'sam@example.org',
+          role: 'TRAINEE',
+          hasCredential: false,
+        }),
+      }),
+    ]);
+  });
+
+  it('filters and pages audit entries', async () => {
+    const app = await createApp();
+    const createdAt = new Date('2026-10-18T08:00:00Z');
+    mockPrisma.auditLog.findMany.mockResolvedValue([
+      {
+        id: 12,
+        createdAt,
+        actorId: ADMIN_ID,
+        actorLabel: 'SIMU_SSI_API_TOKEN',
+        action: 'user.delete',
+        target: 'user-7',
+        roomId: null,
+        beforeJson: JSON.stringify({ fullName: 'Ancien compte' }),
+        afterJson: 'null',
+      },
+      { id: 11, createdAt, actorId: null, actorLabel: null, action: 'user.delete' },
+    ]);
+    mockPrisma.user.findMany.mockResolvedValue([{ id: ADMIN_ID, fullName: 'Alex Admin' }]);
+
+    const response = await request(app).get('/api/audit').query({
+      action: 'user.delete',
+      from: '2026-10-01T00:00:00Z',
+      limit: 1,
+    });
+    expect(response.status).toBe(200);
+    expect(mockPrisma.auditLog.findMany).toHaveBeenCalledWith({
+      where: expect.objectContaining({
+        action: 'user.delete',
+        createdAt: { gte: new Date('2026-10-01T00:00:00Z'), lte: undefined },
+      }),
+      orderBy: { id: 'desc' },
+      take: 2,
+    });
+    expect(response.body).toEqual({
+      entries: [
+        {
+          id: 12,
+          createdAt: createdAt.toISOString(),
+          actorId: ADMIN_ID,
+          actorName: 'Alex Admin',
+          actorLabel: 'SIMU_SSI_API_TOKEN',
+          action: 'user.delete',
+          target: 'user-7',
+          roomId: null,
+          before: { fullName: 'Ancien compte' },
+          after: null,
+        },
+      ],
+      nextCursor: 12,
+    });
+
+    const invalid = await request(app).get('/api/audit').query({ action: 'unknown' });
+    expect(invalid.status).toBe(400);
+  });
+});
@@ -0,0 +1,376 @@
+import request from 'supertest';
+
+import { restoreRevokedSessions } from '../auth-sessions';
+import { hashCredential, signAccessToken } from '../user-auth';
+import { createApp, createDomainContext, createSessionManagerStub } from './http-fixtures';
+import { getPrismaMock } from './prisma-mock';
+
+jest.mock('../prisma', () =>
+  jest.requireActual('./prisma-mock').mockPrismaModule({
+    zone: ['findMany'],
+    device: ['findMany'],
+    siteConfig: ['findUnique'],
+    traineeLayout: ['findUnique'],
+    eventLog: ['create'],
+    auditLog: ['create'],
+    user: ['findUnique', 'update', 'delete'],
+    authSession: ['create', 'findUnique', 'findMany', 'update', 'updateMany'],
+    session: ['count'],
+    score: ['count'],
+    permissionGrant: ['findMany', 'deleteMany', 'create'],
+    $transaction: [],
+  }),
+);
+
+const mockPrisma = getPrismaMock();
+
+const SESSION_ID = '8a0f3c52-52a4-4d4e-9c55-0b4f1e0d7a11';
+const TRAINER_ID = '5b1d7c2e-9a3f-4e6b-8c0d-1f2a3b4c5d6e';
+
+const activeSessionManager = () =>
+  createSessionManagerStub({ getActiveSessionId: jest.fn(() => SESSION_ID) });
+
+function auditEntries() {
+  return mockPrisma.auditLog.create.mock.calls.map(([{ data }]) => ({
+    action: data.action,
+    target: data.target,
+    actorLabel: data.actorLabel,
+    before: JSON.parse(data.beforeJson),
+    after: JSON.parse(data.afterJson),
+  }));
+}
+
+describe('user authentication routes', () => {
+  const trainer = {
+    id: TRAINER_ID,
+    fullName: 'Camille Formatrice',
+    email: 'camille@example.org',
+    role: 'TRAINER',
+    credentialHash: hashCredential('4821'),
+  };
+
+  beforeAll(() => {
+    process.env.SIMU_SSI_AUTH_REQUIRED = 'true';
+    process.env.SIMU_SSI_AUTH_SECRET = 'test-secret';
+  });
+
+  afterAll(() => {
+    delete process.env.SIMU_SSI_AUTH_REQUIRED;
+    delete process.env.SIMU_SSI_AUTH_SECRET;
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.zone.findMany.mockResolvedValue([]);
+    mockPrisma.device.findMany.mockResolvedValue([]);
+    mockPrisma.siteConfig.findUnique.mockResolvedValue(null);
+    mockPrisma.traineeLayout.findUnique.mockResolvedValue(null);
+    mockPrisma.eventLog.create.mockResolvedValue({});
+    mockPrisma.auditLog.create.mockResolvedValue({});
+    mockPrisma.user.findUnique.mockResolvedValue(trainer);
+    mockPrisma.authSession.create.mockImplementation(async ({ data }) => ({ id: 'auth-1', ...data }));
+    mockPrisma.authSession.update.mockResolvedValue({});
+    mockPrisma.permissionGrant.findMany.mockResolvedValue([]);
+    mockPrisma.$transaction.mockResolvedValue([]);
+  });
+
+  it('logs users in and attributes their commands', async () => {
+    const app = await createApp(createDomainContext(), activeSessionManager());
+
+    const rejected = await request(app).post('/api/auth/login').send({ email: trainer.email, secret: '0000' });
+    expect(rejected.status).toBe(401);
+    expect(rejected.body).toEqual({ error: 'INVALID_CREDENTIALS' });
+
+    const login = await request(app).post('/api/auth/login').send({ email: 'Camille@Example.org', secret: '4821' });
+    expect(login.status).toBe(200);
+    expect(mockPrisma.user.findUnique).toHaveBeenLastCalledWith({ where: { email: 'camille@example.org' } });
+    expect(login.body.user).toEqual({
+      id: TRAINER_ID,
+      fullName: trainer.fullName,
+      email: trainer.email,
+      role: 'TRAINER',
+      hasCredential: true,
+    });
+    expect(login.body.refreshToken).toEqual(expect.any(String));
+    expect(mockPrisma.authSession.create.mock.calls[0][0].data.refreshTokenHash).not.toBe(login.body.refreshToken);
+
+    const anonymous = await request(app).post('/api/sdi/dai/ZF1/activate').send();
+    expect(anonymous.status).toBe(401);
+
+    const authorization = `Bearer ${login.body.accessToken}`;
+    const activated = await request(app).post('/api/sdi/dai/ZF1/activate').set('Authorization', authorization).send();
+    expect(activated.status).toBe(202);
+    const silenced = await request(app).post('/api/uga/silence').set('Authorization', authorization).send();
+    expect(silenced.status).toBe(202);
+    expect(mockPrisma.eventLog.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        actorId: TRAINER_ID,
+        sessionId: SESSION_ID,
+        payloadJson: JSON.stringify({ action: 'uga-silence' }),
+      }),
+    });
+  });
+
+  it('locks an account out after repeated failed logins', async () => {
+    const app = await createApp(createDomainContext(), activeSessionManager());
+    const login = (secret: string) => request(app).post('/api/auth/login').send({ userId: TRAINER_ID, secret });
+
+    for (let attempt = 1; attempt < 5; attempt += 1) {
+      expect((await login('0000')).status).toBe(401);
+    }
+    const locked = await login('0000');
+    expect(locked.status).toBe(423);
+    expect(locked.body).toEqual({ error: 'LOGIN_LOCKED', lockedUntil: expect.any(String) });
+
+    const correct = await login('4821');
+    expect(correct.status).toBe(423);
+    expect(mockPrisma.authSession.create).not.toHaveBeenCalled();
+  });
+
+  it('counts failed logins per account whichever identifier is sent', async () => {
+    const app = await createApp(createDomainContext(), activeSessionManager());
+    const byId = () => request(app).post('/api/auth/login').send({ userId: TRAINER_ID, secret: '0000' });
+    const byEmail = () => request(app).post('/api/auth/login').send({ email: trainer.email, secret: '0000' });
+
+    for (const attempt of [byId, byEmail, byId, byEmail]) {
+      expect((await attempt()).status).toBe(401);
+    }
+    const locked = await byId();
+    expect(locked.status).toBe(423);
+    expect((await byEmail()).status).toBe(423);
+  });
+
+  it('rotates refresh tokens and revokes sessions on logout', async () => {
+    const app = await createApp(createDomainContext(), activeSessionManager());
+    const login = await request(app).post('/api/auth/login').send({ userId: TRAINER_ID, secret: '4821' });
+    const authSession = {
+      id: 'auth-1',
+      userId: TRAINER_ID,
+      refreshTokenHash: 'previous-hash',
+      revokedAt: null,
+      expiresAt: new Date(Date.now() + 60_000),
+      user: trainer,
+    };
+    mockPrisma.authSession.findUnique.mockResolvedValue(authSession);
+    mockPrisma.authSession.updateMany.mockResolvedValueOnce({ count: 1 });
+
+    const refreshed = await request(app).post('/api/auth/refresh').send({ refreshToken: login.body.refreshToken });
+    expect(refreshed.status).toBe(200);
+    expect(refreshed.body.refreshToken).not.toBe(login.body.refreshToken);
+    expect(mockPrisma.authSession.updateMany).toHaveBeenCalledWith({
+      where: { id: 'auth-1', refreshTokenHash: 'previous-hash', revokedAt: null },
+      data: { refreshTokenHash: expect.any(String) },
+    });
+
+    // Un renouvellement concurrent avec le même jeton perd l'écriture conditionnelle.
+    mockPrisma.authSession.updateMany.mockResolvedValueOnce({ count: 0 });
+    const raced = await request(app).post('/api/auth/refresh').send({ refreshToken: login.body.refreshToken });
+    expect(raced.status).toBe(401);
+    expect(raced.body).toEqual({ error: 'INVALID_REFRESH_TOKEN' });
+
+    const loggedOut = await request(app).post('/api/auth/logout').send({ refreshToken: refreshed.body.refreshToken });
+    expect(loggedOut.status).toBe(204);
+    expect(mockPrisma.authSession.update).toHaveBeenLastCalledWith({
+      where: { id: 'auth-1' },
+      data: { revokedAt: expect.any(Date) },
+    });
+
+    const revoked = await request(app)
+      .post('/api/sdi/dai/ZF1/activate')
+      .set('Authorization', `Bearer ${refreshed.body.accessToken}`)
+      .send();
+    expect(revoked.status).toBe(401);
+
+    mockPrisma.authSession.findUnique.mockResolvedValue({ ...authSession, revokedAt: new Date() });
+    const stale = await request(app).post('/api/auth/refresh').send({ refreshToken: refreshed.body.refreshToken });
+    expect(stale.status).toBe(401);
+    expect(stale.body).toEqual({ error: 'INVALID_REFRESH_TOKEN' });
+  });
+
+  it('keeps refusing the access tokens of sessions revoked before a restart', async () => {
+    const exp = Math.floor(Date.now() / 1000) + 600;
+    const tokenFor = (sid: string) =>
+      `Bearer ${signAccessToken({ sub: TRAINER_ID, role: 'TRAINER', sid, exp }, 'test-secret')}`;
+    mockPrisma.authSession.findMany.mockResolvedValue([{ id: 'auth-closed', revokedAt: new Date() }]);
+
+    expect(await restoreRevokedSessions(900)).toBe(1);
+    expect(mockPrisma.authSession.findMany).toHaveBeenCalledWith({
+      where: { revokedAt: { gt: expect.any(Date) } },
+      select: { id: true, revokedAt: true },
+    });
+    const app = await createApp(createDomainContext(), activeSessionManager());
+
+    const activate = (sid: string) =>
+      request(app).post('/api/sdi/dai/ZF1/activate').set('Authorization', tokenFor(sid)).send();
+    const revoked = await activate('auth-closed');
+    expect(revoked.status).toBe(401);
+    const open = await activate('auth-open');
+    expect(open.status).toBe(202);
+  });
+
+  describe('permission administration', () => {
+    beforeAll(() => {
+      process.env.SIMU_SSI_API_TOKENS = 'ADMIN:admin-token,TRAINEE:trainee-token';
+    });
+
+    afterAll(() => {
+      delete process.env.SIMU_SSI_API_TOKENS;
+    });
+
+    it('applies stored and updated grants to trainee commands', async () => {
+      mockPrisma.permissionGrant.findMany.mockResolvedValue([
+        { scope: '*', permission: 'uga.silence', rolesJson: JSON.stringify(['TRAINER', 'TRAINEE']) },
+      ]);
+      const app = await createApp(createDomainContext(), activeSessionManager());
+      const trainee = 'Bearer trainee-token';
+
+      const silenced = await request(app).post('/api/uga/silence').set('Authorization', trainee).send();
+      expect(silenced.status).toBe(202);
+      const denied = await request(app).post('/api/sdi/dm/ZF1/reset').set('Authorization', trainee).send();
+      expect(denied.status).toBe(403);
+
+      const forbidden = await request(app)
+        .put('/api/permissions')
+        .set('Authorization', trainee)
+        .send({ grants: { 'dm.reset': ['TRAINEE'] } });
+      expect(forbidden.status).toBe(403);
+
+      const updated = await request(app)
+        .put('/api/permissions')
+        .set('Authorization', 'Bearer admin-token')
+        .send({ grants: { 'dm.reset': ['TRAINER', 'TRAINEE'] } });
+      expect(updated.status).toBe(200);
+      expect(updated.body.site).toEqual({ 'dm.reset': ['TRAINER', 'TRAINEE'] });
+      expect(mockPrisma.permissionGrant.deleteMany).toHaveBeenCalledWith({ where: { scope: '*' } });
+      expect(mockPrisma.permissionGrant.create).toHaveBeenCalledWith({
+        data: { scope: '*', permission: 'dm.reset', rolesJson: JSON.stringify(['TRAINER', 'TRAINEE']) },
+      });
+      expect(auditEntries()).toEqual([
+        {
+          action: 'permissions.update',
+          target: '*',
+          actorLabel: 'SIMU_SSI_API_TOKENS[0]',
+          before: { 'uga.silence': ['TRAINER', 'TRAINEE'], 'dm.reset': null },
+          after: { 'uga.silence': null, 'dm.reset': ['TRAINER', 'TRAINEE'] },
+        },
+      ]);
+
+      // L'action est désormais autorisée : seul le niveau d'accès du poste reste à saisir.
+      const reset = await request(app).post('/api/sdi/dm/ZF1/reset').set('Authorization', trainee).send();
+      expect(reset.body).toMatchObject({ error: 'ACCESS_LEVEL_REQUIRED', requiredLevel: 2 });
+      const silencedAgain = await request(app).post('/api/uga/silence').set('Authorization', trainee).send();
+      expect(silencedAgain.status).toBe(403);
+    });
+
+    it('revokes the access tokens of demoted or deleted users', async () => {
+      const app = await createApp(createDomainContext(), activeSessionManager());
+      const admin = (req: request.Test) => req.set('Authorization', 'Bearer admin-token');
+      const loginAs = async (authSessionId: string) => {
+        mockPrisma.authSession.create.mockImplementationOnce(async ({ data }) => ({ id: authSessionId, ...data }));
+        mockPrisma.authSession.findMany.mockResolvedValue([{ id: authSessionId }]);
+        const login = await request(app).post('/api/auth/login').send({ userId: TRAINER_ID, secret: '4821' });
+        return (req: request.Test) => req.set('Authorization', `Bearer ${login.body.accessToken}`);
+      };
+      mockPrisma.authSession.updateMany.mockResolvedValue({ count: 1 });
+
+      const demotedTrainer = await loginAs('auth-demoted');
+      mockPrisma.user.update.mockResolvedValueOnce({ ...trainer, fullName: 'Camille F.' });
+      await admin(request(app).put(`/api/users/${TRAINER_ID}`)).send({ fullName: 'Camille F.' });
+      expect(mockPrisma.authSession.updateMany).not.toHaveBeenCalled();
+      const renamed = await demotedTrainer(request(app).post('/api/sdi/dai/ZF1/activate')).send();
+      expect(renamed.status).toBe(202);
+
+      mockPrisma.user.update.mockResolvedValueOnce({ ...trainer, role: 'TRAINEE' });
+      const demoted = await admin(request(app).put(`/api/users/${TRAINER_ID}`)).send({ role: 'TRAINEE' });
+      expect(demoted.status).toBe(200);
+      expect(mockPrisma.authSession.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['auth-demoted'] } },
+        data: { revokedAt: expect.any(Date) },
+      });
+      const stale = await demotedTrainer(request(app).post('/api/sdi/dai/ZF1/activate')).send();
+      expect(stale.status).toBe(401);
+
+      const deletedTrainer = await loginAs('auth-deleted');
+      mockPrisma.session.count.mockResolvedValue(0);
+      mockPrisma.score.count.mockResolvedValue(0);
+      mockPrisma.user.delete.mockResolvedValue(trainer);
+      const deleted = await admin(request(app).delete(`/api/users/${TRAINER_ID}`)).send();
+      expect(deleted.status).toBe(204);
+      const orphan = await deletedTrainer(request(app).post('/api/sdi/dai/ZF1/activate')).send();
+      expect(orphan.status).toBe(401);
+
+      expect(auditEntries()).toEqual([
+        expect.objectContaining({
+          action: 'user.update',
+          target: TRAINER_ID,
+          before: { fullName: 'Camille Formatrice' },
+          after: { fullName: 'Camille F.' },
+        }),
+        expect.objectContaining({
+          action: 'user.update',
+          target: TRAINER_ID,
+          before: { role: 'TRAINER' },
+          after: { role: 'TRAINEE' },
+        }),
+        expect.objectContaining({
+          action: 'user.delete',
+          target: TRAINER_ID,
+          before: {
+            id: TRAINER_ID,
+            fullName: 'Camille Formatrice',
+            email: 'camille@example.org',
+            role: 'TRAINER',
+            hasCredential: true,
+          },
+          after: null,
+        }),
+      ]);
+    });
+
+    it('revokes the access tokens of users demoted by an import', async () => {
+      const app = await createApp(createDomainContext(), activeSessionManager());
+      const admin = (req: request.Test) => req.set('Authorization', 'Bearer admin-token');
+      const loginAs = async (authSessionId: string) => {
+        mockPrisma.authSession.create.mockImplementationOnce(async ({ data }) => ({ id: authSessionId, ...data }));
+        mockPrisma.authSession.findMany.mockResolvedValue([{ id: authSessionId }]);
+        const login = await request(app).post('/api/auth/login').send({ userId: TRAINER_ID, secret: '4821' });
+        return (req: request.Test) => req.set('Authorization', `Bearer ${login.body.accessToken}`);
+      };
+      const importUser = (user: Record<string, unknown>) =>
+        admin(request(app).post('/api/users/import')).send({ users: [user] });
+      mockPrisma.authSession.updateMany.mockResolvedValue({ count: 1 });
+
+      const importedById = await loginAs('auth-import-id');
+      mockPrisma.user.update.mockResolvedValueOnce(trainer);
+      const unchanged = await importUser({ id: TRAINER_ID, fullName: trainer.fullName, role: 'TRAINER' });
+      expect(unchanged.body).toMatchObject({ updated: 1, skipped: 0 });
+      expect(mockPrisma.authSession.updateMany).not.toHaveBeenCalled();
+
+      mockPrisma.user.update.mockResolvedValueOnce({ ...trainer, role: 'TRAINEE' });
+      await importUser({ id: TRAINER_ID, fullName: trainer.fullName, role: 'TRAINEE' });
+      expect(mockPrisma.authSession.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['auth-import-id'] } },
+        data: { revokedAt: expect.any(Date) },
+      });
+      const staleById = await importedById(request(app).post('/api/sdi/dai/ZF1/activate')).send();
+      expect(staleById.status).toBe(401);
+
+      const importedByEmail = await loginAs('auth-import-email');
+      mockPrisma.user.update.mockResolvedValueOnce({ ...trainer, role: 'TRAINEE' });
+      const byEmail = await importUser({ fullName: trainer.fullName, email: trainer.email, role: 'TRAINEE' });
+      expect(byEmail.body).toMatchObject({ updated: 1, skipped: 0 });
+      const staleByEmail = await importedByEmail(request(app).post('/api/sdi/dai/ZF1/activate')).send();
+      expect(staleByEmail.status).toBe(401);
+    });
+
+    it('rejects room grants for site-wide actions', async () => {
+      const app = await createApp(createDomainContext(), activeSessionManager());
+      const response = await request(app)
+        .put('/api/permissions/rooms/default')
+        .set('Authorization', 'Bearer admin-token')
+        .send({ grants: { 'users.manage': ['TRAINER'] } });
+      expect(response.status).toBe(400);
+      expect(response.body).toEqual({ error: 'PERMISSION_NOT_ROOM_SCOPED' });
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import { createSimulationClock } from '@simu-ssi/domain-ssi';
+
+import { createApp, createDomainContext } from './http-fixtures';
+import { getPrismaMock } from './prisma-mock';
+import { consoleRequest } from './trainer-auth';
+
+jest.mock('../prisma', () =>
+  jest.requireActual('./prisma-mock').mockPrismaModule({
+    zone: ['findMany'],
+    device: ['findMany'],
+    siteConfig: ['findUnique'],
+    traineeLayout: ['findUnique'],
+    eventLog: ['create'],
+    permissionGrant: ['findMany'],
+    processAck: ['upsert'],
+  }),
+);
+
+const mockPrisma = getPrismaMock();
+
+describe('DAS routes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.zone.findMany.mockResolvedValue([
+      { id: 'ZF1', label: 'Hall', kind: 'ZF', alarmZoneId: null, safetyZoneIdsJson: null },
+    ]);
+    mockPrisma.device.findMany.mockResolvedValue([
+      {
+        id: 'das-1',
+        kind: 'DAS',
+        zoneId: 'ZF1',
+        label: 'Clapet',
+        propsJson: JSON.stringify({ x: 10, y: 20, travelTimeMs: 2000 }),
+        outOfService: false,
+      },
+    ]);
+    mockPrisma.siteConfig.findUnique.mockResolvedValue(null);
+    mockPrisma.traineeLayout.findUnique.mockResolvedValue(null);
+    mockPrisma.eventLog.create.mockResolvedValue({});
+    mockPrisma.permissionGrant.findMany.mockResolvedValue([]);
+    mockPrisma.processAck.upsert.mockResolvedValue({});
+  });
+
+  it('commands the topology DAS and re-arms it once the alarm is reset', async () => {
+    const clock = createSimulationClock({ mode: 'step', origin: 0 });
+    const context = createDomainContext({ clock, config: { evacOnDai: true } });
+    const app = await createApp(context);
+
+    await consoleRequest(app).post('/api/sdi/dai/ZF1/activate').send();
+    expect(context.snapshot().dasDevices['das-1']).toMatchObject({
+      status: 'COMMANDED',
+      travelTimeMs: 2000,
+    });
+    clock.advance(2000);
+    expect(context.snapshot().dasDevices['das-1'].status).toBe('SAFETY');
+
+    const refused = await consoleRequest(app).post('/api/das/das-1/rearm').send();
+    expect(refused.status).toBe(409);
+    expect(refused.body.error).toBe('DAS_NOT_REARMABLE');
+
+    await consoleRequest(app).post('/api/sdi/dai/ZF1/reset').send();
+    await consoleRequest(app).post('/api/system/reset').send();
+    const rearmed = await consoleRequest(app).post('/api/das/rearm').send();
+    expect(rearmed.status).toBe(200);
+    expect(rearmed.body).toEqual({ deviceIds: ['das-1'] });
+    expect(context.snapshot().dasDevices['das-1'].status).toBe('WAITING');
+  });
+
+  it('injects a position fault on a DAS and repairs it', async () => {
+    const context = createDomainContext({ config: { evacOnDai: true } });
+    const app = await createApp(context);
+
+    const failed = await consoleRequest(app).post('/api/das/das-1/fail').send({ mode: 'POSITION_LOST' });
+    expect(failed.status).toBe(204);
+    expect(context.snapshot().dasDevices['das-1'].status).toBe('FEEDBACK_FAULT');
+    expect(context.snapshot().faults['device:das-1:DAS_FEEDBACK']).toBeDefined();
+
+    const repaired = await consoleRequest(app).post('/api/das/das-1/repair').send();
+    expect(repaired.status).toBe(204);
+    expect(context.snapshot().faults['device:das-1:DAS_FEEDBACK']).toBeUndefined();
+
+    const unknown = await consoleRequest(app).post('/api/das/das-9/fail').send({ mode: 'STUCK' });
+    expect(unknown.status).toBe(404);
+  });
+});
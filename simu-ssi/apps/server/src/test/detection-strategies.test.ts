@@ -0,0 +1,102 @@
+import { createApp } from './http-fixtures';
+import { getPrismaMock } from './prisma-mock';
+import { consoleRequest } from './trainer-auth';
+
+jest.mock('../prisma', () =>
+  jest.requireActual('./prisma-mock').mockPrismaModule({
+    zone: ['findMany'],
+    device: ['findMany'],
+    siteConfig: ['findUnique'],
+    traineeLayout: ['findUnique'],
+    eventLog: ['create'],
+    permissionGrant: ['findMany'],
+    processAck: ['upsert'],
+  }),
+);
+
+const mockPrisma = getPrismaMock();
+
+const zone = (
+  id: string,
+  detectionStrategy: string | null,
+  verificationDelayMs: number | null,
+) => ({
+  id,
+  label: `Zone ${id}`,
+  kind: 'ZD',
+  alarmZoneId: null,
+  safetyZoneIdsJson: null,
+  detectionStrategy,
+  verificationDelayMs,
+});
+
+describe('detection strategies', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.zone.findMany.mockResolvedValue([
+      zone('ZD1', 'DOUBLE_KNOCK', null),
+      zone('ZD2', 'DELAYED', 120000),
+      zone('ZD3', null, null),
+    ]);
+    mockPrisma.device.findMany.mockResolvedValue([]);
+    mockPrisma.siteConfig.findUnique.mockResolvedValue(null);
+    mockPrisma.traineeLayout.findUnique.mockResolvedValue(null);
+    mockPrisma.eventLog.create.mockResolvedValue({});
+    mockPrisma.permissionGrant.findMany.mockResolvedValue([]);
+    mockPrisma.processAck.upsert.mockResolvedValue({});
+  });
+
+  it('raises a double-knock alarm on the second detection only', async () => {
+    const app = await createApp();
+
+    const topology = await consoleRequest(app).get('/api/topology');
+    expect(topology.body.zones).toContainEqual(
+      expect.objectContaining({
+        id: 'ZD2',
+        detectionStrategy: 'DELAYED',
+        verificationDelayMs: 120000,
+      }),
+    );
+
+    await consoleRequest(app).post('/api/sdi/dai/ZD1/activate').send();
+    let state = await consoleRequest(app).get('/api/state');
+    expect(state.body.cmsi).toMatchObject({ status: 'COINCIDENCE_PENDING', zoneId: 'ZD1' });
+
+    await consoleRequest(app).post('/api/sdi/dai/ZD1/activate').send();
+    state = await consoleRequest(app).get('/api/state');
+    expect(state.body.cmsi).toMatchObject({ status: 'FIRE_ALARM', zoneIds: ['ZD1'] });
+  });
+
+  it('confirms or cancels a detection during its verification delay', async () => {
+    const app = await createApp();
+
+    await consoleRequest(app).post('/api/sdi/dai/ZD2/activate').send();
+    let state = await consoleRequest(app).get('/api/state');
+    expect(state.body.cmsi).toMatchObject({ status: 'ALARM_VERIFICATION', zoneId: 'ZD2' });
+
+    const cancelled = await consoleRequest(app).post('/api/sdi/dai/ZD2/cancel').send();
+    expect(cancelled.status).toBe(200);
+    state = await consoleRequest(app).get('/api/state');
+    expect(state.body.cmsi.status).toBe('IDLE');
+    expect(state.body.daiActivated.ZD2).toBeUndefined();
+
+    await consoleRequest(app).post('/api/sdi/dai/ZD2/activate').send();
+    const confirmed = await consoleRequest(app).post('/api/sdi/dai/ZD2/confirm').send();
+    expect(confirmed.body).toEqual({ status: 'confirmed', zoneId: 'ZD2' });
+    state = await consoleRequest(app).get('/api/state');
+    expect(state.body.cmsi).toMatchObject({ status: 'FIRE_ALARM', zoneIds: ['ZD2'] });
+
+    const again = await consoleRequest(app).post('/api/sdi/dai/ZD2/confirm').send();
+    expect(again.status).toBe(409);
+    expect(again.body.error).toBe('NO_PENDING_DETECTION');
+  });
+
+  it('raises the alarm at once for a single-detector zone', async () => {
+    const app = await createApp();
+
+    await consoleRequest(app).post('/api/sdi/dai/ZD3/activate').send();
+    const state = await consoleRequest(app).get('/api/state');
+    expect(state.body.cmsi).toMatchObject({ status: 'FIRE_ALARM', zoneIds: ['ZD3'] });
+    expect(state.body.cmsi.detections).toEqual({});
+  });
+});
@@ -1,9 +1,10 @@
 import EventEmitter from 'eventemitter3';
-import request from 'supertest';
+import { createSimulationClock } from '@simu-ssi/domain-ssi';
 
 import type { DomainContext } from '../state';
 import type { SessionManager } from '../session-manager';
 import { createHttpServer } from '../app';
+import { consoleRequest } from './trainer-auth';
 
 jest.mock('../prisma', () => ({
   prisma: {
@@ -21,7 +22,7 @@ jest.mock('../prisma', () => ({
       findUnique: jest.fn(),
       upsert: jest.fn(),
     },
-    processAck: { update: jest.fn() },
+    processAck: { upsert: jest.fn() },
     eventLog: { create: jest.fn() },
     manualCallPoint: { updateMany: jest.fn(), update: jest.fn() },
     session: {
@@ -40,7 +41,7 @@ const { prisma: mockPrisma } = jest.requireMock('../prisma') as {
     device: { findMany: jest.Mock; findUnique: jest.Mock; update: jest.Mock; updateMany: jest.Mock };
     siteConfig: { findUnique: jest.Mock };
     traineeLayout: { findUnique: jest.Mock; upsert: jest.Mock };
-    processAck: { update: jest.Mock };
+    processAck: { upsert: jest.Mock };
     eventLog: { create: jest.Mock };
     manualCallPoint: { updateMany: jest.Mock; update: jest.Mock };
     session: {
@@ -69,6 +70,7 @@ function createDomainContextStub(): DomainContext {
       stopManualEvacuation: jest.fn(),
       trySystemReset: jest.fn(() => ({ ok: true })),
     },
+    clock: createSimulationClock(),
     snapshot: jest.fn(() => ({} as never)),
     refreshConfig: jest.fn(),
   } as unknown as DomainContext;
@@ -126,7 +128,7 @@ describe('POST /api/devices/:id/out-of-service', () => {
     const { app } = createHttpServer(domainContext, sessionManager);
     await flushAsync();
 
-    const response = await request(app)
+    const response = await consoleRequest(app)
       .post(`/api/devices/${runtimeDevice.id}/out-of-service`)
       .send({ outOfService: true });
 
@@ -166,7 +168,7 @@ describe('POST /api/zones/:id/out-of-service', () => {
     const { app } = createHttpServer(domainContext, sessionManager);
     await flushAsync();
 
-    const response = await request(app)
+    const response = await consoleRequest(app)
       .post('/api/zones/Z2/out-of-service')
       .send({ outOfService: true });
 
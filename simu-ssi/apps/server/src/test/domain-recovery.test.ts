@@ -0,0 +1,202 @@
+import { createSimulationClock, createSsiDomain } from '@simu-ssi/domain-ssi';
+import type { SiteTopology } from '@simu-ssi/sdk';
+import { loadDomainJournal, reconcilePersistedState, replayDomainJournal } from '../domain-recovery';
+import { createDomainContext } from '../state';
+
+jest.mock('../prisma', () => ({
+  prisma: {
+    siteConfig: { findUniqueOrThrow: jest.fn() },
+    eventLog: { findMany: jest.fn(), findFirst: jest.fn(), create: jest.fn() },
+    domainCheckpoint: { findUnique: jest.fn(), upsert: jest.fn(), updateMany: jest.fn() },
+    manualCallPoint: { updateMany: jest.fn(), create: jest.fn() },
+    processAck: { upsert: jest.fn() },
+  },
+}));
+
+const { prisma: mockPrisma } = jest.requireMock('../prisma') as {
+  prisma: {
+    siteConfig: { findUniqueOrThrow: jest.Mock };
+    eventLog: { findMany: jest.Mock; findFirst: jest.Mock; create: jest.Mock };
+    domainCheckpoint: { findUnique: jest.Mock; upsert: jest.Mock; updateMany: jest.Mock };
+    manualCallPoint: { updateMany: jest.Mock; create: jest.Mock };
+    processAck: { upsert: jest.Mock };
+  };
+};
+
+const ORIGIN = Date.UTC(2024, 2, 1, 9);
+const config = { evacOnDmDelayMs: 60000, processAckRequired: true, evacOnDai: false };
+
+function row(id: number, offsetMs: number, details: Record<string, unknown>) {
+  const simulatedAt = ORIGIN + offsetMs;
+  return { id, simulatedAt, payloadJson: JSON.stringify({ ...details, simulatedAt }) };
+}
+
+describe('domain recovery', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now: ORIGIN + 3_600_000 });
+    mockPrisma.eventLog.findMany.mockResolvedValue([
+      row(1, 0, { event: 'DM_LATCHED', zoneId: 'ZF1', deviceId: 'DM-1' }),
+      row(2, 0, { event: 'FIRE_ALARM_STARTED', zoneIds: ['ZF1'] }),
+      { id: 3, simulatedAt: null, payloadJson: JSON.stringify({ action: 'scenario-run' }) },
+      row(4, 15000, { event: 'AUDIBLE_SILENCED' }),
+    ]);
+    mockPrisma.domainCheckpoint.findUnique.mockResolvedValue({
+      simulatedAt: ORIGIN + 40000,
+      clockMode: 'realtime',
+      clockSpeed: 2,
+      snapshotJson: '{}',
+    });
+    mockPrisma.manualCallPoint.updateMany.mockResolvedValue({ count: 1 });
+    mockPrisma.siteConfig.findUniqueOrThrow.mockResolvedValue({
+      evacOnDMDelayMs: 60000,
+      processAckRequired: true,
+      evacOnDAI: false,
+    });
+    mockPrisma.eventLog.findFirst.mockResolvedValue(null);
+    mockPrisma.eventLog.create.mockResolvedValue({ id: 100 });
+    mockPrisma.domainCheckpoint.upsert.mockResolvedValue({});
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('rebuilds the state at the checkpoint and re-arms the evacuation deadline', async () => {
+    const journal = await loadDomainJournal();
+    const clock = createSimulationClock({ mode: 'step', origin: journal.origin });
+    const domain = createSsiDomain(config, { clock });
+
+    const recovery = replayDomainJournal(domain, clock, journal);
+
+    expect(recovery).toEqual({ replayedEvents: 2, resumedAt: ORIGIN + 40000, lastEventId: 4 });
+    expect(clock.state).toMatchObject({ mode: 'realtime', speed: 2 });
+    expect(domain.snapshot.cmsi).toMatchObject({ status: 'EVAC_PENDING', deadline: ORIGIN + 60000 });
+
+    // 20 s simulées restantes, à vitesse ×2.
+    jest.advanceTimersByTime(9000);
+    expect(domain.snapshot.cmsi.status).toBe('EVAC_PENDING');
+    jest.advanceTimersByTime(1000);
+    expect(domain.snapshot.cmsi.status).toBe('EVAC_ACTIVE');
+  });
+
+  it('starts the journal after the last reset that left the domain at rest', async () => {
+    mockPrisma.domainCheckpoint.findUnique.mockResolvedValue({
+      simulatedAt: ORIGIN + 40000,
+      clockMode: 'realtime',
+      clockSpeed: 1,
+      replayFromEventId: 3,
+      snapshotJson: '{}',
+    });
+    mockPrisma.eventLog.findMany.mockResolvedValue([row(4, 15000, { event: 'AUDIBLE_SILENCED' })]);
+
+    const journal = await loadDomainJournal('banc-2');
+
+    expect(mockPrisma.eventLog.findMany).toHaveBeenCalledWith({
+      where: { roomId: 'banc-2', simulatedAt: { not: null }, id: { gt: 3 } },
+      orderBy: { id: 'asc' },
+      select: { id: true, simulatedAt: true, payloadJson: true },
+    });
+    expect(journal.origin).toBe(ORIGIN + 15000);
+    expect(journal.entries.map((entry) => entry.id)).toEqual([4]);
+  });
+
+  it('aligns the persisted call points and process acknowledgement with the rebuilt state', async () => {
+    const clock = createSimulationClock({ mode: 'step', origin: ORIGIN });
+    const domain = createSsiDomain(config, { clock });
+    domain.activateDm('ZF1');
+
+    await reconcilePersistedState(domain.snapshot, null);
+
+    expect(mockPrisma.manualCallPoint.updateMany).toHaveBeenCalledWith({
+      where: { roomId: 'default', isLatched: true, zoneId: { notIn: ['ZF1'] } },
+      data: expect.objectContaining({ isLatched: false }),
+    });
+    expect(mockPrisma.manualCallPoint.updateMany).toHaveBeenCalledWith({
+      where: { roomId: 'default', zoneId: 'ZF1' },
+      data: { isLatched: true },
+    });
+    expect(mockPrisma.manualCallPoint.create).not.toHaveBeenCalled();
+    expect(mockPrisma.processAck.upsert).toHaveBeenCalledWith({
+      where: { roomId: 'default' },
+      update: { isAcked: false, ackedBy: null, ackedAt: null },
+      create: { roomId: 'default', isAcked: false, ackedBy: null, ackedAt: null },
+    });
+  });
+  it('applies the stored detection strategies before replaying pending detections', async () => {
+    mockPrisma.domainCheckpoint.findUnique.mockResolvedValue(null);
+    mockPrisma.eventLog.findMany.mockResolvedValue([
+      row(1, 0, { event: 'DAI_TRIGGERED', zoneId: 'ZD1', deviceId: 'DAI-1' }),
+      row(2, 1000, { event: 'DAI_TRIGGERED', zoneId: 'ZD2', deviceId: 'DAI-3' }),
+      row(3, 5000, { event: 'DETECTION_CANCELLED', zoneId: 'ZD2', cancelledBy: 'trainee' }),
+    ]);
+    const topology: SiteTopology = {
+      zones: [
+        { id: 'ZD1', label: 'Bureaux', kind: 'ZD', detectionStrategy: 'DOUBLE_KNOCK' },
+        { id: 'ZD2', label: 'Archives', kind: 'ZD', detectionStrategy: 'DELAYED', verificationDelayMs: 60000 },
+      ],
+      devices: [],
+    };
+
+    const context = await createDomainContext({ roomId: 'banc-2', loadTopology: async () => topology });
+
+    const { cmsi, daiActivated } = context.snapshot();
+    expect(cmsi.status).toBe('COINCIDENCE_PENDING');
+    expect(Object.keys(cmsi.detections)).toEqual(['ZD1']);
+    expect(daiActivated.ZD2?.isActive ?? false).toBe(false);
+
+    context.domain.activateDai('ZD1', { deviceId: 'DAI-2' });
+    expect(context.snapshot().cmsi.status).toBe('FIRE_ALARM');
+  });
+  it('resumes timers left paused by a scenario when the server restarted', async () => {
+    mockPrisma.eventLog.findMany.mockResolvedValue([
+      row(1, 0, { event: 'DM_LATCHED', zoneId: 'ZF1', deviceId: 'DM-1' }),
+      row(2, 10000, { event: 'TIMERS_PAUSED' }),
+    ]);
+    mockPrisma.domainCheckpoint.findUnique.mockResolvedValue({
+      simulatedAt: ORIGIN + 40000,
+      clockMode: 'realtime',
+      clockSpeed: 1,
+      snapshotJson: '{}',
+    });
+
+    const context = await createDomainContext();
+
+    expect(context.snapshot().timersPausedAt).toBeUndefined();
+    expect(mockPrisma.eventLog.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ payloadJson: expect.stringContaining('"event":"TIMERS_RESUMED"') }),
+    });
+    // 50 s restaient à la pause : l'échéance est repoussée des 30 s gelées.
+    jest.advanceTimersByTime(49000);
+    expect(context.snapshot().cmsi.status).toBe('EVAC_PENDING');
+    jest.advanceTimersByTime(1000);
+    expect(context.snapshot().cmsi.status).toBe('EVAC_ACTIVE');
+  });
+  it('restores DAS failures and re-arms from the journal once the topology is applied', async () => {
+    mockPrisma.domainCheckpoint.findUnique.mockResolvedValue(null);
+    mockPrisma.eventLog.findMany.mockResolvedValue([
+      row(1, 0, { event: 'DAS_FAILURE_INJECTED', deviceId: 'das-2', zoneId: 'ZS1', mode: 'POSITION_LOST' }),
+      row(2, 1000, { event: 'DAI_TRIGGERED', zoneId: 'ZD1' }),
+      row(3, 5000, { event: 'DAI_RESET', zoneId: 'ZD1' }),
+      row(4, 6000, { event: 'SYSTEM_RESET' }),
+      row(5, 7000, { event: 'DAS_REARMED', deviceId: 'das-1', deviceIds: ['das-1'] }),
+    ]);
+    const topology: SiteTopology = {
+      zones: [
+        { id: 'ZD1', label: 'Bureaux', kind: 'ZD', safetyZoneIds: ['ZS1'] },
+        { id: 'ZS1', label: 'Compartiment', kind: 'ZS' },
+      ],
+      devices: [
+        { id: 'das-1', kind: 'DAS', zoneId: 'ZS1', props: { travelTimeMs: 1000 } },
+        { id: 'das-2', kind: 'DAS', zoneId: 'ZS1' },
+      ],
+    };
+
+    const context = await createDomainContext({ loadTopology: async () => topology });
+
+    const { dasDevices, faults } = context.snapshot();
+    expect(dasDevices['das-1']).toMatchObject({ status: 'WAITING', travelTimeMs: 1000 });
+    expect(dasDevices['das-2']).toMatchObject({ status: 'FEEDBACK_FAULT', failure: 'POSITION_LOST' });
+    expect(faults['device:das-2:DAS_FEEDBACK']).toMatchObject({ kind: 'DAS_FEEDBACK', deviceId: 'das-2' });
+  });
+});
@@ -0,0 +1,75 @@
+import request from 'supertest';
+
+import { createApp, createDomainContext } from './http-fixtures';
+import { getPrismaMock } from './prisma-mock';
+import { consoleRequest } from './trainer-auth';
+
+jest.mock('../prisma', () =>
+  jest.requireActual('./prisma-mock').mockPrismaModule({
+    zone: ['findMany'],
+    device: ['findMany'],
+    siteConfig: ['findUnique'],
+    traineeLayout: ['findUnique'],
+    eventLog: ['create'],
+  }),
+);
+
+const mockPrisma = getPrismaMock();
+
+describe('fault routes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.zone.findMany.mockResolvedValue([]);
+    mockPrisma.device.findMany.mockResolvedValue([]);
+    mockPrisma.siteConfig.findUnique.mockResolvedValue(null);
+    mockPrisma.traineeLayout.findUnique.mockResolvedValue(null);
+    mockPrisma.eventLog.create.mockResolvedValue({});
+  });
+
+  it('raises, acknowledges and clears a zone fault', async () => {
+    const domainContext = createDomainContext();
+    const app = await createApp(domainContext);
+
+    const raised = await consoleRequest(app).post('/api/faults').send({ kind: 'LINE_OPEN', zoneId: 'ZF3' });
+    expect(raised.status).toBe(201);
+    expect(raised.body.fault).toMatchObject({ id: 'zone:ZF3:LINE_OPEN', scope: 'ZONE', acknowledged: false });
+
+    const faultPath = `/api/faults/${encodeURIComponent(raised.body.fault.id)}`;
+    const acked = await consoleRequest(app).post(`${faultPath}/ack`).send({ ackedBy: 'trainee' });
+    expect(acked.status).toBe(204);
+    expect(domainContext.snapshot().faults['zone:ZF3:LINE_OPEN']?.acknowledged).toBe(true);
+
+    const cleared = await consoleRequest(app).post(`${faultPath}/clear`).send();
+    expect(cleared.status).toBe(204);
+
+    const listed = await consoleRequest(app).get('/api/faults');
+    expect(listed.body).toEqual({ faults: [] });
+  });
+
+  it('lets the console clear a fault without a keypad level while auth is disabled', async () => {
+    const domainContext = createDomainContext();
+    const app = await createApp(domainContext);
+
+    await consoleRequest(app).post('/api/faults').send({ kind: 'LINE_OPEN', zoneId: 'ZF3' });
+    const faultPath = `/api/faults/${encodeURIComponent('zone:ZF3:LINE_OPEN')}`;
+
+    const fromStation = await request(app).post(`${faultPath}/clear`).set('X-Station-Id', 'poste-a').send();
+    expect(fromStation.status).toBe(403);
+    expect(fromStation.body).toEqual({ error: 'ACCESS_LEVEL_REQUIRED', requiredLevel: 3, level: 1 });
+
+    const anonymous = await request(app).post(`${faultPath}/clear`).send();
+    expect(anonymous.status).toBe(403);
+
+    const fromConsole = await consoleRequest(app).post(`${faultPath}/clear`).send();
+    expect(fromConsole.status).toBe(204);
+    expect(domainContext.snapshot().faults['zone:ZF3:LINE_OPEN']).toBeUndefined();
+  });
+
+  it('rejects faults without a zone or device target', async () => {
+    const app = await createApp();
+
+    const response = await consoleRequest(app).post('/api/faults').send({ kind: 'UGA_LINE' });
+
+    expect(response.status).toBe(400);
+  });
+});
@@ -0,0 +1,51 @@
+import { createSimulationClock, createSsiDomain, type DomainConfig, type SimulationClock } from '@simu-ssi/domain-ssi';
+
+import type { DomainContext } from '../state';
+import type { SessionManager } from '../session-manager';
+import { createHttpServer, type HttpServerOptions } from '../app';
+
+export const flushAsync = () => new Promise((resolve) => setImmediate(resolve));
+
+export interface TestDomainContextOptions {
+  config?: Partial<DomainConfig>;
+  /** Horloge pas à pas par défaut : aucune temporisation ne survit au test. */
+  clock?: SimulationClock;
+}
+
+/** Contexte de domaine servi par `createHttpServer`, sans journal ni base. */
+export function createDomainContext(options: TestDomainContextOptions = {}): DomainContext {
+  const clock = options.clock ?? createSimulationClock({ mode: 'step' });
+  const domain = createSsiDomain(
+    { evacOnDmDelayMs: 300000, processAckRequired: true, evacOnDai: false, ...options.config },
+    { clock },
+  );
+  return {
+    domain,
+    clock,
+    snapshot: () => domain.snapshot,
+    refreshConfig: jest.fn(),
+  } as unknown as DomainContext;
+}
+
+/** Gestionnaire de sessions sans session active ; `overrides` remplace les méthodes voulues. */
+export function createSessionManagerStub(overrides: Record<string, unknown> = {}): SessionManager {
+  return {
+    on: jest.fn(),
+    emit: jest.fn(),
+    getActiveSessionId: jest.fn(() => null),
+    getCurrentSession: jest.fn(() => null),
+    resolveActorId: jest.fn(() => null),
+    ...overrides,
+  } as unknown as SessionManager;
+}
+
+/** Application HTTP prête à recevoir des requêtes, une fois la topologie initiale chargée. */
+export async function createApp(
+  domainContext: DomainContext = createDomainContext(),
+  sessionManager: SessionManager = createSessionManagerStub(),
+  options: HttpServerOptions = {},
+) {
+  const { app } = createHttpServer(domainContext, sessionManager, options);
+  await flushAsync();
+  return app;
+}
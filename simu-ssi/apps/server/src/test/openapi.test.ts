@@ -0,0 +1,83 @@
+import request from 'supertest';
+
+import { listDocumentedRoutes, listExpressRoutes, zodToJsonSchema } from '../openapi';
+import { accessCodeUpdateSchema, clockUpdateSchema } from '../api-schemas';
+import { createApp } from './http-fixtures';
+import { getPrismaMock } from './prisma-mock';
+
+jest.mock('../prisma', () =>
+  jest.requireActual('./prisma-mock').mockPrismaModule({
+    zone: ['findMany'],
+    device: ['findMany'],
+    siteConfig: ['findUnique'],
+    traineeLayout: ['findUnique'],
+    permissionGrant: ['findMany'],
+  }),
+);
+
+const mockPrisma = getPrismaMock();
+
+const signature = ({ method, path }: { method: string; path: string }) =>
+  `${method.toUpperCase()} ${path}`;
+
+describe('OpenAPI document', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.zone.findMany.mockResolvedValue([]);
+    mockPrisma.device.findMany.mockResolvedValue([]);
+    mockPrisma.siteConfig.findUnique.mockResolvedValue(null);
+    mockPrisma.traineeLayout.findUnique.mockResolvedValue(null);
+    mockPrisma.permissionGrant.findMany.mockResolvedValue([]);
+  });
+
+  it('documents every route served by createHttpServer, and only those', async () => {
+    const app = await createApp();
+    const served = listExpressRoutes(app).map(signature).sort();
+    const documented = listDocumentedRoutes().map(signature).sort();
+
+    expect(served).toContain('POST /api/rooms/:roomId/access/verify');
+    expect(served.filter((route) => !documented.includes(route))).toEqual([]);
+    expect(documented.filter((route) => !served.includes(route))).toEqual([]);
+  });
+
+  it('serves the document and the docs page without a token', async () => {
+    process.env.SIMU_SSI_API_TOKEN = 'admin-token';
+    try {
+      const app = await createApp();
+      const document = await request(app).get('/api/openapi.json');
+      expect(document.status).toBe(200);
+      expect(document.body.openapi).toBe('3.0.3');
+      expect(document.body.paths['/api/rooms/{roomId}/sdi/dm/{zone}/reset'].post).toMatchObject({
+        parameters: expect.arrayContaining([
+          expect.objectContaining({ name: 'roomId', in: 'path', required: true }),
+          expect.objectContaining({ name: 'zone', in: 'path', required: true }),
+        ]),
+      });
+      expect(document.body.paths['/api/auth/login'].post.security).toEqual([]);
+
+      const page = await request(app).get('/api/docs');
+      expect(page.status).toBe(200);
+      expect(page.headers['content-type']).toContain('text/html');
+      expect(page.text).toContain('/api/access/codes/{level}');
+
+      const protectedRoute = await request(app).get('/api/state');
+      expect(protectedRoute.status).toBe(401);
+    } finally {
+      delete process.env.SIMU_SSI_API_TOKEN;
+    }
+  });
+
+  it('converts zod constraints to JSON Schema', () => {
+    expect(zodToJsonSchema(accessCodeUpdateSchema)).toEqual({
+      type: 'object',
+      properties: {
+        code: { type: 'string', minLength: 4, maxLength: 8, pattern: '^[0-9]+$' },
+        expiresAt: { type: 'string', format: 'date-time', nullable: true },
+      },
+      required: ['code'],
+    });
+    expect(zodToJsonSchema(clockUpdateSchema)).toMatchObject({
+      properties: { mode: { type: 'string', enum: ['realtime', 'step'] } },
+    });
+  });
+});
@@ -0,0 +1,25 @@
+/** Méthodes simulées par modèle Prisma ; une clé `$…` (`$transaction`) désigne une méthode du client. */
+export type PrismaMockShape = Record<string, readonly string[]>;
+
+export type PrismaMockDelegate = jest.Mock & Record<string, jest.Mock>;
+
+export type PrismaMock = Record<string, PrismaMockDelegate>;
+
+/**
+ * Module `../prisma` simulé, à renvoyer depuis la fabrique de `jest.mock` : chaque méthode listée
+ * est un `jest.fn()` que le test configure.
+ */
+export function mockPrismaModule(shape: PrismaMockShape): { prisma: PrismaMock } {
+  const prisma: Record<string, unknown> = {};
+  for (const [model, methods] of Object.entries(shape)) {
+    prisma[model] = model.startsWith('$')
+      ? jest.fn()
+      : Object.fromEntries(methods.map((method) => [method, jest.fn()]));
+  }
+  return { prisma: prisma as PrismaMock };
+}
+
+/** Client installé par `jest.mock('../prisma', …)` dans le fichier de test. */
+export function getPrismaMock(): PrismaMock {
+  return (jest.requireMock('../prisma') as { prisma: PrismaMock }).prisma;
+}
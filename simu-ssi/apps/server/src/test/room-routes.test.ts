@@ -0,0 +1,100 @@
+import type { RoomContext, RoomDefinition } from '../rooms';
+import { createApp, createDomainContext, createSessionManagerStub } from './http-fixtures';
+import { getPrismaMock } from './prisma-mock';
+import { consoleRequest } from './trainer-auth';
+
+jest.mock('../prisma', () =>
+  jest.requireActual('./prisma-mock').mockPrismaModule({
+    zone: ['findMany'],
+    device: ['findMany'],
+    siteConfig: ['findUnique'],
+    traineeLayout: ['findUnique'],
+    eventLog: ['create'],
+    auditLog: ['create'],
+    room: ['create', 'findUnique'],
+    manualCallPoint: ['findFirst', 'create', 'update'],
+    processAck: ['upsert'],
+  }),
+);
+
+const mockPrisma = getPrismaMock();
+
+function createRoom(room: RoomDefinition): RoomContext {
+  return { ...room, domainContext: createDomainContext(), sessionManager: createSessionManagerStub() };
+}
+
+describe('room routes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.zone.findMany.mockResolvedValue([]);
+    mockPrisma.device.findMany.mockResolvedValue([]);
+    mockPrisma.siteConfig.findUnique.mockResolvedValue(null);
+    mockPrisma.traineeLayout.findUnique.mockResolvedValue(null);
+    mockPrisma.eventLog.create.mockResolvedValue({});
+    mockPrisma.auditLog.create.mockResolvedValue({});
+    mockPrisma.room.findUnique.mockResolvedValue(null);
+    mockPrisma.room.create.mockImplementation(async ({ data }) => data);
+    mockPrisma.manualCallPoint.findFirst.mockResolvedValue(null);
+    mockPrisma.manualCallPoint.create.mockResolvedValue({});
+  });
+
+  it('runs each room on its own domain', async () => {
+    const defaultContext = createDomainContext();
+    const room = createRoom({ id: 'banc-2', name: 'Banc 2' });
+    const app = await createApp(defaultContext, createSessionManagerStub(), { rooms: [room] });
+
+    const activated = await consoleRequest(app).post('/api/rooms/banc-2/sdi/dm/ZF1/activate').send();
+
+    expect(activated.status).toBe(202);
+    expect(room.domainContext.snapshot().dmLatched).toHaveProperty('ZF1');
+    expect(defaultContext.snapshot().dmLatched).toEqual({});
+    expect(mockPrisma.manualCallPoint.findFirst).toHaveBeenCalledWith({
+      where: { roomId: 'banc-2', zoneId: 'ZF1' },
+    });
+
+    const roomState = await consoleRequest(app).get('/api/rooms/banc-2/state');
+    const defaultState = await consoleRequest(app).get('/api/rooms/default/state');
+    expect(roomState.body.cmsi.status).toBe('EVAC_PENDING');
+    expect(defaultState.body.cmsi.status).toBe('IDLE');
+
+    const acked = await consoleRequest(app).post('/api/rooms/banc-2/process/ack').send({ ackedBy: 'trainee' });
+    expect(acked.status).toBe(204);
+    expect(mockPrisma.processAck.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { roomId: 'banc-2' } }),
+    );
+
+    const unknown = await consoleRequest(app).get('/api/rooms/banc-9/state');
+    expect(unknown.status).toBe(404);
+    expect(unknown.body).toEqual({ error: 'ROOM_NOT_FOUND' });
+  });
+
+  it('creates rooms through the API and rejects duplicates', async () => {
+    const createRoomContext = jest.fn(async (room: RoomDefinition) => createRoom(room));
+    const app = await createApp(createDomainContext(), createSessionManagerStub(), { createRoomContext });
+
+    const created = await consoleRequest(app).post('/api/rooms').send({ id: 'banc-3', name: 'Banc 3' });
+    expect(created.status).toBe(201);
+    expect(created.body.room).toEqual({ id: 'banc-3', name: 'Banc 3', activeSessionId: null });
+    expect(createRoomContext).toHaveBeenCalledWith({ id: 'banc-3', name: 'Banc 3' });
+    expect(mockPrisma.auditLog.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        action: 'room.create',
+        target: 'banc-3',
+        roomId: 'banc-3',
+        beforeJson: 'null',
+        afterJson: JSON.stringify({ name: 'Banc 3' }),
+      }),
+    });
+
+    const duplicate = await consoleRequest(app).post('/api/rooms').send({ id: 'banc-3', name: 'Autre' });
+    expect(duplicate.status).toBe(409);
+    const invalid = await consoleRequest(app).post('/api/rooms').send({ id: 'Banc 4', name: 'Banc 4' });
+    expect(invalid.status).toBe(400);
+
+    const listed = await consoleRequest(app).get('/api/rooms');
+    expect(listed.body.rooms.map((room: { id: string }) => room.id)).toEqual(['default', 'banc-3']);
+
+    const clock = await consoleRequest(app).get('/api/rooms/banc-3/clock');
+    expect(clock.status).toBe(200);
+  });
+});
@@ -0,0 +1,119 @@
+import { createSimulationClock, createSsiDomain } from '@simu-ssi/domain-ssi';
+import type { ScenarioDefinition } from '@simu-ssi/sdk';
+import { ScenarioRunner } from '../scenario-runner';
+
+jest.mock('../manual-call-points', () => ({
+  recordManualCallPointActivation: jest.fn(() => Promise.resolve()),
+  recordManualCallPointReset: jest.fn(() => Promise.resolve(false)),
+}));
+
+const flushAsync = () => new Promise((resolve) => setImmediate(resolve));
+
+function createHarness(events: ScenarioDefinition['events']) {
+  const clock = createSimulationClock({ mode: 'step' });
+  const domain = createSsiDomain(
+    { evacOnDmDelayMs: 300_000, processAckRequired: true, evacOnDai: false },
+    { clock },
+  );
+  const runner = new ScenarioRunner(domain, { clock });
+  runner.run({
+    id: 'scenario-conditions',
+    name: 'Conditions',
+    events,
+    topology: undefined,
+    manualResettable: undefined,
+    evacuationAudio: undefined,
+  });
+  return { clock, domain, runner };
+}
+
+describe('ScenarioRunner conditional events', () => {
+  it('skips an escalation when the trainee acknowledged in time', async () => {
+    const { clock, domain, runner } = createHarness([
+      { id: 'event-1', type: 'DAI_TRIGGER', zoneId: 'ZF1', offset: 0 },
+      {
+        id: 'event-2',
+        type: 'DAI_TRIGGER',
+        zoneId: 'ZF2',
+        offset: 60,
+        condition: { kind: 'UNLESS_EVENT', event: 'PROCESS_ACK' },
+      },
+    ]);
+
+    clock.advance(0);
+    await flushAsync();
+    clock.advance(30_000);
+    domain.acknowledgeProcess('trainee');
+    clock.advance(30_000);
+    await flushAsync();
+
+    expect(Object.keys(domain.snapshot.daiActivated)).toEqual(['ZF1']);
+    expect(runner.state.conditionStates).toEqual({ 'event-2': 'SKIPPED' });
+    runner.stop('idle');
+  });
+
+  it('escalates when the acknowledgement is missing', async () => {
+    const { clock, domain, runner } = createHarness([
+      { id: 'event-1', type: 'DAI_TRIGGER', zoneId: 'ZF1', offset: 0 },
+      {
+        id: 'event-2',
+        type: 'DAI_TRIGGER',
+        zoneId: 'ZF2',
+        offset: 60,
+        condition: { kind: 'UNLESS_EVENT', event: 'PROCESS_ACK' },
+      },
+    ]);
+
+    clock.advance(60_000);
+    await flushAsync();
+
+    expect(Object.keys(domain.snapshot.daiActivated).sort()).toEqual(['ZF1', 'ZF2']);
+    expect(runner.state.conditionStates).toEqual({ 'event-2': 'MET' });
+    runner.stop('idle');
+  });
+
+  it('holds an AFTER_EVENT action until the domain event is observed', async () => {
+    const { clock, domain, runner } = createHarness([
+      { id: 'event-1', type: 'DAI_TRIGGER', zoneId: 'ZF1', offset: 0 },
+      {
+        id: 'event-2',
+        type: 'DAI_RESET',
+        zoneId: 'ZF1',
+        offset: 10,
+        condition: { kind: 'AFTER_EVENT', event: 'AUDIBLE_SILENCED' },
+      },
+    ]);
+
+    clock.advance(20_000);
+    await flushAsync();
+    expect(runner.state.conditionStates).toEqual({ 'event-2': 'WAITING' });
+    expect(domain.snapshot.daiActivated.ZF1).toBeDefined();
+
+    domain.silenceAudibleAlarm();
+    clock.advance(0);
+    await flushAsync();
+
+    expect(runner.state.conditionStates).toEqual({ 'event-2': 'MET' });
+    expect(domain.snapshot.daiActivated.ZF1).toBeUndefined();
+    runner.stop('idle');
+  });
+
+  it('checks the SSI state when an IF_STATE event falls due', async () => {
+    const { clock, domain, runner } = createHarness([
+      { id: 'event-1', type: 'MANUAL_EVAC_START', offset: 0 },
+      {
+        id: 'event-2',
+        type: 'POWER_MAINS_CUT',
+        offset: 5,
+        condition: { kind: 'IF_STATE', cmsiStatus: 'IDLE' },
+      },
+    ]);
+
+    clock.advance(5_000);
+    await flushAsync();
+
+    expect(domain.snapshot.power.mainsAvailable).toBe(true);
+    expect(runner.state.conditionStates).toEqual({ 'event-2': 'SKIPPED' });
+    runner.stop('idle');
+  });
+});
@@ -74,6 +74,7 @@ describe('ScenarioRunner out-of-service handling', () => {
     const domain = createDomainStub();
     const runner = new ScenarioRunner(domain, {
       isZoneOutOfService: jest.fn(() => false),
+      roomId: 'banc-2',
     });
     const scenario = createScenario([
       { id: 'event-1', type: 'DM_TRIGGER', zoneId: 'ZF1', offset: 0 },
@@ -83,7 +84,7 @@ describe('ScenarioRunner out-of-service handling', () => {
     await waitForAsync();
 
     expect(domain.activateDm).toHaveBeenCalledWith('ZF1');
-    expect(manualCallPointMocks.recordManualCallPointActivation).toHaveBeenCalledWith('ZF1');
+    expect(manualCallPointMocks.recordManualCallPointActivation).toHaveBeenCalledWith('ZF1', 'banc-2');
     runner.stop('idle');
   });
 
@@ -145,7 +146,7 @@ describe('ScenarioRunner out-of-service handling', () => {
     expect(domain.activateDm).toHaveBeenCalledTimes(1);
     expect(domain.activateDm).toHaveBeenCalledWith('ZF1', { deviceId: 'dm-1' });
     expect(manualCallPointMocks.recordManualCallPointActivation).toHaveBeenCalledTimes(1);
-    expect(manualCallPointMocks.recordManualCallPointActivation).toHaveBeenCalledWith('ZF1');
+    expect(manualCallPointMocks.recordManualCallPointActivation).toHaveBeenCalledWith('ZF1', undefined);
     runner.stop('idle');
   });
 
@@ -0,0 +1,113 @@
+import EventEmitter from 'eventemitter3';
+
+import type { ScenarioDefinition } from '@simu-ssi/sdk';
+import { createSimulationClock, type SsiDomain } from '@simu-ssi/domain-ssi';
+import { ScenarioRunner } from '../scenario-runner';
+
+jest.mock('../manual-call-points', () => ({
+  recordManualCallPointActivation: jest.fn(() => Promise.resolve()),
+  recordManualCallPointReset: jest.fn(() => Promise.resolve(false)),
+}));
+
+function createDomainStub(): SsiDomain {
+  const emitter = new EventEmitter();
+  return {
+    emitter,
+    snapshot: {} as never,
+    activateDm: jest.fn(),
+    resetDm: jest.fn(),
+    activateDai: jest.fn(),
+    resetDai: jest.fn(),
+    startManualEvacuation: jest.fn(),
+    stopManualEvacuation: jest.fn(),
+    acknowledgeProcess: jest.fn(),
+    clearProcessAck: jest.fn(),
+    silenceAudibleAlarm: jest.fn(),
+    trySystemReset: jest.fn(() => ({ ok: true as const })),
+    updateConfig: jest.fn(),
+    pauseTimers: jest.fn(),
+    resumeTimers: jest.fn(),
+  } as unknown as SsiDomain;
+}
+
+function createScenario(): ScenarioDefinition {
+  return {
+    id: 'scenario-playback',
+    name: 'Lecture',
+    events: [
+      { id: 'event-1', type: 'DM_TRIGGER', zoneId: 'ZF1', offset: 10 },
+      { id: 'event-2', type: 'DAI_TRIGGER', zoneId: 'ZF2', offset: 20 },
+      { id: 'event-3', type: 'DM_RESET', zoneId: 'ZF1', offset: 30 },
+    ],
+    topology: undefined,
+    manualResettable: undefined,
+    evacuationAudio: undefined,
+  };
+}
+
+describe('ScenarioRunner playback controls', () => {
+  it('holds pending events while paused and resumes with the remaining delay', async () => {
+    const clock = createSimulationClock({ mode: 'step' });
+    const domain = createDomainStub();
+    const runner = new ScenarioRunner(domain, { clock });
+    runner.run(createScenario());
+
+    clock.advance(6000);
+    expect(runner.pause()).toBe(true);
+    expect(runner.state.status).toBe('paused');
+    expect(domain.pauseTimers).toHaveBeenCalledTimes(1);
+
+    clock.advance(60000);
+    await Promise.resolve();
+    expect(domain.activateDm).not.toHaveBeenCalled();
+
+    expect(runner.resume()).toBe(true);
+    expect(runner.state.status).toBe('running');
+    expect(domain.resumeTimers).toHaveBeenCalledTimes(1);
+
+    clock.advance(3999);
+    await Promise.resolve();
+    expect(domain.activateDm).not.toHaveBeenCalled();
+
+    clock.advance(1);
+    await Promise.resolve();
+    expect(domain.activateDm).toHaveBeenCalledWith('ZF1');
+
+    runner.stop('idle');
+  });
+
+  it('jumps to a later event without replaying the skipped ones', async () => {
+    const clock = createSimulationClock({ mode: 'step' });
+    const domain = createDomainStub();
+    const runner = new ScenarioRunner(domain, { clock });
+    runner.run(createScenario());
+
+    expect(runner.seek(1)).toBe(true);
+    clock.advance(0);
+        await Promise.resolve();
+
+    expect(domain.activateDm).not.toHaveBeenCalled();
+    expect(domain.activateDai).toHaveBeenCalledWith('ZF2');
+    expect(runner.state.currentEventIndex).toBe(1);
+
+    clock.advance(9999);
+    await Promise.resolve();
+    expect(domain.resetDm).not.toHaveBeenCalled();
+
+    clock.advance(1);
+    await Promise.resolve();
+    expect(domain.resetDm).toHaveBeenCalledWith('ZF1');
+
+    runner.stop('idle');
+  });
+
+  it('rejects seek targets outside the scenario', () => {
+    const runner = new ScenarioRunner(createDomainStub());
+    runner.run(createScenario());
+
+    expect(runner.seek(5)).toBe(false);
+    expect(runner.resume()).toBe(false);
+
+    runner.stop('idle');
+  });
+});
@@ -0,0 +1,122 @@
+import { createSimulationClock, createSsiDomain } from '@simu-ssi/domain-ssi';
+import type { ScenarioDefinition } from '@simu-ssi/sdk';
+import { ScenarioRunner } from '../scenario-runner';
+
+jest.mock('../manual-call-points', () => ({
+  recordManualCallPointActivation: jest.fn(() => Promise.resolve()),
+  recordManualCallPointReset: jest.fn(() => Promise.resolve(false)),
+}));
+
+const flushAsync = () => new Promise((resolve) => setImmediate(resolve));
+
+const RETRY_EVENT_ID = '6f1c2f0e-7a43-4d1b-9a5e-2f4f3c1d8b70';
+
+function createHarness(events: ScenarioDefinition['events']) {
+  const clock = createSimulationClock({ mode: 'step' });
+  const domain = createSsiDomain(
+    { evacOnDmDelayMs: 300_000, processAckRequired: true, evacOnDai: false },
+    { clock },
+  );
+  const runner = new ScenarioRunner(domain, { clock });
+  runner.run({
+    id: 'scenario-wait',
+    name: 'Attente stagiaire',
+    events,
+    topology: undefined,
+    manualResettable: undefined,
+    evacuationAudio: undefined,
+  });
+  return { clock, domain, runner };
+}
+
+describe('ScenarioRunner wait-for steps', () => {
+  it('holds subsequent offsets until the expected action happens', async () => {
+    const { clock, domain, runner } = createHarness([
+      { id: 'event-1', type: 'DAI_TRIGGER', zoneId: 'ZF1', offset: 0 },
+      { id: 'event-2', type: 'WAIT_FOR', event: 'PROCESS_ACK', offset: 5 },
+      { id: 'event-3', type: 'DAI_TRIGGER', zoneId: 'ZF2', offset: 15 },
+    ]);
+
+    clock.advance(120_000);
+    await flushAsync();
+    expect(runner.state.awaiting).toMatchObject({ eventIndex: 1, event: 'PROCESS_ACK' });
+    expect(runner.state.nextEvent).toMatchObject({ id: 'event-2' });
+    expect(domain.snapshot.daiActivated.ZF2).toBeUndefined();
+
+    domain.acknowledgeProcess('trainee');
+    expect(runner.state.awaiting).toBeNull();
+    clock.advance(9_000);
+    await flushAsync();
+    expect(domain.snapshot.daiActivated.ZF2).toBeUndefined();
+
+    clock.advance(1_000);
+    await flushAsync();
+    expect(domain.snapshot.daiActivated.ZF2).toBeDefined();
+    runner.stop('idle');
+  });
+
+  it('only matches the expected zone', async () => {
+    const { clock, domain, runner } = createHarness([
+      { id: 'event-1', type: 'DM_TRIGGER', zoneId: 'ZF1', offset: 0 },
+      { id: 'event-2', type: 'DM_TRIGGER', zoneId: 'ZF2', offset: 0 },
+      { id: 'event-3', type: 'WAIT_FOR', event: 'DM_RESET', zoneId: 'zf2', offset: 1 },
+    ]);
+
+    clock.advance(1_000);
+    await flushAsync();
+    domain.resetDm('ZF1');
+    expect(runner.state.awaiting).toMatchObject({ event: 'DM_RESET', zoneId: 'ZF2' });
+
+    domain.resetDm('ZF2');
+    expect(runner.state.awaiting).toBeNull();
+    runner.stop('idle');
+  });
+
+  it('branches to the timeout event when the trainee does not act in time', async () => {
+    const { clock, domain, runner } = createHarness([
+      { id: 'event-1', type: 'DAI_TRIGGER', zoneId: 'ZF1', offset: 0 },
+      {
+        id: 'event-2',
+        type: 'WAIT_FOR',
+        event: 'AUDIBLE_SILENCED',
+        offset: 1,
+        timeout: 30,
+        timeoutEventId: RETRY_EVENT_ID,
+      },
+      { id: 'event-3', type: 'DAI_TRIGGER', zoneId: 'ZF2', offset: 2 },
+      { id: RETRY_EVENT_ID, type: 'DAI_TRIGGER', zoneId: 'ZF3', offset: 60 },
+    ]);
+
+    clock.advance(1_000);
+    await flushAsync();
+    expect(runner.state.awaiting?.deadline).toBe(runner.state.awaiting!.since + 30_000);
+
+    runner.pause();
+    clock.advance(60_000);
+    runner.resume();
+    expect(runner.state.awaiting).not.toBeNull();
+
+    clock.advance(30_000);
+    await flushAsync();
+    expect(runner.state.awaiting).toBeNull();
+    expect(domain.snapshot.daiActivated.ZF3).toBeDefined();
+    expect(domain.snapshot.daiActivated.ZF2).toBeUndefined();
+    runner.stop('idle');
+  });
+
+  it('completes the scenario once the awaited system reset happens', async () => {
+    const { clock, domain, runner } = createHarness([
+      { id: 'event-1', type: 'DM_TRIGGER', zoneId: 'ZF1', offset: 0 },
+      { id: 'event-2', type: 'SYSTEM_RESET', offset: 1 },
+    ]);
+
+    clock.advance(1_000);
+    await flushAsync();
+    expect(runner.state.awaitingSystemReset).toBe(true);
+    expect(runner.state.awaiting).toMatchObject({ event: 'SYSTEM_RESET' });
+
+    domain.resetDm('ZF1');
+    expect(domain.trySystemReset()).toEqual({ ok: true });
+    expect(runner.state.status).toBe('completed');
+  });
+});
@@ -0,0 +1,93 @@
+import { SessionManager } from '../session-manager';
+
+jest.mock('../prisma', () => ({
+  prisma: {
+    session: { updateMany: jest.fn(), findUniqueOrThrow: jest.fn() },
+  },
+}));
+
+jest.mock('../session-scoring', () => ({
+  scoreSession: jest.fn(() => Promise.resolve()),
+}));
+
+jest.mock('../report-generator', () => ({
+  generateSessionReport: jest.fn(() => Promise.resolve(null)),
+}));
+
+const { prisma: mockPrisma } = jest.requireMock('../prisma') as {
+  prisma: { session: { updateMany: jest.Mock; findUniqueOrThrow: jest.Mock } };
+};
+const { scoreSession } = jest.requireMock('../session-scoring') as { scoreSession: jest.Mock };
+const { generateSessionReport } = jest.requireMock('../report-generator') as {
+  generateSessionReport: jest.Mock;
+};
+
+const SESSION_ID = '5c2d7e91-3b4a-4f6e-8d10-a7b9c3e2f5d4';
+
+describe('SessionManager.closeSession', () => {
+  let endedAt: Date | null;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    endedAt = null;
+    // Reproduit l'écriture conditionnelle de la base : seule la première clôture trouve `endedAt` nul.
+    mockPrisma.session.updateMany.mockImplementation(async ({ where, data }) => {
+      await Promise.resolve();
+      if (where.endedAt !== null || endedAt !== null) {
+        return { count: 0 };
+      }
+      endedAt = data.endedAt;
+      return { count: 1 };
+    });
+    mockPrisma.session.findUniqueOrThrow.mockImplementation(async () => ({
+      id: SESSION_ID,
+      name: 'Exercice',
+      mode: 'training',
+      objective: null,
+      notes: null,
+      improvementJson: null,
+      startedAt: new Date('2026-10-18T08:00:00Z'),
+      endedAt,
+      roomId: 'default',
+      trainee: null,
+      trainer: null,
+      participants: [],
+    }));
+  });
+
+  it('scores and reports a session once when it is closed twice in parallel', async () => {
+    const manager = new SessionManager();
+
+    const [first, second] = await Promise.all([
+      manager.closeSession(SESSION_ID, {}),
+      manager.closeSession(SESSION_ID, {}),
+    ]);
+
+    expect(first.status).toBe('completed');
+    expect(second).toEqual(first);
+    expect(mockPrisma.session.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: SESSION_ID, roomId: 'default', endedAt: null } }),
+    );
+    expect(scoreSession).toHaveBeenCalledTimes(1);
+    expect(generateSessionReport).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps the debrief sent for an already closed session without scoring it again', async () => {
+    const manager = new SessionManager();
+    await manager.closeSession(SESSION_ID, {});
+    jest.clearAllMocks();
+
+    const closed = await manager.closeSession(SESSION_ID, {
+      notes: 'Levée de doute trop lente',
+      improvementAreas: [],
+    });
+
+    expect(closed.status).toBe('completed');
+    expect(mockPrisma.session.updateMany).toHaveBeenLastCalledWith({
+      where: { id: SESSION_ID, roomId: 'default' },
+      data: { notes: 'Levée de doute trop lente', improvementJson: null },
+    });
+    expect(scoreSession).not.toHaveBeenCalled();
+    expect(generateSessionReport).not.toHaveBeenCalled();
+  });
+});
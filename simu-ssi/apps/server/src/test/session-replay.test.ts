@@ -0,0 +1,138 @@
+import type { SiteTopology } from '@simu-ssi/sdk';
+
+import { buildSessionReplay, ReplayPlayer } from '../session-replay';
+
+jest.mock('../prisma', () => ({
+  prisma: {
+    session: { findUnique: jest.fn() },
+    eventLog: { findMany: jest.fn() },
+    siteConfig: { findUnique: jest.fn() },
+  },
+}));
+
+const { prisma: mockPrisma } = jest.requireMock('../prisma') as {
+  prisma: {
+    session: { findUnique: jest.Mock };
+    eventLog: { findMany: jest.Mock };
+    siteConfig: { findUnique: jest.Mock };
+  };
+};
+
+const SESSION_ID = '3e6b1a0c-8d2f-4c71-9a5e-4f0b2d7c1e93';
+const ORIGIN = Date.UTC(2024, 2, 1, 9);
+
+function logRow(id: number, simulatedOffsetMs: number, details: Record<string, unknown>, source = 'CMSI') {
+  return {
+    id,
+    ts: new Date(ORIGIN + id * 1000),
+    sessionId: SESSION_ID,
+    source,
+    message: null,
+    zoneId: null,
+    payloadJson: JSON.stringify({ ...details, simulatedAt: ORIGIN + simulatedOffsetMs }),
+  };
+}
+
+describe('session replay', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.session.findUnique.mockResolvedValue({
+      id: SESSION_ID,
+      roomId: 'banc-2',
+      name: 'Exercice DM',
+      startedAt: new Date(ORIGIN),
+    });
+    mockPrisma.siteConfig.findUnique.mockResolvedValue({
+      evacOnDMDelayMs: 60000,
+      processAckRequired: true,
+      evacOnDAI: false,
+    });
+    mockPrisma.eventLog.findMany.mockResolvedValue([
+      logRow(1, 0, { event: 'DM_LATCHED', zoneId: 'ZF1', deviceId: 'DM-1' }),
+      {
+        id: 2,
+        ts: new Date(ORIGIN + 5000),
+        sessionId: SESSION_ID,
+        source: 'TRAINER',
+        message: null,
+        zoneId: null,
+        payloadJson: JSON.stringify({ action: 'scenario-run' }),
+      },
+      logRow(3, 20000, { event: 'AUDIBLE_SILENCED' }),
+      logRow(4, 90000, { event: 'SYSTEM_RESET' }),
+    ]);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('returns null for an unknown session', async () => {
+    mockPrisma.session.findUnique.mockResolvedValue(null);
+
+    await expect(buildSessionReplay(SESSION_ID)).resolves.toBeNull();
+    expect(mockPrisma.eventLog.findMany).not.toHaveBeenCalled();
+  });
+
+  it('rebuilds successive snapshots on the simulated timeline', async () => {
+    const replay = await buildSessionReplay(SESSION_ID);
+
+    expect(replay?.frames.map((frame) => [frame.offsetMs, frame.event])).toEqual([
+      [0, 'DM_LATCHED'],
+      [4000, 'scenario-run'],
+      [20000, 'AUDIBLE_SILENCED'],
+      [90000, 'SYSTEM_RESET'],
+    ]);
+    expect(replay?.initialSnapshot.cmsi.status).toBe('IDLE');
+    expect(replay?.frames[0].snapshot.dmLatched.ZF1?.activeDeviceIds).toEqual(['DM-1']);
+    expect(replay?.frames[2].snapshot.cmsi.status).toBe('EVAC_PENDING');
+    // La temporisation d'évacuation s'est écoulée entre l'arrêt du signal sonore et la tentative de réarmement.
+    expect(replay?.frames[3].snapshot.cmsi.status).toBe('EVAC_ACTIVE');
+  });
+
+  it('replays detections with the detection strategies of the room topology', async () => {
+    mockPrisma.eventLog.findMany.mockResolvedValue([
+      logRow(1, 0, { event: 'DAI_TRIGGERED', zoneId: 'ZD1', deviceId: 'DAI-1' }),
+      logRow(2, 30000, { event: 'DAI_TRIGGERED', zoneId: 'ZD1', deviceId: 'DAI-2' }),
+    ]);
+    const topology: SiteTopology = {
+      zones: [{ id: 'ZD1', label: 'Bureaux', kind: 'ZD', detectionStrategy: 'DOUBLE_KNOCK' }],
+      devices: [],
+    };
+    const loadTopology = jest.fn(async () => topology);
+
+    const replay = await buildSessionReplay(SESSION_ID, { loadTopology });
+
+    expect(loadTopology).toHaveBeenCalledWith('banc-2');
+    expect(replay?.frames[0].snapshot.cmsi).toMatchObject({ status: 'COINCIDENCE_PENDING', zoneId: 'ZD1' });
+    expect(replay?.frames[1].snapshot.cmsi).toMatchObject({ status: 'FIRE_ALARM', zoneIds: ['ZD1'] });
+  });
+
+  it('plays, scrubs and changes speed along the timeline', async () => {
+    jest.useFakeTimers({ now: ORIGIN });
+    const replay = await buildSessionReplay(SESSION_ID);
+    const player = new ReplayPlayer(replay!);
+    const states: Array<{ status: string; frameIndex: number }> = [];
+    player.on('replay.state', (state) => states.push(state));
+
+    player.play();
+    jest.advanceTimersByTime(0);
+    expect(player.state).toMatchObject({ status: 'playing', frameIndex: 0 });
+
+    player.setSpeed(10);
+    jest.advanceTimersByTime(2000);
+    expect(player.state).toMatchObject({ frameIndex: 2, positionMs: 20000 });
+
+    player.seek(5000);
+    expect(player.state).toMatchObject({ frameIndex: 1, positionMs: 5000 });
+
+    jest.advanceTimersByTime(8500);
+    expect(player.state).toMatchObject({ status: 'ended', frameIndex: 3, positionMs: 90000 });
+
+    player.play();
+    player.pause();
+    expect(player.state).toMatchObject({ status: 'paused', frameIndex: 0, positionMs: 0 });
+    expect(states.at(-1)).toMatchObject({ status: 'paused' });
+    player.dispose();
+  });
+});
@@ -0,0 +1,173 @@
+import request from 'supertest';
+
+import { createApp } from './http-fixtures';
+import { getPrismaMock } from './prisma-mock';
+import { signedRequest, useTrainerAuth } from './trainer-auth';
+
+jest.mock('../prisma', () =>
+  jest.requireActual('./prisma-mock').mockPrismaModule({
+    zone: ['findMany'],
+    device: ['findMany'],
+    siteConfig: ['findUnique'],
+    traineeLayout: ['findUnique'],
+    eventLog: ['create'],
+    session: ['findUnique'],
+    user: ['findUnique'],
+    score: ['findMany', 'findFirst', 'create', 'update'],
+  }),
+);
+
+jest.mock('../report-generator', () => ({
+  generateSessionReport: jest.fn(() => Promise.resolve(null)),
+}));
+
+const mockPrisma = getPrismaMock();
+
+const { generateSessionReport } = jest.requireMock('../report-generator') as {
+  generateSessionReport: jest.Mock;
+};
+
+const SESSION_ID = '8a0f3c52-52a4-4d4e-9c55-0b4f1e0d7a11';
+const TRAINER = {
+  id: '1d4e8a6b-2f7c-4b8e-a0c1-5e9f3d2b7c40',
+  fullName: 'Claire Martin',
+  email: null,
+  role: 'TRAINER',
+};
+
+const items = [
+  { id: 'ack', description: 'Acquit process', weight: 3, score: 1, comment: 'Réaction immédiate' },
+  { id: 'evac', description: "Décision d'évacuation", weight: 1, score: 0 },
+];
+
+describe('session score routes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.zone.findMany.mockResolvedValue([]);
+    mockPrisma.device.findMany.mockResolvedValue([]);
+    mockPrisma.siteConfig.findUnique.mockResolvedValue(null);
+    mockPrisma.traineeLayout.findUnique.mockResolvedValue(null);
+    mockPrisma.eventLog.create.mockResolvedValue({});
+    mockPrisma.session.findUnique.mockResolvedValue({ id: SESSION_ID, endedAt: new Date() });
+    mockPrisma.user.findUnique.mockResolvedValue(TRAINER);
+    mockPrisma.score.findFirst.mockResolvedValue(null);
+    mockPrisma.score.create.mockImplementation(({ data }) =>
+      Promise.resolve({ id: 7, ...data, user: TRAINER }),
+    );
+  });
+
+  it('records a trainer evaluation and regenerates the report of a closed session', async () => {
+    const app = await createApp();
+
+    const response = await request(app)
+      .post(`/api/sessions/${SESSION_ID}/scores`)
+      .send({ evaluatorId: TRAINER.id, rubricName: 'Observation', items, comments: ' Bon réflexe ' });
+
+    expect(response.status).toBe(201);
+    expect(response.body.score).toMatchObject({
+      id: 7,
+      origin: 'MANUAL',
+      rubricName: 'Observation',
+      value: 75,
+      comments: 'Bon réflexe',
+      evaluator: { id: TRAINER.id, role: 'TRAINER' },
+    });
+    expect(response.body.score.items[0]).toMatchObject({ id: 'ack', comment: 'Réaction immédiate' });
+    const { data } = mockPrisma.score.create.mock.calls[0][0];
+    expect(JSON.parse(data.rubricJson)).toMatchObject({ origin: 'MANUAL', rules: items });
+    expect(generateSessionReport).toHaveBeenCalledWith(SESSION_ID);
+  });
+
+  it('rejects invalid rubric items and a second evaluation from the same trainer', async () => {
+    const app = await createApp();
+
+    const invalid = await request(app)
+      .post(`/api/sessions/${SESSION_ID}/scores`)
+      .send({ evaluatorId: TRAINER.id, items: [{ ...items[0], score: 2 }] });
+    expect(invalid.status).toBe(400);
+
+    mockPrisma.score.findFirst.mockResolvedValue({ id: 3 });
+    const duplicate = await request(app)
+      .post(`/api/sessions/${SESSION_ID}/scores`)
+      .send({ evaluatorId: TRAINER.id, items });
+    expect(duplicate.status).toBe(409);
+    expect(mockPrisma.score.create).not.toHaveBeenCalled();
+  });
+
+  it('updates a trainer evaluation but keeps automatic scores read-only', async () => {
+    const app = await createApp();
+    const manual = {
+      id: 7,
+      sessionId: SESSION_ID,
+      userId: TRAINER.id,
+      value: 75,
+      comments: null,
+      user: TRAINER,
+      session: { id: SESSION_ID, endedAt: null },
+      rubricJson: JSON.stringify({ origin: 'MANUAL', rubricName: 'Observation', rules: items }),
+    };
+    mockPrisma.score.findFirst.mockResolvedValue(manual);
+    mockPrisma.score.update.mockImplementation(({ data }) => Promise.resolve({ ...manual, ...data }));
+
+    const updated = await request(app)
+      .put(`/api/sessions/${SESSION_ID}/scores/7`)
+      .send({ items: [{ ...items[1], score: 0.5 }] });
+    expect(updated.status).toBe(200);
+    expect(updated.body.score).toMatchObject({ value: 50, rubricName: 'Observation' });
+    expect(generateSessionReport).not.toHaveBeenCalled();
+
+    mockPrisma.score.findFirst.mockResolvedValue({
+      ...manual,
+      user: null,
+      rubricJson: JSON.stringify({ origin: 'AUTO', rubricName: 'Grille standard CMSI', rules: [] }),
+    });
+    const automatic = await request(app).put(`/api/sessions/${SESSION_ID}/scores/7`).send({ comments: 'Vu' });
+    expect(automatic.status).toBe(409);
+  });
+
+  describe('with authentication', () => {
+    useTrainerAuth();
+
+    it('records the evaluation in the name of the signed-in trainer only', async () => {
+      const app = await createApp();
+
+      const forged = await signedRequest(app, 'TRAINER')
+        .post(`/api/sessions/${SESSION_ID}/scores`)
+        .send({ evaluatorId: TRAINER.id, items });
+      expect(forged.status).toBe(403);
+      expect(forged.body).toEqual({ error: 'EVALUATOR_MISMATCH' });
+
+      const own = await signedRequest(app, 'TRAINER', TRAINER.id)
+        .post(`/api/sessions/${SESSION_ID}/scores`)
+        .send({ evaluatorId: TRAINER.id, items });
+      expect(own.status).toBe(201);
+      expect(mockPrisma.user.findUnique).toHaveBeenCalledWith({ where: { id: TRAINER.id } });
+    });
+
+    it('lets only the author or an administrator update an evaluation', async () => {
+      const app = await createApp();
+      const manual = {
+        id: 7,
+        sessionId: SESSION_ID,
+        userId: TRAINER.id,
+        value: 75,
+        comments: null,
+        user: TRAINER,
+        session: { id: SESSION_ID, endedAt: null },
+        rubricJson: JSON.stringify({ origin: 'MANUAL', rubricName: 'Observation', rules: items }),
+      };
+      mockPrisma.score.findFirst.mockResolvedValue(manual);
+      mockPrisma.score.update.mockImplementation(({ data }) => Promise.resolve({ ...manual, ...data }));
+      const update = (client: ReturnType<typeof signedRequest>) =>
+        client.put(`/api/sessions/${SESSION_ID}/scores/7`).send({ comments: 'Revu' });
+
+      const other = await update(signedRequest(app, 'TRAINER'));
+      expect(other.status).toBe(403);
+      expect(other.body).toEqual({ error: 'SCORE_NOT_OWNED' });
+      expect(mockPrisma.score.update).not.toHaveBeenCalled();
+
+      expect((await update(signedRequest(app, 'TRAINER', TRAINER.id))).status).toBe(200);
+      expect((await update(signedRequest(app, 'ADMIN'))).status).toBe(200);
+    });
+  });
+});
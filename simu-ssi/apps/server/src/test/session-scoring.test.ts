@@ -0,0 +1,164 @@
+import { scoreSession, toScoringEvent } from '../session-scoring';
+
+jest.mock('../prisma', () => ({
+  prisma: {
+    eventLog: { findMany: jest.fn() },
+    scenario: { findUnique: jest.fn() },
+    score: { create: jest.fn() },
+    user: { findMany: jest.fn() },
+  },
+}));
+
+const { prisma: mockPrisma } = jest.requireMock('../prisma') as {
+  prisma: {
+    eventLog: { findMany: jest.Mock };
+    scenario: { findUnique: jest.Mock };
+    score: { create: jest.Mock };
+    user: { findMany: jest.Mock };
+  };
+};
+
+const startedAt = new Date('2024-03-01T09:00:00Z').getTime();
+
+function row(id: number, offsetMs: number, source: string, payload: Record<string, unknown>) {
+  return {
+    id,
+    ts: new Date(startedAt + offsetMs),
+    source,
+    zoneId: typeof payload.zoneId === 'string' ? payload.zoneId : null,
+    payloadJson: JSON.stringify(payload),
+  };
+}
+
+describe('session scoring', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.score.create.mockResolvedValue({});
+  });
+
+  it('maps domain events and server actions from the event log', () => {
+    expect(toScoringEvent(row(1, 0, 'SDI_DM', { zoneId: 'zf1', event: 'DM_LATCHED' }))).toMatchObject({
+      id: '1',
+      type: 'DM_LATCHED',
+      zoneId: 'ZF1',
+    });
+    expect(toScoringEvent(row(2, 0, 'TRAINEE', { action: 'system-reset-rejected' }))).toMatchObject({
+      type: 'system-reset-rejected',
+      source: 'TRAINEE',
+    });
+    expect(toScoringEvent({ ...row(3, 0, 'CMSI', {}), payloadJson: null })).toBeNull();
+  });
+
+  it('persists an automatic score with the rubric breakdown', async () => {
+    mockPrisma.eventLog.findMany.mockResolvedValue([
+      row(1, 0, 'SDI_DM', { zoneId: 'ZF1', event: 'DM_LATCHED' }),
+      row(2, 0, 'CMSI', { zoneIds: ['ZF1'], event: 'FIRE_ALARM_STARTED' }),
+      row(3, 10_000, 'TRAINEE', { event: 'AUDIBLE_SILENCED' }),
+      row(4, 20_000, 'CMSI', { ackedBy: 'trainee', event: 'PROCESS_ACK' }),
+      row(5, 60_000, 'SDI_DM', { zoneId: 'ZF1', event: 'DM_RESET' }),
+      row(6, 90_000, 'CMSI', { event: 'SYSTEM_RESET' }),
+    ]);
+
+    const breakdown = await scoreSession('session-1');
+
+    expect(breakdown?.value).toBe(100);
+    expect(mockPrisma.eventLog.findMany).toHaveBeenCalledWith({
+      where: { sessionId: 'session-1' },
+      orderBy: [{ ts: 'asc' }, { id: 'asc' }],
+    });
+    const { data } = mockPrisma.score.create.mock.calls[0][0];
+    expect(data).toMatchObject({ sessionId: 'session-1', value: 100 });
+    const rubric = JSON.parse(data.rubricJson);
+    expect(rubric).toMatchObject({ origin: 'AUTO', rubricId: 'default' });
+    expect(rubric.rules.find((rule: { id: string }) => rule.id === 'ack-after-dm')).toMatchObject({
+      score: 1,
+      delaysMs: [20_000],
+    });
+  });
+
+  it('measures reaction times on the simulated clock', async () => {
+    // Exercice à vitesse ×4 : 20 s simulées s'écoulent en 5 s réelles.
+    mockPrisma.eventLog.findMany.mockResolvedValue([
+      row(1, 0, 'SDI_DM', { zoneId: 'ZF1', event: 'DM_LATCHED', simulatedAt: startedAt }),
+      row(2, 5_000, 'CMSI', { ackedBy: 'trainee', event: 'PROCESS_ACK', simulatedAt: startedAt + 20_000 }),
+    ]);
+
+    await scoreSession('session-1');
+
+    const rubric = JSON.parse(mockPrisma.score.create.mock.calls[0][0].data.rubricJson);
+    expect(rubric.rules.find((rule: { id: string }) => rule.id === 'ack-after-dm')).toMatchObject({
+      delaysMs: [20_000],
+    });
+  });
+
+  it('breaks the automatic score down per trainee', async () => {
+    mockPrisma.eventLog.findMany.mockResolvedValue([
+      row(1, 0, 'SDI_DM', { zoneId: 'ZF1', event: 'DM_LATCHED' }),
+      { ...row(2, 5_000, 'TRAINEE', { action: 'system-reset-rejected' }), actorId: 'trainee-b' },
+      { ...row(3, 20_000, 'CMSI', { ackedBy: 'trainee', event: 'PROCESS_ACK' }), actorId: 'trainee-a' },
+    ]);
+    mockPrisma.user.findMany.mockResolvedValue([
+      { id: 'trainee-a', fullName: 'Alice Durand' },
+      { id: 'trainee-b', fullName: 'Bruno Petit' },
+    ]);
+
+    await scoreSession('session-1');
+
+    const rubric = JSON.parse(mockPrisma.score.create.mock.calls[0][0].data.rubricJson);
+    expect(rubric.actors).toEqual([
+      { actorId: 'trainee-b', fullName: 'Bruno Petit', actionCount: 1, responseCount: 0, violationCount: 1 },
+      { actorId: 'trainee-a', fullName: 'Alice Durand', actionCount: 1, responseCount: 1, violationCount: 0 },
+    ]);
+  });
+
+  it('applies the rubric of the scenario run during the session', async () => {
+    mockPrisma.eventLog.findMany.mockResolvedValue([
+      row(1, 0, 'TRAINER', { action: 'scenario-run', scenarioId: 'scenario-1' }),
+      row(2, 1_000, 'SDI_DM', { zoneId: 'ZF1', event: 'DM_LATCHED' }),
+      row(3, 61_000, 'CMSI', { ackedBy: 'trainee', event: 'PROCESS_ACK' }),
+    ]);
+    mockPrisma.scenario.findUnique.mockResolvedValue({
+      id: 'scenario-1',
+      name: 'Exercice DM',
+      json: JSON.stringify({
+        events: [],
+        rubric: {
+          rules: [
+            {
+              id: 'fast-ack',
+              kind: 'REACTION_TIME',
+              description: 'Acquit en moins de 20 s',
+              weight: 1,
+              trigger: 'DM_LATCHED',
+              response: 'PROCESS_ACK',
+              targetMs: 20_000,
+              maxMs: 100_000,
+              feedback: "Acquittez le process dès l'apparition de l'alarme.",
+            },
+          ],
+        },
+      }),
+    });
+
+    const breakdown = await scoreSession('session-1');
+
+    expect(mockPrisma.scenario.findUnique).toHaveBeenCalledWith({ where: { id: 'scenario-1' } });
+    expect(breakdown).toMatchObject({ rubricId: 'scenario-1', rubricName: 'Exercice DM', value: 50 });
+    const rubric = JSON.parse(mockPrisma.score.create.mock.calls[0][0].data.rubricJson);
+    expect(rubric.rules).toEqual([
+      expect.objectContaining({
+        id: 'fast-ack',
+        targetMs: 20_000,
+        feedback: "Acquittez le process dès l'apparition de l'alarme.",
+        score: 0.5,
+      }),
+    ]);
+  });
+
+  it('does not throw when the score cannot be stored', async () => {
+    mockPrisma.eventLog.findMany.mockResolvedValue([]);
+    mockPrisma.score.create.mockRejectedValue(new Error('db down'));
+
+    await expect(scoreSession('session-1')).resolves.toBeNull();
+  });
+});
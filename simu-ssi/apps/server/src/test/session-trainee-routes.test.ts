@@ -0,0 +1,82 @@
+import request from 'supertest';
+import { ACTOR_HEADER } from '@simu-ssi/sdk';
+
+import { currentActorId } from '../actor-context';
+import { createApp, createDomainContext, createSessionManagerStub } from './http-fixtures';
+import { getPrismaMock } from './prisma-mock';
+
+jest.mock('../prisma', () =>
+  jest.requireActual('./prisma-mock').mockPrismaModule({
+    zone: ['findMany'],
+    device: ['findMany'],
+    siteConfig: ['findUnique'],
+    traineeLayout: ['findUnique'],
+    eventLog: ['create'],
+    user: ['findUnique'],
+  }),
+);
+
+const mockPrisma = getPrismaMock();
+
+const SESSION_ID = '8a0f3c52-52a4-4d4e-9c55-0b4f1e0d7a11';
+const OPERATOR = '5b1d7c2e-9a3f-4e6b-8c0d-1f2a3b4c5d6e';
+const OUTSIDER = '0b6c1c0e-3f0e-4a57-9d1f-0d4e5f0a1b2c';
+
+const activeSessionManager = (overrides: Record<string, unknown> = {}) =>
+  createSessionManagerStub({
+    getActiveSessionId: jest.fn(() => SESSION_ID),
+    resolveActorId: jest.fn((candidate?: string) => (candidate === OPERATOR ? candidate : null)),
+    ...overrides,
+  });
+
+describe('session trainee routes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.zone.findMany.mockResolvedValue([]);
+    mockPrisma.device.findMany.mockResolvedValue([]);
+    mockPrisma.siteConfig.findUnique.mockResolvedValue(null);
+    mockPrisma.traineeLayout.findUnique.mockResolvedValue(null);
+    mockPrisma.eventLog.create.mockResolvedValue({});
+  });
+
+  it('attributes commands and the resulting domain events to the acting participant', async () => {
+    const domainContext = createDomainContext();
+    const domainActors: Array<string | undefined> = [];
+    domainContext.domain.emitter.on('events.append', () => domainActors.push(currentActorId()));
+    const app = await createApp(domainContext, activeSessionManager());
+
+    await request(app).post('/api/sdi/dai/ZF1/activate').set(ACTOR_HEADER, OUTSIDER).send();
+    expect(domainActors.length).toBeGreaterThan(0);
+    expect(domainActors.every((actorId) => actorId === undefined)).toBe(true);
+
+    domainActors.length = 0;
+    const silenced = await request(app).post('/api/uga/silence').set(ACTOR_HEADER, OPERATOR).send();
+
+    expect(silenced.status).toBe(202);
+    expect(mockPrisma.eventLog.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        actorId: OPERATOR,
+        sessionId: SESSION_ID,
+        payloadJson: JSON.stringify({ action: 'uga-silence' }),
+      }),
+    });
+    expect(domainActors).toContain(OPERATOR);
+  });
+
+  it('adds trainees to the session team', async () => {
+    const session = { id: SESSION_ID, trainees: [{ id: OPERATOR }] };
+    const addTrainee = jest.fn(async () => session);
+    const app = await createApp(createDomainContext(), activeSessionManager({ addTrainee }));
+
+    mockPrisma.user.findUnique.mockResolvedValueOnce({ id: OPERATOR, role: 'TRAINEE' });
+    const joined = await request(app).post(`/api/sessions/${SESSION_ID}/trainees`).send({ traineeId: OPERATOR });
+    expect(joined.status).toBe(200);
+    expect(joined.body.session).toEqual(session);
+    expect(addTrainee).toHaveBeenCalledWith(SESSION_ID, OPERATOR);
+
+    mockPrisma.user.findUnique.mockResolvedValueOnce({ id: OUTSIDER, role: 'TRAINER' });
+    const rejected = await request(app).post(`/api/sessions/${SESSION_ID}/trainees`).send({ traineeId: OUTSIDER });
+    expect(rejected.status).toBe(400);
+    expect(rejected.body).toEqual({ error: 'USER_IS_NOT_TRAINEE' });
+  });
+});
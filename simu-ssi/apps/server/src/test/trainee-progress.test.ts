@@ -0,0 +1,115 @@
+import { buildTraineeProgress } from '../trainee-progress';
+
+jest.mock('../prisma', () => ({
+  prisma: {
+    user: { findUnique: jest.fn() },
+    session: { findMany: jest.fn() },
+  },
+}));
+
+jest.mock('../improvement-generator', () => ({
+  generateImprovementAreasForSession: jest.fn(),
+}));
+
+const { prisma: mockPrisma } = jest.requireMock('../prisma') as {
+  prisma: {
+    user: { findUnique: jest.Mock };
+    session: { findMany: jest.Mock };
+  };
+};
+
+const { generateImprovementAreasForSession } = jest.requireMock('../improvement-generator') as {
+  generateImprovementAreasForSession: jest.Mock;
+};
+
+const TRAINEE_ID = '5b1f0c9e-2a7d-4f3b-8e6a-9c0d1e2f3a4b';
+const TRAINER = { id: 'c4a7e2d1-0b3f-4e59-8a6c-7d2e1f0a9b38', fullName: 'Claire Martin', email: null, role: 'TRAINER' };
+
+function autoScore(id: number, sessionId: string, value: number, ackScore: number) {
+  return {
+    id,
+    sessionId,
+    value,
+    comments: null,
+    user: null,
+    rubricJson: JSON.stringify({
+      origin: 'AUTO',
+      rubricName: 'Grille standard CMSI',
+      rules: [
+        { id: 'ack-after-dm', description: 'Acquit process après DM', weight: 3, score: ackScore },
+        { id: 'ack-before-reset', description: 'Acquit avant réarmement', weight: 2, score: null },
+      ],
+    }),
+  };
+}
+
+function session(id: string, day: number, scores: unknown[]) {
+  return {
+    id,
+    name: `Session ${day}`,
+    startedAt: new Date(`2024-03-0${day}T09:00:00Z`),
+    endedAt: new Date(`2024-03-0${day}T10:00:00Z`),
+    scores,
+  };
+}
+
+describe('trainee progress', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('returns null for an unknown user', async () => {
+    mockPrisma.user.findUnique.mockResolvedValue(null);
+
+    await expect(buildTraineeProgress(TRAINEE_ID)).resolves.toBeNull();
+    expect(mockPrisma.session.findMany).not.toHaveBeenCalled();
+  });
+
+  it('aggregates the score trend, recurring improvement areas and rule success rates', async () => {
+    mockPrisma.user.findUnique.mockResolvedValue({ id: TRAINEE_ID, fullName: 'Léa Petit', email: null, role: 'TRAINEE' });
+    mockPrisma.session.findMany.mockResolvedValue([
+      session('11111111-1111-4111-8111-111111111111', 1, [autoScore(1, 's1', 40, 0.5)]),
+      session('22222222-2222-4222-8222-222222222222', 2, [
+        {
+          id: 2,
+          sessionId: 's2',
+          value: 70,
+          comments: null,
+          user: TRAINER,
+          rubricJson: JSON.stringify({
+            origin: 'MANUAL',
+            rules: [{ id: 'evac', description: "Décision d'évacuation", weight: 1, score: 0.5 }],
+          }),
+        },
+      ]),
+      session('33333333-3333-4333-8333-333333333333', 3, [autoScore(3, 's3', 85, 1)]),
+    ]);
+    generateImprovementAreasForSession
+      .mockResolvedValueOnce([{ title: 'Acquitter plus rapidement le process' }])
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([
+        { title: 'Acquitter plus rapidement le process' },
+        { title: 'Réarmer les DM déclenchés' },
+      ]);
+
+    const progress = await buildTraineeProgress(TRAINEE_ID);
+
+    expect(mockPrisma.session.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { OR: [{ traineeId: TRAINEE_ID }, { participants: { some: { userId: TRAINEE_ID } } }] },
+        orderBy: { startedAt: 'asc' },
+      }),
+    );
+    expect(progress?.sessions.map((entry) => entry.value)).toEqual([40, 70, 85]);
+    expect(progress?.sessions[1]).toMatchObject({ automaticScore: null, trainerScore: 70 });
+    expect(progress).toMatchObject({ averageScore: 65, trend: 45 });
+    expect(progress?.recurringImprovementAreas[0]).toMatchObject({
+      title: 'Acquitter plus rapidement le process',
+      occurrences: 2,
+    });
+    expect(progress?.ruleSuccessRates).toEqual([
+      expect.objectContaining({ ruleId: 'evac', origin: 'MANUAL', evaluations: 1, successRate: 0 }),
+      expect.objectContaining({ ruleId: 'ack-after-dm', evaluations: 2, successRate: 0.5, averageScore: 0.75 }),
+    ]);
+  });
+});
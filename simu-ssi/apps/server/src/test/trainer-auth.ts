@@ -0,0 +1,59 @@
+import request from 'supertest';
+import { CONSOLE_HEADER } from '@simu-ssi/sdk';
+
+import { signAccessToken, type AccessTokenClaims } from '../user-auth';
+
+const TEST_AUTH_SECRET = 'trainer-test-secret';
+
+/**
+ * Fixe le secret de signature des jetons pendant chaque test, avant la création du serveur, pour
+ * que les requêtes de `trainerRequest` y soient authentifiées.
+ */
+export function useTrainerAuth(): void {
+  beforeEach(() => {
+    process.env.SIMU_SSI_AUTH_SECRET = TEST_AUTH_SECRET;
+  });
+  afterEach(() => {
+    delete process.env.SIMU_SSI_AUTH_SECRET;
+  });
+}
+
+/** Requêtes portant le jeton signé d'un utilisateur connecté avec le rôle donné, dans sa propre session. */
+export function signedRequest(
+  app: Parameters<typeof request>[0],
+  role: AccessTokenClaims['role'],
+  userId = `${role.toLowerCase()}-1`,
+) {
+  const exp = Math.floor(Date.now() / 1000) + 3600;
+  const accessToken = signAccessToken(
+    { sub: userId, role, sid: `${userId}-session`, exp },
+    TEST_AUTH_SECRET,
+  );
+  const authorization = `Bearer ${accessToken}`;
+  const client = request(app);
+  return {
+    get: (url: string) => client.get(url).set('Authorization', authorization),
+    post: (url: string) => client.post(url).set('Authorization', authorization),
+    put: (url: string) => client.put(url).set('Authorization', authorization),
+    delete: (url: string) => client.delete(url).set('Authorization', authorization),
+  };
+}
+
+/** Requêtes d'un formateur connecté : ses commandes ne dépendent pas du niveau d'accès du clavier. */
+export function trainerRequest(app: Parameters<typeof request>[0]) {
+  return signedRequest(app, 'TRAINER');
+}
+
+/**
+ * Requêtes de la console formateur sans authentification : elle s'annonce par son en-tête et ses
+ * commandes ne dépendent pas du niveau d'accès du clavier.
+ */
+export function consoleRequest(app: Parameters<typeof request>[0]) {
+  const client = request(app);
+  return {
+    get: (url: string) => client.get(url).set(CONSOLE_HEADER, '1'),
+    post: (url: string) => client.post(url).set(CONSOLE_HEADER, '1'),
+    put: (url: string) => client.put(url).set(CONSOLE_HEADER, '1'),
+    delete: (url: string) => client.delete(url).set(CONSOLE_HEADER, '1'),
+  };
+}
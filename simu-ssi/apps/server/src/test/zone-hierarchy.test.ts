@@ -0,0 +1,100 @@
+import { createApp, createDomainContext } from './http-fixtures';
+import { getPrismaMock } from './prisma-mock';
+import { consoleRequest } from './trainer-auth';
+
+jest.mock('../prisma', () =>
+  jest.requireActual('./prisma-mock').mockPrismaModule({
+    zone: ['findMany'],
+    device: ['findMany'],
+    siteConfig: ['findUnique'],
+    traineeLayout: ['findUnique'],
+    eventLog: ['create'],
+    permissionGrant: ['findMany'],
+    processAck: ['upsert'],
+  }),
+);
+
+const mockPrisma = getPrismaMock();
+
+const zone = (id: string, kind: string, alarmZoneId?: string, safetyZoneIds?: string[]) => ({
+  id,
+  label: `Zone ${id}`,
+  kind,
+  alarmZoneId: alarmZoneId ?? null,
+  safetyZoneIdsJson: safetyZoneIds ? JSON.stringify(safetyZoneIds) : null,
+});
+
+describe('zone hierarchy', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.zone.findMany.mockResolvedValue([
+      zone('ZA1', 'ZA'),
+      zone('ZA2', 'ZA'),
+      zone('ZS1', 'ZS'),
+      zone('ZC1', 'ZC'),
+      zone('ZD1', 'ZD', 'ZA1', ['ZS1']),
+      zone('ZD3', 'ZD', 'ZA2', ['ZC1']),
+    ]);
+    mockPrisma.device.findMany.mockResolvedValue([]);
+    mockPrisma.siteConfig.findUnique.mockResolvedValue(null);
+    mockPrisma.traineeLayout.findUnique.mockResolvedValue(null);
+    mockPrisma.eventLog.create.mockResolvedValue({});
+    mockPrisma.permissionGrant.findMany.mockResolvedValue([]);
+    mockPrisma.processAck.upsert.mockResolvedValue({});
+  });
+
+  it('evacuates only the alarm and safety zones of the persisted topology', async () => {
+    const app = await createApp(createDomainContext({ config: { evacOnDai: true } }));
+
+    const topology = await consoleRequest(app).get('/api/topology');
+    expect(topology.body.zones).toContainEqual({
+      id: 'ZD3',
+      label: 'Zone ZD3',
+      kind: 'ZD',
+      alarmZoneId: 'ZA2',
+      safetyZoneIds: ['ZC1'],
+    });
+
+    await consoleRequest(app).post('/api/sdi/dai/ZD3/activate').send();
+    const state = await consoleRequest(app).get('/api/state');
+    expect(state.body.alarmZones.ZA1.evacuating).toBe(false);
+    expect(state.body.alarmZones.ZA2).toMatchObject({
+      evacuating: true,
+      detectionZoneIds: ['ZD3'],
+    });
+    expect(state.body.safetyZones.ZS1.dasApplied).toBe(false);
+    expect(state.body.safetyZones.ZC1.dasApplied).toBe(true);
+  });
+
+  it('acknowledges the evacuation countdown of a single alarm zone', async () => {
+    const app = await createApp(createDomainContext({ config: { evacOnDai: true } }));
+
+    await consoleRequest(app).post('/api/sdi/dm/ZD1/activate').send();
+    await consoleRequest(app).post('/api/sdi/dm/ZD3/activate').send();
+    const ack = await consoleRequest(app).post('/api/process/ack').send({ zoneId: 'ZA1' });
+    expect(ack.status).toBe(204);
+
+    const state = await consoleRequest(app).get('/api/state');
+    expect(state.body.cmsi.evacuations.ZA1).toMatchObject({
+      status: 'SUSPENDED',
+      detectionZoneIds: ['ZD1'],
+    });
+    expect(state.body.cmsi.evacuations.ZA2).toMatchObject({
+      status: 'PENDING',
+      detectionZoneIds: ['ZD3'],
+    });
+  });
+
+  it('rejects a topology that maps a zone to an unknown alarm zone', async () => {
+    const app = await createApp(createDomainContext({ config: { evacOnDai: true } }));
+
+    const response = await consoleRequest(app)
+      .put('/api/topology')
+      .send({
+        zones: [{ id: 'ZD1', label: 'Hall', kind: 'ZD', alarmZoneId: 'ZA9' }],
+        devices: [],
+      });
+    expect(response.status).toBe(400);
+    expect(response.body.error).toContain('ZA9');
+  });
+});
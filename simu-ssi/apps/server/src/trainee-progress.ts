@@ -0,0 +1,123 @@
+import type { TraineeProgress } from '@simu-ssi/sdk';
+import { prisma } from './prisma';
+import { createLogger } from './logger';
+import { generateImprovementAreasForSession } from './improvement-generator';
+import { serializeSessionScore } from './session-scoring';
+
+const log = createLogger('TraineeProgress');
+
+/** Une règle est considérée réussie lorsque sa note atteint ce seuil. */
+const RULE_SUCCESS_THRESHOLD = 1;
+
+function average(values: number[]): number | null {
+  if (values.length === 0) {
+    return null;
+  }
+  const total = values.reduce((acc, value) => acc + value, 0);
+  return Math.round((total / values.length) * 10) / 10;
+}
+
+/**
+ * Agrège les sessions d'un apprenant : évolution de la note (notation automatique,
+ * à défaut moyenne des évaluations formateur), axes d'amélioration récurrents et
+ * taux de réussite par critère. Renvoie `null` si l'utilisateur n'existe pas.
+ */
+export async function buildTraineeProgress(userId: string): Promise<TraineeProgress | null> {
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+  if (!user) {
+    return null;
+  }
+  const sessions = await prisma.session.findMany({
+    where: { OR: [{ traineeId: userId }, { participants: { some: { userId } } }] },
+    orderBy: { startedAt: 'asc' },
+    include: { scores: { include: { user: true }, orderBy: { id: 'asc' } } },
+  });
+
+  const improvementCounts = new Map<
+    string,
+    { title: string; description?: string; occurrences: number; sessionIds: string[] }
+  >();
+  const ruleStats = new Map<
+    string,
+    { ruleId: string; description: string; origin: 'AUTO' | 'MANUAL'; scores: number[] }
+  >();
+
+  const progressSessions: TraineeProgress['sessions'] = [];
+  for (const session of sessions) {
+    const scores = session.scores.map((score) => serializeSessionScore(score));
+    const automatic = scores.find((score) => score.origin === 'AUTO');
+    const trainerAverage = average(
+      scores.filter((score) => score.origin === 'MANUAL').map((score) => score.value),
+    );
+    progressSessions.push({
+      id: session.id,
+      name: session.name,
+      startedAt: session.startedAt.toISOString(),
+      endedAt: session.endedAt ? session.endedAt.toISOString() : null,
+      status: session.endedAt ? 'completed' : 'active',
+      automaticScore: automatic ? automatic.value : null,
+      trainerScore: trainerAverage,
+      value: automatic ? automatic.value : trainerAverage,
+    });
+
+    for (const score of scores) {
+      for (const item of score.items) {
+        if (item.score === null) {
+          continue;
+        }
+        const key = `${score.origin}:${item.id}`;
+        const entry = ruleStats.get(key) ?? {
+          ruleId: item.id,
+          description: item.description,
+          origin: score.origin,
+          scores: [],
+        };
+        entry.scores.push(item.score);
+        ruleStats.set(key, entry);
+      }
+    }
+
+    const areas = await generateImprovementAreasForSession(session.id);
+    for (const area of areas) {
+      const entry = improvementCounts.get(area.title) ?? {
+        title: area.title,
+        description: area.description,
+        occurrences: 0,
+        sessionIds: [],
+      };
+      entry.occurrences += 1;
+      entry.sessionIds.push(session.id);
+      improvementCounts.set(area.title, entry);
+    }
+  }
+
+  const scored = progressSessions
+    .map((session) => session.value)
+    .filter((value): value is number => value !== null);
+  log.debug('Progression apprenant calculée', { userId, sessionCount: sessions.length });
+  return {
+    user: {
+      id: user.id,
+      fullName: user.fullName,
+      email: user.email,
+      role: user.role === 'TRAINER' ? 'TRAINER' : 'TRAINEE',
+    },
+    sessions: progressSessions,
+    averageScore: average(scored),
+    trend: scored.length >= 2 ? Math.round((scored[scored.length - 1] - scored[0]) * 10) / 10 : null,
+    recurringImprovementAreas: [...improvementCounts.values()].sort(
+      (a, b) => b.occurrences - a.occurrences || a.title.localeCompare(b.title),
+    ),
+    ruleSuccessRates: [...ruleStats.values()]
+      .map((entry) => ({
+        ruleId: entry.ruleId,
+        description: entry.description,
+        origin: entry.origin,
+        evaluations: entry.scores.length,
+        successRate:
+          entry.scores.filter((score) => score >= RULE_SUCCESS_THRESHOLD).length / entry.scores.length,
+        averageScore: entry.scores.reduce((acc, score) => acc + score, 0) / entry.scores.length,
+      }))
+      .sort((a, b) => a.successRate - b.successRate || a.description.localeCompare(b.description)),
+  };
+}
@@ -0,0 +1,116 @@
+import { createHash, createHmac, randomBytes, scryptSync, timingSafeEqual } from 'node:crypto';
+import type { AuthRole } from './auth';
+
+const CREDENTIAL_PREFIX = 'scrypt:v1';
+const KEY_LENGTH = 32;
+const ACCESS_TOKEN_PREFIX = 'ssi';
+
+export const DEFAULT_ACCESS_TOKEN_TTL_S = 15 * 60;
+export const DEFAULT_REFRESH_TOKEN_TTL_S = 12 * 60 * 60;
+
+/** Contenu signé d'un jeton d'accès utilisateur. */
+export interface AccessTokenClaims {
+  /** Identifiant de l'utilisateur (`User.id`). */
+  sub: string;
+  role: AuthRole;
+  /** Session d'authentification (`AuthSession.id`) ayant émis le jeton. */
+  sid: string;
+  /** Expiration, en secondes depuis l'époque Unix. */
+  exp: number;
+}
+
+/** Sessions révoquées par une déconnexion, refusées jusqu'à l'expiration de leurs jetons. */
+const revokedSessions = new Map<string, number>();
+
+export function hashCredential(secret: string): string {
+  const salt = randomBytes(16).toString('base64url');
+  const key = scryptSync(secret, salt, KEY_LENGTH).toString('base64url');
+  return `${CREDENTIAL_PREFIX}:${salt}:${key}`;
+}
+
+export function verifyCredential(secret: string, storedHash: string | null | undefined): boolean {
+  if (!storedHash) {
+    return false;
+  }
+  const [prefix, version, salt, expectedKey] = storedHash.split(':');
+  if (`${prefix}:${version}` !== CREDENTIAL_PREFIX || !salt || !expectedKey) {
+    return false;
+  }
+  const actualKey = scryptSync(secret, salt, KEY_LENGTH);
+  const expectedKeyBuffer = Buffer.from(expectedKey, 'base64url');
+  if (actualKey.length !== expectedKeyBuffer.length) {
+    return false;
+  }
+  return timingSafeEqual(actualKey, expectedKeyBuffer);
+}
+
+/** Jeton d'accès `ssi.<contenu>.<signature>` signé par HMAC-SHA256. */
+export function signAccessToken(claims: AccessTokenClaims, secret: string): string {
+  const payload = Buffer.from(JSON.stringify(claims), 'utf8').toString('base64url');
+  return `${ACCESS_TOKEN_PREFIX}.${payload}.${sign(payload, secret)}`;
+}
+
+export function isAccessToken(token: string): boolean {
+  return token.startsWith(`${ACCESS_TOKEN_PREFIX}.`);
+}
+
+/**
+ * Vérifie la signature et l'expiration d'un jeton d'accès ; renvoie `null` pour un jeton
+ * altéré, expiré ou issu d'une session révoquée.
+ */
+export function verifyAccessToken(token: string, secret: string, now = Date.now()): AccessTokenClaims | null {
+  const [prefix, payload, signature, ...rest] = token.split('.');
+  if (prefix !== ACCESS_TOKEN_PREFIX || !payload || !signature || rest.length > 0) {
+    return null;
+  }
+  const expected = Buffer.from(sign(payload, secret));
+  const provided = Buffer.from(signature);
+  if (expected.length !== provided.length || !timingSafeEqual(expected, provided)) {
+    return null;
+  }
+  let claims: Partial<AccessTokenClaims>;
+  try {
+    claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+  if (
+    typeof claims.sub !== 'string' ||
+    typeof claims.sid !== 'string' ||
+    typeof claims.exp !== 'number' ||
+    (claims.role !== 'TRAINER' && claims.role !== 'TRAINEE' && claims.role !== 'ADMIN')
+  ) {
+    return null;
+  }
+  if (claims.exp * 1000 <= now || isSessionRevoked(claims.sid, now)) {
+    return null;
+  }
+  return claims as AccessTokenClaims;
+}
+
+/** Jeton de rafraîchissement opaque ; seule son empreinte est conservée en base. */
+export function createRefreshToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+export function hashRefreshToken(token: string): string {
+  return createHash('sha256').update(token, 'utf8').digest('hex');
+}
+
+/** Invalide immédiatement les jetons d'accès encore valides d'une session fermée. */
+export function revokeSession(sessionId: string, until: number): void {
+  revokedSessions.set(sessionId, until);
+}
+
+function isSessionRevoked(sessionId: string, now: number): boolean {
+  for (const [id, until] of revokedSessions) {
+    if (until <= now) {
+      revokedSessions.delete(id);
+    }
+  }
+  return revokedSessions.has(sessionId);
+}
+
+function sign(payload: string, secret: string): string {
+  return createHmac('sha256', secret).update(payload, 'utf8').digest('base64url');
+}
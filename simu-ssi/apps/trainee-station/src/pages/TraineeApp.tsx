@@ -3,6 +3,7 @@ import type { ChangeEvent, FormEvent, KeyboardEvent } from 'react';
 import { io } from 'socket.io-client';
 import {
   DEFAULT_TRAINEE_LAYOUT,
+  REPLAY_NAMESPACE,
   SsiSdk,
   traineeLayoutSchema,
   siteTopologySchema,
@@ -16,6 +17,12 @@ import {
   type SessionSummary,
   sessionSchema,
   type UserSummary,
+  clockStateSchema,
+  projectClockNow,
+  type ClockState,
+  type ReplayState,
+  type ReplayTimeline,
+  type AuthSession,
 } from '@simu-ssi/sdk';
 
 function getConfiguredApiToken(): string | undefined {
@@ -23,9 +30,63 @@ function getConfiguredApiToken(): string | undefined {
   return typeof token === 'string' && token.trim().length > 0 ? token.trim() : undefined;
 }
 
-function createSocketOptions() {
-  const token = getConfiguredApiToken();
-  return token ? { auth: { token } } : undefined;
+/** Salle d'exercice ciblée (`?room=<id>`) ; la salle par défaut du serveur si le paramètre est absent. */
+function getConfiguredRoomId(): string | undefined {
+  const roomId = new URLSearchParams(window.location.search).get('room')?.trim();
+  return roomId && roomId.length > 0 ? roomId : undefined;
+}
+
+const STATION_ID_STORAGE_KEY = 'ssi-station-id';
+
+/** Identifiant stable du poste, pour que le serveur compte les codes erronés poste par poste. */
+function getStationId(): string | undefined {
+  try {
+    const stored = window.localStorage.getItem(STATION_ID_STORAGE_KEY);
+    if (stored) {
+      return stored;
+    }
+    const created = window.crypto.randomUUID();
+    window.localStorage.setItem(STATION_ID_STORAGE_KEY, created);
+    return created;
+  } catch (error) {
+    console.error(error);
+    return undefined;
+  }
+}
+
+const REFRESH_TOKEN_STORAGE_KEY = 'ssi-trainee-refresh-token';
+
+function readStoredRefreshToken(): string | undefined {
+  try {
+    return window.sessionStorage.getItem(REFRESH_TOKEN_STORAGE_KEY) ?? undefined;
+  } catch (error) {
+    console.error(error);
+    return undefined;
+  }
+}
+
+function storeRefreshToken(session: AuthSession | null) {
+  try {
+    if (session) {
+      window.sessionStorage.setItem(REFRESH_TOKEN_STORAGE_KEY, session.refreshToken);
+    } else {
+      window.sessionStorage.removeItem(REFRESH_TOKEN_STORAGE_KEY);
+    }
+  } catch (error) {
+    console.error(error);
+  }
+}
+
+/** Le jeton est relu à chaque (re)connexion pour suivre la session de l'apprenant connecté. */
+function createSocketOptions(sdk: SsiSdk) {
+  const roomId = getConfiguredRoomId();
+  return {
+    auth: (callback: (data: object) => void) => {
+      const token = sdk.getAccessToken();
+      callback(token ? { token } : {});
+    },
+    ...(roomId ? { query: { roomId } } : {}),
+  };
 }
 
 
@@ -38,17 +99,46 @@ interface CmsiStateData {
   startedAt?: number;
   zoneIds?: string[];
   pendingEvacuation?: { zoneId: string; deadline: number };
+  evacuations?: Record<
+    string,
+    {
+      alarmZoneId: string;
+      status: 'PENDING' | 'SUSPENDED' | 'ACTIVE';
+      deadline?: number;
+      remainingMs?: number;
+    }
+  >;
+  detections?: Record<
+    string,
+    { zoneId: string; status: 'AWAITING_COINCIDENCE' | 'VERIFYING'; deadline?: number }
+  >;
 }
 
+type DasStatusData = 'WAITING' | 'COMMANDED' | 'SAFETY' | 'FEEDBACK_TIMEOUT' | 'FEEDBACK_FAULT';
+
 interface Snapshot {
   cmsi: CmsiStateData;
   ugaActive: boolean;
+  ugaSilenceableAt?: number;
   localAudibleActive: boolean;
   dasApplied: boolean;
   manualEvacuation: boolean;
   processAck: { isAcked: boolean };
   dmLatched: Record<string, { zoneId: string; deviceId?: string; activeDeviceIds?: string[] }>;
   daiActivated: Record<string, { zoneId: string; deviceId?: string; activeDeviceIds?: string[] }>;
+  power?: {
+    status: 'MAINS' | 'BATTERY' | 'BATTERY_LOW' | 'EXHAUSTED';
+    mainsAvailable: boolean;
+    batteryLow: boolean;
+    batteryExhausted: boolean;
+    autonomyDeadline?: number;
+  };
+  faults?: Record<
+    string,
+    { id: string; kind: string; zoneId?: string; deviceId?: string; label?: string; acknowledged: boolean }
+  >;
+  dasDevices?: Record<string, { deviceId: string; zoneId?: string; status: DasStatusData }>;
+  timersPausedAt?: number;
 }
 
 type BoardModuleTone = 'alarm' | 'info' | 'safe' | 'warning';
@@ -68,6 +158,8 @@ const cmsiStatusLabel: Record<string, string> = {
   EVAC_PENDING: 'Préalarme en cours',
   EVAC_SUSPENDED: 'Suspendu - attente réarmement',
   SAFE_HOLD: 'Maintien en sécurité',
+  COINCIDENCE_PENDING: 'Attente de coïncidence',
+  ALARM_VERIFICATION: 'Levée de doute en cours',
 };
 
 const cmsiStatusTone: Record<string, BoardModuleTone> = {
@@ -76,8 +168,23 @@ const cmsiStatusTone: Record<string, BoardModuleTone> = {
   EVAC_PENDING: 'warning',
   EVAC_SUSPENDED: 'info',
   SAFE_HOLD: 'safe',
+  COINCIDENCE_PENDING: 'warning',
+  ALARM_VERIFICATION: 'warning',
+};
+
+const DAS_STATUS_LABELS: Record<DasStatusData, string> = {
+  WAITING: 'en attente',
+  COMMANDED: 'en manœuvre',
+  SAFETY: 'en position de sécurité',
+  FEEDBACK_TIMEOUT: 'défaut de position (délai dépassé)',
+  FEEDBACK_FAULT: 'défaut de position',
 };
 
+/** Un DAS revenu de sa manœuvre, ou en défaut, attend son réarmement. */
+function isDasAwaitingRearm(status?: DasStatusData): boolean {
+  return status === 'SAFETY' || status === 'FEEDBACK_TIMEOUT' || status === 'FEEDBACK_FAULT';
+}
+
 const DEVICE_MARKER_LABELS: Record<string, string> = {
   DM: 'DM',
   DAI: 'DAI',
@@ -130,13 +237,19 @@ const DEVICE_TRIGGER_SOUND_SRC =
 function translateScenarioStatus(
   status: ScenarioRunnerSnapshot['status'],
   awaitingSystemReset?: boolean,
+  awaiting?: ScenarioRunnerSnapshot['awaiting'],
 ): string {
   if (status === 'running' && awaitingSystemReset) {
     return 'En attente de réarmement';
   }
+  if (status === 'running' && awaiting) {
+    return 'En attente de votre action';
+  }
   switch (status) {
     case 'running':
       return 'Scénario en cours';
+    case 'paused':
+      return 'Scénario en pause';
     case 'ready':
       return 'Scénario prêt';
     case 'completed':
@@ -152,6 +265,9 @@ function describeScenarioEvent(status: ScenarioRunnerSnapshot): string {
   if (status.awaitingSystemReset) {
     return 'Réarmez le système pour terminer le scénario';
   }
+  if (status.awaiting) {
+    return describeAwaitedAction(status.awaiting.event, status.awaiting.zoneId);
+  }
   const event = status.nextEvent;
   if (!event) return 'Aucun événement programmé';
   switch (event.type) {
@@ -173,11 +289,32 @@ function describeScenarioEvent(status: ScenarioRunnerSnapshot): string {
       return 'Nettoyage acquit';
     case 'SYSTEM_RESET':
       return 'Reset système';
+    case 'WAIT_FOR':
+      return describeAwaitedAction(event.event, event.zoneId);
     default:
       return 'Action scénarisée';
   }
 }
 
+const AWAITED_ACTION_LABELS: Record<string, string> = {
+  PROCESS_ACK: 'Acquittez le process',
+  AUDIBLE_SILENCED: 'Coupez le signal sonore',
+  DM_RESET: 'Réarmez le DM',
+  DAI_RESET: 'Réarmez le DAI',
+  SYSTEM_RESET: 'Réarmez le système',
+  FAULT_ACKNOWLEDGED: 'Acquittez le dérangement',
+  DAS_REARMED: 'Réarmez les DAS',
+  DETECTION_CONFIRMED: "Confirmez l'alarme feu",
+  DETECTION_CANCELLED: 'Écartez la détection',
+  MANUAL_EVAC_STARTED: "Lancez l'évacuation manuelle",
+  MANUAL_EVAC_STOPPED: "Arrêtez l'évacuation manuelle",
+};
+
+function describeAwaitedAction(code: string, zoneId?: string): string {
+  const label = AWAITED_ACTION_LABELS[code] ?? `Action attendue : ${code}`;
+  return zoneId ? `${label} (${zoneId})` : label;
+}
+
 interface ScenarioAdaptationStep {
   id: string;
   label: string;
@@ -190,6 +327,8 @@ interface ScenarioAdaptation {
   controlHighlights: Set<string>;
   steps: ScenarioAdaptationStep[];
   description?: string;
+  /** Action du stagiaire attendue par le scénario pour poursuivre. */
+  expectedAction?: string;
 }
 
 type ManualResetConstraints = {
@@ -398,11 +537,36 @@ function describeScenarioStep(event: ScenarioEvent): string {
       return "Nettoyage de l'acquit";
     case 'SYSTEM_RESET':
       return 'Réarmement système';
+    case 'POWER_MAINS_CUT':
+      return 'Coupure secteur';
+    case 'POWER_MAINS_RESTORE':
+      return 'Rétablissement secteur';
+    case 'FAULT_RAISE':
+      return `Dérangement ${event.zoneId ?? event.deviceId ?? ''}`.trim();
+    case 'FAULT_CLEAR':
+      return `Fin de dérangement ${event.zoneId ?? event.deviceId ?? ''}`.trim();
+    case 'DAS_FAIL':
+      return `Défaillance DAS ${event.deviceId}`;
+    case 'DAS_REPAIR':
+      return `Fin de défaillance DAS ${event.deviceId}`;
+    case 'DETECTION_CONFIRM':
+      return `Confirmation alarme ${event.zoneId}`;
+    case 'DETECTION_CANCEL':
+      return `Levée de doute ${event.zoneId}`;
+    case 'WAIT_FOR':
+      return describeAwaitedAction(event.event, event.zoneId);
     default:
       return 'Action scénarisée';
   }
 }
 
+function formatCountdown(ms: number): string {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
 function formatDateTime(iso?: string | null): string {
   if (!iso) {
     return '—';
@@ -448,6 +612,87 @@ function applyHighlightsForEvent(
       controlHighlights.add('reset-request');
       boardHighlights.add('cmsi-status');
       break;
+    case 'POWER_MAINS_CUT':
+    case 'POWER_MAINS_RESTORE':
+      boardHighlights.add('power-mains');
+      boardHighlights.add('power-battery');
+      break;
+    case 'FAULT_RAISE':
+      boardHighlights.add('faults');
+      controlHighlights.add('fault-ack');
+      break;
+    case 'FAULT_CLEAR':
+      boardHighlights.add('faults');
+      break;
+    case 'DAS_FAIL':
+    case 'DAS_REPAIR':
+      boardHighlights.add('das');
+      boardHighlights.add('faults');
+      break;
+    case 'DETECTION_CONFIRM':
+    case 'DETECTION_CANCEL':
+      boardHighlights.add('cmsi-status');
+      break;
+    case 'WAIT_FOR':
+      applyHighlightsForAwaitedAction(event.event, event.zoneId, boardHighlights, controlHighlights);
+      break;
+    default:
+      break;
+  }
+}
+
+/** Met en évidence la commande que le stagiaire doit actionner pour débloquer le scénario. */
+function applyHighlightsForAwaitedAction(
+  code: string,
+  zoneId: string | undefined,
+  boardHighlights: Set<string>,
+  controlHighlights: Set<string>,
+) {
+  switch (code) {
+    case 'PROCESS_ACK':
+      controlHighlights.add('ack');
+      boardHighlights.add('cmsi-status');
+      break;
+    case 'AUDIBLE_SILENCED':
+      controlHighlights.add('silence');
+      boardHighlights.add('uga');
+      break;
+    case 'DM_RESET':
+      if (zoneId) {
+        boardHighlights.add(`dm-${zoneId.toLowerCase()}`);
+      }
+      if (!zoneId || zoneId.toUpperCase() === 'ZF1') {
+        controlHighlights.add('reset-dm-zf1');
+      }
+      break;
+    case 'DAI_RESET':
+      boardHighlights.add('dai');
+      break;
+    case 'SYSTEM_RESET':
+      controlHighlights.add('reset-request');
+      boardHighlights.add('cmsi-status');
+      break;
+    case 'FAULT_ACKNOWLEDGED':
+      controlHighlights.add('fault-ack');
+      boardHighlights.add('faults');
+      break;
+    case 'DAS_REARMED':
+      controlHighlights.add('das-rearm');
+      boardHighlights.add('das');
+      break;
+    case 'DETECTION_CONFIRMED':
+      controlHighlights.add('detection-confirm');
+      boardHighlights.add('cmsi-status');
+      break;
+    case 'DETECTION_CANCELLED':
+      controlHighlights.add('detection-cancel');
+      boardHighlights.add('cmsi-status');
+      break;
+    case 'MANUAL_EVAC_STARTED':
+    case 'MANUAL_EVAC_STOPPED':
+      controlHighlights.add('manual-evac-toggle');
+      boardHighlights.add('manual-evac');
+      break;
     default:
       break;
   }
@@ -464,7 +709,9 @@ function deriveScenarioAdaptation(status?: ScenarioRunnerSnapshot | null): Scena
   const orderedEvents = [...scenario.events].sort((a, b) => a.offset - b.offset);
   const currentIndex = status.currentEventIndex ?? -1;
   const awaitingReset = Boolean(status.awaitingSystemReset);
-  const resolvedCurrentIndex = awaitingReset ? Math.max(-1, currentIndex - 1) : currentIndex;
+  const awaitingIndex = status.awaiting?.eventIndex ?? (awaitingReset ? currentIndex : undefined);
+  const isAwaiting = awaitingIndex !== undefined;
+  const resolvedCurrentIndex = isAwaiting ? Math.max(-1, awaitingIndex - 1) : currentIndex;
   const explicitNextEvent = status.nextEvent ?? null;
   const fallbackNextEvent = orderedEvents[currentIndex + 1] ?? null;
   const nextEvent = explicitNextEvent ?? fallbackNextEvent;
@@ -476,9 +723,7 @@ function deriveScenarioAdaptation(status?: ScenarioRunnerSnapshot | null): Scena
     const completed = index <= resolvedCurrentIndex;
     const hasUpcoming = resolvedCurrentIndex < orderedEvents.length - 1;
     const upcomingIndex = Math.min(orderedEvents.length - 1, resolvedCurrentIndex + 1);
-    const isNext = awaitingReset
-      ? Boolean(nextEvent && nextEvent === event)
-      : hasUpcoming && index === upcomingIndex;
+    const isNext = isAwaiting ? index === awaitingIndex : hasUpcoming && index === upcomingIndex;
     const zonePart = 'zoneId' in event && typeof event.zoneId === 'string' ? event.zoneId : 'none';
     steps.push({
       id: `${index}-${event.type}-${zonePart}-${event.offset}`,
@@ -497,11 +742,18 @@ function deriveScenarioAdaptation(status?: ScenarioRunnerSnapshot | null): Scena
     controlHighlights.add('reset-request');
   }
 
+  const expectedAction = status.awaiting
+    ? describeAwaitedAction(status.awaiting.event, status.awaiting.zoneId)
+    : awaitingReset
+    ? describeAwaitedAction('SYSTEM_RESET')
+    : undefined;
+
   return {
     boardHighlights,
     controlHighlights,
     steps,
     description: scenario.description?.trim() || undefined,
+    expectedAction,
   };
 }
 
@@ -607,8 +859,10 @@ function isDeviceActive(device: SiteDevice, snapshot: Snapshot | null): boolean
         return false;
       }
       return doesStateIncludeDevice(snapshot.daiActivated?.[device.zoneId], device.id);
-    case 'DAS':
-      return Boolean(snapshot.dasApplied);
+    case 'DAS': {
+      const das = snapshot.dasDevices?.[device.id];
+      return das ? das.status !== 'WAITING' : Boolean(snapshot.dasApplied);
+    }
     case 'UGA':
       return Boolean(snapshot.ugaActive || snapshot.localAudibleActive);
     default:
@@ -645,6 +899,9 @@ function isDeviceActionable(
     }
     return isManualResetAllowed(manualConstraints, 'DAI', device.zoneId);
   }
+  if (device.kind === 'DAS') {
+    return isDasAwaitingRearm(snapshot?.dasDevices?.[device.id]?.status);
+  }
   return false;
 }
 
@@ -800,12 +1057,15 @@ function collectAncestorIds(
 export function TraineeApp() {
   const [snapshot, setSnapshot] = useState<Snapshot | null>(null);
   const [now, setNow] = useState(() => Date.now());
+  const [clock, setClock] = useState<{ state: ClockState; receivedAt: number } | null>(null);
+  const simulatedNow = projectClockNow(clock?.state, clock?.receivedAt ?? now, now);
   const [scenarioStatus, setScenarioStatus] = useState<ScenarioRunnerSnapshot>({ status: 'idle' });
   const [accessLevel, setAccessLevel] = useState<number>(LOWEST_ACCESS_LEVEL);
   const [ledMessage, setLedMessage] = useState<string>(LOWEST_ACCESS_MESSAGE);
   const [codeBuffer, setCodeBuffer] = useState<string>('');
   const [verifyingAccess, setVerifyingAccess] = useState<boolean>(false);
-  const [accessLevelExpiryRevision, setAccessLevelExpiryRevision] = useState<number>(0);
+  /** Fin de validité du niveau accordé par le serveur ; la temporisation locale s'y aligne. */
+  const [accessLevelExpiresAt, setAccessLevelExpiresAt] = useState<number | null>(null);
   const [layout, setLayout] = useState<TraineeLayoutConfig>(DEFAULT_TRAINEE_LAYOUT);
   const [topology, setTopology] = useState<SiteTopology | null>(null);
   const [selectedDeviceId, setSelectedDeviceId] = useState<string | null>(null);
@@ -821,9 +1081,24 @@ export function TraineeApp() {
   const [activeTrainee, setActiveTrainee] = useState<UserSummary | null>(null);
   const [traineeAuthError, setTraineeAuthError] = useState<string | null>(null);
   const [traineeAuthPending, setTraineeAuthPending] = useState<boolean>(false);
+  const [traineeSecret, setTraineeSecret] = useState<string>('');
   const [outOfServiceIds, setOutOfServiceIds] = useState<string[]>([]);
+  /** Session rejouée (`?replay=<id>`) : le tableau suit le rejeu en lecture seule. */
+  const replaySessionId = useMemo(() => new URLSearchParams(window.location.search).get('replay'), []);
+  const [replayTimeline, setReplayTimeline] = useState<ReplayTimeline | null>(null);
+  const [replayState, setReplayState] = useState<ReplayState<Snapshot> | null>(null);
   const baseUrl = useMemo(() => import.meta.env.VITE_SERVER_URL ?? 'http://localhost:4500', []);
-  const sdk = useMemo(() => new SsiSdk(baseUrl, { apiToken: getConfiguredApiToken() }), [baseUrl]);
+  const sdk = useMemo(
+    () =>
+      new SsiSdk(baseUrl, {
+        apiToken: getConfiguredApiToken(),
+        roomId: getConfiguredRoomId(),
+        stationId: getStationId(),
+        refreshToken: readStoredRefreshToken(),
+        onSessionChange: storeRefreshToken,
+      }),
+    [baseUrl],
+  );
   const improvementAreas = sessionInfo?.improvementAreas ?? [];
   const selectedDevice = useMemo<SiteDevice | null>(() => {
     if (!selectedDeviceId || !topology) {
@@ -902,9 +1177,19 @@ export function TraineeApp() {
   }, []);
 
   useEffect(() => {
-    const socket = io(baseUrl, createSocketOptions());
-    socket.on('state.update', (state: Snapshot) => setSnapshot(state));
+    const socket = io(baseUrl, createSocketOptions(sdk));
+    socket.on('state.update', (state: Snapshot) => {
+      if (!replaySessionId) {
+        setSnapshot(state);
+      }
+    });
     socket.on('scenario.update', (status: ScenarioRunnerSnapshot) => setScenarioStatus(status));
+    socket.on('clock.update', (payload) => {
+      const parsed = clockStateSchema.safeParse(payload);
+      if (parsed.success) {
+        setClock({ state: parsed.data, receivedAt: Date.now() });
+      }
+    });
     socket.on('layout.update', (payload) => {
       const parsed = traineeLayoutSchema.safeParse(payload);
       if (parsed.success) {
@@ -921,7 +1206,11 @@ export function TraineeApp() {
       const normalizedTopology = mergeOutOfServiceDevices(parsed.data, outOfServiceSet);
       setOutOfServiceIds(nextOutOfServiceIds);
       pendingTopologyRef.current = normalizedTopology;
-      if (scenarioStatusRef.current.status === 'running' || scenarioStatusRef.current.status === 'ready') {
+      if (
+        scenarioStatusRef.current.status === 'running' ||
+        scenarioStatusRef.current.status === 'paused' ||
+        scenarioStatusRef.current.status === 'ready'
+      ) {
         setTopology(normalizedTopology);
         pendingTopologyRef.current = null;
       }
@@ -939,7 +1228,26 @@ export function TraineeApp() {
     return () => {
       socket.disconnect();
     };
-  }, [baseUrl]);
+  }, [baseUrl, replaySessionId]);
+
+  useEffect(() => {
+    if (!replaySessionId) {
+      return;
+    }
+    const socket = io(`${baseUrl}${REPLAY_NAMESPACE}`, createSocketOptions(sdk));
+    socket.on('connect', () => {
+      socket.emit('replay.join', { sessionId: replaySessionId, mode: 'view' });
+    });
+    socket.on('replay.loaded', (timeline: ReplayTimeline) => setReplayTimeline(timeline));
+    socket.on('replay.state', (state: ReplayState<Snapshot>) => {
+      setReplayState(state);
+      setSnapshot(state.snapshot);
+    });
+    socket.on('replay.error', (payload) => console.warn('Rejeu indisponible', payload));
+    return () => {
+      socket.disconnect();
+    };
+  }, [baseUrl, replaySessionId]);
 
   useEffect(() => {
     sdk.getActiveScenario().then(setScenarioStatus).catch(console.error);
@@ -982,7 +1290,11 @@ export function TraineeApp() {
   useEffect(() => {
     const outOfServiceSet = new Set(outOfServiceIds);
     scenarioStatusRef.current = scenarioStatus;
-    if (scenarioStatus.status === 'running' || scenarioStatus.status === 'ready') {
+    if (
+      scenarioStatus.status === 'running' ||
+      scenarioStatus.status === 'paused' ||
+      scenarioStatus.status === 'ready'
+    ) {
       if (scenarioStatus.scenario?.topology) {
         const normalized = mergeOutOfServiceDevices(scenarioStatus.scenario.topology, outOfServiceSet);
         setTopology(normalized);
@@ -1043,50 +1355,77 @@ export function TraineeApp() {
     }
   }, [activeTrainee, selectedTraineeId, traineeOptions]);
 
+  const sessionTraineeIds = useMemo(
+    () => new Set(sessionInfo?.trainees.map((trainee) => trainee.id) ?? []),
+    [sessionInfo?.trainees],
+  );
+
+  useEffect(() => {
+    // Les commandes du poste sont journalisées au nom de l'apprenant identifié.
+    sdk.setActor(activeTrainee?.id ?? null);
+  }, [activeTrainee, sdk]);
+
   useEffect(() => {
     if (!activeTrainee || !sessionInfo || sessionInfo.status !== 'active') {
       return;
     }
-    if (sessionInfo.trainee?.id === activeTrainee.id) {
+    if (sessionTraineeIds.has(activeTrainee.id)) {
       return;
     }
     sdk
-      .updateSession(sessionInfo.id, { traineeId: activeTrainee.id })
+      .joinSession(sessionInfo.id, activeTrainee.id)
       .catch((error) => {
         console.error(error);
         setTraineeAuthError("Impossible d'associer l'apprenant à la session en cours.");
       });
-  }, [activeTrainee, sdk, sessionInfo?.id, sessionInfo?.status, sessionInfo?.trainee?.id]);
+  }, [activeTrainee, sdk, sessionInfo?.id, sessionInfo?.status, sessionTraineeIds]);
 
+  // Le niveau est tenu par le serveur : après un rechargement, le poste reprend celui qui reste valide.
   useEffect(() => {
-    try {
-      const stored = window.sessionStorage.getItem('ssi-access-level');
-      if (stored) {
-        const parsed = Number.parseInt(stored, 10);
-        if (parsed === 2) {
+    sdk
+      .getAccessLevel()
+      .then((current) => {
+        if (current.level === 2 && current.expiresAt) {
           setAccessLevel(2);
+          setAccessLevelExpiresAt(new Date(current.expiresAt).getTime());
           setLedMessage('Niveau 2 actif — commandes avancées disponibles.');
-          setAccessLevelExpiryRevision((revision) => revision + 1);
         }
-      }
-    } catch (error) {
-      console.error(error);
-    }
-  }, []);
-
-  useEffect(() => {
-    try {
-      window.sessionStorage.setItem('ssi-access-level', String(accessLevel));
-    } catch (error) {
-      console.error(error);
-    }
-  }, [accessLevel]);
+      })
+      .catch(console.error);
+  }, [sdk]);
 
   const handleAck = useCallback(() => {
     if (accessLevel < 2) return;
     sdk.acknowledgeProcess('trainee').catch(console.error);
   }, [accessLevel, sdk]);
 
+  const handleFaultAck = useCallback(() => {
+    if (accessLevel < 2) return;
+    sdk.acknowledgeFault(undefined, 'trainee').catch(console.error);
+  }, [accessLevel, sdk]);
+
+  const handleDasRearm = useCallback(() => {
+    if (accessLevel < 2) return;
+    sdk.rearmDas().catch(console.error);
+  }, [accessLevel, sdk]);
+
+  // La levée de doute porte sur la zone affichée par le CMSI, sinon sur la première en attente.
+  const pendingDetectionZoneId =
+    snapshot?.cmsi.status === 'COINCIDENCE_PENDING' ||
+    snapshot?.cmsi.status === 'ALARM_VERIFICATION'
+      ? snapshot.cmsi.zoneId
+      : Object.keys(snapshot?.cmsi.detections ?? {})[0];
+
+  const handleDetectionConfirm = useCallback(() => {
+    if (accessLevel < 2 || !pendingDetectionZoneId) return;
+    sdk.confirmDetection(pendingDetectionZoneId).catch(console.error);
+  }, [accessLevel, pendingDetectionZoneId, sdk]);
+
+  const handleDetectionCancel = useCallback(() => {
+    if (accessLevel < 2 || !pendingDetectionZoneId) return;
+    sdk.cancelDetection(pendingDetectionZoneId).catch(console.error);
+  }, [accessLevel, pendingDetectionZoneId, sdk]);
+
   const handleResetRequest = useCallback(() => {
     if (accessLevel < 2) return;
     if (hasOutstandingManualResets) return;
@@ -1253,9 +1592,23 @@ export function TraineeApp() {
         if (snapshot?.daiActivated?.[device.zoneId] && canResetZone('DAI', device.zoneId)) {
           handleResetDai(device.zoneId);
         }
+        return;
+      }
+      if (device.kind === 'DAS' && accessLevel >= 2) {
+        if (isDasAwaitingRearm(snapshot?.dasDevices?.[device.id]?.status)) {
+          sdk.rearmDas(device.id).catch(console.error);
+        }
       }
     },
-    [canResetZone, handleDeviceSelection, handleResetDai, handleResetDm, snapshot],
+    [
+      accessLevel,
+      canResetZone,
+      handleDeviceSelection,
+      handleResetDai,
+      handleResetDm,
+      sdk,
+      snapshot,
+    ],
   );
 
   const handleSilenceAlarm = useCallback(() => {
@@ -1286,6 +1639,7 @@ export function TraineeApp() {
     const input = codeBuffer.trim();
     if (input.length === 0) {
       handleAccessLock();
+      sdk.verifyAccessCode('').catch(console.error);
       return;
     }
     setVerifyingAccess(true);
@@ -1295,9 +1649,7 @@ export function TraineeApp() {
       setLedMessage(result.label);
       if (result.allowed && typeof result.level === 'number') {
         setAccessLevel(result.level);
-        if (result.level > LOWEST_ACCESS_LEVEL) {
-          setAccessLevelExpiryRevision((revision) => revision + 1);
-        }
+        setAccessLevelExpiresAt(result.expiresAt ? new Date(result.expiresAt).getTime() : null);
       }
     } catch (error) {
       console.error(error);
@@ -1314,10 +1666,14 @@ export function TraineeApp() {
       accessLevelResetTimeoutRef.current = null;
     }
     if (accessLevel > LOWEST_ACCESS_LEVEL) {
+      const delayMs =
+        accessLevelExpiresAt !== null
+          ? Math.max(0, accessLevelExpiresAt - Date.now())
+          : ACCESS_LEVEL_AUTO_RESET_DELAY_MS;
       accessLevelResetTimeoutRef.current = window.setTimeout(() => {
         accessLevelResetTimeoutRef.current = null;
         handleAccessLock();
-      }, ACCESS_LEVEL_AUTO_RESET_DELAY_MS);
+      }, delayMs);
     }
     return () => {
       if (accessLevelResetTimeoutRef.current !== null) {
@@ -1325,7 +1681,7 @@ export function TraineeApp() {
         accessLevelResetTimeoutRef.current = null;
       }
     };
-  }, [accessLevel, accessLevelExpiryRevision, handleAccessLock]);
+  }, [accessLevel, accessLevelExpiresAt, handleAccessLock]);
 
   const remainingDeadline = (() => {
     if (!snapshot?.cmsi) {
@@ -1344,9 +1700,25 @@ export function TraineeApp() {
     if (deadline == null) {
       return null;
     }
-    return Math.max(0, Math.floor((deadline - now) / 1000));
+    return Math.max(0, Math.floor((deadline - (snapshot.timersPausedAt ?? simulatedNow)) / 1000));
   })();
 
+  // Une échéance par zone d'alarme temporisée ou suspendue, lorsqu'il y en a plusieurs.
+  const zoneCountdowns = Object.values(snapshot?.cmsi.evacuations ?? {})
+    .filter((evacuation) => evacuation.status !== 'ACTIVE')
+    .sort((a, b) => a.alarmZoneId.localeCompare(b.alarmZoneId))
+    .map((evacuation) => {
+      const remainingMs =
+        evacuation.status === 'PENDING' && evacuation.deadline != null
+          ? evacuation.deadline - (snapshot?.timersPausedAt ?? simulatedNow)
+          : evacuation.remainingMs;
+      return {
+        alarmZoneId: evacuation.alarmZoneId,
+        suspended: evacuation.status === 'SUSPENDED',
+        seconds: remainingMs == null ? null : Math.max(0, Math.floor(remainingMs / 1000)),
+      };
+    });
+
   const hasActiveDeviceTrigger = useMemo(
     () =>
       Boolean(
@@ -1363,6 +1735,11 @@ export function TraineeApp() {
   );
   const anyAudible = Boolean(snapshot?.ugaActive || snapshot?.localAudibleActive);
   const localAudibleOnly = Boolean(snapshot?.localAudibleActive && !snapshot?.ugaActive);
+  // Le signal d'évacuation ne peut être arrêté avant sa durée minimale de diffusion.
+  const ugaHoldRemainingMs =
+    snapshot?.ugaActive && snapshot.ugaSilenceableAt != null
+      ? Math.max(0, snapshot.ugaSilenceableAt - (snapshot.timersPausedAt ?? simulatedNow))
+      : 0;
   const scenarioAdaptation = useMemo(
     () => deriveScenarioAdaptation(scenarioUiStatus),
     [scenarioUiStatus],
@@ -1476,7 +1853,7 @@ export function TraineeApp() {
     return map;
   }, [scenarioUiStatus.scenario?.topology?.devices, topology?.devices]);
   const triggeredScenarioEvents = useMemo<TriggeredScenarioEventCard[]>(() => {
-    if (scenarioUiStatus.status !== 'running') {
+    if (scenarioUiStatus.status !== 'running' && scenarioUiStatus.status !== 'paused') {
       return [];
     }
     const scenario = scenarioUiStatus.scenario;
@@ -1494,8 +1871,13 @@ export function TraineeApp() {
     }
     const activeCards: TriggeredScenarioEventCard[] = [];
     const sequenceProgress = scenarioUiStatus.sequenceProgress ?? {};
+    const conditionStates = scenarioUiStatus.conditionStates ?? {};
     for (let index = 0; index <= lastIndex; index += 1) {
       const event = orderedEvents[index];
+      const conditionState = conditionStates[event.id ?? index.toString(10)];
+      if (conditionState === 'WAITING' || conditionState === 'SKIPPED') {
+        continue;
+      }
       const sequenceEntries =
         'sequence' in event && Array.isArray(event.sequence) && event.sequence.length > 0
           ? event.sequence
@@ -1566,9 +1948,15 @@ export function TraineeApp() {
 
   const handleTraineeSelectChange = useCallback((event: ChangeEvent<HTMLSelectElement>) => {
     setSelectedTraineeId(event.target.value);
+    setTraineeSecret('');
     setTraineeAuthError(null);
   }, []);
 
+  const selectedTrainee = useMemo(
+    () => traineeOptions.find((user) => user.id === selectedTraineeId) ?? null,
+    [selectedTraineeId, traineeOptions],
+  );
+
   const handleTraineeLogin = useCallback(
     async (event: FormEvent<HTMLFormElement>) => {
       event.preventDefault();
@@ -1581,47 +1969,68 @@ export function TraineeApp() {
         setTraineeAuthError('Compte apprenant introuvable.');
         return;
       }
+      if (trainee.hasCredential && !traineeSecret) {
+        setTraineeAuthError('Saisissez votre code PIN.');
+        return;
+      }
       setTraineeAuthPending(true);
       setTraineeAuthError(null);
       try {
+        if (trainee.hasCredential) {
+          // Le jeton obtenu remplace celui du poste : les commandes sont alors attribuées par le serveur.
+          await sdk.login({ userId: trainee.id, secret: traineeSecret });
+          setTraineeSecret('');
+        }
         setActiveTrainee(trainee);
         try {
           window.localStorage.setItem('ssi-trainee-user-id', trainee.id);
         } catch (storageError) {
           console.error(storageError);
         }
-        if (sessionInfo && sessionInfo.status === 'active' && sessionInfo.trainee?.id !== trainee.id) {
-          await sdk.updateSession(sessionInfo.id, { traineeId: trainee.id });
+        if (sessionInfo && sessionInfo.status === 'active' && !sessionTraineeIds.has(trainee.id)) {
+          await sdk.joinSession(sessionInfo.id, trainee.id);
         }
       } catch (error) {
         console.error(error);
-        setTraineeAuthError("Impossible de valider l'identification.");
+        setTraineeAuthError(
+          error instanceof Error && error.message === 'INVALID_CREDENTIALS'
+            ? 'Code PIN incorrect.'
+            : error instanceof Error && error.message === 'LOGIN_LOCKED'
+            ? 'Trop d’essais erronés : compte verrouillé temporairement.'
+            : "Impossible de valider l'identification.",
+        );
       } finally {
         setTraineeAuthPending(false);
       }
     },
-    [sdk, selectedTraineeId, sessionInfo?.id, sessionInfo?.status, sessionInfo?.trainee?.id, traineeOptions],
+    [sdk, selectedTraineeId, sessionInfo?.id, sessionInfo?.status, sessionTraineeIds, traineeOptions, traineeSecret],
   );
 
   const handleTraineeLogout = useCallback(() => {
+    const leavingId = activeTrainee?.id;
     setActiveTrainee(null);
     try {
       window.localStorage.removeItem('ssi-trainee-user-id');
     } catch (error) {
       console.error(error);
     }
-    if (sessionInfo && sessionInfo.status === 'active' && sessionInfo.trainee) {
-      sdk
-        .updateSession(sessionInfo.id, { traineeId: null })
-        .catch((error) => {
-          console.error(error);
-          setTraineeAuthError("Impossible de dissocier l'apprenant de la session en cours.");
-        });
-    }
-  }, [sdk, sessionInfo?.id, sessionInfo?.status, sessionInfo?.trainee]);
+    const leave =
+      leavingId && sessionInfo && sessionInfo.status === 'active' && sessionTraineeIds.has(leavingId)
+        ? sdk.leaveSession(sessionInfo.id, leavingId).catch((error) => {
+            console.error(error);
+            setTraineeAuthError("Impossible de dissocier l'apprenant de la session en cours.");
+          })
+        : Promise.resolve();
+    leave.then(() => sdk.logout()).catch(console.error);
+  }, [activeTrainee?.id, sdk, sessionInfo?.id, sessionInfo?.status, sessionTraineeIds]);
 
   const boardModules: BoardModule[] = useMemo(() => {
     const daiCount = Object.keys(snapshot?.daiActivated ?? {}).length;
+    const dasStates = Object.values(snapshot?.dasDevices ?? {});
+    const dasSafetyCount = dasStates.filter((das) => das.status === 'SAFETY').length;
+    const dasFaultCount = dasStates.filter(
+      (das) => das.status === 'FEEDBACK_TIMEOUT' || das.status === 'FEEDBACK_FAULT',
+    ).length;
     const dmModules: BoardModule[] = (() => {
       if (!topology) {
         return Array.from({ length: 8 }, (_, index) => {
@@ -1670,6 +2079,14 @@ export function TraineeApp() {
 
     const outOfServiceCount =
       topology?.devices.reduce((count, device) => (device.outOfService ? count + 1 : count), 0) ?? 0;
+    const power = snapshot?.power;
+    const mainsLost = power ? !power.mainsAvailable : false;
+    const faultList = Object.values(snapshot?.faults ?? {});
+    const unacknowledgedFaults = faultList.filter((fault) => !fault.acknowledged).length;
+    const autonomyLabel =
+      power?.autonomyDeadline != null
+        ? formatCountdown(power.autonomyDeadline - (snapshot?.timersPausedAt ?? simulatedNow))
+        : undefined;
 
     return [
       {
@@ -1684,7 +2101,9 @@ export function TraineeApp() {
         id: 'uga',
         label: 'UGA',
         description: snapshot?.ugaActive
-          ? 'Alarme générale sonore'
+          ? ugaHoldRemainingMs > 0
+            ? `Alarme générale sonore · arrêt possible dans ${formatCountdown(ugaHoldRemainingMs)}`
+            : 'Alarme générale sonore'
           : localAudibleOnly
           ? 'Signal sonore local CMSI'
           : 'Alarme générale sonore',
@@ -1695,9 +2114,14 @@ export function TraineeApp() {
       {
         id: 'das',
         label: 'DAS',
-        description: 'Dispositifs actionnés de sécurité',
-        tone: 'warning',
-        active: Boolean(snapshot?.dasApplied),
+        description:
+          dasFaultCount > 0
+            ? `${dasFaultCount} défaut(s) de position`
+            : dasSafetyCount > 0
+            ? `${dasSafetyCount} DAS en position de sécurité`
+            : 'Dispositifs actionnés de sécurité',
+        tone: dasFaultCount > 0 ? 'alarm' : 'warning',
+        active: Boolean(snapshot?.dasApplied) || dasSafetyCount + dasFaultCount > 0,
         highlighted: scenarioAdaptation.boardHighlights.has('das'),
       },
       {
@@ -1732,14 +2156,51 @@ export function TraineeApp() {
         active: outOfServiceCount > 0,
         highlighted: scenarioAdaptation.boardHighlights.has('out-of-service'),
       },
+      {
+        id: 'power-mains',
+        label: 'Secteur',
+        description: mainsLost ? 'Défaut alimentation secteur' : 'Alimentation secteur présente',
+        tone: mainsLost ? 'warning' : 'safe',
+        active: mainsLost,
+        highlighted: scenarioAdaptation.boardHighlights.has('power-mains'),
+      },
+      {
+        id: 'power-battery',
+        label: 'Batterie',
+        description: power?.batteryExhausted
+          ? 'Batteries épuisées — SSI hors alimentation'
+          : power?.batteryLow
+          ? `Défaut batterie basse${autonomyLabel ? ` — autonomie ${autonomyLabel}` : ''}`
+          : mainsLost
+          ? `Fonctionnement sur batteries${autonomyLabel ? ` — autonomie ${autonomyLabel}` : ''}`
+          : 'Batteries en charge',
+        tone: power?.batteryExhausted || power?.batteryLow ? 'alarm' : mainsLost ? 'warning' : 'safe',
+        active: mainsLost,
+        highlighted: scenarioAdaptation.boardHighlights.has('power-battery'),
+      },
+      {
+        id: 'faults',
+        label: 'Dérangement',
+        description:
+          faultList.length === 0
+            ? 'Aucun dérangement'
+            : unacknowledgedFaults > 0
+            ? `${faultList.length} dérangement(s) dont ${unacknowledgedFaults} non acquitté(s)`
+            : `${faultList.length} dérangement(s) acquitté(s)`,
+        tone: 'warning',
+        active: faultList.length > 0,
+        highlighted: scenarioAdaptation.boardHighlights.has('faults'),
+      },
       ...dmModules,
     ];
   }, [
     snapshot,
     anyAudible,
     localAudibleOnly,
+    ugaHoldRemainingMs,
     scenarioAdaptation.boardHighlights,
     topology,
+    simulatedNow,
   ]);
 
   const orderedBoardModules = useMemo(
@@ -1750,6 +2211,7 @@ export function TraineeApp() {
   const scenarioStatusLabel = translateScenarioStatus(
     scenarioStatus.status,
     scenarioStatus.awaitingSystemReset,
+    scenarioStatus.awaiting,
   );
   const nextScenarioEvent = describeScenarioEvent(scenarioUiStatus);
 
@@ -1760,6 +2222,10 @@ export function TraineeApp() {
   );
 
   const resetDmZf1Allowed = canResetZone('DM', 'ZF1');
+  const hasDasAwaitingRearm = Object.values(snapshot?.dasDevices ?? {}).some((das) =>
+    isDasAwaitingRearm(das.status),
+  );
+  const hasUnacknowledgedFaults = Object.values(snapshot?.faults ?? {}).some((fault) => !fault.acknowledged);
 
   const controlButtons: ControlButtonItem[] = [
     {
@@ -1767,8 +2233,12 @@ export function TraineeApp() {
       label: 'Arrêt signal sonore',
       tone: 'red',
       onClick: handleSilenceAlarm,
-      disabled: !anyAudible,
-      title: !anyAudible ? 'Aucun signal sonore en cours' : undefined,
+      disabled: !anyAudible || (ugaHoldRemainingMs > 0 && !snapshot?.localAudibleActive),
+      title: !anyAudible
+        ? 'Aucun signal sonore en cours'
+        : ugaHoldRemainingMs > 0
+        ? `Signal d'évacuation maintenu encore ${formatCountdown(ugaHoldRemainingMs)}`
+        : undefined,
     },
     {
       id: 'ack',
@@ -1778,6 +2248,19 @@ export function TraineeApp() {
       disabled: accessLevel < 2,
       title: accessLevel < 2 ? 'Code niveau 2 requis' : undefined,
     },
+    {
+      id: 'fault-ack',
+      label: 'Acquit dérangement',
+      tone: 'amber',
+      onClick: handleFaultAck,
+      disabled: accessLevel < 2 || !hasUnacknowledgedFaults,
+      title:
+        accessLevel < 2
+          ? 'Code niveau 2 requis'
+          : !hasUnacknowledgedFaults
+          ? 'Aucun dérangement à acquitter'
+          : undefined,
+    },
     {
       id: 'reset-request',
       label: 'Demande de réarmement',
@@ -1791,6 +2274,47 @@ export function TraineeApp() {
           ? 'Réarmez les dispositifs requis avant de demander la remise à zéro'
           : undefined,
     },
+    {
+      id: 'das-rearm',
+      label: 'Réarmement DAS',
+      tone: 'green',
+      onClick: handleDasRearm,
+      disabled: accessLevel < 2 || !hasDasAwaitingRearm,
+      title:
+        accessLevel < 2
+          ? 'Code niveau 2 requis'
+          : !hasDasAwaitingRearm
+          ? 'Aucun DAS à réarmer'
+          : undefined,
+    },
+    {
+      id: 'detection-confirm',
+      label: pendingDetectionZoneId
+        ? `Confirmation alarme ${pendingDetectionZoneId}`
+        : 'Confirmation alarme',
+      tone: 'red',
+      onClick: handleDetectionConfirm,
+      disabled: accessLevel < 2 || !pendingDetectionZoneId,
+      title:
+        accessLevel < 2
+          ? 'Code niveau 2 requis'
+          : !pendingDetectionZoneId
+          ? 'Aucune détection en attente de confirmation'
+          : undefined,
+    },
+    {
+      id: 'detection-cancel',
+      label: 'Levée de doute',
+      tone: 'blue',
+      onClick: handleDetectionCancel,
+      disabled: accessLevel < 2 || !pendingDetectionZoneId,
+      title:
+        accessLevel < 2
+          ? 'Code niveau 2 requis'
+          : !pendingDetectionZoneId
+          ? 'Aucune détection en attente de confirmation'
+          : undefined,
+    },
     {
       id: 'reset-dm-zf1',
       label: 'Réarmement DM ZF1',
@@ -1854,8 +2378,12 @@ export function TraineeApp() {
               <h4 className="session-panel__name">{sessionInfo.name}</h4>
               <dl className="session-panel__meta">
                 <div>
-                  <dt>Apprenant</dt>
-                  <dd>{sessionInfo.trainee?.fullName ?? 'Non attribué'}</dd>
+                  <dt>Apprenants</dt>
+                  <dd>
+                    {sessionInfo.trainees.length > 0
+                      ? sessionInfo.trainees.map((trainee) => trainee.fullName).join(', ')
+                      : 'Non attribué'}
+                  </dd>
                 </div>
                 <div>
                   <dt>Formateur</dt>
@@ -1974,6 +2502,11 @@ export function TraineeApp() {
                 <span className="scenario-guidance__name">{scenarioUiStatus.scenario?.name}</span>
               </div>
               {scenarioDescription && <p className="instruction-text">{scenarioDescription}</p>}
+              {scenarioAdaptation.expectedAction && (
+                <p className="instruction-expected" role="status">
+                  {scenarioAdaptation.expectedAction}
+                </p>
+              )}
               {scenarioAdaptation.steps.length > 0 && (
                 <ol className="instruction-timeline">
                   {scenarioAdaptation.steps.map((step) => (
@@ -2080,6 +2613,19 @@ export function TraineeApp() {
                   )}
                 </select>
               </label>
+              {selectedTrainee?.hasCredential && (
+                <label className="auth-form__field">
+                  <span>Code PIN</span>
+                  <input
+                    className="auth-input"
+                    type="password"
+                    inputMode="numeric"
+                    autoComplete="current-password"
+                    value={traineeSecret}
+                    onChange={(event) => setTraineeSecret(event.target.value)}
+                  />
+                </label>
+              )}
               <div className="auth-form__actions">
                 <button
                   type="submit"
@@ -2103,195 +2649,228 @@ export function TraineeApp() {
               tone={cmsiStatusTone[snapshot?.cmsi.status ?? ''] ?? 'info'}
               label={cmsiStatusLabel[snapshot?.cmsi.status ?? ''] ?? 'Système normal'}
             />
-            <div className="timer-box">
-              <span className="timer-label">Échéance T+5</span>
-              <span className="timer-value">{remainingDeadline !== null ? `${remainingDeadline}s` : '—'}</span>
-            </div>
+            {zoneCountdowns.length > 1 ? (
+              zoneCountdowns.map((countdown) => (
+                <div key={countdown.alarmZoneId} className="timer-box">
+                  <span className="timer-label">
+                    {countdown.suspended ? 'Suspendue' : 'Échéance'} {countdown.alarmZoneId}
+                  </span>
+                  <span className="timer-value">
+                    {countdown.seconds !== null ? `${countdown.seconds}s` : '—'}
+                  </span>
+                </div>
+              ))
+            ) : (
+              <div className="timer-box">
+                <span className="timer-label">Échéance T+5</span>
+                <span className="timer-value">{remainingDeadline !== null ? `${remainingDeadline}s` : '—'}</span>
+              </div>
+            )}
           </div>
         </div>
       </header>
-      <main className="trainee-main trainee-main--siemens">
-        <section className="siemens-console" aria-label="Façade CMSI Siemens">
-          <div className="siemens-console__shell">
-            <div className="siemens-console__topline">
-              <span className="siemens-console__logo">SIEMENS</span>
-              <span className="siemens-console__mode">{cmsiMode}</span>
-            </div>
-            <div className="siemens-console__body">
-              <aside className="siemens-console__left">
-                <h2 className="panel-title">Indicateurs CMSI</h2>
-                <div className="synoptic-board">
-                  {orderedBoardModules.map((module) => (
-                    <BoardTile key={module.id} module={module} />
-                  ))}
-                </div>
-              </aside>
-              <div className="siemens-console__center">
-                <TopologyLedPanel
-                  topology={topology}
-                  scenarioName={scenarioUiStatus.scenario?.name ?? null}
-                  selectedDeviceId={selectedDeviceId}
-                  selectedDevice={selectedDevice}
-                  selectedZoneId={selectedZoneId}
-                  selectedZone={selectedZone}
-                  accessLevel={accessLevel}
-                  onSelectDevice={handleDeviceSelection}
-                  onSelectZone={handleZoneSelection}
-                  onToggleDeviceOutOfService={handleDeviceServiceToggle}
-                  onToggleZoneOutOfService={handleZoneServiceToggle}
-                  serviceUpdatePending={serviceUpdatePending}
-                  serviceUpdateError={serviceUpdateError}
-                />
-                {triggeredScenarioEvents.length > 0 && (
-                  <div className="scenario-event-feed" aria-live="polite">
-                    {triggeredScenarioEvents.map((event) => (
-                      <article key={event.id} className={`scenario-event-card scenario-event-card--${event.tone}`}>
-                        <div className="scenario-event-card__meta">
-                          <span className="scenario-event-card__zone">Zone : {event.zoneDisplay}</span>
-                          {event.offsetLabel && <span className="scenario-event-card__badge">{event.offsetLabel}</span>}
-                        </div>
-                        <p className="scenario-event-card__label">{event.label}</p>
-                      </article>
+      {replaySessionId && (
+        <div className="replay-banner" role="status">
+          <strong>Rejeu</strong>
+          <span>{replayTimeline?.sessionName ?? 'Chargement de la session…'}</span>
+          <span>
+            {replayState?.status === 'playing' ? 'Lecture' : replayState?.status === 'ended' ? 'Terminé' : 'En pause'}
+            {replayState ? ` · ${formatCountdown(replayState.positionMs)}` : ''}
+          </span>
+        </div>
+      )}
+      <fieldset className="trainee-readonly" disabled={Boolean(replaySessionId)}>
+        <main className="trainee-main trainee-main--siemens">
+          <section className="siemens-console" aria-label="Façade CMSI Siemens">
+            <div className="siemens-console__shell">
+              <div className="siemens-console__topline">
+                <span className="siemens-console__logo">SIEMENS</span>
+                <span className="siemens-console__mode">{cmsiMode}</span>
+              </div>
+              <div className="siemens-console__body">
+                <aside className="siemens-console__left">
+                  <h2 className="panel-title">Indicateurs CMSI</h2>
+                  <div className="synoptic-board">
+                    {orderedBoardModules.map((module) => (
+                      <BoardTile key={module.id} module={module} />
                     ))}
                   </div>
-                )}
-              </div>
-              <div className="siemens-console__service-column" aria-hidden="true">
-                <div className="siemens-console__selector">
-                  <span className="siemens-console__selector-center" />
+                </aside>
+                <div className="siemens-console__center">
+                  <TopologyLedPanel
+                    topology={topology}
+                    scenarioName={scenarioUiStatus.scenario?.name ?? null}
+                    selectedDeviceId={selectedDeviceId}
+                    selectedDevice={selectedDevice}
+                    selectedZoneId={selectedZoneId}
+                    selectedZone={selectedZone}
+                    accessLevel={accessLevel}
+                    onSelectDevice={handleDeviceSelection}
+                    onSelectZone={handleZoneSelection}
+                    onToggleDeviceOutOfService={handleDeviceServiceToggle}
+                    onToggleZoneOutOfService={handleZoneServiceToggle}
+                    serviceUpdatePending={serviceUpdatePending}
+                    serviceUpdateError={serviceUpdateError}
+                  />
+                  {triggeredScenarioEvents.length > 0 && (
+                    <div className="scenario-event-feed" aria-live="polite">
+                      {triggeredScenarioEvents.map((event) => (
+                        <article key={event.id} className={`scenario-event-card scenario-event-card--${event.tone}`}>
+                          <div className="scenario-event-card__meta">
+                            <span className="scenario-event-card__zone">Zone : {event.zoneDisplay}</span>
+                            {event.offsetLabel && <span className="scenario-event-card__badge">{event.offsetLabel}</span>}
+                          </div>
+                          <p className="scenario-event-card__label">{event.label}</p>
+                        </article>
+                      ))}
+                    </div>
+                  )}
+                </div>
+                <div className="siemens-console__service-column" aria-hidden="true">
+                  <div className="siemens-console__selector">
+                    <span className="siemens-console__selector-center" />
+                  </div>
+                  <ul className="siemens-console__lamp-list">
+                    <li>
+                      <span>Défaut</span>
+                      <span className="siemens-console__lamp siemens-console__lamp--amber" />
+                    </li>
+                    <li>
+                      <span>Évacuation</span>
+                      <span className="siemens-console__lamp siemens-console__lamp--red" />
+                    </li>
+                    <li>
+                      <span>Normal</span>
+                      <span className="siemens-console__lamp siemens-console__lamp--green" />
+                    </li>
+                  </ul>
                 </div>
-                <ul className="siemens-console__lamp-list">
-                  <li>
-                    <span>Défaut</span>
-                    <span className="siemens-console__lamp siemens-console__lamp--amber" />
-                  </li>
-                  <li>
-                    <span>Évacuation</span>
-                    <span className="siemens-console__lamp siemens-console__lamp--red" />
-                  </li>
-                  <li>
-                    <span>Normal</span>
-                    <span className="siemens-console__lamp siemens-console__lamp--green" />
-                  </li>
-                </ul>
+                <aside className="siemens-console__right">
+                  {accessControlPanel ? <Fragment>{accessControlPanel.element}</Fragment> : null}
+                </aside>
               </div>
-              <aside className="siemens-console__right">
-                {accessControlPanel ? <Fragment>{accessControlPanel.element}</Fragment> : null}
-              </aside>
-            </div>
-            <div className="siemens-console__controls">
-              <div className="control-strip">
-                {orderedControlButtons.map((button) => (
-                  <ControlButton
-                    key={button.id}
-                    label={button.label}
-                    tone={button.tone}
-                    onClick={button.onClick}
-                    disabled={button.disabled}
-                    title={button.title}
-                    highlighted={button.highlighted}
-                  />
-                ))}
+              <div className="siemens-console__controls">
+                <div className="control-strip">
+                  {orderedControlButtons.map((button) => (
+                    <ControlButton
+                      key={button.id}
+                      label={button.label}
+                      tone={button.tone}
+                      onClick={button.onClick}
+                      disabled={button.disabled}
+                      title={button.title}
+                      highlighted={button.highlighted}
+                    />
+                  ))}
+                </div>
               </div>
             </div>
-          </div>
-        </section>
-        <section className="siemens-support">
-          {planImage && (
-            <article className="synoptic-panel siemens-support__plan" aria-label="Cartographie opérationnelle">
-              <header className="panel-header">
-                <div>
-                  <h2 className="panel-title">Cartographie opérationnelle</h2>
-                  <p className="panel-subtitle">
-                    Plan d’intervention en temps réel pour réarmement et supervision.
-                  </p>
-                </div>
-              </header>
-              <div className="floor-plan" aria-label="Plan interactif du site">
-                <div className="floor-plan__header">
+          </section>
+          <section className="siemens-support">
+            {planImage && (
+              <article className="synoptic-panel siemens-support__plan" aria-label="Cartographie opérationnelle">
+                <header className="panel-header">
                   <div>
-                    <h3 className="floor-plan__title">Plan du site</h3>
-                    {planName && <p className="floor-plan__subtitle">{planName}</p>}
+                    <h2 className="panel-title">Cartographie opérationnelle</h2>
+                    <p className="panel-subtitle">
+                      Plan d’intervention en temps réel pour réarmement et supervision.
+                    </p>
+                  </div>
+                </header>
+                <div className="floor-plan" aria-label="Plan interactif du site">
+                  <div className="floor-plan__header">
+                    <div>
+                      <h3 className="floor-plan__title">Plan du site</h3>
+                      {planName && <p className="floor-plan__subtitle">{planName}</p>}
+                    </div>
+                    <p className="floor-plan__hint">
+                      {accessLevel >= 2
+                        ? 'Cliquez sur un DM, une DAI active ou un DAS en sécurité pour les réarmer.'
+                        : 'Passez au niveau 2 pour réarmer depuis le plan.'}
+                    </p>
+                  </div>
+                  <div className="floor-plan__stage">
+                    <img src={planImage} alt={planName ? `Plan ${planName}` : 'Plan du site'} />
+                    {topology?.devices.map((device) => {
+                      const position = getDevicePosition(device);
+                      if (!position) {
+                        return null;
+                      }
+                      const markerLabel = DEVICE_MARKER_LABELS[device.kind] ?? device.kind;
+                      const deviceLabel = device.label?.trim().length ? device.label.trim() : device.id;
+                      const zoneLabel = device.zoneId ? ` (${device.zoneId})` : '';
+                      const active = isDeviceActive(device, snapshot);
+                      const dasStatus =
+                        device.kind === 'DAS' ? snapshot?.dasDevices?.[device.id]?.status : undefined;
+                      const dasFault =
+                        dasStatus === 'FEEDBACK_TIMEOUT' || dasStatus === 'FEEDBACK_FAULT';
+                      const actionable = isDeviceActionable(
+                        device,
+                        snapshot,
+                        accessLevel,
+                        manualResetConstraints,
+                      );
+                      const lockedByLevel = active && accessLevel < 2;
+                      const className = [
+                        'floor-plan__marker',
+                        `floor-plan__marker--${device.kind.toLowerCase()}`,
+                        active ? 'is-active' : '',
+                        actionable ? 'is-actionable' : '',
+                        dasFault ? 'is-fault' : '',
+                        device.outOfService ? 'is-out-of-service' : '',
+                        lockedByLevel ? 'is-level-locked' : '',
+                      ]
+                        .filter(Boolean)
+                        .join(' ');
+                      const statusDetails: string[] = [];
+                      if (device.outOfService) {
+                        statusDetails.push('hors service');
+                      }
+                      if (dasStatus) {
+                        statusDetails.push(DAS_STATUS_LABELS[dasStatus]);
+                      }
+                      if (lockedByLevel) {
+                        statusDetails.push('niveau 2 requis pour réarmer');
+                      }
+                      const statusSuffix =
+                        statusDetails.length > 0 ? ` — ${statusDetails.join(' · ')}` : '';
+                      const title = `${markerLabel} · ${deviceLabel}${zoneLabel}${statusSuffix}`;
+                      return (
+                        <button
+                          key={device.id}
+                          type="button"
+                          className={className}
+                          style={{ left: `${position.x}%`, top: `${position.y}%` }}
+                          onClick={() => handlePlanDeviceClick(device)}
+                          title={title}
+                          aria-label={title}
+                          disabled={!actionable}
+                        >
+                          {markerLabel}
+                        </button>
+                      );
+                    })}
                   </div>
-                  <p className="floor-plan__hint">
-                    {accessLevel >= 2
-                      ? 'Cliquez sur un DM ou une DAI active pour les réarmer.'
-                      : 'Passez au niveau 2 pour réarmer depuis le plan.'}
-                  </p>
-                </div>
-                <div className="floor-plan__stage">
-                  <img src={planImage} alt={planName ? `Plan ${planName}` : 'Plan du site'} />
-                  {topology?.devices.map((device) => {
-                    const position = getDevicePosition(device);
-                    if (!position) {
-                      return null;
-                    }
-                    const markerLabel = DEVICE_MARKER_LABELS[device.kind] ?? device.kind;
-                    const deviceLabel = device.label?.trim().length ? device.label.trim() : device.id;
-                    const zoneLabel = device.zoneId ? ` (${device.zoneId})` : '';
-                    const active = isDeviceActive(device, snapshot);
-                    const actionable = isDeviceActionable(
-                      device,
-                      snapshot,
-                      accessLevel,
-                      manualResetConstraints,
-                    );
-                    const lockedByLevel = active && accessLevel < 2;
-                    const className = [
-                      'floor-plan__marker',
-                      `floor-plan__marker--${device.kind.toLowerCase()}`,
-                      active ? 'is-active' : '',
-                      actionable ? 'is-actionable' : '',
-                      device.outOfService ? 'is-out-of-service' : '',
-                      lockedByLevel ? 'is-level-locked' : '',
-                    ]
-                      .filter(Boolean)
-                      .join(' ');
-                    const statusDetails: string[] = [];
-                    if (device.outOfService) {
-                      statusDetails.push('hors service');
-                    }
-                    if (lockedByLevel) {
-                      statusDetails.push('niveau 2 requis pour réarmer');
-                    }
-                    const statusSuffix =
-                      statusDetails.length > 0 ? ` — ${statusDetails.join(' · ')}` : '';
-                    const title = `${markerLabel} · ${deviceLabel}${zoneLabel}${statusSuffix}`;
-                    return (
-                      <button
-                        key={device.id}
-                        type="button"
-                        className={className}
-                        style={{ left: `${position.x}%`, top: `${position.y}%` }}
-                        onClick={() => handlePlanDeviceClick(device)}
-                        title={title}
-                        aria-label={title}
-                        disabled={!actionable}
-                      >
-                        {markerLabel}
-                      </button>
-                    );
-                  })}
                 </div>
-              </div>
-              {topology && (
-                <OutOfServiceMap
-                  planImage={planImage}
-                  planName={planName}
-                  devices={topology.devices}
-                  selectedDeviceId={selectedDeviceId}
-                  onSelectDevice={(deviceId) => handleDeviceSelection(deviceId)}
-                />
-              )}
-            </article>
-          )}
-          <div className="side-panels side-panels--support">
-            {orderedSupportPanels.map((panel) => (
-              <Fragment key={panel.id}>{panel.element}</Fragment>
-            ))}
-          </div>
-        </section>
-      </main>
+                {topology && (
+                  <OutOfServiceMap
+                    planImage={planImage}
+                    planName={planName}
+                    devices={topology.devices}
+                    selectedDeviceId={selectedDeviceId}
+                    onSelectDevice={(deviceId) => handleDeviceSelection(deviceId)}
+                  />
+                )}
+              </article>
+            )}
+            <div className="side-panels side-panels--support">
+              {orderedSupportPanels.map((panel) => (
+                <Fragment key={panel.id}>{panel.element}</Fragment>
+              ))}
+            </div>
+          </section>
+        </main>
+      </fieldset>
       <footer className="trainee-footer">
         <span>Raccourcis clavier : Ctrl+M déclenchement — Ctrl+Shift+M arrêt.</span>
         <span>Version pédagogique — poste apprenant</span>
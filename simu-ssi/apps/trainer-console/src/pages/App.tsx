@@ -1,24 +1,43 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import type { ChangeEvent, FormEvent } from 'react';
-import { io } from 'socket.io-client';
+import { io, type Socket } from 'socket.io-client';
 import { ManualEvacuationPanel, StatusTile, TimelineBadge } from '@simu-ssi/shared-ui';
 import {
   SsiSdk,
+  DEFAULT_ROOM_ID,
   DEFAULT_TRAINEE_LAYOUT,
+  REPLAY_NAMESPACE,
+  REPLAY_SPEEDS,
+  clockStateSchema,
+  projectClockNow,
   type AccessCode,
+  type ClockSpeed,
+  type ClockState,
+  type DasFailureMode,
+  type FaultKind,
   type SessionSummary,
   type SessionImprovement,
+  type SessionScore,
+  type TraineeProgress,
+  type ReplaySpeed,
+  type ReplayState,
+  type ReplayTimeline,
+  type RoomSummary,
   type UserImportPayload,
   type UserImportResult,
   type UserRole,
   type UserSummary,
+  type AuthSession,
   type ScenarioDefinition,
   type ScenarioEvent,
+  type ScenarioEventCondition,
   type ScenarioEventSequenceEntry,
   type ScenarioManualResetSelection,
   type ScenarioPayload,
   type ScenarioEvacuationAudio,
   type ScenarioAudioAsset,
+  type ScenarioRubric,
+  type ScenarioRubricRule,
   scenarioDefinitionSchema,
   scenarioPayloadSchema,
   type ScenarioRunnerSnapshot,
@@ -31,6 +50,15 @@ import {
   type TraineeLayoutConfig,
 } from '@simu-ssi/sdk';
 
+interface ZoneEvacuationData {
+  alarmZoneId: string;
+  status: 'PENDING' | 'SUSPENDED' | 'ACTIVE';
+  detectionZoneIds: string[];
+  deadline?: number;
+  remainingMs?: number;
+  startedAt?: number;
+}
+
 interface CmsiStateData {
   status: string;
   deadline?: number;
@@ -40,13 +68,27 @@ interface CmsiStateData {
   zoneId?: string;
   zoneIds?: string[];
   pendingEvacuation?: { zoneId: string; deadline: number };
+  evacuations?: Record<string, ZoneEvacuationData>;
+  detections?: Record<
+    string,
+    { zoneId: string; status: 'AWAITING_COINCIDENCE' | 'VERIFYING'; deadline?: number }
+  >;
 }
 
+const ZONE_EVACUATION_BADGE_STATES = {
+  PENDING: 'pending',
+  SUSPENDED: 'suspended',
+  ACTIVE: 'active',
+} as const;
+
 interface DomainSnapshot {
   cmsi: CmsiStateData;
   ugaActive: boolean;
+  ugaSilenceableAt?: number;
   localAudibleActive: boolean;
   dasApplied: boolean;
+  alarmZones?: Record<string, { zoneId: string; evacuating: boolean; detectionZoneIds: string[] }>;
+  safetyZones?: Record<string, { zoneId: string; dasApplied: boolean; detectionZoneIds: string[] }>;
   manualEvacuation: boolean;
   manualEvacuationReason?: string;
   processAck: { isAcked: boolean };
@@ -64,8 +106,33 @@ interface DomainSnapshot {
       activeDeviceIds?: string[];
     }
   >;
+  power?: {
+    status: 'MAINS' | 'BATTERY' | 'BATTERY_LOW' | 'EXHAUSTED';
+    mainsAvailable: boolean;
+    batteryLow: boolean;
+    batteryExhausted: boolean;
+    mainsLostAt?: number;
+    autonomyDeadline?: number;
+  };
+  faults?: Record<
+    string,
+    {
+      id: string;
+      kind: FaultKind;
+      scope: 'DEVICE' | 'ZONE';
+      zoneId?: string;
+      deviceId?: string;
+      label?: string;
+      raisedAt: number;
+      acknowledged: boolean;
+    }
+  >;
+  dasDevices?: Record<string, { deviceId: string; zoneId?: string; status: DasStatus }>;
+  timersPausedAt?: number;
 }
 
+type DasStatus = 'WAITING' | 'COMMANDED' | 'SAFETY' | 'FEEDBACK_TIMEOUT' | 'FEEDBACK_FAULT';
+
 type ScenarioEventDraft = ScenarioEvent & { id: string };
 
 interface ScenarioDraft {
@@ -77,6 +144,8 @@ interface ScenarioDraft {
   manualResetMode: 'all' | 'custom';
   manualResettable: ScenarioManualResetSelection;
   evacuationAudio?: ScenarioEvacuationAudio;
+  /** Grille de notation propre au scénario ; la grille standard s'applique lorsqu'elle est absente. */
+  rubric?: ScenarioRubric;
 }
 
 
@@ -85,9 +154,45 @@ function getConfiguredApiToken(): string | undefined {
   return typeof token === 'string' && token.trim().length > 0 ? token.trim() : undefined;
 }
 
-function createSocketOptions() {
-  const token = getConfiguredApiToken();
-  return token ? { auth: { token } } : undefined;
+/** Salle d'exercice ciblée (`?room=<id>`) ; la salle par défaut du serveur si le paramètre est absent. */
+function getConfiguredRoomId(): string | undefined {
+  const roomId = new URLSearchParams(window.location.search).get('room')?.trim();
+  return roomId && roomId.length > 0 ? roomId : undefined;
+}
+
+const REFRESH_TOKEN_STORAGE_KEY = 'ssi-trainer-refresh-token';
+
+function readStoredRefreshToken(): string | undefined {
+  try {
+    return window.sessionStorage.getItem(REFRESH_TOKEN_STORAGE_KEY) ?? undefined;
+  } catch (error) {
+    console.error(error);
+    return undefined;
+  }
+}
+
+function storeRefreshToken(session: AuthSession | null) {
+  try {
+    if (session) {
+      window.sessionStorage.setItem(REFRESH_TOKEN_STORAGE_KEY, session.refreshToken);
+    } else {
+      window.sessionStorage.removeItem(REFRESH_TOKEN_STORAGE_KEY);
+    }
+  } catch (error) {
+    console.error(error);
+  }
+}
+
+/** Le jeton est relu à chaque (re)connexion pour suivre la session du formateur connecté. */
+function createSocketOptions(sdk: SsiSdk) {
+  const roomId = getConfiguredRoomId();
+  return {
+    auth: (callback: (data: object) => void) => {
+      const token = sdk.getAccessToken();
+      callback(token ? { token } : {});
+    },
+    ...(roomId ? { query: { roomId } } : {}),
+  };
 }
 
 const CMSI_STATUS_LABELS: Record<string, string> = {
@@ -97,8 +202,45 @@ const CMSI_STATUS_LABELS: Record<string, string> = {
   EVAC_PENDING: 'Pré-alerte',
   EVAC_ACTIVE: 'Evacuation',
   EVAC_SUSPENDED: 'Suspendue',
+  COINCIDENCE_PENDING: 'Coïncidence',
+  ALARM_VERIFICATION: 'Levée de doute',
+};
+
+const FAULT_KIND_LABELS: Record<FaultKind, string> = {
+  LINE_OPEN: 'Coupure de ligne',
+  LINE_SHORT: 'Court-circuit de ligne',
+  DAS_FEEDBACK: 'Défaut contrôle de position DAS',
+  UGA_LINE: 'Défaut ligne UGA',
+  OTHER: 'Autre dérangement',
+};
+
+const FAULT_KIND_OPTIONS = Object.entries(FAULT_KIND_LABELS) as Array<[FaultKind, string]>;
+
+const DAS_STATUS_LABELS: Record<DasStatus, string> = {
+  WAITING: 'En attente',
+  COMMANDED: 'En manœuvre',
+  SAFETY: 'Position de sécurité',
+  FEEDBACK_TIMEOUT: 'Défaut de position (délai)',
+  FEEDBACK_FAULT: 'Défaut de position',
 };
 
+const DAS_FAILURE_MODE_LABELS: Record<DasFailureMode, string> = {
+  STUCK: 'Blocage mécanique',
+  POSITION_LOST: 'Perte du contact de position',
+};
+
+const DAS_FAILURE_MODE_OPTIONS = Object.entries(DAS_FAILURE_MODE_LABELS) as Array<
+  [DasFailureMode, string]
+>;
+
+const CLOCK_SPEED_OPTIONS: ClockSpeed[] = [1, 2, 10];
+
+const CLOCK_STEP_OPTIONS: Array<[number, string]> = [
+  [10_000, '+10 s'],
+  [60_000, '+1 min'],
+  [300_000, '+5 min'],
+];
+
 const ZONE_KIND_LABELS: Record<string, string> = {
   ZF: 'Zone de Fonctionnement',
   ZD: 'Zone de Détection',
@@ -121,6 +263,9 @@ const BOARD_TILE_LABELS: Record<string, string> = {
   'manual-evac': 'Commande évacuation manuelle',
   dai: 'DAI – détection auto',
   'out-of-service': 'Dispositifs hors service',
+  'power-mains': 'Alimentation secteur',
+  'power-battery': 'Batteries – autonomie',
+  faults: 'Dérangements',
 };
 
 for (let index = 1; index <= 8; index += 1) {
@@ -130,7 +275,11 @@ for (let index = 1; index <= 8; index += 1) {
 const CONTROL_BUTTON_LABELS: Record<string, string> = {
   silence: 'Arrêt signal sonore',
   ack: 'Acquittement Process',
+  'fault-ack': 'Acquit dérangement',
   'reset-request': 'Demande de réarmement',
+  'das-rearm': 'Réarmement DAS',
+  'detection-confirm': 'Confirmation alarme',
+  'detection-cancel': 'Levée de doute',
   'reset-dm-zf1': 'Réarmement DM ZF1',
   'manual-evac-toggle': 'Commande évacuation manuelle',
 };
@@ -150,6 +299,7 @@ const NAVIGATION_SECTIONS = [
   { id: 'topology', label: 'Cartographie' },
   { id: 'scenarios', label: 'Scénarios pédagogiques' },
   { id: 'sessions', label: 'Sessions & apprenants' },
+  { id: 'replay', label: 'Rejeu de session' },
   { id: 'journal', label: "Journal d'événements" },
 ] as const;
 
@@ -188,21 +338,40 @@ function formatCmsiStatus(status?: string) {
   return CMSI_STATUS_LABELS[status] ?? status;
 }
 
+function formatDuration(ms?: number) {
+  if (ms == null) return '—';
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
 function formatTime(iso?: number) {
   if (!iso) return '—';
   return new Date(iso).toLocaleTimeString();
 }
 
+/** Noms de l'équipe d'apprenants, `null` si personne n'a rejoint la session. */
+function formatSessionTrainees(session: SessionSummary): string | null {
+  return session.trainees.length > 0 ? session.trainees.map((trainee) => trainee.fullName).join(', ') : null;
+}
+
 function translateScenarioStatus(
   status: ScenarioRunnerSnapshot['status'],
   awaitingSystemReset?: boolean,
+  awaiting?: ScenarioRunnerSnapshot['awaiting'],
 ): string {
   if (status === 'running' && awaitingSystemReset) {
     return 'En attente de réarmement';
   }
+  if (status === 'running' && awaiting) {
+    return 'En attente du stagiaire';
+  }
   switch (status) {
     case 'running':
       return 'En cours';
+    case 'paused':
+      return 'En pause';
     case 'ready':
       return 'Préchargé';
     case 'completed':
@@ -218,10 +387,17 @@ function describeScenarioEvent(snapshot: ScenarioRunnerSnapshot): string {
   if (snapshot.awaitingSystemReset) {
     return 'Attente du réarmement du système';
   }
+  if (snapshot.awaiting) {
+    return describeAwaitedEvent(snapshot.awaiting.event, snapshot.awaiting.zoneId);
+  }
   const event = snapshot.nextEvent;
   if (!event) {
     return '—';
   }
+  return describeScenarioAction(event);
+}
+
+function describeScenarioAction(event: ScenarioEvent): string {
   switch (event.type) {
     case 'DM_TRIGGER':
       return `Déclenchement DM ${event.zoneId}`;
@@ -241,11 +417,34 @@ function describeScenarioEvent(snapshot: ScenarioRunnerSnapshot): string {
       return "Nettoyage de l'acquit";
     case 'SYSTEM_RESET':
       return 'Demande de reset système';
+    case 'POWER_MAINS_CUT':
+      return 'Coupure secteur';
+    case 'POWER_MAINS_RESTORE':
+      return 'Rétablissement secteur';
+    case 'FAULT_RAISE':
+      return `${FAULT_KIND_LABELS[event.kind]} ${event.deviceId ?? event.zoneId ?? ''}`.trim();
+    case 'FAULT_CLEAR':
+      return `Fin de dérangement ${event.deviceId ?? event.zoneId ?? ''}`.trim();
+    case 'DAS_FAIL':
+      return `${DAS_FAILURE_MODE_LABELS[event.mode]} DAS ${event.deviceId}`;
+    case 'DAS_REPAIR':
+      return `Fin de défaillance DAS ${event.deviceId}`;
+    case 'DETECTION_CONFIRM':
+      return `Confirmation alarme ${event.zoneId}`;
+    case 'DETECTION_CANCEL':
+      return `Levée de doute ${event.zoneId}`;
+    case 'WAIT_FOR':
+      return describeAwaitedEvent(event.event, event.zoneId);
     default:
       return 'Action scénario';
   }
 }
 
+function describeAwaitedEvent(code: string, zoneId?: string): string {
+  const label = SCENARIO_CONDITION_EVENT_OPTIONS.find((option) => option.value === code)?.label ?? code;
+  return `Attente : ${label}${zoneId ? ` (${zoneId})` : ''}`;
+}
+
 function formatZoneKind(kind?: string) {
   if (!kind) {
     return 'Type non défini';
@@ -391,8 +590,10 @@ function isDeviceActive(device: SiteDevice, snapshot: DomainSnapshot | null): bo
         return false;
       }
       return snapshotStateIncludesDevice(snapshot.daiActivated?.[device.zoneId], device.id);
-    case 'DAS':
-      return Boolean(snapshot.dasApplied);
+    case 'DAS': {
+      const das = snapshot.dasDevices?.[device.id];
+      return das ? das.status !== 'WAITING' : Boolean(snapshot.dasApplied);
+    }
     case 'UGA':
       return Boolean(snapshot.ugaActive || snapshot.localAudibleActive);
     default:
@@ -488,6 +689,7 @@ function createEmptyScenarioDraft(): ScenarioDraft {
     manualResetMode: 'all',
     manualResettable: createEmptyManualResetSelection(),
     evacuationAudio: undefined,
+    rubric: undefined,
   };
 }
 
@@ -526,8 +728,27 @@ function createDraftEvent(type: ScenarioEvent['type'], defaultZoneId?: string):
       return { ...base, type, reason: '' } as ScenarioEventDraft;
     case 'PROCESS_ACK':
       return { ...base, type, ackedBy: 'trainer' } as ScenarioEventDraft;
+    case 'FAULT_RAISE':
+    case 'FAULT_CLEAR':
+      return {
+        ...base,
+        type,
+        kind: 'LINE_OPEN',
+        zoneId: (defaultZoneId ?? 'ZF1').toUpperCase(),
+      } as ScenarioEventDraft;
+    case 'DAS_FAIL':
+      return { ...base, type, deviceId: '', mode: 'STUCK' } as ScenarioEventDraft;
+    case 'DAS_REPAIR':
+      return { ...base, type, deviceId: '' } as ScenarioEventDraft;
+    case 'DETECTION_CONFIRM':
+    case 'DETECTION_CANCEL':
+      return { ...base, type, zoneId: (defaultZoneId ?? 'ZF1').toUpperCase() } as ScenarioEventDraft;
+    case 'WAIT_FOR':
+      return { ...base, type, event: 'PROCESS_ACK' } as ScenarioEventDraft;
     case 'PROCESS_CLEAR':
     case 'SYSTEM_RESET':
+    case 'POWER_MAINS_CUT':
+    case 'POWER_MAINS_RESTORE':
     default:
       return { ...base, type } as ScenarioEventDraft;
   }
@@ -542,6 +763,7 @@ function adaptEventForType(
     id: event.id,
     offset: event.offset,
     label: event.label,
+    condition: event.condition,
   };
   switch (type) {
     case 'DM_TRIGGER':
@@ -567,14 +789,226 @@ function adaptEventForType(
       const ackedBy = 'ackedBy' in event ? event.ackedBy : undefined;
       return { ...base, type, ackedBy: ackedBy ?? 'trainer' } as ScenarioEventDraft;
     }
+    case 'FAULT_RAISE':
+    case 'FAULT_CLEAR': {
+      const kind = 'kind' in event ? event.kind : 'LINE_OPEN';
+      const zone = 'zoneId' in event ? event.zoneId : undefined;
+      const deviceId = 'deviceId' in event ? event.deviceId : undefined;
+      return {
+        ...base,
+        type,
+        kind,
+        zoneId: zone ?? (deviceId ? undefined : (defaultZoneId ?? 'ZF1').toUpperCase()),
+        deviceId,
+      } as ScenarioEventDraft;
+    }
+    case 'DAS_FAIL':
+    case 'DAS_REPAIR': {
+      const deviceId = 'deviceId' in event ? event.deviceId ?? '' : '';
+      const mode = event.type === 'DAS_FAIL' ? event.mode : 'STUCK';
+      return type === 'DAS_FAIL'
+        ? ({ ...base, type, deviceId, mode } as ScenarioEventDraft)
+        : ({ ...base, type, deviceId } as ScenarioEventDraft);
+    }
+    case 'DETECTION_CONFIRM':
+    case 'DETECTION_CANCEL': {
+      const zone = 'zoneId' in event ? event.zoneId : undefined;
+      return {
+        ...base,
+        type,
+        zoneId: (zone ?? defaultZoneId ?? 'ZF1').toUpperCase(),
+      } as ScenarioEventDraft;
+    }
+    case 'WAIT_FOR': {
+      const awaited = event.type === 'WAIT_FOR' ? event : undefined;
+      return {
+        ...base,
+        type,
+        event: awaited?.event ?? 'PROCESS_ACK',
+        zoneId: awaited?.zoneId,
+        timeout: awaited?.timeout,
+        timeoutEventId: awaited?.timeoutEventId,
+      } as ScenarioEventDraft;
+    }
     case 'PROCESS_CLEAR':
     case 'SYSTEM_RESET':
+    case 'POWER_MAINS_CUT':
+    case 'POWER_MAINS_RESTORE':
     default:
       return { ...base, type } as ScenarioEventDraft;
   }
 }
 
+function createDraftRubricRule(kind: ScenarioRubricRule['kind']): ScenarioRubricRule {
+  const base = { id: crypto.randomUUID(), description: '', weight: 1 };
+  switch (kind) {
+    case 'ORDER':
+      return { ...base, kind, first: 'PROCESS_ACK', then: 'SYSTEM_RESET' };
+    case 'PENALTY':
+      return { ...base, kind, event: 'system-reset-rejected', penalty: 0.5 };
+    case 'REACTION_TIME':
+    default:
+      return {
+        ...base,
+        kind: 'REACTION_TIME',
+        trigger: 'DM_LATCHED',
+        response: 'PROCESS_ACK',
+        targetMs: 30_000,
+        maxMs: 120_000,
+      };
+  }
+}
+
+function adaptRubricRuleForKind(
+  rule: ScenarioRubricRule,
+  kind: ScenarioRubricRule['kind'],
+): ScenarioRubricRule {
+  const draft = createDraftRubricRule(kind);
+  return { ...draft, id: rule.id, description: rule.description, weight: rule.weight, feedback: rule.feedback };
+}
+
+function describeScoringEvent(code: string): string {
+  return SCORING_EVENT_OPTIONS.find((option) => option.value === code)?.label ?? code;
+}
+
+function describeRubricRule(rule: ScenarioRubricRule): string {
+  switch (rule.kind) {
+    case 'REACTION_TIME':
+      return `${describeScoringEvent(rule.response)} après ${describeScoringEvent(rule.trigger)}`;
+    case 'ORDER':
+      return `${describeScoringEvent(rule.first)} avant ${describeScoringEvent(rule.then)}`;
+    case 'PENALTY':
+      return `Pénalité : ${describeScoringEvent(rule.event)}`;
+    default:
+      return 'Critère';
+  }
+}
+
+function normalizeRubric(rubric: ScenarioRubric | undefined): ScenarioRubric | undefined {
+  if (!rubric || rubric.rules.length === 0) {
+    return undefined;
+  }
+  const name = rubric.name?.trim();
+  return {
+    name: name && name.length > 0 ? name : undefined,
+    rules: rubric.rules.map((rule) => {
+      const description = rule.description.trim();
+      const feedback = rule.feedback?.trim();
+      const weight = Number.isFinite(rule.weight) && rule.weight > 0 ? rule.weight : 1;
+      const normalized = {
+        ...rule,
+        description: description.length > 0 ? description : describeRubricRule(rule),
+        weight,
+        feedback: feedback && feedback.length > 0 ? feedback : undefined,
+      };
+      if (normalized.kind === 'REACTION_TIME') {
+        const targetMs = Math.max(0, normalized.targetMs);
+        return { ...normalized, targetMs, maxMs: Math.max(targetMs + 1_000, normalized.maxMs) };
+      }
+      if (normalized.kind === 'PENALTY') {
+        return { ...normalized, penalty: Math.min(1, Math.max(0.05, normalized.penalty)) };
+      }
+      return normalized;
+    }),
+  };
+}
+
+interface GradingDraft {
+  scoreId: number | null;
+  rubricName: string;
+  comments: string;
+  items: Array<{ id: string; description: string; weight: number; score: number; comment: string }>;
+}
+
+/** Brouillon d'évaluation : reprend l'évaluation existante du formateur ou la grille d'observation par défaut. */
+function createGradingDraft(score?: SessionScore | null): GradingDraft {
+  if (score) {
+    return {
+      scoreId: score.id,
+      rubricName: score.rubricName ?? '',
+      comments: score.comments ?? '',
+      items: score.items.map((item) => ({
+        id: item.id,
+        description: item.description,
+        weight: item.weight,
+        score: item.score ?? 0,
+        comment: item.comment ?? '',
+      })),
+    };
+  }
+  return {
+    scoreId: null,
+    rubricName: "Grille d'observation formateur",
+    comments: '',
+    items: GRADING_DEFAULT_CRITERIA.map((criterion) => ({ ...criterion, score: 1, comment: '' })),
+  };
+}
+
+function createDraftCondition(kind: ScenarioEventCondition['kind']): ScenarioEventCondition {
+  switch (kind) {
+    case 'AFTER_EVENT':
+    case 'UNLESS_EVENT':
+      return { kind, event: 'PROCESS_ACK' };
+    case 'IF_STATE':
+    default:
+      return { kind: 'IF_STATE', processAcked: false };
+  }
+}
+
+function normalizeEventCondition(
+  condition: ScenarioEventCondition | undefined,
+): ScenarioEventCondition | undefined {
+  if (!condition) {
+    return undefined;
+  }
+  if (condition.kind === 'IF_STATE') {
+    const { cmsiStatus, processAcked, ugaActive, mainsAvailable } = condition;
+    if ([cmsiStatus, processAcked, ugaActive, mainsAvailable].every((value) => value === undefined)) {
+      return undefined;
+    }
+    return { kind: 'IF_STATE', cmsiStatus, processAcked, ugaActive, mainsAvailable };
+  }
+  const zoneId = condition.zoneId?.trim().toUpperCase();
+  return {
+    kind: condition.kind,
+    event: condition.event,
+    zoneId: zoneId && zoneId.length > 0 ? zoneId : undefined,
+  };
+}
+
+function describeEventCondition(condition: ScenarioEventCondition): string {
+  if (condition.kind === 'IF_STATE') {
+    const parts: string[] = [];
+    if (condition.cmsiStatus) {
+      parts.push(`CMSI ${CMSI_STATUS_LABELS[condition.cmsiStatus] ?? condition.cmsiStatus}`);
+    }
+    for (const field of SCENARIO_STATE_FLAG_FIELDS) {
+      const value = condition[field.key];
+      if (value !== undefined) {
+        parts.push(`${field.label} ${(value ? field.on : field.off).toLowerCase()}`);
+      }
+    }
+    return parts.length > 0 ? `Si ${parts.join(', ')}` : 'Toujours';
+  }
+  const eventLabel =
+    SCENARIO_CONDITION_EVENT_OPTIONS.find((option) => option.value === condition.event)?.label ??
+    condition.event;
+  const target = condition.zoneId ? ` (${condition.zoneId})` : '';
+  return condition.kind === 'AFTER_EVENT'
+    ? `Après : ${eventLabel}${target}`
+    : `Sauf si : ${eventLabel}${target}`;
+}
+
 function normalizeEventForPayload(event: ScenarioEventDraft, topology: SiteTopology | null): ScenarioEvent {
+  const normalized = normalizeEventFieldsForPayload(event, topology);
+  const condition = normalizeEventCondition(event.condition);
+  return condition ? { ...normalized, condition } : normalized;
+}
+
+function normalizeEventFieldsForPayload(
+  event: ScenarioEventDraft,
+  topology: SiteTopology | null,
+): ScenarioEvent {
   const offset = Number.isFinite(event.offset) ? Number(event.offset) : 0;
   const label = event.label?.toString().trim();
   switch (event.type) {
@@ -636,8 +1070,64 @@ function normalizeEventForPayload(event: ScenarioEventDraft, topology: SiteTopol
         ackedBy: ackedBy && ackedBy.length > 0 ? ackedBy : undefined,
       };
     }
+    case 'FAULT_RAISE':
+    case 'FAULT_CLEAR': {
+      const zoneId = (event as { zoneId?: string }).zoneId?.trim().toUpperCase();
+      const deviceId = (event as { deviceId?: string }).deviceId?.trim();
+      return {
+        type: event.type,
+        id: event.id,
+        offset,
+        label: label && label.length > 0 ? label : undefined,
+        kind: event.kind,
+        zoneId: zoneId && zoneId.length > 0 ? zoneId : undefined,
+        deviceId: deviceId && deviceId.length > 0 ? deviceId : undefined,
+      };
+    }
+    case 'DAS_FAIL':
+      return {
+        type: event.type,
+        id: event.id,
+        offset,
+        label: label && label.length > 0 ? label : undefined,
+        deviceId: event.deviceId.trim(),
+        mode: event.mode,
+      };
+    case 'DAS_REPAIR':
+      return {
+        type: event.type,
+        id: event.id,
+        offset,
+        label: label && label.length > 0 ? label : undefined,
+        deviceId: event.deviceId.trim(),
+      };
+    case 'DETECTION_CONFIRM':
+    case 'DETECTION_CANCEL':
+      return {
+        type: event.type,
+        id: event.id,
+        offset,
+        label: label && label.length > 0 ? label : undefined,
+        zoneId: event.zoneId.trim().toUpperCase(),
+      };
+    case 'WAIT_FOR': {
+      const zoneId = event.zoneId?.trim().toUpperCase();
+      const timeout = Number.isFinite(event.timeout) && Number(event.timeout) > 0 ? Number(event.timeout) : undefined;
+      return {
+        type: event.type,
+        id: event.id,
+        offset,
+        label: label && label.length > 0 ? label : undefined,
+        event: event.event,
+        zoneId: zoneId && zoneId.length > 0 ? zoneId : undefined,
+        timeout,
+        timeoutEventId: timeout !== undefined ? event.timeoutEventId || undefined : undefined,
+      };
+    }
     case 'PROCESS_CLEAR':
     case 'SYSTEM_RESET':
+    case 'POWER_MAINS_CUT':
+    case 'POWER_MAINS_RESTORE':
     default:
       return {
         type: event.type,
@@ -650,6 +1140,7 @@ function normalizeEventForPayload(event: ScenarioEventDraft, topology: SiteTopol
 
 function draftToPayload(draft: ScenarioDraft, fallbackTopology: SiteTopology | null): ScenarioPayload {
   const evacuationAudio = normalizeEvacuationAudio(draft.evacuationAudio);
+  const rubric = normalizeRubric(draft.rubric);
   const sourceTopology = draft.topology ?? fallbackTopology ?? undefined;
   return {
     name: draft.name.trim(),
@@ -660,6 +1151,7 @@ function draftToPayload(draft: ScenarioDraft, fallbackTopology: SiteTopology | n
       ? { manualResettable: normalizeManualResetSelection(draft.manualResettable) }
       : {}),
     ...(evacuationAudio ? { evacuationAudio } : {}),
+    ...(rubric ? { rubric } : {}),
   };
 }
 
@@ -673,6 +1165,7 @@ function scenarioDefinitionToDraft(definition: ScenarioDefinition): ScenarioDraf
     manualResetMode: definition.manualResettable ? 'custom' : 'all',
     manualResettable: normalizeManualResetSelection(definition.manualResettable),
     evacuationAudio: normalizeEvacuationAudio(definition.evacuationAudio) ?? undefined,
+    rubric: definition.rubric,
   };
 }
 
@@ -686,9 +1179,89 @@ const SCENARIO_EVENT_OPTIONS: Array<{ value: ScenarioEvent['type']; label: strin
   { value: 'PROCESS_ACK', label: 'Acquitter le process' },
   { value: 'PROCESS_CLEAR', label: "Effacer l'acquit" },
   { value: 'SYSTEM_RESET', label: 'Reset système' },
+  { value: 'POWER_MAINS_CUT', label: 'Couper le secteur' },
+  { value: 'POWER_MAINS_RESTORE', label: 'Rétablir le secteur' },
+  { value: 'FAULT_RAISE', label: 'Injecter un dérangement' },
+  { value: 'FAULT_CLEAR', label: 'Lever un dérangement' },
+  { value: 'DAS_FAIL', label: 'Provoquer une défaillance DAS' },
+  { value: 'DAS_REPAIR', label: 'Réparer un DAS' },
+  { value: 'DETECTION_CONFIRM', label: "Confirmer l'alarme d'une zone en attente" },
+  { value: 'DETECTION_CANCEL', label: "Écarter la détection d'une zone en attente" },
+  { value: 'WAIT_FOR', label: 'Attendre une action du stagiaire' },
+];
+
+const SCENARIO_CONDITION_OPTIONS: Array<{ value: ScenarioEventCondition['kind']; label: string }> = [
+  { value: 'AFTER_EVENT', label: "Après l'événement" },
+  { value: 'UNLESS_EVENT', label: "Sauf si l'événement est survenu" },
+  { value: 'IF_STATE', label: "Si l'état du SSI" },
+];
+
+const SCENARIO_CONDITION_EVENT_OPTIONS: Array<{ value: string; label: string }> = [
+  { value: 'PROCESS_ACK', label: 'Acquit process' },
+  { value: 'AUDIBLE_SILENCED', label: 'Signal sonore coupé' },
+  { value: 'DM_LATCHED', label: 'DM déclenché' },
+  { value: 'DM_RESET', label: 'DM réarmé' },
+  { value: 'DAI_TRIGGERED', label: 'DAI en alarme' },
+  { value: 'DAI_RESET', label: 'DAI réarmé' },
+  { value: 'COINCIDENCE_PENDING', label: 'Attente de coïncidence' },
+  { value: 'COINCIDENCE_REACHED', label: 'Coïncidence atteinte' },
+  { value: 'ALARM_VERIFICATION_STARTED', label: 'Délai de reconnaissance engagé' },
+  { value: 'ALARM_VERIFICATION_EXPIRED', label: 'Délai de reconnaissance écoulé' },
+  { value: 'DETECTION_CONFIRMED', label: 'Alarme confirmée' },
+  { value: 'DETECTION_CANCELLED', label: 'Détection écartée' },
+  { value: 'FIRE_ALARM_STARTED', label: 'Alarme feu' },
+  { value: 'EVAC_PENDING', label: 'Évacuation imminente' },
+  { value: 'EVAC_SUSPENDED', label: 'Évacuation suspendue' },
+  { value: 'AUTOMATIC_EVAC_STARTED', label: 'Évacuation automatique' },
+  { value: 'MANUAL_EVAC_STARTED', label: 'Évacuation manuelle' },
+  { value: 'MANUAL_EVAC_STOPPED', label: "Fin d'évacuation manuelle" },
+  { value: 'SAFE_HOLD', label: 'Maintien de sécurité' },
+  { value: 'SYSTEM_RESET', label: 'Réarmement système' },
+  { value: 'FAULT_ACKNOWLEDGED', label: 'Dérangement acquitté' },
+  { value: 'DAS_REARMED', label: 'DAS réarmés' },
+  { value: 'MAINS_LOST', label: 'Perte secteur' },
+  { value: 'MAINS_RESTORED', label: 'Retour secteur' },
+];
+
+const SCORING_EVENT_OPTIONS: Array<{ value: string; label: string }> = [
+  ...SCENARIO_CONDITION_EVENT_OPTIONS,
+  { value: 'system-reset-rejected', label: 'Réarmement refusé (DM non réarmé)' },
+];
+
+const RUBRIC_RULE_OPTIONS: Array<{ value: ScenarioRubricRule['kind']; label: string }> = [
+  { value: 'REACTION_TIME', label: 'Temps de réaction' },
+  { value: 'ORDER', label: 'Ordre des actions' },
+  { value: 'PENALTY', label: 'Action pénalisée' },
+];
+
+const GRADING_LEVEL_OPTIONS: Array<{ value: number; label: string }> = [
+  { value: 1, label: 'Acquis' },
+  { value: 0.5, label: "En cours d'acquisition" },
+  { value: 0, label: 'Non acquis' },
+];
+
+const GRADING_DEFAULT_CRITERIA: Array<{ id: string; description: string; weight: number }> = [
+  { id: 'levee-de-doute', description: 'Levée de doute et reconnaissance', weight: 2 },
+  { id: 'acquit-process', description: 'Acquit process et arrêt du signal sonore', weight: 2 },
+  { id: 'decision-evacuation', description: "Décision d'évacuation", weight: 3 },
+  { id: 'rearmement', description: 'Réarmement et remise en état du SSI', weight: 1 },
+  { id: 'compte-rendu', description: 'Compte rendu et communication', weight: 1 },
+];
+
+const PROGRESS_CHART_WIDTH = 480;
+const PROGRESS_CHART_HEIGHT = 160;
+const PROGRESS_CHART_PADDING = 24;
+
+type ScenarioStateFlag = 'processAcked' | 'ugaActive' | 'mainsAvailable';
+
+const SCENARIO_STATE_FLAG_FIELDS: Array<{ key: ScenarioStateFlag; label: string; on: string; off: string }> = [
+  { key: 'processAcked', label: 'Acquit process', on: 'Fourni', off: 'Absent' },
+  { key: 'ugaActive', label: 'UGA', on: 'En diffusion', off: 'Au repos' },
+  { key: 'mainsAvailable', label: 'Secteur', on: 'Présent', off: 'Coupé' },
 ];
 
 const SCENARIO_ZONE_DATALIST_ID = 'scenario-zone-options';
+const SCENARIO_DAS_DATALIST_ID = 'scenario-das-options';
 const SCENARIO_EXPORT_FORMAT = 'simu-ssi/scenario@1';
 const USER_EXPORT_FORMAT = 'simu-ssi/users@1';
 const HONEYWELL_PRESET_SCENARIO_NAME = 'Preset H4YB - CMSI adressable';
@@ -1152,6 +1725,7 @@ function extractScenarioPayload(data: unknown): ScenarioPayload | null {
       topology: rest.topology,
       ...(rest.manualResettable ? { manualResettable: rest.manualResettable } : {}),
       ...(rest.evacuationAudio ? { evacuationAudio: rest.evacuationAudio } : {}),
+      ...(rest.rubric ? { rubric: rest.rubric } : {}),
     };
   }
   return null;
@@ -1252,12 +1826,18 @@ export function App() {
   const [config, setConfig] = useState<SiteConfig | null>(null);
   const [snapshot, setSnapshot] = useState<DomainSnapshot | null>(null);
   const [now, setNow] = useState(() => Date.now());
+  const [clock, setClock] = useState<{ state: ClockState; receivedAt: number } | null>(null);
+  const simulatedNow = projectClockNow(clock?.state, clock?.receivedAt ?? now, now);
   const [events, setEvents] = useState<string[]>([]);
   const [activeSection, setActiveSection] = useState<SectionId>(NAVIGATION_SECTIONS[0].id);
   const [ackPending, setAckPending] = useState(false);
   const [clearPending, setClearPending] = useState(false);
   const [simulateDmPending, setSimulateDmPending] = useState(false);
   const [simulateDaiPending, setSimulateDaiPending] = useState(false);
+  const [powerPending, setPowerPending] = useState(false);
+  const [faultKindDraft, setFaultKindDraft] = useState<FaultKind>('LINE_OPEN');
+  const [faultTargetDraft, setFaultTargetDraft] = useState('ZF1');
+  const [faultPending, setFaultPending] = useState(false);
   const [resetPending, setResetPending] = useState(false);
   const [resettingZone, setResettingZone] = useState<string | null>(null);
   const [resettingDaiZone, setResettingDaiZone] = useState<string | null>(null);
@@ -1266,6 +1846,7 @@ export function App() {
   const [accessCodesError, setAccessCodesError] = useState<string | null>(null);
   const [accessCodesFeedback, setAccessCodesFeedback] = useState<string | null>(null);
   const [codeInputs, setCodeInputs] = useState<Record<number, string>>({});
+  const [codeExpiryInputs, setCodeExpiryInputs] = useState<Record<number, string>>({});
   const [updatingCodeLevel, setUpdatingCodeLevel] = useState<number | null>(null);
   const [scenarios, setScenarios] = useState<ScenarioDefinition[]>([]);
   const [scenarioStatus, setScenarioStatus] = useState<ScenarioRunnerSnapshot>({ status: 'idle' });
@@ -1280,6 +1861,7 @@ export function App() {
   const [scenarioDeleting, setScenarioDeleting] = useState<string | null>(null);
   const [scenarioLoadingId, setScenarioLoadingId] = useState<string | null>(null);
   const [scenarioPreloadingId, setScenarioPreloadingId] = useState<string | null>(null);
+  const [scenarioSeekIndex, setScenarioSeekIndex] = useState('');
   const [scenarioError, setScenarioError] = useState<string | null>(null);
   const [scenarioFeedback, setScenarioFeedback] = useState<string | null>(null);
   const [topology, setTopology] = useState<SiteTopology | null>(null);
@@ -1302,7 +1884,13 @@ export function App() {
   const [userActionError, setUserActionError] = useState<string | null>(null);
   const [creatingUser, setCreatingUser] = useState(false);
   const [editingUserId, setEditingUserId] = useState<string | null>(null);
-  const [editingUserDraft, setEditingUserDraft] = useState<{ fullName: string; email: string; role: UserRole } | null>(null);
+  const [editingUserDraft, setEditingUserDraft] = useState<{
+    fullName: string;
+    email: string;
+    role: UserRole;
+    /** Nouveau mot de passe ou code PIN ; vide pour conserver l'actuel. */
+    secret: string;
+  } | null>(null);
   const [userDeletingId, setUserDeletingId] = useState<string | null>(null);
   const [userSavingId, setUserSavingId] = useState<string | null>(null);
   const [userImporting, setUserImporting] = useState(false);
@@ -1313,7 +1901,7 @@ export function App() {
   const [sessionForm, setSessionForm] = useState({
     name: '',
     mode: 'libre',
-    traineeId: '',
+    traineeIds: [] as string[],
     trainerId: '',
     objective: '',
     notes: '',
@@ -1329,9 +1917,41 @@ export function App() {
   const [selectedTrainerId, setSelectedTrainerId] = useState<string>('');
   const [trainerAuthError, setTrainerAuthError] = useState<string | null>(null);
   const [trainerAuthPending, setTrainerAuthPending] = useState<boolean>(false);
+  const [trainerSecret, setTrainerSecret] = useState<string>('');
+  const [gradingSessionId, setGradingSessionId] = useState<string>('');
+  const [sessionScores, setSessionScores] = useState<SessionScore[]>([]);
+  const [sessionScoresLoading, setSessionScoresLoading] = useState(false);
+  const [gradingDraft, setGradingDraft] = useState<GradingDraft>(() => createGradingDraft());
+  const [gradingSaving, setGradingSaving] = useState(false);
+  const [gradingError, setGradingError] = useState<string | null>(null);
+  const [gradingFeedback, setGradingFeedback] = useState<string | null>(null);
+  const [profileUserId, setProfileUserId] = useState<string>('');
+  const [traineeProgress, setTraineeProgress] = useState<TraineeProgress | null>(null);
+  const [traineeProgressLoading, setTraineeProgressLoading] = useState(false);
+  const [traineeProgressError, setTraineeProgressError] = useState<string | null>(null);
+  const [replaySessionId, setReplaySessionId] = useState<string>('');
+  const [replayTimeline, setReplayTimeline] = useState<ReplayTimeline | null>(null);
+  const [replayState, setReplayState] = useState<ReplayState | null>(null);
+  const [replayError, setReplayError] = useState<string | null>(null);
+  const replaySocketRef = useRef<Socket | null>(null);
+  const activeRoomId = useMemo(() => getConfiguredRoomId() ?? DEFAULT_ROOM_ID, []);
+  const [rooms, setRooms] = useState<RoomSummary[]>([]);
+  const [roomDraft, setRoomDraft] = useState({ id: '', name: '' });
+  const [roomPending, setRoomPending] = useState(false);
+  const [roomError, setRoomError] = useState<string | null>(null);
 
   const baseUrl = useMemo(() => import.meta.env.VITE_SERVER_URL ?? 'http://localhost:4500', []);
-  const sdk = useMemo(() => new SsiSdk(baseUrl, { apiToken: getConfiguredApiToken() }), [baseUrl]);
+  const sdk = useMemo(
+    () =>
+      new SsiSdk(baseUrl, {
+        apiToken: getConfiguredApiToken(),
+        roomId: getConfiguredRoomId(),
+        trainerConsole: true,
+        refreshToken: readStoredRefreshToken(),
+        onSessionChange: storeRefreshToken,
+      }),
+    [baseUrl],
+  );
   const traineeOptions = useMemo(() => users.filter((user) => user.role === 'TRAINEE'), [users]);
   const trainerOptions = useMemo(() => users.filter((user) => user.role === 'TRAINER'), [users]);
   const recentSessions = useMemo(() => sessions.slice(0, 6), [sessions]);
@@ -1404,6 +2024,11 @@ export function App() {
     setSessionForm((prev) => (prev.trainerId === activeTrainer.id ? prev : { ...prev, trainerId: activeTrainer.id }));
   }, [activeTrainer]);
 
+  useEffect(() => {
+    // Les commandes passées depuis la console sont journalisées au nom du formateur identifié.
+    sdk.setActor(activeTrainer?.id ?? null);
+  }, [activeTrainer, sdk]);
+
   useEffect(() => {
     if (!activeTrainer || !activeSession || activeSession.status !== 'active') {
       return;
@@ -1460,11 +2085,27 @@ export function App() {
       .finally(() => setUsersLoading(false));
   }, [sdk]);
 
+  useEffect(() => {
+    sdk
+      .listRooms()
+      .then(setRooms)
+      .catch((error) => {
+        console.error(error);
+        setRoomError('Impossible de charger la liste des salles.');
+      });
+  }, [sdk]);
+
   const handleTrainerSelectChange = useCallback((event: ChangeEvent<HTMLSelectElement>) => {
     setSelectedTrainerId(event.target.value);
+    setTrainerSecret('');
     setTrainerAuthError(null);
   }, []);
 
+  const selectedTrainer = useMemo(
+    () => trainerOptions.find((user) => user.id === selectedTrainerId) ?? null,
+    [selectedTrainerId, trainerOptions],
+  );
+
   const handleTrainerLogin = useCallback(
     async (event: FormEvent<HTMLFormElement>) => {
       event.preventDefault();
@@ -1477,9 +2118,17 @@ export function App() {
         setTrainerAuthError('Compte formateur introuvable.');
         return;
       }
+      if (trainer.hasCredential && !trainerSecret) {
+        setTrainerAuthError('Saisissez votre mot de passe ou code PIN.');
+        return;
+      }
       setTrainerAuthPending(true);
       setTrainerAuthError(null);
       try {
+        if (trainer.hasCredential) {
+          await sdk.login({ userId: trainer.id, secret: trainerSecret });
+          setTrainerSecret('');
+        }
         setActiveTrainer(trainer);
         try {
           window.localStorage.setItem('ssi-trainer-user-id', trainer.id);
@@ -1491,12 +2140,26 @@ export function App() {
         }
       } catch (error) {
         console.error(error);
-        setTrainerAuthError("Impossible de valider l'identification formateur.");
+        setTrainerAuthError(
+          error instanceof Error && error.message === 'INVALID_CREDENTIALS'
+            ? 'Identifiants incorrects.'
+            : error instanceof Error && error.message === 'LOGIN_LOCKED'
+            ? 'Trop d’essais erronés : compte verrouillé temporairement.'
+            : "Impossible de valider l'identification formateur.",
+        );
       } finally {
         setTrainerAuthPending(false);
       }
     },
-    [activeSession?.id, activeSession?.status, activeSession?.trainer?.id, sdk, selectedTrainerId, trainerOptions],
+    [
+      activeSession?.id,
+      activeSession?.status,
+      activeSession?.trainer?.id,
+      sdk,
+      selectedTrainerId,
+      trainerOptions,
+      trainerSecret,
+    ],
   );
 
   const handleTrainerLogout = useCallback(() => {
@@ -1506,16 +2169,55 @@ export function App() {
     } catch (error) {
       console.error(error);
     }
-    if (activeSession && activeSession.status === 'active' && activeSession.trainer) {
-      sdk
-        .updateSession(activeSession.id, { trainerId: null })
-        .catch((error) => {
-          console.error(error);
-          setTrainerAuthError("Impossible de dissocier le formateur de la session en cours.");
-        });
-    }
+    const release =
+      activeSession && activeSession.status === 'active' && activeSession.trainer
+        ? sdk.updateSession(activeSession.id, { trainerId: null }).catch((error) => {
+            console.error(error);
+            setTrainerAuthError("Impossible de dissocier le formateur de la session en cours.");
+          })
+        : Promise.resolve();
+    release.then(() => sdk.logout()).catch(console.error);
   }, [activeSession?.id, activeSession?.status, activeSession?.trainer?.id, sdk]);
 
+  /** Change de salle en rechargeant la console : sockets et états repartent de la salle choisie. */
+  const openRoom = useCallback((roomId: string) => {
+    const url = new URL(window.location.href);
+    if (roomId === DEFAULT_ROOM_ID) {
+      url.searchParams.delete('room');
+    } else {
+      url.searchParams.set('room', roomId);
+    }
+    window.location.assign(url.toString());
+  }, []);
+
+  const handleRoomCreate = useCallback(
+    async (event: FormEvent<HTMLFormElement>) => {
+      event.preventDefault();
+      const id = roomDraft.id.trim().toLowerCase();
+      const name = roomDraft.name.trim();
+      if (!id || !name) {
+        setRoomError('Renseignez un identifiant et un nom de salle.');
+        return;
+      }
+      setRoomPending(true);
+      setRoomError(null);
+      try {
+        const room = await sdk.createRoom({ id, name });
+        openRoom(room.id);
+      } catch (error) {
+        console.error(error);
+        setRoomError(
+          error instanceof Error && error.message === 'ROOM_ALREADY_EXISTS'
+            ? 'Cette salle existe déjà.'
+            : 'Impossible de créer la salle (identifiant : minuscules, chiffres et tirets).',
+        );
+      } finally {
+        setRoomPending(false);
+      }
+    },
+    [openRoom, roomDraft.id, roomDraft.name, sdk],
+  );
+
   const refreshSessionsRegistry = useCallback(() => {
     setSessionsLoading(true);
     sdk
@@ -1551,9 +2253,10 @@ export function App() {
       .getAccessCodes()
       .then((codes) => {
         setAccessCodes(codes);
-        setCodeInputs(
+        setCodeInputs({});
+        setCodeExpiryInputs(
           codes.reduce<Record<number, string>>((acc, entry) => {
-            acc[entry.level] = entry.code;
+            acc[entry.level] = toDateTimeLocalValue(entry.expiresAt);
             return acc;
           }, {}),
         );
@@ -1585,12 +2288,18 @@ export function App() {
       .finally(() => {
         setLayoutLoading(false);
       });
-    const socket = io(baseUrl, createSocketOptions());
+    const socket = io(baseUrl, createSocketOptions(sdk));
     socket.on('state.update', (state: DomainSnapshot) => setSnapshot(state));
     socket.on('events.append', (event: { ts: number; message: string; source: string }) => {
       setEvents((prev) => [`[${new Date(event.ts).toLocaleTimeString()}] ${event.source}: ${event.message}`, ...prev].slice(0, 12));
     });
     socket.on('scenario.update', (status: ScenarioRunnerSnapshot) => setScenarioStatus(status));
+    socket.on('clock.update', (payload) => {
+      const parsed = clockStateSchema.safeParse(payload);
+      if (parsed.success) {
+        setClock({ state: parsed.data, receivedAt: Date.now() });
+      }
+    });
     socket.on('layout.update', (payload) => {
       const parsed = traineeLayoutSchema.safeParse(payload);
       if (!parsed.success) {
@@ -1669,6 +2378,48 @@ export function App() {
     };
   }, [sdk]);
 
+  useEffect(() => {
+    setReplayTimeline(null);
+    setReplayState(null);
+    setReplayError(null);
+    if (!replaySessionId) {
+      return;
+    }
+    const socket = io(`${baseUrl}${REPLAY_NAMESPACE}`, createSocketOptions(sdk));
+    replaySocketRef.current = socket;
+    socket.on('connect', () => {
+      socket.emit('replay.join', { sessionId: replaySessionId, mode: 'control' });
+    });
+    socket.on('replay.loaded', (timeline: ReplayTimeline) => setReplayTimeline(timeline));
+    socket.on('replay.state', (state: ReplayState) => setReplayState(state));
+    socket.on('replay.error', (payload: { error?: string }) => {
+      console.warn('Rejeu indisponible', payload);
+      setReplayError(
+        payload?.error === 'SESSION_NOT_FOUND'
+          ? 'Session introuvable.'
+          : 'Impossible de charger le rejeu de cette session.',
+      );
+    });
+    return () => {
+      replaySocketRef.current = null;
+      socket.disconnect();
+    };
+  }, [baseUrl, replaySessionId]);
+
+  const handleReplayToggle = () => {
+    replaySocketRef.current?.emit(replayState?.status === 'playing' ? 'replay.pause' : 'replay.play');
+  };
+
+  const handleReplaySpeedChange = (event: ChangeEvent<HTMLSelectElement>) => {
+    replaySocketRef.current?.emit('replay.speed', { speed: Number(event.target.value) as ReplaySpeed });
+  };
+
+  const handleReplaySeek = (positionMs: number) => {
+    replaySocketRef.current?.emit('replay.seek', { positionMs });
+  };
+
+  const replaySnapshot = (replayState?.snapshot ?? null) as DomainSnapshot | null;
+
   useEffect(() => {
     if (typeof IntersectionObserver === 'undefined') {
       return;
@@ -1754,13 +2505,13 @@ export function App() {
 
   const handleUserEditInit = useCallback((user: UserSummary) => {
     setEditingUserId(user.id);
-    setEditingUserDraft({ fullName: user.fullName, email: user.email ?? '', role: user.role });
+    setEditingUserDraft({ fullName: user.fullName, email: user.email ?? '', role: user.role, secret: '' });
     setUserActionError(null);
     setUserFormFeedback(null);
   }, []);
 
   const handleUserEditFieldChange = useCallback(
-    (field: 'fullName' | 'email' | 'role', value: string) => {
+    (field: 'fullName' | 'email' | 'role' | 'secret', value: string) => {
       setEditingUserDraft((prev) => {
         if (!prev) {
           return prev;
@@ -1790,6 +2541,10 @@ export function App() {
       setUserActionError('Le nom ne peut pas être vide.');
       return;
     }
+    if (editingUserDraft.secret && editingUserDraft.secret.length < 8) {
+      setUserActionError('Le mot de passe ou code PIN doit comporter au moins 8 caractères.');
+      return;
+    }
     setUserSavingId(editingUserId);
     setUserActionError(null);
     try {
@@ -1798,6 +2553,9 @@ export function App() {
         email: editingUserDraft.email.trim() ? editingUserDraft.email.trim() : null,
         role: editingUserDraft.role,
       });
+      if (editingUserDraft.secret) {
+        await sdk.setUserCredentials(editingUserId, editingUserDraft.secret);
+      }
       setUserFormFeedback('Utilisateur mis à jour.');
       setEditingUserId(null);
       setEditingUserDraft(null);
@@ -1918,7 +2676,7 @@ export function App() {
   );
 
   const handleSessionFormChange = useCallback(
-    (field: keyof typeof sessionForm, value: string) => {
+    (field: Exclude<keyof typeof sessionForm, 'traineeIds'>, value: string) => {
       setSessionForm((prev) => ({
         ...prev,
         [field]: value,
@@ -1927,6 +2685,11 @@ export function App() {
     [],
   );
 
+  const handleSessionTraineesChange = useCallback((event: React.ChangeEvent<HTMLSelectElement>) => {
+    const traineeIds = Array.from(event.target.selectedOptions, (option) => option.value);
+    setSessionForm((prev) => ({ ...prev, traineeIds }));
+  }, []);
+
   const handleSessionCreate = useCallback(
     async (event: React.FormEvent<HTMLFormElement>) => {
       event.preventDefault();
@@ -1941,13 +2704,13 @@ export function App() {
         await sdk.createSession({
           name: trimmedName,
           mode: sessionForm.mode.trim() || undefined,
-          traineeId: sessionForm.traineeId || undefined,
+          traineeIds: sessionForm.traineeIds.length > 0 ? sessionForm.traineeIds : undefined,
           trainerId: sessionForm.trainerId || undefined,
           objective: sessionForm.objective.trim() || undefined,
           notes: sessionForm.notes.trim() || undefined,
         });
         setSessionFeedback('Session démarrée.');
-        setSessionForm({ name: '', mode: 'libre', traineeId: '', trainerId: '', objective: '', notes: '' });
+        setSessionForm({ name: '', mode: 'libre', traineeIds: [], trainerId: '', objective: '', notes: '' });
         refreshActiveSession();
         refreshSessionsRegistry();
       } catch (error) {
@@ -1957,7 +2720,7 @@ export function App() {
         setCreatingSession(false);
       }
     },
-    [refreshActiveSession, refreshSessionsRegistry, sdk, sessionForm.mode, sessionForm.name, sessionForm.notes, sessionForm.objective, sessionForm.traineeId, sessionForm.trainerId],
+    [refreshActiveSession, refreshSessionsRegistry, sdk, sessionForm.mode, sessionForm.name, sessionForm.notes, sessionForm.objective, sessionForm.traineeIds, sessionForm.trainerId],
   );
 
   const handleAddImprovement = useCallback(() => {
@@ -2045,17 +2808,202 @@ export function App() {
     }
   }, [activeSession, closingNotes, improvementDrafts, refreshActiveSession, refreshSessionsRegistry, sdk]);
 
-  const handleAcknowledge = useCallback(async () => {
-    setAckPending(true);
-    try {
-      await sdk.acknowledgeProcess('trainer');
-    } catch (error) {
-      console.error(error);
-    } finally {
-      setAckPending(false);
+  const refreshSessionScores = useCallback(
+    (sessionId: string) => {
+      setSessionScoresLoading(true);
+      sdk
+        .listSessionScores(sessionId)
+        .then((scores) => {
+          setSessionScores(scores);
+          setGradingError(null);
+        })
+        .catch((error) => {
+          console.error(error);
+          setGradingError('Impossible de charger les évaluations de la session.');
+        })
+        .finally(() => setSessionScoresLoading(false));
+    },
+    [sdk],
+  );
+
+  useEffect(() => {
+    if (!gradingSessionId && activeSession) {
+      setGradingSessionId(activeSession.id);
+    }
+  }, [activeSession?.id, gradingSessionId]);
+
+  useEffect(() => {
+    setGradingFeedback(null);
+    if (!gradingSessionId) {
+      setSessionScores([]);
+      return;
+    }
+    refreshSessionScores(gradingSessionId);
+  }, [gradingSessionId, refreshSessionScores]);
+
+  useEffect(() => {
+    const ownScore = activeTrainer
+      ? sessionScores.find((score) => score.origin === 'MANUAL' && score.evaluator?.id === activeTrainer.id)
+      : null;
+    setGradingDraft(createGradingDraft(ownScore));
+  }, [activeTrainer?.id, sessionScores]);
+
+  const handleGradingItemChange = useCallback(
+    (id: string, patch: Partial<GradingDraft['items'][number]>) => {
+      setGradingDraft((prev) => ({
+        ...prev,
+        items: prev.items.map((item) => (item.id === id ? { ...item, ...patch } : item)),
+      }));
+    },
+    [],
+  );
+
+  const handleGradingAddItem = useCallback(() => {
+    setGradingDraft((prev) => ({
+      ...prev,
+      items: [
+        ...prev.items,
+        { id: `critere-${crypto.randomUUID().slice(0, 8)}`, description: '', weight: 1, score: 1, comment: '' },
+      ],
+    }));
+  }, []);
+
+  const handleGradingRemoveItem = useCallback((id: string) => {
+    setGradingDraft((prev) =>
+      prev.items.length <= 1 ? prev : { ...prev, items: prev.items.filter((item) => item.id !== id) },
+    );
+  }, []);
+
+  const handleGradingSubmit = useCallback(
+    async (event: FormEvent<HTMLFormElement>) => {
+      event.preventDefault();
+      if (!gradingSessionId || !activeTrainer) {
+        return;
+      }
+      const items = gradingDraft.items
+        .map((item) => ({
+          id: item.id,
+          description: item.description.trim(),
+          weight: item.weight,
+          score: item.score,
+          comment: item.comment.trim() || undefined,
+        }))
+        .filter((item) => item.description.length > 0);
+      if (items.length === 0) {
+        setGradingError('Renseignez au moins un critère.');
+        return;
+      }
+      if (items.some((item) => !Number.isFinite(item.weight) || item.weight <= 0)) {
+        setGradingError('Chaque critère doit avoir un poids positif.');
+        return;
+      }
+      const rubricName = gradingDraft.rubricName.trim() || undefined;
+      const comments = gradingDraft.comments.trim();
+      setGradingSaving(true);
+      setGradingError(null);
+      setGradingFeedback(null);
+      try {
+        if (gradingDraft.scoreId !== null) {
+          await sdk.updateSessionScore(gradingSessionId, gradingDraft.scoreId, {
+            rubricName,
+            items,
+            comments: comments || null,
+          });
+          setGradingFeedback('Évaluation mise à jour.');
+        } else {
+          await sdk.createSessionScore(gradingSessionId, {
+            evaluatorId: activeTrainer.id,
+            rubricName,
+            items,
+            comments: comments || undefined,
+          });
+          setGradingFeedback('Évaluation enregistrée.');
+        }
+        refreshSessionScores(gradingSessionId);
+      } catch (error) {
+        console.error(error);
+        setGradingError("Impossible d'enregistrer l'évaluation.");
+      } finally {
+        setGradingSaving(false);
+      }
+    },
+    [activeTrainer, gradingDraft, gradingSessionId, refreshSessionScores, sdk],
+  );
+
+  useEffect(() => {
+    if (!profileUserId) {
+      setTraineeProgress(null);
+      return;
+    }
+    let cancelled = false;
+    setTraineeProgressLoading(true);
+    sdk
+      .getUserProgress(profileUserId)
+      .then((progress) => {
+        if (!cancelled) {
+          setTraineeProgress(progress);
+          setTraineeProgressError(null);
+        }
+      })
+      .catch((error) => {
+        console.error(error);
+        if (!cancelled) {
+          setTraineeProgressError("Impossible de charger la progression de l'apprenant.");
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setTraineeProgressLoading(false);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [profileUserId, sdk, sessions]);
+
+  const traineeProgressChart = useMemo(() => {
+    const points = (traineeProgress?.sessions ?? []).filter(
+      (session): session is TraineeProgress['sessions'][number] & { value: number } => session.value !== null,
+    );
+    if (points.length === 0) {
+      return null;
+    }
+    const innerWidth = PROGRESS_CHART_WIDTH - PROGRESS_CHART_PADDING * 2;
+    const innerHeight = PROGRESS_CHART_HEIGHT - PROGRESS_CHART_PADDING * 2;
+    const step = points.length > 1 ? innerWidth / (points.length - 1) : 0;
+    return points.map((session, index) => ({
+      id: session.id,
+      label: `${session.name} — ${formatDateTime(session.startedAt)} : ${session.value.toFixed(1)} / 100`,
+      x: PROGRESS_CHART_PADDING + (points.length > 1 ? index * step : innerWidth / 2),
+      y: PROGRESS_CHART_PADDING + innerHeight * (1 - session.value / 100),
+    }));
+  }, [traineeProgress]);
+
+  const handleAcknowledge = useCallback(async () => {
+    setAckPending(true);
+    try {
+      await sdk.acknowledgeProcess('trainer');
+    } catch (error) {
+      console.error(error);
+    } finally {
+      setAckPending(false);
     }
   }, [sdk]);
 
+  const handleAcknowledgeZone = useCallback(
+    async (alarmZoneId: string) => {
+      setAckPending(true);
+      try {
+        await sdk.acknowledgeProcess('trainer', alarmZoneId);
+      } catch (error) {
+        console.error(error);
+      } finally {
+        setAckPending(false);
+      }
+    },
+    [sdk],
+  );
+
   const handleClearAck = useCallback(async () => {
     setClearPending(true);
     try {
@@ -2101,6 +3049,87 @@ export function App() {
     }
   }, [sdk]);
 
+  const handleTogglePower = useCallback(async () => {
+    setPowerPending(true);
+    try {
+      if (snapshot?.power && !snapshot.power.mainsAvailable) {
+        await sdk.restoreMainsPower();
+      } else {
+        await sdk.cutMainsPower();
+      }
+    } catch (error) {
+      console.error(error);
+    } finally {
+      setPowerPending(false);
+    }
+  }, [sdk, snapshot?.power]);
+
+  const handleRaiseFault = useCallback(
+    async (event: FormEvent<HTMLFormElement>) => {
+      event.preventDefault();
+      const target = faultTargetDraft.trim();
+      if (!target) {
+        return;
+      }
+      const isZone = /^Z[A-Z]*\d+$/i.test(target);
+      setFaultPending(true);
+      try {
+        await sdk.raiseFault(
+          isZone ? { kind: faultKindDraft, zoneId: target.toUpperCase() } : { kind: faultKindDraft, deviceId: target },
+        );
+      } catch (error) {
+        console.error(error);
+      } finally {
+        setFaultPending(false);
+      }
+    },
+    [faultKindDraft, faultTargetDraft, sdk],
+  );
+
+  const handleClearFault = useCallback(
+    async (faultId: string) => {
+      try {
+        await sdk.clearFault(faultId);
+      } catch (error) {
+        console.error(error);
+      }
+    },
+    [sdk],
+  );
+
+  const handleFailDas = useCallback(
+    async (deviceId: string, mode: DasFailureMode) => {
+      try {
+        await sdk.failDas(deviceId, mode);
+      } catch (error) {
+        console.error(error);
+      }
+    },
+    [sdk],
+  );
+
+  const handleRepairDas = useCallback(
+    async (deviceId: string) => {
+      try {
+        await sdk.repairDas(deviceId);
+      } catch (error) {
+        console.error(error);
+      }
+    },
+    [sdk],
+  );
+
+  const handleRearmDas = useCallback(
+    async (deviceId?: string) => {
+      try {
+        await sdk.rearmDas(deviceId);
+      } catch (error) {
+        console.error(error);
+      }
+    },
+    [sdk],
+  );
+
   const handleResetDm = useCallback(
     async (zoneId: string) => {
       setResettingZone(zoneId);
@@ -2220,6 +3249,10 @@ export function App() {
     setCodeInputs((prev) => ({ ...prev, [level]: value }));
   }, []);
 
+  const handleAccessCodeExpiryChange = useCallback((level: number, value: string) => {
+    setCodeExpiryInputs((prev) => ({ ...prev, [level]: value }));
+  }, []);
+
   const handleAccessCodeSubmit = useCallback(
     async (level: number) => {
       const value = (codeInputs[level] ?? '').trim();
@@ -2233,16 +3266,23 @@ export function App() {
         setAccessCodesFeedback(null);
         return;
       }
+      const expiry = codeExpiryInputs[level] ?? '';
+      const expiresAt = expiry ? new Date(expiry) : null;
+      if (expiresAt && expiresAt.getTime() <= Date.now()) {
+        setAccessCodesError("La date d'expiration doit être dans le futur.");
+        setAccessCodesFeedback(null);
+        return;
+      }
       setAccessCodesError(null);
       setAccessCodesFeedback(null);
       setUpdatingCodeLevel(level);
       try {
-        const updated = await sdk.updateAccessCode(level, value);
+        const updated = await sdk.updateAccessCode(level, value, expiresAt?.toISOString() ?? null);
         setAccessCodes((prev) => {
           const others = prev.filter((entry) => entry.level !== level);
           return [...others, updated].sort((a, b) => a.level - b.level);
         });
-        setCodeInputs((prev) => ({ ...prev, [level]: updated.code }));
+        setCodeInputs((prev) => ({ ...prev, [level]: '' }));
         setAccessCodesFeedback(`Code niveau ${level} mis à jour.`);
       } catch (error) {
         console.error(error);
@@ -2253,6 +3293,8 @@ export function App() {
           setAccessCodesError('Le code ne doit contenir que des chiffres.');
         } else if (message === 'INVALID_LEVEL') {
           setAccessCodesError('Niveau non pris en charge.');
+        } else if (message.includes('EXPIRY_IN_PAST')) {
+          setAccessCodesError("La date d'expiration doit être dans le futur.");
         } else {
           setAccessCodesError('Impossible de mettre à jour le code.');
         }
@@ -2261,7 +3303,7 @@ export function App() {
         setUpdatingCodeLevel(null);
       }
     },
-    [codeInputs, sdk],
+    [codeExpiryInputs, codeInputs, sdk],
   );
 
   const updateDraftEvent = (eventId: string, updater: (event: ScenarioEventDraft) => ScenarioEventDraft) => {
@@ -2364,6 +3406,51 @@ export function App() {
     updateDraftEvent(eventId, (event) => ({ ...event, ackedBy }) as ScenarioEventDraft);
   };
 
+  const handleScenarioEventFaultKindChange = (eventId: string, kind: FaultKind) => {
+    updateDraftEvent(eventId, (event) => ({ ...event, kind }) as ScenarioEventDraft);
+  };
+
+  const handleScenarioEventDeviceIdChange = (eventId: string, deviceId: string) => {
+    updateDraftEvent(eventId, (event) => ({ ...event, deviceId }) as ScenarioEventDraft);
+  };
+
+  const handleScenarioEventDasModeChange = (eventId: string, mode: DasFailureMode) => {
+    updateDraftEvent(eventId, (event) =>
+      event.type === 'DAS_FAIL' ? ({ ...event, mode } as ScenarioEventDraft) : event,
+    );
+  };
+
+  const handleScenarioEventWaitChange = (
+    eventId: string,
+    patch: Partial<Extract<ScenarioEvent, { type: 'WAIT_FOR' }>>,
+  ) => {
+    updateDraftEvent(eventId, (event) =>
+      event.type === 'WAIT_FOR' ? ({ ...event, ...patch } as ScenarioEventDraft) : event,
+    );
+  };
+
+  const handleScenarioEventConditionKindChange = (eventId: string, kind: string) => {
+    updateDraftEvent(
+      eventId,
+      (event) =>
+        ({
+          ...event,
+          condition: kind ? createDraftCondition(kind as ScenarioEventCondition['kind']) : undefined,
+        }) as ScenarioEventDraft,
+    );
+  };
+
+  const handleScenarioEventConditionChange = (
+    eventId: string,
+    patch: Partial<Record<string, unknown>>,
+  ) => {
+    updateDraftEvent(eventId, (event) =>
+      event.condition
+        ? ({ ...event, condition: { ...event.condition, ...patch } } as ScenarioEventDraft)
+        : event,
+    );
+  };
+
   const handleScenarioEventLabelChange = (eventId: string, label: string) => {
     updateDraftEvent(eventId, (event) => ({ ...event, label }) as ScenarioEventDraft);
   };
@@ -2516,6 +3603,48 @@ export function App() {
     });
   };
 
+  const handleScenarioRubricCustomize = () => {
+    setDraftScenario((prev) =>
+      prev.rubric ? prev : { ...prev, rubric: { rules: [createDraftRubricRule('REACTION_TIME')] } },
+    );
+  };
+
+  const handleScenarioRubricClear = () => {
+    setDraftScenario((prev) => ({ ...prev, rubric: undefined }));
+  };
+
+  const handleScenarioRubricNameChange = (name: string) => {
+    setDraftScenario((prev) => (prev.rubric ? { ...prev, rubric: { ...prev.rubric, name } } : prev));
+  };
+
+  const updateDraftRubricRules = (
+    updater: (rules: ScenarioRubricRule[]) => ScenarioRubricRule[],
+  ) => {
+    setDraftScenario((prev) =>
+      prev.rubric ? { ...prev, rubric: { ...prev.rubric, rules: updater(prev.rubric.rules) } } : prev,
+    );
+  };
+
+  const handleScenarioRubricAddRule = (kind: ScenarioRubricRule['kind']) => {
+    updateDraftRubricRules((rules) => [...rules, createDraftRubricRule(kind)]);
+  };
+
+  const handleScenarioRubricRemoveRule = (ruleId: string) => {
+    updateDraftRubricRules((rules) => rules.filter((rule) => rule.id !== ruleId));
+  };
+
+  const handleScenarioRubricRuleKindChange = (ruleId: string, kind: ScenarioRubricRule['kind']) => {
+    updateDraftRubricRules((rules) =>
+      rules.map((rule) => (rule.id === ruleId ? adaptRubricRuleForKind(rule, kind) : rule)),
+    );
+  };
+
+  const handleScenarioRubricRuleChange = (ruleId: string, patch: Partial<Record<string, unknown>>) => {
+    updateDraftRubricRules((rules) =>
+      rules.map((rule) => (rule.id === ruleId ? ({ ...rule, ...patch } as ScenarioRubricRule) : rule)),
+    );
+  };
+
   const handleScenarioManualResetModeChange = (mode: 'all' | 'custom') => {
     setDraftScenario((prev) => ({
       ...prev,
@@ -2763,6 +3892,7 @@ export function App() {
           ...(scenario.topology ? { topology: scenario.topology } : {}),
           ...(scenario.manualResettable ? { manualResettable: scenario.manualResettable } : {}),
           ...(scenario.evacuationAudio ? { evacuationAudio: scenario.evacuationAudio } : {}),
+          ...(scenario.rubric ? { rubric: scenario.rubric } : {}),
         },
       };
     const blob = new Blob([JSON.stringify(exportPayload, null, 2)], { type: 'application/json' });
@@ -2930,6 +4060,59 @@ export function App() {
     }
   };
 
+  const handleScenarioTogglePause = async () => {
+    try {
+      const status =
+        scenarioStatus.status === 'paused' ? await sdk.resumeScenario() : await sdk.pauseScenario();
+      setScenarioStatus(status);
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  const applyClockState = (state: ClockState) => {
+    setClock({ state, receivedAt: Date.now() });
+  };
+
+  const handleClockSpeedChange = async (speed: ClockSpeed) => {
+    try {
+      applyClockState(await sdk.updateClock({ speed }));
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  const handleClockModeToggle = async () => {
+    try {
+      applyClockState(
+        await sdk.updateClock({ mode: clock?.state.mode === 'step' ? 'realtime' : 'step' }),
+      );
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  const handleClockAdvance = async (ms: number) => {
+    try {
+      applyClockState(await sdk.advanceClock(ms));
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  const handleScenarioSeek = async () => {
+    if (scenarioSeekIndex === '') {
+      return;
+    }
+    try {
+      const status = await sdk.seekScenario(Number(scenarioSeekIndex));
+      setScenarioStatus(status);
+      setScenarioSeekIndex('');
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
   const remainingMs = (() => {
     const cmsi = snapshot?.cmsi;
     if (!cmsi) {
@@ -2943,14 +4126,38 @@ export function App() {
     if (deadline == null) {
       return undefined;
     }
-    return Math.max(0, deadline - now);
+    return Math.max(0, deadline - (snapshot?.timersPausedAt ?? simulatedNow));
   })();
+  const zoneEvacuations = Object.values(snapshot?.cmsi?.evacuations ?? {})
+    .sort((a, b) => a.alarmZoneId.localeCompare(b.alarmZoneId))
+    .map((evacuation) => ({
+      ...evacuation,
+      remainingMs:
+        evacuation.status === 'PENDING' && evacuation.deadline != null
+          ? Math.max(0, evacuation.deadline - (snapshot?.timersPausedAt ?? simulatedNow))
+          : evacuation.remainingMs,
+    }));
   const dmList = Object.values(snapshot?.dmLatched ?? {});
+  const faultList = Object.values(snapshot?.faults ?? {}).sort((a, b) => a.raisedAt - b.raisedAt);
+  const dasList = Object.values(snapshot?.dasDevices ?? {}).sort((a, b) =>
+    a.deviceId.localeCompare(b.deviceId),
+  );
+  const dasInFault = dasList.filter(
+    (das) => das.status === 'FEEDBACK_TIMEOUT' || das.status === 'FEEDBACK_FAULT',
+  );
+  const dasAwaitingRearm = dasList.filter((das) => das.status === 'SAFETY' || dasInFault.includes(das));
   const daiList = Object.values(snapshot?.daiActivated ?? {});
+  const pendingDetections = snapshot?.cmsi?.detections ?? {};
+  const describePendingDetection = (detection: { status: string; deadline?: number }) =>
+    detection.status === 'VERIFYING' && detection.deadline != null
+      ? `Levée de doute · ${formatDuration(
+          Math.max(0, detection.deadline - (snapshot?.timersPausedAt ?? simulatedNow)),
+        )}`
+      : 'Attente de coïncidence';
   const manualActive = Boolean(snapshot?.manualEvacuation);
   const scenarioTopology = useMemo(() => {
     const activeTopology = scenarioStatus.scenario?.topology ?? null;
-    if (scenarioStatus.status === 'running' && activeTopology) {
+    if ((scenarioStatus.status === 'running' || scenarioStatus.status === 'paused') && activeTopology) {
       return activeTopology;
     }
     if (draftScenario.topology) {
@@ -2997,6 +4204,15 @@ export function App() {
         kind: zone.kind,
       }));
   }, [scenarioTopology, topology]);
+  const dasDeviceOptions = useMemo(() => {
+    const sourceTopology = scenarioTopology ?? topology;
+    return (sourceTopology?.devices ?? [])
+      .filter((device) => device.kind === 'DAS')
+      .map((device) => ({
+        value: device.id,
+        label: `${resolveDeviceLabel(device)}${device.zoneId ? ` (${device.zoneId})` : ''}`,
+      }));
+  }, [scenarioTopology, topology]);
   const scenarioZoneLabelMap = useMemo(() => {
     const map = new Map<string, string>();
     for (const option of scenarioZoneOptions) {
@@ -3039,13 +4255,61 @@ export function App() {
   const scenarioStateLabel = translateScenarioStatus(
     scenarioStatus.status,
     scenarioStatus.awaitingSystemReset,
+    scenarioStatus.awaiting,
   );
   const nextScenarioEvent = describeScenarioEvent(scenarioStatus);
-  const scenarioIsRunning = scenarioStatus.status === 'running';
+  const waitingScenarioConditions = (scenarioStatus.scenario?.events ?? []).flatMap((event, index) =>
+    event.condition && scenarioStatus.conditionStates?.[event.id ?? index.toString(10)] === 'WAITING'
+      ? [`${describeScenarioAction(event)} · ${describeEventCondition(event.condition)}`]
+      : [],
+  );
+  const scenarioIsPaused = scenarioStatus.status === 'paused';
+  const scenarioIsRunning = scenarioStatus.status === 'running' || scenarioIsPaused;
   const scenarioIsReady = scenarioStatus.status === 'ready';
   const scenarioIsActive = scenarioIsRunning || scenarioIsReady;
+  const mainsLost = Boolean(snapshot?.power && !snapshot.power.mainsAvailable);
+  const batteryRemainingMs =
+    snapshot?.power?.autonomyDeadline != null
+      ? Math.max(0, snapshot.power.autonomyDeadline - (snapshot.timersPausedAt ?? simulatedNow))
+      : undefined;
+  const powerState = snapshot?.power?.batteryExhausted
+    ? { value: 'Batteries épuisées', tone: 'critical' as const, footer: 'SSI hors alimentation' }
+    : snapshot?.power?.batteryLow
+    ? {
+        value: 'Batterie basse',
+        tone: 'critical' as const,
+        footer: `Autonomie restante ${formatDuration(batteryRemainingMs)}`,
+      }
+    : mainsLost
+    ? {
+        value: 'Sur batteries',
+        tone: 'warning' as const,
+        footer: `Autonomie restante ${formatDuration(batteryRemainingMs)}`,
+      }
+    : { value: 'Secteur', tone: 'success' as const, footer: 'Batteries en charge' };
+  const evacuatingAlarmZoneIds = Object.values(snapshot?.alarmZones ?? {})
+    .filter((zone) => zone.evacuating)
+    .map((zone) => zone.zoneId);
+  const appliedSafetyZoneIds = Object.values(snapshot?.safetyZones ?? {})
+    .filter((zone) => zone.dasApplied)
+    .map((zone) => zone.zoneId);
+  const ugaHoldRemainingMs =
+    snapshot?.ugaActive && snapshot.ugaSilenceableAt != null
+      ? Math.max(0, snapshot.ugaSilenceableAt - (snapshot.timersPausedAt ?? simulatedNow))
+      : 0;
   const audibleState = snapshot?.ugaActive
-    ? { value: 'Diffusion', tone: 'critical' as const, footer: 'Alarme générale en cours' }
+    ? {
+        value: 'Diffusion',
+        tone: 'critical' as const,
+        footer: [
+          evacuatingAlarmZoneIds.length > 0
+            ? `Évacuation : ${evacuatingAlarmZoneIds.join(', ')}`
+            : 'Alarme générale en cours',
+          ugaHoldRemainingMs > 0 ? `arrêt possible dans ${formatDuration(ugaHoldRemainingMs)}` : '',
+        ]
+          .filter(Boolean)
+          .join(' · '),
+      }
     : snapshot?.localAudibleActive
     ? { value: 'Signal local', tone: 'warning' as const, footer: 'Préalarme sonore active au CMSI' }
     : { value: 'Repos', tone: 'neutral' as const, footer: 'Pré-alerte en veille' };
@@ -3150,6 +4414,18 @@ export function App() {
                     )}
                   </select>
                 </label>
+                {selectedTrainer?.hasCredential && (
+                  <label className="identity-form__field">
+                    <span>Mot de passe ou code PIN</span>
+                    <input
+                      className="identity-input"
+                      type="password"
+                      autoComplete="current-password"
+                      value={trainerSecret}
+                      onChange={(event) => setTrainerSecret(event.target.value)}
+                    />
+                  </label>
+                )}
                 <div className="identity-actions">
                   <button
                     type="submit"
@@ -3170,23 +4446,67 @@ export function App() {
                 </div>
               </form>
               {trainerAuthError && <p className="app-identity__error">{trainerAuthError}</p>}
-            </div>
-            <div className="app-shortcuts">
-              <span className="app-shortcuts__label">Raccourcis</span>
-              <div className="shortcut-line">
-                <span className="shortcut-line__keys">
-                  <kbd>Ctrl</kbd>
-                  <span>+</span>
-                  <kbd>M</kbd>
-                </span>
-                <span className="shortcut-line__description">Déclenchement</span>
-              </div>
-              <div className="shortcut-line">
-                <span className="shortcut-line__keys">
-                  <kbd>Ctrl</kbd>
-                  <span>+</span>
-                  <kbd>Shift</kbd>
-                  <span>+</span>
+              <div className="room-switcher">
+                <label className="identity-form__field">
+                  <span>Salle d'exercice</span>
+                  <select
+                    className="identity-select"
+                    value={activeRoomId}
+                    onChange={(event) => openRoom(event.target.value)}
+                  >
+                    {!rooms.some((room) => room.id === activeRoomId) && (
+                      <option value={activeRoomId}>{activeRoomId}</option>
+                    )}
+                    {rooms.map((room) => (
+                      <option key={room.id} value={room.id}>
+                        {room.name}
+                        {room.activeSessionId ? ' · session en cours' : ''}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <form className="identity-form" onSubmit={handleRoomCreate}>
+                  <input
+                    className="identity-select"
+                    placeholder="Identifiant (ex. banc-2)"
+                    value={roomDraft.id}
+                    onChange={(event) => setRoomDraft((prev) => ({ ...prev, id: event.target.value }))}
+                  />
+                  <input
+                    className="identity-select"
+                    placeholder="Nom de la salle"
+                    value={roomDraft.name}
+                    onChange={(event) => setRoomDraft((prev) => ({ ...prev, name: event.target.value }))}
+                  />
+                  <div className="identity-actions">
+                    <button
+                      type="submit"
+                      className="identity-button identity-button--secondary"
+                      disabled={roomPending}
+                    >
+                      {roomPending ? 'Création…' : 'Ouvrir une nouvelle salle'}
+                    </button>
+                  </div>
+                </form>
+                {roomError && <p className="app-identity__error">{roomError}</p>}
+              </div>
+            </div>
+            <div className="app-shortcuts">
+              <span className="app-shortcuts__label">Raccourcis</span>
+              <div className="shortcut-line">
+                <span className="shortcut-line__keys">
+                  <kbd>Ctrl</kbd>
+                  <span>+</span>
+                  <kbd>M</kbd>
+                </span>
+                <span className="shortcut-line__description">Déclenchement</span>
+              </div>
+              <div className="shortcut-line">
+                <span className="shortcut-line__keys">
+                  <kbd>Ctrl</kbd>
+                  <span>+</span>
+                  <kbd>Shift</kbd>
+                  <span>+</span>
                   <kbd>M</kbd>
                 </span>
                 <span className="shortcut-line__description">Arrêt diffusion</span>
@@ -3210,9 +4530,39 @@ export function App() {
           />
           <StatusTile
             title="DAS"
-            value={snapshot?.dasApplied ? 'Appliqués' : 'Sécurisés'}
-            tone={snapshot?.dasApplied ? 'warning' : 'success'}
-            footer={snapshot?.dasApplied ? 'Isolements réalisés' : 'Conditions nominales'}
+            value={
+              dasInFault.length > 0
+                ? 'Défaut de position'
+                : snapshot?.dasApplied
+                ? 'Appliqués'
+                : dasAwaitingRearm.length > 0
+                ? 'À réarmer'
+                : 'Sécurisés'
+            }
+            tone={
+              dasInFault.length > 0
+                ? 'critical'
+                : snapshot?.dasApplied || dasAwaitingRearm.length > 0
+                ? 'warning'
+                : 'success'
+            }
+            footer={
+              dasInFault.length > 0
+                ? `En défaut : ${dasInFault.map((das) => das.deviceId).join(', ')}`
+                : snapshot?.dasApplied
+                ? appliedSafetyZoneIds.length > 0
+                  ? `Isolements : ${appliedSafetyZoneIds.join(', ')}`
+                  : 'Isolements réalisés'
+                : dasAwaitingRearm.length > 0
+                ? `${dasAwaitingRearm.length} DAS en position de sécurité`
+                : 'Conditions nominales'
+            }
+          />
+          <StatusTile
+            title="Alimentation"
+            value={powerState.value}
+            tone={powerState.tone}
+            footer={powerState.footer}
           />
           <StatusTile
             title="Process Ack"
@@ -3260,6 +4610,29 @@ export function App() {
                   {snapshot?.cmsi?.status === 'SAFE_HOLD' && <TimelineBadge label="Maintien sécurisé" state="safehold" />}
                   {!snapshot && <p className="timeline-empty">Aucun scénario en cours.</p>}
                 </div>
+                {zoneEvacuations.length > 0 && (
+                  <ul className="zone-evacuations" aria-label="Évacuation par zone d'alarme">
+                    {zoneEvacuations.map((evacuation) => (
+                      <li key={evacuation.alarmZoneId} className="zone-evacuations__item">
+                        <TimelineBadge
+                          label={[evacuation.alarmZoneId, ...evacuation.detectionZoneIds].join(' · ')}
+                          state={ZONE_EVACUATION_BADGE_STATES[evacuation.status]}
+                          remainingMs={evacuation.status === 'ACTIVE' ? undefined : evacuation.remainingMs}
+                        />
+                        {evacuation.status === 'PENDING' && (
+                          <button
+                            type="button"
+                            className="btn btn--ghost"
+                            onClick={() => handleAcknowledgeZone(evacuation.alarmZoneId)}
+                            disabled={ackPending}
+                          >
+                            Acquitter la zone
+                          </button>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
                 <div className="timeline-meta">
                   <div>
                     <span className="timeline-meta__label">Délai T+5 configuré</span>
@@ -3322,6 +4695,11 @@ export function App() {
                         ) : (
                           <span className="dai-item__time">Horodatage indisponible</span>
                         )}
+                        {pendingDetections[dai.zoneId] && (
+                          <span className="dai-item__time">
+                            {describePendingDetection(pendingDetections[dai.zoneId])}
+                          </span>
+                        )}
                       </div>
                       <button
                         className="btn btn--outline"
@@ -3335,6 +4713,118 @@ export function App() {
                   ))}
                 </ul>
               </div>
+
+              <div className="card dai-card">
+                <div className="card__header">
+                  <h2 className="card__title">Dérangements</h2>
+                  <p className="card__description">
+                    Injectez des défauts de ligne ou d'asservissement et levez-les une fois traités par l'apprenant.
+                  </p>
+                </div>
+                <form className="form-grid" onSubmit={handleRaiseFault}>
+                  <label className="form-field">
+                    <span className="form-field__label">Défaut</span>
+                    <select
+                      value={faultKindDraft}
+                      onChange={(event) => setFaultKindDraft(event.target.value as FaultKind)}
+                    >
+                      {FAULT_KIND_OPTIONS.map(([value, label]) => (
+                        <option key={value} value={value}>
+                          {label}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="form-field">
+                    <span className="form-field__label">Zone ou dispositif</span>
+                    <input
+                      value={faultTargetDraft}
+                      onChange={(event) => setFaultTargetDraft(event.target.value)}
+                      placeholder="ZF1 ou identifiant dispositif"
+                    />
+                  </label>
+                  <button type="submit" className="btn btn--warning" disabled={faultPending} aria-busy={faultPending}>
+                    {faultPending ? 'Injection…' : 'Injecter'}
+                  </button>
+                </form>
+                <ul className="dai-list">
+                  {faultList.length === 0 && <li className="dai-list__empty">Aucun dérangement actif.</li>}
+                  {faultList.map((fault) => (
+                    <li key={fault.id} className="dai-item">
+                      <div className="dai-item__meta">
+                        <span className="dai-item__zone">
+                          {FAULT_KIND_LABELS[fault.kind]} · {fault.deviceId ?? fault.zoneId}
+                        </span>
+                        <span className="dai-item__time">
+                          {formatTime(fault.raisedAt)} · {fault.acknowledged ? 'Acquitté' : 'Non acquitté'}
+                        </span>
+                      </div>
+                      <button className="btn btn--outline" onClick={() => handleClearFault(fault.id)}>
+                        Lever
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+
+              <div className="card dai-card">
+                <div className="card__header">
+                  <h2 className="card__title">Dispositifs actionnés de sécurité</h2>
+                  <p className="card__description">
+                    Suivez la position de chaque DAS, provoquez une défaillance et réarmez-les après l'alarme.
+                  </p>
+                </div>
+                <ul className="dai-list">
+                  {dasList.length === 0 && <li className="dai-list__empty">Aucun DAS sur le site.</li>}
+                  {dasList.map((das) => {
+                    const failed = das.status === 'FEEDBACK_TIMEOUT' || das.status === 'FEEDBACK_FAULT';
+                    return (
+                      <li key={das.deviceId} className="dai-item">
+                        <div className="dai-item__meta">
+                          <span className="dai-item__zone">
+                            {das.deviceId}
+                            {das.zoneId ? ` · ${das.zoneId}` : ''}
+                          </span>
+                          <span className="dai-item__time">{DAS_STATUS_LABELS[das.status]}</span>
+                        </div>
+                        {failed ? (
+                          <button className="btn btn--outline" onClick={() => handleRepairDas(das.deviceId)}>
+                            Réparer
+                          </button>
+                        ) : (
+                          <select
+                            value=""
+                            aria-label={`Défaillance ${das.deviceId}`}
+                            onChange={(event) =>
+                              event.target.value &&
+                              handleFailDas(das.deviceId, event.target.value as DasFailureMode)
+                            }
+                          >
+                            <option value="">Défaillance…</option>
+                            {DAS_FAILURE_MODE_OPTIONS.map(([value, label]) => (
+                              <option key={value} value={value}>
+                                {label}
+                              </option>
+                            ))}
+                          </select>
+                        )}
+                        <button
+                          className="btn btn--outline"
+                          onClick={() => handleRearmDas(das.deviceId)}
+                          disabled={das.status !== 'SAFETY'}
+                        >
+                          Réarmer
+                        </button>
+                      </li>
+                    );
+                  })}
+                </ul>
+                {dasAwaitingRearm.length > 1 && (
+                  <button className="btn btn--secondary" onClick={() => handleRearmDas()}>
+                    Réarmer tous les DAS
+                  </button>
+                )}
+              </div>
             </div>
 
             <div className="app-column app-column--secondary">
@@ -3391,6 +4881,14 @@ export function App() {
                   >
                     {resetPending ? 'Reset en cours…' : 'Demander un reset'}
                   </button>
+                  <button
+                    className={mainsLost ? 'btn btn--success' : 'btn btn--warning'}
+                    onClick={handleTogglePower}
+                    disabled={powerPending}
+                    aria-busy={powerPending}
+                  >
+                    {powerPending ? 'Commutation…' : mainsLost ? 'Rétablir le secteur' : 'Couper le secteur'}
+                  </button>
                 </div>
               </div>
             </div>
@@ -3465,17 +4963,33 @@ export function App() {
                         <div className="access-code-form__header">
                           <span className="access-code-form__level">Niveau {level}</span>
                           <span className="access-code-form__timestamp">Dernière mise à jour : {lastUpdate}</span>
+                          <span className="access-code-form__timestamp">
+                            {current?.configured
+                              ? current.expiresAt
+                                ? `Expire le ${formatDateTime(current.expiresAt)}`
+                                : 'Sans expiration'
+                              : 'Non configuré'}
+                          </span>
                         </div>
                         <label className="access-code-field">
                           <span>Code</span>
                           <input
                             value={codeInputs[level] ?? ''}
                             onChange={(event) => handleAccessCodeInputChange(level, event.target.value)}
-                            placeholder="4 à 8 chiffres"
+                            placeholder={current?.configured ? 'Nouveau code (4 à 8 chiffres)' : '4 à 8 chiffres'}
                             className="text-input"
                             maxLength={8}
                           />
                         </label>
+                        <label className="access-code-field">
+                          <span>Expiration (facultative)</span>
+                          <input
+                            type="datetime-local"
+                            value={codeExpiryInputs[level] ?? ''}
+                            onChange={(event) => handleAccessCodeExpiryChange(level, event.target.value)}
+                            className="text-input"
+                          />
+                        </label>
                         <button
                           type="submit"
                           className="btn btn--primary"
@@ -3491,7 +5005,8 @@ export function App() {
               )}
               <p className="access-card__hint">
                 Le niveau 1 reste accessible sans code. Le niveau 3 est réservé aux équipes de maintenance et n'est pas utilisable
-                depuis le poste apprenant.
+                depuis le poste apprenant. Après plusieurs codes erronés, le poste apprenant est verrouillé quelques minutes ; les
+                saisies sont consignées dans le journal de la session.
               </p>
             </div>
           </div>
@@ -3809,6 +5324,9 @@ export function App() {
               <div className="scenario-status__next">
                 <span className="scenario-status__hint">Prochain événement</span>
                 <span>{nextScenarioEvent}</span>
+                {waitingScenarioConditions.map((label) => (
+                  <span key={label}>En attente — {label}</span>
+                ))}
               </div>
               <div className="scenario-status__actions">
                 <button
@@ -3819,6 +5337,14 @@ export function App() {
                 >
                   Terminer le scénario
                 </button>
+                <button
+                  type="button"
+                  className="btn btn--ghost"
+                  onClick={handleScenarioTogglePause}
+                  disabled={!scenarioIsRunning}
+                >
+                  {scenarioIsPaused ? 'Reprendre le scénario' : 'Mettre en pause'}
+                </button>
                 <button
                   type="button"
                   className="btn btn--ghost"
@@ -3828,6 +5354,71 @@ export function App() {
                   Arrêter / annuler le scénario
                 </button>
               </div>
+              {scenarioIsRunning && scenarioStatus.scenario && (
+                <div className="scenario-status__seek">
+                  <label className="form-field">
+                    <span className="form-field__label">Aller à l'événement</span>
+                    <select
+                      value={scenarioSeekIndex}
+                      onChange={(event) => setScenarioSeekIndex(event.target.value)}
+                    >
+                      <option value="">Sélectionner…</option>
+                      {scenarioStatus.scenario.events.map((event, index) => (
+                        <option key={event.id ?? index} value={index}>
+                          {`${index + 1}. T+${event.offset}s · ${describeScenarioAction(event)}`}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <button
+                    type="button"
+                    className="btn btn--ghost"
+                    onClick={handleScenarioSeek}
+                    disabled={scenarioSeekIndex === ''}
+                  >
+                    Positionner
+                  </button>
+                </div>
+              )}
+              <div className="scenario-status__clock">
+                <span className="scenario-status__hint">Horloge de simulation</span>
+                <div className="scenario-status__actions">
+                  {CLOCK_SPEED_OPTIONS.map((speed) => {
+                    const selected =
+                      clock?.state.mode !== 'step' && (clock?.state.speed ?? 1) === speed;
+                    return (
+                      <button
+                        key={speed}
+                        type="button"
+                        className={`btn ${selected ? 'btn--primary' : 'btn--ghost'}`}
+                        aria-pressed={selected}
+                        onClick={() => handleClockSpeedChange(speed)}
+                        disabled={clock?.state.mode === 'step'}
+                      >
+                        {`×${speed}`}
+                      </button>
+                    );
+                  })}
+                  <button
+                    type="button"
+                    className={`btn ${clock?.state.mode === 'step' ? 'btn--primary' : 'btn--ghost'}`}
+                    aria-pressed={clock?.state.mode === 'step'}
+                    onClick={handleClockModeToggle}
+                  >
+                    Pas à pas
+                  </button>
+                  {CLOCK_STEP_OPTIONS.map(([ms, label]) => (
+                    <button
+                      key={ms}
+                      type="button"
+                      className="btn btn--ghost"
+                      onClick={() => handleClockAdvance(ms)}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </div>
             </div>
             <div className="scenario-layout">
               <aside className="scenario-sidebar">
@@ -3988,15 +5579,22 @@ export function App() {
                         const zoneLabel = device.zoneId ? ` (${device.zoneId})` : '';
                         const label = `${formatDeviceKind(device.kind)} · ${resolveDeviceLabel(device)}${zoneLabel}`;
                         const active = isDeviceActive(device, snapshot);
+                        const dasStatus =
+                          device.kind === 'DAS' ? snapshot?.dasDevices?.[device.id]?.status : undefined;
+                        const markerLabel = dasStatus
+                          ? `${label} · ${DAS_STATUS_LABELS[dasStatus]}`
+                          : label;
+                        const dasFault =
+                          dasStatus === 'FEEDBACK_TIMEOUT' || dasStatus === 'FEEDBACK_FAULT';
                         return (
                           <span
                             key={device.id}
                             className={`scenario-plan__marker scenario-plan__marker--${device.kind.toLowerCase()}${
                               active ? ' is-active' : ''
-                            }`}
+                            }${dasFault ? ' is-fault' : ''}`}
                             style={{ left: `${position.x}%`, top: `${position.y}%` }}
-                            title={label}
-                            aria-label={label}
+                            title={markerLabel}
+                            aria-label={markerLabel}
                           >
                             {formatDeviceKind(device.kind)}
                           </span>
@@ -4249,6 +5847,250 @@ export function App() {
                   />
                 </div>
               </div>
+              <div className="scenario-form__row scenario-form__row--single">
+                <div className="scenario-form__field">
+                  <span>Grille de notation</span>
+                  {draftScenario.rubric ? (
+                    <div className="scenario-rubric">
+                      <div className="scenario-rubric__header">
+                        <input
+                          value={draftScenario.rubric.name ?? ''}
+                          onChange={(event) => handleScenarioRubricNameChange(event.target.value)}
+                          placeholder="Nom de la grille (par défaut : nom du scénario)"
+                        />
+                        <button type="button" className="btn btn--ghost" onClick={handleScenarioRubricClear}>
+                          Revenir à la grille standard
+                        </button>
+                      </div>
+                      {draftScenario.rubric.rules.map((rule, ruleIndex) => (
+                        <div key={rule.id} className="scenario-rubric__rule">
+                          <span className="scenario-rubric__index">#{ruleIndex + 1}</span>
+                          <label className="scenario-event-field">
+                            <span>Critère</span>
+                            <select
+                              value={rule.kind}
+                              onChange={(event) =>
+                                handleScenarioRubricRuleKindChange(
+                                  rule.id,
+                                  event.target.value as ScenarioRubricRule['kind'],
+                                )
+                              }
+                            >
+                              {RUBRIC_RULE_OPTIONS.map((option) => (
+                                <option key={option.value} value={option.value}>
+                                  {option.label}
+                                </option>
+                              ))}
+                            </select>
+                          </label>
+                          <label className="scenario-event-field scenario-rubric__description">
+                            <span>Intitulé</span>
+                            <input
+                              value={rule.description}
+                              onChange={(event) =>
+                                handleScenarioRubricRuleChange(rule.id, { description: event.target.value })
+                              }
+                              placeholder={describeRubricRule(rule)}
+                            />
+                          </label>
+                          <label className="scenario-event-field">
+                            <span>Poids</span>
+                            <input
+                              type="number"
+                              min={1}
+                              step={1}
+                              value={rule.weight}
+                              onChange={(event) =>
+                                handleScenarioRubricRuleChange(rule.id, { weight: Number(event.target.value) })
+                              }
+                            />
+                          </label>
+                          {rule.kind === 'REACTION_TIME' && (
+                            <>
+                              <label className="scenario-event-field">
+                                <span>Déclencheur</span>
+                                <select
+                                  value={rule.trigger}
+                                  onChange={(event) =>
+                                    handleScenarioRubricRuleChange(rule.id, { trigger: event.target.value })
+                                  }
+                                >
+                                  {SCORING_EVENT_OPTIONS.map((option) => (
+                                    <option key={option.value} value={option.value}>
+                                      {option.label}
+                                    </option>
+                                  ))}
+                                </select>
+                              </label>
+                              <label className="scenario-event-field">
+                                <span>Réponse attendue</span>
+                                <select
+                                  value={rule.response}
+                                  onChange={(event) =>
+                                    handleScenarioRubricRuleChange(rule.id, { response: event.target.value })
+                                  }
+                                >
+                                  {SCORING_EVENT_OPTIONS.map((option) => (
+                                    <option key={option.value} value={option.value}>
+                                      {option.label}
+                                    </option>
+                                  ))}
+                                </select>
+                              </label>
+                              <label className="scenario-event-field">
+                                <span>Note max. jusqu'à (s)</span>
+                                <input
+                                  type="number"
+                                  min={0}
+                                  value={rule.targetMs / 1000}
+                                  onChange={(event) =>
+                                    handleScenarioRubricRuleChange(rule.id, {
+                                      targetMs: Number(event.target.value) * 1000,
+                                    })
+                                  }
+                                />
+                              </label>
+                              <label className="scenario-event-field">
+                                <span>Note nulle après (s)</span>
+                                <input
+                                  type="number"
+                                  min={1}
+                                  value={rule.maxMs / 1000}
+                                  onChange={(event) =>
+                                    handleScenarioRubricRuleChange(rule.id, {
+                                      maxMs: Number(event.target.value) * 1000,
+                                    })
+                                  }
+                                />
+                              </label>
+                              <label className="scenario-event-field scenario-rubric__checkbox">
+                                <input
+                                  type="checkbox"
+                                  checked={Boolean(rule.sameZone)}
+                                  onChange={(event) =>
+                                    handleScenarioRubricRuleChange(rule.id, {
+                                      sameZone: event.target.checked || undefined,
+                                    })
+                                  }
+                                />
+                                <span>Même zone</span>
+                              </label>
+                            </>
+                          )}
+                          {rule.kind === 'ORDER' && (
+                            <>
+                              <label className="scenario-event-field">
+                                <span>D'abord</span>
+                                <select
+                                  value={rule.first}
+                                  onChange={(event) =>
+                                    handleScenarioRubricRuleChange(rule.id, { first: event.target.value })
+                                  }
+                                >
+                                  {SCORING_EVENT_OPTIONS.map((option) => (
+                                    <option key={option.value} value={option.value}>
+                                      {option.label}
+                                    </option>
+                                  ))}
+                                </select>
+                              </label>
+                              <label className="scenario-event-field">
+                                <span>Puis</span>
+                                <select
+                                  value={rule.then}
+                                  onChange={(event) =>
+                                    handleScenarioRubricRuleChange(rule.id, { then: event.target.value })
+                                  }
+                                >
+                                  {SCORING_EVENT_OPTIONS.map((option) => (
+                                    <option key={option.value} value={option.value}>
+                                      {option.label}
+                                    </option>
+                                  ))}
+                                </select>
+                              </label>
+                            </>
+                          )}
+                          {rule.kind === 'PENALTY' && (
+                            <>
+                              <label className="scenario-event-field">
+                                <span>Action</span>
+                                <select
+                                  value={rule.event}
+                                  onChange={(event) =>
+                                    handleScenarioRubricRuleChange(rule.id, { event: event.target.value })
+                                  }
+                                >
+                                  {SCORING_EVENT_OPTIONS.map((option) => (
+                                    <option key={option.value} value={option.value}>
+                                      {option.label}
+                                    </option>
+                                  ))}
+                                </select>
+                              </label>
+                              <label className="scenario-event-field">
+                                <span>Retrait par occurrence (%)</span>
+                                <input
+                                  type="number"
+                                  min={5}
+                                  max={100}
+                                  step={5}
+                                  value={Math.round(rule.penalty * 100)}
+                                  onChange={(event) =>
+                                    handleScenarioRubricRuleChange(rule.id, {
+                                      penalty: Number(event.target.value) / 100,
+                                    })
+                                  }
+                                />
+                              </label>
+                            </>
+                          )}
+                          <label className="scenario-event-field scenario-rubric__feedback">
+                            <span>Retour au stagiaire</span>
+                            <input
+                              value={rule.feedback ?? ''}
+                              onChange={(event) =>
+                                handleScenarioRubricRuleChange(rule.id, { feedback: event.target.value })
+                              }
+                              placeholder="Affiché dans le rapport si le critère n'est pas atteint"
+                            />
+                          </label>
+                          <button
+                            type="button"
+                            className="btn btn--ghost"
+                            onClick={() => handleScenarioRubricRemoveRule(rule.id)}
+                            disabled={draftScenario.rubric!.rules.length <= 1}
+                          >
+                            Retirer
+                          </button>
+                        </div>
+                      ))}
+                      <div className="scenario-rubric__actions">
+                        {RUBRIC_RULE_OPTIONS.map((option) => (
+                          <button
+                            key={option.value}
+                            type="button"
+                            className="btn btn--outline"
+                            onClick={() => handleScenarioRubricAddRule(option.value)}
+                          >
+                            + {option.label}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="scenario-rubric scenario-rubric--default">
+                      <p className="scenario-rubric__hint">
+                        La grille standard (acquit, arrêt du signal sonore, réarmements) est appliquée à la
+                        clôture des sessions ayant joué ce scénario.
+                      </p>
+                      <button type="button" className="btn btn--outline" onClick={handleScenarioRubricCustomize}>
+                        Personnaliser la grille
+                      </button>
+                    </div>
+                  )}
+                </div>
+              </div>
               {scenarioZoneOptions.length > 0 && (
                 <datalist id={SCENARIO_ZONE_DATALIST_ID}>
                   {scenarioZoneOptions.map((option) => (
@@ -4256,6 +6098,13 @@ export function App() {
                   ))}
                   </datalist>
                 )}
+                {dasDeviceOptions.length > 0 && (
+                  <datalist id={SCENARIO_DAS_DATALIST_ID}>
+                    {dasDeviceOptions.map((option) => (
+                      <option key={option.value} value={option.value} label={option.label} />
+                    ))}
+                  </datalist>
+                )}
                 <div
                   className={`scenario-events ${scenarioEventsCollapsed ? 'scenario-events--collapsed' : ''}`}
                 >
@@ -4325,9 +6174,14 @@ export function App() {
                       eventDraft.type === 'DM_TRIGGER' ||
                       eventDraft.type === 'DM_RESET' ||
                       eventDraft.type === 'DAI_TRIGGER' ||
-                      eventDraft.type === 'DAI_RESET';
+                      eventDraft.type === 'DAI_RESET' ||
+                      eventDraft.type === 'DETECTION_CONFIRM' ||
+                      eventDraft.type === 'DETECTION_CANCEL';
                     const reasonEvent = eventDraft.type === 'MANUAL_EVAC_START' || eventDraft.type === 'MANUAL_EVAC_STOP';
                     const ackEvent = eventDraft.type === 'PROCESS_ACK';
+                    const faultEvent = eventDraft.type === 'FAULT_RAISE' || eventDraft.type === 'FAULT_CLEAR';
+                    const dasEvent = eventDraft.type === 'DAS_FAIL' || eventDraft.type === 'DAS_REPAIR';
+                    const waitDraft = eventDraft.type === 'WAIT_FOR' ? eventDraft : undefined;
                     const zoneEventDraft = isZoneScenarioEvent(eventDraft);
                     const sequenceEntries = zoneEventDraft
                       ? sanitizeSequenceEntries(eventDraft.sequence)
@@ -4392,6 +6246,51 @@ export function App() {
                         summaryItems.push({ id: 'acked-by', label: 'Opérateur', value: ackedBy });
                       }
                     }
+                    if (faultEvent) {
+                      const faultDraft = eventDraft as { kind: FaultKind; zoneId?: string; deviceId?: string };
+                      summaryItems.push({ id: 'fault-kind', label: 'Défaut', value: FAULT_KIND_LABELS[faultDraft.kind] });
+                      summaryItems.push({
+                        id: 'fault-target',
+                        label: 'Cible',
+                        value: faultDraft.deviceId?.trim() || faultDraft.zoneId?.trim() || 'Non définie',
+                      });
+                    }
+                    if (dasEvent) {
+                      const dasDraft = eventDraft as { deviceId: string; mode?: DasFailureMode };
+                      if (dasDraft.mode) {
+                        summaryItems.push({
+                          id: 'das-mode',
+                          label: 'Défaillance',
+                          value: DAS_FAILURE_MODE_LABELS[dasDraft.mode],
+                        });
+                      }
+                      summaryItems.push({
+                        id: 'das-device',
+                        label: 'DAS',
+                        value: dasDraft.deviceId.trim() || 'Non défini',
+                      });
+                    }
+                    if (waitDraft) {
+                      summaryItems.push({
+                        id: 'awaited',
+                        label: 'Attendu',
+                        value: describeAwaitedEvent(waitDraft.event, waitDraft.zoneId).replace(/^Attente : /, ''),
+                      });
+                      if (waitDraft.timeout) {
+                        summaryItems.push({
+                          id: 'timeout',
+                          label: 'Délai',
+                          value: formatScenarioOffset(waitDraft.timeout),
+                        });
+                      }
+                    }
+                    if (eventDraft.condition) {
+                      summaryItems.push({
+                        id: 'condition',
+                        label: 'Condition',
+                        value: describeEventCondition(eventDraft.condition),
+                      });
+                    }
                     const eventNote = eventDraft.label?.trim();
                     if (eventNote) {
                       summaryItems.push({ id: 'label', label: 'Note', value: eventNote });
@@ -4684,6 +6583,147 @@ export function App() {
                               />
                             </label>
                           )}
+                          {faultEvent && (
+                            <>
+                              <label className="scenario-event-field scenario-event-field--fault-kind">
+                                <span>Défaut</span>
+                                <select
+                                  value={(eventDraft as { kind: FaultKind }).kind}
+                                  onChange={(input) =>
+                                    handleScenarioEventFaultKindChange(eventDraft.id, input.target.value as FaultKind)
+                                  }
+                                >
+                                  {FAULT_KIND_OPTIONS.map(([value, label]) => (
+                                    <option key={value} value={value}>
+                                      {label}
+                                    </option>
+                                  ))}
+                                </select>
+                              </label>
+                              <label className="scenario-event-field scenario-event-field--zone">
+                                <span>Zone</span>
+                                <input
+                                  value={zoneId}
+                                  list={scenarioZoneOptions.length > 0 ? SCENARIO_ZONE_DATALIST_ID : undefined}
+                                  onChange={(input) => handleScenarioEventZoneChange(eventDraft.id, input.target.value)}
+                                  placeholder="ZF1"
+                                />
+                              </label>
+                              <label className="scenario-event-field scenario-event-field--device">
+                                <span>Dispositif (optionnel)</span>
+                                <input
+                                  value={(eventDraft as { deviceId?: string }).deviceId ?? ''}
+                                  onChange={(input) =>
+                                    handleScenarioEventDeviceIdChange(eventDraft.id, input.target.value)
+                                  }
+                                  placeholder="Identifiant du dispositif"
+                                />
+                              </label>
+                            </>
+                          )}
+                          {dasEvent && (
+                            <>
+                              {eventDraft.type === 'DAS_FAIL' && (
+                                <label className="scenario-event-field scenario-event-field--fault-kind">
+                                  <span>Défaillance</span>
+                                  <select
+                                    value={eventDraft.mode}
+                                    onChange={(input) =>
+                                      handleScenarioEventDasModeChange(
+                                        eventDraft.id,
+                                        input.target.value as DasFailureMode,
+                                      )
+                                    }
+                                  >
+                                    {DAS_FAILURE_MODE_OPTIONS.map(([value, label]) => (
+                                      <option key={value} value={value}>
+                                        {label}
+                                      </option>
+                                    ))}
+                                  </select>
+                                </label>
+                              )}
+                              <label className="scenario-event-field scenario-event-field--device">
+                                <span>DAS</span>
+                                <input
+                                  value={(eventDraft as { deviceId: string }).deviceId}
+                                  list={dasDeviceOptions.length > 0 ? SCENARIO_DAS_DATALIST_ID : undefined}
+                                  onChange={(input) =>
+                                    handleScenarioEventDeviceIdChange(eventDraft.id, input.target.value)
+                                  }
+                                  placeholder="Identifiant du DAS"
+                                />
+                              </label>
+                            </>
+                          )}
+                          {waitDraft && (
+                            <>
+                              <label className="scenario-event-field scenario-event-field--condition-event">
+                                <span>Action attendue</span>
+                                <select
+                                  value={waitDraft.event}
+                                  onChange={(input) =>
+                                    handleScenarioEventWaitChange(eventDraft.id, { event: input.target.value })
+                                  }
+                                >
+                                  {SCENARIO_CONDITION_EVENT_OPTIONS.map((option) => (
+                                    <option key={option.value} value={option.value}>
+                                      {option.label}
+                                    </option>
+                                  ))}
+                                </select>
+                              </label>
+                              <label className="scenario-event-field scenario-event-field--zone">
+                                <span>Zone (optionnel)</span>
+                                <input
+                                  value={waitDraft.zoneId ?? ''}
+                                  list={scenarioZoneOptions.length > 0 ? SCENARIO_ZONE_DATALIST_ID : undefined}
+                                  onChange={(input) =>
+                                    handleScenarioEventWaitChange(eventDraft.id, {
+                                      zoneId: input.target.value.toUpperCase() || undefined,
+                                    })
+                                  }
+                                  placeholder="Toutes zones"
+                                />
+                              </label>
+                              <label className="scenario-event-field scenario-event-field--timeout">
+                                <span>Délai max (s)</span>
+                                <input
+                                  type="number"
+                                  min={0}
+                                  value={waitDraft.timeout ?? ''}
+                                  onChange={(input) =>
+                                    handleScenarioEventWaitChange(eventDraft.id, {
+                                      timeout: input.target.value ? Number(input.target.value) : undefined,
+                                    })
+                                  }
+                                  placeholder="Sans limite"
+                                />
+                              </label>
+                              {waitDraft.timeout ? (
+                                <label className="scenario-event-field scenario-event-field--timeout-target">
+                                  <span>À expiration</span>
+                                  <select
+                                    value={waitDraft.timeoutEventId ?? ''}
+                                    onChange={(input) =>
+                                      handleScenarioEventWaitChange(eventDraft.id, {
+                                        timeoutEventId: input.target.value || undefined,
+                                      })
+                                    }
+                                  >
+                                    <option value="">Poursuivre la chronologie</option>
+                                    {sortedDraftEvents.map((candidate, candidateIndex) =>
+                                      candidate.id === eventDraft.id ? null : (
+                                        <option key={candidate.id} value={candidate.id}>
+                                          {`#${candidateIndex + 1} · ${describeScenarioAction(candidate)}`}
+                                        </option>
+                                      ),
+                                    )}
+                                  </select>
+                                </label>
+                              ) : null}
+                            </>
+                          )}
                           {ackEvent && (
                             <label className="scenario-event-field scenario-event-field--acked">
                               <span>Opérateur</span>
@@ -4694,6 +6734,104 @@ export function App() {
                               />
                             </label>
                           )}
+                          <label className="scenario-event-field scenario-event-field--condition">
+                            <span>Condition</span>
+                            <select
+                              value={eventDraft.condition?.kind ?? ''}
+                              onChange={(input) =>
+                                handleScenarioEventConditionKindChange(eventDraft.id, input.target.value)
+                              }
+                            >
+                              <option value="">Toujours</option>
+                              {SCENARIO_CONDITION_OPTIONS.map((option) => (
+                                <option key={option.value} value={option.value}>
+                                  {option.label}
+                                </option>
+                              ))}
+                            </select>
+                          </label>
+                          {eventDraft.condition && eventDraft.condition.kind !== 'IF_STATE' && (
+                            <>
+                              <label className="scenario-event-field scenario-event-field--condition-event">
+                                <span>Événement attendu</span>
+                                <select
+                                  value={eventDraft.condition.event}
+                                  onChange={(input) =>
+                                    handleScenarioEventConditionChange(eventDraft.id, {
+                                      event: input.target.value,
+                                    })
+                                  }
+                                >
+                                  {SCENARIO_CONDITION_EVENT_OPTIONS.map((option) => (
+                                    <option key={option.value} value={option.value}>
+                                      {option.label}
+                                    </option>
+                                  ))}
+                                </select>
+                              </label>
+                              <label className="scenario-event-field scenario-event-field--zone">
+                                <span>Zone (optionnel)</span>
+                                <input
+                                  value={eventDraft.condition.zoneId ?? ''}
+                                  list={scenarioZoneOptions.length > 0 ? SCENARIO_ZONE_DATALIST_ID : undefined}
+                                  onChange={(input) =>
+                                    handleScenarioEventConditionChange(eventDraft.id, {
+                                      zoneId: input.target.value.toUpperCase() || undefined,
+                                    })
+                                  }
+                                  placeholder="Toutes zones"
+                                />
+                              </label>
+                            </>
+                          )}
+                          {eventDraft.condition?.kind === 'IF_STATE' && (
+                            <>
+                              <label className="scenario-event-field scenario-event-field--condition-state">
+                                <span>État CMSI</span>
+                                <select
+                                  value={eventDraft.condition.cmsiStatus ?? ''}
+                                  onChange={(input) =>
+                                    handleScenarioEventConditionChange(eventDraft.id, {
+                                      cmsiStatus: input.target.value || undefined,
+                                    })
+                                  }
+                                >
+                                  <option value="">Indifférent</option>
+                                  {Object.entries(CMSI_STATUS_LABELS).map(([value, label]) => (
+                                    <option key={value} value={value}>
+                                      {label}
+                                    </option>
+                                  ))}
+                                </select>
+                              </label>
+                              {SCENARIO_STATE_FLAG_FIELDS.map((field) => {
+                                const value = (eventDraft.condition as Record<string, unknown>)[field.key];
+                                return (
+                                  <label
+                                    key={field.key}
+                                    className="scenario-event-field scenario-event-field--condition-state"
+                                  >
+                                    <span>{field.label}</span>
+                                    <select
+                                      value={value === undefined ? '' : String(value)}
+                                      onChange={(input) =>
+                                        handleScenarioEventConditionChange(eventDraft.id, {
+                                          [field.key]:
+                                            input.target.value === ''
+                                              ? undefined
+                                              : input.target.value === 'true',
+                                        })
+                                      }
+                                    >
+                                      <option value="">Indifférent</option>
+                                      <option value="true">{field.on}</option>
+                                      <option value="false">{field.off}</option>
+                                    </select>
+                                  </label>
+                                );
+                              })}
+                            </>
+                          )}
                           <label className="scenario-event-field scenario-event-field--label">
                             <span>Libellé</span>
                             <input
@@ -4862,6 +7000,20 @@ export function App() {
                                   <option value="TRAINER">Formateur</option>
                                 </select>
                               </label>
+                              <label className="user-edit__field">
+                                <span>
+                                  {user.hasCredential ? 'Nouveau mot de passe ou code PIN' : 'Mot de passe ou code PIN'}
+                                </span>
+                                <input
+                                  type="password"
+                                  autoComplete="new-password"
+                                  value={editingUserDraft.secret}
+                                  onChange={(event) =>
+                                    handleUserEditFieldChange('secret', event.target.value)
+                                  }
+                                  className="text-input"
+                                />
+                              </label>
                               <div className="user-edit__actions">
                                 <button
                                   type="button"
@@ -4885,8 +7037,18 @@ export function App() {
                                 <span className={`user-role-badge user-role-badge--${user.role.toLowerCase()}`}>
                                   {user.role === 'TRAINER' ? 'Formateur' : 'Apprenant'}
                                 </span>
+                                {user.hasCredential && <span className="user-item__email">Code de connexion défini</span>}
                               </div>
                               <div className="user-item__actions">
+                                {user.role === 'TRAINEE' && (
+                                  <button
+                                    type="button"
+                                    className="btn btn--ghost"
+                                    onClick={() => setProfileUserId(user.id)}
+                                  >
+                                    Profil
+                                  </button>
+                                )}
                                 <button type="button" className="btn btn--ghost" onClick={() => handleUserEditInit(user)}>
                                   Modifier
                                 </button>
@@ -4933,8 +7095,8 @@ export function App() {
                       </div>
                       <dl className="session-summary__meta">
                         <div>
-                          <dt>Apprenant</dt>
-                          <dd>{activeSession.trainee?.fullName ?? 'Non assigné'}</dd>
+                          <dt>Apprenants</dt>
+                          <dd>{formatSessionTrainees(activeSession) ?? 'Non assigné'}</dd>
                         </div>
                         <div>
                           <dt>Formateur</dt>
@@ -5003,12 +7165,13 @@ export function App() {
                           />
                         </label>
                         <label className="session-form__field">
-                          <span>Apprenant</span>
+                          <span>Apprenants (le premier de la liste est référent)</span>
                           <select
-                            value={sessionForm.traineeId}
-                            onChange={(event) => handleSessionFormChange('traineeId', event.target.value)}
+                            multiple
+                            size={Math.min(Math.max(traineeOptions.length, 2), 5)}
+                            value={sessionForm.traineeIds}
+                            onChange={handleSessionTraineesChange}
                           >
-                            <option value="">Sélectionner…</option>
                             {traineeOptions.map((user) => (
                               <option key={user.id} value={user.id}>
                                 {user.fullName}
@@ -5132,6 +7295,299 @@ export function App() {
               )}
             </div>
 
+            <div className="card grading-card">
+              <div className="card__header">
+                <h2 className="card__title">Évaluation formateur</h2>
+                <p className="card__description">
+                  Notez les critères observés pendant ou après la session. Chaque formateur dispose de sa propre
+                  évaluation, reprise dans le rapport PDF.
+                </p>
+              </div>
+              {gradingError && <p className="card__alert">{gradingError}</p>}
+              {gradingFeedback && <p className="card__feedback">{gradingFeedback}</p>}
+              <label className="session-form__field">
+                <span>Session évaluée</span>
+                <select value={gradingSessionId} onChange={(event) => setGradingSessionId(event.target.value)}>
+                  <option value="">Sélectionner…</option>
+                  {recentSessions.map((sessionItem) => (
+                    <option key={sessionItem.id} value={sessionItem.id}>
+                      {sessionItem.name} — {formatSessionTrainees(sessionItem) ?? 'Apprenant non défini'}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              {gradingSessionId && (
+                <>
+                  {sessionScoresLoading ? (
+                    <p className="card__placeholder">Chargement des évaluations…</p>
+                  ) : sessionScores.length === 0 ? (
+                    <p className="card__placeholder">Aucune évaluation enregistrée pour cette session.</p>
+                  ) : (
+                    <ul className="grading-scores">
+                      {sessionScores.map((score) => (
+                        <li key={score.id} className="grading-scores__item">
+                          <span className="grading-scores__evaluator">
+                            {score.evaluator?.fullName ??
+                              (score.origin === 'AUTO' ? 'Notation automatique' : 'Évaluateur inconnu')}
+                          </span>
+                          <span className="grading-scores__value">{score.value.toFixed(1)} / 100</span>
+                          {score.rubricName && <span className="grading-scores__rubric">{score.rubricName}</span>}
+                          {score.actors.length > 0 && (
+                            <ul className="grading-scores__actors">
+                              {score.actors.map((actor) => (
+                                <li key={actor.actorId}>
+                                  <strong>{actor.fullName ?? 'Participant inconnu'}</strong> — {actor.actionCount}{' '}
+                                  action(s), {actor.responseCount} réponse(s) retenue(s), {actor.violationCount}{' '}
+                                  faute(s)
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  {activeTrainer ? (
+                    <form className="grading-form" onSubmit={handleGradingSubmit}>
+                      <h3>
+                        {gradingDraft.scoreId !== null ? 'Modifier mon évaluation' : 'Nouvelle évaluation'} —{' '}
+                        {activeTrainer.fullName}
+                      </h3>
+                      <label className="session-form__field">
+                        <span>Nom de la grille</span>
+                        <input
+                          value={gradingDraft.rubricName}
+                          onChange={(event) =>
+                            setGradingDraft((prev) => ({ ...prev, rubricName: event.target.value }))
+                          }
+                          className="text-input"
+                        />
+                      </label>
+                      <ul className="grading-items">
+                        {gradingDraft.items.map((item) => (
+                          <li key={item.id} className="grading-item">
+                            <input
+                              value={item.description}
+                              onChange={(event) =>
+                                handleGradingItemChange(item.id, { description: event.target.value })
+                              }
+                              placeholder="Critère observé"
+                              className="text-input grading-item__description"
+                            />
+                            <label className="grading-item__field">
+                              <span>Poids</span>
+                              <input
+                                type="number"
+                                min={1}
+                                step={1}
+                                value={item.weight}
+                                onChange={(event) =>
+                                  handleGradingItemChange(item.id, { weight: Number(event.target.value) })
+                                }
+                                className="text-input"
+                              />
+                            </label>
+                            <label className="grading-item__field">
+                              <span>Niveau</span>
+                              <select
+                                value={item.score}
+                                onChange={(event) =>
+                                  handleGradingItemChange(item.id, { score: Number(event.target.value) })
+                                }
+                              >
+                                {GRADING_LEVEL_OPTIONS.map((level) => (
+                                  <option key={level.value} value={level.value}>
+                                    {level.label}
+                                  </option>
+                                ))}
+                              </select>
+                            </label>
+                            <input
+                              value={item.comment}
+                              onChange={(event) => handleGradingItemChange(item.id, { comment: event.target.value })}
+                              placeholder="Commentaire (optionnel)"
+                              className="text-input grading-item__comment"
+                            />
+                            <button
+                              type="button"
+                              className="btn btn--ghost"
+                              onClick={() => handleGradingRemoveItem(item.id)}
+                              disabled={gradingDraft.items.length <= 1}
+                            >
+                              Retirer
+                            </button>
+                          </li>
+                        ))}
+                      </ul>
+                      <button type="button" className="btn btn--ghost" onClick={handleGradingAddItem}>
+                        Ajouter un critère
+                      </button>
+                      <label className="session-form__field">
+                        <span>Commentaire général</span>
+                        <textarea
+                          value={gradingDraft.comments}
+                          onChange={(event) => setGradingDraft((prev) => ({ ...prev, comments: event.target.value }))}
+                          className="text-area"
+                          rows={3}
+                          placeholder="Points forts, points à retravailler…"
+                        />
+                      </label>
+                      <button type="submit" className="btn btn--primary" disabled={gradingSaving} aria-busy={gradingSaving}>
+                        {gradingSaving
+                          ? 'Enregistrement…'
+                          : gradingDraft.scoreId !== null
+                          ? "Mettre à jour l'évaluation"
+                          : "Enregistrer l'évaluation"}
+                      </button>
+                    </form>
+                  ) : (
+                    <p className="card__placeholder">
+                      Identifiez-vous comme formateur pour saisir votre évaluation.
+                    </p>
+                  )}
+                </>
+              )}
+            </div>
+
+            <div className="card trainee-profile-card">
+              <div className="card__header">
+                <h2 className="card__title">Profil apprenant</h2>
+                <p className="card__description">
+                  Suivez la progression d'un apprenant sur l'ensemble de ses sessions de formation.
+                </p>
+              </div>
+              {traineeProgressError && <p className="card__alert">{traineeProgressError}</p>}
+              <label className="session-form__field">
+                <span>Apprenant</span>
+                <select value={profileUserId} onChange={(event) => setProfileUserId(event.target.value)}>
+                  <option value="">Sélectionner…</option>
+                  {traineeOptions.map((user) => (
+                    <option key={user.id} value={user.id}>
+                      {user.fullName}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              {profileUserId &&
+                (traineeProgressLoading && !traineeProgress ? (
+                  <p className="card__placeholder">Chargement de la progression…</p>
+                ) : traineeProgress ? (
+                  <div className="trainee-profile">
+                    <dl className="trainee-profile__stats">
+                      <div>
+                        <dt>Sessions</dt>
+                        <dd>{traineeProgress.sessions.length}</dd>
+                      </div>
+                      <div>
+                        <dt>Note moyenne</dt>
+                        <dd>
+                          {traineeProgress.averageScore !== null
+                            ? `${traineeProgress.averageScore.toFixed(1)} / 100`
+                            : '—'}
+                        </dd>
+                      </div>
+                      <div>
+                        <dt>Évolution</dt>
+                        <dd
+                          className={
+                            traineeProgress.trend === null
+                              ? undefined
+                              : traineeProgress.trend >= 0
+                              ? 'trainee-profile__trend--up'
+                              : 'trainee-profile__trend--down'
+                          }
+                        >
+                          {traineeProgress.trend !== null
+                            ? `${traineeProgress.trend >= 0 ? '+' : ''}${traineeProgress.trend.toFixed(1)} pts`
+                            : '—'}
+                        </dd>
+                      </div>
+                    </dl>
+                    {traineeProgressChart ? (
+                      <svg
+                        className="trainee-profile__chart"
+                        viewBox={`0 0 ${PROGRESS_CHART_WIDTH} ${PROGRESS_CHART_HEIGHT}`}
+                        role="img"
+                        aria-label="Évolution de la note par session"
+                      >
+                        {[0, 50, 100].map((level) => {
+                          const y =
+                            PROGRESS_CHART_PADDING +
+                            (PROGRESS_CHART_HEIGHT - PROGRESS_CHART_PADDING * 2) * (1 - level / 100);
+                          return (
+                            <g key={level} className="trainee-profile__chart-grid">
+                              <line
+                                x1={PROGRESS_CHART_PADDING}
+                                x2={PROGRESS_CHART_WIDTH - PROGRESS_CHART_PADDING}
+                                y1={y}
+                                y2={y}
+                              />
+                              <text x={4} y={y + 4}>
+                                {level}
+                              </text>
+                            </g>
+                          );
+                        })}
+                        <polyline
+                          className="trainee-profile__chart-line"
+                          points={traineeProgressChart.map((point) => `${point.x},${point.y}`).join(' ')}
+                        />
+                        {traineeProgressChart.map((point) => (
+                          <circle
+                            key={point.id}
+                            className="trainee-profile__chart-point"
+                            cx={point.x}
+                            cy={point.y}
+                            r={4}
+                          >
+                            <title>{point.label}</title>
+                          </circle>
+                        ))}
+                      </svg>
+                    ) : (
+                      <p className="card__placeholder">Aucune session notée pour le moment.</p>
+                    )}
+                    {traineeProgress.ruleSuccessRates.length > 0 && (
+                      <div className="trainee-profile__rules">
+                        <h3>Réussite par critère</h3>
+                        <ul>
+                          {traineeProgress.ruleSuccessRates.map((rule) => (
+                            <li key={`${rule.origin}-${rule.ruleId}`}>
+                              <span className="trainee-profile__rule-label">
+                                {rule.description}
+                                {rule.origin === 'MANUAL' && <em> (formateur)</em>}
+                              </span>
+                              <span className="trainee-profile__rule-bar" aria-hidden="true">
+                                <span style={{ width: `${Math.round(rule.successRate * 100)}%` }} />
+                              </span>
+                              <span className="trainee-profile__rule-value">
+                                {Math.round(rule.successRate * 100)} % ({rule.evaluations})
+                              </span>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                    {traineeProgress.recurringImprovementAreas.length > 0 && (
+                      <div className="trainee-profile__improvements">
+                        <h3>Axes d'amélioration récurrents</h3>
+                        <ul>
+                          {traineeProgress.recurringImprovementAreas.map((area) => (
+                            <li key={area.title}>
+                              <strong>{area.title}</strong>
+                              <span>
+                                {' '}
+                                — {area.occurrences} session{area.occurrences > 1 ? 's' : ''}
+                              </span>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                  </div>
+                ) : null)}
+            </div>
+
             <div className="card session-history-card">
               <div className="card__header">
                 <h2 className="card__title">Historique récent</h2>
@@ -5158,7 +7614,7 @@ export function App() {
                         </span>
                       </div>
                       <div className="session-history__meta">
-                        <span>Apprenant : {sessionItem.trainee?.fullName ?? 'Non défini'}</span>
+                        <span>Apprenants : {formatSessionTrainees(sessionItem) ?? 'Non défini'}</span>
                         <span>Début : {formatDateTime(sessionItem.startedAt)}</span>
                         <span>Fin : {formatDateTime(sessionItem.endedAt)}</span>
                       </div>
@@ -5180,6 +7636,117 @@ export function App() {
           </div>
         </section>
 
+        <section id="replay" className="console-section">
+          <div className="section-header">
+            <h2 className="section-header__title">Rejeu de session</h2>
+            <p className="section-header__subtitle">
+              Revivez une session à partir de son journal pour commenter chaque décision pendant le débriefing.
+            </p>
+          </div>
+          <div className="card replay-card">
+            <div className="card__header">
+              <h2 className="card__title">Lecture</h2>
+              <p className="card__description">
+                Le poste apprenant peut suivre ce rejeu en lecture seule en ajoutant{' '}
+                <code>?replay={replaySessionId || '<session>'}</code> à son adresse.
+              </p>
+            </div>
+            <div className="replay-controls">
+              <label className="form-field">
+                <span className="form-field__label">Session</span>
+                <select
+                  value={replaySessionId}
+                  onChange={(event) => setReplaySessionId(event.target.value)}
+                >
+                  <option value="">Sélectionner une session</option>
+                  {sessions.map((session) => (
+                    <option key={session.id} value={session.id}>
+                      {session.name} · {formatDateTime(session.startedAt)}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <button
+                type="button"
+                className="btn btn--primary"
+                onClick={handleReplayToggle}
+                disabled={!replayTimeline || replayTimeline.frames.length === 0}
+              >
+                {replayState?.status === 'playing' ? 'Pause' : 'Lecture'}
+              </button>
+              <label className="form-field">
+                <span className="form-field__label">Vitesse</span>
+                <select
+                  value={replayState?.speed ?? 1}
+                  onChange={handleReplaySpeedChange}
+                  disabled={!replayTimeline}
+                >
+                  {REPLAY_SPEEDS.map((speed) => (
+                    <option key={speed} value={speed}>
+                      ×{speed}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+            {replayError && <p className="card__alert">{replayError}</p>}
+            {replayTimeline && (
+              <>
+                <div className="replay-scrubber">
+                  <input
+                    type="range"
+                    min={0}
+                    max={replayTimeline.durationMs}
+                    step={1000}
+                    value={replayState?.positionMs ?? 0}
+                    onChange={(event) => handleReplaySeek(Number(event.target.value))}
+                    aria-label="Position dans le rejeu"
+                  />
+                  <span className="replay-scrubber__time">
+                    {formatDuration(replayState?.positionMs ?? 0)} / {formatDuration(replayTimeline.durationMs)}
+                  </span>
+                </div>
+                <div className="status-grid replay-status">
+                  <StatusTile
+                    title="CMSI"
+                    value={formatCmsiStatus(replaySnapshot?.cmsi?.status)}
+                    tone={deriveTone(replaySnapshot)}
+                    footer={replaySnapshot?.cmsi?.manual ? 'Mode manuel engagé' : 'Mode automatique'}
+                  />
+                  <StatusTile
+                    title="DAS"
+                    value={replaySnapshot?.dasApplied ? 'Appliqués' : 'Sécurisés'}
+                    tone={replaySnapshot?.dasApplied ? 'warning' : 'success'}
+                  />
+                  <StatusTile
+                    title="Process Ack"
+                    value={replaySnapshot?.processAck?.isAcked ? 'Fourni' : 'Requis'}
+                    tone={replaySnapshot?.processAck?.isAcked ? 'success' : 'warning'}
+                  />
+                </div>
+                <ol className="replay-timeline">
+                  {replayTimeline.frames.length === 0 && (
+                    <li className="log-list__empty">Aucun événement journalisé pour cette session.</li>
+                  )}
+                  {replayTimeline.frames.map((frame) => (
+                    <li
+                      key={frame.index}
+                      className={`replay-timeline__item${
+                        frame.index === replayState?.frameIndex ? ' replay-timeline__item--current' : ''
+                      }`}
+                    >
+                      <button type="button" onClick={() => handleReplaySeek(frame.offsetMs)}>
+                        <span className="replay-timeline__time">{formatDuration(frame.offsetMs)}</span>
+                        <span>{frame.message ?? frame.event ?? frame.source}</span>
+                      </button>
+                    </li>
+                  ))}
+                </ol>
+              </>
+            )}
+          </div>
+        </section>
+
         <section id="journal" className="console-section">
           <div className="section-header">
             <h2 className="section-header__title">Journal d'événements</h2>
@@ -5212,6 +7779,8 @@ function deriveTone(snapshot: DomainSnapshot | null): 'neutral' | 'warning' | 'c
   switch (snapshot.cmsi.status) {
     case 'FIRE_ALARM':
     case 'EVAC_PENDING':
+    case 'COINCIDENCE_PENDING':
+    case 'ALARM_VERIFICATION':
       return 'warning';
     case 'EVAC_ACTIVE':
       return 'critical';
@@ -5223,6 +7792,16 @@ function deriveTone(snapshot: DomainSnapshot | null): 'neutral' | 'warning' | 'c
   }
 }
 
+/** Valeur d'un champ `datetime-local` (heure locale, sans secondes) pour une date ISO. */
+function toDateTimeLocalValue(iso?: string | null): string {
+  if (!iso) {
+    return '';
+  }
+  const date = new Date(iso);
+  const offsetMs = date.getTimezoneOffset() * 60_000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+}
+
 function formatDateTime(iso?: string | null): string {
   if (!iso) {
     return '—';
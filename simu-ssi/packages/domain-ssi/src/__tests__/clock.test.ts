@@ -0,0 +1,68 @@
+import { createSimulationClock } from '../clock';
+import { createSsiDomain } from '../index';
+
+describe('simulation clock', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('scales elapsed time and timers with the speed factor', () => {
+    const clock = createSimulationClock({ origin: 0, speed: 10 });
+    const handler = jest.fn();
+    clock.setTimeout(handler, 60_000);
+
+    jest.advanceTimersByTime(5_999);
+    expect(handler).not.toHaveBeenCalled();
+    jest.advanceTimersByTime(1);
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(clock.now()).toBe(60_000);
+  });
+
+  it('re-arms pending timers when the speed changes', () => {
+    const clock = createSimulationClock({ origin: 0 });
+    const handler = jest.fn();
+    clock.setTimeout(handler, 10_000);
+
+    jest.advanceTimersByTime(2_000);
+    clock.setSpeed(2);
+    jest.advanceTimersByTime(3_999);
+    expect(handler).not.toHaveBeenCalled();
+    jest.advanceTimersByTime(1);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('only moves forward on explicit steps in step mode', () => {
+    const clock = createSimulationClock({ origin: 1_000, mode: 'step' });
+    const fired: number[] = [];
+    clock.setTimeout(() => {
+      fired.push(clock.now());
+      clock.setTimeout(() => fired.push(clock.now()), 500);
+    }, 1_000);
+
+    jest.advanceTimersByTime(60_000);
+    expect(clock.now()).toBe(1_000);
+    expect(fired).toEqual([]);
+
+    clock.advance(2_000);
+    expect(fired).toEqual([2_000, 2_500]);
+    expect(clock.now()).toBe(3_000);
+  });
+
+  it('drives the domain evacuation delay deterministically', () => {
+    const clock = createSimulationClock({ mode: 'step' });
+    const domain = createSsiDomain(
+      { evacOnDmDelayMs: 300_000, processAckRequired: true, evacOnDai: false },
+      { clock },
+    );
+    domain.activateDm('ZF1');
+
+    clock.advance(299_999);
+    expect(domain.snapshot.cmsi.status).toBe('EVAC_PENDING');
+    clock.advance(1);
+    expect(domain.snapshot.cmsi.status).toBe('EVAC_ACTIVE');
+  });
+});
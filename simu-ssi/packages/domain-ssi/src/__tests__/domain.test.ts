@@ -1,4 +1,10 @@
-import { createSsiDomain } from '../index';
+import {
+  buildDetectionStrategies,
+  buildZoneHierarchy,
+  createSimulationClock,
+  createSsiDomain,
+  isDomainAtRest,
+} from '../index';
 
 describe('SSI domain core rules', () => {
   beforeEach(() => {
@@ -183,4 +189,353 @@ describe('SSI domain core rules', () => {
     expect(domain.snapshot.localAudibleActive).toBe(false);
     expect(domain.snapshot.cmsi.status).toBe('IDLE');
   });
+
+  it('keeps the evacuation signal sounding for its minimum duration', () => {
+    const domain = createSsiDomain({
+      evacOnDmDelayMs: 0,
+      processAckRequired: false,
+      evacOnDai: true,
+      ugaMinSoundingMs: 60_000,
+    });
+    const events: string[] = [];
+    domain.emitter.on('events.append', (event) => events.push(String(event.details?.event)));
+    domain.activateDai('ZF1');
+    expect(domain.snapshot.ugaSilenceableAt).toBe(Date.now() + 60_000);
+
+    domain.silenceAudibleAlarm();
+    expect(domain.snapshot.localAudibleActive).toBe(false);
+    expect(domain.snapshot.ugaActive).toBe(true);
+    domain.silenceAudibleAlarm();
+    expect(events.slice(-2)).toEqual(['AUDIBLE_SILENCED', 'AUDIBLE_SILENCE_REFUSED']);
+
+    jest.advanceTimersByTime(60_000);
+    domain.silenceAudibleAlarm();
+    expect(domain.snapshot.ugaActive).toBe(false);
+    expect(domain.snapshot.ugaSilenceableAt).toBeUndefined();
+  });
+
+  it('sounds again on any alarm raised after the signal was silenced', () => {
+    const domain = createSsiDomain({
+      evacOnDmDelayMs: 60_000,
+      processAckRequired: true,
+      evacOnDai: false,
+      ugaMinSoundingMs: 0,
+    });
+    domain.activateDai('ZF1');
+    domain.silenceAudibleAlarm();
+    expect(domain.snapshot.localAudibleActive).toBe(false);
+
+    domain.activateDm('ZF2');
+    expect(domain.snapshot.localAudibleActive).toBe(true);
+    domain.silenceAudibleAlarm();
+    domain.resetDai('ZF1');
+    expect(domain.snapshot.localAudibleActive).toBe(false);
+
+    jest.advanceTimersByTime(60_000);
+    expect(domain.snapshot.ugaActive).toBe(true);
+    expect(domain.snapshot.localAudibleActive).toBe(true);
+    domain.silenceAudibleAlarm();
+    expect(domain.snapshot.ugaActive).toBe(false);
+
+    domain.startManualEvacuation();
+    expect(domain.snapshot.ugaActive).toBe(true);
+  });
+
+  it('runs on battery after mains loss and raises the low-battery fault before exhaustion', () => {
+    const domain = createSsiDomain({
+      evacOnDmDelayMs: 1000,
+      processAckRequired: true,
+      evacOnDai: false,
+      batteryAutonomyMs: 10_000,
+      batteryLowThresholdMs: 2_000,
+    });
+    const events: string[] = [];
+    domain.emitter.on('events.append', (event) => {
+      if (event.source === 'POWER') {
+        events.push(String(event.details?.event));
+      }
+    });
+
+    domain.cutMains();
+    expect(domain.snapshot.power.status).toBe('BATTERY');
+    expect(domain.snapshot.power.mainsAvailable).toBe(false);
+
+    jest.advanceTimersByTime(8_000);
+    expect(domain.snapshot.power.status).toBe('BATTERY_LOW');
+    expect(domain.snapshot.power.batteryLow).toBe(true);
+
+    jest.advanceTimersByTime(2_000);
+    expect(domain.snapshot.power.status).toBe('EXHAUSTED');
+    expect(domain.snapshot.power.batteryExhausted).toBe(true);
+    expect(domain.snapshot.dasApplied).toBe(true);
+    expect(events).toEqual(['MAINS_LOST', 'BATTERY_LOW', 'BATTERY_EXHAUSTED']);
+  });
+
+  it('cancels the battery countdown when mains power is restored', () => {
+    const domain = createSsiDomain({
+      evacOnDmDelayMs: 1000,
+      processAckRequired: true,
+      evacOnDai: false,
+      batteryAutonomyMs: 10_000,
+      batteryLowThresholdMs: 2_000,
+    });
+    domain.cutMains();
+    jest.advanceTimersByTime(5_000);
+    domain.restoreMains();
+
+    expect(domain.snapshot.power.status).toBe('MAINS');
+    expect(domain.snapshot.power.autonomyDeadline).toBeUndefined();
+    jest.advanceTimersByTime(10_000);
+    expect(domain.snapshot.power.batteryLow).toBe(false);
+    expect(domain.snapshot.power.batteryExhausted).toBe(false);
+  });
+
+  it('tracks device and zone faults through acknowledgement and clearing', () => {
+    const domain = createSsiDomain({ evacOnDmDelayMs: 1000, processAckRequired: true, evacOnDai: false });
+    const lineFault = domain.raiseFault({ kind: 'LINE_OPEN', zoneId: 'ZF2' });
+    const dasFault = domain.raiseFault({ kind: 'DAS_FEEDBACK', deviceId: 'das-1', zoneId: 'ZF2' });
+
+    expect(lineFault?.id).toBe('zone:ZF2:LINE_OPEN');
+    expect(dasFault?.scope).toBe('DEVICE');
+    expect(Object.keys(domain.snapshot.faults)).toHaveLength(2);
+    expect(domain.snapshot.localAudibleActive).toBe(true);
+    expect(domain.snapshot.cmsi.status).toBe('IDLE');
+
+    domain.acknowledgeFault(undefined, 'trainee');
+    expect(domain.snapshot.faults['zone:ZF2:LINE_OPEN']?.acknowledged).toBe(true);
+    expect(domain.snapshot.faults['device:das-1:DAS_FEEDBACK']?.acknowledgedBy).toBe('trainee');
+
+    domain.clearFault('zone:ZF2:LINE_OPEN');
+    expect(domain.snapshot.faults['zone:ZF2:LINE_OPEN']).toBeUndefined();
+    expect(domain.snapshot.faults['device:das-1:DAS_FEEDBACK']).toBeDefined();
+  });
+
+  it('freezes the evacuation deadline while timers are paused', () => {
+    const domain = createSsiDomain({ evacOnDmDelayMs: 1000, processAckRequired: true, evacOnDai: false });
+    domain.activateDm('ZF1');
+    jest.advanceTimersByTime(400);
+    domain.pauseTimers();
+    expect(domain.snapshot.timersPausedAt).toBeDefined();
+
+    jest.advanceTimersByTime(5_000);
+    expect(domain.snapshot.cmsi.status).toBe('EVAC_PENDING');
+
+    domain.resumeTimers();
+    expect(domain.snapshot.timersPausedAt).toBeUndefined();
+    jest.advanceTimersByTime(599);
+    expect(domain.snapshot.cmsi.status).toBe('EVAC_PENDING');
+    jest.advanceTimersByTime(1);
+    expect(domain.snapshot.cmsi.status).toBe('EVAC_ACTIVE');
+  });
+
+  it('evacuates only the alarm zone and safety zones mapped to the triggering detection zone', () => {
+    const zoneHierarchy = buildZoneHierarchy([
+      { id: 'ZD1', kind: 'ZD', alarmZoneId: 'ZA1', safetyZoneIds: ['ZS1'] },
+      { id: 'ZD3', kind: 'ZD', alarmZoneId: 'ZA2', safetyZoneIds: ['ZS2', 'ZC1'] },
+      { id: 'ZA1', kind: 'ZA' },
+    ]);
+    const domain = createSsiDomain({ evacOnDmDelayMs: 1000, processAckRequired: true, evacOnDai: false });
+    domain.activateDm('ZD3');
+    jest.advanceTimersByTime(1000);
+    domain.updateConfig({ zoneHierarchy });
+
+    const snapshot = domain.snapshot;
+    expect(snapshot.dasApplied).toBe(true);
+    expect(snapshot.alarmZones.ZA1).toMatchObject({ evacuating: false, detectionZoneIds: [] });
+    expect(snapshot.alarmZones.ZA2).toMatchObject({ evacuating: true, detectionZoneIds: ['ZD3'] });
+    expect(Object.keys(snapshot.alarmZones).sort()).toEqual(['ZA1', 'ZA2']);
+    expect(snapshot.safetyZones.ZS1.dasApplied).toBe(false);
+    expect(snapshot.safetyZones.ZS2).toMatchObject({ dasApplied: true, detectionZoneIds: ['ZD3'] });
+    expect(snapshot.safetyZones.ZC1.dasApplied).toBe(true);
+
+    domain.startManualEvacuation('drill');
+    expect(domain.snapshot.alarmZones.ZA1).toMatchObject({ evacuating: true, manual: true });
+    expect(domain.snapshot.safetyZones.ZS1.dasApplied).toBe(true);
+
+    domain.stopManualEvacuation('completed');
+    expect(Object.values(domain.snapshot.alarmZones).some((zone) => zone.evacuating)).toBe(false);
+    expect(Object.values(domain.snapshot.safetyZones).some((zone) => zone.dasApplied)).toBe(false);
+  });
+
+  it('treats an unmapped detection zone as its own alarm and safety zone', () => {
+    const domain = createSsiDomain({ evacOnDmDelayMs: 1000, processAckRequired: true, evacOnDai: true });
+    domain.activateDai('ZF1');
+
+    expect(domain.snapshot.alarmZones).toEqual({
+      ZF1: {
+        zoneId: 'ZF1',
+        evacuating: true,
+        manual: false,
+        startedAt: expect.any(Number),
+        detectionZoneIds: ['ZF1'],
+      },
+    });
+    expect(domain.snapshot.safetyZones.ZF1.dasApplied).toBe(true);
+  });
+
+  it('runs an independent evacuation countdown per zone with per-zone acknowledgement', () => {
+    const clock = createSimulationClock({ mode: 'step', origin: 0 });
+    const domain = createSsiDomain(
+      {
+        evacOnDmDelayMs: 1000,
+        processAckRequired: true,
+        evacOnDai: false,
+        zoneHierarchy: { ZD1: { alarmZoneId: 'ZA1' }, ZD2: { alarmZoneId: 'ZA2' } },
+      },
+      { clock },
+    );
+    domain.activateDm('ZD1');
+    clock.advance(400);
+    domain.activateDm('ZD2');
+    clock.advance(100);
+    domain.activateDm('ZD1');
+
+    expect(domain.snapshot.cmsi).toMatchObject({
+      status: 'EVAC_PENDING',
+      zoneId: 'ZD1',
+      deadline: 1000,
+    });
+    expect(domain.snapshot.cmsi.evacuations).toEqual({
+      ZA1: { alarmZoneId: 'ZA1', status: 'PENDING', detectionZoneIds: ['ZD1'], deadline: 1000 },
+      ZA2: { alarmZoneId: 'ZA2', status: 'PENDING', detectionZoneIds: ['ZD2'], deadline: 1400 },
+    });
+
+    domain.acknowledgeProcess('trainee', 'ZA1');
+    expect(domain.snapshot.cmsi).toMatchObject({ status: 'EVAC_PENDING', zoneId: 'ZD2' });
+    expect(domain.snapshot.cmsi.evacuations.ZA1).toMatchObject({
+      status: 'SUSPENDED',
+      remainingMs: 500,
+    });
+
+    clock.advance(900);
+    expect(domain.snapshot.cmsi.status).toBe('EVAC_ACTIVE');
+    expect(domain.snapshot.cmsi.evacuations.ZA1.status).toBe('SUSPENDED');
+    expect(domain.snapshot.cmsi.evacuations.ZA2).toMatchObject({ status: 'ACTIVE', startedAt: 1400 });
+    expect(domain.snapshot.alarmZones.ZA1.evacuating).toBe(false);
+
+    domain.activateDm('ZD3');
+    expect(domain.snapshot.cmsi.status).toBe('EVAC_ACTIVE');
+    clock.advance(1000);
+    expect(domain.snapshot.cmsi.evacuations.ZD3).toMatchObject({ status: 'ACTIVE', startedAt: 2400 });
+  });
+
+  it('drives each DAS through its travel time and requires an explicit re-arm', () => {
+    const clock = createSimulationClock({ mode: 'step', origin: 0 });
+    const domain = createSsiDomain(
+      {
+        evacOnDmDelayMs: 1000,
+        processAckRequired: true,
+        evacOnDai: true,
+        dasFeedbackTimeoutMs: 3000,
+        zoneHierarchy: { ZD1: { safetyZoneIds: ['ZS1'] } },
+        dasDevices: {
+          'das-1': { zoneId: 'ZS1', travelTimeMs: 1000 },
+          'das-2': { zoneId: 'ZS1', travelTimeMs: 1000 },
+          'das-3': { zoneId: 'ZS2' },
+        },
+      },
+      { clock },
+    );
+    expect(domain.snapshot.dasDevices['das-1']).toMatchObject({ status: 'WAITING', travelTimeMs: 1000 });
+    expect(isDomainAtRest(domain.snapshot)).toBe(true);
+
+    domain.failDas('das-2', 'STUCK');
+    domain.activateDai('ZD1');
+    expect(domain.snapshot.dasDevices['das-1']).toMatchObject({ status: 'COMMANDED', deadline: 1000 });
+    expect(domain.snapshot.dasDevices['das-2']).toMatchObject({ status: 'COMMANDED', deadline: 3000 });
+    expect(domain.snapshot.dasDevices['das-3'].status).toBe('WAITING');
+
+    clock.advance(1000);
+    expect(domain.snapshot.dasDevices['das-1']).toMatchObject({ status: 'SAFETY', safetyAt: 1000 });
+    expect(domain.snapshot.dasDevices['das-2'].status).toBe('COMMANDED');
+
+    clock.advance(2000);
+    expect(domain.snapshot.dasDevices['das-2']).toMatchObject({ status: 'FEEDBACK_TIMEOUT', faultAt: 3000 });
+    expect(domain.snapshot.faults['device:das-2:DAS_FEEDBACK']).toMatchObject({
+      kind: 'DAS_FEEDBACK',
+      deviceId: 'das-2',
+      zoneId: 'ZS1',
+    });
+
+    expect(domain.rearmDas()).toEqual([]);
+    domain.resetDai('ZD1');
+    domain.trySystemReset();
+    expect(domain.snapshot.dasApplied).toBe(false);
+    expect(domain.snapshot.dasDevices['das-1'].status).toBe('SAFETY');
+    // La réinitialisation ne ramène pas les DAS en attente : l'état n'est pas encore celui de veille.
+    expect(isDomainAtRest(domain.snapshot)).toBe(false);
+    expect(domain.rearmDas()).toEqual(['das-1']);
+    expect(domain.snapshot.dasDevices['das-1'].status).toBe('WAITING');
+
+    domain.repairDas('das-2');
+    expect(domain.snapshot.faults['device:das-2:DAS_FEEDBACK']).toBeUndefined();
+    expect(domain.rearmDas('das-2')).toEqual(['das-2']);
+    expect(isDomainAtRest(domain.snapshot)).toBe(true);
+
+    domain.failDas('das-3', 'POSITION_LOST');
+    expect(domain.snapshot.dasDevices['das-3']).toMatchObject({
+      status: 'FEEDBACK_FAULT',
+      failure: 'POSITION_LOST',
+    });
+    expect(domain.snapshot.localAudibleActive).toBe(true);
+  });
+
+  it('waits for a second distinct detector before raising a double-knock alarm', () => {
+    const domain = createSsiDomain({
+      evacOnDmDelayMs: 1000,
+      processAckRequired: true,
+      evacOnDai: false,
+      detectionStrategies: buildDetectionStrategies([
+        { id: 'ZD1', kind: 'ZD', detectionStrategy: 'DOUBLE_KNOCK' },
+        { id: 'ZD2', kind: 'ZD', detectionStrategy: 'SINGLE' },
+      ]),
+    });
+    domain.activateDai('ZD1', { deviceId: 'dai-1' });
+    domain.activateDai('ZD1', { deviceId: 'dai-1' });
+    expect(domain.snapshot.cmsi).toMatchObject({ status: 'COINCIDENCE_PENDING', zoneId: 'ZD1' });
+    expect(domain.snapshot.cmsi.detections.ZD1).toMatchObject({
+      status: 'AWAITING_COINCIDENCE',
+      deviceIds: ['dai-1'],
+    });
+    expect(domain.snapshot.localAudibleActive).toBe(true);
+
+    domain.activateDai('ZD1', { deviceId: 'dai-2' });
+    expect(domain.snapshot.cmsi).toMatchObject({ status: 'FIRE_ALARM', zoneIds: ['ZD1'] });
+    expect(domain.snapshot.cmsi.detections).toEqual({});
+
+    domain.activateDai('ZD2');
+    expect(domain.snapshot.cmsi).toMatchObject({ status: 'FIRE_ALARM', zoneIds: ['ZD1', 'ZD2'] });
+  });
+
+  it('leaves a verification delay to confirm or cancel a delayed detection', () => {
+    const domain = createSsiDomain({
+      evacOnDmDelayMs: 1000,
+      processAckRequired: true,
+      evacOnDai: false,
+      detectionStrategies: {
+        ZD1: { kind: 'DELAYED', verificationDelayMs: 1000 },
+        ZD2: { kind: 'DELAYED', verificationDelayMs: 1000 },
+      },
+    });
+    domain.activateDai('ZD1');
+    expect(domain.snapshot.cmsi.status).toBe('ALARM_VERIFICATION');
+    expect(domain.cancelDetection('ZD1', 'trainee')).toBe(true);
+    expect(domain.snapshot.cmsi.status).toBe('IDLE');
+    expect(domain.snapshot.daiActivated.ZD1).toBeUndefined();
+    expect(domain.snapshot.localAudibleActive).toBe(false);
+
+    domain.activateDai('ZD1');
+    expect(domain.confirmDetection('ZD1')).toBe(true);
+    expect(domain.snapshot.cmsi).toMatchObject({ status: 'FIRE_ALARM', zoneIds: ['ZD1'] });
+    expect(domain.confirmDetection('ZD1')).toBe(false);
+
+    domain.activateDai('ZD2');
+    domain.pauseTimers();
+    jest.advanceTimersByTime(5_000);
+    domain.resumeTimers();
+    expect(domain.snapshot.cmsi.detections.ZD2.status).toBe('VERIFYING');
+    jest.advanceTimersByTime(1000);
+    expect(domain.snapshot.cmsi.detections.ZD2).toBeUndefined();
+    expect(domain.snapshot.cmsi).toMatchObject({ status: 'FIRE_ALARM', zoneIds: ['ZD1', 'ZD2'] });
+  });
 });
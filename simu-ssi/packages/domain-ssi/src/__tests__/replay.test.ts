@@ -0,0 +1,48 @@
+import { applyLoggedEvent, createSimulationClock, createSsiDomain, type DomainLogEvent } from '../index';
+
+const config = { evacOnDmDelayMs: 60_000, processAckRequired: true, evacOnDai: false };
+
+describe('applyLoggedEvent', () => {
+  it('rebuilds the live state from the logged commands', () => {
+    const origin = Date.UTC(2024, 2, 1, 9);
+    const liveClock = createSimulationClock({ mode: 'step', origin });
+    const live = createSsiDomain(config, { clock: liveClock });
+    const logged: DomainLogEvent[] = [];
+    live.emitter.on('events.append', (event) => logged.push(event));
+
+    live.activateDm('ZF1', { deviceId: 'DM-1' });
+    liveClock.advance(10_000);
+    live.activateDai('ZF2');
+    live.raiseFault({ kind: 'LINE_OPEN', zoneId: 'ZF3' }, { label: 'Boucle 3' });
+    liveClock.advance(70_000);
+    live.silenceAudibleAlarm();
+    live.cutMains();
+
+    const replayClock = createSimulationClock({ mode: 'step', origin });
+    const replay = createSsiDomain(config, { clock: replayClock });
+    const applied = logged.filter((event) => {
+      replayClock.advance(event.ts - replayClock.now());
+      return applyLoggedEvent(replay, event);
+    });
+
+    expect(applied.map((event) => event.details?.event)).toEqual([
+      'DM_LATCHED',
+      'DAI_TRIGGERED',
+      'FAULT_RAISED',
+      'AUDIBLE_SILENCED',
+      'MAINS_LOST',
+    ]);
+    expect(replay.snapshot).toEqual(live.snapshot);
+    expect(replay.snapshot.cmsi.status).toBe('EVAC_ACTIVE');
+    expect(replay.snapshot.dmLatched.ZF1?.activeDeviceIds).toEqual(['DM-1']);
+  });
+
+  it('ignores derived or unknown events', () => {
+    const domain = createSsiDomain(config, { clock: createSimulationClock({ mode: 'step' }) });
+
+    expect(applyLoggedEvent(domain, { details: { event: 'FIRE_ALARM_STARTED', zoneIds: ['ZF1'] } })).toBe(false);
+    expect(applyLoggedEvent(domain, { details: { action: 'scenario-run' } })).toBe(false);
+    expect(applyLoggedEvent(domain, { details: null })).toBe(false);
+    expect(domain.snapshot.cmsi.status).toBe('IDLE');
+  });
+});
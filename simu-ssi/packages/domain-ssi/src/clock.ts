@@ -0,0 +1,183 @@
+export type ClockMode = 'realtime' | 'step';
+
+export type ClockSpeed = 1 | 2 | 10;
+
+export const CLOCK_SPEEDS: readonly ClockSpeed[] = [1, 2, 10];
+
+/** Identifiant opaque d'une temporisation planifiée sur une horloge de simulation. */
+export type ClockTimer = number;
+
+export interface ClockState {
+  mode: ClockMode;
+  speed: ClockSpeed;
+  /** Heure simulée (ms epoch) au moment de la lecture de l'état. */
+  now: number;
+}
+
+/**
+ * Source de temps partagée par le domaine SSI et le moteur de scénarios.
+ * Toutes les échéances (temporisation d'évacuation, autonomie batterie, offsets de scénario)
+ * sont exprimées dans ce temps simulé.
+ */
+export interface SimulationClock {
+  now(): number;
+  setTimeout(handler: () => void, delayMs: number): ClockTimer;
+  clearTimeout(timer: ClockTimer | undefined): void;
+}
+
+export interface ControllableClock extends SimulationClock {
+  readonly state: ClockState;
+  setSpeed(speed: ClockSpeed): void;
+  setMode(mode: ClockMode): void;
+  /**
+   * Avance l'heure simulée en déclenchant, dans l'ordre, les temporisations échues.
+   * `advance(0)` déclenche uniquement celles déjà dues.
+   */
+  advance(ms: number): void;
+  onChange(listener: (state: ClockState) => void): () => void;
+}
+
+export interface SimulationClockOptions {
+  speed?: ClockSpeed;
+  mode?: ClockMode;
+  /** Heure simulée initiale, par défaut l'heure système. */
+  origin?: number;
+}
+
+interface PendingTimer {
+  id: ClockTimer;
+  dueAt: number;
+  handler: () => void;
+  handle?: ReturnType<typeof setTimeout>;
+}
+
+export function isClockSpeed(value: unknown): value is ClockSpeed {
+  return CLOCK_SPEEDS.includes(value as ClockSpeed);
+}
+
+export function createSimulationClock(options: SimulationClockOptions = {}): ControllableClock {
+  let speed: ClockSpeed = options.speed ?? 1;
+  let mode: ClockMode = options.mode ?? 'realtime';
+  // L'heure simulée progresse depuis un ancrage (simulé, réel) recalé à chaque changement.
+  let anchorVirtual = options.origin ?? Date.now();
+  let anchorReal = Date.now();
+  let nextTimerId = 1;
+  const timers = new Map<ClockTimer, PendingTimer>();
+  const listeners = new Set<(state: ClockState) => void>();
+
+  const now = () =>
+    mode === 'step' ? anchorVirtual : anchorVirtual + (Date.now() - anchorReal) * speed;
+
+  const reanchor = (virtual = now()) => {
+    anchorVirtual = virtual;
+    anchorReal = Date.now();
+  };
+
+  const readState = (): ClockState => ({ mode, speed, now: now() });
+
+  const notify = () => {
+    const state = readState();
+    for (const listener of listeners) {
+      listener(state);
+    }
+  };
+
+  const disarm = (timer: PendingTimer) => {
+    if (timer.handle) {
+      clearTimeout(timer.handle);
+      timer.handle = undefined;
+    }
+  };
+
+  const fire = (timer: PendingTimer) => {
+    disarm(timer);
+    timers.delete(timer.id);
+    timer.handler();
+  };
+
+  const arm = (timer: PendingTimer) => {
+    disarm(timer);
+    if (mode === 'step') {
+      return;
+    }
+    timer.handle = setTimeout(() => {
+      timer.handle = undefined;
+      fire(timer);
+    }, Math.max(0, (timer.dueAt - now()) / speed));
+  };
+
+  const findNextDue = (limit: number): PendingTimer | undefined => {
+    let next: PendingTimer | undefined;
+    for (const timer of timers.values()) {
+      if (timer.dueAt <= limit && (!next || timer.dueAt < next.dueAt)) {
+        next = timer;
+      }
+    }
+    return next;
+  };
+
+  return {
+    get state() {
+      return readState();
+    },
+    now,
+    setTimeout(handler, delayMs) {
+      const timer: PendingTimer = {
+        id: nextTimerId++,
+        dueAt: now() + Math.max(0, delayMs),
+        handler,
+      };
+      timers.set(timer.id, timer);
+      arm(timer);
+      return timer.id;
+    },
+    clearTimeout(id) {
+      if (id === undefined) {
+        return;
+      }
+      const timer = timers.get(id);
+      if (timer) {
+        disarm(timer);
+        timers.delete(id);
+      }
+    },
+    setSpeed(nextSpeed) {
+      if (nextSpeed === speed) {
+        return;
+      }
+      reanchor();
+      speed = nextSpeed;
+      timers.forEach(arm);
+      notify();
+    },
+    setMode(nextMode) {
+      if (nextMode === mode) {
+        return;
+      }
+      reanchor();
+      mode = nextMode;
+      timers.forEach(arm);
+      notify();
+    },
+    advance(ms) {
+      if (!(ms >= 0)) {
+        return;
+      }
+      reanchor();
+      const target = anchorVirtual + ms;
+      for (let next = findNextDue(target); next; next = findNextDue(target)) {
+        reanchor(Math.max(anchorVirtual, next.dueAt));
+        fire(next);
+      }
+      reanchor(target);
+      timers.forEach(arm);
+      notify();
+    },
+    onChange(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
@@ -1,6 +1,10 @@
 import EventEmitter from 'eventemitter3';
+import { createSimulationClock, type ClockTimer, type SimulationClock } from './clock';
 
-export type CmsiState =
+export * from './clock';
+export * from './replay';
+
+export type CmsiPhase =
   | { status: 'IDLE' }
   | {
       status: 'FIRE_ALARM';
@@ -12,12 +16,218 @@ export type CmsiState =
   | { status: 'EVAC_PENDING'; zoneId: string; deadline: number }
   | { status: 'EVAC_ACTIVE'; manual: boolean; startedAt: number; zoneId?: string }
   | { status: 'EVAC_SUSPENDED'; zoneId: string; deadline: number; remainingMs: number }
-  | { status: 'SAFE_HOLD'; enteredAt: number };
+  | { status: 'SAFE_HOLD'; enteredAt: number }
+  | { status: 'COINCIDENCE_PENDING'; zoneId: string; startedAt: number }
+  | { status: 'ALARM_VERIFICATION'; zoneId: string; deadline: number };
+
+export type ZoneEvacuationStatus = 'PENDING' | 'SUSPENDED' | 'ACTIVE';
+
+/** Évacuation d'une zone d'alarme, agrégée sur les ZD qui la commandent. */
+export interface ZoneEvacuationState {
+  alarmZoneId: string;
+  status: ZoneEvacuationStatus;
+  /** ZD dont la temporisation ou l'évacuation est en cours. */
+  detectionZoneIds: string[];
+  deadline?: number;
+  remainingMs?: number;
+  startedAt?: number;
+}
+
+/**
+ * Détection d'une ZD dont l'alarme feu n'est pas encore confirmée : attente d'un second détecteur
+ * (`AWAITING_COINCIDENCE`) ou délai de reconnaissance laissé à l'exploitant (`VERIFYING`).
+ */
+export type DetectionState =
+  | { zoneId: string; status: 'AWAITING_COINCIDENCE'; startedAt: number; deviceIds: string[] }
+  | {
+      zoneId: string;
+      status: 'VERIFYING';
+      startedAt: number;
+      deviceIds: string[];
+      deadline: number;
+    };
+
+/**
+ * Vue du CMSI : `status` résume l'ensemble (l'évacuation active prime, puis la temporisation la
+ * plus proche, puis les détections non confirmées), `evacuations` détaille chaque zone d'alarme
+ * temporisée, suspendue ou évacuée et `detections` chaque ZD en attente de confirmation.
+ */
+export type CmsiState = CmsiPhase & {
+  evacuations: Record<string, ZoneEvacuationState>;
+  detections: Record<string, DetectionState>;
+};
 
 export interface DomainConfig {
   evacOnDmDelayMs: number;
   processAckRequired: boolean;
   evacOnDai: boolean;
+  /** Autonomie des batteries après perte du secteur (ms). */
+  batteryAutonomyMs?: number;
+  /** Autonomie restante en dessous de laquelle le défaut batterie basse est signalé (ms). */
+  batteryLowThresholdMs?: number;
+  /** Correspondance des zones de détection vers leurs zones d'alarme et de sécurité. */
+  zoneHierarchy?: ZoneHierarchy;
+  /** DAS de la topologie, par identifiant de dispositif. */
+  dasDevices?: Record<string, DasDeviceConfig>;
+  /** Délai de surveillance du contrôle de position après la commande d'un DAS (ms). */
+  dasFeedbackTimeoutMs?: number;
+  /** Durée minimale de diffusion du signal d'évacuation avant qu'il puisse être arrêté (ms). */
+  ugaMinSoundingMs?: number;
+  /** Stratégie de détection des DAI par ZD ; une ZD absente déclenche sur un seul détecteur. */
+  detectionStrategies?: Record<string, DetectionStrategy>;
+}
+
+/**
+ * Stratégie de détection d'une ZD : un seul détecteur suffit (`SINGLE`), deux détecteurs
+ * distincts doivent coïncider (`DOUBLE_KNOCK`), ou l'alarme feu attend la levée de doute de
+ * l'exploitant pendant un délai de reconnaissance (`DELAYED`).
+ */
+export type DetectionStrategyKind = 'SINGLE' | 'DOUBLE_KNOCK' | 'DELAYED';
+
+export const DETECTION_STRATEGY_KINDS: readonly DetectionStrategyKind[] = [
+  'SINGLE',
+  'DOUBLE_KNOCK',
+  'DELAYED',
+];
+
+export interface DetectionStrategy {
+  kind: DetectionStrategyKind;
+  /** Délai de reconnaissance avant l'alarme feu, pour la stratégie `DELAYED` (ms). */
+  verificationDelayMs?: number;
+}
+
+export const DEFAULT_VERIFICATION_DELAY_MS = 3 * 60_000;
+
+/**
+ * Zones commandées par une zone de détection (ZD) : la zone d'alarme (ZA) dont les diffuseurs
+ * sonores évacuent le public, et les zones de sécurité (ZS) ou de compartimentage (ZC) dont les
+ * DAS sont mis en position de sécurité.
+ */
+export interface DetectionZoneMapping {
+  alarmZoneId?: string;
+  safetyZoneIds?: string[];
+}
+
+/** Correspondances par identifiant de ZD ; une ZD sans correspondance est sa propre ZA et ZS. */
+export type ZoneHierarchy = Record<string, DetectionZoneMapping>;
+
+/** Types de zone qui regroupent des ZD au lieu de porter des détecteurs. */
+export const HIERARCHY_ZONE_KINDS = ['ZA', 'ZS', 'ZC'] as const;
+
+/** Construit la correspondance ZD → ZA/ZS à partir des zones d'une topologie. */
+export function buildZoneHierarchy(
+  zones: Array<{ id: string; kind?: string; alarmZoneId?: string; safetyZoneIds?: string[] }>,
+): ZoneHierarchy {
+  const hierarchy: ZoneHierarchy = {};
+  for (const zone of zones) {
+    const kind = zone.kind?.trim().toUpperCase() ?? '';
+    if ((HIERARCHY_ZONE_KINDS as readonly string[]).includes(kind)) {
+      continue;
+    }
+    const alarmZoneId = zone.alarmZoneId?.trim() || undefined;
+    const safetyZoneIds = (zone.safetyZoneIds ?? []).map((id) => id.trim()).filter(Boolean);
+    hierarchy[zone.id] = {
+      alarmZoneId,
+      safetyZoneIds: safetyZoneIds.length > 0 ? safetyZoneIds : undefined,
+    };
+  }
+  return hierarchy;
+}
+
+export function resolveAlarmZoneId(hierarchy: ZoneHierarchy | undefined, zoneId: string): string {
+  return hierarchy?.[zoneId]?.alarmZoneId ?? zoneId;
+}
+
+export function resolveSafetyZoneIds(
+  hierarchy: ZoneHierarchy | undefined,
+  zoneId: string,
+): string[] {
+  const safetyZoneIds = hierarchy?.[zoneId]?.safetyZoneIds;
+  return safetyZoneIds && safetyZoneIds.length > 0 ? [...safetyZoneIds] : [zoneId];
+}
+
+/** Construit les stratégies de détection d'une topologie ; seules les ZD non `SINGLE` y sont. */
+export function buildDetectionStrategies(
+  zones: Array<{
+    id: string;
+    kind?: string;
+    detectionStrategy?: string;
+    verificationDelayMs?: number;
+  }>,
+): Record<string, DetectionStrategy> {
+  const strategies: Record<string, DetectionStrategy> = {};
+  for (const zone of zones) {
+    const kind = zone.detectionStrategy?.trim().toUpperCase() as DetectionStrategyKind | undefined;
+    if (!kind || kind === 'SINGLE' || !DETECTION_STRATEGY_KINDS.includes(kind)) {
+      continue;
+    }
+    const zoneKind = zone.kind?.trim().toUpperCase() ?? '';
+    if ((HIERARCHY_ZONE_KINDS as readonly string[]).includes(zoneKind)) {
+      continue;
+    }
+    const verificationDelayMs = Number(zone.verificationDelayMs);
+    strategies[zone.id] = {
+      kind,
+      verificationDelayMs:
+        kind === 'DELAYED' && Number.isFinite(verificationDelayMs) && verificationDelayMs >= 0
+          ? verificationDelayMs
+          : undefined,
+    };
+  }
+  return strategies;
+}
+
+/** DAS commandé par la zone de sécurité (ZS ou ZC) dans laquelle il est implanté. */
+export interface DasDeviceConfig {
+  /** Zone du dispositif ; sans zone, le DAS suit toute mise en sécurité. */
+  zoneId?: string;
+  /** Temps de manœuvre jusqu'à la position de sécurité (ms). */
+  travelTimeMs?: number;
+}
+
+export const DEFAULT_DAS_TRAVEL_TIME_MS = 5_000;
+export const DEFAULT_DAS_FEEDBACK_TIMEOUT_MS = 20_000;
+
+/** Construit la configuration des DAS à partir des dispositifs en service d'une topologie. */
+export function buildDasDevices(
+  devices: Array<{
+    id: string;
+    kind: string;
+    zoneId?: string;
+    props?: Record<string, unknown>;
+    outOfService?: boolean;
+  }>,
+): Record<string, DasDeviceConfig> {
+  const dasDevices: Record<string, DasDeviceConfig> = {};
+  for (const device of devices) {
+    if (device.kind.trim().toUpperCase() !== 'DAS' || device.outOfService) {
+      continue;
+    }
+    const travelTimeMs = Number(device.props?.travelTimeMs);
+    dasDevices[device.id] = {
+      zoneId: device.zoneId?.trim() || undefined,
+      travelTimeMs: Number.isFinite(travelTimeMs) && travelTimeMs >= 0 ? travelTimeMs : undefined,
+    };
+  }
+  return dasDevices;
+}
+
+export const DEFAULT_BATTERY_AUTONOMY_MS = 15 * 60_000;
+export const DEFAULT_BATTERY_LOW_THRESHOLD_MS = 3 * 60_000;
+export const DEFAULT_UGA_MIN_SOUNDING_MS = 5 * 60_000;
+
+export type PowerStatus = 'MAINS' | 'BATTERY' | 'BATTERY_LOW' | 'EXHAUSTED';
+
+export interface PowerState {
+  status: PowerStatus;
+  mainsAvailable: boolean;
+  batteryLow: boolean;
+  batteryExhausted: boolean;
+  mainsLostAt?: number;
+  mainsRestoredAt?: number;
+  batteryLowAt?: number;
+  exhaustedAt?: number;
+  autonomyDeadline?: number;
 }
 
 export interface ProcessAckState {
@@ -45,16 +255,127 @@ export interface AutomaticDetectorState {
   activeDeviceIds?: string[];
 }
 
+export type FaultKind = 'LINE_OPEN' | 'LINE_SHORT' | 'DAS_FEEDBACK' | 'UGA_LINE' | 'OTHER';
+
+export interface FaultTarget {
+  kind: FaultKind;
+  deviceId?: string;
+  zoneId?: string;
+}
+
+export interface FaultState extends FaultTarget {
+  id: string;
+  scope: 'DEVICE' | 'ZONE';
+  label?: string;
+  raisedAt: number;
+  acknowledged: boolean;
+  acknowledgedAt?: number;
+  acknowledgedBy?: string;
+}
+
+/**
+ * Identifiant stable d'un dérangement : un même défaut sur une même cible
+ * ne peut être actif qu'une fois, et un scénario peut le lever sans connaître l'identifiant.
+ */
+export function faultIdFor(target: FaultTarget): string | undefined {
+  const deviceId = target.deviceId?.trim();
+  if (deviceId) {
+    return `device:${deviceId}:${target.kind}`;
+  }
+  const zoneId = target.zoneId?.trim();
+  if (zoneId) {
+    return `zone:${zoneId}:${target.kind}`;
+  }
+  return undefined;
+}
+
+export interface AlarmZoneState {
+  zoneId: string;
+  evacuating: boolean;
+  /** Vrai lorsque l'évacuation de la zone découle d'une commande manuelle générale. */
+  manual: boolean;
+  startedAt?: number;
+  /** ZD dont l'alarme a déclenché l'évacuation de la zone. */
+  detectionZoneIds: string[];
+}
+
+export interface SafetyZoneState {
+  zoneId: string;
+  dasApplied: boolean;
+  appliedAt?: number;
+  /** ZD dont l'alarme a commandé la mise en sécurité de la zone. */
+  detectionZoneIds: string[];
+}
+
+/**
+ * Cycle d'un DAS : en attente, commandé (en manœuvre), en position de sécurité, ou en défaut
+ * lorsque le contrôle de position ne confirme pas la manœuvre dans le délai (`FEEDBACK_TIMEOUT`)
+ * ou signale une position incohérente (`FEEDBACK_FAULT`).
+ */
+export type DasStatus = 'WAITING' | 'COMMANDED' | 'SAFETY' | 'FEEDBACK_TIMEOUT' | 'FEEDBACK_FAULT';
+
+/**
+ * Défaillance injectée par le formateur ou un scénario : `STUCK` bloque la manœuvre (le délai
+ * de surveillance expire), `POSITION_LOST` fait perdre le contact de position.
+ */
+export type DasFailureMode = 'STUCK' | 'POSITION_LOST';
+
+export interface DasDeviceState {
+  deviceId: string;
+  zoneId?: string;
+  status: DasStatus;
+  travelTimeMs: number;
+  commandedAt?: number;
+  /** Fin de manœuvre attendue, ou expiration du délai de surveillance pour un DAS bloqué. */
+  deadline?: number;
+  safetyAt?: number;
+  faultAt?: number;
+  failure?: DasFailureMode;
+}
+
 export interface DomainSnapshot {
   cmsi: CmsiState;
   ugaActive: boolean;
+  /** Instant à partir duquel le signal d'évacuation en cours peut être arrêté. */
+  ugaSilenceableAt?: number;
   localAudibleActive: boolean;
   dasApplied: boolean;
+  /** État d'évacuation par zone d'alarme (ZA). */
+  alarmZones: Record<string, AlarmZoneState>;
+  /** Position des DAS par zone de sécurité (ZS ou ZC). */
+  safetyZones: Record<string, SafetyZoneState>;
+  /** État de chaque DAS de la topologie. */
+  dasDevices: Record<string, DasDeviceState>;
   manualEvacuation: boolean;
   manualEvacuationReason?: string;
   processAck: ProcessAckState;
   dmLatched: Record<string, ManualCallPointState>;
   daiActivated: Record<string, AutomaticDetectorState>;
+  power: PowerState;
+  faults: Record<string, FaultState>;
+  /** Horodatage du gel des temporisations (pause formateur), absent lorsqu'elles s'écoulent. */
+  timersPausedAt?: number;
+}
+
+/**
+ * Vrai lorsque l'état ne se distingue pas de celui d'un domaine neuf : veille, secteur présent,
+ * aucun dérangement ni DAS hors attente, temporisations non gelées. Le journal qui précède un tel
+ * état n'a plus besoin d'être rejoué.
+ */
+export function isDomainAtRest(snapshot: DomainSnapshot): boolean {
+  return (
+    snapshot.cmsi.status === 'IDLE' &&
+    Object.keys(snapshot.cmsi.detections).length === 0 &&
+    !snapshot.ugaActive &&
+    !snapshot.manualEvacuation &&
+    !snapshot.processAck.isAcked &&
+    Object.values(snapshot.dmLatched).every((dm) => !dm.isLatched) &&
+    Object.values(snapshot.daiActivated).every((dai) => !dai.isActive) &&
+    snapshot.power.status === 'MAINS' &&
+    Object.keys(snapshot.faults).length === 0 &&
+    Object.values(snapshot.dasDevices).every((das) => das.status === 'WAITING' && !das.failure) &&
+    snapshot.timersPausedAt === undefined
+  );
 }
 
 export type DomainEventMap = {
@@ -72,6 +393,7 @@ export type DomainLogEvent = {
     | 'UGA'
     | 'DAS'
     | 'POWER'
+    | 'FAULT'
     | 'TRAINER'
     | 'TRAINEE'
     | 'MANUAL';
@@ -79,11 +401,17 @@ export type DomainLogEvent = {
   details?: Record<string, unknown>;
 };
 
-type TimerHandle = ReturnType<typeof setTimeout> | undefined;
+type TimerHandle = ClockTimer | undefined;
 
 type DomainEmitter = EventEmitter<DomainEventMap>;
 
-type FireAlarmState = Extract<CmsiState, { status: 'FIRE_ALARM' }>;
+type FireAlarmState = Extract<CmsiPhase, { status: 'FIRE_ALARM' }>;
+
+/** Temporisation ou évacuation propre à une zone de détection. */
+type DetectionZoneEvacuation =
+  | { zoneId: string; status: 'PENDING'; deadline: number }
+  | { zoneId: string; status: 'SUSPENDED'; deadline: number; remainingMs: number }
+  | { zoneId: string; status: 'ACTIVE'; startedAt: number };
 
 export interface SsiDomain {
   readonly emitter: DomainEmitter;
@@ -93,91 +421,689 @@ export interface SsiDomain {
   resetDm(zoneId: string): void;
   activateDai(zoneId: string, metadata?: { deviceId?: string }): void;
   resetDai(zoneId: string): void;
-  acknowledgeProcess(ackedBy: string): void;
+  /** Confirme l'alarme feu d'une ZD en attente de coïncidence ou de levée de doute. */
+  confirmDetection(zoneId: string, confirmedBy?: string): boolean;
+  /** Écarte une détection non confirmée : les DAI de la ZD sont réarmés sans alarme feu. */
+  cancelDetection(zoneId: string, cancelledBy?: string): boolean;
+  /** Suspend la temporisation de la zone (ZD ou ZA) indiquée, ou de toutes les zones. */
+  acknowledgeProcess(ackedBy: string, zoneId?: string): void;
   clearProcessAck(): void;
+  /**
+   * Coupe le signal local et, une fois sa durée minimale écoulée, le signal d'évacuation ;
+   * seules les alarmes présentes sont concernées.
+   */
   silenceAudibleAlarm(): void;
   startManualEvacuation(reason?: string): void;
   stopManualEvacuation(reason?: string): void;
   trySystemReset(): { ok: true } | { ok: false; reason: 'DM_NOT_RESET' };
+  cutMains(): void;
+  restoreMains(): void;
+  raiseFault(target: FaultTarget, metadata?: { label?: string }): FaultState | undefined;
+  acknowledgeFault(faultId?: string, ackedBy?: string): void;
+  clearFault(faultId: string): void;
+  /** Injecte une défaillance sur un DAS, révélée lors de sa prochaine manœuvre ou aussitôt. */
+  failDas(deviceId: string, mode: DasFailureMode): void;
+  /** Lève la défaillance d'un DAS et le dérangement de position associé. */
+  repairDas(deviceId: string): void;
+  /** Remet en attente les DAS (un seul, ou tous) qui ne sont plus commandés ; renvoie ceux-ci. */
+  rearmDas(deviceId?: string): string[];
+  pauseTimers(): void;
+  resumeTimers(): void;
 }
 
-export function createSsiDomain(initialConfig: DomainConfig): SsiDomain {
+export interface SsiDomainOptions {
+  /** Horloge partagée avec le moteur de scénarios ; temps réel à vitesse ×1 par défaut. */
+  clock?: SimulationClock;
+}
+
+export function createSsiDomain(
+  initialConfig: DomainConfig,
+  options: SsiDomainOptions = {},
+): SsiDomain {
+  const clock = options.clock ?? createSimulationClock();
   const emitter: DomainEmitter = new EventEmitter();
   const dmLatched = new Map<string, ManualCallPointState>();
   const daiActivated = new Map<string, AutomaticDetectorState>();
-  let cmsi: CmsiState = { status: 'IDLE' };
+  const faults = new Map<string, FaultState>();
+  let cmsi: CmsiPhase = { status: 'IDLE' };
   let ugaActive = false;
+  let ugaSilenceableAt: number | undefined;
   let localAudibleActive = false;
-  let dasApplied = false;
+  // Mise en sécurité générale (évacuation manuelle, batteries épuisées) ; sinon par ZD en alarme.
+  let dasAppliedEverywhere = false;
+  const dasAppliedZones = new Map<string, number>();
+  const evacuations = new Map<string, DetectionZoneEvacuation>();
+  const evacuationTimers = new Map<string, ClockTimer>();
+  const dasDevices = new Map<string, DasDeviceState>();
+  const dasTimers = new Map<string, ClockTimer>();
+  const detections = new Map<string, DetectionState>();
+  const detectionTimers = new Map<string, ClockTimer>();
   let manualEvacuation = false;
   let manualEvacuationReason: string | undefined;
   let processAck: ProcessAckState = { isAcked: false };
-  let timerHandle: TimerHandle;
-  let pendingEvacuation: { zoneId: string; deadline: number } | undefined;
+  let power: PowerState = {
+    status: 'MAINS',
+    mainsAvailable: true,
+    batteryLow: false,
+    batteryExhausted: false,
+  };
+  let batteryLowHandle: TimerHandle;
+  let batteryExhaustedHandle: TimerHandle;
+  let batteryLowThresholdMs = 0;
+  let timersPausedAt: number | undefined;
 
   let config: DomainConfig = { ...initialConfig };
 
-  const emitSnapshot = () => {
-    const snapshot: DomainSnapshot = {
-      cmsi,
+  // Les zones sont résolues à la lecture : une hiérarchie reçue après coup (topologie chargée
+  // après le rejeu du journal) s'applique aussitôt aux alarmes en cours.
+  const buildZoneStates = () => {
+    const hierarchy = config.zoneHierarchy;
+    const alarmZones: Record<string, AlarmZoneState> = {};
+    const safetyZones: Record<string, SafetyZoneState> = {};
+    const alarmZone = (zoneId: string) =>
+      (alarmZones[zoneId] ??= { zoneId, evacuating: false, manual: false, detectionZoneIds: [] });
+    const safetyZone = (zoneId: string) =>
+      (safetyZones[zoneId] ??= { zoneId, dasApplied: false, detectionZoneIds: [] });
+
+    for (const detectionZoneId of Object.keys(hierarchy ?? {})) {
+      alarmZone(resolveAlarmZoneId(hierarchy, detectionZoneId));
+      resolveSafetyZoneIds(hierarchy, detectionZoneId).forEach(safetyZone);
+    }
+    for (const evacuation of evacuations.values()) {
+      if (evacuation.status !== 'ACTIVE') {
+        continue;
+      }
+      const zone = alarmZone(resolveAlarmZoneId(hierarchy, evacuation.zoneId));
+      zone.evacuating = true;
+      zone.startedAt = Math.min(zone.startedAt ?? evacuation.startedAt, evacuation.startedAt);
+      zone.detectionZoneIds.push(evacuation.zoneId);
+    }
+    if (manualEvacuation && cmsi.status === 'EVAC_ACTIVE') {
+      for (const zone of Object.values(alarmZones)) {
+        zone.evacuating = true;
+        zone.manual = true;
+        zone.startedAt = Math.min(zone.startedAt ?? cmsi.startedAt, cmsi.startedAt);
+      }
+    }
+    for (const [detectionZoneId, appliedAt] of dasAppliedZones) {
+      for (const zoneId of resolveSafetyZoneIds(hierarchy, detectionZoneId)) {
+        const zone = safetyZone(zoneId);
+        zone.dasApplied = true;
+        zone.appliedAt = Math.min(zone.appliedAt ?? appliedAt, appliedAt);
+        zone.detectionZoneIds.push(detectionZoneId);
+      }
+    }
+    if (dasAppliedEverywhere) {
+      for (const zone of Object.values(safetyZones)) {
+        zone.dasApplied = true;
+      }
+    }
+    return { alarmZones, safetyZones };
+  };
+
+  const buildEvacuations = (alarmZones: Record<string, AlarmZoneState>) => {
+    const byAlarmZone = new Map<string, DetectionZoneEvacuation[]>();
+    for (const evacuation of evacuations.values()) {
+      const alarmZoneId = resolveAlarmZoneId(config.zoneHierarchy, evacuation.zoneId);
+      byAlarmZone.set(alarmZoneId, [...(byAlarmZone.get(alarmZoneId) ?? []), evacuation]);
+    }
+    const result: Record<string, ZoneEvacuationState> = {};
+    for (const [alarmZoneId, entries] of byAlarmZone) {
+      const detectionZoneIds = entries.map((entry) => entry.zoneId);
+      const active = entries.flatMap((entry) => (entry.status === 'ACTIVE' ? [entry] : []));
+      const pending = entries.flatMap((entry) => (entry.status === 'PENDING' ? [entry] : []));
+      const suspended = entries.flatMap((entry) => (entry.status === 'SUSPENDED' ? [entry] : []));
+      // Une zone d'alarme évacuée le reste, quelles que soient les temporisations de ses autres ZD.
+      result[alarmZoneId] =
+        active.length > 0
+          ? {
+              alarmZoneId,
+              status: 'ACTIVE',
+              detectionZoneIds,
+              startedAt: Math.min(...active.map((entry) => entry.startedAt)),
+            }
+          : pending.length > 0
+            ? {
+                alarmZoneId,
+                status: 'PENDING',
+                detectionZoneIds,
+                deadline: Math.min(...pending.map((entry) => entry.deadline)),
+              }
+            : {
+                alarmZoneId,
+                status: 'SUSPENDED',
+                detectionZoneIds,
+                deadline: Math.min(...suspended.map((entry) => entry.deadline)),
+                remainingMs: Math.min(...suspended.map((entry) => entry.remainingMs)),
+              };
+    }
+    for (const zone of Object.values(alarmZones)) {
+      if (zone.manual && !result[zone.zoneId]) {
+        result[zone.zoneId] = {
+          alarmZoneId: zone.zoneId,
+          status: 'ACTIVE',
+          detectionZoneIds: [],
+          startedAt: zone.startedAt,
+        };
+      }
+    }
+    return result;
+  };
+
+  const releaseDas = () => {
+    dasAppliedZones.clear();
+    dasAppliedEverywhere = false;
+  };
+
+  const clearEvacuationTimer = (zoneId: string) => {
+    const handle = evacuationTimers.get(zoneId);
+    if (handle) {
+      clock.clearTimeout(handle);
+      evacuationTimers.delete(zoneId);
+    }
+  };
+
+  const clearEvacuationTimers = () => {
+    for (const handle of evacuationTimers.values()) {
+      clock.clearTimeout(handle);
+    }
+    evacuationTimers.clear();
+  };
+
+  const clearZoneStates = () => {
+    clearEvacuationTimers();
+    evacuations.clear();
+    releaseDas();
+  };
+
+  /** Temporisation la plus proche de son échéance, toutes zones confondues. */
+  const nextPendingEvacuation = (): { zoneId: string; deadline: number } | undefined => {
+    let next: { zoneId: string; deadline: number } | undefined;
+    for (const evacuation of evacuations.values()) {
+      if (evacuation.status === 'PENDING' && (!next || evacuation.deadline < next.deadline)) {
+        next = { zoneId: evacuation.zoneId, deadline: evacuation.deadline };
+      }
+    }
+    return next;
+  };
+
+  /** Vue CMSI des temporisations restantes : la plus proche, sinon une suspension en cours. */
+  const remainingEvacuationPhase = (): CmsiPhase | undefined => {
+    const next = nextPendingEvacuation();
+    if (next) {
+      return { status: 'EVAC_PENDING', zoneId: next.zoneId, deadline: next.deadline };
+    }
+    const suspended = Array.from(evacuations.values()).find(
+      (evacuation) => evacuation.status === 'SUSPENDED',
+    );
+    return suspended?.status === 'SUSPENDED'
+      ? {
+          status: 'EVAC_SUSPENDED',
+          zoneId: suspended.zoneId,
+          deadline: suspended.deadline,
+          remainingMs: suspended.remainingMs,
+        }
+      : undefined;
+  };
+
+  /** Vue CMSI des détections non confirmées : reconnaissance la plus proche, sinon coïncidence. */
+  const detectionPhase = (): CmsiPhase | undefined => {
+    let verifying: Extract<DetectionState, { status: 'VERIFYING' }> | undefined;
+    let awaiting: DetectionState | undefined;
+    for (const detection of detections.values()) {
+      if (detection.status === 'VERIFYING') {
+        if (!verifying || detection.deadline < verifying.deadline) {
+          verifying = detection;
+        }
+      } else if (!awaiting || detection.startedAt < awaiting.startedAt) {
+        awaiting = detection;
+      }
+    }
+    if (verifying) {
+      const { zoneId, deadline } = verifying;
+      return { status: 'ALARM_VERIFICATION', zoneId, deadline };
+    }
+    return awaiting
+      ? { status: 'COINCIDENCE_PENDING', zoneId: awaiting.zoneId, startedAt: awaiting.startedAt }
+      : undefined;
+  };
+
+  /** Phase CMSI sans alarme feu ni évacuation active. */
+  const restingPhase = (): CmsiPhase =>
+    remainingEvacuationPhase() ?? detectionPhase() ?? { status: 'IDLE' };
+
+  /** Les détections non confirmées ne remplacent que la veille ou une autre détection. */
+  const refreshDetectionPhase = () => {
+    if (
+      cmsi.status === 'IDLE' ||
+      cmsi.status === 'COINCIDENCE_PENDING' ||
+      cmsi.status === 'ALARM_VERIFICATION'
+    ) {
+      cmsi = detectionPhase() ?? { status: 'IDLE' };
+    }
+  };
+
+  /** Une ZD en attente de confirmation ne compte pas dans l'alarme feu. */
+  const confirmedDaiEntries = () =>
+    Array.from(daiActivated.values()).filter((entry) => !detections.has(entry.zoneId));
+
+  const buildSnapshot = (): DomainSnapshot => {
+    const { alarmZones, safetyZones } = buildZoneStates();
+    return {
+      cmsi: {
+        ...cmsi,
+        evacuations: buildEvacuations(alarmZones),
+        detections: Object.fromEntries(
+          Array.from(detections.entries()).map(([zoneId, detection]) => [
+            zoneId,
+            { ...detection, deviceIds: [...detection.deviceIds] },
+          ]),
+        ),
+      },
       ugaActive,
+      ugaSilenceableAt,
       localAudibleActive,
-      dasApplied,
+      dasApplied: dasAppliedEverywhere || dasAppliedZones.size > 0,
+      alarmZones,
+      safetyZones,
+      dasDevices: Object.fromEntries(
+        Array.from(dasDevices.entries()).map(([deviceId, state]) => [deviceId, { ...state }]),
+      ),
       manualEvacuation,
       manualEvacuationReason,
       processAck: { ...processAck },
       dmLatched: Object.fromEntries(
         Array.from(dmLatched.entries()).map(([zoneId, state]) => [
           zoneId,
-          { ...state, activeDeviceIds: state.activeDeviceIds ? [...state.activeDeviceIds] : undefined },
+          {
+            ...state,
+            activeDeviceIds: state.activeDeviceIds ? [...state.activeDeviceIds] : undefined,
+          },
         ]),
       ),
       daiActivated: Object.fromEntries(
         Array.from(daiActivated.entries()).map(([zoneId, state]) => [
           zoneId,
-          { ...state, activeDeviceIds: state.activeDeviceIds ? [...state.activeDeviceIds] : undefined },
+          {
+            ...state,
+            activeDeviceIds: state.activeDeviceIds ? [...state.activeDeviceIds] : undefined,
+          },
         ]),
       ),
+      power: { ...power },
+      faults: Object.fromEntries(
+        Array.from(faults.entries()).map(([id, fault]) => [id, { ...fault }]),
+      ),
+      timersPausedAt,
     };
-    emitter.emit('state.update', snapshot);
+  };
+
+  const emitSnapshot = () => {
+    emitter.emit('state.update', buildSnapshot());
   };
 
   const log = (event: DomainLogEvent) => {
     emitter.emit('events.append', event);
   };
 
-  const clearTimer = () => {
-    if (timerHandle) {
-      clearTimeout(timerHandle);
-      timerHandle = undefined;
+  const clearPowerTimers = () => {
+    if (batteryLowHandle) {
+      clock.clearTimeout(batteryLowHandle);
+      batteryLowHandle = undefined;
+    }
+    if (batteryExhaustedHandle) {
+      clock.clearTimeout(batteryExhaustedHandle);
+      batteryExhaustedHandle = undefined;
     }
   };
 
-  const scheduleDeadline = (zoneId: string, delay: number) => {
-    clearTimer();
-    const deadline = Date.now() + delay;
-    pendingEvacuation = { zoneId, deadline };
-    cmsi = { status: 'EVAC_PENDING', zoneId, deadline };
+  const enterBatteryLow = () => {
+    batteryLowHandle = undefined;
+    if (power.mainsAvailable || power.batteryLow) {
+      return;
+    }
+    const now = clock.now();
+    power = { ...power, status: 'BATTERY_LOW', batteryLow: true, batteryLowAt: now };
     log({
-      ts: Date.now(),
-      source: 'CMSI',
-      message: 'Évacuation imminente',
-      details: { zoneId, deadline, event: 'EVAC_PENDING' },
+      ts: now,
+      source: 'POWER',
+      message: 'Défaut batterie basse',
+      details: {
+        autonomyDeadline: power.autonomyDeadline,
+        remainingMs: Math.max(0, (power.autonomyDeadline ?? now) - now),
+        event: 'BATTERY_LOW',
+      },
     });
     emitSnapshot();
+  };
 
-    timerHandle = setTimeout(() => {
-      timerHandle = undefined;
-      if (
-        !pendingEvacuation ||
-        pendingEvacuation.zoneId !== zoneId ||
-        pendingEvacuation.deadline !== deadline
-      ) {
+  const enterBatteryExhausted = () => {
+    batteryExhaustedHandle = undefined;
+    if (power.mainsAvailable || power.batteryExhausted) {
+      return;
+    }
+    const now = clock.now();
+    clearPowerTimers();
+    power = {
+      ...power,
+      status: 'EXHAUSTED',
+      batteryLow: true,
+      batteryLowAt: power.batteryLowAt ?? now,
+      batteryExhausted: true,
+      exhaustedAt: now,
+    };
+    // Les DAS à rupture de courant rejoignent leur position de sécurité sans alimentation.
+    dasAppliedEverywhere = true;
+    log({
+      ts: now,
+      source: 'POWER',
+      message: 'Batteries épuisées — SSI hors alimentation',
+      details: { event: 'BATTERY_EXHAUSTED' },
+    });
+    syncDasDevices();
+    emitSnapshot();
+  };
+
+  const armPowerTimers = () => {
+    clearPowerTimers();
+    if (
+      timersPausedAt !== undefined ||
+      power.mainsAvailable ||
+      power.batteryExhausted ||
+      power.autonomyDeadline == null
+    ) {
+      return;
+    }
+    const remainingMs = Math.max(0, power.autonomyDeadline - clock.now());
+    if (!power.batteryLow) {
+      batteryLowHandle = clock.setTimeout(
+        enterBatteryLow,
+        Math.max(0, remainingMs - batteryLowThresholdMs),
+      );
+    }
+    batteryExhaustedHandle = clock.setTimeout(enterBatteryExhausted, remainingMs);
+  };
+
+  const armEvacuationTimer = (zoneId: string) => {
+    clearEvacuationTimer(zoneId);
+    const evacuation = evacuations.get(zoneId);
+    if (timersPausedAt !== undefined || evacuation?.status !== 'PENDING') {
+      return;
+    }
+    const { deadline } = evacuation;
+    const handle = clock.setTimeout(() => {
+      evacuationTimers.delete(zoneId);
+      const current = evacuations.get(zoneId);
+      if (current?.status !== 'PENDING' || current.deadline !== deadline) {
         return;
       }
-      pendingEvacuation = undefined;
       enterEvacActive({ manual: false, zoneId });
-    }, delay);
+    }, Math.max(0, deadline - clock.now()));
+    evacuationTimers.set(zoneId, handle);
+  };
+
+  const armEvacuationTimers = () => {
+    for (const zoneId of evacuations.keys()) {
+      armEvacuationTimer(zoneId);
+    }
+  };
+
+  const recordFault = (id: string, target: FaultTarget, label?: string): FaultState => {
+    const now = clock.now();
+    const fault: FaultState = {
+      id,
+      kind: target.kind,
+      scope: target.deviceId?.trim() ? 'DEVICE' : 'ZONE',
+      deviceId: target.deviceId?.trim() || undefined,
+      zoneId: target.zoneId?.trim() || undefined,
+      label,
+      raisedAt: now,
+      acknowledged: false,
+    };
+    faults.set(id, fault);
+    localAudibleActive = true;
+    log({
+      ts: now,
+      source: 'FAULT',
+      message: 'Dérangement signalé',
+      details: {
+        faultId: id,
+        kind: fault.kind,
+        deviceId: fault.deviceId,
+        zoneId: fault.zoneId,
+        label: fault.label,
+        event: 'FAULT_RAISED',
+      },
+    });
+    return fault;
+  };
+
+  const dropFault = (faultId: string) => {
+    const fault = faults.get(faultId);
+    if (!fault) {
+      return false;
+    }
+    faults.delete(faultId);
+    log({
+      ts: clock.now(),
+      source: 'FAULT',
+      message: 'Dérangement disparu',
+      details: {
+        faultId,
+        kind: fault.kind,
+        deviceId: fault.deviceId,
+        zoneId: fault.zoneId,
+        event: 'FAULT_CLEARED',
+      },
+    });
+    return true;
+  };
+
+  const dasFeedbackTimeoutMs = () =>
+    Math.max(0, config.dasFeedbackTimeoutMs ?? DEFAULT_DAS_FEEDBACK_TIMEOUT_MS);
+
+  // Un DAS bloqué, ou plus lent que le délai de surveillance, n'atteint jamais sa fin de course.
+  const isDasBlocked = (device: DasDeviceState) =>
+    device.failure === 'STUCK' || device.travelTimeMs > dasFeedbackTimeoutMs();
+
+  const dasTravelDelayMs = (device: DasDeviceState) =>
+    isDasBlocked(device) ? dasFeedbackTimeoutMs() : device.travelTimeMs;
+
+  /** Un DAS suit la mise en sécurité de sa zone ; sans zone, toute mise en sécurité. */
+  const isDasCommanded = (
+    device: DasDeviceState,
+    safetyZones: Record<string, SafetyZoneState>,
+  ) =>
+    dasAppliedEverywhere ||
+    (device.zoneId ? Boolean(safetyZones[device.zoneId]?.dasApplied) : dasAppliedZones.size > 0);
+
+  const clearDasTimer = (deviceId: string) => {
+    const handle = dasTimers.get(deviceId);
+    if (handle) {
+      clock.clearTimeout(handle);
+      dasTimers.delete(deviceId);
+    }
+  };
+
+  const clearDasTimers = () => {
+    for (const handle of dasTimers.values()) {
+      clock.clearTimeout(handle);
+    }
+    dasTimers.clear();
+  };
+
+  const enterDasFault = (
+    device: DasDeviceState,
+    status: 'FEEDBACK_TIMEOUT' | 'FEEDBACK_FAULT',
+    now: number,
+  ) => {
+    clearDasTimer(device.deviceId);
+    dasDevices.set(device.deviceId, { ...device, status, deadline: undefined, faultAt: now });
+    log({
+      ts: now,
+      source: 'DAS',
+      message:
+        status === 'FEEDBACK_TIMEOUT'
+          ? 'DAS sans contrôle de position dans le délai'
+          : 'Défaut de position DAS',
+      details: {
+        deviceId: device.deviceId,
+        zoneId: device.zoneId,
+        event: status === 'FEEDBACK_TIMEOUT' ? 'DAS_FEEDBACK_TIMEOUT' : 'DAS_FEEDBACK_FAULT',
+      },
+    });
+    const target: FaultTarget = {
+      kind: 'DAS_FEEDBACK',
+      deviceId: device.deviceId,
+      zoneId: device.zoneId,
+    };
+    const faultId = faultIdFor(target);
+    if (faultId && !faults.has(faultId)) {
+      recordFault(faultId, target, 'Défaut de position DAS');
+    }
+  };
+
+  const completeDasTravel = (device: DasDeviceState) => {
+    const now = clock.now();
+    if (isDasBlocked(device)) {
+      enterDasFault(device, 'FEEDBACK_TIMEOUT', now);
+    } else {
+      dasDevices.set(device.deviceId, {
+        ...device,
+        status: 'SAFETY',
+        deadline: undefined,
+        safetyAt: now,
+      });
+      log({
+        ts: now,
+        source: 'DAS',
+        message: 'DAS en position de sécurité',
+        details: { deviceId: device.deviceId, zoneId: device.zoneId, event: 'DAS_IN_SAFETY' },
+      });
+    }
+    emitSnapshot();
+  };
+
+  const armDasTimer = (deviceId: string) => {
+    clearDasTimer(deviceId);
+    const device = dasDevices.get(deviceId);
+    if (timersPausedAt !== undefined || device?.status !== 'COMMANDED' || device.deadline == null) {
+      return;
+    }
+    const { deadline } = device;
+    const handle = clock.setTimeout(() => {
+      dasTimers.delete(deviceId);
+      const current = dasDevices.get(deviceId);
+      if (current?.status !== 'COMMANDED' || current.deadline !== deadline) {
+        return;
+      }
+      completeDasTravel(current);
+    }, Math.max(0, deadline - clock.now()));
+    dasTimers.set(deviceId, handle);
+  };
+
+  const armDasTimers = () => {
+    for (const deviceId of dasDevices.keys()) {
+      armDasTimer(deviceId);
+    }
+  };
+
+  const commandDas = (device: DasDeviceState, now: number) => {
+    // Comme pour l'évacuation différée, une commande reçue en pause part de l'instant de gel.
+    const deadline = (timersPausedAt ?? now) + dasTravelDelayMs(device);
+    dasDevices.set(device.deviceId, {
+      ...device,
+      status: 'COMMANDED',
+      commandedAt: now,
+      deadline,
+      safetyAt: undefined,
+      faultAt: undefined,
+    });
+    log({
+      ts: now,
+      source: 'DAS',
+      message: 'DAS commandé',
+      details: {
+        deviceId: device.deviceId,
+        zoneId: device.zoneId,
+        deadline,
+        event: 'DAS_COMMANDED',
+      },
+    });
+    armDasTimer(device.deviceId);
+  };
+
+  /** Aligne les DAS sur la configuration et commande ceux en attente dont la zone est commandée. */
+  const syncDasDevices = () => {
+    const now = clock.now();
+    const configured = config.dasDevices ?? {};
+    for (const deviceId of Array.from(dasDevices.keys())) {
+      if (!configured[deviceId]) {
+        clearDasTimer(deviceId);
+        dasDevices.delete(deviceId);
+      }
+    }
+    const { safetyZones } = buildZoneStates();
+    for (const [deviceId, deviceConfig] of Object.entries(configured)) {
+      const device: DasDeviceState = {
+        ...(dasDevices.get(deviceId) ?? { deviceId, status: 'WAITING' }),
+        zoneId: deviceConfig.zoneId,
+        travelTimeMs: Math.max(0, deviceConfig.travelTimeMs ?? DEFAULT_DAS_TRAVEL_TIME_MS),
+      };
+      dasDevices.set(deviceId, device);
+      if (device.status === 'WAITING' && isDasCommanded(device, safetyZones)) {
+        commandDas(device, now);
+      }
+    }
+  };
+
+  const scheduleDeadline = (zoneId: string, delay: number) => {
+    // Un nouveau DM dans une zone déjà temporisée, suspendue ou évacuée ne relance rien ;
+    // chaque zone garde sa propre échéance, indépendamment des autres.
+    if (evacuations.has(zoneId)) {
+      emitSnapshot();
+      return;
+    }
+    // En pause, l'échéance part de l'instant de gel pour rester cohérente à la reprise.
+    const deadline = (timersPausedAt ?? clock.now()) + delay;
+    evacuations.set(zoneId, { zoneId, status: 'PENDING', deadline });
+    if (cmsi.status !== 'EVAC_ACTIVE') {
+      cmsi = remainingEvacuationPhase() ?? cmsi;
+    }
+    log({
+      ts: clock.now(),
+      source: 'CMSI',
+      message: 'Évacuation imminente',
+      details: {
+        zoneId,
+        alarmZoneId: resolveAlarmZoneId(config.zoneHierarchy, zoneId),
+        deadline,
+        event: 'EVAC_PENDING',
+      },
+    });
+    emitSnapshot();
+    armEvacuationTimer(zoneId);
+  };
+
+  // La durée minimale court depuis le début de chaque diffusion, y compris après un arrêt.
+  const startUga = (now: number) => {
+    if (!ugaActive) {
+      const minSoundingMs = Math.max(0, config.ugaMinSoundingMs ?? DEFAULT_UGA_MIN_SOUNDING_MS);
+      ugaSilenceableAt = (timersPausedAt ?? now) + minSoundingMs;
+    }
+    ugaActive = true;
+  };
+
+  const stopUga = () => {
+    ugaActive = false;
+    ugaSilenceableAt = undefined;
+  };
+
+  /** Le signal local se tait seul lorsqu'il ne reste ni DM, ni DAI, ni évacuation en cours. */
+  const releaseLocalAudibleIfIdle = () => {
+    if (dmLatched.size === 0 && daiActivated.size === 0 && cmsi.status !== 'EVAC_ACTIVE') {
+      localAudibleActive = false;
+    }
   };
 
   const enterFireAlarm = ({
@@ -195,9 +1121,10 @@ export function createSsiDomain(initialConfig: DomainConfig): SsiDomain {
         ? cmsi.zoneId
         : undefined;
 
+    const daiEntries = confirmedDaiEntries();
     const zoneSet = new Set<string>();
-    for (const id of daiActivated.keys()) {
-      zoneSet.add(id);
+    for (const entry of daiEntries) {
+      zoneSet.add(entry.zoneId);
     }
     for (const id of dmLatched.keys()) {
       zoneSet.add(id);
@@ -214,7 +1141,6 @@ export function createSsiDomain(initialConfig: DomainConfig): SsiDomain {
       };
     }
 
-    const daiEntries = Array.from(daiActivated.values());
     const dmEntries = Array.from(dmLatched.values());
 
     const earliestDai = daiEntries.reduce(
@@ -237,9 +1163,7 @@ export function createSsiDomain(initialConfig: DomainConfig): SsiDomain {
         ? preferredZoneId
         : zoneIds[0];
 
-    const pendingInfo = pendingEvacuation
-      ? { zoneId: pendingEvacuation.zoneId, deadline: pendingEvacuation.deadline }
-      : undefined;
+    const pendingInfo = nextPendingEvacuation();
 
     const nextState: FireAlarmState = {
       status: 'FIRE_ALARM',
@@ -255,33 +1179,142 @@ export function createSsiDomain(initialConfig: DomainConfig): SsiDomain {
   };
 
   const enterEvacActive = ({ manual, zoneId }: { manual: boolean; zoneId?: string }) => {
-    clearTimer();
-    pendingEvacuation = undefined;
-    cmsi = { status: 'EVAC_ACTIVE', manual, startedAt: Date.now(), zoneId };
-    manualEvacuation = manual;
-    ugaActive = true;
+    const now = clock.now();
+    if (manual) {
+      // L'évacuation générale remplace les temporisations en cours.
+      for (const evacuation of Array.from(evacuations.values())) {
+        if (evacuation.status !== 'ACTIVE') {
+          clearEvacuationTimer(evacuation.zoneId);
+          evacuations.delete(evacuation.zoneId);
+        }
+      }
+    } else if (zoneId) {
+      clearEvacuationTimer(zoneId);
+      const current = evacuations.get(zoneId);
+      evacuations.set(zoneId, {
+        zoneId,
+        status: 'ACTIVE',
+        startedAt: current?.status === 'ACTIVE' ? current.startedAt : now,
+      });
+    }
+    // Une évacuation automatique d'une zone de plus ne remplace pas celle déjà en cours.
+    if (manual || cmsi.status !== 'EVAC_ACTIVE') {
+      cmsi = { status: 'EVAC_ACTIVE', manual, startedAt: now, zoneId };
+      manualEvacuation = manual;
+    }
+    startUga(now);
     localAudibleActive = true;
-    dasApplied = true;
+    // L'évacuation manuelle est générale ; l'alarme d'une ZD ne commande que ses ZA et ZS.
+    if (manual || !zoneId) {
+      dasAppliedEverywhere = true;
+    } else {
+      if (!dasAppliedZones.has(zoneId)) {
+        dasAppliedZones.set(zoneId, now);
+      }
+    }
+    const hierarchy = config.zoneHierarchy;
     log({
-      ts: Date.now(),
+      ts: now,
       source: manual ? 'MANUAL' : 'CMSI',
       message: manual ? 'Évacuation manuelle déclenchée' : 'Évacuation automatique en cours',
-      details: { manual, zoneId, event: manual ? 'MANUAL_EVAC_STARTED' : 'AUTOMATIC_EVAC_STARTED' },
+      details: {
+        manual,
+        zoneId,
+        alarmZoneId: zoneId && !manual ? resolveAlarmZoneId(hierarchy, zoneId) : undefined,
+        safetyZoneIds: zoneId && !manual ? resolveSafetyZoneIds(hierarchy, zoneId) : undefined,
+        reason: manual ? manualEvacuationReason : undefined,
+        event: manual ? 'MANUAL_EVAC_STARTED' : 'AUTOMATIC_EVAC_STARTED',
+      },
     });
+    syncDasDevices();
     emitSnapshot();
   };
 
+  /** Alarme feu, ou évacuation directe, d'une ZD dont la détection est confirmée. */
+  const raiseDaiAlarm = (zoneId: string, now: number) => {
+    if (config.evacOnDai) {
+      enterEvacActive({ manual: false, zoneId });
+    } else if (cmsi.status === 'EVAC_ACTIVE') {
+      // L'évacuation en cours reste affichée ; le détecteur ne fait que sonner le CMSI.
+      localAudibleActive = true;
+      emitSnapshot();
+    } else {
+      localAudibleActive = true;
+      const { alreadyFireAlarm, state } = enterFireAlarm({ preferredZoneId: zoneId, now });
+      if (!alreadyFireAlarm && state) {
+        log({
+          ts: now,
+          source: 'CMSI',
+          message: 'Alarme feu signalée',
+          details: { zoneIds: state.zoneIds, event: 'FIRE_ALARM_STARTED' },
+        });
+      }
+      emitSnapshot();
+    }
+  };
+
+  const clearDetectionTimer = (zoneId: string) => {
+    const handle = detectionTimers.get(zoneId);
+    if (handle) {
+      clock.clearTimeout(handle);
+      detectionTimers.delete(zoneId);
+    }
+  };
+
+  const clearDetectionTimers = () => {
+    for (const handle of detectionTimers.values()) {
+      clock.clearTimeout(handle);
+    }
+    detectionTimers.clear();
+  };
+
+  /** Retire la détection en attente d'une ZD ; vrai si elle existait. */
+  const dropDetection = (zoneId: string) => {
+    clearDetectionTimer(zoneId);
+    return detections.delete(zoneId);
+  };
+
+  const armDetectionTimer = (zoneId: string) => {
+    clearDetectionTimer(zoneId);
+    const detection = detections.get(zoneId);
+    if (timersPausedAt !== undefined || detection?.status !== 'VERIFYING') {
+      return;
+    }
+    const { deadline } = detection;
+    const handle = clock.setTimeout(() => {
+      detectionTimers.delete(zoneId);
+      const current = detections.get(zoneId);
+      if (current?.status !== 'VERIFYING' || current.deadline !== deadline) {
+        return;
+      }
+      const now = clock.now();
+      detections.delete(zoneId);
+      log({
+        ts: now,
+        source: 'CMSI',
+        message: 'Délai de reconnaissance écoulé sans levée de doute',
+        details: { zoneId, event: 'ALARM_VERIFICATION_EXPIRED' },
+      });
+      raiseDaiAlarm(zoneId, now);
+    }, Math.max(0, deadline - clock.now()));
+    detectionTimers.set(zoneId, handle);
+  };
+
+  const armDetectionTimers = () => {
+    for (const zoneId of detections.keys()) {
+      armDetectionTimer(zoneId);
+    }
+  };
+
   const enterSafeHold = () => {
-    clearTimer();
-    pendingEvacuation = undefined;
-    cmsi = { status: 'SAFE_HOLD', enteredAt: Date.now() };
+    cmsi = { status: 'SAFE_HOLD', enteredAt: clock.now() };
     manualEvacuation = false;
     manualEvacuationReason = undefined;
-    ugaActive = false;
+    stopUga();
     localAudibleActive = false;
-    dasApplied = false;
+    clearZoneStates();
     log({
-      ts: Date.now(),
+      ts: clock.now(),
       source: 'CMSI',
       message: 'Système en maintien de sécurité en attente de réarmement',
       details: { event: 'SAFE_HOLD' },
@@ -293,17 +1326,17 @@ export function createSsiDomain(initialConfig: DomainConfig): SsiDomain {
     if (dmLatched.size > 0) {
       return { ok: false as const, reason: 'DM_NOT_RESET' as const };
     }
-    clearTimer();
-    pendingEvacuation = undefined;
     cmsi = { status: 'IDLE' };
     manualEvacuation = false;
     manualEvacuationReason = undefined;
-    ugaActive = false;
+    stopUga();
     localAudibleActive = false;
-    dasApplied = false;
+    clearZoneStates();
     processAck = { isAcked: false };
+    clearDetectionTimers();
+    detections.clear();
     daiActivated.clear();
-    log({ ts: Date.now(), source: 'CMSI', message: 'Système réinitialisé à l\'état de veille', details: { event: 'SYSTEM_RESET' } });
+    log({ ts: clock.now(), source: 'CMSI', message: 'Système réinitialisé à l\'état de veille', details: { event: 'SYSTEM_RESET' } });
     emitSnapshot();
     return { ok: true as const };
   };
@@ -311,34 +1344,15 @@ export function createSsiDomain(initialConfig: DomainConfig): SsiDomain {
   const domain: SsiDomain = {
     emitter,
     get snapshot() {
-      return {
-        cmsi,
-        ugaActive,
-        dasApplied,
-        localAudibleActive,
-        manualEvacuation,
-        manualEvacuationReason,
-        processAck,
-        dmLatched: Object.fromEntries(
-          Array.from(dmLatched.entries()).map(([zoneId, state]) => [
-            zoneId,
-            { ...state, activeDeviceIds: state.activeDeviceIds ? [...state.activeDeviceIds] : undefined },
-          ]),
-        ),
-        daiActivated: Object.fromEntries(
-          Array.from(daiActivated.entries()).map(([zoneId, state]) => [
-            zoneId,
-            { ...state, activeDeviceIds: state.activeDeviceIds ? [...state.activeDeviceIds] : undefined },
-          ]),
-        ),
-      } as DomainSnapshot;
+      return buildSnapshot();
     },
     updateConfig(partial) {
       config = { ...config, ...partial };
+      syncDasDevices();
       emitSnapshot();
     },
     activateDm(zoneId, metadata) {
-      const now = Date.now();
+      const now = clock.now();
       const deviceId = metadata?.deviceId;
       const existing = dmLatched.get(zoneId);
       const activeDeviceIds = new Set<string>(
@@ -356,16 +1370,18 @@ export function createSsiDomain(initialConfig: DomainConfig): SsiDomain {
         activeDeviceIds: activeDeviceIds.size > 0 ? Array.from(activeDeviceIds) : undefined,
       };
       dmLatched.set(zoneId, state);
+      // Toute nouvelle alarme fait de nouveau sonner le CMSI, même après un arrêt du signal.
+      localAudibleActive = true;
       log({
         ts: now,
         source: 'SDI_DM',
         message: 'Déclencheur manuel maintenu',
-        details: { zoneId, event: 'DM_LATCHED' },
+        details: { zoneId, deviceId, event: 'DM_LATCHED' },
       });
       scheduleDeadline(zoneId, config.evacOnDmDelayMs);
     },
     activateDai(zoneId, metadata) {
-      const now = Date.now();
+      const now = clock.now();
       const deviceId = metadata?.deviceId;
       const existing = daiActivated.get(zoneId);
       const activeDeviceIds = new Set<string>(
@@ -387,30 +1403,86 @@ export function createSsiDomain(initialConfig: DomainConfig): SsiDomain {
         ts: now,
         source: 'SDI_DAI',
         message: 'Détecteur automatique déclenché',
-        details: { zoneId, event: 'DAI_TRIGGERED' },
+        details: { zoneId, deviceId, event: 'DAI_TRIGGERED' },
       });
-      if (config.evacOnDai) {
-        enterEvacActive({ manual: false, zoneId });
-      } else {
-        localAudibleActive = true;
-        const { alreadyFireAlarm, state } = enterFireAlarm({ preferredZoneId: zoneId, now });
-        if (!alreadyFireAlarm && state) {
-          log({
-            ts: now,
-            source: 'CMSI',
-            message: 'Alarme feu signalée',
-            details: { zoneIds: state.zoneIds, event: 'FIRE_ALARM_STARTED' },
-          });
+      const strategy = config.detectionStrategies?.[zoneId];
+      const pending = detections.get(zoneId);
+      // Une ZD déjà en alarme feu le reste : seule sa première détection attend une confirmation.
+      if (!strategy || strategy.kind === 'SINGLE' || (existing && !pending)) {
+        raiseDaiAlarm(zoneId, now);
+        return;
+      }
+      // Un détecteur sans identifiant est compté comme un détecteur distinct.
+      if (
+        pending &&
+        strategy.kind === 'DOUBLE_KNOCK' &&
+        (!deviceId || !pending.deviceIds.includes(deviceId))
+      ) {
+        dropDetection(zoneId);
+        log({
+          ts: now,
+          source: 'CMSI',
+          message: 'Coïncidence de deux détecteurs atteinte',
+          details: {
+            zoneId,
+            deviceIds: deviceId ? [...pending.deviceIds, deviceId] : pending.deviceIds,
+            event: 'COINCIDENCE_REACHED',
+          },
+        });
+        raiseDaiAlarm(zoneId, now);
+        return;
+      }
+      localAudibleActive = true;
+      if (pending) {
+        // Un nouveau détecteur pendant la reconnaissance ne raccourcit pas le délai.
+        if (deviceId && !pending.deviceIds.includes(deviceId)) {
+          detections.set(zoneId, { ...pending, deviceIds: [...pending.deviceIds, deviceId] });
         }
         emitSnapshot();
+        return;
+      }
+      const deviceIds = deviceId ? [deviceId] : [];
+      if (strategy.kind === 'DOUBLE_KNOCK') {
+        detections.set(zoneId, {
+          zoneId,
+          status: 'AWAITING_COINCIDENCE',
+          startedAt: now,
+          deviceIds,
+        });
+        log({
+          ts: now,
+          source: 'CMSI',
+          message: "Détection en attente d'un second détecteur",
+          details: { zoneId, deviceId, event: 'COINCIDENCE_PENDING' },
+        });
+      } else {
+        // Comme pour l'évacuation différée, une détection reçue en pause part de l'instant de gel.
+        const delayMs = Math.max(0, strategy.verificationDelayMs ?? DEFAULT_VERIFICATION_DELAY_MS);
+        const deadline = (timersPausedAt ?? now) + delayMs;
+        detections.set(zoneId, {
+          zoneId,
+          status: 'VERIFYING',
+          startedAt: now,
+          deviceIds,
+          deadline,
+        });
+        log({
+          ts: now,
+          source: 'CMSI',
+          message: 'Délai de reconnaissance engagé',
+          details: { zoneId, deviceId, deadline, event: 'ALARM_VERIFICATION_STARTED' },
+        });
+        armDetectionTimer(zoneId);
       }
+      refreshDetectionPhase();
+      emitSnapshot();
     },
     resetDm(zoneId) {
       const entry = dmLatched.get(zoneId);
       if (!entry) {
         return;
       }
-      const now = Date.now();
+      const now = clock.now();
       dmLatched.set(zoneId, {
         ...entry,
         isLatched: false,
@@ -418,34 +1490,39 @@ export function createSsiDomain(initialConfig: DomainConfig): SsiDomain {
         activeDeviceIds: [],
       });
       dmLatched.delete(zoneId);
-      if (pendingEvacuation?.zoneId === zoneId) {
-        pendingEvacuation = undefined;
-        clearTimer();
-        if (cmsi.status === 'EVAC_PENDING' || cmsi.status === 'EVAC_SUSPENDED') {
-          if (daiActivated.size > 0) {
-            const { alreadyFireAlarm, state } = enterFireAlarm({
-              preferredZoneId: cmsi.zoneId,
-              now,
+      const evacuation = evacuations.get(zoneId);
+      if (evacuation && evacuation.status !== 'ACTIVE') {
+        evacuations.delete(zoneId);
+        clearEvacuationTimer(zoneId);
+      }
+      if (cmsi.status === 'EVAC_PENDING' || cmsi.status === 'EVAC_SUSPENDED') {
+        const remainingPhase = remainingEvacuationPhase();
+        if (remainingPhase) {
+          cmsi = remainingPhase;
+        } else if (confirmedDaiEntries().length > 0) {
+          const { alreadyFireAlarm, state } = enterFireAlarm({
+            preferredZoneId: cmsi.zoneId,
+            now,
+          });
+          if (!alreadyFireAlarm && state) {
+            log({
+              ts: now,
+              source: 'CMSI',
+              message: 'Alarme feu signalée',
+              details: { zoneIds: state.zoneIds, event: 'FIRE_ALARM_STARTED' },
             });
-            if (!alreadyFireAlarm && state) {
-              log({
-                ts: now,
-                source: 'CMSI',
-                message: 'Alarme feu signalée',
-                details: { zoneIds: state.zoneIds, event: 'FIRE_ALARM_STARTED' },
-              });
-            }
-          } else {
-            cmsi = { status: 'IDLE' };
           }
+        } else {
+          cmsi = restingPhase();
         }
       } else if (cmsi.status === 'FIRE_ALARM') {
-        if (daiActivated.size > 0) {
+        if (confirmedDaiEntries().length > 0) {
           enterFireAlarm({ preferredZoneId: cmsi.zoneId, now });
         } else {
-          cmsi = { status: 'IDLE' };
+          cmsi = restingPhase();
         }
       }
+      releaseLocalAudibleIfIdle();
       log({ ts: now, source: 'SDI_DM', message: 'Déclencheur manuel réarmé', details: { zoneId, event: 'DM_RESET' } });
       emitSnapshot();
     },
@@ -454,7 +1531,7 @@ export function createSsiDomain(initialConfig: DomainConfig): SsiDomain {
       if (!entry) {
         return;
       }
-      const now = Date.now();
+      const now = clock.now();
       daiActivated.set(zoneId, {
         ...entry,
         isActive: false,
@@ -462,19 +1539,11 @@ export function createSsiDomain(initialConfig: DomainConfig): SsiDomain {
         activeDeviceIds: [],
       });
       daiActivated.delete(zoneId);
+      dropDetection(zoneId);
       log({ ts: now, source: 'SDI_DAI', message: 'Détecteur automatique réarmé', details: { zoneId, event: 'DAI_RESET' } });
-      if (daiActivated.size === 0) {
-        localAudibleActive = false;
+      if (confirmedDaiEntries().length === 0) {
         if (cmsi.status === 'FIRE_ALARM') {
-          if (pendingEvacuation) {
-            cmsi = {
-              status: 'EVAC_PENDING',
-              zoneId: pendingEvacuation.zoneId,
-              deadline: pendingEvacuation.deadline,
-            };
-          } else {
-            cmsi = { status: 'IDLE' };
-          }
+          cmsi = restingPhase();
           log({
             ts: now,
             source: 'CMSI',
@@ -485,35 +1554,88 @@ export function createSsiDomain(initialConfig: DomainConfig): SsiDomain {
       } else if (cmsi.status === 'FIRE_ALARM') {
         enterFireAlarm({ preferredZoneId: cmsi.zoneId, now });
       }
+      refreshDetectionPhase();
+      releaseLocalAudibleIfIdle();
+      emitSnapshot();
+    },
+    confirmDetection(zoneId, confirmedBy) {
+      if (!dropDetection(zoneId)) {
+        return false;
+      }
+      const now = clock.now();
+      log({
+        ts: now,
+        source: 'TRAINEE',
+        message: "Alarme feu confirmée par l'exploitant",
+        details: { zoneId, confirmedBy, event: 'DETECTION_CONFIRMED' },
+      });
+      raiseDaiAlarm(zoneId, now);
+      return true;
+    },
+    cancelDetection(zoneId, cancelledBy) {
+      if (!dropDetection(zoneId)) {
+        return false;
+      }
+      const now = clock.now();
+      daiActivated.delete(zoneId);
+      log({
+        ts: now,
+        source: 'TRAINEE',
+        message: 'Détection écartée après levée de doute',
+        details: { zoneId, cancelledBy, event: 'DETECTION_CANCELLED' },
+      });
+      refreshDetectionPhase();
+      releaseLocalAudibleIfIdle();
       emitSnapshot();
+      return true;
     },
-    acknowledgeProcess(ackedBy) {
-      const now = Date.now();
+    acknowledgeProcess(ackedBy, targetZoneId) {
+      const now = clock.now();
       processAck = { isAcked: true, ackedBy, ackedAt: now };
       log({
         ts: now,
         source: 'TRAINER',
         message: 'Accusé de réception reçu',
-        details: { ackedBy, event: 'PROCESS_ACK' },
+        details: { ackedBy, zoneId: targetZoneId, event: 'PROCESS_ACK' },
       });
-      if (cmsi.status === 'EVAC_PENDING' || (cmsi.status === 'FIRE_ALARM' && pendingEvacuation)) {
-        const zoneId = cmsi.status === 'EVAC_PENDING' ? cmsi.zoneId : pendingEvacuation!.zoneId;
-        const deadline = cmsi.status === 'EVAC_PENDING' ? cmsi.deadline : pendingEvacuation!.deadline;
-        const remainingMs = Math.max(0, deadline - now);
-        clearTimer();
-        pendingEvacuation = undefined;
-        cmsi = { status: 'EVAC_SUSPENDED', zoneId, deadline, remainingMs };
+      const hierarchy = config.zoneHierarchy;
+      const targets = Array.from(evacuations.values()).flatMap((evacuation) =>
+        evacuation.status === 'PENDING' &&
+        (!targetZoneId ||
+          evacuation.zoneId === targetZoneId ||
+          resolveAlarmZoneId(hierarchy, evacuation.zoneId) === targetZoneId)
+          ? [evacuation]
+          : [],
+      );
+      if (targets.length === 0) {
+        return;
+      }
+      for (const { zoneId, deadline } of targets) {
+        const remainingMs = Math.max(0, deadline - (timersPausedAt ?? now));
+        clearEvacuationTimer(zoneId);
+        evacuations.set(zoneId, { zoneId, status: 'SUSPENDED', deadline, remainingMs });
         log({
           ts: now,
           source: 'CMSI',
           message: 'Évacuation suspendue après accusé de réception',
-          details: { zoneId, remainingMs, event: 'EVAC_SUSPENDED' },
+          details: {
+            zoneId,
+            alarmZoneId: resolveAlarmZoneId(hierarchy, zoneId),
+            remainingMs,
+            event: 'EVAC_SUSPENDED',
+          },
         });
-        emitSnapshot();
       }
+      const next = nextPendingEvacuation();
+      if (cmsi.status === 'FIRE_ALARM' && next) {
+        cmsi = { ...cmsi, pendingEvacuation: next };
+      } else if (cmsi.status === 'FIRE_ALARM' || cmsi.status === 'EVAC_PENDING') {
+        cmsi = remainingEvacuationPhase() ?? cmsi;
+      }
+      emitSnapshot();
     },
     clearProcessAck() {
-      const now = Date.now();
+      const now = clock.now();
       processAck = { isAcked: false, clearedAt: now };
       log({ ts: now, source: 'TRAINER', message: 'Accusé de réception annulé', details: { event: 'PROCESS_ACK_CLEARED' } });
       emitSnapshot();
@@ -522,10 +1644,35 @@ export function createSsiDomain(initialConfig: DomainConfig): SsiDomain {
       if (!ugaActive && !localAudibleActive) {
         return;
       }
-      const now = Date.now();
-      ugaActive = false;
+      const now = clock.now();
+      // L'arrêt ne vaut que pour les alarmes présentes : une nouvelle alarme sonnera de nouveau.
+      const ugaHeld =
+        ugaActive && ugaSilenceableAt !== undefined && (timersPausedAt ?? now) < ugaSilenceableAt;
+      if (ugaHeld && !localAudibleActive) {
+        log({
+          ts: now,
+          source: 'TRAINEE',
+          message: "Arrêt du signal d'évacuation refusé avant la durée minimale de diffusion",
+          details: { silenceableAt: ugaSilenceableAt, event: 'AUDIBLE_SILENCE_REFUSED' },
+        });
+        return;
+      }
       localAudibleActive = false;
-      log({ ts: now, source: 'TRAINEE', message: 'Signal sonore coupé', details: { event: 'AUDIBLE_SILENCED' } });
+      if (!ugaHeld) {
+        stopUga();
+      }
+      log({
+        ts: now,
+        source: 'TRAINEE',
+        message: ugaHeld
+          ? "Signal sonore local coupé, signal d'évacuation maintenu"
+          : 'Signal sonore coupé',
+        details: {
+          ugaSilenced: !ugaHeld,
+          silenceableAt: ugaHeld ? ugaSilenceableAt : undefined,
+          event: 'AUDIBLE_SILENCED',
+        },
+      });
       emitSnapshot();
     },
     startManualEvacuation(reason) {
@@ -533,11 +1680,11 @@ export function createSsiDomain(initialConfig: DomainConfig): SsiDomain {
       enterEvacActive({ manual: true });
     },
     stopManualEvacuation(reason) {
-      const now = Date.now();
+      const now = clock.now();
       manualEvacuationReason = reason;
       manualEvacuation = false;
-      ugaActive = false;
-      dasApplied = false;
+      stopUga();
+      clearZoneStates();
       cmsi = { status: 'SAFE_HOLD', enteredAt: now };
       log({
         ts: now,
@@ -553,8 +1700,280 @@ export function createSsiDomain(initialConfig: DomainConfig): SsiDomain {
       }
       return tryResetToIdle();
     },
+    raiseFault(target, metadata) {
+      const id = faultIdFor(target);
+      if (!id) {
+        return undefined;
+      }
+      const existing = faults.get(id);
+      if (existing) {
+        return { ...existing };
+      }
+      const fault = recordFault(id, target, metadata?.label);
+      emitSnapshot();
+      return { ...fault };
+    },
+    acknowledgeFault(faultId, ackedBy) {
+      const targets = faultId
+        ? [faults.get(faultId)].filter((fault): fault is FaultState => Boolean(fault))
+        : Array.from(faults.values());
+      const pending = targets.filter((fault) => !fault.acknowledged);
+      if (pending.length === 0) {
+        return;
+      }
+      const now = clock.now();
+      for (const fault of pending) {
+        faults.set(fault.id, { ...fault, acknowledged: true, acknowledgedAt: now, acknowledgedBy: ackedBy });
+        log({
+          ts: now,
+          source: 'FAULT',
+          message: 'Dérangement acquitté',
+          details: {
+            faultId: fault.id,
+            kind: fault.kind,
+            zoneId: fault.zoneId,
+            ackedBy,
+            event: 'FAULT_ACKNOWLEDGED',
+          },
+        });
+      }
+      emitSnapshot();
+    },
+    clearFault(faultId) {
+      if (dropFault(faultId)) {
+        emitSnapshot();
+      }
+    },
+    failDas(deviceId, mode) {
+      const device = dasDevices.get(deviceId);
+      if (!device || device.failure === mode) {
+        return;
+      }
+      const now = clock.now();
+      const wasBlocked = isDasBlocked(device);
+      const failed: DasDeviceState = { ...device, failure: mode };
+      dasDevices.set(deviceId, failed);
+      log({
+        ts: now,
+        source: 'DAS',
+        message: 'Défaillance DAS injectée',
+        details: { deviceId, zoneId: device.zoneId, mode, event: 'DAS_FAILURE_INJECTED' },
+      });
+      if (mode === 'POSITION_LOST') {
+        enterDasFault(failed, 'FEEDBACK_FAULT', now);
+      } else if (failed.status === 'COMMANDED' && failed.deadline != null && !wasBlocked) {
+        // La manœuvre en cours n'aboutira pas : seule l'expiration du délai de surveillance reste.
+        dasDevices.set(deviceId, {
+          ...failed,
+          deadline: failed.deadline - failed.travelTimeMs + dasFeedbackTimeoutMs(),
+        });
+        armDasTimer(deviceId);
+      }
+      emitSnapshot();
+    },
+    repairDas(deviceId) {
+      const device = dasDevices.get(deviceId);
+      if (!device?.failure) {
+        return;
+      }
+      const now = clock.now();
+      const wasBlocked = isDasBlocked(device);
+      let repaired: DasDeviceState = { ...device, failure: undefined };
+      log({
+        ts: now,
+        source: 'DAS',
+        message: 'Défaillance DAS levée',
+        details: { deviceId, zoneId: device.zoneId, event: 'DAS_REPAIRED' },
+      });
+      if (repaired.status === 'COMMANDED' && repaired.deadline != null && wasBlocked) {
+        repaired = {
+          ...repaired,
+          deadline: repaired.deadline - dasFeedbackTimeoutMs() + dasTravelDelayMs(repaired),
+        };
+      }
+      dasDevices.set(deviceId, repaired);
+      const inFault =
+        repaired.status === 'FEEDBACK_TIMEOUT' || repaired.status === 'FEEDBACK_FAULT';
+      // Un DAS réparé alors que sa zone est toujours en sécurité reprend sa manœuvre.
+      if (inFault && isDasCommanded(repaired, buildZoneStates().safetyZones)) {
+        commandDas(repaired, now);
+      } else {
+        armDasTimer(deviceId);
+      }
+      const faultId = faultIdFor({ kind: 'DAS_FEEDBACK', deviceId });
+      if (faultId) {
+        dropFault(faultId);
+      }
+      emitSnapshot();
+    },
+    rearmDas(deviceId) {
+      const { safetyZones } = buildZoneStates();
+      const candidates = deviceId
+        ? [dasDevices.get(deviceId)].flatMap((device) => (device ? [device] : []))
+        : Array.from(dasDevices.values());
+      // Un DAS encore commandé, en manœuvre ou défaillant ne peut pas revenir en attente.
+      const rearmed = candidates.filter(
+        (device) =>
+          device.status !== 'WAITING' &&
+          device.status !== 'COMMANDED' &&
+          !device.failure &&
+          !isDasCommanded(device, safetyZones),
+      );
+      if (rearmed.length === 0) {
+        return [];
+      }
+      for (const device of rearmed) {
+        clearDasTimer(device.deviceId);
+        dasDevices.set(device.deviceId, {
+          deviceId: device.deviceId,
+          zoneId: device.zoneId,
+          status: 'WAITING',
+          travelTimeMs: device.travelTimeMs,
+        });
+      }
+      const deviceIds = rearmed.map((device) => device.deviceId);
+      log({
+        ts: clock.now(),
+        source: 'DAS',
+        message: deviceId ? 'DAS réarmé' : 'DAS réarmés',
+        details: { deviceId, deviceIds, event: 'DAS_REARMED' },
+      });
+      emitSnapshot();
+      return deviceIds;
+    },
+    pauseTimers() {
+      if (timersPausedAt !== undefined) {
+        return;
+      }
+      const now = clock.now();
+      timersPausedAt = now;
+      clearEvacuationTimers();
+      clearDasTimers();
+      clearDetectionTimers();
+      clearPowerTimers();
+      log({
+        ts: now,
+        source: 'TRAINER',
+        message: 'Temporisations gelées',
+        details: { pendingEvacuation: nextPendingEvacuation(), event: 'TIMERS_PAUSED' },
+      });
+      emitSnapshot();
+    },
+    resumeTimers() {
+      if (timersPausedAt === undefined) {
+        return;
+      }
+      const now = clock.now();
+      const frozenMs = Math.max(0, now - timersPausedAt);
+      timersPausedAt = undefined;
+      for (const evacuation of Array.from(evacuations.values())) {
+        if (evacuation.status === 'PENDING') {
+          evacuations.set(evacuation.zoneId, {
+            ...evacuation,
+            deadline: evacuation.deadline + frozenMs,
+          });
+        }
+      }
+      for (const device of Array.from(dasDevices.values())) {
+        if (device.status === 'COMMANDED' && device.deadline != null) {
+          dasDevices.set(device.deviceId, { ...device, deadline: device.deadline + frozenMs });
+        }
+      }
+      for (const detection of Array.from(detections.values())) {
+        if (detection.status === 'VERIFYING') {
+          detections.set(detection.zoneId, {
+            ...detection,
+            deadline: detection.deadline + frozenMs,
+          });
+        }
+      }
+      if (ugaSilenceableAt !== undefined) {
+        ugaSilenceableAt += frozenMs;
+      }
+      const next = nextPendingEvacuation();
+      if (next && cmsi.status === 'EVAC_PENDING') {
+        cmsi = { status: 'EVAC_PENDING', zoneId: next.zoneId, deadline: next.deadline };
+      } else if (next && cmsi.status === 'FIRE_ALARM') {
+        cmsi = { ...cmsi, pendingEvacuation: next };
+      }
+      refreshDetectionPhase();
+      if (!power.mainsAvailable && power.autonomyDeadline != null && !power.batteryExhausted) {
+        power = { ...power, autonomyDeadline: power.autonomyDeadline + frozenMs };
+      }
+      log({
+        ts: now,
+        source: 'TRAINER',
+        message: 'Temporisations relancées',
+        details: { frozenMs, event: 'TIMERS_RESUMED' },
+      });
+      armEvacuationTimers();
+      armDasTimers();
+      armDetectionTimers();
+      armPowerTimers();
+      emitSnapshot();
+    },
+    cutMains() {
+      if (!power.mainsAvailable) {
+        return;
+      }
+      const now = clock.now();
+      const autonomyMs = Math.max(0, config.batteryAutonomyMs ?? DEFAULT_BATTERY_AUTONOMY_MS);
+      const lowThresholdMs = Math.max(
+        0,
+        Math.min(autonomyMs, config.batteryLowThresholdMs ?? DEFAULT_BATTERY_LOW_THRESHOLD_MS),
+      );
+      const autonomyDeadline = (timersPausedAt ?? now) + autonomyMs;
+      batteryLowThresholdMs = lowThresholdMs;
+      power = {
+        status: 'BATTERY',
+        mainsAvailable: false,
+        batteryLow: false,
+        batteryExhausted: false,
+        mainsLostAt: now,
+        mainsRestoredAt: power.mainsRestoredAt,
+        autonomyDeadline,
+      };
+      log({
+        ts: now,
+        source: 'POWER',
+        message: 'Perte secteur — fonctionnement sur batteries',
+        details: { autonomyMs, autonomyDeadline, event: 'MAINS_LOST' },
+      });
+      emitSnapshot();
+      armPowerTimers();
+    },
+    restoreMains() {
+      if (power.mainsAvailable) {
+        return;
+      }
+      const now = clock.now();
+      const wasExhausted = power.batteryExhausted;
+      clearPowerTimers();
+      power = {
+        status: 'MAINS',
+        mainsAvailable: true,
+        batteryLow: false,
+        batteryExhausted: false,
+        mainsRestoredAt: now,
+      };
+      if (wasExhausted) {
+        if (cmsi.status === 'EVAC_ACTIVE') {
+          dasAppliedEverywhere = cmsi.manual;
+        } else {
+          releaseDas();
+        }
+      }
+      log({
+        ts: now,
+        source: 'POWER',
+        message: 'Secteur rétabli',
+        details: { wasExhausted, event: 'MAINS_RESTORED' },
+      });
+      emitSnapshot();
+    },
   };
 
+  syncDasDevices();
   emitSnapshot();
 
   return domain;
@@ -0,0 +1,138 @@
+import type { DasFailureMode, FaultKind, SsiDomain } from './index';
+
+/** Événement tel que persisté dans le journal : seuls les détails (`details.event`…) sont relus. */
+export interface LoggedDomainEvent {
+  details?: Record<string, unknown> | null;
+}
+
+const FAULT_KINDS: readonly FaultKind[] = ['LINE_OPEN', 'LINE_SHORT', 'DAS_FEEDBACK', 'UGA_LINE', 'OTHER'];
+const DAS_FAILURE_MODES: readonly DasFailureMode[] = ['STUCK', 'POSITION_LOST'];
+
+function readString(details: Record<string, unknown>, key: string): string | undefined {
+  const value = details[key];
+  return typeof value === 'string' && value.trim().length > 0 ? value : undefined;
+}
+
+/**
+ * Rejoue sur `domain` la commande à l'origine d'un événement journalisé (déclenchement,
+ * acquit, réarmement, coupure secteur…). Les événements dérivés — alarme feu, évacuation
+ * différée, batterie basse — sont reproduits par le domaine lui-même et sont ignorés.
+ * Renvoie `true` lorsqu'une commande a été appliquée.
+ */
+export function applyLoggedEvent(domain: SsiDomain, event: LoggedDomainEvent): boolean {
+  const details = event.details;
+  if (!details) {
+    return false;
+  }
+  const code = readString(details, 'event');
+  const zoneId = readString(details, 'zoneId');
+  switch (code) {
+    case 'DM_LATCHED':
+      if (!zoneId) {
+        return false;
+      }
+      domain.activateDm(zoneId, { deviceId: readString(details, 'deviceId') });
+      return true;
+    case 'DM_RESET':
+      if (!zoneId) {
+        return false;
+      }
+      domain.resetDm(zoneId);
+      return true;
+    case 'DAI_TRIGGERED':
+      if (!zoneId) {
+        return false;
+      }
+      domain.activateDai(zoneId, { deviceId: readString(details, 'deviceId') });
+      return true;
+    case 'DAI_RESET':
+      if (!zoneId) {
+        return false;
+      }
+      domain.resetDai(zoneId);
+      return true;
+    case 'DETECTION_CONFIRMED':
+      return zoneId ? domain.confirmDetection(zoneId, readString(details, 'confirmedBy')) : false;
+    case 'DETECTION_CANCELLED':
+      return zoneId ? domain.cancelDetection(zoneId, readString(details, 'cancelledBy')) : false;
+    case 'PROCESS_ACK':
+      domain.acknowledgeProcess(readString(details, 'ackedBy') ?? 'trainee', zoneId);
+      return true;
+    case 'PROCESS_ACK_CLEARED':
+      domain.clearProcessAck();
+      return true;
+    case 'AUDIBLE_SILENCED':
+      domain.silenceAudibleAlarm();
+      return true;
+    case 'MANUAL_EVAC_STARTED':
+      domain.startManualEvacuation(readString(details, 'reason'));
+      return true;
+    case 'MANUAL_EVAC_STOPPED':
+      domain.stopManualEvacuation(readString(details, 'reason'));
+      return true;
+    case 'SYSTEM_RESET':
+      return domain.trySystemReset().ok;
+    case 'MAINS_LOST':
+      domain.cutMains();
+      return true;
+    case 'MAINS_RESTORED':
+      domain.restoreMains();
+      return true;
+    case 'FAULT_RAISED': {
+      const kind = readString(details, 'kind') as FaultKind | undefined;
+      if (!kind || !FAULT_KINDS.includes(kind)) {
+        return false;
+      }
+      return Boolean(
+        domain.raiseFault(
+          { kind, zoneId, deviceId: readString(details, 'deviceId') },
+          { label: readString(details, 'label') },
+        ),
+      );
+    }
+    case 'FAULT_ACKNOWLEDGED': {
+      const faultId = readString(details, 'faultId');
+      if (!faultId) {
+        return false;
+      }
+      domain.acknowledgeFault(faultId, readString(details, 'ackedBy'));
+      return true;
+    }
+    case 'FAULT_CLEARED': {
+      const faultId = readString(details, 'faultId');
+      if (!faultId) {
+        return false;
+      }
+      domain.clearFault(faultId);
+      return true;
+    }
+    case 'DAS_FAILURE_INJECTED': {
+      const deviceId = readString(details, 'deviceId');
+      const mode = readString(details, 'mode') as DasFailureMode | undefined;
+      if (!deviceId || !mode || !DAS_FAILURE_MODES.includes(mode)) {
+        return false;
+      }
+      domain.failDas(deviceId, mode);
+      return true;
+    }
+    case 'DAS_REPAIRED': {
+      const deviceId = readString(details, 'deviceId');
+      if (!deviceId) {
+        return false;
+      }
+      domain.repairDas(deviceId);
+      return true;
+    }
+    case 'DAS_REARMED':
+      domain.rearmDas(readString(details, 'deviceId'));
+      return true;
+    case 'TIMERS_PAUSED':
+      domain.pauseTimers();
+      return true;
+    case 'TIMERS_RESUMED':
+      domain.resumeTimers();
+      return true;
+    default:
+      return false;
+  }
+}
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { defaultRules, evaluateScore } from '../index';
+import { attributeActions, defaultRubric, defaultRules, evaluateRubric, evaluateScore } from '../index';
 
 describe('scoring', () => {
   it('computes score with default rules', () => {
@@ -12,4 +12,66 @@ describe('scoring', () => {
     );
     expect(score).toBeGreaterThan(0);
   });
+
+  it('rates reaction times linearly between target and maximum', () => {
+    const breakdown = evaluateRubric(
+      [
+        { id: '1', ts: 0, type: 'DM_LATCHED', zoneId: 'ZF1' },
+        { id: '2', ts: 75_000, type: 'PROCESS_ACK' },
+      ],
+      {
+        id: 'ack',
+        name: 'Acquit',
+        rules: [
+          {
+            id: 'ack-after-dm',
+            kind: 'REACTION_TIME',
+            description: 'Acquit',
+            weight: 1,
+            trigger: 'DM_LATCHED',
+            response: 'PROCESS_ACK',
+            targetMs: 30_000,
+            maxMs: 120_000,
+          },
+        ],
+      },
+    );
+    expect(breakdown.value).toBe(50);
+    expect(breakdown.rules[0]).toMatchObject({ score: 0.5, delaysMs: [75_000] });
+  });
+
+  it('applies ordering constraints and penalties, ignoring rules that do not apply', () => {
+    const breakdown = evaluateRubric(
+      [
+        { id: '1', ts: 0, type: 'FIRE_ALARM_STARTED' },
+        { id: '2', ts: 5_000, type: 'system-reset-rejected' },
+        { id: '3', ts: 10_000, type: 'SYSTEM_RESET' },
+        { id: '4', ts: 20_000, type: 'PROCESS_ACK' },
+      ],
+      defaultRubric,
+    );
+    const byId = Object.fromEntries(breakdown.rules.map((rule) => [rule.id, rule]));
+    expect(byId['ack-after-dm'].score).toBeNull();
+    expect(byId['silence-after-alarm']).toMatchObject({ score: 0, delaysMs: [null] });
+    expect(byId['reset-after-alarm'].score).toBe(1);
+    expect(byId['ack-before-reset']).toMatchObject({ score: 0, violations: 1 });
+    expect(byId['rejected-reset']).toMatchObject({ score: 0.5, violations: 1 });
+    expect(breakdown.value).toBe(25);
+  });
+
+  it('attributes responses and faults to the trainees who performed them', () => {
+    const contributions = attributeActions(
+      [
+        { id: '1', ts: 0, type: 'DM_LATCHED', zoneId: 'ZF1' },
+        { id: '2', ts: 5_000, type: 'system-reset-rejected', actorId: 'bob' },
+        { id: '3', ts: 10_000, type: 'PROCESS_ACK', actorId: 'alice' },
+        { id: '4', ts: 15_000, type: 'AUDIBLE_SILENCED', actorId: 'bob' },
+      ],
+      defaultRubric,
+    );
+    expect(contributions).toEqual([
+      { actorId: 'bob', actionCount: 2, responseCount: 0, violationCount: 1 },
+      { actorId: 'alice', actionCount: 1, responseCount: 1, violationCount: 0 },
+    ]);
+  });
 });
@@ -1,43 +1,332 @@
 import { z } from 'zod';
 
+/**
+ * Événement de session tel que vu par le moteur de notation : code d'événement du domaine
+ * (`DM_LATCHED`, `PROCESS_ACK`…) ou action enregistrée par le serveur (`system-reset-rejected`…).
+ */
 export const scoringEventSchema = z.object({
   id: z.string(),
   ts: z.number(),
-  type: z.enum(['DM_LATCHED', 'PROCESS_ACK', 'MANUAL_EVAC_START', 'MANUAL_EVAC_STOP', 'RESET']),
+  type: z.string().min(1),
+  source: z.string().optional(),
+  zoneId: z.string().optional(),
+  /** Utilisateur à l'origine de l'événement, lorsque le poste l'a identifié. */
+  actorId: z.string().optional(),
   payload: z.record(z.any()).optional(),
 });
 
 export type ScoringEvent = z.infer<typeof scoringEventSchema>;
 
+const scoringRuleBaseSchema = z.object({
+  id: z.string().min(1),
+  description: z.string().min(1),
+  weight: z.number().positive(),
+  /** Retour affiché au stagiaire lorsque le critère n'est pas pleinement atteint. */
+  feedback: z.string().optional(),
+});
+
+export const scoringRuleDefinitionSchema = z.discriminatedUnion('kind', [
+  /** Délai entre un déclencheur et la première réponse qui le suit (note linéaire entre cible et maximum). */
+  scoringRuleBaseSchema.extend({
+    kind: z.literal('REACTION_TIME'),
+    trigger: z.string().min(1),
+    response: z.string().min(1),
+    targetMs: z.number().min(0),
+    maxMs: z.number().positive(),
+    /** La réponse doit concerner la même zone que le déclencheur (ex. réarmement du DM déclenché). */
+    sameZone: z.boolean().optional(),
+  }),
+  /** Chaque occurrence de `then` doit être précédée d'au moins une occurrence de `first`. */
+  scoringRuleBaseSchema.extend({
+    kind: z.literal('ORDER'),
+    first: z.string().min(1),
+    then: z.string().min(1),
+  }),
+  /** Action à proscrire : chaque occurrence retire `penalty` à la note de la règle. */
+  scoringRuleBaseSchema.extend({
+    kind: z.literal('PENALTY'),
+    event: z.string().min(1),
+    source: z.string().min(1).optional(),
+    penalty: z.number().positive().max(1),
+  }),
+]);
+
+export type ScoringRuleDefinition = z.infer<typeof scoringRuleDefinitionSchema>;
+
+export const scoringRubricSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  rules: z.array(scoringRuleDefinitionSchema).min(1),
+});
+
+export type ScoringRubric = z.infer<typeof scoringRubricSchema>;
+
 export interface ScoringRule {
   id: string;
   description: string;
   weight: number;
-  evaluate(events: ScoringEvent[]): number;
+  /** Note entre 0 et 1, ou `null` lorsque la règle ne s'applique pas à la session. */
+  evaluate(events: ScoringEvent[]): number | null;
+}
+
+/** Critère de la grille accompagné de son évaluation sur la session. */
+export type ScoringRuleResult = ScoringRuleDefinition & {
+  score: number | null;
+  /** Délais mesurés (ms) pour les règles de temps de réaction ; `null` lorsque la réponse manque. */
+  delaysMs?: Array<number | null>;
+  /** Nombre d'occurrences fautives (ordre non respecté, action pénalisée). */
+  violations?: number;
+};
+
+export interface ScoreBreakdown {
+  rubricId: string;
+  rubricName: string;
+  /** Note globale sur 100, pondérée sur les seules règles applicables. */
+  value: number;
+  rules: ScoringRuleResult[];
+}
+
+/** Part d'un participant dans les actions évaluées par la grille. */
+export interface ActorContribution {
+  actorId: string;
+  /** Nombre d'événements attribués au participant. */
+  actionCount: number;
+  /** Réponses du participant retenues par les règles de temps de réaction. */
+  responseCount: number;
+  /** Occurrences fautives (ordre non respecté, action pénalisée) imputées au participant. */
+  violationCount: number;
 }
 
 export function evaluateScore(events: ScoringEvent[], rules: ScoringRule[]) {
-  const validated = events.map((event) => scoringEventSchema.parse(event));
-  const totalWeight = rules.reduce((acc, rule) => acc + rule.weight, 0) || 1;
-  const rawScore = rules.reduce((acc, rule) => acc + rule.evaluate(validated) * rule.weight, 0);
-  return rawScore / totalWeight;
-}
-
-export const defaultRules: ScoringRule[] = [
-  {
-    id: 'ack-before-deadline',
-    description: 'Process acknowledgement provided before deadline',
-    weight: 2,
-    evaluate(events) {
-      return events.some((event) => event.type === 'PROCESS_ACK') ? 1 : 0;
+  const validated = sortEvents(events.map((event) => scoringEventSchema.parse(event)));
+  let totalWeight = 0;
+  let rawScore = 0;
+  for (const rule of rules) {
+    const score = rule.evaluate(validated);
+    if (score === null) {
+      continue;
+    }
+    totalWeight += rule.weight;
+    rawScore += score * rule.weight;
+  }
+  return totalWeight > 0 ? rawScore / totalWeight : 1;
+}
+
+export function evaluateRubric(events: ScoringEvent[], rubric: ScoringRubric): ScoreBreakdown {
+  const validated = sortEvents(events.map((event) => scoringEventSchema.parse(event)));
+  const results = rubric.rules.map((definition) => evaluateRule(definition, validated));
+  let totalWeight = 0;
+  let rawScore = 0;
+  for (const result of results) {
+    if (result.score === null) {
+      continue;
+    }
+    totalWeight += result.weight;
+    rawScore += result.score * result.weight;
+  }
+  const ratio = totalWeight > 0 ? rawScore / totalWeight : 1;
+  return {
+    rubricId: rubric.id,
+    rubricName: rubric.name,
+    value: Math.round(ratio * 1000) / 10,
+    rules: results,
+  };
+}
+
+/**
+ * Répartit les actions d'une session entre les participants identifiés, dans l'ordre de leur
+ * première action : réponses retenues par la grille et fautes commises par chacun.
+ */
+export function attributeActions(events: ScoringEvent[], rubric: ScoringRubric): ActorContribution[] {
+  const validated = sortEvents(events.map((event) => scoringEventSchema.parse(event)));
+  const contributions = new Map<string, ActorContribution>();
+  const contributionOf = (actorId: string) => {
+    const existing = contributions.get(actorId);
+    if (existing) {
+      return existing;
+    }
+    const created = { actorId, actionCount: 0, responseCount: 0, violationCount: 0 };
+    contributions.set(actorId, created);
+    return created;
+  };
+  for (const event of validated) {
+    if (event.actorId) {
+      contributionOf(event.actorId).actionCount += 1;
+    }
+  }
+  for (const definition of rubric.rules) {
+    switch (definition.kind) {
+      case 'REACTION_TIME':
+        for (const trigger of validated.filter((event) => event.type === definition.trigger)) {
+          const response = findResponse(definition, trigger, validated);
+          if (response?.actorId) {
+            contributionOf(response.actorId).responseCount += 1;
+          }
+        }
+        break;
+      case 'ORDER':
+        for (const occurrence of validated.filter((event) => isOutOfOrder(definition, event, validated))) {
+          if (occurrence.actorId) {
+            contributionOf(occurrence.actorId).violationCount += 1;
+          }
+        }
+        break;
+      case 'PENALTY':
+        for (const violation of validated.filter((event) => isPenalized(definition, event))) {
+          if (violation.actorId) {
+            contributionOf(violation.actorId).violationCount += 1;
+          }
+        }
+        break;
+    }
+  }
+  return [...contributions.values()];
+}
+
+export function compileRubric(rubric: ScoringRubric): ScoringRule[] {
+  return rubric.rules.map((definition) => ({
+    id: definition.id,
+    description: definition.description,
+    weight: definition.weight,
+    evaluate: (events) => evaluateRule(definition, sortEvents(events)).score,
+  }));
+}
+
+function evaluateRule(definition: ScoringRuleDefinition, events: ScoringEvent[]): ScoringRuleResult {
+  switch (definition.kind) {
+    case 'REACTION_TIME': {
+      const delaysMs = events
+        .filter((event) => event.type === definition.trigger)
+        .map((trigger) => {
+          const response = findResponse(definition, trigger, events);
+          return response ? response.ts - trigger.ts : null;
+        });
+      if (delaysMs.length === 0) {
+        return { ...definition, score: null, delaysMs };
+      }
+      const total = delaysMs.reduce<number>(
+        (acc, delay) => acc + rateDelay(delay, definition.targetMs, definition.maxMs),
+        0,
+      );
+      return { ...definition, score: total / delaysMs.length, delaysMs };
+    }
+    case 'ORDER': {
+      const occurrences = events.filter((event) => event.type === definition.then);
+      if (occurrences.length === 0) {
+        return { ...definition, score: null, violations: 0 };
+      }
+      const violations = occurrences.filter((occurrence) => isOutOfOrder(definition, occurrence, events)).length;
+      return { ...definition, score: 1 - violations / occurrences.length, violations };
+    }
+    case 'PENALTY': {
+      const violations = events.filter((event) => isPenalized(definition, event)).length;
+      return { ...definition, score: Math.max(0, 1 - violations * definition.penalty), violations };
+    }
+  }
+}
+
+type RuleOfKind<K extends ScoringRuleDefinition['kind']> = Extract<ScoringRuleDefinition, { kind: K }>;
+
+function findResponse(
+  definition: RuleOfKind<'REACTION_TIME'>,
+  trigger: ScoringEvent,
+  events: ScoringEvent[],
+): ScoringEvent | undefined {
+  return events.find(
+    (event) =>
+      event.type === definition.response &&
+      event.ts >= trigger.ts &&
+      (!definition.sameZone || event.zoneId === trigger.zoneId),
+  );
+}
+
+function isOutOfOrder(definition: RuleOfKind<'ORDER'>, occurrence: ScoringEvent, events: ScoringEvent[]): boolean {
+  return (
+    occurrence.type === definition.then &&
+    !events.some((event) => event.type === definition.first && event.ts <= occurrence.ts)
+  );
+}
+
+function isPenalized(definition: RuleOfKind<'PENALTY'>, event: ScoringEvent): boolean {
+  return event.type === definition.event && (!definition.source || event.source === definition.source);
+}
+
+function rateDelay(delayMs: number | null, targetMs: number, maxMs: number): number {
+  if (delayMs === null || delayMs >= maxMs) {
+    return 0;
+  }
+  if (delayMs <= targetMs) {
+    return 1;
+  }
+  return (maxMs - delayMs) / (maxMs - targetMs);
+}
+
+function sortEvents(events: ScoringEvent[]): ScoringEvent[] {
+  return [...events].sort((a, b) => a.ts - b.ts);
+}
+
+export const defaultRubric: ScoringRubric = {
+  id: 'default',
+  name: 'Grille standard CMSI',
+  rules: [
+    {
+      id: 'ack-after-dm',
+      kind: 'REACTION_TIME',
+      description: 'Acquit process après déclenchement du DM',
+      weight: 3,
+      trigger: 'DM_LATCHED',
+      response: 'PROCESS_ACK',
+      targetMs: 30_000,
+      maxMs: 120_000,
+    },
+    {
+      id: 'silence-after-alarm',
+      kind: 'REACTION_TIME',
+      description: "Arrêt du signal sonore après l'alarme feu",
+      weight: 2,
+      trigger: 'FIRE_ALARM_STARTED',
+      response: 'AUDIBLE_SILENCED',
+      targetMs: 20_000,
+      maxMs: 90_000,
     },
-  },
-  {
-    id: 'manual-evac-stopped',
-    description: 'Manual evacuation stopped correctly',
-    weight: 1,
-    evaluate(events) {
-      return events.some((event) => event.type === 'MANUAL_EVAC_STOP') ? 1 : 0;
+    {
+      id: 'dm-reset-after-latch',
+      kind: 'REACTION_TIME',
+      description: 'Réarmement du DM déclenché',
+      weight: 1,
+      trigger: 'DM_LATCHED',
+      response: 'DM_RESET',
+      targetMs: 180_000,
+      maxMs: 600_000,
+      sameZone: true,
     },
-  },
-];
+    {
+      id: 'reset-after-alarm',
+      kind: 'REACTION_TIME',
+      description: "Réarmement du système après l'alarme feu",
+      weight: 1,
+      trigger: 'FIRE_ALARM_STARTED',
+      response: 'SYSTEM_RESET',
+      targetMs: 300_000,
+      maxMs: 900_000,
+    },
+    {
+      id: 'ack-before-reset',
+      kind: 'ORDER',
+      description: 'Acquit process avant le réarmement du système',
+      weight: 2,
+      first: 'PROCESS_ACK',
+      then: 'SYSTEM_RESET',
+    },
+    {
+      id: 'rejected-reset',
+      kind: 'PENALTY',
+      description: 'Réarmement demandé avant le réarmement des DM',
+      weight: 1,
+      event: 'system-reset-rejected',
+      penalty: 0.5,
+    },
+  ],
+};
+
+export const defaultRules: ScoringRule[] = compileRubric(defaultRubric);
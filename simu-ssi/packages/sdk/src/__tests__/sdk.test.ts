@@ -1,9 +1,116 @@
-import { describe, it, expect } from 'vitest';
-import { SsiSdk } from '../index';
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { ACTOR_HEADER, projectClockNow, sessionScoreCreateSchema, SsiSdk } from '../index';
 
 describe('SsiSdk', () => {
   it('constructs with base url', () => {
     const sdk = new SsiSdk('http://localhost:4500');
     expect(sdk).toBeTruthy();
   });
+
+  describe('with a room', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('scopes exercise commands to the room and keeps shared routes global', async () => {
+      const fetchMock = vi.fn(
+        async (_url: string, _init?: RequestInit) =>
+          new Response(JSON.stringify({ codes: [] }), { status: 200 }),
+      );
+      vi.stubGlobal('fetch', fetchMock);
+      const sdk = new SsiSdk('http://localhost:4500', { roomId: 'banc-2' });
+
+      await sdk.activateManualCallPoint('ZF1');
+      await sdk.getAccessCodes();
+
+      expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+        'http://localhost:4500/api/rooms/banc-2/sdi/dm/ZF1/activate',
+        'http://localhost:4500/api/access/codes',
+      ]);
+    });
+
+    it('tags commands with the acting trainee once set', async () => {
+      const fetchMock = vi.fn(async (_url: string, _init?: RequestInit) => new Response(null, { status: 202 }));
+      vi.stubGlobal('fetch', fetchMock);
+      const sdk = new SsiSdk('http://localhost:4500', { roomId: 'banc-2' });
+
+      await sdk.silenceAudibleAlarm();
+      sdk.setActor('0b6c1c0e-3f0e-4a57-9d1f-0d4e5f0a1b2c');
+      await sdk.silenceAudibleAlarm();
+
+      const actors = fetchMock.mock.calls.map(([, init]) => new Headers(init?.headers).get(ACTOR_HEADER));
+      expect(actors).toEqual([null, '0b6c1c0e-3f0e-4a57-9d1f-0d4e5f0a1b2c']);
+    });
+  });
+
+  describe('with a user session', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    const user = { id: '0b6c1c0e-3f0e-4a57-9d1f-0d4e5f0a1b2c', fullName: 'Camille', role: 'TRAINER' };
+    const session = (suffix: string) => ({
+      accessToken: `ssi.access-${suffix}.sig`,
+      expiresAt: '2026-10-18T12:15:00.000Z',
+      refreshToken: `refresh-${suffix}`,
+      refreshExpiresAt: '2026-10-19T00:00:00.000Z',
+      user,
+    });
+
+    it('refreshes an expired access token once and replays the request', async () => {
+      const fetchMock = vi.fn(async (url: string, init?: RequestInit) => {
+        if (url.endsWith('/api/auth/login')) {
+          return new Response(JSON.stringify(session('1')), { status: 200 });
+        }
+        if (url.endsWith('/api/auth/refresh')) {
+          return new Response(JSON.stringify(session('2')), { status: 200 });
+        }
+        if (url.endsWith('/api/auth/logout')) {
+          return new Response(null, { status: 204 });
+        }
+        const authorized = new Headers(init?.headers).get('Authorization') === 'Bearer ssi.access-2.sig';
+        return new Response(null, { status: authorized ? 202 : 401 });
+      });
+      vi.stubGlobal('fetch', fetchMock);
+      const onSessionChange = vi.fn();
+      const sdk = new SsiSdk('http://localhost:4500', { apiToken: 'station-token', onSessionChange });
+
+      await sdk.login({ userId: user.id, secret: '4821' });
+      await sdk.silenceAudibleAlarm();
+
+      expect(fetchMock.mock.calls.map(([url]) => url.replace('http://localhost:4500', ''))).toEqual([
+        '/api/auth/login',
+        '/api/uga/silence',
+        '/api/auth/refresh',
+        '/api/uga/silence',
+      ]);
+      expect(JSON.parse(fetchMock.mock.calls[2][1]?.body as string)).toEqual({ refreshToken: 'refresh-1' });
+      expect(onSessionChange).toHaveBeenLastCalledWith(session('2'));
+
+      await sdk.logout();
+      expect(sdk.getAccessToken()).toBe('station-token');
+      expect(onSessionChange).toHaveBeenLastCalledWith(null);
+    });
+  });
+});
+
+describe('projectClockNow', () => {
+  it('scales the time elapsed since the clock state was received', () => {
+    expect(projectClockNow({ mode: 'realtime', speed: 10, now: 1_000 }, 500, 600)).toBe(2_000);
+  });
+
+  it('holds the simulated time in step mode', () => {
+    expect(projectClockNow({ mode: 'step', speed: 1, now: 1_000 }, 500, 9_000)).toBe(1_000);
+  });
+});
+
+describe('sessionScoreCreateSchema', () => {
+  it('rejects duplicated rubric items', () => {
+    const item = { id: 'ack', description: 'Acquit process', weight: 1, score: 1 };
+    const result = sessionScoreCreateSchema.safeParse({
+      evaluatorId: '0b6c1c0e-3f0e-4a57-9d1f-0d4e5f0a1b2c',
+      items: [item, { ...item, score: 0.5 }],
+    });
+    expect(result.success).toBe(false);
+  });
 });
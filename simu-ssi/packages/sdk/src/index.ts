@@ -6,10 +6,24 @@ const siteConfigSchema = z.object({
   processAckRequired: z.boolean(),
 });
 
+/**
+ * `SINGLE` : un détecteur suffit ; `DOUBLE_KNOCK` : deux détecteurs distincts doivent coïncider ;
+ * `DELAYED` : l'alarme feu attend la levée de doute de l'exploitant pendant un délai.
+ */
+export const detectionStrategySchema = z.enum(['SINGLE', 'DOUBLE_KNOCK', 'DELAYED']);
+
 const siteZoneSchema = z.object({
   id: z.string().min(1),
   label: z.string().min(1),
   kind: z.string().min(1),
+  /** Zone d'alarme (ZA) évacuée lorsque cette zone de détection passe en alarme. */
+  alarmZoneId: z.string().min(1).optional(),
+  /** Zones de sécurité (ZS) et de compartimentage (ZC) dont les DAS sont mis en sécurité. */
+  safetyZoneIds: z.array(z.string().min(1)).optional(),
+  /** Stratégie de détection des DAI de la zone ; un seul détecteur suffit par défaut. */
+  detectionStrategy: detectionStrategySchema.optional(),
+  /** Délai de reconnaissance laissé à l'exploitant pour la stratégie `DELAYED` (ms). */
+  verificationDelayMs: z.number().int().min(0).optional(),
 });
 
 const sitePlanSchema = z
@@ -29,11 +43,33 @@ const siteDeviceSchema = z.object({
   outOfService: z.boolean().optional(),
 });
 
-const topologySchema = z.object({
-  plan: sitePlanSchema,
-  zones: z.array(siteZoneSchema),
-  devices: z.array(siteDeviceSchema),
-});
+const topologySchema = z
+  .object({
+    plan: sitePlanSchema,
+    zones: z.array(siteZoneSchema),
+    devices: z.array(siteDeviceSchema),
+  })
+  .superRefine((topology, ctx) => {
+    const zoneIds = new Set(topology.zones.map((zone) => zone.id));
+    topology.zones.forEach((zone, index) => {
+      const references = [
+        ...(zone.alarmZoneId ? [{ id: zone.alarmZoneId, path: ['alarmZoneId'] }] : []),
+        ...(zone.safetyZoneIds ?? []).map((id, position) => ({
+          id,
+          path: ['safetyZoneIds', position],
+        })),
+      ];
+      for (const reference of references) {
+        if (!zoneIds.has(reference.id)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ['zones', index, ...reference.path],
+            message: `Zone « ${reference.id} » inconnue dans la topologie.`,
+          });
+        }
+      }
+    });
+  });
 
 const scenarioTopologySchema = topologySchema.nullish().transform((value) => value ?? undefined);
 
@@ -54,10 +90,48 @@ const scenarioEvacuationAudioInnerSchema = z.object({
 
 export const scenarioEvacuationAudioSchema = scenarioEvacuationAudioInnerSchema.nullish().transform((value) => value ?? undefined);
 
+export const cmsiStatusSchema = z.enum([
+  'IDLE',
+  'FIRE_ALARM',
+  'EVAC_PENDING',
+  'EVAC_ACTIVE',
+  'EVAC_SUSPENDED',
+  'SAFE_HOLD',
+  'COINCIDENCE_PENDING',
+  'ALARM_VERIFICATION',
+]);
+
+/**
+ * Condition de déclenchement d'un événement de scénario, évaluée à son échéance :
+ * - `AFTER_EVENT` attend que l'événement de domaine `event` soit survenu ;
+ * - `UNLESS_EVENT` ignore l'événement si `event` est déjà survenu ;
+ * - `IF_STATE` ignore l'événement si l'état du SSI ne correspond pas.
+ */
+export const scenarioEventConditionSchema = z.discriminatedUnion('kind', [
+  z.object({
+    kind: z.literal('AFTER_EVENT'),
+    event: z.string().min(1),
+    zoneId: z.string().min(1).optional(),
+  }),
+  z.object({
+    kind: z.literal('UNLESS_EVENT'),
+    event: z.string().min(1),
+    zoneId: z.string().min(1).optional(),
+  }),
+  z.object({
+    kind: z.literal('IF_STATE'),
+    cmsiStatus: cmsiStatusSchema.optional(),
+    processAcked: z.boolean().optional(),
+    ugaActive: z.boolean().optional(),
+    mainsAvailable: z.boolean().optional(),
+  }),
+]);
+
 const scenarioEventBaseSchema = z.object({
   id: z.string().uuid().optional(),
   label: z.string().optional(),
   offset: z.number().min(0),
+  condition: scenarioEventConditionSchema.optional(),
 });
 
 const scenarioEventSequenceEntrySchema = z.object({
@@ -70,18 +144,92 @@ const scenarioZoneEvent = scenarioEventBaseSchema.extend({
   sequence: z.array(scenarioEventSequenceEntrySchema).optional(),
 });
 
+export const faultKindSchema = z.enum(['LINE_OPEN', 'LINE_SHORT', 'DAS_FEEDBACK', 'UGA_LINE', 'OTHER']);
+
+const scenarioFaultEvent = scenarioEventBaseSchema.extend({
+  kind: faultKindSchema,
+  zoneId: z.string().min(1).optional(),
+  deviceId: z.string().min(1).optional(),
+});
+
+/** `STUCK` : DAS bloqué, sans fin de course ; `POSITION_LOST` : contact de position perdu. */
+export const dasFailureModeSchema = z.enum(['STUCK', 'POSITION_LOST']);
+
+const scenarioDasEvent = scenarioEventBaseSchema.extend({
+  deviceId: z.string().min(1),
+});
+
+/** Levée de doute d'une zone en attente de coïncidence ou dans son délai de reconnaissance. */
+const scenarioDetectionEvent = scenarioEventBaseSchema.extend({
+  zoneId: z.string().min(1),
+});
+
 export const scenarioEventSchema = z.discriminatedUnion('type', [
   scenarioZoneEvent.extend({ type: z.literal('DM_TRIGGER') }),
   scenarioZoneEvent.extend({ type: z.literal('DM_RESET') }),
   scenarioZoneEvent.extend({ type: z.literal('DAI_TRIGGER') }),
   scenarioZoneEvent.extend({ type: z.literal('DAI_RESET') }),
+  scenarioDetectionEvent.extend({ type: z.literal('DETECTION_CONFIRM') }),
+  scenarioDetectionEvent.extend({ type: z.literal('DETECTION_CANCEL') }),
   scenarioEventBaseSchema.extend({ type: z.literal('MANUAL_EVAC_START'), reason: z.string().optional() }),
   scenarioEventBaseSchema.extend({ type: z.literal('MANUAL_EVAC_STOP'), reason: z.string().optional() }),
   scenarioEventBaseSchema.extend({ type: z.literal('PROCESS_ACK'), ackedBy: z.string().optional() }),
   scenarioEventBaseSchema.extend({ type: z.literal('PROCESS_CLEAR') }),
   scenarioEventBaseSchema.extend({ type: z.literal('SYSTEM_RESET') }),
+  scenarioEventBaseSchema.extend({ type: z.literal('POWER_MAINS_CUT') }),
+  scenarioEventBaseSchema.extend({ type: z.literal('POWER_MAINS_RESTORE') }),
+  scenarioFaultEvent.extend({ type: z.literal('FAULT_RAISE') }),
+  scenarioFaultEvent.extend({ type: z.literal('FAULT_CLEAR') }),
+  scenarioDasEvent.extend({ type: z.literal('DAS_FAIL'), mode: dasFailureModeSchema }),
+  scenarioDasEvent.extend({ type: z.literal('DAS_REPAIR') }),
+  scenarioEventBaseSchema.extend({
+    type: z.literal('WAIT_FOR'),
+    event: z.string().min(1),
+    zoneId: z.string().min(1).optional(),
+    /** Délai maximal d'attente (s) avant de poursuivre sans l'action attendue. */
+    timeout: z.number().positive().optional(),
+    /** Événement vers lequel se repositionner à l'expiration du délai. */
+    timeoutEventId: z.string().uuid().optional(),
+  }),
+]);
+
+const scenarioRubricRuleBaseSchema = z.object({
+  id: z.string().min(1),
+  description: z.string().min(1),
+  weight: z.number().positive(),
+  feedback: z.string().optional(),
+});
+
+/** Critère de notation, structurellement identique aux règles de `@simu-ssi/scoring`. */
+export const scenarioRubricRuleSchema = z.discriminatedUnion('kind', [
+  scenarioRubricRuleBaseSchema.extend({
+    kind: z.literal('REACTION_TIME'),
+    trigger: z.string().min(1),
+    response: z.string().min(1),
+    targetMs: z.number().min(0),
+    maxMs: z.number().positive(),
+    sameZone: z.boolean().optional(),
+  }),
+  scenarioRubricRuleBaseSchema.extend({
+    kind: z.literal('ORDER'),
+    first: z.string().min(1),
+    then: z.string().min(1),
+  }),
+  scenarioRubricRuleBaseSchema.extend({
+    kind: z.literal('PENALTY'),
+    event: z.string().min(1),
+    source: z.string().min(1).optional(),
+    penalty: z.number().positive().max(1),
+  }),
 ]);
 
+const scenarioRubricInnerSchema = z.object({
+  name: z.string().min(1).optional(),
+  rules: z.array(scenarioRubricRuleSchema).min(1),
+});
+
+export const scenarioRubricSchema = scenarioRubricInnerSchema.nullish().transform((value) => value ?? undefined);
+
 export const scenarioDefinitionSchema = z.object({
   id: z.string().min(1),
   name: z.string().min(1),
@@ -90,6 +238,7 @@ export const scenarioDefinitionSchema = z.object({
   topology: scenarioTopologySchema,
   manualResettable: scenarioManualResetSelectionSchema.nullish().transform((value) => value ?? undefined),
   evacuationAudio: scenarioEvacuationAudioSchema,
+  rubric: scenarioRubricSchema,
 });
 
 export const scenarioPayloadSchema = z.object({
@@ -99,34 +248,65 @@ export const scenarioPayloadSchema = z.object({
   topology: scenarioTopologySchema,
   manualResettable: scenarioManualResetSelectionSchema.nullish().transform((value) => value ?? undefined),
   evacuationAudio: scenarioEvacuationAudioSchema,
+  rubric: scenarioRubricSchema,
 });
 
 export const scenarioRunnerSnapshotSchema = z.object({
-  status: z.enum(['idle', 'ready', 'running', 'completed', 'stopped']),
+  status: z.enum(['idle', 'ready', 'running', 'paused', 'completed', 'stopped']),
   scenario: scenarioDefinitionSchema.optional(),
   startedAt: z.number().optional(),
   endedAt: z.number().optional(),
+  pausedAt: z.number().optional(),
   currentEventIndex: z.number().int().optional(),
   nextEvent: scenarioEventSchema.nullish(),
   awaitingSystemReset: z.boolean().optional(),
   sequenceProgress: z
     .record(z.string(), z.number().int().min(0))
     .optional(),
+  conditionStates: z.record(z.string(), z.enum(['WAITING', 'MET', 'SKIPPED'])).optional(),
+  awaiting: z
+    .object({
+      eventIndex: z.number().int(),
+      event: z.string(),
+      zoneId: z.string().optional(),
+      since: z.number(),
+      deadline: z.number().optional(),
+    })
+    .nullish(),
+});
+
+export const clockStateSchema = z.object({
+  mode: z.enum(['realtime', 'step']),
+  speed: z.union([z.literal(1), z.literal(2), z.literal(10)]),
+  now: z.number(),
 });
 
-const accessAuthorisationSchema = z.object({
+export const accessAuthorisationSchema = z.object({
   level: z.number().int().min(1).max(3).nullable(),
   allowed: z.boolean(),
   label: z.string(),
+  /** Essais restants avant verrouillage du poste, après un code refusé. */
+  remainingAttempts: z.number().int().nonnegative().optional(),
+  /** Fin du verrouillage du poste, après trop de codes refusés. */
+  lockedUntil: z.string().optional(),
+  /** Fin de validité du niveau accordé, tenu par le serveur pour ce poste. */
+  expiresAt: z.string().nullable().optional(),
 });
 
-const accessCodeSchema = z.object({
+export const accessLevelStateSchema = z.object({
+  level: z.number().int().min(1).max(3),
+  expiresAt: z.string().nullable(),
+});
+
+export const accessCodeSchema = z.object({
   level: z.number().int().min(1).max(3),
   code: z.string().min(1),
+  configured: z.boolean(),
   updatedAt: z.string(),
+  expiresAt: z.string().nullable(),
 });
 
-const accessCodeListSchema = z.object({
+export const accessCodeListSchema = z.object({
   codes: z.array(accessCodeSchema),
 });
 
@@ -152,7 +332,7 @@ const userImportErrorSchema = z.object({
   reason: z.string().min(1),
 });
 
-const userImportResultSchema = z.object({
+export const userImportResultSchema = z.object({
   created: z.number().int().min(0),
   updated: z.number().int().min(0),
   skipped: z.number().int().min(0),
@@ -164,9 +344,140 @@ export const userSchema = z.object({
   fullName: z.string().min(1),
   email: z.string().email().nullable().optional(),
   role: userRoleSchema,
+  /** Vrai lorsque l'utilisateur dispose d'un mot de passe ou d'un code PIN de connexion. */
+  hasCredential: z.boolean().optional(),
+});
+
+/** Jetons remis à la connexion ou au renouvellement d'une session utilisateur. */
+export const authSessionSchema = z.object({
+  accessToken: z.string().min(1),
+  expiresAt: z.string().min(1),
+  refreshToken: z.string().min(1),
+  refreshExpiresAt: z.string().min(1),
+  user: userSchema,
+});
+
+export const authLoginSchema = z.object({
+  userId: z.string().uuid().optional(),
+  email: z.string().email().optional(),
+  /** Mot de passe ou code PIN. */
+  secret: z.string().min(1),
+});
+
+/** Actions soumises à autorisation : chaque route de l'API et chaque connexion Socket.IO en relève. */
+export const PERMISSION_IDS = [
+  'state.read',
+  'access.verify',
+  'session.manage',
+  'session.join',
+  'session.grade',
+  'dm.trigger',
+  'dm.reset',
+  'dai.trigger',
+  'dai.reset',
+  'dai.confirm',
+  'evac.manual.start',
+  'evac.manual.stop',
+  'process.ack',
+  'process.clear',
+  'uga.silence',
+  'system.reset',
+  'das.rearm',
+  'power.control',
+  'fault.read',
+  'fault.raise',
+  'fault.ack',
+  'fault.clear',
+  'device.service',
+  'topology.edit',
+  'scenario.run',
+  'scenario.manage',
+  'clock.control',
+  'room.manage',
+  'replay.control',
+  'users.read',
+  'users.manage',
+  'config.read',
+  'config.edit',
+  'access.codes.manage',
+  'permissions.manage',
+  'audit.read',
+] as const;
+
+export const permissionIdSchema = z.enum(PERMISSION_IDS);
+
+/** Rôles autorisés par action ; `ADMIN` est toujours autorisé et n'y figure pas. */
+export const permissionGrantsSchema = z.record(permissionIdSchema, z.array(userRoleSchema));
+
+export const permissionDefinitionSchema = z.object({
+  id: permissionIdSchema,
+  label: z.string().min(1),
+  group: z.string().min(1),
+  /** `room` : l'autorisation peut être ajustée salle par salle. */
+  scope: z.enum(['site', 'room']),
+  defaultRoles: z.array(userRoleSchema),
+});
+
+export const permissionPolicySchema = z.object({
+  permissions: z.array(permissionDefinitionSchema),
+  site: permissionGrantsSchema,
+  rooms: z.record(z.string(), permissionGrantsSchema),
 });
 
-const userListSchema = z.object({
+/** Modifications administratives consignées dans le journal d'audit. */
+export const AUDIT_ACTIONS = [
+  'config.site.update',
+  'config.layout.update',
+  'access.code.update',
+  'topology.publish',
+  'user.create',
+  'user.update',
+  'user.credentials.update',
+  'user.delete',
+  'user.import',
+  'permissions.update',
+  'room.create',
+  'scenario.create',
+  'scenario.update',
+  'scenario.delete',
+] as const;
+
+export const auditActionSchema = z.enum(AUDIT_ACTIONS);
+
+export const auditEntrySchema = z.object({
+  id: z.number().int(),
+  createdAt: z.string(),
+  /** Utilisateur à l'origine de la modification, s'il est connu. */
+  actorId: z.string().nullable(),
+  actorName: z.string().nullable(),
+  /** Jeton ayant autorisé la requête (`AuthSession[…]`, `SIMU_SSI_API_TOKENS[0]`…). */
+  actorLabel: z.string().nullable(),
+  action: auditActionSchema,
+  target: z.string().nullable(),
+  roomId: z.string().nullable(),
+  /** Valeurs modifiées avant et après ; `null` avant une création ou après une suppression. */
+  before: z.unknown().nullable(),
+  after: z.unknown().nullable(),
+});
+
+export const auditQuerySchema = z.object({
+  action: auditActionSchema.optional(),
+  actorId: z.string().trim().min(1).optional(),
+  roomId: z.string().trim().min(1).optional(),
+  target: z.string().trim().min(1).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  /** Pagination : entrées antérieures à cet identifiant. */
+  before: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().min(1).max(500).optional(),
+});
+
+export const auditPageSchema = z.object({
+  entries: z.array(auditEntrySchema),
+  nextCursor: z.number().int().nullable(),
+});
+
+export const userListSchema = z.object({
   users: z.array(userSchema),
 });
 
@@ -184,23 +495,218 @@ export const sessionSchema = z.object({
   startedAt: z.string().min(1),
   endedAt: z.string().nullable().optional(),
   status: z.enum(['active', 'completed']),
+  roomId: z.string().optional(),
+  /** Apprenant référent : le rapport de session est classé à son nom. */
   trainee: userSchema.nullable().optional(),
+  /** Équipe d'apprenants ayant rejoint la session, référent compris. */
+  trainees: z.array(userSchema).default([]),
   trainer: userSchema.nullable().optional(),
   improvementAreas: z.array(sessionImprovementSchema),
 });
 
-const sessionListSchema = z.object({
+export const sessionListSchema = z.object({
   sessions: z.array(sessionSchema),
 });
 
-const sessionResponseSchema = z.object({
+export const sessionResponseSchema = z.object({
   session: sessionSchema.nullable(),
 });
 
-const improvementSuggestionSchema = z.object({
+export const improvementSuggestionSchema = z.object({
   improvementAreas: z.array(sessionImprovementSchema),
 });
 
+/** Critère d'une évaluation formateur : note entre 0 (non acquis) et 1 (acquis). */
+export const sessionScoreItemSchema = z.object({
+  id: z.string().trim().min(1).max(64),
+  description: z.string().trim().min(1).max(200),
+  weight: z.number().positive().max(100),
+  score: z.number().min(0).max(1),
+  comment: z.string().max(1000).optional(),
+});
+
+const sessionScoreItemsSchema = z
+  .array(sessionScoreItemSchema)
+  .min(1)
+  .max(50)
+  .refine((items) => new Set(items.map((item) => item.id)).size === items.length, {
+    message: 'DUPLICATE_SCORE_ITEM',
+  });
+
+export const sessionScoreCreateSchema = z.object({
+  evaluatorId: z.string().uuid(),
+  rubricName: z.string().trim().min(1).max(120).optional(),
+  items: sessionScoreItemsSchema,
+  comments: z.string().max(4000).optional(),
+});
+
+export const sessionScoreUpdateSchema = z
+  .object({
+    rubricName: z.string().trim().min(1).max(120).optional(),
+    items: sessionScoreItemsSchema.optional(),
+    comments: z.string().max(4000).nullable().optional(),
+  })
+  .refine((value) => Object.values(value).some((entry) => entry !== undefined), {
+    message: 'SCORE_UPDATE_EMPTY',
+  });
+
+export const sessionScoreSchema = z.object({
+  id: z.number().int(),
+  sessionId: z.string().uuid(),
+  origin: z.enum(['AUTO', 'MANUAL']),
+  rubricName: z.string().nullable(),
+  /** Note globale sur 100. */
+  value: z.number(),
+  comments: z.string().nullable(),
+  evaluator: userSchema.nullable(),
+  /** Critères notés ; `score` vaut `null` lorsqu'un critère automatique ne s'applique pas. */
+  items: z.array(sessionScoreItemSchema.extend({ score: z.number().min(0).max(1).nullable() })),
+  /** Répartition des actions par participant (notation automatique uniquement). */
+  actors: z
+    .array(
+      z.object({
+        actorId: z.string(),
+        fullName: z.string().nullable(),
+        actionCount: z.number().int().min(0),
+        responseCount: z.number().int().min(0),
+        violationCount: z.number().int().min(0),
+      }),
+    )
+    .default([]),
+});
+
+export const sessionScoreListSchema = z.object({
+  scores: z.array(sessionScoreSchema),
+});
+
+export const traineeProgressSchema = z.object({
+  user: userSchema,
+  sessions: z.array(
+    z.object({
+      id: z.string().uuid(),
+      name: z.string().min(1),
+      startedAt: z.string().min(1),
+      endedAt: z.string().nullable(),
+      status: z.enum(['active', 'completed']),
+      automaticScore: z.number().nullable(),
+      /** Moyenne des évaluations formateur. */
+      trainerScore: z.number().nullable(),
+      /** Note retenue pour la courbe : notation automatique, à défaut moyenne formateur. */
+      value: z.number().nullable(),
+    }),
+  ),
+  averageScore: z.number().nullable(),
+  /** Écart entre la dernière et la première note retenue. */
+  trend: z.number().nullable(),
+  recurringImprovementAreas: z.array(
+    sessionImprovementSchema.extend({
+      occurrences: z.number().int().positive(),
+      sessionIds: z.array(z.string()),
+    }),
+  ),
+  ruleSuccessRates: z.array(
+    z.object({
+      ruleId: z.string(),
+      description: z.string(),
+      origin: z.enum(['AUTO', 'MANUAL']),
+      evaluations: z.number().int().positive(),
+      successRate: z.number().min(0).max(1),
+      averageScore: z.number().min(0).max(1),
+    }),
+  ),
+});
+
+/** Salle historique : elle porte la topologie, la disposition et les sessions antérieures aux salles. */
+export const DEFAULT_ROOM_ID = 'default';
+
+/** En-tête identifiant l'utilisateur à l'origine d'une commande, enregistré dans le journal. */
+export const ACTOR_HEADER = 'X-Actor-Id';
+
+/** En-tête identifiant le poste apprenant, porteur du niveau d'accès saisi au clavier. */
+export const STATION_HEADER = 'X-Station-Id';
+
+/**
+ * En-tête par lequel la console formateur s'annonce : sans authentification, c'est le seul appelant
+ * dispensé du niveau d'accès du clavier.
+ */
+export const CONSOLE_HEADER = 'X-Trainer-Console';
+
+export const roomIdSchema = z.string().regex(/^[a-z0-9-]{1,32}$/);
+
+export const roomSchema = z.object({
+  id: roomIdSchema,
+  name: z.string().min(1),
+  activeSessionId: z.string().uuid().nullable(),
+});
+
+export const roomCreateSchema = z.object({
+  id: roomIdSchema,
+  name: z.string().trim().min(1).max(80),
+});
+
+export const roomListSchema = z.object({
+  rooms: z.array(roomSchema),
+});
+
+/** Namespace Socket.IO dédié au rejeu des sessions. */
+export const REPLAY_NAMESPACE = '/replay';
+export const REPLAY_SPEEDS = [1, 2, 5, 10] as const;
+
+export const replaySpeedSchema = z.union([z.literal(1), z.literal(2), z.literal(5), z.literal(10)]);
+
+export const replayJoinSchema = z.object({
+  sessionId: z.string().uuid(),
+  /** `view` : affichage seul (tableau stagiaire) ; `control` : pilotage depuis la console formateur. */
+  mode: z.enum(['view', 'control']).default('view'),
+});
+
+export const replaySeekSchema = z.object({
+  positionMs: z.number().min(0),
+});
+
+export const replayFrameSummarySchema = z.object({
+  index: z.number().int().min(0),
+  offsetMs: z.number().min(0),
+  source: z.string(),
+  message: z.string().nullable(),
+  event: z.string().nullable(),
+});
+
+export const replayTimelineSchema = z.object({
+  sessionId: z.string(),
+  sessionName: z.string(),
+  startedAt: z.string(),
+  durationMs: z.number().min(0),
+  frames: z.array(replayFrameSummarySchema),
+});
+
+export const replayStateSchema = z.object({
+  sessionId: z.string(),
+  status: z.enum(['paused', 'playing', 'ended']),
+  speed: replaySpeedSchema,
+  positionMs: z.number().min(0),
+  /** Index de la dernière trame appliquée, `-1` avant le premier événement. */
+  frameIndex: z.number().int().min(-1),
+  snapshot: z.record(z.unknown()),
+});
+
+export const faultSchema = z.object({
+  id: z.string().min(1),
+  kind: faultKindSchema,
+  scope: z.enum(['DEVICE', 'ZONE']),
+  deviceId: z.string().optional(),
+  zoneId: z.string().optional(),
+  label: z.string().optional(),
+  raisedAt: z.number(),
+  acknowledged: z.boolean(),
+  acknowledgedAt: z.number().optional(),
+  acknowledgedBy: z.string().optional(),
+});
+
+export const faultListSchema = z.object({
+  faults: z.array(faultSchema),
+});
+
 export const traineeLayoutSchema = z.object({
   boardModuleOrder: layoutOrderSchema,
   boardModuleHidden: layoutHiddenSchema,
@@ -213,12 +719,41 @@ export const traineeLayoutSchema = z.object({
 export type TraineeLayoutConfig = z.infer<typeof traineeLayoutSchema>;
 export type UserRole = z.infer<typeof userRoleSchema>;
 export type UserSummary = z.infer<typeof userSchema>;
+export type AuthSession = z.infer<typeof authSessionSchema>;
+export type AuthLoginRequest = z.infer<typeof authLoginSchema>;
+export type PermissionId = z.infer<typeof permissionIdSchema>;
+export type PermissionGrants = z.infer<typeof permissionGrantsSchema>;
+export type PermissionDefinition = z.infer<typeof permissionDefinitionSchema>;
+export type PermissionPolicy = z.infer<typeof permissionPolicySchema>;
+export type AuditAction = z.infer<typeof auditActionSchema>;
+export type AuditEntry = z.infer<typeof auditEntrySchema>;
+export type AuditQuery = z.input<typeof auditQuerySchema>;
+export type AuditPage = z.infer<typeof auditPageSchema>;
 export type UserImportEntry = z.infer<typeof userImportEntrySchema>;
 export type UserImportPayload = z.infer<typeof userImportPayloadSchema>;
 export type UserImportError = z.infer<typeof userImportErrorSchema>;
 export type UserImportResult = z.infer<typeof userImportResultSchema>;
 export type SessionImprovement = z.infer<typeof sessionImprovementSchema>;
 export type SessionSummary = z.infer<typeof sessionSchema>;
+export type SessionScore = z.infer<typeof sessionScoreSchema>;
+export type SessionScoreItem = z.infer<typeof sessionScoreItemSchema>;
+export type SessionScoreCreateRequest = z.infer<typeof sessionScoreCreateSchema>;
+export type SessionScoreUpdateRequest = z.infer<typeof sessionScoreUpdateSchema>;
+export type TraineeProgress = z.infer<typeof traineeProgressSchema>;
+export type RoomSummary = z.infer<typeof roomSchema>;
+export type RoomCreateRequest = z.infer<typeof roomCreateSchema>;
+export type ReplaySpeed = z.infer<typeof replaySpeedSchema>;
+export type ReplayJoinRequest = z.input<typeof replayJoinSchema>;
+export type ReplayFrameSummary = z.infer<typeof replayFrameSummarySchema>;
+export type ReplayTimeline = z.infer<typeof replayTimelineSchema>;
+/**
+ * État publié par le lecteur de rejeu. Le schéma ne contrôle que la présence de l'instantané : son
+ * type est celui de l'état du domaine, que le client précise comme pour le canal `state.update`.
+ */
+export type ReplayState<TSnapshot = Record<string, unknown>> = Omit<
+  z.infer<typeof replayStateSchema>,
+  'snapshot'
+> & { snapshot: TSnapshot };
 
 export const DEFAULT_TRAINEE_LAYOUT: TraineeLayoutConfig = {
   boardModuleOrder: [
@@ -228,6 +763,9 @@ export const DEFAULT_TRAINEE_LAYOUT: TraineeLayoutConfig = {
     'manual-evac',
     'dai',
     'out-of-service',
+    'power-mains',
+    'power-battery',
+    'faults',
     'dm-zf1',
     'dm-zf2',
     'dm-zf3',
@@ -238,19 +776,41 @@ export const DEFAULT_TRAINEE_LAYOUT: TraineeLayoutConfig = {
     'dm-zf8',
   ],
   boardModuleHidden: [],
-  controlButtonOrder: ['silence', 'ack', 'reset-request', 'reset-dm-zf1', 'manual-evac-toggle'],
+  controlButtonOrder: [
+    'silence',
+    'ack',
+    'fault-ack',
+    'reset-request',
+    'das-rearm',
+    'detection-confirm',
+    'detection-cancel',
+    'reset-dm-zf1',
+    'manual-evac-toggle',
+  ],
   controlButtonHidden: [],
   sidePanelOrder: ['access-control', 'event-recap', 'instructions'],
   sidePanelHidden: [],
 };
 
 export type SiteConfig = z.infer<typeof siteConfigSchema>;
+export type FaultKind = z.infer<typeof faultKindSchema>;
+export type DasFailureMode = z.infer<typeof dasFailureModeSchema>;
+export type DetectionStrategyKind = z.infer<typeof detectionStrategySchema>;
+export type FaultSummary = z.infer<typeof faultSchema>;
 export type ScenarioEvent = z.infer<typeof scenarioEventSchema>;
 export type ScenarioEventSequenceEntry = z.infer<typeof scenarioEventSequenceEntrySchema>;
+export type ScenarioEventCondition = z.infer<typeof scenarioEventConditionSchema>;
+export type CmsiStatus = z.infer<typeof cmsiStatusSchema>;
 export type ScenarioDefinition = z.infer<typeof scenarioDefinitionSchema>;
 export type ScenarioPayload = z.infer<typeof scenarioPayloadSchema>;
 export type ScenarioManualResetSelection = z.infer<typeof scenarioManualResetSelectionSchema>;
 export type ScenarioRunnerSnapshot = z.infer<typeof scenarioRunnerSnapshotSchema>;
+export type ScenarioRubric = z.infer<typeof scenarioRubricInnerSchema>;
+export type ScenarioRubricRule = z.infer<typeof scenarioRubricRuleSchema>;
+export type ScenarioAwaitedAction = NonNullable<ScenarioRunnerSnapshot['awaiting']>;
+export type ClockState = z.infer<typeof clockStateSchema>;
+export type ClockSpeed = ClockState['speed'];
+export type ClockMode = ClockState['mode'];
 export type ScenarioAudioAsset = z.infer<typeof scenarioAudioAssetSchema>;
 export type ScenarioEvacuationAudio = z.infer<typeof scenarioEvacuationAudioInnerSchema>;
 export type SiteZone = z.infer<typeof siteZoneSchema>;
@@ -258,6 +818,7 @@ export type SiteDevice = z.infer<typeof siteDeviceSchema>;
 export type SiteTopology = z.infer<typeof topologySchema>;
 export type AccessAuthorisation = z.infer<typeof accessAuthorisationSchema>;
 export type AccessCode = z.infer<typeof accessCodeSchema>;
+export type AccessLevelState = z.infer<typeof accessLevelStateSchema>;
 export const siteTopologySchema = topologySchema;
 
 export interface UserCreateInput {
@@ -276,6 +837,8 @@ export interface SessionCreateRequest {
   name: string;
   mode?: string;
   traineeId?: string;
+  /** Équipe d'apprenants ; le référent est `traineeId`, à défaut le premier de la liste. */
+  traineeIds?: string[];
   trainerId?: string;
   objective?: string;
   notes?: string;
@@ -285,6 +848,8 @@ export interface SessionUpdateRequest {
   name?: string;
   mode?: string;
   traineeId?: string | null;
+  /** Remplace l'équipe d'apprenants ; le premier devient référent si `traineeId` est absent. */
+  traineeIds?: string[];
   trainerId?: string | null;
   objective?: string | null;
   notes?: string | null;
@@ -296,15 +861,170 @@ export interface SessionCloseRequest {
   endedAt?: string;
 }
 
+export interface FaultRaiseRequest {
+  kind: FaultKind;
+  zoneId?: string;
+  deviceId?: string;
+  label?: string;
+}
+
+export interface ClockUpdateRequest {
+  speed?: ClockSpeed;
+  mode?: ClockMode;
+}
+
+/**
+ * Extrapole l'heure simulée du serveur à partir du dernier état d'horloge reçu,
+ * afin que les comptes à rebours restent justes en mode accéléré ou pas à pas.
+ */
+export function projectClockNow(
+  clock: ClockState | null | undefined,
+  receivedAt: number,
+  realNow: number = Date.now(),
+): number {
+  if (!clock) {
+    return realNow;
+  }
+  if (clock.mode === 'step') {
+    return clock.now;
+  }
+  return clock.now + Math.max(0, realNow - receivedAt) * clock.speed;
+}
+
 export interface SsiSdkOptions {
   apiToken?: string;
+  /** Salle ciblée par les commandes d'exercice ; la salle par défaut est utilisée si absent. */
+  roomId?: string;
+  /** Jeton de rafraîchissement d'une session utilisateur ouverte précédemment, à reprendre. */
+  refreshToken?: string;
+  /** Appelé à chaque connexion, renouvellement ou fermeture de la session utilisateur. */
+  onSessionChange?: (session: AuthSession | null) => void;
+  /** Identifiant du poste apprenant : ses commandes exigent le niveau d'accès saisi au clavier. */
+  stationId?: string;
+  /** Console formateur : sans authentification, ses commandes ne dépendent pas du niveau d'accès. */
+  trainerConsole?: boolean;
 }
 
 export class SsiSdk {
   private readonly apiToken?: string;
 
+  private readonly roomId?: string;
+
+  private readonly stationId?: string;
+
+  private readonly trainerConsole: boolean;
+
+  private actorId?: string;
+
+  private accessToken?: string;
+
+  private refreshToken?: string;
+
+  private pendingRefresh: Promise<AuthSession | null> | null = null;
+
+  private readonly onSessionChange?: (session: AuthSession | null) => void;
+
   constructor(private readonly baseUrl: string, options: SsiSdkOptions = {}) {
     this.apiToken = options.apiToken?.trim() || undefined;
+    this.roomId = options.roomId?.trim() || undefined;
+    this.stationId = options.stationId?.trim() || undefined;
+    this.trainerConsole = options.trainerConsole ?? false;
+    this.refreshToken = options.refreshToken?.trim() || undefined;
+    this.onSessionChange = options.onSessionChange;
+  }
+
+  /** Jeton présenté au serveur : celui de l'utilisateur connecté, sinon le jeton de l'application. */
+  getAccessToken(): string | undefined {
+    return this.accessToken ?? this.apiToken;
+  }
+
+  /** Ouvre une session utilisateur ; les requêtes suivantes sont authentifiées et attribuées à ce compte. */
+  async login(credentials: AuthLoginRequest): Promise<AuthSession> {
+    const response = await fetch(`${this.baseUrl}/api/auth/login`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(credentials),
+    });
+    if (!response.ok) {
+      const errorBody = await response.json().catch(() => null);
+      const message = errorBody?.error ?? 'Failed to log in';
+      throw new Error(message);
+    }
+    const json = await response.json();
+    return this.applySession(authSessionSchema.parse(json));
+  }
+
+  /** Renouvelle les jetons ; renvoie `null` et ferme la session locale si le serveur la refuse. */
+  async refreshSession(): Promise<AuthSession | null> {
+    if (!this.refreshToken) {
+      return null;
+    }
+    if (!this.pendingRefresh) {
+      const refreshToken = this.refreshToken;
+      this.pendingRefresh = fetch(`${this.baseUrl}/api/auth/refresh`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ refreshToken }),
+      })
+        .then(async (response) => {
+          if (response.status === 401) {
+            return this.applySession(null);
+          }
+          if (!response.ok) {
+            throw new Error('Failed to refresh session');
+          }
+          return this.applySession(authSessionSchema.parse(await response.json()));
+        })
+        .finally(() => {
+          this.pendingRefresh = null;
+        });
+    }
+    return this.pendingRefresh;
+  }
+
+  async logout(): Promise<void> {
+    const refreshToken = this.refreshToken;
+    this.applySession(null);
+    if (!refreshToken) {
+      return;
+    }
+    const response = await fetch(`${this.baseUrl}/api/auth/logout`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ refreshToken }),
+    });
+    if (!response.ok) {
+      throw new Error('Failed to log out');
+    }
+  }
+
+  /** Attribue les commandes suivantes à l'utilisateur indiqué (`null` pour ne plus les attribuer). */
+  setActor(userId: string | null): void {
+    this.actorId = userId ?? undefined;
+  }
+
+  async listRooms(): Promise<RoomSummary[]> {
+    const response = await this.request(`${this.baseUrl}/api/rooms`);
+    if (!response.ok) {
+      throw new Error('Failed to fetch rooms');
+    }
+    const json = await response.json();
+    return roomListSchema.parse(json).rooms;
+  }
+
+  async createRoom(payload: RoomCreateRequest): Promise<RoomSummary> {
+    const response = await this.request(`${this.baseUrl}/api/rooms`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
+    });
+    if (!response.ok) {
+      const errorBody = await response.json().catch(() => null);
+      const message = errorBody?.error ?? 'Failed to create room';
+      throw new Error(message);
+    }
+    const json = await response.json();
+    return roomSchema.parse(json.room);
   }
 
   async getSiteConfig(): Promise<SiteConfig> {
@@ -337,8 +1057,9 @@ export class SsiSdk {
     await this.post('/api/evac/manual/stop', { reason });
   }
 
-  async acknowledgeProcess(ackedBy: string) {
-    await this.post('/api/process/ack', { ackedBy });
+  /** Acquitte le processus ; avec `zoneId`, seule la temporisation de cette zone est suspendue. */
+  async acknowledgeProcess(ackedBy: string, zoneId?: string) {
+    await this.post('/api/process/ack', { ackedBy, zoneId });
   }
 
   async clearProcessAck() {
@@ -365,6 +1086,16 @@ export class SsiSdk {
     await this.post(`/api/sdi/dai/${zoneId}/reset`);
   }
 
+  /** Confirme l'alarme feu d'une zone en attente de coïncidence ou de levée de doute. */
+  async confirmDetection(zoneId: string) {
+    await this.post(`/api/sdi/dai/${zoneId}/confirm`);
+  }
+
+  /** Écarte une détection non confirmée après levée de doute. */
+  async cancelDetection(zoneId: string) {
+    await this.post(`/api/sdi/dai/${zoneId}/cancel`);
+  }
+
   async setDeviceServiceState(deviceId: string, outOfService: boolean) {
     const encodedId = encodeURIComponent(deviceId);
     await this.post(`/api/devices/${encodedId}/out-of-service`, { outOfService });
@@ -379,19 +1110,89 @@ export class SsiSdk {
     await this.post('/api/system/reset');
   }
 
-  async verifyAccessCode(code: string): Promise<AccessAuthorisation> {
-    const response = await this.request(`${this.baseUrl}/api/access/verify`, {
+  async cutMainsPower() {
+    await this.post('/api/power/mains/cut');
+  }
+
+  async restoreMainsPower() {
+    await this.post('/api/power/mains/restore');
+  }
+
+  async listFaults(): Promise<FaultSummary[]> {
+    const response = await this.request(this.roomUrl('/api/faults'));
+    if (!response.ok) {
+      throw new Error('Failed to fetch faults');
+    }
+    const json = await response.json();
+    return faultListSchema.parse(json).faults;
+  }
+
+  async raiseFault(payload: FaultRaiseRequest): Promise<FaultSummary> {
+    const response = await this.request(this.roomUrl('/api/faults'), {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ code }),
+      body: JSON.stringify(payload),
     });
     if (!response.ok) {
+      const errorBody = await response.json().catch(() => null);
+      const message = errorBody?.error ?? 'Failed to raise fault';
+      throw new Error(message);
+    }
+    const json = await response.json();
+    return faultSchema.parse(json.fault);
+  }
+
+  async acknowledgeFault(faultId?: string, ackedBy?: string) {
+    const path = faultId ? `/api/faults/${encodeURIComponent(faultId)}/ack` : '/api/faults/ack';
+    await this.post(path, { ackedBy });
+  }
+
+  async clearFault(faultId: string) {
+    await this.post(`/api/faults/${encodeURIComponent(faultId)}/clear`);
+  }
+
+  /** Remet en attente un DAS revenu de sa position de sécurité, ou tous ceux qui le peuvent. */
+  async rearmDas(deviceId?: string) {
+    const path = deviceId ? `/api/das/${encodeURIComponent(deviceId)}/rearm` : '/api/das/rearm';
+    await this.post(path);
+  }
+
+  async failDas(deviceId: string, mode: DasFailureMode) {
+    await this.post(`/api/das/${encodeURIComponent(deviceId)}/fail`, { mode });
+  }
+
+  async repairDas(deviceId: string) {
+    await this.post(`/api/das/${encodeURIComponent(deviceId)}/repair`);
+  }
+
+  /**
+   * Le niveau est accordé au poste des options (`stationId`), celui dont les commandes le
+   * présentent. Un code vide ramène le poste au niveau 1.
+   */
+  async verifyAccessCode(code: string): Promise<AccessAuthorisation> {
+    const response = await this.request(this.roomUrl('/api/access/verify'), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ code, stationId: this.stationId }),
+    });
+    // Un verrouillage (423) porte encore le libellé et la fin du verrouillage à afficher au poste.
+    if (!response.ok && response.status !== 423) {
       throw new Error('Failed to verify access code');
     }
     const json = await response.json();
     return accessAuthorisationSchema.parse(json);
   }
 
+  /** Niveau d'accès que le serveur reconnaît au poste. */
+  async getAccessLevel(): Promise<AccessLevelState> {
+    const response = await this.request(this.roomUrl('/api/access/level'));
+    if (!response.ok) {
+      throw new Error('Failed to fetch access level');
+    }
+    const json = await response.json();
+    return accessLevelStateSchema.parse(json);
+  }
+
   async getAccessCodes(): Promise<AccessCode[]> {
     const response = await this.request(`${this.baseUrl}/api/access/codes`);
     if (!response.ok) {
@@ -402,11 +1203,12 @@ export class SsiSdk {
     return parsed.codes;
   }
 
-  async updateAccessCode(level: number, code: string): Promise<AccessCode> {
+  /** `expiresAt` : date ISO au-delà de laquelle le code est refusé ; sans date, il n'expire pas. */
+  async updateAccessCode(level: number, code: string, expiresAt?: string | null): Promise<AccessCode> {
     const response = await this.request(`${this.baseUrl}/api/access/codes/${level}`, {
       method: 'PUT',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ code }),
+      body: JSON.stringify({ code, expiresAt }),
     });
     if (!response.ok) {
       const errorBody = await response.json().catch(() => null);
@@ -417,6 +1219,50 @@ export class SsiSdk {
     return accessCodeSchema.parse(json.code);
   }
 
+  async getPermissionPolicy(): Promise<PermissionPolicy> {
+    const response = await this.request(`${this.baseUrl}/api/permissions`);
+    if (!response.ok) {
+      throw new Error('Failed to fetch permissions');
+    }
+    const json = await response.json();
+    return permissionPolicySchema.parse(json);
+  }
+
+  /**
+   * Remplace les autorisations ajustées du site, ou d'une salle si `roomId` est fourni ; une action
+   * absente de `grants` revient à sa valeur par défaut (ou à celle du site pour une salle).
+   */
+  async updatePermissionGrants(grants: PermissionGrants, roomId?: string): Promise<PermissionPolicy> {
+    const path = roomId ? `/api/permissions/rooms/${encodeURIComponent(roomId)}` : '/api/permissions';
+    const response = await this.request(`${this.baseUrl}${path}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ grants }),
+    });
+    if (!response.ok) {
+      const errorBody = await response.json().catch(() => null);
+      const message = errorBody?.error ?? 'Failed to update permissions';
+      throw new Error(message);
+    }
+    const json = await response.json();
+    return permissionPolicySchema.parse(json);
+  }
+
+  async listAuditEntries(query: AuditQuery = {}): Promise<AuditPage> {
+    const url = new URL('/api/audit', this.baseUrl);
+    Object.entries(query).forEach(([key, value]) => {
+      if (value !== undefined && value !== null && value !== '') {
+        url.searchParams.set(key, value instanceof Date ? value.toISOString() : String(value));
+      }
+    });
+    const response = await this.request(url.toString());
+    if (!response.ok) {
+      throw new Error('Failed to fetch audit log');
+    }
+    const json = await response.json();
+    return auditPageSchema.parse(json);
+  }
+
   async listUsers(role?: UserRole): Promise<UserSummary[]> {
     const url = new URL('/api/users', this.baseUrl);
     if (role) {
@@ -457,6 +1303,20 @@ export class SsiSdk {
     return userSchema.parse(json.user);
   }
 
+  /** Définit le mot de passe ou code PIN d'un utilisateur ; `null` le retire et ferme ses sessions. */
+  async setUserCredentials(id: string, secret: string | null): Promise<UserSummary> {
+    const response = await this.request(`${this.baseUrl}/api/users/${id}/credentials`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ secret }),
+    });
+    if (!response.ok) {
+      throw new Error('Failed to update user credentials');
+    }
+    const json = await response.json();
+    return userSchema.parse(json.user);
+  }
+
   async deleteUser(id: string): Promise<void> {
     const response = await this.request(`${this.baseUrl}/api/users/${id}`, {
       method: 'DELETE',
@@ -484,8 +1344,17 @@ export class SsiSdk {
     return userImportResultSchema.parse(json);
   }
 
+  async getUserProgress(userId: string): Promise<TraineeProgress> {
+    const response = await this.request(`${this.baseUrl}/api/users/${userId}/progress`);
+    if (!response.ok) {
+      throw new Error('Failed to fetch user progress');
+    }
+    const json = await response.json();
+    return traineeProgressSchema.parse(json.progress);
+  }
+
   async listSessions(limit = 20): Promise<SessionSummary[]> {
-    const url = new URL('/api/sessions', this.baseUrl);
+    const url = new URL(this.roomUrl('/api/sessions'));
     if (limit) {
       url.searchParams.set('limit', String(limit));
     }
@@ -499,7 +1368,7 @@ export class SsiSdk {
   }
 
   async getCurrentSession(): Promise<SessionSummary | null> {
-    const response = await this.request(`${this.baseUrl}/api/sessions/active`);
+    const response = await this.request(this.roomUrl('/api/sessions/active'));
     if (!response.ok) {
       throw new Error('Failed to fetch current session');
     }
@@ -509,7 +1378,7 @@ export class SsiSdk {
   }
 
   async createSession(payload: SessionCreateRequest): Promise<SessionSummary> {
-    const response = await this.request(`${this.baseUrl}/api/sessions`, {
+    const response = await this.request(this.roomUrl('/api/sessions'), {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(payload),
@@ -522,7 +1391,7 @@ export class SsiSdk {
   }
 
   async updateSession(id: string, payload: SessionUpdateRequest): Promise<SessionSummary> {
-    const response = await this.request(`${this.baseUrl}/api/sessions/${id}`, {
+    const response = await this.request(this.roomUrl(`/api/sessions/${id}`), {
       method: 'PUT',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(payload),
@@ -534,6 +1403,34 @@ export class SsiSdk {
     return sessionSchema.parse(json.session);
   }
 
+  async joinSession(sessionId: string, traineeId: string): Promise<SessionSummary> {
+    const response = await this.request(this.roomUrl(`/api/sessions/${sessionId}/trainees`), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ traineeId }),
+    });
+    if (!response.ok) {
+      const errorBody = await response.json().catch(() => null);
+      const message = errorBody?.error ?? 'Failed to join session';
+      throw new Error(message);
+    }
+    const json = await response.json();
+    return sessionSchema.parse(json.session);
+  }
+
+  async leaveSession(sessionId: string, traineeId: string): Promise<SessionSummary> {
+    const response = await this.request(this.roomUrl(`/api/sessions/${sessionId}/trainees/${traineeId}`), {
+      method: 'DELETE',
+    });
+    if (!response.ok) {
+      const errorBody = await response.json().catch(() => null);
+      const message = errorBody?.error ?? 'Failed to leave session';
+      throw new Error(message);
+    }
+    const json = await response.json();
+    return sessionSchema.parse(json.session);
+  }
+
   async generateImprovementSuggestions(sessionId: string): Promise<SessionImprovement[]> {
     const response = await this.request(`${this.baseUrl}/api/sessions/${sessionId}/improvement-suggestions`);
     if (!response.ok) {
@@ -545,7 +1442,7 @@ export class SsiSdk {
   }
 
   async closeSession(id: string, payload: SessionCloseRequest = {}): Promise<SessionSummary> {
-    const response = await this.request(`${this.baseUrl}/api/sessions/${id}/close`, {
+    const response = await this.request(this.roomUrl(`/api/sessions/${id}/close`), {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(payload),
@@ -557,8 +1454,52 @@ export class SsiSdk {
     return sessionSchema.parse(json.session);
   }
 
+  async listSessionScores(sessionId: string): Promise<SessionScore[]> {
+    const response = await this.request(`${this.baseUrl}/api/sessions/${sessionId}/scores`);
+    if (!response.ok) {
+      throw new Error('Failed to fetch session scores');
+    }
+    const json = await response.json();
+    const parsed = sessionScoreListSchema.parse(json);
+    return parsed.scores;
+  }
+
+  async createSessionScore(sessionId: string, payload: SessionScoreCreateRequest): Promise<SessionScore> {
+    const response = await this.request(`${this.baseUrl}/api/sessions/${sessionId}/scores`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
+    });
+    if (!response.ok) {
+      const errorBody = await response.json().catch(() => null);
+      const message = errorBody?.error ?? 'Failed to create session score';
+      throw new Error(message);
+    }
+    const json = await response.json();
+    return sessionScoreSchema.parse(json.score);
+  }
+
+  async updateSessionScore(
+    sessionId: string,
+    scoreId: number,
+    payload: SessionScoreUpdateRequest,
+  ): Promise<SessionScore> {
+    const response = await this.request(`${this.baseUrl}/api/sessions/${sessionId}/scores/${scoreId}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
+    });
+    if (!response.ok) {
+      const errorBody = await response.json().catch(() => null);
+      const message = errorBody?.error ?? 'Failed to update session score';
+      throw new Error(message);
+    }
+    const json = await response.json();
+    return sessionScoreSchema.parse(json.score);
+  }
+
   async getTraineeLayout(): Promise<TraineeLayoutConfig> {
-    const response = await this.request(`${this.baseUrl}/api/config/trainee-layout`);
+    const response = await this.request(this.roomUrl('/api/config/trainee-layout'));
     if (!response.ok) {
       throw new Error('Failed to fetch trainee layout');
     }
@@ -571,7 +1512,7 @@ export class SsiSdk {
   }
 
   async updateTraineeLayout(layout: TraineeLayoutConfig): Promise<TraineeLayoutConfig> {
-    const response = await this.request(`${this.baseUrl}/api/config/trainee-layout`, {
+    const response = await this.request(this.roomUrl('/api/config/trainee-layout'), {
       method: 'PUT',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(layout),
@@ -608,7 +1549,7 @@ export class SsiSdk {
   }
 
   async getActiveScenario(): Promise<ScenarioRunnerSnapshot> {
-    const response = await this.request(`${this.baseUrl}/api/scenarios/active`);
+    const response = await this.request(this.roomUrl('/api/scenarios/active'));
     if (!response.ok) {
       throw new Error('Failed to fetch scenario status');
     }
@@ -652,7 +1593,7 @@ export class SsiSdk {
   }
 
   async runScenario(id: string): Promise<ScenarioRunnerSnapshot> {
-    const response = await this.request(`${this.baseUrl}/api/scenarios/${id}/run`, {
+    const response = await this.request(this.roomUrl(`/api/scenarios/${id}/run`), {
       method: 'POST',
     });
     if (!response.ok) {
@@ -663,7 +1604,7 @@ export class SsiSdk {
   }
 
   async preloadScenario(id: string): Promise<ScenarioRunnerSnapshot> {
-    const response = await this.request(`${this.baseUrl}/api/scenarios/${id}/preload`, {
+    const response = await this.request(this.roomUrl(`/api/scenarios/${id}/preload`), {
       method: 'POST',
     });
     if (!response.ok) {
@@ -674,7 +1615,7 @@ export class SsiSdk {
   }
 
   async stopScenario(): Promise<ScenarioRunnerSnapshot> {
-    const response = await this.request(`${this.baseUrl}/api/scenarios/stop`, {
+    const response = await this.request(this.roomUrl('/api/scenarios/stop'), {
       method: 'POST',
     });
     if (!response.ok) {
@@ -684,8 +1625,43 @@ export class SsiSdk {
     return scenarioRunnerSnapshotSchema.parse(json);
   }
 
+  async pauseScenario(): Promise<ScenarioRunnerSnapshot> {
+    const response = await this.request(this.roomUrl('/api/scenarios/pause'), {
+      method: 'POST',
+    });
+    if (!response.ok) {
+      throw new Error('Failed to pause scenario');
+    }
+    const json = await response.json();
+    return scenarioRunnerSnapshotSchema.parse(json);
+  }
+
+  async resumeScenario(): Promise<ScenarioRunnerSnapshot> {
+    const response = await this.request(this.roomUrl('/api/scenarios/resume'), {
+      method: 'POST',
+    });
+    if (!response.ok) {
+      throw new Error('Failed to resume scenario');
+    }
+    const json = await response.json();
+    return scenarioRunnerSnapshotSchema.parse(json);
+  }
+
+  async seekScenario(eventIndex: number): Promise<ScenarioRunnerSnapshot> {
+    const response = await this.request(this.roomUrl('/api/scenarios/seek'), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ eventIndex }),
+    });
+    if (!response.ok) {
+      throw new Error('Failed to seek scenario');
+    }
+    const json = await response.json();
+    return scenarioRunnerSnapshotSchema.parse(json);
+  }
+
   async completeScenario(): Promise<ScenarioRunnerSnapshot> {
-    const response = await this.request(`${this.baseUrl}/api/scenarios/complete`, {
+    const response = await this.request(this.roomUrl('/api/scenarios/complete'), {
       method: 'POST',
     });
     if (!response.ok) {
@@ -695,8 +1671,43 @@ export class SsiSdk {
     return scenarioRunnerSnapshotSchema.parse(json);
   }
 
+  async getClock(): Promise<ClockState> {
+    const response = await this.request(this.roomUrl('/api/clock'));
+    if (!response.ok) {
+      throw new Error('Failed to fetch clock');
+    }
+    const json = await response.json();
+    return clockStateSchema.parse(json);
+  }
+
+  async updateClock(payload: ClockUpdateRequest): Promise<ClockState> {
+    const response = await this.request(this.roomUrl('/api/clock'), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
+    });
+    if (!response.ok) {
+      throw new Error('Failed to update clock');
+    }
+    const json = await response.json();
+    return clockStateSchema.parse(json);
+  }
+
+  async advanceClock(ms: number): Promise<ClockState> {
+    const response = await this.request(this.roomUrl('/api/clock/advance'), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ms }),
+    });
+    if (!response.ok) {
+      throw new Error('Failed to advance clock');
+    }
+    const json = await response.json();
+    return clockStateSchema.parse(json);
+  }
+
   async getTopology(): Promise<SiteTopology> {
-    const response = await this.request(`${this.baseUrl}/api/topology`);
+    const response = await this.request(this.roomUrl('/api/topology'));
     if (!response.ok) {
       throw new Error('Failed to fetch topology');
     }
@@ -705,7 +1716,7 @@ export class SsiSdk {
   }
 
   async updateTopology(topology: SiteTopology): Promise<SiteTopology> {
-    const response = await this.request(`${this.baseUrl}/api/topology`, {
+    const response = await this.request(this.roomUrl('/api/topology'), {
       method: 'PUT',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(topology),
@@ -719,11 +1730,42 @@ export class SsiSdk {
     return topologySchema.parse(json);
   }
 
+  private applySession(session: AuthSession): AuthSession;
+  private applySession(session: AuthSession | null): AuthSession | null;
+  private applySession(session: AuthSession | null): AuthSession | null {
+    this.accessToken = session?.accessToken;
+    this.refreshToken = session?.refreshToken;
+    this.onSessionChange?.(session);
+    return session;
+  }
+
   private async request(pathOrUrl: string | URL, init: RequestInit = {}): Promise<Response> {
+    if (!this.accessToken && this.refreshToken) {
+      await this.refreshSession();
+    }
+    const response = await this.send(pathOrUrl, init);
+    // Jeton d'accès expiré : un seul renouvellement, puis la requête est rejouée.
+    if (response.status === 401 && this.accessToken && (await this.refreshSession())) {
+      return this.send(pathOrUrl, init);
+    }
+    return response;
+  }
+
+  private async send(pathOrUrl: string | URL, init: RequestInit): Promise<Response> {
     const url = pathOrUrl instanceof URL ? pathOrUrl.toString() : pathOrUrl.startsWith('http') ? pathOrUrl : `${this.baseUrl}${pathOrUrl}`;
     const headers = new Headers(init.headers);
-    if (this.apiToken && !headers.has('Authorization')) {
-      headers.set('Authorization', `Bearer ${this.apiToken}`);
+    const token = this.getAccessToken();
+    if (token && !headers.has('Authorization')) {
+      headers.set('Authorization', `Bearer ${token}`);
+    }
+    if (this.actorId && !headers.has(ACTOR_HEADER)) {
+      headers.set(ACTOR_HEADER, this.actorId);
+    }
+    if (this.stationId && !headers.has(STATION_HEADER)) {
+      headers.set(STATION_HEADER, this.stationId);
+    }
+    if (this.trainerConsole && !headers.has(CONSOLE_HEADER)) {
+      headers.set(CONSOLE_HEADER, '1');
     }
     if (!headers.has('Cache-Control')) {
       headers.set('Cache-Control', 'no-store');
@@ -734,8 +1776,16 @@ export class SsiSdk {
     return fetch(url, { ...init, headers, cache: 'no-store' });
   }
 
+  /** Préfixe une route d'exercice par la salle configurée (`/api/rooms/:roomId/...`). */
+  private roomUrl(path: string): string {
+    if (!this.roomId) {
+      return `${this.baseUrl}${path}`;
+    }
+    return `${this.baseUrl}/api/rooms/${encodeURIComponent(this.roomId)}${path.replace(/^\/api/, '')}`;
+  }
+
   private async post(path: string, body?: unknown) {
-    const response = await this.request(`${this.baseUrl}${path}`, {
+    const response = await this.request(this.roomUrl(path), {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: body ? JSON.stringify(body) : undefined,